@@ -0,0 +1,162 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface SavingsAccount {
+  community_currency_id: string;
+  currency_name: string;
+  currency_symbol: string;
+  community_name: string;
+  balance: number; // Deposited at the central bank
+  interest_earned: number; // Lifetime total
+  wallet_balance: number; // Available to deposit
+  policy_rate: number; // Current annual rate, 0.05 = 5%
+}
+
+export interface SavingsResult {
+  success: boolean;
+  balance?: number;
+  error?: string;
+}
+
+type CurrencyRow = {
+  id: string;
+  currency_name: string;
+  currency_symbol: string;
+  community: { name: string } | { name: string }[] | null;
+};
+
+async function getProfileId(supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("id")
+    .eq("auth_id", user.id)
+    .maybeSingle();
+
+  return profile?.id ?? null;
+}
+
+// ============================================================================
+// ACTION: Savings accounts
+// ============================================================================
+
+/**
+ * The user's savings at each central bank, including currencies they hold but have not deposited
+ */
+export async function getSavingsAccountsAction(): Promise<SavingsAccount[]> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) return [];
+
+  const [depositsResult, walletsResult] = await Promise.all([
+    supabase
+      .from("savings_deposits")
+      .select("community_currency_id, balance, interest_earned")
+      .eq("user_id", profileId),
+    supabase
+      .from("user_wallets")
+      .select("community_currency_id, community_coins")
+      .eq("user_id", profileId)
+      .eq("currency_type", "community"),
+  ]);
+
+  if (depositsResult.error) {
+    throw new Error(`Failed to load savings: ${depositsResult.error.message}`);
+  }
+
+  const deposits = new Map(
+    (depositsResult.data ?? []).map((row) => [row.community_currency_id as string, row])
+  );
+  const wallets = new Map(
+    (walletsResult.data ?? []).map((row) => [row.community_currency_id as string, Number(row.community_coins ?? 0)])
+  );
+
+  const currencyIds = Array.from(new Set([...deposits.keys(), ...wallets.keys()])).filter(Boolean);
+  if (currencyIds.length === 0) return [];
+
+  const [currenciesResult, policiesResult] = await Promise.all([
+    supabase
+      .from("community_currencies")
+      .select("id, currency_name, currency_symbol, community:communities(name)")
+      .in("id", currencyIds),
+    supabase
+      .from("community_monetary_policies")
+      .select("community_currency_id, policy_rate")
+      .in("community_currency_id", currencyIds),
+  ]);
+
+  const policyRates = new Map(
+    (policiesResult.data ?? []).map((row) => [row.community_currency_id as string, Number(row.policy_rate ?? 0)])
+  );
+
+  return ((currenciesResult.data ?? []) as unknown as CurrencyRow[])
+    .map((currency) => {
+      const deposit = deposits.get(currency.id);
+      const community = Array.isArray(currency.community) ? currency.community[0] : currency.community;
+      return {
+        community_currency_id: currency.id,
+        currency_name: currency.currency_name,
+        currency_symbol: currency.currency_symbol,
+        community_name: community?.name ?? "Unknown",
+        balance: Number(deposit?.balance ?? 0),
+        interest_earned: Number(deposit?.interest_earned ?? 0),
+        wallet_balance: wallets.get(currency.id) ?? 0,
+        policy_rate: policyRates.get(currency.id) ?? 0,
+      };
+    })
+    .sort((a, b) => b.balance - a.balance || b.wallet_balance - a.wallet_balance);
+}
+
+async function moveSavings(
+  rpcName: "deposit_savings" | "withdraw_savings",
+  communityCurrencyId: string,
+  amount: number
+): Promise<SavingsResult> {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { success: false, error: "Amount must be positive" };
+  }
+
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { data, error } = await supabase.rpc(rpcName, {
+    p_user_id: profileId,
+    p_community_currency_id: communityCurrencyId,
+    p_amount: amount,
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  if (!data?.success) {
+    return { success: false, error: data?.error ?? "Request failed" };
+  }
+
+  revalidatePath("/centralbank");
+  return { success: true, balance: Number(data.balance ?? 0) };
+}
+
+/**
+ * Move community currency from the wallet into central bank savings
+ */
+export async function depositSavingsAction(communityCurrencyId: string, amount: number): Promise<SavingsResult> {
+  return moveSavings("deposit_savings", communityCurrencyId, amount);
+}
+
+/**
+ * Move community currency from central bank savings back into the wallet
+ */
+export async function withdrawSavingsAction(communityCurrencyId: string, amount: number): Promise<SavingsResult> {
+  return moveSavings("withdraw_savings", communityCurrencyId, amount);
+}
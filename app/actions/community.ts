@@ -19,10 +19,11 @@ import {
 import { generateSlug, isColumnMissingError } from "@/lib/utils";
 import { logGameEvent } from "@/lib/logger";
 import { applyActionMorale } from "@/lib/morale";
-import { getRankLabel, validateRankAssignment, hasFullGovernanceAuthority, isSovereign } from "@/lib/governance";
+import { getRankLabel, validateRankAssignment, hasFullGovernanceAuthority, isSovereign, isElectedRank } from "@/lib/governance";
 import { updateMissionProgress } from "./missions";
 import { NotificationType } from "@/lib/types/notifications";
 import { recalculateIdeologyDebounced } from "./ideology";
+import { findActiveTreaty, describeTreatyBlock } from "@/lib/governance/treaties";
 
 const isValidHex = (hex: string) => /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(hex);
 
@@ -107,6 +108,21 @@ export async function declareWarAction(
       };
     }
 
+    // A peace treaty or ceasefire in force must end (lapse or repeal) first
+    const treaty = await findActiveTreaty(supabase, initiatorCommunityId, targetCommunityId);
+    if (treaty) {
+      const { data: targetCommunity } = await supabase
+        .from("communities")
+        .select("name")
+        .eq("id", targetCommunityId)
+        .maybeSingle();
+
+      return {
+        error: `${describeTreatyBlock(treaty, targetCommunity?.name ?? "this community")} War cannot be declared until it ends.`,
+        message: null,
+      };
+    }
+
     // Call the RPC to declare war
     const { data, error } = await supabase.rpc("declare_war", {
       p_initiator_community_id: initiatorCommunityId,
@@ -748,6 +764,21 @@ export async function assignRankAction(
       return { error: "Only the Sovereign can assign ranks.", message: null };
     }
 
+    // Elected members can only be removed by the next election
+    const { data: targetMember } = await supabase
+      .from("community_members")
+      .select("rank_tier")
+      .eq("community_id", communityId)
+      .eq("user_id", targetUserId)
+      .maybeSingle();
+
+    if (targetMember && isElectedRank(governanceType, targetMember.rank_tier)) {
+      return {
+        error: `${getRankLabel(governanceType, targetMember.rank_tier)} seats are held until the next election.`,
+        message: null,
+      };
+    }
+
     // Validate the rank assignment against governance rules
     const { data: currentRankMembers } = await supabase
       .from("community_members")
@@ -6,8 +6,12 @@ import type { SupabaseClient } from "@supabase/supabase-js";
 import type {
   CompanyType,
   ProductionRecipe,
+  RecipeIngredient,
   UserCompany,
   UserEmployment,
+  EmploymentContractType,
+  EmploymentNoticeSide,
+  EmploymentOffer,
   CreateCompanyInput,
   HireEmployeeInput,
   PerformWorkInput,
@@ -65,6 +69,30 @@ async function hydrateRegionNames<T extends { hex_id: string; custom_name: strin
   });
 }
 
+async function hydrateUpkeepStatus(
+  supabase: SupabaseClient,
+  companies: UserCompany[]
+): Promise<UserCompany[]> {
+  if (companies.length === 0) return companies;
+
+  const { data, error } = await supabase
+    .from("companies")
+    .select("id, status, cash_balance")
+    .in("id", companies.map((company) => company.id));
+
+  if (error) {
+    console.error("Error fetching company upkeep status:", error);
+    return companies;
+  }
+
+  const statusById = new Map((data || []).map((row) => [row.id, row]));
+  return companies.map((company) => ({
+    ...company,
+    status: statusById.get(company.id)?.status ?? company.status,
+    cash_balance: Number(statusById.get(company.id)?.cash_balance ?? company.cash_balance ?? 0),
+  }));
+}
+
 // ============================================================================
 // COMPANY TYPES & RECIPES (Config Data)
 // ============================================================================
@@ -123,6 +151,48 @@ export async function getCompanyTypes(): Promise<CompanyType[]> {
   return data || [];
 }
 
+/**
+ * Resolve the resource ids in each recipe's inputs and outputs to keys and
+ * names so multi-input recipes can be shown ingredient by ingredient
+ */
+async function withRecipeResources(
+  supabase: SupabaseClient,
+  recipes: ProductionRecipe[]
+): Promise<ProductionRecipe[]> {
+  const resourceIds = new Set<string>();
+  for (const recipe of recipes) {
+    Object.keys(recipe.inputs ?? {}).forEach((id) => resourceIds.add(id));
+    Object.keys(recipe.outputs ?? {}).forEach((id) => resourceIds.add(id));
+  }
+  if (resourceIds.size === 0) return recipes;
+
+  const { data: resources, error } = await supabase
+    .from("resources")
+    .select("id, key, name")
+    .in("id", Array.from(resourceIds));
+
+  if (error) {
+    console.error("Error fetching recipe resources:", error);
+    return recipes;
+  }
+
+  const resourceMap = new Map((resources ?? []).map((r) => [r.id, r]));
+  const toIngredient = (resourceId: string, quantity: number): RecipeIngredient => ({
+    resource_id: resourceId,
+    resource_key: resourceMap.get(resourceId)?.key ?? "",
+    resource_name: resourceMap.get(resourceId)?.name ?? "Unknown",
+    quantity: Number(quantity),
+  });
+
+  return recipes.map((recipe) => ({
+    ...recipe,
+    input_resources: Object.entries(recipe.inputs ?? {}).map(([id, qty]) => toIngredient(id, qty)),
+    output_resources: Object.entries(recipe.outputs ?? {}).map(([id, out]) =>
+      toIngredient(id, out?.base_quantity ?? 1)
+    ),
+  }));
+}
+
 export async function getProductionRecipes(): Promise<ProductionRecipe[]> {
   const supabase = await createSupabaseServerClient();
 
@@ -136,7 +206,7 @@ export async function getProductionRecipes(): Promise<ProductionRecipe[]> {
     return [];
   }
 
-  return data || [];
+  return withRecipeResources(supabase, data || []);
 }
 
 export async function getRecipesByIds(
@@ -156,7 +226,7 @@ export async function getRecipesByIds(
     return [];
   }
 
-  return data || [];
+  return withRecipeResources(supabase, data || []);
 }
 
 // ============================================================================
@@ -177,7 +247,7 @@ export async function getUserCompanies(
 
   if (!error) {
     const companies = (data || []) as UserCompany[];
-    return hydrateRegionNames(supabase, companies);
+    return hydrateRegionNames(supabase, await hydrateUpkeepStatus(supabase, companies));
   }
 
   // Fallback: some environments have a missing/broken RPC (common during iterative SQL changes).
@@ -231,7 +301,7 @@ export async function getUserCompanies(
     });
   }
 
-  return hydrateRegionNames(supabase, results);
+  return hydrateRegionNames(supabase, await hydrateUpkeepStatus(supabase, results));
 }
 
 export async function getCompanyById(
@@ -391,6 +461,13 @@ export async function getUserEmployments(
       company_id,
       wage_per_day_community_coin,
       hired_at,
+      contract_type,
+      wage_gold_per_day,
+      ends_at,
+      notice_days,
+      min_days_per_week,
+      terminates_at,
+      notice_given_by,
       companies:companies!inner(
         id,
         name,
@@ -414,6 +491,13 @@ export async function getUserEmployments(
     company_id: string;
     wage_per_day_community_coin: number | null;
     hired_at: string;
+    contract_type: EmploymentContractType | null;
+    wage_gold_per_day: number | null;
+    ends_at: string | null;
+    notice_days: number | null;
+    min_days_per_week: number | null;
+    terminates_at: string | null;
+    notice_given_by: EmploymentNoticeSide | null;
     companies?:
       | {
           id: string;
@@ -461,6 +545,13 @@ export async function getUserEmployments(
       can_work_today: Boolean(canWork),
       available_recipes: (company?.company_type?.can_produce_recipes ?? []) as string[],
       hired_at: contract.hired_at,
+      contract_type: contract.contract_type ?? "per_work",
+      wage_gold_per_day: Number(contract.wage_gold_per_day ?? 0),
+      ends_at: contract.ends_at,
+      notice_days: contract.notice_days ?? 0,
+      min_days_per_week: contract.min_days_per_week,
+      terminates_at: contract.terminates_at,
+      notice_given_by: contract.notice_given_by,
     });
   }
 
@@ -469,7 +560,7 @@ export async function getUserEmployments(
 
 export async function leaveEmployment(
   contractId: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; terminates_at?: string | null; error?: string }> {
   const supabase = await createSupabaseServerClient();
 
   const userId = await getPublicUserId(supabase);
@@ -495,27 +586,25 @@ export async function leaveEmployment(
     return { success: false, error: "Employment already ended" };
   }
 
-  const { data: updatedContracts, error } = await supabase
-    .from("employment_contracts")
-    .update({ active: false })
-    .eq("employee_id", userId)
-    .eq("company_id", contract.company_id)
-    .eq("active", true)
-    .select("id");
+  // Term contracts run out their notice period; per-work jobs end at once
+  const { data: result, error } = await supabase.rpc("give_employment_notice", {
+    p_user_id: userId,
+    p_contract_id: contractId,
+  });
 
   if (error) {
     console.error("Error leaving employment:", error);
     return { success: false, error: "Failed to leave employment" };
   }
 
-  if (!updatedContracts || updatedContracts.length === 0) {
-    return { success: false, error: "No active employment found to leave" };
+  if (!result?.success) {
+    return { success: false, error: result?.error ?? "Failed to leave employment" };
   }
 
   revalidatePath("/market");
   revalidatePath("/ventures");
 
-  return { success: true };
+  return { success: true, terminates_at: result.ended ? null : result.terminates_at };
 }
 
 // ============================================================================
@@ -755,7 +844,7 @@ export async function hireEmployee(
 
 export async function fireEmployee(
   contractId: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; terminates_at?: string | null; error?: string }> {
   const supabase = await createSupabaseServerClient();
 
   // Get public user ID
@@ -781,17 +870,17 @@ export async function fireEmployee(
     return { success: false, error: "Not authorized" };
   }
 
-  // Deactivate contract
-  const { error } = await supabase
-    .from("employment_contracts")
-    .update({ active: false })
-    .eq("id", contractId);
+  // Term contracts run out their notice period; per-work jobs end at once
+  const { data: result, error } = await supabase.rpc("give_employment_notice", {
+    p_user_id: userId,
+    p_contract_id: contractId,
+  });
 
-  if (error) {
-    return { success: false, error: "Failed to fire employee" };
+  if (error || !result?.success) {
+    return { success: false, error: result?.error ?? "Failed to fire employee" };
   }
 
-  return { success: true };
+  return { success: true, terminates_at: result.ended ? null : result.terminates_at };
 }
 
 // ============================================================================
@@ -953,6 +1042,14 @@ export interface CompanyEmployee {
   wage_per_day_community_coin: number;
   total_work_days: number;
   hired_at: string;
+  contract_type: EmploymentContractType;
+  wage_gold_per_day: number;
+  ends_at: string | null;
+  notice_days: number;
+  min_days_per_week: number | null;
+  terminates_at: string | null; // Set once notice has been given
+  notice_given_by: EmploymentNoticeSide | null;
+  pending_offer: EmploymentOffer | null;
 }
 
 export async function getCompanyEmployees(
@@ -971,6 +1068,13 @@ export async function getCompanyEmployees(
       wage_per_day_community_coin,
       total_work_days,
       hired_at,
+      contract_type,
+      wage_gold_per_day,
+      ends_at,
+      notice_days,
+      min_days_per_week,
+      terminates_at,
+      notice_given_by,
       employee:users!employee_id(username)
     `
     )
@@ -982,6 +1086,27 @@ export async function getCompanyEmployees(
     return [];
   }
 
+  const { data: offers } = await supabase
+    .from("employment_contract_offers")
+    .select("id, contract_id, wage_gold_per_day, term_days, notice_days, min_days_per_week, expires_at")
+    .eq("company_id", companyId)
+    .eq("status", "pending")
+    .gt("expires_at", new Date().toISOString());
+
+  const offersByContract = new Map(
+    (offers ?? []).map((offer) => [
+      offer.contract_id as string,
+      {
+        id: offer.id,
+        wage_gold_per_day: Number(offer.wage_gold_per_day),
+        term_days: offer.term_days,
+        notice_days: offer.notice_days,
+        min_days_per_week: offer.min_days_per_week,
+        expires_at: offer.expires_at,
+      } as EmploymentOffer,
+    ])
+  );
+
   type CompanyEmployeeRow = {
     id: string;
     employee_id: string;
@@ -990,6 +1115,13 @@ export async function getCompanyEmployees(
     wage_per_day_community_coin: number | null;
     total_work_days: number | null;
     hired_at: string;
+    contract_type: EmploymentContractType | null;
+    wage_gold_per_day: number | null;
+    ends_at: string | null;
+    notice_days: number | null;
+    min_days_per_week: number | null;
+    terminates_at: string | null;
+    notice_given_by: EmploymentNoticeSide | null;
     employee?: { username?: string | null } | null;
   };
 
@@ -1002,6 +1134,14 @@ export async function getCompanyEmployees(
     wage_per_day_community_coin: emp.wage_per_day_community_coin ?? 0,
     total_work_days: emp.total_work_days ?? 0,
     hired_at: emp.hired_at,
+    contract_type: emp.contract_type ?? "per_work",
+    wage_gold_per_day: Number(emp.wage_gold_per_day ?? 0),
+    ends_at: emp.ends_at,
+    notice_days: emp.notice_days ?? 0,
+    min_days_per_week: emp.min_days_per_week,
+    terminates_at: emp.terminates_at,
+    notice_given_by: emp.notice_given_by,
+    pending_offer: offersByContract.get(emp.id) ?? null,
   }));
 }
 
@@ -0,0 +1,418 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { findTradeEmbargo, getTradeCommunityIds } from "@/lib/governance/embargoes";
+import type {
+  CompanyCapTable,
+  CompanyResolutionKind,
+  CompanyResolutionStatus,
+  CompanyShareListing,
+  UserShareholding,
+} from "@/lib/types/companies";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ShareActionResult {
+  success: boolean;
+  listing_id?: string;
+  resolution_id?: string;
+  status?: CompanyResolutionStatus;
+  shares?: number;
+  gold_spent?: number;
+  paid_out?: number; // Dividend gold paid out of the company's cash
+  recipients?: number;
+  error?: string;
+}
+
+type ListingRow = {
+  id: string;
+  company_id: string;
+  seller_id: string;
+  shares_available: number;
+  price_per_share: number;
+  created_at: string;
+  company: { name: string; community_id: string | null; total_shares: number } | null;
+  seller: { username: string } | null;
+};
+
+const LISTING_SELECT = `
+  id,
+  company_id,
+  seller_id,
+  shares_available,
+  price_per_share,
+  created_at,
+  company:companies(name, community_id, total_shares),
+  seller:users!company_share_listings_seller_id_fkey(username)
+`;
+
+async function getProfileId(supabase: SupabaseClient): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("id")
+    .eq("auth_id", user.id)
+    .maybeSingle();
+
+  return profile?.id ?? null;
+}
+
+function toShareListing(row: ListingRow): CompanyShareListing {
+  return {
+    id: row.id,
+    company_id: row.company_id,
+    company_name: row.company?.name ?? "Unknown",
+    community_id: row.company?.community_id ?? null,
+    seller_id: row.seller_id,
+    seller_username: row.seller?.username ?? "Unknown",
+    shares_available: row.shares_available,
+    price_per_share: Number(row.price_per_share),
+    total_shares: row.company?.total_shares ?? 0,
+    created_at: row.created_at,
+  };
+}
+
+async function runSharesRpc(
+  rpcName:
+    | "issue_company_shares"
+    | "list_company_shares"
+    | "cancel_company_share_listing"
+    | "buy_company_shares"
+    | "declare_company_dividend"
+    | "propose_company_resolution"
+    | "vote_company_resolution",
+  params: Record<string, unknown>
+): Promise<ShareActionResult> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { data, error } = await supabase.rpc(rpcName, { p_user_id: profileId, ...params });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  if (!data?.success) {
+    return { success: false, error: data?.error ?? "Request failed" };
+  }
+
+  revalidatePath("/ventures");
+  revalidatePath("/market");
+  return data as ShareActionResult;
+}
+
+// ============================================================================
+// ACTION: Cap table and share market
+// ============================================================================
+
+/**
+ * Holders, open listings, dividend history and resolutions for one company
+ */
+export async function getCompanyCapTable(companyId: string): Promise<CompanyCapTable | null> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+
+  const { data: company, error } = await supabase
+    .from("companies")
+    .select("id, owner_id, total_shares")
+    .eq("id", companyId)
+    .maybeSingle();
+
+  if (error || !company) {
+    if (error) console.error("Error fetching company for cap table:", error);
+    return null;
+  }
+
+  const totalShares = Number(company.total_shares ?? 0);
+
+  const [holdingsRes, listingsRes, dividendsRes, resolutionsRes, voteRequiredRes] = await Promise.all([
+    supabase
+      .from("company_shareholdings")
+      .select("holder_id, shares, holder:users(username)")
+      .eq("company_id", companyId),
+    supabase
+      .from("company_share_listings")
+      .select(LISTING_SELECT)
+      .eq("company_id", companyId)
+      .eq("status", "active")
+      .order("price_per_share", { ascending: true }),
+    supabase
+      .from("company_dividends")
+      .select("id, total_amount, amount_per_share, paid_out, recipients, created_at")
+      .eq("company_id", companyId)
+      .order("created_at", { ascending: false })
+      .limit(20),
+    supabase
+      .from("company_resolutions")
+      .select(
+        "id, kind, status, payload, shares_for, shares_against, expires_at, created_at, proposer:users(username), votes:company_resolution_votes(voter_id, approve)"
+      )
+      .eq("company_id", companyId)
+      .order("created_at", { ascending: false })
+      .limit(20),
+    supabase.rpc("company_requires_shareholder_vote", { p_company_id: companyId }),
+  ]);
+
+  const listings = ((listingsRes.data ?? []) as unknown as ListingRow[]).map(toShareListing);
+
+  // Listed shares still belong to (and vote for) their seller
+  const holders = new Map<string, { username: string; held: number; listed: number }>();
+  for (const row of (holdingsRes.data ?? []) as unknown as {
+    holder_id: string;
+    shares: number;
+    holder: { username: string } | null;
+  }[]) {
+    holders.set(row.holder_id, { username: row.holder?.username ?? "Unknown", held: row.shares, listed: 0 });
+  }
+  for (const listing of listings) {
+    const entry = holders.get(listing.seller_id) ?? { username: listing.seller_username, held: 0, listed: 0 };
+    entry.listed += listing.shares_available;
+    holders.set(listing.seller_id, entry);
+  }
+
+  const shareholders = [...holders.entries()]
+    .map(([holderId, entry]) => {
+      const shares = entry.held + entry.listed;
+      return {
+        holder_id: holderId,
+        username: entry.username,
+        shares,
+        listed_shares: entry.listed,
+        percent: totalShares > 0 ? (shares / totalShares) * 100 : 0,
+        is_owner: holderId === company.owner_id,
+      };
+    })
+    .sort((a, b) => b.shares - a.shares);
+
+  const resolutions = ((resolutionsRes.data ?? []) as unknown as {
+    id: string;
+    kind: CompanyResolutionKind;
+    status: CompanyResolutionStatus;
+    payload: { max_wage?: number } | null;
+    shares_for: number;
+    shares_against: number;
+    expires_at: string;
+    created_at: string;
+    proposer: { username: string } | null;
+    votes: { voter_id: string; approve: boolean }[] | null;
+  }[]).map((row) => ({
+    id: row.id,
+    kind: row.kind,
+    // Votes are closed lazily in the database; show a lapsed vote as expired right away
+    status:
+      row.status === "open" && new Date(row.expires_at).getTime() <= Date.now()
+        ? ("expired" as const)
+        : row.status,
+    max_wage: row.payload?.max_wage ?? null,
+    proposed_by_username: row.proposer?.username ?? null,
+    shares_for: row.shares_for,
+    shares_against: row.shares_against,
+    my_vote: row.votes?.find((vote) => vote.voter_id === profileId)?.approve ?? null,
+    expires_at: row.expires_at,
+    created_at: row.created_at,
+  }));
+
+  return {
+    company_id: company.id,
+    owner_id: company.owner_id,
+    total_shares: totalShares,
+    viewer_id: profileId,
+    my_shares: shareholders.find((holder) => holder.holder_id === profileId)?.shares ?? 0,
+    is_owner: company.owner_id === profileId,
+    vote_required: Boolean(voteRequiredRes.data),
+    shareholders,
+    listings,
+    dividends: ((dividendsRes.data ?? []) as {
+      id: string;
+      total_amount: number;
+      amount_per_share: number;
+      paid_out: number;
+      recipients: number;
+      created_at: string;
+    }[]).map((row) => ({
+      ...row,
+      total_amount: Number(row.total_amount),
+      amount_per_share: Number(row.amount_per_share),
+      paid_out: Number(row.paid_out),
+    })),
+    resolutions,
+  };
+}
+
+/**
+ * Open share listings, cheapest first, optionally for companies in the given communities
+ */
+export async function getShareListings(params: { communityIds?: string[] } = {}): Promise<CompanyShareListing[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("company_share_listings")
+    .select(LISTING_SELECT)
+    .eq("status", "active")
+    .order("price_per_share", { ascending: true })
+    .limit(100);
+
+  if (error) {
+    console.error("Error fetching share listings:", error);
+    return [];
+  }
+
+  const listings = ((data ?? []) as unknown as ListingRow[]).map(toShareListing);
+  if (!params.communityIds?.length) return listings;
+
+  const communityIds = new Set(params.communityIds);
+  return listings.filter((listing) => listing.community_id && communityIds.has(listing.community_id));
+}
+
+/**
+ * Every company the current user holds shares in, including their own
+ */
+export async function getMyShareholdings(): Promise<UserShareholding[]> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) return [];
+
+  const [holdingsRes, listingsRes] = await Promise.all([
+    supabase
+      .from("company_shareholdings")
+      .select("company_id, shares, company:companies(name, owner_id, total_shares, company_type:company_types(key))")
+      .eq("holder_id", profileId),
+    supabase
+      .from("company_share_listings")
+      .select("company_id, shares_available, company:companies(name, owner_id, total_shares, company_type:company_types(key))")
+      .eq("seller_id", profileId)
+      .eq("status", "active"),
+  ]);
+
+  type HoldingCompany = {
+    name: string;
+    owner_id: string;
+    total_shares: number;
+    company_type: { key: string } | null;
+  } | null;
+
+  const byCompany = new Map<string, UserShareholding>();
+  const add = (companyId: string, shares: number, company: HoldingCompany) => {
+    if (!company) return;
+    const entry = byCompany.get(companyId) ?? {
+      company_id: companyId,
+      company_name: company.name,
+      company_type_key: company.company_type?.key ?? "",
+      shares: 0,
+      total_shares: company.total_shares,
+      is_owner: company.owner_id === profileId,
+    };
+    entry.shares += shares;
+    byCompany.set(companyId, entry);
+  };
+
+  for (const row of (holdingsRes.data ?? []) as unknown as { company_id: string; shares: number; company: HoldingCompany }[]) {
+    add(row.company_id, row.shares, row.company);
+  }
+  for (const row of (listingsRes.data ?? []) as unknown as {
+    company_id: string;
+    shares_available: number;
+    company: HoldingCompany;
+  }[]) {
+    add(row.company_id, row.shares_available, row.company);
+  }
+
+  return [...byCompany.values()].sort((a, b) => b.shares / b.total_shares - a.shares / a.total_shares);
+}
+
+/**
+ * Issue shares in one of the user's companies; all of them start with the owner
+ */
+export async function issueCompanySharesAction(companyId: string, totalShares: number): Promise<ShareActionResult> {
+  return runSharesRpc("issue_company_shares", {
+    p_company_id: companyId,
+    p_total_shares: Math.floor(totalShares),
+  });
+}
+
+export async function listCompanySharesAction(
+  companyId: string,
+  shares: number,
+  pricePerShare: number
+): Promise<ShareActionResult> {
+  return runSharesRpc("list_company_shares", {
+    p_company_id: companyId,
+    p_shares: Math.floor(shares),
+    p_price_per_share: pricePerShare,
+  });
+}
+
+export async function cancelShareListingAction(listingId: string): Promise<ShareActionResult> {
+  return runSharesRpc("cancel_company_share_listing", { p_listing_id: listingId });
+}
+
+/**
+ * Buy shares from a listing for gold. Blocked by embargoes like any other trade.
+ */
+export async function buyCompanySharesAction(listingId: string, shares: number): Promise<ShareActionResult> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { data: listing } = await supabase
+    .from("company_share_listings")
+    .select("seller_id")
+    .eq("id", listingId)
+    .maybeSingle();
+
+  if (listing) {
+    const [ownIds, sellerIds] = await Promise.all([
+      getTradeCommunityIds(supabase, profileId),
+      getTradeCommunityIds(supabase, listing.seller_id),
+    ]);
+    const block = await findTradeEmbargo(supabase, ownIds, sellerIds);
+    if (block) {
+      return { success: false, error: `Trade blocked: ${block.reason}` };
+    }
+  }
+
+  return runSharesRpc("buy_company_shares", {
+    p_listing_id: listingId,
+    p_shares: Math.floor(shares),
+  });
+}
+
+/**
+ * Pay a gold dividend for the whole company; every holder receives their
+ * pro-rata part from the company's cash
+ */
+export async function declareDividendAction(companyId: string, totalAmount: number): Promise<ShareActionResult> {
+  return runSharesRpc("declare_company_dividend", {
+    p_company_id: companyId,
+    p_total_amount: totalAmount,
+  });
+}
+
+export async function proposeCompanyResolutionAction(
+  companyId: string,
+  kind: CompanyResolutionKind,
+  maxWage?: number
+): Promise<ShareActionResult> {
+  return runSharesRpc("propose_company_resolution", {
+    p_company_id: companyId,
+    p_kind: kind,
+    p_max_wage: kind === "hire_wage" ? maxWage ?? null : null,
+  });
+}
+
+export async function voteCompanyResolutionAction(resolutionId: string, approve: boolean): Promise<ShareActionResult> {
+  return runSharesRpc("vote_company_resolution", {
+    p_resolution_id: resolutionId,
+    p_approve: approve,
+  });
+}
@@ -0,0 +1,293 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { findTradeEmbargo, getTradeCommunityIds } from "@/lib/governance/embargoes";
+import { COMPANY_UPKEEP_CONFIG, getCompanyDailyUpkeep } from "@/lib/company-config";
+import type {
+  CompanyAuctionLot,
+  CompanyDebt,
+  CompanyDebtKind,
+  CompanyFinances,
+  CompanyStatus,
+} from "@/lib/types/companies";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface UpkeepActionResult {
+  success: boolean;
+  status?: CompanyStatus;
+  cash_balance?: number;
+  highest_bid?: number;
+  error?: string;
+}
+
+type LotRow = {
+  id: string;
+  bankruptcy_id: string;
+  company_id: string | null;
+  lot_type: "company" | "inventory";
+  company_level: number | null;
+  quantity: number | null;
+  starting_bid: number;
+  highest_bid: number | null;
+  highest_bidder_id: string | null;
+  ends_at: string;
+  bankruptcy: { company_name: string; former_owner_id: string | null } | null;
+  company: { community_id: string | null; company_type: { key: string } | null } | null;
+  resource: { key: string; name: string } | null;
+  quality: { quality_level: number } | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function getProfileId(supabase: SupabaseClient): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("id")
+    .eq("auth_id", user.id)
+    .maybeSingle();
+
+  return profile?.id ?? null;
+}
+
+function getMinBid(lot: Pick<LotRow, "starting_bid" | "highest_bid">): number {
+  if (lot.highest_bid === null) return Number(lot.starting_bid);
+  const increment = 1 + COMPANY_UPKEEP_CONFIG.minBidIncrementPercent / 100;
+  return Math.ceil(Number(lot.highest_bid) * increment * 100) / 100;
+}
+
+async function runUpkeepRpc(
+  rpcName: "deposit_company_cash" | "withdraw_company_cash" | "pay_company_debt" | "place_company_auction_bid",
+  params: Record<string, unknown>
+): Promise<UpkeepActionResult> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { data, error } = await supabase.rpc(rpcName, { p_user_id: profileId, ...params });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  if (!data?.success) {
+    return { success: false, error: data?.error ?? "Request failed" };
+  }
+
+  revalidatePath("/ventures");
+  revalidatePath("/market");
+  return data as UpkeepActionResult;
+}
+
+// ============================================================================
+// ACTION: Company cash and upkeep
+// ============================================================================
+
+/**
+ * Cash balance, upkeep owed and debts for one company
+ */
+export async function getCompanyFinances(companyId: string): Promise<CompanyFinances | null> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+
+  const [companyRes, debtsRes] = await Promise.all([
+    supabase
+      .from("companies")
+      .select("id, owner_id, level, status, cash_balance, last_upkeep_at, upkeep_overdue_since")
+      .eq("id", companyId)
+      .maybeSingle(),
+    supabase
+      .from("company_debts")
+      .select("id, creditor_id, kind, amount, amount_paid, description, created_at, settled_at, creditor:users(username)")
+      .eq("company_id", companyId)
+      .order("created_at", { ascending: false })
+      .limit(50),
+  ]);
+
+  const company = companyRes.data;
+  if (companyRes.error || !company) {
+    if (companyRes.error) console.error("Error fetching company finances:", companyRes.error);
+    return null;
+  }
+
+  const dailyUpkeep = getCompanyDailyUpkeep(company.level ?? 1);
+  const lastUpkeepAt = new Date(company.last_upkeep_at).getTime();
+  const daysOwed = Math.max(0, Math.floor((Date.now() - lastUpkeepAt) / DAY_MS));
+
+  const debts: CompanyDebt[] = ((debtsRes.data ?? []) as unknown as {
+    id: string;
+    creditor_id: string;
+    kind: CompanyDebtKind;
+    amount: number;
+    amount_paid: number;
+    description: string | null;
+    created_at: string;
+    settled_at: string | null;
+    creditor: { username: string } | null;
+  }[]).map((row) => ({
+    id: row.id,
+    creditor_id: row.creditor_id,
+    creditor_username: row.creditor?.username ?? "Unknown",
+    kind: row.kind,
+    amount: Number(row.amount),
+    amount_paid: Number(row.amount_paid),
+    description: row.description,
+    created_at: row.created_at,
+    settled_at: row.settled_at,
+  }));
+
+  return {
+    company_id: company.id,
+    is_owner: profileId === company.owner_id,
+    status: company.status as CompanyStatus,
+    cash_balance: Number(company.cash_balance ?? 0),
+    daily_upkeep: dailyUpkeep,
+    upkeep_owed: daysOwed * dailyUpkeep,
+    next_upkeep_at: new Date(lastUpkeepAt + (daysOwed + 1) * DAY_MS).toISOString(),
+    grace_ends_at: company.upkeep_overdue_since
+      ? new Date(
+          new Date(company.upkeep_overdue_since).getTime() + COMPANY_UPKEEP_CONFIG.graceDays * DAY_MS
+        ).toISOString()
+      : null,
+    debts,
+  };
+}
+
+/**
+ * Move gold from the owner's wallet into the company. Overdue upkeep is paid
+ * from it straight away.
+ */
+export async function depositCompanyCashAction(companyId: string, amount: number): Promise<UpkeepActionResult> {
+  return runUpkeepRpc("deposit_company_cash", {
+    p_company_id: companyId,
+    p_amount: amount,
+  });
+}
+
+export async function withdrawCompanyCashAction(companyId: string, amount: number): Promise<UpkeepActionResult> {
+  return runUpkeepRpc("withdraw_company_cash", {
+    p_company_id: companyId,
+    p_amount: amount,
+  });
+}
+
+/**
+ * Pay an open debt from the company's cash, in full or as far as the cash
+ * goes
+ */
+export async function payCompanyDebtAction(debtId: string): Promise<UpkeepActionResult> {
+  return runUpkeepRpc("pay_company_debt", {
+    p_debt_id: debtId,
+  });
+}
+
+// ============================================================================
+// ACTION: Bankruptcy auctions
+// ============================================================================
+
+/**
+ * Open auction lots from bankrupt companies, optionally limited to companies
+ * in the given communities
+ */
+export async function getCompanyAuctionLots(
+  params: { communityIds?: string[] } = {}
+): Promise<CompanyAuctionLot[]> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+
+  const { data, error } = await supabase
+    .from("company_auction_lots")
+    .select(
+      `
+      id,
+      bankruptcy_id,
+      company_id,
+      lot_type,
+      company_level,
+      quantity,
+      starting_bid,
+      highest_bid,
+      highest_bidder_id,
+      ends_at,
+      bankruptcy:company_bankruptcies(company_name, former_owner_id),
+      company:companies(community_id, company_type:company_types(key)),
+      resource:resources(key, name),
+      quality:resource_qualities(quality_level)
+    `
+    )
+    .eq("status", "open")
+    .gt("ends_at", new Date().toISOString())
+    .order("ends_at", { ascending: true })
+    .limit(100);
+
+  if (error) {
+    console.error("Error fetching auction lots:", error);
+    return [];
+  }
+
+  const lots = ((data ?? []) as unknown as LotRow[]).map((row) => ({
+    id: row.id,
+    bankruptcy_id: row.bankruptcy_id,
+    company_id: row.company_id,
+    company_name: row.bankruptcy?.company_name ?? "Unknown",
+    company_type_key: row.company?.company_type?.key ?? null,
+    community_id: row.company?.community_id ?? null,
+    lot_type: row.lot_type,
+    company_level: row.company_level,
+    resource_key: row.resource?.key ?? null,
+    resource_name: row.resource?.name ?? null,
+    quality_level: row.quality?.quality_level ?? null,
+    quantity: row.quantity === null ? null : Number(row.quantity),
+    starting_bid: Number(row.starting_bid),
+    highest_bid: row.highest_bid === null ? null : Number(row.highest_bid),
+    min_bid: getMinBid(row),
+    is_highest_bidder: Boolean(profileId) && row.highest_bidder_id === profileId,
+    is_former_owner: Boolean(profileId) && row.bankruptcy?.former_owner_id === profileId,
+    ends_at: row.ends_at,
+  }));
+
+  if (!params.communityIds?.length) return lots;
+
+  const communityIds = new Set(params.communityIds);
+  return lots.filter((lot) => lot.community_id && communityIds.has(lot.community_id));
+}
+
+/**
+ * Bid gold on an auction lot. The bid is held until the lot closes and
+ * returned if someone outbids it.
+ */
+export async function placeAuctionBidAction(lotId: string, amount: number): Promise<UpkeepActionResult> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { data: lot } = await supabase
+    .from("company_auction_lots")
+    .select("company:companies(community_id)")
+    .eq("id", lotId)
+    .maybeSingle();
+
+  const communityId = (lot?.company as unknown as { community_id: string | null } | null)?.community_id;
+  if (communityId) {
+    const ownIds = await getTradeCommunityIds(supabase, profileId);
+    const block = await findTradeEmbargo(supabase, ownIds, [communityId]);
+    if (block) {
+      return { success: false, error: `Trade blocked: ${block.reason}` };
+    }
+  }
+
+  return runUpkeepRpc("place_company_auction_bid", {
+    p_lot_id: lotId,
+    p_amount: amount,
+  });
+}
@@ -0,0 +1,275 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { findTradeEmbargo, getTradeCommunityIds } from "@/lib/governance/embargoes";
+import type {
+  ProposeSupplyContractInput,
+  SupplyContract,
+  SupplyContractStatus,
+} from "@/lib/types/companies";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ContractActionResult {
+  success: boolean;
+  contract_id?: string;
+  status?: SupplyContractStatus;
+  paid?: number; // Escrow released to the supplier by a delivery
+  penalty_paid?: number;
+  error?: string;
+}
+
+type ContractRow = {
+  id: string;
+  buyer_id: string;
+  supplier_id: string;
+  buyer_company_id: string | null;
+  supplier_company_id: string | null;
+  proposed_by: string;
+  status: SupplyContractStatus;
+  resource_id: string;
+  quality_id: string;
+  quantity_per_delivery: number;
+  community_currency_id: string;
+  price_per_delivery: number;
+  penalty_per_miss: number;
+  delivery_interval_days: number;
+  total_deliveries: number;
+  deliveries_made: number;
+  deliveries_missed: number;
+  escrow_balance: number;
+  penalties_paid: number;
+  next_due_at: string | null;
+  proposal_expires_at: string;
+  metadata: { termination_reason?: string } | null;
+  created_at: string;
+  buyer: { username: string } | null;
+  supplier: { username: string } | null;
+  buyer_company: { name: string } | null;
+  supplier_company: { name: string } | null;
+  resource: { name: string } | null;
+  quality: { quality_level: number } | null;
+  currency: { currency_symbol: string } | null;
+};
+
+async function getProfileId(supabase: SupabaseClient): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("id")
+    .eq("auth_id", user.id)
+    .maybeSingle();
+
+  return profile?.id ?? null;
+}
+
+async function getEmbargoReason(supabase: SupabaseClient, userId: string, counterpartyId: string) {
+  const [ownIds, counterpartyIds] = await Promise.all([
+    getTradeCommunityIds(supabase, userId),
+    getTradeCommunityIds(supabase, counterpartyId),
+  ]);
+  const block = await findTradeEmbargo(supabase, ownIds, counterpartyIds);
+  return block ? `Trade blocked: ${block.reason}` : null;
+}
+
+function toSupplyContract(row: ContractRow, viewerId: string): SupplyContract {
+  const isBuyer = row.buyer_id === viewerId;
+  return {
+    id: row.id,
+    role: isBuyer ? "buyer" : "supplier",
+    status: row.status,
+    proposed_by_me: row.proposed_by === viewerId,
+    counterparty_id: isBuyer ? row.supplier_id : row.buyer_id,
+    counterparty_username: (isBuyer ? row.supplier?.username : row.buyer?.username) ?? "Unknown",
+    company_id: isBuyer ? row.buyer_company_id : row.supplier_company_id,
+    counterparty_company_name: (isBuyer ? row.supplier_company?.name : row.buyer_company?.name) ?? null,
+    resource_id: row.resource_id,
+    resource_name: row.resource?.name ?? "Unknown",
+    quality_id: row.quality_id,
+    quality_level: row.quality?.quality_level ?? 1,
+    quantity_per_delivery: Number(row.quantity_per_delivery),
+    community_currency_id: row.community_currency_id,
+    currency_symbol: row.currency?.currency_symbol ?? "",
+    price_per_delivery: Number(row.price_per_delivery),
+    penalty_per_miss: Number(row.penalty_per_miss),
+    delivery_interval_days: row.delivery_interval_days,
+    total_deliveries: row.total_deliveries,
+    deliveries_made: row.deliveries_made,
+    deliveries_missed: row.deliveries_missed,
+    escrow_balance: Number(row.escrow_balance),
+    penalties_paid: Number(row.penalties_paid),
+    next_due_at: row.next_due_at,
+    proposal_expires_at: row.proposal_expires_at,
+    termination_reason: row.metadata?.termination_reason ?? null,
+    created_at: row.created_at,
+  };
+}
+
+async function runContractRpc(
+  rpcName: "respond_supply_contract" | "cancel_supply_contract" | "deliver_supply_contract",
+  params: Record<string, unknown>
+): Promise<ContractActionResult> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { data, error } = await supabase.rpc(rpcName, { p_user_id: profileId, ...params });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  if (!data?.success) {
+    return { success: false, error: data?.error ?? "Request failed" };
+  }
+
+  revalidatePath("/ventures");
+  revalidatePath("/inventory");
+  return data as ContractActionResult;
+}
+
+// ============================================================================
+// ACTION: Supply contracts
+// ============================================================================
+
+/**
+ * The current user's supply contracts, on either side, newest first
+ */
+export async function getUserSupplyContracts(): Promise<SupplyContract[]> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) return [];
+
+  const { data, error } = await supabase
+    .from("supply_contracts")
+    .select(
+      `
+      *,
+      buyer:users!supply_contracts_buyer_id_fkey(username),
+      supplier:users!supply_contracts_supplier_id_fkey(username),
+      buyer_company:companies!supply_contracts_buyer_company_id_fkey(name),
+      supplier_company:companies!supply_contracts_supplier_company_id_fkey(name),
+      resource:resources(name),
+      quality:resource_qualities(quality_level),
+      currency:community_currencies(currency_symbol)
+    `
+    )
+    .or(`buyer_id.eq.${profileId},supplier_id.eq.${profileId}`)
+    .order("created_at", { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.error("Error fetching supply contracts:", error);
+    return [];
+  }
+
+  return ((data ?? []) as unknown as ContractRow[]).map((row) => toSupplyContract(row, profileId));
+}
+
+/**
+ * Offer a supply contract to another player, as either the buyer or the supplier
+ */
+export async function proposeSupplyContractAction(
+  input: ProposeSupplyContractInput
+): Promise<ContractActionResult> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { data: counterparty } = await supabase
+    .from("users")
+    .select("id")
+    .ilike("username", input.counterparty_username.trim())
+    .maybeSingle();
+
+  if (!counterparty) {
+    return { success: false, error: "No player with that username" };
+  }
+
+  const embargoReason = await getEmbargoReason(supabase, profileId, counterparty.id);
+  if (embargoReason) {
+    return { success: false, error: embargoReason };
+  }
+
+  const { data, error } = await supabase.rpc("propose_supply_contract", {
+    p_user_id: profileId,
+    p_role: input.role,
+    p_counterparty_id: counterparty.id,
+    p_company_id: input.company_id ?? null,
+    p_resource_id: input.resource_id,
+    p_quality_id: input.quality_id,
+    p_quantity_per_delivery: input.quantity_per_delivery,
+    p_community_currency_id: input.community_currency_id,
+    p_price_per_delivery: input.price_per_delivery,
+    p_penalty_per_miss: input.penalty_per_miss,
+    p_delivery_interval_days: input.delivery_interval_days,
+    p_total_deliveries: input.total_deliveries,
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  if (!data?.success) {
+    return { success: false, error: data?.error ?? "Request failed" };
+  }
+
+  revalidatePath("/ventures");
+  return { success: true, contract_id: data.contract_id, status: "proposed" };
+}
+
+/**
+ * Accept or reject a proposal made to the current user. Accepting as the
+ * buyer escrows the first delivery.
+ */
+export async function respondSupplyContractAction(
+  contractId: string,
+  accept: boolean,
+  companyId?: string | null
+): Promise<ContractActionResult> {
+  if (accept) {
+    const supabase = await createSupabaseServerClient();
+    const profileId = await getProfileId(supabase);
+    const { data: contract } = await supabase
+      .from("supply_contracts")
+      .select("buyer_id, supplier_id")
+      .eq("id", contractId)
+      .maybeSingle();
+
+    if (profileId && contract) {
+      const counterpartyId = contract.buyer_id === profileId ? contract.supplier_id : contract.buyer_id;
+      const embargoReason = await getEmbargoReason(supabase, profileId, counterpartyId);
+      if (embargoReason) {
+        return { success: false, error: embargoReason };
+      }
+    }
+  }
+
+  return runContractRpc("respond_supply_contract", {
+    p_contract_id: contractId,
+    p_accept: accept,
+    p_company_id: companyId ?? null,
+  });
+}
+
+/**
+ * Make this window's delivery from the supplier's inventory
+ */
+export async function deliverSupplyContractAction(contractId: string): Promise<ContractActionResult> {
+  return runContractRpc("deliver_supply_contract", { p_contract_id: contractId });
+}
+
+/**
+ * Withdraw a proposal, or terminate an active contract for one penalty
+ */
+export async function cancelSupplyContractAction(contractId: string): Promise<ContractActionResult> {
+  return runContractRpc("cancel_supply_contract", { p_contract_id: contractId });
+}
@@ -0,0 +1,488 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  GOVERNANCE_TYPES,
+  getElectionConfig,
+  getElectionSchedule,
+  getRankLabel,
+} from "@/lib/governance";
+import { parseTimeToMilliseconds } from "@/lib/governance/laws";
+import {
+  notifyCouncilElectionPhase,
+  notifyCouncilElected,
+} from "@/lib/services/community-notifications";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type CouncilElectionStatus = "candidacy" | "voting" | "completed" | "cancelled";
+
+export interface CouncilElection {
+  id: string;
+  community_id: string;
+  status: CouncilElectionStatus;
+  seats: number;
+  candidacy_ends_at: string;
+  voting_ends_at: string;
+  term_ends_at: string;
+  results: Array<{ user_id: string; votes: number; elected: boolean }> | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export interface CouncilCandidate {
+  id: string;
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+  statement: string | null;
+  votes: number | null; // Only revealed once the election is resolved
+  elected: boolean;
+}
+
+export interface CouncilElectionView {
+  election: CouncilElection | null;
+  phase: CouncilElectionStatus | null;
+  candidates: CouncilCandidate[];
+  userBallot: string[]; // Candidate ids the current user voted for
+  isCandidate: boolean;
+  canRun: boolean;
+  canVote: boolean;
+  electedRankLabel: string;
+}
+
+const MAX_STATEMENT_LENGTH = 280;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Helper to get the authenticated user's profile ID
+ */
+async function getProfileId() {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("id")
+    .eq("auth_id", user.id)
+    .maybeSingle();
+
+  if (!profile) throw new Error("Profile not found");
+  return { supabase, profileId: profile.id as string };
+}
+
+/**
+ * Effective phase of an election. Timestamps are authoritative so members are
+ * not blocked while the resolver has yet to advance the stored status.
+ */
+function getElectionPhase(election: CouncilElection, now = Date.now()): CouncilElectionStatus {
+  if (election.status === "completed" || election.status === "cancelled") {
+    return election.status;
+  }
+  if (now < new Date(election.candidacy_ends_at).getTime()) {
+    return "candidacy";
+  }
+  return "voting";
+}
+
+async function getOpenElection(
+  supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+  electionId: string
+): Promise<CouncilElection> {
+  const { data: election, error } = await supabase
+    .from("council_elections")
+    .select("*")
+    .eq("id", electionId)
+    .maybeSingle();
+
+  if (error || !election) {
+    throw new Error("Election not found");
+  }
+
+  const typedElection = election as CouncilElection;
+  if (
+    typedElection.status === "completed" ||
+    typedElection.status === "cancelled" ||
+    Date.now() >= new Date(typedElection.voting_ends_at).getTime()
+  ) {
+    throw new Error("This election has closed");
+  }
+
+  return typedElection;
+}
+
+async function getMemberRank(
+  supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+  communityId: string,
+  profileId: string
+): Promise<number | null> {
+  const { data: member } = await supabase
+    .from("community_members")
+    .select("rank_tier")
+    .eq("community_id", communityId)
+    .eq("user_id", profileId)
+    .maybeSingle();
+
+  return member?.rank_tier ?? null;
+}
+
+// ============================================================================
+// ACTION: Get the current (or most recent) council election
+// ============================================================================
+
+export async function getCouncilElectionAction(communityId: string): Promise<CouncilElectionView> {
+  const { supabase, profileId } = await getProfileId();
+
+  const { data: community } = await supabase
+    .from("communities")
+    .select("governance_type")
+    .eq("id", communityId)
+    .maybeSingle();
+
+  const governanceType = community?.governance_type || "monarchy";
+  const config = getElectionConfig(governanceType);
+  const emptyView: CouncilElectionView = {
+    election: null,
+    phase: null,
+    candidates: [],
+    userBallot: [],
+    isCandidate: false,
+    canRun: false,
+    canVote: false,
+    electedRankLabel: config ? getRankLabel(governanceType, config.electedRank) : "Councilor",
+  };
+
+  if (!config) {
+    return emptyView;
+  }
+
+  const { data: election } = await supabase
+    .from("council_elections")
+    .select("*")
+    .eq("community_id", communityId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!election) {
+    return emptyView;
+  }
+
+  const typedElection = election as CouncilElection;
+  const phase = getElectionPhase(typedElection);
+
+  const { data: candidateRows } = await supabase
+    .from("council_candidates")
+    .select("id, user_id, statement, created_at, users:user_id(username, avatar_url)")
+    .eq("election_id", typedElection.id)
+    .order("created_at", { ascending: true });
+
+  const resultsByUser = new Map(
+    (typedElection.results ?? []).map((result) => [result.user_id, result])
+  );
+
+  type CandidateRow = {
+    id: string;
+    user_id: string;
+    statement: string | null;
+    users: { username: string | null; avatar_url: string | null } | null;
+  };
+
+  const candidates: CouncilCandidate[] = ((candidateRows ?? []) as unknown as CandidateRow[]).map((row) => {
+    const result = resultsByUser.get(row.user_id);
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      username: row.users?.username ?? "Unknown",
+      avatar_url: row.users?.avatar_url ?? null,
+      statement: row.statement ?? null,
+      votes: result ? Number(result.votes) : null,
+      elected: result?.elected ?? false,
+    };
+  });
+
+  if (typedElection.results) {
+    candidates.sort((a, b) => (b.votes ?? 0) - (a.votes ?? 0));
+  }
+
+  const { data: ballotRows } = await supabase
+    .from("council_ballots")
+    .select("candidate_id")
+    .eq("election_id", typedElection.id)
+    .eq("voter_id", profileId);
+
+  const rankTier = await getMemberRank(supabase, communityId, profileId);
+  const isMember = rankTier !== null;
+  const isCandidate = candidates.some((candidate) => candidate.user_id === profileId);
+  const userBallot = (ballotRows ?? []).map((row: { candidate_id: string }) => row.candidate_id);
+
+  return {
+    election: typedElection,
+    phase,
+    candidates,
+    userBallot,
+    isCandidate,
+    canRun: isMember && rankTier !== 0 && phase === "candidacy" && !isCandidate,
+    canVote: isMember && phase === "voting" && userBallot.length === 0 && candidates.length > 0,
+    electedRankLabel: emptyView.electedRankLabel,
+  };
+}
+
+// ============================================================================
+// ACTION: Declare candidacy
+// ============================================================================
+
+export async function declareCandidacyAction(electionId: string, statement?: string) {
+  const { supabase, profileId } = await getProfileId();
+  const election = await getOpenElection(supabase, electionId);
+
+  if (getElectionPhase(election) !== "candidacy") {
+    throw new Error("Candidacy for this election has closed");
+  }
+
+  const rankTier = await getMemberRank(supabase, election.community_id, profileId);
+  if (rankTier === null) {
+    throw new Error("Only members can stand for election");
+  }
+  if (rankTier === 0) {
+    throw new Error("The head of state already holds a seat and cannot stand for council");
+  }
+
+  const trimmedStatement = statement?.trim() || null;
+  if (trimmedStatement && trimmedStatement.length > MAX_STATEMENT_LENGTH) {
+    throw new Error(`Statement must be at most ${MAX_STATEMENT_LENGTH} characters`);
+  }
+
+  // Use admin client: the RPC re-checks membership and the candidacy window
+  const { data: result, error } = await supabaseAdmin.rpc("declare_council_candidacy", {
+    p_election_id: electionId,
+    p_user_id: profileId,
+    p_statement: trimmedStatement,
+  });
+
+  if (error) {
+    throw new Error(`Failed to declare candidacy: ${error.message}`);
+  }
+  if (!result?.success) {
+    throw new Error(result?.error || "Failed to declare candidacy");
+  }
+
+  revalidatePath("/community");
+  return { success: true };
+}
+
+// ============================================================================
+// ACTION: Withdraw candidacy
+// ============================================================================
+
+export async function withdrawCandidacyAction(electionId: string) {
+  const { supabase, profileId } = await getProfileId();
+  const election = await getOpenElection(supabase, electionId);
+
+  if (getElectionPhase(election) !== "candidacy") {
+    throw new Error("Candidates cannot withdraw once voting has started");
+  }
+
+  const { error } = await supabase
+    .from("council_candidates")
+    .delete()
+    .eq("election_id", electionId)
+    .eq("user_id", profileId);
+
+  if (error) {
+    throw new Error(`Failed to withdraw candidacy: ${error.message}`);
+  }
+
+  revalidatePath("/community");
+  return { success: true };
+}
+
+// ============================================================================
+// ACTION: Cast a ballot (approval vote for up to `seats` candidates)
+// ============================================================================
+
+export async function castCouncilBallotAction(electionId: string, candidateIds: string[]) {
+  const { supabase, profileId } = await getProfileId();
+  const election = await getOpenElection(supabase, electionId);
+
+  if (getElectionPhase(election) !== "voting") {
+    throw new Error("Voting has not opened yet");
+  }
+
+  const rankTier = await getMemberRank(supabase, election.community_id, profileId);
+  if (rankTier === null) {
+    throw new Error("Only members can vote in council elections");
+  }
+
+  const uniqueCandidateIds = Array.from(new Set(candidateIds));
+  if (uniqueCandidateIds.length === 0) {
+    throw new Error("Select at least one candidate");
+  }
+  if (uniqueCandidateIds.length > election.seats) {
+    throw new Error(`You can vote for at most ${election.seats} candidates`);
+  }
+
+  // Use admin client: the RPC enforces the candidates, the seat cap and one ballot per voter atomically
+  const { data: result, error } = await supabaseAdmin.rpc("cast_council_ballot", {
+    p_election_id: electionId,
+    p_voter_id: profileId,
+    p_candidate_ids: uniqueCandidateIds,
+  });
+
+  if (error) {
+    throw new Error(`Failed to cast ballot: ${error.message}`);
+  }
+  if (!result?.success) {
+    throw new Error(result?.error || "Failed to cast ballot");
+  }
+
+  revalidatePath("/community");
+  return { success: true };
+}
+
+// ============================================================================
+// ACTION: Advance elections, rotate seats and call new elections (cron)
+// ============================================================================
+
+/**
+ * Resolve council elections (call periodically via cron)
+ */
+export async function resolveCouncilElectionsAction() {
+  const supabase = supabaseAdmin;
+  const now = new Date();
+  const nowIso = now.toISOString();
+  let advanced = 0;
+  let completed = 0;
+  let opened = 0;
+
+  // 1. Candidacy closed -> voting
+  const { data: toVoting, error: advanceError } = await supabase
+    .from("council_elections")
+    .update({ status: "voting" })
+    .eq("status", "candidacy")
+    .lte("candidacy_ends_at", nowIso)
+    .gt("voting_ends_at", nowIso)
+    .select("id, community_id");
+
+  if (advanceError) {
+    throw advanceError;
+  }
+
+  for (const election of toVoting ?? []) {
+    advanced += 1;
+    await notifyCouncilElectionPhase(election.community_id, election.id, "voting");
+  }
+
+  // 2. Polls closed -> tally and rotate seats
+  const { data: toComplete, error: completeFetchError } = await supabase
+    .from("council_elections")
+    .select("id, community_id")
+    .in("status", ["candidacy", "voting"])
+    .lte("voting_ends_at", nowIso);
+
+  if (completeFetchError) {
+    throw completeFetchError;
+  }
+
+  for (const election of toComplete ?? []) {
+    const { data: community } = await supabase
+      .from("communities")
+      .select("governance_type")
+      .eq("id", election.community_id)
+      .maybeSingle();
+
+    // The election seats the rank it was opened for; only skip it if the
+    // community has since left an elected governance type
+    if (!getElectionConfig(community?.governance_type || "monarchy")) continue;
+
+    const { data: result, error: rpcError } = await supabase.rpc("complete_council_election", {
+      p_election_id: election.id,
+    });
+
+    if (rpcError || !result?.success) {
+      console.error(`Failed to complete council election ${election.id}:`, rpcError);
+      continue;
+    }
+
+    completed += 1;
+
+    const electedIds: string[] = result.elected_user_ids ?? [];
+    const { data: electedUsers } = electedIds.length
+      ? await supabase.from("users").select("username").in("id", electedIds)
+      : { data: [] as Array<{ username: string }> };
+
+    await notifyCouncilElected(
+      election.community_id,
+      election.id,
+      (electedUsers ?? []).map((user: { username: string }) => user.username)
+    );
+  }
+
+  // 3. Call elections in communities whose council term is ending (or never elected)
+  const electedGovernanceTypes = Object.entries(GOVERNANCE_TYPES)
+    .filter(([, type]) => type.elections)
+    .map(([key]) => key);
+
+  const { data: communities, error: communitiesError } = await supabase
+    .from("communities")
+    .select("id, governance_type")
+    .in("governance_type", electedGovernanceTypes);
+
+  if (communitiesError) {
+    throw communitiesError;
+  }
+
+  for (const community of communities ?? []) {
+    const config = getElectionConfig(community.governance_type);
+    if (!config) continue;
+
+    const { data: latest } = await supabase
+      .from("council_elections")
+      .select("status, term_ends_at")
+      .eq("community_id", community.id)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latest && (latest.status === "candidacy" || latest.status === "voting")) {
+      continue;
+    }
+
+    // Open the next election early enough that the new council is seated as the term ends
+    if (latest?.status === "completed") {
+      const campaignMs =
+        parseTimeToMilliseconds(config.candidacyWindow) + parseTimeToMilliseconds(config.votingWindow);
+      if (now.getTime() < new Date(latest.term_ends_at).getTime() - campaignMs) {
+        continue;
+      }
+    }
+
+    const schedule = getElectionSchedule(config, now);
+    const { data: electionId, error: openError } = await supabase.rpc("open_council_election", {
+      p_community_id: community.id,
+      p_seats: config.seats,
+      p_elected_rank: config.electedRank,
+      p_candidacy_ends_at: schedule.candidacyEndsAt.toISOString(),
+      p_voting_ends_at: schedule.votingEndsAt.toISOString(),
+      p_term_ends_at: schedule.termEndsAt.toISOString(),
+    });
+
+    if (openError || !electionId) {
+      console.error(`Failed to open council election for ${community.id}:`, openError);
+      continue;
+    }
+
+    opened += 1;
+    await notifyCouncilElectionPhase(community.id, electionId, "candidacy");
+  }
+
+  return { advanced, completed, opened };
+}
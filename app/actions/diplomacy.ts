@@ -0,0 +1,169 @@
+"use server";
+
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { ATTACKER_VICTORY_STATUSES, DEFENDER_VICTORY_STATUSES } from "@/lib/battle/constants";
+import type { TreatyTerms, TreatyType } from "@/lib/governance/treaties";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface CommunityWarRecord {
+  enemy_id: string;
+  enemy_name: string;
+  enemy_slug: string | null;
+  status: "war" | "ceasefire";
+  since: string;
+  battles_won: number; // Battles this community won against the enemy since the war began
+  battles_lost: number;
+  battles_active: number;
+}
+
+export interface CommunityTreatyRecord {
+  id: string;
+  proposal_id: string;
+  treaty_type: TreatyType;
+  partner_id: string;
+  partner_name: string;
+  partner_slug: string | null;
+  terms: TreatyTerms;
+  starts_at: string;
+  ends_at: string | null;
+}
+
+export interface CommunityDiplomacyView {
+  wars: CommunityWarRecord[]; // Wars in progress, including paused ones
+  treaties: CommunityTreatyRecord[]; // Peace treaties and ceasefires in force
+}
+
+type DiplomacyRow = {
+  initiator_community_id: string;
+  target_community_id: string;
+  status: "war" | "ceasefire";
+  created_at: string;
+};
+
+type TreatyRow = Omit<CommunityTreatyRecord, "partner_id" | "partner_name" | "partner_slug"> & {
+  community_a_id: string;
+  community_b_id: string;
+};
+
+type BattleRow = {
+  attacker_community_id: string;
+  defender_community_id: string | null;
+  status: string;
+  created_at: string;
+};
+
+const WON_AS_ATTACKER = new Set<string>(ATTACKER_VICTORY_STATUSES);
+const WON_AS_DEFENDER = new Set<string>(DEFENDER_VICTORY_STATUSES);
+
+// ============================================================================
+// ACTION: War and treaty status
+// ============================================================================
+
+/**
+ * A community's wars (with the battle record against each enemy) and the
+ * treaties it is bound by. Diplomacy is public, so no membership is required.
+ */
+export async function getCommunityDiplomacyAction(communityId: string): Promise<CommunityDiplomacyView> {
+  const supabase = await createSupabaseServerClient();
+  const partyFilter = `initiator_community_id.eq.${communityId},target_community_id.eq.${communityId}`;
+
+  const [diplomacyResult, treatiesResult] = await Promise.all([
+    supabase
+      .from("diplomacy_states")
+      .select("initiator_community_id, target_community_id, status, created_at")
+      .or(partyFilter)
+      .in("status", ["war", "ceasefire"]),
+    supabase
+      .from("community_treaties")
+      .select("id, proposal_id, treaty_type, community_a_id, community_b_id, terms, starts_at, ends_at")
+      .or(`community_a_id.eq.${communityId},community_b_id.eq.${communityId}`)
+      .eq("status", "active")
+      .or(`ends_at.is.null,ends_at.gt.${new Date().toISOString()}`)
+      .order("starts_at", { ascending: false }),
+  ]);
+
+  if (diplomacyResult.error) {
+    throw new Error(`Failed to load wars: ${diplomacyResult.error.message}`);
+  }
+  if (treatiesResult.error) {
+    throw new Error(`Failed to load treaties: ${treatiesResult.error.message}`);
+  }
+
+  const wars = (diplomacyResult.data ?? []) as DiplomacyRow[];
+  const treaties = (treatiesResult.data ?? []) as TreatyRow[];
+
+  const otherParty = (a: string, b: string) => (a === communityId ? b : a);
+  const enemyIds = wars.map((war) => otherParty(war.initiator_community_id, war.target_community_id));
+  const partnerIds = treaties.map((treaty) => otherParty(treaty.community_a_id, treaty.community_b_id));
+  const communityIds = Array.from(new Set([...enemyIds, ...partnerIds]));
+
+  if (communityIds.length === 0) {
+    return { wars: [], treaties: [] };
+  }
+
+  const earliestWar = wars.reduce<string | null>(
+    (earliest, war) => (!earliest || war.created_at < earliest ? war.created_at : earliest),
+    null
+  );
+
+  const [{ data: communities }, { data: battles }] = await Promise.all([
+    supabase.from("communities").select("id, name, slug").in("id", communityIds),
+    earliestWar
+      ? supabase
+          .from("battles")
+          .select("attacker_community_id, defender_community_id, status, created_at")
+          .or(`attacker_community_id.eq.${communityId},defender_community_id.eq.${communityId}`)
+          .gte("created_at", earliestWar)
+      : Promise.resolve({ data: [] as BattleRow[] }),
+  ]);
+
+  const communityById = new Map((communities ?? []).map((community) => [community.id, community]));
+  const battleRows = (battles ?? []) as BattleRow[];
+
+  const warRecords = wars.map((war, index) => {
+    const enemyId = enemyIds[index];
+    const record: CommunityWarRecord = {
+      enemy_id: enemyId,
+      enemy_name: communityById.get(enemyId)?.name ?? "Unknown",
+      enemy_slug: communityById.get(enemyId)?.slug ?? null,
+      status: war.status,
+      since: war.created_at,
+      battles_won: 0,
+      battles_lost: 0,
+      battles_active: 0,
+    };
+
+    for (const battle of battleRows) {
+      if (battle.created_at < war.created_at) continue;
+
+      const attacking = battle.attacker_community_id === communityId && battle.defender_community_id === enemyId;
+      const defending = battle.defender_community_id === communityId && battle.attacker_community_id === enemyId;
+      if (!attacking && !defending) continue;
+
+      if (battle.status === "active") {
+        record.battles_active += 1;
+      } else if (attacking ? WON_AS_ATTACKER.has(battle.status) : WON_AS_DEFENDER.has(battle.status)) {
+        record.battles_won += 1;
+      } else if (attacking ? WON_AS_DEFENDER.has(battle.status) : WON_AS_ATTACKER.has(battle.status)) {
+        record.battles_lost += 1;
+      }
+    }
+
+    return record;
+  });
+
+  const treatyRecords = treaties.map(({ community_a_id, community_b_id, ...treaty }) => {
+    const partnerId = otherParty(community_a_id, community_b_id);
+    return {
+      ...treaty,
+      partner_id: partnerId,
+      partner_name: communityById.get(partnerId)?.name ?? "Unknown",
+      partner_slug: communityById.get(partnerId)?.slug ?? null,
+    };
+  });
+
+  return { wars: warRecords, treaties: treatyRecords };
+}
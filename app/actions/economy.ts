@@ -12,6 +12,9 @@ import type {
   CurrencyTransaction,
   InventoryByCategory,
   InventoryItem,
+  ShipInventoryInput,
+  ShippingResult,
+  StorageLocation,
 } from "@/lib/types/economy";
 
 // ============================================================================
@@ -454,6 +457,7 @@ export async function getCommunityCurrency(communityId: string) {
 
 const INVENTORY_CATEGORY_ORDER: InventoryByCategory["category"][] = [
   "product",
+  "intermediate",
   "raw_material",
 ];
 
@@ -470,14 +474,18 @@ const RESOURCE_SORT_ORDER: Record<string, number> = {
   food: 1,
   weapon: 2,
   ticket: 3,
-  grain: 4,
-  iron: 5,
-  oil: 6,
+  armor: 4,
+  rations: 5,
+  steel: 6,
+  grain: 7,
+  iron: 8,
+  oil: 9,
 };
 
 function normalizeInventoryCategories(data: any[]): InventoryByCategory[] {
   const grouped: Record<InventoryByCategory["category"], InventoryItem[]> = {
     raw_material: [],
+    intermediate: [],
     product: [],
   };
 
@@ -488,7 +496,9 @@ function normalizeInventoryCategories(data: any[]): InventoryByCategory[] {
     for (const item of items) {
       const normalized =
         INVENTORY_CATEGORY_OVERRIDES[item?.resource_key] ??
-        (categoryKey === "raw_material" || categoryKey === "product"
+        (categoryKey === "raw_material" ||
+        categoryKey === "intermediate" ||
+        categoryKey === "product"
           ? categoryKey
           : "product");
 
@@ -519,7 +529,8 @@ function normalizeInventoryCategories(data: any[]): InventoryByCategory[] {
 }
 
 /**
- * Get user's inventory grouped by category
+ * Get user's inventory at their current location, grouped by category.
+ * Goods left at other hexes are listed by getUserStorage.
  */
 export async function getUserInventory(
   userId?: string
@@ -546,7 +557,8 @@ export async function getUserInventory(
 }
 
 /**
- * Get community's inventory (treasury) grouped by category
+ * Get community's inventory (treasury) grouped by category. The stock is
+ * held at the community's capital.
  */
 export async function getCommunityInventory(
   communityId: string
@@ -627,6 +639,59 @@ export async function removeFromInventory(
   return data;
 }
 
+// ============================================================================
+// STORAGE & SHIPPING
+// ============================================================================
+
+/**
+ * Every hex where the current user keeps goods or owns a warehouse, with
+ * capacity and contents. Their current location comes first.
+ */
+export async function getUserStorage(): Promise<StorageLocation[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase.rpc("get_user_storage");
+
+  if (error) {
+    console.error("Error fetching storage:", error);
+    return [];
+  }
+
+  return ((data ?? []) as StorageLocation[]).map((location) => ({
+    ...location,
+    capacity: Number(location.capacity),
+    used: Number(location.used),
+    items: location.items.map((item) => ({ ...item, quantity: Number(item.quantity) })),
+  }));
+}
+
+/**
+ * Ship goods between two of the user's locations for travel tickets or gold
+ */
+export async function shipInventoryAction(input: ShipInventoryInput): Promise<ShippingResult> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase.rpc("ship_inventory", {
+    p_resource_id: input.resource_id,
+    p_quality_id: input.quality_id,
+    p_quantity: input.quantity,
+    p_from_hex: input.from_hex,
+    p_to_hex: input.to_hex,
+    p_payment: input.payment,
+  });
+
+  if (error) {
+    console.error("Error shipping inventory:", error);
+    return { success: false, error: error.message };
+  }
+  if (!data?.success) {
+    return { success: false, error: data?.error ?? "Shipping failed" };
+  }
+
+  revalidatePath("/inventory");
+  return data as ShippingResult;
+}
+
 /**
  * Get all resources
  */
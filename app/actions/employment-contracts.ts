@@ -0,0 +1,140 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import type { EmployerComplaintKind, EmploymentContractTerms } from "@/lib/types/companies";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface EmploymentActionResult {
+  success: boolean;
+  offer_id?: string;
+  status?: "accepted" | "declined";
+  ended?: boolean; // Notice: true when the job ended at once
+  terminates_at?: string;
+  reputation?: number;
+  error?: string;
+}
+
+async function getProfileId(supabase: SupabaseClient): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("id")
+    .eq("auth_id", user.id)
+    .maybeSingle();
+
+  return profile?.id ?? null;
+}
+
+async function runEmploymentRpc(
+  rpcName:
+    | "offer_employment_contract"
+    | "respond_employment_offer"
+    | "give_employment_notice"
+    | "file_employer_complaint",
+  params: Record<string, unknown>
+): Promise<EmploymentActionResult> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { data, error } = await supabase.rpc(rpcName, { p_user_id: profileId, ...params });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  if (!data?.success) {
+    return { success: false, error: data?.error ?? "Request failed" };
+  }
+
+  revalidatePath("/ventures");
+  revalidatePath("/market");
+  return data as EmploymentActionResult;
+}
+
+// ============================================================================
+// ACTION: Contract offers
+// ============================================================================
+
+/**
+ * Offer one of your employees a term contract. Replaces any offer they have
+ * not answered yet.
+ */
+export async function offerEmploymentContractAction(
+  contractId: string,
+  terms: EmploymentContractTerms
+): Promise<EmploymentActionResult> {
+  return runEmploymentRpc("offer_employment_contract", {
+    p_contract_id: contractId,
+    p_wage_gold_per_day: terms.wage_gold_per_day,
+    p_term_days: terms.term_days,
+    p_notice_days: terms.notice_days,
+    p_min_days_per_week: terms.min_days_per_week,
+  });
+}
+
+export async function respondEmploymentOfferAction(
+  offerId: string,
+  accept: boolean
+): Promise<EmploymentActionResult> {
+  return runEmploymentRpc("respond_employment_offer", {
+    p_offer_id: offerId,
+    p_accept: accept,
+  });
+}
+
+// ============================================================================
+// ACTION: Ending employment
+// ============================================================================
+
+/**
+ * Dismiss an employee or resign. Term contracts run out their notice period
+ * first; per-work jobs end at once.
+ */
+export async function giveEmploymentNoticeAction(contractId: string): Promise<EmploymentActionResult> {
+  return runEmploymentRpc("give_employment_notice", {
+    p_contract_id: contractId,
+  });
+}
+
+// ============================================================================
+// ACTION: Complaints and reputation
+// ============================================================================
+
+export async function fileEmployerComplaintAction(
+  companyId: string,
+  kind: EmployerComplaintKind,
+  description: string
+): Promise<EmploymentActionResult> {
+  return runEmploymentRpc("file_employer_complaint", {
+    p_company_id: companyId,
+    p_kind: kind,
+    p_description: description,
+  });
+}
+
+/**
+ * Employer reputation from 0 to 100, lowered by recent complaints and unpaid
+ * wages
+ */
+export async function getEmployerReputation(employerId: string): Promise<number | null> {
+  const supabase = await createSupabaseServerClient();
+  const { data, error } = await supabase.rpc("get_employer_reputation", {
+    p_employer_id: employerId,
+  });
+
+  if (error) {
+    console.error("Error fetching employer reputation:", error);
+    return null;
+  }
+
+  return Number(data);
+}
@@ -0,0 +1,74 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import type { FortificationType, RegionFortification } from "@/lib/regions/fortifications";
+
+export interface FortificationActionResult {
+  success: boolean;
+  level?: number;
+  error?: string;
+}
+
+async function getProfileId(supabase: SupabaseClient): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("id")
+    .eq("auth_id", user.id)
+    .maybeSingle();
+
+  return profile?.id ?? null;
+}
+
+/**
+ * Structures standing on a region
+ */
+export async function getHexFortifications(hexId: string): Promise<RegionFortification[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from("region_fortifications")
+    .select("structure_type, level")
+    .eq("hex_id", hexId);
+
+  if (error) {
+    throw new Error(`Failed to load fortifications: ${error.message}`);
+  }
+
+  return (data ?? []) as RegionFortification[];
+}
+
+/**
+ * Build a structure, or raise it one level. Gold comes from the owning
+ * community's treasury and materials from the leader's inventory.
+ */
+export async function buildFortification(
+  hexId: string,
+  structureType: FortificationType
+): Promise<FortificationActionResult> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { data, error } = await supabase.rpc("build_fortification", {
+    p_user_id: profileId,
+    p_hex_id: hexId,
+    p_structure_type: structureType,
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  if (!data?.success) {
+    return { success: false, error: data?.error ?? "Failed to build fortification" };
+  }
+
+  revalidatePath("/map");
+  return { success: true, level: data.level };
+}
@@ -12,19 +12,66 @@ import {
   calculateExpiresAt,
   parseTimeToMilliseconds,
   shouldProposalPass,
+  meetsQuorum,
+  getProposalOptions,
+  getEffectivePassingCondition,
+  tallyRankedChoice,
+  getVoteWeight,
+  isLawRepealable,
+  getAmendableFields,
+  resolveLawDuration,
+  isBilateralLaw,
+  getBilateralLawTypes,
   type GovernanceRules,
   type LawType,
+  type PassingCondition,
+  type RankedBallot,
+  type RankedChoiceResult,
 } from "@/lib/governance/laws";
+import { resolveDelegatedVotes, type VoteDelegation } from "@/lib/governance/delegation";
+import {
+  validateTreasuryPaymentTerms,
+  isRecurringPayment,
+  getNextPaymentAt,
+  describePaymentSchedule,
+  type TreasuryCurrency,
+  type TreasuryPaymentInterval,
+} from "@/lib/governance/treasury-spending";
+import {
+  getTreatyType,
+  normalizeTreatyTerms,
+  getDiplomacyStatus,
+  findActiveTreaty,
+  describeTreatyBlock,
+} from "@/lib/governance/treaties";
+import { normalizeRegionTransferTerms } from "@/lib/governance/region-transfers";
+import { normalizeEmbargoTerms } from "@/lib/governance/embargoes";
+import {
+  describeMonetaryPolicy,
+  describeOpenMarketOperation,
+  normalizeMonetaryPolicyTerms,
+  normalizeOpenMarketTerms,
+} from "@/lib/governance/monetary-policy";
+import {
+  EconomicTransactionService,
+  type TreasurySource,
+} from "@/lib/services/economic-transaction-service";
+import { getElectionConfig, getElectionSchedule } from "@/lib/governance";
 import { isSupabaseNetworkError } from "@/lib/utils";
 import {
   notifyLawPassed,
   notifyLawRejected,
   notifyLawExpired,
+  notifyLawLapsed,
   notifyLawProposed,
   notifyHeirAppointed,
   notifyBattleStarted,
+  notifyCouncilElectionPhase,
 } from "@/lib/services/community-notifications";
 
+// Treasury payments are only executable with the service role
+const treasuryTransactions = new EconomicTransactionService(supabaseAdmin);
+
 /**
  * Helper to get the authenticated user's profile ID
  */
@@ -111,14 +158,73 @@ export async function proposeLawAction(
 
     // Validate metadata
     const lawDef = getLawDefinition(lawType);
+    const optionMetadata = await validateProposalOptions(supabase, communityId, lawType, metadata);
     if (lawDef.requiresMetadata) {
       for (const field of lawDef.requiresMetadata) {
+        // Multi-option proposals fill the decided field with the ranked-choice winner
+        if (optionMetadata && field === lawDef.rankedChoice?.field) continue;
         if (!(field in metadata)) {
           throw new Error(`Missing required metadata field: ${field}`);
         }
       }
     }
 
+    // REPEAL_LAW / AMEND_LAW must target a law currently in force in this community
+    const isRevision = lawType === "REPEAL_LAW" || lawType === "AMEND_LAW";
+    let revisionMetadata: Record<string, unknown> = {};
+    if (isRevision) {
+      const target = await getEnactedLawTarget(
+        supabase,
+        communityId,
+        String(metadata.target_proposal_id),
+        lawType === "REPEAL_LAW" ? "repeal" : "amend"
+      );
+      if (lawType === "AMEND_LAW") {
+        normalizeAmendments(target, metadata.amendments);
+      }
+      revisionMetadata = { target_law_type: target.law_type };
+    }
+
+    // Optional sunset clause (validated against the law's duration options)
+    const duration = resolveLawDuration(lawType, metadata.duration);
+
+    // SPEND_TREASURY pays an existing user; only recurring payments can lapse
+    let treasuryMetadata: Record<string, unknown> = {};
+    if (lawType === "SPEND_TREASURY") {
+      treasuryMetadata = await validateTreasuryProposal(communityId, metadata, duration);
+    }
+
+    // PROPOSE_PEACE / CEASEFIRE need a war with the target; DECLARE_WAR is blocked by a treaty in force
+    let treatyMetadata: Record<string, unknown> = {};
+    if (getTreatyType(lawType)) {
+      treatyMetadata = await validateTreatyProposal(communityId, lawType, metadata);
+    } else if (lawType === "DECLARE_WAR" && metadata.target_community_id) {
+      const treaty = await findActiveTreaty(supabaseAdmin, communityId, String(metadata.target_community_id));
+      if (treaty) {
+        throw new Error(
+          `${describeTreatyBlock(treaty, metadata.target_community_name || "this community")} War cannot be declared until it ends.`
+        );
+      }
+    }
+
+    // TRANSFER_REGION needs a region we hold and a buyer that can pay
+    let regionTransferMetadata: Record<string, unknown> = {};
+    if (lawType === "TRANSFER_REGION") {
+      regionTransferMetadata = await validateRegionTransferProposal(communityId, metadata);
+    }
+
+    // EMBARGO needs a target that is not already under our embargo
+    let embargoMetadata: Record<string, unknown> = {};
+    if (lawType === "EMBARGO") {
+      embargoMetadata = await validateEmbargoProposal(communityId, metadata);
+    }
+
+    // MONETARY_POLICY / OPEN_MARKET_OPERATION need an issued currency (and, for operations, the funds)
+    let centralBankMetadata: Record<string, unknown> = {};
+    if (lawType === "MONETARY_POLICY" || lawType === "OPEN_MARKET_OPERATION") {
+      centralBankMetadata = await validateCentralBankProposal(communityId, lawType, metadata);
+    }
+
     // MESSAGE_OF_THE_DAY cooldown window (one announcement per 24h)
     if (lawType === "MESSAGE_OF_THE_DAY") {
       const { data: recentAnnouncement } = await supabase
@@ -146,24 +252,53 @@ export async function proposeLawAction(
     const timeToPassMs = parseTimeToMilliseconds(rules.timeToPass);
     console.log("[proposeLawAction] expiresAt:", expiresAt);
 
+    if (optionMetadata && timeToPassMs === 0) {
+      throw new Error("Instant laws cannot be put to a ranked vote");
+    }
+
     // Check for existing pending proposal of the same type
-    // MESSAGE_OF_THE_DAY and DECLARE_WAR can have duplicates
+    // MESSAGE_OF_THE_DAY, DECLARE_WAR and SPEND_TREASURY can have duplicates
+    // REPEAL_LAW / AMEND_LAW can only have one pending proposal per target law
+    // PROPOSE_PEACE / CEASEFIRE can only have one pending proposal per enemy
+    // TRANSFER_REGION can only have one pending proposal per region
+    // EMBARGO can only have one pending proposal per target
     // Other laws cannot have duplicates
-    if (lawType !== "MESSAGE_OF_THE_DAY" && lawType !== "DECLARE_WAR") {
-      const { data: existingProposal } = await supabase
+    if (lawType !== "MESSAGE_OF_THE_DAY" && lawType !== "DECLARE_WAR" && lawType !== "SPEND_TREASURY") {
+      let duplicateQuery = supabase
         .from("community_proposals")
         .select("id")
         .eq("community_id", communityId)
         .eq("law_type", lawType)
-        .eq("status", "pending")
-        .maybeSingle();
+        .eq("status", "pending");
+
+      if (isRevision) {
+        duplicateQuery = duplicateQuery.eq(
+          "metadata->>target_proposal_id",
+          String(metadata.target_proposal_id)
+        );
+      }
+
+      // A community at war on several fronts can negotiate with each enemy at once
+      if (getTreatyType(lawType) || lawType === "EMBARGO") {
+        duplicateQuery = duplicateQuery.eq(
+          "metadata->>target_community_id",
+          String(metadata.target_community_id)
+        );
+      }
+
+      // Several regions can be offered at once, but each only once
+      if (lawType === "TRANSFER_REGION") {
+        duplicateQuery = duplicateQuery.eq("metadata->>hex_id", String(metadata.hex_id));
+      }
+
+      const { data: existingProposal } = await duplicateQuery.maybeSingle();
 
       if (existingProposal) {
         throw new Error(`A proposal for "${lawDef.label}" is already pending`);
       }
     }
 
-    // Get proposer username for metadata (needed for CFC_ALLIANCE cross-community display)
+    // Get proposer username for metadata (needed for cross-community display of bilateral laws)
     const { data: proposerData } = await supabase
       .from("users")
       .select("username")
@@ -173,6 +308,14 @@ export async function proposeLawAction(
     // Add proposer info to metadata for laws that need it
     const enrichedMetadata = {
       ...metadata,
+      ...revisionMetadata,
+      ...optionMetadata,
+      ...treasuryMetadata,
+      ...treatyMetadata,
+      ...regionTransferMetadata,
+      ...embargoMetadata,
+      ...centralBankMetadata,
+      duration: duration ?? undefined,
       proposer_id: profileId,
       proposer_username: proposerData?.username || "Unknown",
     };
@@ -241,7 +384,8 @@ export async function proposeLawAction(
  */
 export async function voteOnProposalAction(
   proposalId: string,
-  vote: "yes" | "no"
+  vote: "yes" | "no" | "ranked",
+  ranking?: string[]
 ) {
   const supabase = await createSupabaseServerClient();
 
@@ -253,7 +397,7 @@ export async function voteOnProposalAction(
     // Get proposal details
     const { data: proposal, error: proposalError } = await supabase
       .from("community_proposals")
-      .select("community_id, law_type, status")
+      .select("community_id, law_type, status, metadata")
       .eq("id", proposalId)
       .single();
 
@@ -272,7 +416,17 @@ export async function voteOnProposalAction(
       throw new Error("This proposal is no longer open for voting");
     }
 
-    // Get community and user's rank (use let for CFC_ALLIANCE reassignment)
+    // Multi-option proposals take a ranked ballot instead of yes/no
+    const options = getProposalOptions(proposal.law_type as LawType, proposal.metadata);
+    const normalizedRanking = options ? normalizeRanking(options, ranking) : null;
+    if (options && vote !== "ranked") {
+      throw new Error("This proposal is decided by ranked choice. Rank the options to vote.");
+    }
+    if (!options && vote === "ranked") {
+      throw new Error("This proposal takes a yes or no vote");
+    }
+
+    // Get community and user's rank (use let for bilateral law reassignment)
     const { data: initialCommunity, error: communityError } = await supabase
       .from("communities")
       .select("governance_type")
@@ -291,11 +445,11 @@ export async function voteOnProposalAction(
     let community = initialCommunity;
     console.log("[voteOnProposalAction] community:", community);
 
-    // For CFC_ALLIANCE, check if user is a member of either the initiator or target community
+    // For bilateral laws (alliances, treaties), check if user is a member of either the initiator or target community
     let member: { rank_tier: number } | null = null;
     let userCommunity: string | null = null;
 
-    if (proposal.law_type === "CFC_ALLIANCE") {
+    if (isBilateralLaw(proposal.law_type as LawType)) {
       // Check initiator community
       const { data: initiatorMember } = await supabase
         .from("community_members")
@@ -343,7 +497,7 @@ export async function voteOnProposalAction(
         }
       }
     } else {
-      // For non-CFC laws, check only the proposal's community
+      // For other laws, check only the proposal's community
       const { data: regularMember, error: memberError } = await supabase
         .from("community_members")
         .select("rank_tier")
@@ -387,6 +541,7 @@ export async function voteOnProposalAction(
         proposal_id: proposalId,
         user_id: profileId,
         vote,
+        ranking: normalizedRanking,
       });
 
     if (voteError) {
@@ -459,6 +614,26 @@ export async function fastTrackProposalAction(proposalId: string) {
     throw new Error("This law cannot be fast-tracked");
   }
 
+  // Multi-option proposals are fast-tracked with the current ranked-choice leader
+  const { data: fastTracked } = await supabase
+    .from("community_proposals")
+    .select("metadata")
+    .eq("id", proposalId)
+    .single();
+  const options = getProposalOptions(proposal.law_type as LawType, fastTracked?.metadata);
+  if (options) {
+    const { rankedBallots } = await getProposalVoteCounts(proposalId, supabase, {
+      communityId: proposal.community_id,
+      rules,
+      lawType: proposal.law_type as LawType,
+    });
+    const { winner } = tallyRankedChoice(options, rankedBallots);
+    if (!winner) {
+      throw new Error("No ranked ballots have been cast yet");
+    }
+    await applyRankedChoiceWinner(supabase, proposalId, proposal.law_type as LawType, fastTracked?.metadata, winner);
+  }
+
   // Resolve the proposal immediately as passed
   const { error: updateError } = await supabase
     .from("community_proposals")
@@ -521,17 +696,6 @@ export async function resolveExpiredProposalsAction() {
 
   // For each proposal, check vote counts and resolve
   for (const proposal of expiredProposals) {
-    // Get vote counts for this proposal
-    const { data: votes, error: votesError } = await supabase
-      .from("proposal_votes")
-      .select("vote")
-      .eq("proposal_id", proposal.id);
-
-    if (votesError) continue;
-
-    const yesVotes = votes?.filter((v: any) => v.vote === "yes").length || 0;
-    const noVotes = votes?.filter((v: any) => v.vote === "no").length || 0;
-
     // Get community and governance type
     const { data: community } = await supabase
       .from("communities")
@@ -541,33 +705,81 @@ export async function resolveExpiredProposalsAction() {
 
     if (!community) continue;
 
-    // Get number of eligible voters in this community
-    const { data: members } = await supabase
-      .from("community_members")
-      .select("rank_tier")
-      .eq("community_id", proposal.community_id);
-
     const rules = getGovernanceRules(proposal.law_type as LawType, community.governance_type);
-    const eligibleVoters = members?.filter((m: any) =>
-      rules.voteAccessRanks.includes(m.rank_tier)
-    ).length || 0;
-
-    // Check if proposal passes
-    const passes = shouldProposalPass(
-      yesVotes,
-      noVotes,
-      eligibleVoters,
-      rules.passingCondition
-    );
 
-    // Determine if expired with no votes (true expiration) or just didn't pass
-    const hasVotes = yesVotes > 0 || noVotes > 0;
-    const status = passes ? "passed" : hasVotes ? "rejected" : "expired";
-    const notes = passes
-      ? `Proposal passed with ${yesVotes} yes votes`
-      : hasVotes
-      ? `Proposal rejected with ${yesVotes} yes votes and ${noVotes} no votes`
-      : "Proposal expired with no votes";
+    // Get (rank-weighted) vote counts and eligible voters for this proposal
+    const { yesVotes, noVotes, votes, rankedBallots } = await getProposalVoteCounts(proposal.id, supabase, {
+      communityId: proposal.community_id,
+      rules,
+      lawType: proposal.law_type as LawType,
+    });
+    const eligibleVoters = await countEligibleVoters(proposal.community_id, rules, supabase);
+
+    let status: "passed" | "rejected" | "expired";
+    let notes: string;
+    const options = getProposalOptions(proposal.law_type as LawType, proposal.metadata);
+
+    if (isBilateralLaw(proposal.law_type as LawType)) {
+      // Both governments must have approved by the deadline
+      const decision = await determineEarlyResolution(
+        yesVotes,
+        noVotes,
+        eligibleVoters,
+        rules,
+        votes,
+        proposal.community_id,
+        supabase,
+        proposal.law_type as LawType,
+        proposal.metadata
+      );
+      status = decision.status ?? (votes.length > 0 ? "rejected" : "expired");
+      notes = decision.reason
+        ?? (votes.length > 0
+          ? "Both communities did not approve before the deadline"
+          : "Proposal expired with no votes");
+    } else if (options) {
+      const decision = decideRankedChoice(
+        options,
+        rankedBallots,
+        eligibleVoters,
+        rules,
+        true,
+        proposal.metadata?.option_labels
+      );
+      status = decision.status ?? "expired";
+      notes = decision.reason ?? "Proposal expired with no ballots";
+      if (decision.winner) {
+        await applyRankedChoiceWinner(
+          supabase,
+          proposal.id,
+          proposal.law_type as LawType,
+          proposal.metadata,
+          decision.winner
+        );
+      }
+    } else {
+      // Check if proposal passes
+      const passes = shouldProposalPass(
+        yesVotes,
+        noVotes,
+        eligibleVoters,
+        rules.passingCondition,
+        rules.quorum
+      );
+
+      // Determine if expired with no votes or too few votes (true expiration) or just didn't pass
+      const hasVotes = yesVotes > 0 || noVotes > 0;
+      const hasQuorum = meetsQuorum(yesVotes + noVotes, eligibleVoters, rules.quorum);
+      status = passes ? "passed" : hasVotes && hasQuorum ? "rejected" : "expired";
+      notes = passes
+        ? `Proposal passed with ${yesVotes} yes votes`
+        : !hasVotes
+        ? "Proposal expired with no votes"
+        : !hasQuorum
+        ? describeMissedQuorum(yesVotes + noVotes, eligibleVoters, rules.quorum!)
+        : `Proposal rejected with ${yesVotes} yes votes and ${noVotes} no votes`;
+    }
+    const passes = status === "passed";
 
     // Update proposal status
     const { error: updateError } = await supabase
@@ -628,6 +840,92 @@ export async function resolveExpiredProposalsAction() {
   return { processed: expiredProposals.length };
 }
 
+/**
+ * Revert laws whose sunset clause has lapsed (call periodically via cron)
+ */
+export async function resolveLapsedLawsAction() {
+  const supabase = supabaseAdmin;
+
+  const { data: lapsedLaws, error: fetchError } = await supabase
+    .from("community_proposals")
+    .select("id, community_id, law_type, status, metadata, repealed_at, lapsed_at")
+    .eq("status", "passed")
+    .is("repealed_at", null)
+    .is("lapsed_at", null)
+    .lte("lapses_at", new Date().toISOString());
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  if (!lapsedLaws || lapsedLaws.length === 0) {
+    return { processed: 0 };
+  }
+
+  for (const law of lapsedLaws as EnactedLaw[]) {
+    try {
+      // A superseded rate law no longer has an effect of its own to revert
+      if (!(await isSupersededLaw(supabase, law))) {
+        await revertLawEffect(law, law.id, law.community_id, supabase);
+      }
+    } catch (e) {
+      // Log error but continue processing; the law is retried on the next run
+      console.error(`Failed to revert lapsed law ${law.law_type}:`, e);
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from("community_proposals")
+      .update({ lapsed_at: new Date().toISOString() })
+      .eq("id", law.id);
+
+    if (updateError) continue;
+
+    const lawDef = getLawDefinition(law.law_type);
+    await notifyLawLapsed(
+      law.community_id,
+      lawDef?.label || law.law_type,
+      law.id,
+      law.metadata?.proposer_id
+    );
+  }
+
+  return { processed: lapsedLaws.length };
+}
+
+/**
+ * Pay recurring treasury salaries and stipends that are due (call periodically via cron)
+ */
+export async function processTreasuryStipendsAction() {
+  const { data: dueStipends, error: fetchError } = await supabaseAdmin
+    .from("treasury_stipends")
+    .select("*")
+    .eq("status", "active")
+    .lte("next_payment_at", new Date().toISOString());
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  if (!dueStipends || dueStipends.length === 0) {
+    return { processed: 0, paid: 0 };
+  }
+
+  let paid = 0;
+  for (const stipend of dueStipends as TreasuryStipend[]) {
+    try {
+      if (await payTreasuryStipend(stipend)) {
+        paid++;
+      }
+    } catch (e) {
+      // Log error but continue processing; the stipend is retried on the next run
+      console.error(`Failed to pay treasury stipend ${stipend.id}:`, e);
+    }
+  }
+
+  return { processed: dueStipends.length, paid };
+}
+
 /**
  * Execute a law after it passes
  * This is called automatically when a proposal is resolved as "passed"
@@ -651,11 +949,37 @@ async function executeLawAction(
     throw new Error("Proposal not found");
   }
 
+  await applyLawEffect(lawType, proposal.metadata ?? {}, proposalId, communityId, supabase);
+
+  // Laws passed with a sunset clause record when they lapse
+  if (proposal.metadata?.duration) {
+    const { error: lapseError } = await supabase
+      .from("community_proposals")
+      .update({ lapses_at: calculateExpiresAt(proposal.metadata.duration).toISOString() })
+      .eq("id", proposalId);
+
+    if (lapseError) {
+      throw lapseError;
+    }
+  }
+}
+
+/**
+ * Apply the side effects of a law with the given terms.
+ * Shared by normal enactment and AMEND_LAW, which re-applies the target law with its new terms.
+ */
+async function applyLawEffect(
+  lawType: LawType,
+  metadata: Record<string, any>,
+  proposalId: string,
+  communityId: string,
+  supabase: SupabaseClient
+) {
   // Execute based on law type
   switch (lawType) {
     case "MESSAGE_OF_THE_DAY": {
-      const title = proposal.metadata?.title ?? "Community Message";
-      const content = proposal.metadata?.content ?? proposal.metadata?.message;
+      const title = metadata.title ?? "Community Message";
+      const content = metadata.content ?? metadata.message;
       if (!content) {
         throw new Error("Invalid metadata for MESSAGE_OF_THE_DAY");
       }
@@ -677,7 +1001,7 @@ async function executeLawAction(
     }
 
     case "DECLARE_WAR": {
-      const targetCommunityId = proposal.metadata?.target_community_id;
+      const targetCommunityId = metadata.target_community_id;
       if (!targetCommunityId) {
         throw new Error("Invalid metadata for DECLARE_WAR");
       }
@@ -703,7 +1027,7 @@ async function executeLawAction(
     }
 
     case "PROPOSE_HEIR": {
-      const targetUserId = proposal.metadata?.target_user_id;
+      const targetUserId = metadata.target_user_id;
       if (!targetUserId) {
         throw new Error("Invalid metadata for PROPOSE_HEIR");
       }
@@ -730,14 +1054,14 @@ async function executeLawAction(
           communityId,
           heirUser.username,
           targetUserId,
-          proposal.metadata?.proposer_id
+          metadata.proposer_id
         );
       }
       break;
     }
 
     case "CHANGE_GOVERNANCE": {
-      const newGovernanceType = proposal.metadata?.new_governance_type;
+      const newGovernanceType = metadata.new_governance_type;
       if (!newGovernanceType) {
         throw new Error("Invalid metadata for CHANGE_GOVERNANCE");
       }
@@ -750,14 +1074,45 @@ async function executeLawAction(
       if (error) {
         throw error;
       }
+
+      // Governance types with elected ranks hold their first election right away;
+      // the sitting council serves until it is seated
+      const electionConfig = getElectionConfig(newGovernanceType);
+      if (electionConfig) {
+        const schedule = getElectionSchedule(electionConfig);
+        // Use admin client: elections are only opened by law execution and the resolver
+        const { data: electionId, error: electionError } = await supabaseAdmin.rpc("open_council_election", {
+          p_community_id: communityId,
+          p_seats: electionConfig.seats,
+          p_elected_rank: electionConfig.electedRank,
+          p_candidacy_ends_at: schedule.candidacyEndsAt.toISOString(),
+          p_voting_ends_at: schedule.votingEndsAt.toISOString(),
+          p_term_ends_at: schedule.termEndsAt.toISOString(),
+        });
+
+        if (electionError) {
+          console.error("[CHANGE_GOVERNANCE] Failed to open council election:", electionError);
+          throw electionError;
+        }
+
+        await notifyCouncilElectionPhase(communityId, electionId, "candidacy");
+      } else {
+        // Leaving an elected model ends any election still in progress
+        const { error: cancelError } = await supabaseAdmin
+          .from("council_elections")
+          .update({ status: "cancelled", resolved_at: new Date().toISOString() })
+          .eq("community_id", communityId)
+          .in("status", ["candidacy", "voting"]);
+
+        if (cancelError) {
+          console.error("[CHANGE_GOVERNANCE] Failed to cancel council election:", cancelError);
+        }
+      }
       break;
     }
 
     case "WORK_TAX": {
-      const taxRate = proposal.metadata?.tax_rate;
-      if (typeof taxRate !== "number" || taxRate < 0 || taxRate > 1) {
-        throw new Error("Invalid tax rate. Must be between 0 and 1 (e.g., 0.10 for 10%)");
-      }
+      const taxRate = validateRateTerm(metadata.tax_rate, "tax rate", "0.10 for 10%");
 
       const { error } = await supabase
         .from("communities")
@@ -771,10 +1126,7 @@ async function executeLawAction(
     }
 
     case "IMPORT_TARIFF": {
-      const tariffRate = proposal.metadata?.tariff_rate;
-      if (typeof tariffRate !== "number" || tariffRate < 0 || tariffRate > 1) {
-        throw new Error("Invalid tariff rate. Must be between 0 and 1 (e.g., 0.15 for 15%)");
-      }
+      const tariffRate = validateRateTerm(metadata.tariff_rate, "tariff rate", "0.15 for 15%");
 
       const { error } = await supabase
         .from("communities")
@@ -788,7 +1140,7 @@ async function executeLawAction(
     }
 
     case "CFC_ALLIANCE": {
-      const targetCommunityId = proposal.metadata?.target_community_id;
+      const targetCommunityId = metadata.target_community_id;
       if (!targetCommunityId) {
         throw new Error("Invalid metadata for CFC_ALLIANCE");
       }
@@ -879,34 +1231,149 @@ async function executeLawAction(
         communityId,
         `Alliance with ${targetCommunity?.name || "Unknown"} Activated`,
         proposalId,
-        proposal.metadata?.proposer_id
+        metadata.proposer_id
       );
 
       await notifyLawPassed(
         targetCommunityId,
         `Alliance with ${initiatorCommunity?.name || "Unknown"} Activated`,
         proposalId,
-        proposal.metadata?.proposer_id
+        metadata.proposer_id
       );
       break;
     }
 
-    case "ISSUE_CURRENCY": {
-      const goldAmount = proposal.metadata?.gold_amount;
-      const conversionRate = proposal.metadata?.conversion_rate;
+    case "PROPOSE_PEACE":
+    case "CEASEFIRE": {
+      const targetCommunityId = metadata.target_community_id;
+      if (!targetCommunityId) {
+        throw new Error(`Invalid metadata for ${lawType}`);
+      }
+
+      const treatyType = getTreatyType(lawType);
+      const terms = normalizeTreatyTerms(lawType, metadata, communityId);
+
+      // Use admin client: reparations, ceded regions and diplomacy are applied in one transaction
+      const { data: treatyResult, error: treatyError } = await supabaseAdmin.rpc("enact_community_treaty", {
+        p_proposal_id: proposalId,
+        p_treaty_type: treatyType,
+        p_community_a_id: communityId,
+        p_community_b_id: targetCommunityId,
+        p_terms: terms,
+        p_ends_at: metadata.duration ? calculateExpiresAt(metadata.duration).toISOString() : null,
+      });
 
-      if (typeof goldAmount !== "number" || goldAmount <= 0) {
-        throw new Error("Invalid gold amount. Must be greater than 0");
+      if (treatyError || !treatyResult?.success) {
+        console.error(`[${lawType}] Failed to enact treaty:`, treatyError);
+        throw new Error(treatyError?.message || treatyResult?.error || "Failed to enact treaty");
       }
 
-      if (typeof conversionRate !== "number" || conversionRate <= 0) {
-        throw new Error("Invalid conversion rate. Must be greater than 0");
+      const { data: parties } = await supabase
+        .from("communities")
+        .select("id, name")
+        .in("id", [communityId, targetCommunityId]);
+      const nameOf = (id: string) => parties?.find((party) => party.id === id)?.name || "Unknown";
+      const title = treatyType === "peace" ? "Peace Treaty with" : "Ceasefire with";
+
+      // Notify both communities
+      await notifyLawPassed(
+        communityId,
+        `${title} ${nameOf(targetCommunityId)} Signed`,
+        proposalId,
+        metadata.proposer_id
+      );
+
+      await notifyLawPassed(
+        targetCommunityId,
+        `${title} ${nameOf(communityId)} Signed`,
+        proposalId,
+        metadata.proposer_id
+      );
+      break;
+    }
+
+    case "TRANSFER_REGION": {
+      const terms = normalizeRegionTransferTerms(metadata, communityId);
+
+      // Use admin client: payment and ownership change happen in one transaction
+      const { data: transferResult, error: transferError } = await supabaseAdmin.rpc("transfer_community_region", {
+        p_proposal_id: proposalId,
+        p_hex_id: terms.hex_id,
+        p_from_community_id: communityId,
+        p_to_community_id: terms.target_community_id,
+        p_currency_type: terms.currency,
+        p_community_currency_id: terms.currency === "community" ? metadata.community_currency_id ?? null : null,
+        p_price: terms.price,
+      });
+
+      if (transferError || !transferResult?.success) {
+        console.error("[TRANSFER_REGION] Failed to transfer region:", transferError);
+        throw new Error(transferError?.message || transferResult?.error || "Failed to transfer region");
       }
 
-      if (goldAmount > 1000000) {
-        throw new Error("Gold amount cannot exceed 1,000,000");
+      const regionName = metadata.region_name || terms.hex_id;
+      const action = terms.price > 0 ? "Sold to" : "Ceded to";
+
+      // Notify both communities
+      await notifyLawPassed(
+        communityId,
+        `${regionName} ${action} ${metadata.target_community_name || "Unknown"}`,
+        proposalId,
+        metadata.proposer_id
+      );
+
+      await notifyLawPassed(
+        terms.target_community_id,
+        `${regionName} Acquired from ${metadata.seller_community_name || "Unknown"}`,
+        proposalId,
+        metadata.proposer_id
+      );
+      break;
+    }
+
+    case "EMBARGO": {
+      const terms = normalizeEmbargoTerms(metadata, communityId);
+
+      // Use admin client to bypass RLS (embargoes are only writable by law execution)
+      const { error: embargoError } = await supabaseAdmin.from("community_embargoes").insert({
+        proposal_id: proposalId,
+        community_id: communityId,
+        target_community_id: terms.target_community_id,
+        include_allies: terms.include_allies,
+        ends_at: metadata.duration ? calculateExpiresAt(metadata.duration).toISOString() : null,
+      });
+
+      if (embargoError) {
+        console.error("[EMBARGO] Failed to impose embargo:", embargoError);
+        throw embargoError;
       }
 
+      const { data: sanctioningCommunity } = await supabase
+        .from("communities")
+        .select("name")
+        .eq("id", communityId)
+        .single();
+
+      // Notify both communities
+      await notifyLawPassed(
+        communityId,
+        `Trade Embargo on ${metadata.target_community_name || "Unknown"} Imposed`,
+        proposalId,
+        metadata.proposer_id
+      );
+
+      await notifyLawPassed(
+        terms.target_community_id,
+        `${sanctioningCommunity?.name || "Unknown"} Imposed a Trade Embargo`,
+        proposalId,
+        metadata.proposer_id
+      );
+      break;
+    }
+
+    case "ISSUE_CURRENCY": {
+      const { goldAmount, conversionRate } = validateIssuanceTerms(metadata);
+
       // Call the issue_community_currency RPC function
       const { data: issuanceResult, error: issuanceError } = await supabase.rpc(
         "issue_community_currency",
@@ -935,63 +1402,1325 @@ async function executeLawAction(
         communityId,
         `Currency Issued: ${issuanceResult.currency_issued} ${currencyInfo?.currency_symbol || "coins"}`,
         proposalId,
-        proposal.metadata?.proposer_id
+        metadata.proposer_id
       );
 
       break;
     }
-  }
-}
 
-interface EarlyResolutionResult {
-  status?: "passed" | "rejected";
-  reason?: string;
-}
+    case "MONETARY_POLICY": {
+      const terms = normalizeMonetaryPolicyTerms(metadata);
+      const currency = await getIssuedCurrency(communityId);
+
+      // Use admin client to bypass RLS (policies are only writable by law execution)
+      const { error } = await supabaseAdmin
+        .from("community_monetary_policies")
+        .upsert(
+          {
+            community_currency_id: currency.id,
+            community_id: communityId,
+            proposal_id: proposalId,
+            policy_rate: terms.policy_rate,
+            reserve_ratio: terms.reserve_ratio,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "community_currency_id" }
+        );
 
-async function determineEarlyResolution(
-  yesVotes: number,
-  noVotes: number,
-  eligibleVoters: number,
-  rules: GovernanceRules,
-  votes: any[],
-  communityId: string,
-  supabaseClient: SupabaseClient,
-  lawType?: LawType,
-  proposalMetadata?: any
-): Promise<EarlyResolutionResult> {
-  // Special handling for CFC_ALLIANCE - requires both communities to approve
-  if (lawType === "CFC_ALLIANCE" && proposalMetadata?.target_community_id) {
-    const targetCommunityId = proposalMetadata.target_community_id;
+      if (error) {
+        throw error;
+      }
 
-    // Get votes from both communities
-    const initiatorVotes: any[] = [];
-    const targetVotes: any[] = [];
+      await notifyLawPassed(
+        communityId,
+        `Monetary Policy: ${describeMonetaryPolicy({ ...terms })}`,
+        proposalId,
+        metadata.proposer_id
+      );
+      break;
+    }
 
-    for (const vote of votes) {
-      if (!vote.user_id) continue;
+    case "OPEN_MARKET_OPERATION": {
+      const terms = normalizeOpenMarketTerms(metadata);
 
-      // Check which community this voter belongs to
-      const { data: initiatorMember } = await supabaseClient
-        .from("community_members")
-        .select("rank_tier")
-        .eq("community_id", communityId)
-        .eq("user_id", vote.user_id)
-        .maybeSingle();
+      const { data: operationResult, error: operationError } = await supabaseAdmin.rpc(
+        "place_open_market_operation",
+        {
+          p_proposal_id: proposalId,
+          p_community_id: communityId,
+          p_user_id: metadata.proposer_id,
+          p_operation: terms.operation,
+          p_gold_amount: terms.gold_amount,
+          p_currency_amount: terms.currency_amount,
+        }
+      );
 
-      if (initiatorMember) {
-        initiatorVotes.push({ ...vote, rank_tier: initiatorMember.rank_tier });
-        continue;
+      if (operationError || !operationResult?.success) {
+        console.error("Open-market operation error:", operationError);
+        throw new Error(operationError?.message || operationResult?.error || "Failed to place open-market order");
       }
 
-      const { data: targetMember } = await supabaseClient
-        .from("community_members")
-        .select("rank_tier")
-        .eq("community_id", targetCommunityId)
-        .eq("user_id", vote.user_id)
-        .maybeSingle();
-
-      if (targetMember) {
-        targetVotes.push({ ...vote, rank_tier: targetMember.rank_tier });
+      await notifyLawPassed(
+        communityId,
+        `Open-Market Operation: ${describeOpenMarketOperation(metadata)}`,
+        proposalId,
+        metadata.proposer_id
+      );
+      break;
+    }
+
+    case "SPEND_TREASURY": {
+      const terms = validateTreasuryPaymentTerms(metadata);
+      const source = await getTreasurySource(communityId, terms.currency);
+      const currencyLabel = terms.currency === "gold" ? "gold" : "community coins";
+      const recipientName = metadata.recipient_username || "Unknown";
+
+      if (!terms.interval) {
+        const payment = await treasuryTransactions.spendFromTreasury(
+          source,
+          terms.recipient_id,
+          terms.amount,
+          "treasury_grant",
+          { proposal_id: proposalId, purpose: terms.purpose },
+          `Treasury grant: ${terms.purpose}`
+        );
+
+        if (!payment.success) {
+          throw new Error(payment.error || "Failed to pay from treasury");
+        }
+
+        await notifyLawPassed(
+          communityId,
+          `Treasury Grant: ${terms.amount.toLocaleString()} ${currencyLabel} to ${recipientName}`,
+          proposalId,
+          metadata.proposer_id
+        );
+        break;
+      }
+
+      // AMEND_LAW re-applies an enacted salary with its new amount
+      const { data: existingStipend, error: stipendFetchError } = await supabaseAdmin
+        .from("treasury_stipends")
+        .select("id")
+        .eq("proposal_id", proposalId)
+        .maybeSingle();
+
+      if (stipendFetchError) {
+        throw stipendFetchError;
+      }
+
+      if (existingStipend) {
+        const { error } = await supabaseAdmin
+          .from("treasury_stipends")
+          .update({ amount: terms.amount })
+          .eq("id", existingStipend.id);
+
+        if (error) {
+          throw error;
+        }
+        break;
+      }
+
+      const { data: stipend, error: stipendError } = await supabaseAdmin
+        .from("treasury_stipends")
+        .insert({
+          community_id: communityId,
+          proposal_id: proposalId,
+          recipient_id: terms.recipient_id,
+          currency_type: source.currencyType,
+          community_currency_id: source.communityCurrencyId ?? null,
+          amount: terms.amount,
+          payment_interval: terms.interval,
+          purpose: terms.purpose,
+          next_payment_at: new Date().toISOString(),
+        })
+        .select("*")
+        .single();
+
+      if (stipendError || !stipend) {
+        throw stipendError ?? new Error("Failed to create recurring payment");
+      }
+
+      // The first payment is made on enactment; later ones by processTreasuryStipendsAction
+      await payTreasuryStipend(stipend as TreasuryStipend);
+
+      await notifyLawPassed(
+        communityId,
+        `Recurring Payment: ${terms.amount.toLocaleString()} ${currencyLabel} ${describePaymentSchedule(terms.interval)} to ${recipientName}`,
+        proposalId,
+        metadata.proposer_id
+      );
+      break;
+    }
+
+    case "REPEAL_LAW": {
+      const target = await getEnactedLawTarget(
+        supabase,
+        communityId,
+        String(metadata.target_proposal_id),
+        "repeal"
+      );
+
+      await revertLawEffect(target, proposalId, communityId, supabase);
+
+      const { error } = await supabase
+        .from("community_proposals")
+        .update({
+          repealed_at: new Date().toISOString(),
+          repealed_by_proposal_id: proposalId,
+        })
+        .eq("id", target.id);
+
+      if (error) {
+        throw error;
+      }
+      break;
+    }
+
+    case "AMEND_LAW": {
+      const target = await getEnactedLawTarget(
+        supabase,
+        communityId,
+        String(metadata.target_proposal_id),
+        "amend"
+      );
+
+      const amendments = normalizeAmendments(target, metadata.amendments);
+      const previousMetadata = target.metadata ?? {};
+      const amendedMetadata = { ...previousMetadata, ...amendments };
+
+      // Currency issuance is a one-off mint, so the original issuance is unwound before re-issuing
+      if (target.law_type === "ISSUE_CURRENCY") {
+        await revertLawEffect(target, proposalId, communityId, supabase);
+      }
+
+      await applyLawEffect(target.law_type, amendedMetadata, target.id, communityId, supabase);
+
+      const { error: targetError } = await supabase
+        .from("community_proposals")
+        .update({
+          metadata: amendedMetadata,
+          amended_at: new Date().toISOString(),
+          amended_by_proposal_id: proposalId,
+        })
+        .eq("id", target.id);
+
+      if (targetError) {
+        throw targetError;
+      }
+
+      // Keep the replaced terms on the amendment itself for the audit trail
+      const previousValues = Object.fromEntries(
+        Object.keys(amendments).map((field) => [field, previousMetadata[field] ?? null])
+      );
+
+      const { error: amendmentError } = await supabase
+        .from("community_proposals")
+        .update({ metadata: { ...metadata, previous_values: previousValues } })
+        .eq("id", proposalId);
+
+      if (amendmentError) {
+        throw amendmentError;
+      }
+      break;
+    }
+  }
+}
+
+type EnactedLaw = {
+  id: string;
+  community_id: string;
+  law_type: LawType;
+  status: string;
+  metadata: Record<string, any> | null;
+  repealed_at: string | null;
+  lapsed_at: string | null;
+};
+
+/**
+ * Whether a newer enactment of a rate-style law has replaced this one
+ */
+async function isSupersededLaw(supabase: SupabaseClient, law: EnactedLaw): Promise<boolean> {
+  if (!getLawDefinition(law.law_type).supersededByNewer) {
+    return false;
+  }
+
+  const { data: latest } = await supabase
+    .from("community_proposals")
+    .select("id")
+    .eq("community_id", law.community_id)
+    .eq("law_type", law.law_type)
+    .eq("status", "passed")
+    .is("repealed_at", null)
+    .is("lapsed_at", null)
+    .order("resolved_at", { ascending: false, nullsFirst: false })
+    .limit(1)
+    .maybeSingle();
+
+  return !!latest && latest.id !== law.id;
+}
+
+/**
+ * The latest other enactment of the same law type still in force, whose terms
+ * apply again once this law is repealed or lapses
+ */
+async function getPreviousLawInForce(
+  supabase: SupabaseClient,
+  law: EnactedLaw
+): Promise<{ id: string; metadata: Record<string, unknown> | null } | null> {
+  const { data: previous, error } = await supabase
+    .from("community_proposals")
+    .select("id, metadata")
+    .eq("community_id", law.community_id)
+    .eq("law_type", law.law_type)
+    .eq("status", "passed")
+    .is("repealed_at", null)
+    .is("lapsed_at", null)
+    .neq("id", law.id)
+    .order("resolved_at", { ascending: false, nullsFirst: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return previous;
+}
+
+/**
+ * Load a passed, non-repealed law that a REPEAL_LAW / AMEND_LAW proposal targets
+ */
+async function getEnactedLawTarget(
+  supabase: SupabaseClient,
+  communityId: string,
+  targetProposalId: string,
+  mode: "repeal" | "amend"
+): Promise<EnactedLaw> {
+  const { data: target, error } = await supabase
+    .from("community_proposals")
+    .select("id, community_id, law_type, status, metadata, repealed_at, lapsed_at")
+    .eq("id", targetProposalId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load target law: ${error.message}`);
+  }
+
+  // Alliances and treaties are shared, so the target community may also revise them
+  const isSharedTarget =
+    !!target && isBilateralLaw(target.law_type as LawType) && target.metadata?.target_community_id === communityId;
+
+  if (!target || (target.community_id !== communityId && !isSharedTarget)) {
+    throw new Error("Target law not found in this community");
+  }
+
+  if (target.status !== "passed") {
+    throw new Error("Only enacted laws can be repealed or amended");
+  }
+
+  if (target.repealed_at) {
+    throw new Error("This law has already been repealed");
+  }
+
+  if (target.lapsed_at) {
+    throw new Error("This law has already lapsed");
+  }
+
+  const lawType = target.law_type as LawType;
+  const lawDef = getLawDefinition(lawType);
+
+  if (mode === "repeal" && !isLawRepealable(lawType)) {
+    throw new Error(`${lawDef.label} laws cannot be repealed`);
+  }
+
+  if (mode === "amend" && getAmendableFields(lawType).length === 0) {
+    throw new Error(`${lawDef.label} laws cannot be amended`);
+  }
+
+  // A one-off grant is paid the moment it passes, leaving nothing to repeal or amend
+  if (lawType === "SPEND_TREASURY" && !isRecurringPayment(target.metadata)) {
+    throw new Error("One-off treasury grants are final once paid");
+  }
+
+  // Rate-style laws are replaced by newer enactments, so only the latest one is in force
+  if (await isSupersededLaw(supabase, target as EnactedLaw)) {
+    throw new Error(`This ${lawDef.label} law has been superseded by a newer one`);
+  }
+
+  return target as EnactedLaw;
+}
+
+/**
+ * Validate AMEND_LAW changes against the target law's amendable fields and the
+ * range checks its law type applies when proposed
+ */
+function normalizeAmendments(target: EnactedLaw, amendments: unknown): Record<string, number> {
+  const lawType = target.law_type;
+  if (!amendments || typeof amendments !== "object" || Array.isArray(amendments)) {
+    throw new Error("Amendments must list the fields to change");
+  }
+
+  const allowedFields = getAmendableFields(lawType);
+  const entries = Object.entries(amendments as Record<string, unknown>);
+
+  if (entries.length === 0) {
+    throw new Error("Amendments must change at least one field");
+  }
+
+  for (const [field, value] of entries) {
+    if (!allowedFields.includes(field)) {
+      throw new Error(`Field "${field}" cannot be amended on ${getLawDefinition(lawType).label}`);
+    }
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new Error(`Amended value for "${field}" must be a number`);
+    }
+  }
+
+  // The amended law must still be one that could have been proposed
+  const amendedTerms = { ...(target.metadata ?? {}), ...(amendments as Record<string, number>) };
+  switch (lawType) {
+    case "WORK_TAX":
+      validateRateTerm(amendedTerms.tax_rate, "tax rate", "0.10 for 10%");
+      break;
+    case "IMPORT_TARIFF":
+      validateRateTerm(amendedTerms.tariff_rate, "tariff rate", "0.15 for 15%");
+      break;
+    case "ISSUE_CURRENCY":
+      validateIssuanceTerms(amendedTerms);
+      break;
+    case "MONETARY_POLICY":
+      normalizeMonetaryPolicyTerms(amendedTerms);
+      break;
+    case "SPEND_TREASURY":
+      validateTreasuryPaymentTerms(amendedTerms);
+      break;
+  }
+
+  return amendments as Record<string, number>;
+}
+
+/**
+ * Validate a WORK_TAX / IMPORT_TARIFF rate (a fraction between 0 and 1)
+ */
+function validateRateTerm(rate: unknown, label: string, example: string): number {
+  if (typeof rate !== "number" || !Number.isFinite(rate) || rate < 0 || rate > 1) {
+    throw new Error(`Invalid ${label}. Must be between 0 and 1 (e.g., ${example})`);
+  }
+
+  return rate;
+}
+
+/**
+ * Validate ISSUE_CURRENCY terms. Throws on invalid terms.
+ */
+function validateIssuanceTerms(metadata: Record<string, unknown>): { goldAmount: number; conversionRate: number } {
+  const goldAmount = metadata.gold_amount;
+  const conversionRate = metadata.conversion_rate;
+
+  if (typeof goldAmount !== "number" || !Number.isFinite(goldAmount) || goldAmount <= 0) {
+    throw new Error("Invalid gold amount. Must be greater than 0");
+  }
+
+  if (typeof conversionRate !== "number" || !Number.isFinite(conversionRate) || conversionRate <= 0) {
+    throw new Error("Invalid conversion rate. Must be greater than 0");
+  }
+
+  if (goldAmount > 1000000) {
+    throw new Error("Gold amount cannot exceed 1,000,000");
+  }
+
+  return { goldAmount, conversionRate };
+}
+
+type TreasuryStipend = {
+  id: string;
+  community_id: string;
+  proposal_id: string;
+  recipient_id: string;
+  currency_type: TreasuryCurrency;
+  community_currency_id: string | null;
+  amount: number;
+  payment_interval: TreasuryPaymentInterval;
+  purpose: string;
+  next_payment_at: string;
+  payments_made: number;
+  missed_payments: number;
+};
+
+/**
+ * Validate SPEND_TREASURY terms at proposal time and return the metadata to store
+ */
+async function validateTreasuryProposal(
+  communityId: string,
+  metadata: Record<string, any>,
+  duration: string | null
+): Promise<Record<string, unknown>> {
+  const terms = validateTreasuryPaymentTerms(metadata);
+
+  if (duration && !terms.interval) {
+    throw new Error("Only recurring payments can carry a sunset clause");
+  }
+
+  const { data: recipient } = await supabaseAdmin
+    .from("users")
+    .select("username")
+    .eq("id", terms.recipient_id)
+    .maybeSingle();
+
+  if (!recipient) {
+    throw new Error("Recipient not found");
+  }
+
+  const source = await getTreasurySource(communityId, terms.currency);
+
+  // A one-off payment must be affordable now; recurring payments are checked each time they fall due
+  if (!terms.interval) {
+    let walletQuery = supabaseAdmin
+      .from("community_wallets")
+      .select("gold_coins, community_coins")
+      .eq("community_id", communityId)
+      .eq("currency_type", source.currencyType);
+    if (source.communityCurrencyId) {
+      walletQuery = walletQuery.eq("community_currency_id", source.communityCurrencyId);
+    }
+
+    const { data: wallet } = await walletQuery.maybeSingle();
+    const balance = Number(
+      (source.currencyType === "gold" ? wallet?.gold_coins : wallet?.community_coins) ?? 0
+    );
+
+    if (balance < terms.amount) {
+      throw new Error(
+        `Insufficient funds in treasury. Available: ${balance.toLocaleString()}, Required: ${terms.amount.toLocaleString()}`
+      );
+    }
+  }
+
+  return {
+    ...terms,
+    interval: terms.interval ?? undefined,
+    recipient_username: recipient.username || "Unknown",
+  };
+}
+
+/**
+ * The treasury wallet a SPEND_TREASURY payment is drawn from
+ */
+async function getTreasurySource(
+  communityId: string,
+  currency: TreasuryCurrency
+): Promise<TreasurySource> {
+  if (currency === "gold") {
+    return { communityId, currencyType: "gold" };
+  }
+
+  const { data: communityCurrency } = await supabaseAdmin
+    .from("community_currencies")
+    .select("id")
+    .eq("community_id", communityId)
+    .maybeSingle();
+
+  if (!communityCurrency) {
+    throw new Error("This community has not issued a currency");
+  }
+
+  return { communityId, currencyType: "community", communityCurrencyId: communityCurrency.id };
+}
+
+/**
+ * Make one scheduled payment. The slot is claimed by advancing next_payment_at
+ * first, so overlapping cron runs never pay the same period twice. A payment the
+ * treasury cannot cover is recorded as missed and not paid retroactively.
+ */
+async function payTreasuryStipend(stipend: TreasuryStipend): Promise<boolean> {
+  const nextPaymentAt = getNextPaymentAt(new Date(), stipend.payment_interval).toISOString();
+
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from("treasury_stipends")
+    .update({ next_payment_at: nextPaymentAt })
+    .eq("id", stipend.id)
+    .eq("status", "active")
+    .eq("next_payment_at", stipend.next_payment_at)
+    .select("id")
+    .maybeSingle();
+
+  if (claimError) {
+    throw claimError;
+  }
+
+  if (!claimed) {
+    return false;
+  }
+
+  const payment = await treasuryTransactions.spendFromTreasury(
+    {
+      communityId: stipend.community_id,
+      currencyType: stipend.currency_type,
+      communityCurrencyId: stipend.community_currency_id,
+    },
+    stipend.recipient_id,
+    Number(stipend.amount),
+    "treasury_stipend",
+    {
+      proposal_id: stipend.proposal_id,
+      stipend_id: stipend.id,
+      purpose: stipend.purpose,
+      payment_number: stipend.payments_made + 1,
+    },
+    `Treasury stipend: ${stipend.purpose}`
+  );
+
+  const { error: recordError } = await supabaseAdmin
+    .from("treasury_stipends")
+    .update(
+      payment.success
+        ? {
+            payments_made: stipend.payments_made + 1,
+            last_paid_at: new Date().toISOString(),
+            last_error: null,
+          }
+        : {
+            missed_payments: stipend.missed_payments + 1,
+            last_error: payment.error || "Payment failed",
+          }
+    )
+    .eq("id", stipend.id);
+
+  if (recordError) {
+    console.error(`Failed to record treasury stipend payment ${stipend.id}:`, recordError);
+  }
+
+  return payment.success;
+}
+
+/**
+ * Validate PROPOSE_PEACE / CEASEFIRE terms at proposal time and return the metadata to store
+ */
+async function validateTreatyProposal(
+  communityId: string,
+  lawType: LawType,
+  metadata: Record<string, any>
+): Promise<Record<string, unknown>> {
+  const terms = normalizeTreatyTerms(lawType, metadata, communityId);
+  const targetCommunityId = String(metadata.target_community_id);
+
+  const { data: parties } = await supabaseAdmin
+    .from("communities")
+    .select("id, name, capital_hex_id")
+    .in("id", [communityId, targetCommunityId]);
+
+  const targetCommunity = parties?.find((party) => party.id === targetCommunityId);
+  if (!targetCommunity) {
+    throw new Error("Target community not found");
+  }
+
+  // A ceasefire pauses an active war; peace can also end a paused one
+  const status = await getDiplomacyStatus(supabaseAdmin, communityId, targetCommunityId);
+  if (status !== "war" && !(lawType === "PROPOSE_PEACE" && status === "ceasefire")) {
+    throw new Error(
+      status === "ceasefire"
+        ? `A ceasefire with ${targetCommunity.name} is already in force`
+        : `You are not at war with ${targetCommunity.name}`
+    );
+  }
+
+  if (terms.reparations_gold > 0) {
+    const { data: wallet } = await supabaseAdmin
+      .from("community_wallets")
+      .select("gold_coins")
+      .eq("community_id", terms.reparations_payer_id)
+      .eq("currency_type", "gold")
+      .maybeSingle();
+    const balance = Number(wallet?.gold_coins ?? 0);
+
+    if (balance < terms.reparations_gold) {
+      throw new Error(
+        `The paying treasury cannot cover the reparations. Available: ${balance.toLocaleString()}, Required: ${terms.reparations_gold.toLocaleString()}`
+      );
+    }
+  }
+
+  if (terms.ceded_hex_ids.length > 0) {
+    const { data: regions } = await supabaseAdmin
+      .from("world_regions")
+      .select("hex_id, owner_community_id")
+      .in("hex_id", terms.ceded_hex_ids);
+
+    const ownerByHex = new Map((regions ?? []).map((region) => [region.hex_id, region.owner_community_id]));
+    const capitals = new Set((parties ?? []).map((party) => party.capital_hex_id).filter(Boolean));
+
+    for (const hexId of terms.ceded_hex_ids) {
+      const owner = ownerByHex.get(hexId);
+      if (owner !== communityId && owner !== targetCommunityId) {
+        throw new Error(`Region ${hexId} is not held by either party`);
+      }
+      if (capitals.has(hexId)) {
+        throw new Error(`Region ${hexId} is a capital and cannot be ceded`);
+      }
+    }
+  }
+
+  return {
+    ...terms,
+    target_community_name: targetCommunity.name,
+    reparations_payer_name: terms.reparations_payer_id
+      ? parties?.find((party) => party.id === terms.reparations_payer_id)?.name ?? "Unknown"
+      : undefined,
+  };
+}
+
+/**
+ * Validate TRANSFER_REGION terms at proposal time and return the metadata to store
+ */
+async function validateRegionTransferProposal(
+  communityId: string,
+  metadata: Record<string, any>
+): Promise<Record<string, unknown>> {
+  const terms = normalizeRegionTransferTerms(metadata, communityId);
+
+  const [{ data: parties }, { data: region }, { data: activeBattle }] = await Promise.all([
+    supabaseAdmin
+      .from("communities")
+      .select("id, name, capital_hex_id")
+      .in("id", [communityId, terms.target_community_id]),
+    supabaseAdmin
+      .from("world_regions")
+      .select("hex_id, owner_community_id, custom_name, province_name")
+      .eq("hex_id", terms.hex_id)
+      .maybeSingle(),
+    supabaseAdmin
+      .from("battles")
+      .select("id")
+      .eq("target_hex_id", terms.hex_id)
+      .eq("status", "active")
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  const seller = parties?.find((party) => party.id === communityId);
+  const buyer = parties?.find((party) => party.id === terms.target_community_id);
+  if (!buyer) {
+    throw new Error("Target community not found");
+  }
+
+  if (!region || region.owner_community_id !== communityId) {
+    throw new Error("Your community does not hold this region");
+  }
+  if (seller?.capital_hex_id === terms.hex_id) {
+    throw new Error("The capital cannot be transferred");
+  }
+  if (activeBattle) {
+    throw new Error("A region under attack cannot be transferred");
+  }
+
+  // A sale is paid in gold or in the buyer's own currency
+  let currencyMetadata: Record<string, unknown> = {};
+  if (terms.price > 0) {
+    let walletQuery = supabaseAdmin
+      .from("community_wallets")
+      .select("gold_coins, community_coins")
+      .eq("community_id", terms.target_community_id)
+      .eq("currency_type", terms.currency);
+
+    if (terms.currency === "community") {
+      const { data: buyerCurrency } = await supabaseAdmin
+        .from("community_currencies")
+        .select("id, currency_symbol")
+        .eq("community_id", terms.target_community_id)
+        .maybeSingle();
+
+      if (!buyerCurrency) {
+        throw new Error(`${buyer.name} has not issued a currency`);
+      }
+
+      walletQuery = walletQuery.eq("community_currency_id", buyerCurrency.id);
+      currencyMetadata = {
+        community_currency_id: buyerCurrency.id,
+        currency_symbol: buyerCurrency.currency_symbol,
+      };
+    }
+
+    const { data: wallet } = await walletQuery.maybeSingle();
+    const balance = Number(
+      (terms.currency === "gold" ? wallet?.gold_coins : wallet?.community_coins) ?? 0
+    );
+
+    if (balance < terms.price) {
+      throw new Error(
+        `${buyer.name} cannot afford the price. Available: ${balance.toLocaleString()}, Required: ${terms.price.toLocaleString()}`
+      );
+    }
+  }
+
+  return {
+    ...terms,
+    ...currencyMetadata,
+    target_community_name: buyer.name,
+    seller_community_name: seller?.name ?? "Unknown",
+    region_name: region.custom_name || region.province_name || terms.hex_id,
+  };
+}
+
+/**
+ * Validate EMBARGO terms at proposal time and return the metadata to store
+ */
+async function validateEmbargoProposal(
+  communityId: string,
+  metadata: Record<string, any>
+): Promise<Record<string, unknown>> {
+  const terms = normalizeEmbargoTerms(metadata, communityId);
+
+  const { data: targetCommunity } = await supabaseAdmin
+    .from("communities")
+    .select("name")
+    .eq("id", terms.target_community_id)
+    .maybeSingle();
+
+  if (!targetCommunity) {
+    throw new Error("Target community not found");
+  }
+
+  const { data: existing } = await supabaseAdmin
+    .from("community_embargoes")
+    .select("id")
+    .eq("community_id", communityId)
+    .eq("target_community_id", terms.target_community_id)
+    .eq("status", "active")
+    .or(`ends_at.is.null,ends_at.gt.${new Date().toISOString()}`)
+    .limit(1)
+    .maybeSingle();
+
+  if (existing) {
+    throw new Error(`An embargo on ${targetCommunity.name} is already in force`);
+  }
+
+  return {
+    ...terms,
+    target_community_name: targetCommunity.name,
+  };
+}
+
+/**
+ * The community's currency, which must have been issued before the central bank can manage it
+ */
+async function getIssuedCurrency(
+  communityId: string
+): Promise<{ id: string; currency_symbol: string; total_supply: number }> {
+  const { data: currency } = await supabaseAdmin
+    .from("community_currencies")
+    .select("id, currency_symbol, total_supply")
+    .eq("community_id", communityId)
+    .maybeSingle();
+
+  if (!currency || Number(currency.total_supply ?? 0) <= 0) {
+    throw new Error("The community has not issued a currency yet. Pass an Issue Currency law first");
+  }
+
+  return { ...currency, total_supply: Number(currency.total_supply) };
+}
+
+/**
+ * Validate MONETARY_POLICY / OPEN_MARKET_OPERATION terms at proposal time and return the metadata to store
+ */
+async function validateCentralBankProposal(
+  communityId: string,
+  lawType: "MONETARY_POLICY" | "OPEN_MARKET_OPERATION",
+  metadata: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const currency = await getIssuedCurrency(communityId);
+  const currencyMetadata = {
+    community_currency_id: currency.id,
+    currency_symbol: currency.currency_symbol,
+  };
+
+  if (lawType === "MONETARY_POLICY") {
+    return { ...normalizeMonetaryPolicyTerms(metadata), ...currencyMetadata };
+  }
+
+  const terms = normalizeOpenMarketTerms(metadata);
+
+  // The treasury must hold what it offers; the reserve requirement is checked again on execution
+  let walletQuery = supabaseAdmin
+    .from("community_wallets")
+    .select("gold_coins, community_coins")
+    .eq("community_id", communityId)
+    .eq("currency_type", terms.operation === "buy" ? "gold" : "community");
+
+  if (terms.operation === "sell") {
+    walletQuery = walletQuery.eq("community_currency_id", currency.id);
+  }
+
+  const { data: wallet } = await walletQuery.maybeSingle();
+  const available = Number(
+    (terms.operation === "buy" ? wallet?.gold_coins : wallet?.community_coins) ?? 0
+  );
+  const required = terms.operation === "buy" ? terms.gold_amount : terms.currency_amount;
+
+  if (available < required) {
+    const unit = terms.operation === "buy" ? "gold" : currency.currency_symbol;
+    throw new Error(
+      `Insufficient ${unit} in treasury. Available: ${available.toLocaleString()}, Required: ${required.toLocaleString()}`
+    );
+  }
+
+  return {
+    ...terms,
+    ...currencyMetadata,
+    exchange_rate: terms.gold_amount / terms.currency_amount,
+  };
+}
+
+/**
+ * Undo the side effects of an enacted law (used by REPEAL_LAW and AMEND_LAW)
+ */
+async function revertLawEffect(
+  target: EnactedLaw,
+  revokingProposalId: string,
+  communityId: string,
+  supabase: SupabaseClient
+) {
+  const metadata = target.metadata ?? {};
+
+  switch (target.law_type) {
+    // Rate laws fall back to the previous enactment still in force, or to no rate at all
+    case "WORK_TAX": {
+      const previous = await getPreviousLawInForce(supabase, target);
+      const { error } = await supabase
+        .from("communities")
+        .update({ work_tax_rate: Number(previous?.metadata?.tax_rate ?? 0) })
+        .eq("id", target.community_id);
+
+      if (error) {
+        throw error;
+      }
+      break;
+    }
+
+    case "IMPORT_TARIFF": {
+      const previous = await getPreviousLawInForce(supabase, target);
+      const { error } = await supabase
+        .from("communities")
+        .update({ import_tariff_rate: Number(previous?.metadata?.tariff_rate ?? 0) })
+        .eq("id", target.community_id);
+
+      if (error) {
+        throw error;
+      }
+      break;
+    }
+
+    case "MONETARY_POLICY": {
+      const previous = await getPreviousLawInForce(supabase, target);
+      const { error } = await supabaseAdmin
+        .from("community_monetary_policies")
+        .update({
+          policy_rate: Number(previous?.metadata?.policy_rate ?? 0),
+          reserve_ratio: Number(previous?.metadata?.reserve_ratio ?? 0),
+          proposal_id: previous?.id ?? null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("community_id", target.community_id);
+
+      if (error) {
+        throw error;
+      }
+      break;
+    }
+
+    case "OPEN_MARKET_OPERATION": {
+      const { data: cancellation, error } = await supabaseAdmin.rpc("cancel_open_market_operation", {
+        p_proposal_id: target.id,
+      });
+
+      if (error || !cancellation?.success) {
+        console.error("[OPEN_MARKET_OPERATION] Failed to withdraw order:", error);
+        throw new Error(error?.message || cancellation?.error || "Failed to withdraw open-market order");
+      }
+      break;
+    }
+
+    case "CFC_ALLIANCE": {
+      const allyCommunityId =
+        target.community_id === communityId ? metadata.target_community_id : target.community_id;
+      if (!allyCommunityId) {
+        throw new Error("Invalid metadata for CFC_ALLIANCE");
+      }
+
+      // Use admin client to bypass RLS (alliances are only writable by law execution)
+      const { error } = await supabaseAdmin
+        .from("community_alliances")
+        .update({
+          status: "dissolved",
+          ended_at: new Date().toISOString(),
+        })
+        .eq("status", "active")
+        .or(
+          `and(initiator_community_id.eq.${communityId},target_community_id.eq.${allyCommunityId}),` +
+          `and(initiator_community_id.eq.${allyCommunityId},target_community_id.eq.${communityId})`
+        );
+
+      if (error) {
+        console.error("[REPEAL_LAW] Failed to dissolve alliance:", error);
+        throw error;
+      }
+
+      const { data: repealingCommunity } = await supabase
+        .from("communities")
+        .select("name")
+        .eq("id", communityId)
+        .single();
+
+      // The repealing community is notified through the normal law lifecycle
+      await notifyLawPassed(
+        allyCommunityId,
+        `Alliance with ${repealingCommunity?.name || "Unknown"} Dissolved`,
+        revokingProposalId,
+        metadata.proposer_id
+      );
+      break;
+    }
+
+    case "EMBARGO": {
+      const { error } = await supabaseAdmin
+        .from("community_embargoes")
+        .update({
+          status: "lifted",
+          lifted_at: new Date().toISOString(),
+          lift_reason: revokingProposalId === target.id ? "lapsed" : "repealed",
+        })
+        .eq("proposal_id", target.id)
+        .eq("status", "active");
+
+      if (error) {
+        console.error("[EMBARGO] Failed to lift embargo:", error);
+        throw error;
+      }
+
+      const { data: sanctioningCommunity } = await supabase
+        .from("communities")
+        .select("name")
+        .eq("id", target.community_id)
+        .single();
+
+      // The sanctioning community is notified through the normal law lifecycle
+      if (metadata.target_community_id) {
+        await notifyLawPassed(
+          metadata.target_community_id,
+          `Trade Embargo by ${sanctioningCommunity?.name || "Unknown"} Lifted`,
+          revokingProposalId,
+          metadata.proposer_id
+        );
+      }
+      break;
+    }
+
+    case "ISSUE_CURRENCY": {
+      // Amounts are read from the enacted law inside the RPC, which only the service role may call
+      const { data: revocationResult, error: revocationError } = await supabaseAdmin.rpc(
+        "revoke_community_currency",
+        {
+          p_law_id: target.id,
+          p_revoking_law_id: revokingProposalId,
+        }
+      );
+
+      if (revocationError || !revocationResult?.success) {
+        console.error("Currency revocation error:", revocationError);
+        throw new Error(revocationError?.message || revocationResult?.error || "Failed to revoke currency");
+      }
+      break;
+    }
+
+    case "PROPOSE_PEACE":
+    case "CEASEFIRE": {
+      const otherCommunityId =
+        target.community_id === communityId ? metadata.target_community_id : target.community_id;
+      if (!otherCommunityId) {
+        throw new Error(`Invalid metadata for ${target.law_type}`);
+      }
+
+      // An ended ceasefire returns both sides to war; an ended peace treaty leaves them neutral
+      const { data: endResult, error } = await supabaseAdmin.rpc("end_community_treaty", {
+        p_proposal_id: target.id,
+        p_reason: revokingProposalId === target.id ? "lapsed" : "repealed",
+      });
+
+      if (error || !endResult?.success) {
+        console.error(`[${target.law_type}] Failed to end treaty:`, error);
+        throw new Error(error?.message || endResult?.error || "Failed to end treaty");
+      }
+
+      const { data: endingCommunity } = await supabase
+        .from("communities")
+        .select("name")
+        .eq("id", communityId)
+        .single();
+
+      // The ending community is notified through the normal law lifecycle
+      await notifyLawPassed(
+        otherCommunityId,
+        `${target.law_type === "CEASEFIRE" ? "Ceasefire" : "Peace Treaty"} with ${endingCommunity?.name || "Unknown"} Ended`,
+        revokingProposalId,
+        metadata.proposer_id
+      );
+      break;
+    }
+
+    case "SPEND_TREASURY": {
+      if (!isRecurringPayment(metadata)) {
+        throw new Error("One-off treasury grants cannot be reverted once paid");
+      }
+
+      // Payments already made are kept; the schedule simply stops
+      const { error } = await supabaseAdmin
+        .from("treasury_stipends")
+        .update({ status: "stopped", stopped_at: new Date().toISOString() })
+        .eq("proposal_id", target.id)
+        .eq("status", "active");
+
+      if (error) {
+        throw error;
+      }
+      break;
+    }
+
+    default:
+      throw new Error(`${getLawDefinition(target.law_type).label} laws cannot be reverted`);
+  }
+}
+
+interface EarlyResolutionResult {
+  status?: "passed" | "rejected";
+  reason?: string;
+}
+
+interface RankedChoiceDecision {
+  status?: "passed" | "rejected" | "expired";
+  reason?: string;
+  winner?: string;
+}
+
+type WeightedRankedBallot = RankedBallot & { rankTier: number | null };
+
+type ProposalVoteRecord = { vote: string; user_id: string; ranking: string[] | null };
+
+type DelegatedVote = {
+  delegator_id: string;
+  voter_id: string; // Member whose vote is counted for the delegator
+  via: string[]; // Intermediate delegates who did not vote
+  vote: string;
+  ranking: string[] | null;
+};
+
+/**
+ * Decide a multi-option proposal by instant-runoff. Before expiry a proposal
+ * only resolves once its outcome is certain: the sovereign has ranked the options
+ * (sovereign_only), every eligible voter has voted, or an option holds a
+ * first-preference majority of all eligible voters.
+ */
+function decideRankedChoice(
+  options: string[],
+  ballots: WeightedRankedBallot[],
+  eligibleVoters: number,
+  rules: GovernanceRules,
+  expired: boolean,
+  optionLabels: Record<string, string> = {}
+): RankedChoiceDecision {
+  if (rules.passingCondition === "sovereign_only") {
+    const sovereignBallot = ballots.find((ballot) => ballot.rankTier === 0);
+    if (sovereignBallot?.ranking[0]) {
+      return {
+        status: "passed",
+        reason: `Sovereign chose ${optionLabels[sovereignBallot.ranking[0]] ?? sovereignBallot.ranking[0]}.`,
+        winner: sovereignBallot.ranking[0],
+      };
+    }
+    return expired ? { status: "expired", reason: "The sovereign did not rank the options" } : {};
+  }
+
+  const turnout = ballots.reduce((total, ballot) => total + ballot.weight, 0);
+  if (turnout === 0) {
+    return expired ? { status: "expired", reason: "Proposal expired with no ballots" } : {};
+  }
+
+  const result = tallyRankedChoice(options, ballots);
+  const firstRound = result.rounds[0];
+  const hasFirstPreferenceMajority =
+    !!result.winner && firstRound.tallies[result.winner] * 2 > eligibleVoters;
+
+  if (!expired && turnout < eligibleVoters && !hasFirstPreferenceMajority) {
+    return {};
+  }
+
+  if (!meetsQuorum(turnout, eligibleVoters, rules.quorum)) {
+    return expired
+      ? { status: "expired", reason: describeMissedQuorum(turnout, eligibleVoters, rules.quorum!) }
+      : {};
+  }
+
+  if (!result.winner) {
+    return { status: "rejected", reason: "Every ballot was exhausted before an option won." };
+  }
+
+  return {
+    status: "passed",
+    reason: `${optionLabels[result.winner] ?? result.winner} won by ranked choice after ${result.rounds.length} round${
+      result.rounds.length === 1 ? "" : "s"
+    }.`,
+    winner: result.winner,
+  };
+}
+
+function describeMissedQuorum(turnout: number, eligibleVoters: number, quorum: number): string {
+  return `Quorum not reached (${turnout}/${eligibleVoters} votes cast, ${Math.round(quorum * 100)}% turnout required)`;
+}
+
+/**
+ * Record the ranked-choice winner in the field the law executes from
+ */
+async function applyRankedChoiceWinner(
+  supabase: SupabaseClient,
+  proposalId: string,
+  lawType: LawType,
+  metadata: Record<string, unknown> | null | undefined,
+  winner: string
+) {
+  const field = getLawDefinition(lawType).rankedChoice?.field;
+  if (!field) return;
+
+  const { error } = await supabase
+    .from("community_proposals")
+    .update({ metadata: { ...metadata, [field]: winner, ranked_choice_winner: winner } })
+    .eq("id", proposalId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Validate the options of a multi-option proposal.
+ * Returns the options and their display labels, or null for a yes/no proposal.
+ */
+async function validateProposalOptions(
+  supabase: SupabaseClient,
+  communityId: string,
+  lawType: LawType,
+  metadata: Record<string, unknown>
+): Promise<{ options: string[]; option_labels: Record<string, string> } | null> {
+  if (metadata.options === undefined) return null;
+
+  const rankedChoice = getLawDefinition(lawType).rankedChoice;
+  if (!rankedChoice) {
+    throw new Error("This law does not support multiple options");
+  }
+
+  const options = Array.isArray(metadata.options) ? metadata.options.map(String) : [];
+  if (options.length < 2 || options.length > rankedChoice.maxOptions) {
+    throw new Error(`A ranked vote needs between 2 and ${rankedChoice.maxOptions} options`);
+  }
+  if (new Set(options).size !== options.length) {
+    throw new Error("Ranked vote options must be unique");
+  }
+
+  if (lawType === "CHANGE_GOVERNANCE") {
+    const validTypes = ["monarchy", "democracy", "republic"];
+    if (options.some((option) => !validTypes.includes(option))) {
+      throw new Error("Invalid governance type option");
+    }
+    return {
+      options,
+      option_labels: Object.fromEntries(
+        options.map((option) => [option, option.charAt(0).toUpperCase() + option.slice(1)])
+      ),
+    };
+  }
+
+  // PROPOSE_HEIR: every candidate must be a member of the community
+  const { data: members } = await supabase
+    .from("community_members")
+    .select("user_id, users(username)")
+    .eq("community_id", communityId)
+    .in("user_id", options);
+
+  const usernames = new Map<string, string>(
+    ((members ?? []) as unknown as Array<{ user_id: string; users: { username: string } | null }>).map((m) => [
+      m.user_id,
+      m.users?.username ?? "Unknown",
+    ])
+  );
+  if (options.some((option) => !usernames.has(option))) {
+    throw new Error("Every heir candidate must be a member of the community");
+  }
+
+  return {
+    options,
+    option_labels: Object.fromEntries(options.map((option) => [option, usernames.get(option)!])),
+  };
+}
+
+/**
+ * Validate a ranked ballot: a non-empty ordering of distinct proposal options
+ */
+function normalizeRanking(options: string[], ranking: unknown): string[] {
+  if (!Array.isArray(ranking) || ranking.length === 0) {
+    throw new Error("Rank at least one option");
+  }
+  const normalized = ranking.map(String);
+  if (normalized.some((option) => !options.includes(option))) {
+    throw new Error("Ranking contains an unknown option");
+  }
+  if (new Set(normalized).size !== normalized.length) {
+    throw new Error("Each option can only be ranked once");
+  }
+  return normalized;
+}
+
+async function determineEarlyResolution(
+  yesVotes: number,
+  noVotes: number,
+  eligibleVoters: number,
+  rules: GovernanceRules,
+  votes: any[],
+  communityId: string,
+  supabaseClient: SupabaseClient,
+  lawType?: LawType,
+  proposalMetadata?: any
+): Promise<EarlyResolutionResult> {
+  // Bilateral laws (alliances, treaties) require both communities to approve
+  if (lawType && isBilateralLaw(lawType) && proposalMetadata?.target_community_id) {
+    const targetCommunityId = proposalMetadata.target_community_id;
+
+    // Get votes from both communities
+    const initiatorVotes: any[] = [];
+    const targetVotes: any[] = [];
+
+    for (const vote of votes) {
+      if (!vote.user_id) continue;
+
+      // Check which community this voter belongs to
+      const { data: initiatorMember } = await supabaseClient
+        .from("community_members")
+        .select("rank_tier")
+        .eq("community_id", communityId)
+        .eq("user_id", vote.user_id)
+        .maybeSingle();
+
+      if (initiatorMember) {
+        initiatorVotes.push({ ...vote, rank_tier: initiatorMember.rank_tier });
+        continue;
+      }
+
+      const { data: targetMember } = await supabaseClient
+        .from("community_members")
+        .select("rank_tier")
+        .eq("community_id", targetCommunityId)
+        .eq("user_id", vote.user_id)
+        .maybeSingle();
+
+      if (targetMember) {
+        targetVotes.push({ ...vote, rank_tier: targetMember.rank_tier });
       }
     }
 
@@ -1004,48 +2733,39 @@ async function determineEarlyResolution(
 
     if (!targetCommunity) return {};
 
-    const targetRules = getGovernanceRules("CFC_ALLIANCE", targetCommunity.governance_type);
+    const targetRules = getGovernanceRules(lawType, targetCommunity.governance_type);
+    const targetEligibleVoters = await countEligibleVoters(targetCommunityId, targetRules, supabaseClient);
 
-    // Check if initiator community approved
-    let initiatorApproved = false;
-    let initiatorRejected = false;
+    // Check if each community approved
+    const initiatorDecision = getBilateralSideDecision(initiatorVotes, rules, eligibleVoters);
+    const targetDecision = getBilateralSideDecision(targetVotes, targetRules, targetEligibleVoters);
+    const agreement = describeBilateralAgreement(lawType);
 
-    if (rules.passingCondition === "sovereign_only") {
-      const sovereignVote = initiatorVotes.find(v => v.rank_tier === 0);
-      if (sovereignVote?.vote === "yes") initiatorApproved = true;
-      if (sovereignVote?.vote === "no") initiatorRejected = true;
-    }
-
-    // Check if target community approved
-    let targetApproved = false;
-    let targetRejected = false;
-
-    if (targetRules.passingCondition === "sovereign_only") {
-      const targetSovereignVote = targetVotes.find(v => v.rank_tier === 0);
-      if (targetSovereignVote?.vote === "yes") targetApproved = true;
-      if (targetSovereignVote?.vote === "no") targetRejected = true;
-    }
+    const initiatorApproved = initiatorDecision === "approved";
+    const initiatorRejected = initiatorDecision === "rejected";
+    const targetApproved = targetDecision === "approved";
+    const targetRejected = targetDecision === "rejected";
 
-    // Both communities must approve for alliance to pass
+    // Both communities must approve for the agreement to pass
     if (initiatorApproved && targetApproved) {
       return {
         status: "passed",
-        reason: "Both communities approved the alliance."
+        reason: `Both communities approved the ${agreement}.`
       };
     }
 
-    // If either community rejected, alliance is rejected
+    // If either community rejected, the agreement is rejected
     if (initiatorRejected || targetRejected) {
       return {
         status: "rejected",
-        reason: "One or both communities rejected the alliance."
+        reason: `One or both communities rejected the ${agreement}.`
       };
     }
 
     return {};
   }
 
-  // Handle sovereign_only for non-CFC laws
+  // Handle sovereign_only for one-sided laws
   if (rules.passingCondition === "sovereign_only") {
     // Check if the sovereign (rank 0) has voted
     let sovereignVote: "yes" | "no" | null = null;
@@ -1086,14 +2806,17 @@ async function determineEarlyResolution(
 
   switch (rules.passingCondition) {
 
-    case "majority_vote": {
+    case "majority_vote":
+    case "council_weighted": {
       if (majorityThreshold <= 0) {
         return {};
       }
       if (yesVotes >= majorityThreshold) {
         return {
           status: "passed",
-          reason: `Majority of eligible voters reached (${yesVotes}/${eligibleVoters}).`,
+          reason: rules.voteWeights
+            ? `Council-weighted majority reached (${yesVotes}/${eligibleVoters} weighted votes).`
+            : `Majority of eligible voters reached (${yesVotes}/${eligibleVoters}).`,
         };
       }
       const rejectionThreshold = eligibleVoters - majorityThreshold + 1;
@@ -1146,6 +2869,55 @@ async function determineEarlyResolution(
   }
 }
 
+/**
+ * What a bilateral law establishes, for resolution notes
+ */
+function describeBilateralAgreement(lawType: LawType): string {
+  switch (lawType) {
+    case "PROPOSE_PEACE":
+      return "peace treaty";
+    case "CEASEFIRE":
+      return "ceasefire";
+    case "TRANSFER_REGION":
+      return "region transfer";
+    default:
+      return "alliance";
+  }
+}
+
+/**
+ * Whether one side of a bilateral law (alliance, treaty, region transfer) has approved or rejected it
+ */
+function getBilateralSideDecision(
+  sideVotes: Array<{ vote: string; rank_tier: number }>,
+  rules: GovernanceRules,
+  eligibleVoters: number
+): "approved" | "rejected" | null {
+  if (rules.passingCondition === "sovereign_only") {
+    const sovereignVote = sideVotes.find(v => v.rank_tier === 0);
+    if (sovereignVote?.vote === "yes") return "approved";
+    if (sovereignVote?.vote === "no") return "rejected";
+    return null;
+  }
+
+  if (eligibleVoters <= 0) {
+    return null;
+  }
+
+  // Other conditions need a (weighted) majority of the side's eligible voters
+  const sumWeight = (vote: string) =>
+    sideVotes
+      .filter(v => v.vote === vote)
+      .reduce((total, v) => total + getVoteWeight(rules, v.rank_tier), 0);
+
+  if (sumWeight("yes") * 2 > eligibleVoters) return "approved";
+  if (sumWeight("no") * 2 >= eligibleVoters) return "rejected";
+  return null;
+}
+
+/**
+ * Count eligible voters, summing rank weights when the rules define them
+ */
 async function countEligibleVoters(
   communityId: string,
   rules: GovernanceRules,
@@ -1155,6 +2927,19 @@ async function countEligibleVoters(
     return 0;
   }
 
+  if (rules.voteWeights) {
+    const { data: members } = await supabaseClient
+      .from("community_members")
+      .select("rank_tier")
+      .eq("community_id", communityId)
+      .in("rank_tier", rules.voteAccessRanks);
+
+    return (members ?? []).reduce(
+      (total: number, member: { rank_tier: number }) => total + getVoteWeight(rules, member.rank_tier),
+      0
+    );
+  }
+
   const { count } = await supabaseClient
     .from("community_members")
     .select("rank_tier", { count: "exact", head: true })
@@ -1164,19 +2949,136 @@ async function countEligibleVoters(
   return count ?? 0;
 }
 
+/**
+ * Votes cast on behalf of eligible members who delegated instead of voting.
+ * Each delegator counts with the vote of the first member down their
+ * delegation chain who voted directly.
+ */
+async function getDelegatedVotes(
+  supabaseClient: SupabaseClient,
+  communityId: string,
+  lawType: LawType,
+  rules: GovernanceRules,
+  votes: ProposalVoteRecord[]
+): Promise<DelegatedVote[]> {
+  // The sovereign decides personally; delegation only applies to member votes
+  if (rules.passingCondition === "sovereign_only" || rules.voteAccessRanks.length === 0) {
+    return [];
+  }
+
+  const { data: delegations } = await supabaseClient
+    .from("vote_delegations")
+    .select("delegator_id, delegate_id, law_type")
+    .eq("community_id", communityId)
+    .is("revoked_at", null)
+    .or(`law_type.is.null,law_type.eq.${lawType}`);
+
+  if (!delegations || delegations.length === 0) {
+    return [];
+  }
+
+  const { data: eligibleMembers } = await supabaseClient
+    .from("community_members")
+    .select("user_id")
+    .eq("community_id", communityId)
+    .in("rank_tier", rules.voteAccessRanks);
+
+  const voteByUser = new Map(votes.map((v) => [v.user_id, v]));
+  const resolved = resolveDelegatedVotes(
+    delegations as VoteDelegation[],
+    lawType,
+    new Set(voteByUser.keys()),
+    (eligibleMembers ?? []).map((m: { user_id: string }) => m.user_id)
+  );
+
+  return resolved.map((delegation) => {
+    const delegateVote = voteByUser.get(delegation.voterId)!;
+    return {
+      delegator_id: delegation.delegatorId,
+      voter_id: delegation.voterId,
+      via: delegation.via,
+      vote: delegateVote.vote,
+      ranking: delegateVote.ranking,
+    };
+  });
+}
+
+/**
+ * Count yes/no votes on a proposal. When weighting rules are given, each vote
+ * counts with the weight of the voter's rank (if the rules define voteWeights)
+ * and delegated votes are included when the law type is known.
+ * Ranked-choice ballots are returned separately, weighted the same way.
+ */
 async function getProposalVoteCounts(
   proposalId: string,
-  supabaseClient: SupabaseClient
-): Promise<{ yesVotes: number; noVotes: number; votes: any[] }> {
-  const { data: votes } = await supabaseClient
+  supabaseClient: SupabaseClient,
+  weighting?: { communityId: string; rules: GovernanceRules; lawType?: LawType }
+): Promise<{
+  yesVotes: number;
+  noVotes: number;
+  votes: ProposalVoteRecord[];
+  rankedBallots: WeightedRankedBallot[];
+  delegatedVotes: DelegatedVote[];
+}> {
+  const { data } = await supabaseClient
     .from("proposal_votes")
-    .select("vote, user_id")
+    .select("vote, user_id, ranking")
     .eq("proposal_id", proposalId);
 
-  const yesVotes = votes?.filter((v: any) => v.vote === "yes").length || 0;
-  const noVotes = votes?.filter((v: any) => v.vote === "no").length || 0;
+  const votes = (data ?? []) as ProposalVoteRecord[];
+
+  if (!weighting) {
+    const rankedBallots = votes
+      .filter((v) => v.vote === "ranked" && Array.isArray(v.ranking))
+      .map((v) => ({ ranking: v.ranking!, weight: 1, rankTier: null }));
+    const yesVotes = votes.filter((v) => v.vote === "yes").length;
+    const noVotes = votes.filter((v) => v.vote === "no").length;
+
+    return { yesVotes, noVotes, votes, rankedBallots, delegatedVotes: [] };
+  }
+
+  const delegatedVotes = weighting.lawType
+    ? await getDelegatedVotes(supabaseClient, weighting.communityId, weighting.lawType, weighting.rules, votes)
+    : [];
+  const countedVotes: ProposalVoteRecord[] = [
+    ...votes,
+    ...delegatedVotes.map((d) => ({ vote: d.vote, user_id: d.delegator_id, ranking: d.ranking })),
+  ];
+
+  // Ranks are needed for vote weights and for ranked ballots (sovereign detection)
+  const rankByUser = new Map<string, number>();
+  if (countedVotes.length > 0 && (weighting.rules.voteWeights || countedVotes.some((v) => v.vote === "ranked"))) {
+    const { data: voterRanks } = await supabaseClient
+      .from("community_members")
+      .select("user_id, rank_tier")
+      .eq("community_id", weighting.communityId)
+      .in("user_id", countedVotes.map((v) => v.user_id));
+
+    for (const member of (voterRanks ?? []) as Array<{ user_id: string; rank_tier: number }>) {
+      rankByUser.set(member.user_id, member.rank_tier);
+    }
+  }
 
-  return { yesVotes, noVotes, votes: votes || [] };
+  // Without vote weights, yes/no votes from outside the community still count once (CFC alliances)
+  const weightOf = (userId: string, requireMember: boolean) => {
+    const rankTier = rankByUser.get(userId);
+    if (rankTier === undefined) return requireMember ? 0 : 1;
+    return getVoteWeight(weighting.rules, rankTier);
+  };
+  const sumWeight = (vote: string) =>
+    countedVotes
+      .filter((v) => v.vote === vote)
+      .reduce((total, v) => total + weightOf(v.user_id, !!weighting.rules.voteWeights), 0);
+
+  const rankedBallots = countedVotes
+    .filter((v) => v.vote === "ranked" && Array.isArray(v.ranking) && rankByUser.has(v.user_id))
+    .map((v) => ({
+      ranking: v.ranking!,
+      weight: weightOf(v.user_id, true),
+      rankTier: rankByUser.get(v.user_id)!,
+    }));
+
+  return { yesVotes: sumWeight("yes"), noVotes: sumWeight("no"), votes, rankedBallots, delegatedVotes };
 }
 
 async function maybeResolveProposalEarly(
@@ -1219,34 +3121,64 @@ async function maybeResolveProposalEarly(
       return;
     }
 
-    const { yesVotes, noVotes, votes } = await getProposalVoteCounts(
+    const { yesVotes, noVotes, votes, rankedBallots } = await getProposalVoteCounts(
       proposalId,
-      supabaseClient
+      supabaseClient,
+      { communityId: proposal.community_id, rules, lawType: proposal.law_type as LawType }
     );
 
-    // Get proposal metadata for CFC alliance handling
+    // Get proposal metadata for bilateral law and ranked-choice handling
     const { data: proposalWithMetadata } = await supabaseClient
       .from("community_proposals")
       .select("metadata")
       .eq("id", proposalId)
       .single();
 
-    const resolution = await determineEarlyResolution(
-      yesVotes,
-      noVotes,
-      eligibleVoters,
-      rules,
-      votes,
-      proposal.community_id,
-      supabaseClient,
-      proposal.law_type as LawType,
-      proposalWithMetadata?.metadata
-    );
+    const options = getProposalOptions(proposal.law_type as LawType, proposalWithMetadata?.metadata);
+    const resolution: RankedChoiceDecision = options
+      ? decideRankedChoice(
+          options,
+          rankedBallots,
+          eligibleVoters,
+          rules,
+          false,
+          proposalWithMetadata?.metadata?.option_labels
+        )
+      : await determineEarlyResolution(
+          yesVotes,
+          noVotes,
+          eligibleVoters,
+          rules,
+          votes,
+          proposal.community_id,
+          supabaseClient,
+          proposal.law_type as LawType,
+          proposalWithMetadata?.metadata
+        );
 
     if (!resolution.status) {
       return;
     }
 
+    // An early pass still has to clear the law's quorum
+    if (
+      !options &&
+      resolution.status === "passed" &&
+      !meetsQuorum(yesVotes + noVotes, eligibleVoters, rules.quorum)
+    ) {
+      return;
+    }
+
+    if (resolution.winner) {
+      await applyRankedChoiceWinner(
+        supabaseClient,
+        proposalId,
+        proposal.law_type as LawType,
+        proposalWithMetadata?.metadata,
+        resolution.winner
+      );
+    }
+
     const resolvedAt = new Date().toISOString();
 
     const { error: updateError } = await supabaseClient
@@ -1310,8 +3242,39 @@ async function maybeResolveProposalEarly(
   }
 }
 
+export interface ProposalTally {
+  passingCondition: PassingCondition;
+  weighted: boolean;
+  eligibleVoters: number;
+  yesVotes: number;
+  noVotes: number;
+  turnout: number;
+  quorum: { required: number; met: boolean } | null;
+  rankedChoice: (RankedChoiceResult & { options: string[]; optionLabels: Record<string, string> }) | null;
+  explanation: string[];
+}
+
+export interface ProposalDelegatedVote {
+  delegator_id: string;
+  delegator_username: string;
+  voter_id: string; // Member whose vote was counted for the delegator
+  voter_username: string;
+  via_usernames: string[]; // Intermediate delegates who did not vote
+  vote: string;
+}
+
+const PASSING_CONDITION_DESCRIPTIONS: Record<PassingCondition, string> = {
+  sovereign_only: "The sovereign decides alone.",
+  majority_vote: "Passes with more yes than no votes.",
+  supermajority_vote: "Passes with at least two thirds of the votes cast in favor.",
+  unanimous: "Passes only if every eligible voter votes yes.",
+  council_weighted: "Passes with more weighted yes than no votes; council votes carry extra weight.",
+  ranked_choice:
+    "Members rank the options. The option with the fewest first preferences is eliminated each round until one holds a majority.",
+};
+
 /**
- * Get proposal details with vote counts
+ * Get proposal details with vote counts and an explanation of the tally
  */
 export async function getProposalDetailsAction(proposalId: string) {
   const supabase = await createSupabaseServerClient();
@@ -1326,19 +3289,127 @@ export async function getProposalDetailsAction(proposalId: string) {
     throw new Error("Proposal not found");
   }
 
-  // Get vote counts
-  const { data: votes } = await supabase
-    .from("proposal_votes")
-    .select("vote")
-    .eq("proposal_id", proposalId);
+  const { data: community } = await supabase
+    .from("communities")
+    .select("governance_type")
+    .eq("id", proposal.community_id)
+    .single();
+
+  if (!community) {
+    throw new Error("Community not found");
+  }
+
+  const lawType = proposal.law_type as LawType;
+  const rules = getGovernanceRules(lawType, community.governance_type);
+
+  // Individual ballots are private under RLS; aggregate them with the admin client
+  const { yesVotes, noVotes, rankedBallots, delegatedVotes } = await getProposalVoteCounts(
+    proposalId,
+    supabaseAdmin,
+    { communityId: proposal.community_id, rules, lawType }
+  );
+  const eligibleVoters = await countEligibleVoters(proposal.community_id, rules, supabaseAdmin);
+
+  const passingCondition = getEffectivePassingCondition(rules, lawType, proposal.metadata);
+  const options = getProposalOptions(lawType, proposal.metadata);
+  const turnout = options
+    ? rankedBallots.reduce((total, ballot) => total + ballot.weight, 0)
+    : yesVotes + noVotes;
+  const quorum = rules.quorum
+    ? { required: rules.quorum, met: meetsQuorum(turnout, eligibleVoters, rules.quorum) }
+    : null;
+  const weighted = !!rules.voteWeights;
+  const unit = weighted ? "weighted votes" : "votes";
+
+  const explanation = [PASSING_CONDITION_DESCRIPTIONS[passingCondition]];
+  if (options && rules.passingCondition === "sovereign_only") {
+    explanation.push("The sovereign's first preference is enacted.");
+  }
+  explanation.push(
+    `Turnout: ${turnout} of ${eligibleVoters} eligible ${unit}` +
+      (eligibleVoters > 0 ? ` (${Math.round((turnout / eligibleVoters) * 100)}%).` : ".")
+  );
+  if (quorum) {
+    explanation.push(
+      `Quorum: ${Math.round(quorum.required * 100)}% turnout required — ${quorum.met ? "reached" : "not reached"}.`
+    );
+  }
+
+  let rankedChoice: ProposalTally["rankedChoice"] = null;
+  if (options) {
+    const optionLabels: Record<string, string> = proposal.metadata?.option_labels ?? {};
+    const label = (option: string) => optionLabels[option] ?? option;
+    const result = tallyRankedChoice(options, rankedBallots);
+    rankedChoice = { ...result, options, optionLabels };
+
+    for (const round of result.rounds) {
+      const counts = options
+        .filter((option) => option in round.tallies)
+        .map((option) => `${label(option)} ${round.tallies[option]}`)
+        .join(", ");
+      explanation.push(
+        `Round ${round.round}: ${counts}` +
+          (round.eliminated ? ` — ${label(round.eliminated)} eliminated.` : ".")
+      );
+    }
+    if (result.winner) {
+      explanation.push(
+        `${proposal.status === "pending" ? "Leading" : "Winner"}: ${label(result.winner)}.`
+      );
+    }
+  } else {
+    explanation.push(`Yes: ${yesVotes} • No: ${noVotes} ${unit}.`);
+  }
+
+  if (delegatedVotes.length > 0) {
+    explanation.push(
+      `Includes ${delegatedVotes.length} vote${delegatedVotes.length === 1 ? "" : "s"} cast through delegation.`
+    );
+  }
+
+  // Resolve usernames so the proposal view can show who voted on whose behalf
+  const delegationUserIds = Array.from(
+    new Set(delegatedVotes.flatMap((d) => [d.delegator_id, d.voter_id, ...d.via]))
+  );
+  const usernameById = new Map<string, string>();
+  if (delegationUserIds.length > 0) {
+    const { data: delegationUsers } = await supabaseAdmin
+      .from("users")
+      .select("id, username")
+      .in("id", delegationUserIds);
+    for (const user of (delegationUsers ?? []) as Array<{ id: string; username: string | null }>) {
+      usernameById.set(user.id, user.username ?? "Unknown");
+    }
+  }
+  const username = (userId: string) => usernameById.get(userId) ?? "Unknown";
 
-  const yesVotes = votes?.filter((v) => v.vote === "yes").length || 0;
-  const noVotes = votes?.filter((v) => v.vote === "no").length || 0;
+  const tally: ProposalTally = {
+    passingCondition,
+    weighted,
+    eligibleVoters,
+    yesVotes,
+    noVotes,
+    turnout,
+    quorum,
+    rankedChoice,
+    explanation,
+  };
 
   return {
     ...proposal,
     yesVotes,
     noVotes,
+    tally,
+    delegatedVotes: delegatedVotes.map(
+      (d): ProposalDelegatedVote => ({
+        delegator_id: d.delegator_id,
+        delegator_username: username(d.delegator_id),
+        voter_id: d.voter_id,
+        voter_username: username(d.voter_id),
+        via_usernames: d.via.map(username),
+        vote: d.vote,
+      })
+    ),
   };
 }
 
@@ -1351,14 +3422,14 @@ export async function getCommunityActiveProposalsAction(communityId: string) {
   try {
     // Fetch active proposals where:
     // 1. This community created the proposal, OR
-    // 2. This community is the target of a CFC_ALLIANCE proposal
+    // 2. This community is the target of a bilateral proposal (alliance, treaty)
     const { data: proposals, error } = await supabase
       .from("community_proposals")
       .select(
         `*,
         users:proposer_id(username)`
       )
-      .or(`community_id.eq.${communityId},and(law_type.eq.CFC_ALLIANCE,metadata->>target_community_id.eq.${communityId})`)
+      .or(`community_id.eq.${communityId},and(law_type.in.(${getBilateralLawTypes().join(",")}),metadata->>target_community_id.eq.${communityId})`)
       .eq("status", "pending")
       .order("created_at", { ascending: false });
 
@@ -1435,7 +3506,7 @@ export async function getCommunityResolvedProposalsAction(
   const { data, error, count } = await supabase
     .from("community_proposals")
     .select(
-      `id, law_type, status, created_at, expires_at, resolved_at, proposer_id, metadata, users:proposer_id(username)`,
+      `id, law_type, status, created_at, expires_at, resolved_at, repealed_at, amended_at, lapses_at, lapsed_at, proposer_id, metadata, users:proposer_id(username)`,
       { count: "exact" }
     )
     .eq("community_id", communityId)
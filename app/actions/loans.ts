@@ -0,0 +1,428 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { ECONOMY_CONFIG } from "@/lib/economy-config";
+import { findTradeEmbargo, getTradeCommunityIds } from "@/lib/governance/embargoes";
+import {
+  creditLoanCurrency,
+  debitLoanCurrency,
+  repayLoanEarly,
+  type LoanLedgerRow,
+} from "@/lib/services/loan-service";
+import type {
+  CreateLoanOfferInput,
+  CreditHistory,
+  Loan,
+  LoanActionResult,
+  LoanCollateralType,
+  LoanInstallment,
+} from "@/lib/types/economy";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+type LoanRow = LoanLedgerRow & {
+  interest_rate: number;
+  duration_days: number;
+  installment_count: number;
+  min_credit_score: number | null;
+  collateral_type: LoanCollateralType;
+  collateral_resource_id: string | null;
+  collateral_quality_id: string | null;
+  collateral_quantity: number | null;
+  collateral_company_id: string | null;
+  collateral_shares: number | null;
+  created_at: string;
+  accepted_at: string | null;
+  closed_at: string | null;
+  lender: { username: string } | null;
+  borrower: { username: string } | null;
+  currency: { currency_symbol: string } | null;
+  resource: { name: string } | null;
+  quality: { quality_level: number } | null;
+  company: { name: string } | null;
+  installments: LoanInstallment[] | null;
+};
+
+const LOAN_SELECT = `
+  *,
+  lender:users!loans_lender_id_fkey(username),
+  borrower:users!loans_borrower_id_fkey(username),
+  currency:community_currencies(currency_symbol),
+  resource:resources(name),
+  quality:resource_qualities(quality_level),
+  company:companies(name),
+  installments:loan_installments(id, installment_number, due_at, principal_due, interest_due, status, paid_late, paid_at)
+`;
+
+async function getProfileId(supabase: SupabaseClient): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("id")
+    .eq("auth_id", user.id)
+    .maybeSingle();
+
+  return profile?.id ?? null;
+}
+
+function toLoan(row: LoanRow): Loan {
+  return {
+    id: row.id,
+    lender_id: row.lender_id,
+    lender_username: row.lender?.username ?? "Unknown",
+    borrower_id: row.borrower_id,
+    borrower_username: row.borrower?.username ?? null,
+    currency_type: row.currency_type,
+    community_currency_id: row.community_currency_id,
+    currency_symbol: row.currency?.currency_symbol ?? null,
+    principal: Number(row.principal),
+    interest_rate: Number(row.interest_rate),
+    duration_days: row.duration_days,
+    installment_count: row.installment_count,
+    min_credit_score: row.min_credit_score,
+    collateral: {
+      type: row.collateral_type,
+      resource_id: row.collateral_resource_id,
+      resource_name: row.resource?.name ?? null,
+      quality_id: row.collateral_quality_id,
+      quality_level: row.quality?.quality_level ?? null,
+      quantity: row.collateral_quantity === null ? null : Number(row.collateral_quantity),
+      company_id: row.collateral_company_id,
+      company_name: row.company?.name ?? null,
+      shares: row.collateral_shares,
+    },
+    status: row.status,
+    created_at: row.created_at,
+    accepted_at: row.accepted_at,
+    closed_at: row.closed_at,
+    installments: (row.installments ?? [])
+      .map((installment) => ({
+        ...installment,
+        principal_due: Number(installment.principal_due),
+        interest_due: Number(installment.interest_due),
+      }))
+      .sort((a, b) => a.installment_number - b.installment_number),
+  };
+}
+
+function validateOffer(input: CreateLoanOfferInput): string | null {
+  const limits = ECONOMY_CONFIG.loans;
+
+  if (!Number.isFinite(input.principal) || input.principal < limits.minPrincipal) {
+    return `Lend at least ${limits.minPrincipal}`;
+  }
+  if (!Number.isFinite(input.interest_rate) || input.interest_rate < 0 || input.interest_rate > limits.maxInterestPercent) {
+    return `Interest must be between 0 and ${limits.maxInterestPercent}%`;
+  }
+  if (!Number.isInteger(input.duration_days) || input.duration_days < 1 || input.duration_days > limits.maxDurationDays) {
+    return `Duration must be between 1 and ${limits.maxDurationDays} days`;
+  }
+  if (
+    !Number.isInteger(input.installment_count) ||
+    input.installment_count < 1 ||
+    input.installment_count > Math.min(limits.maxInstallments, input.duration_days)
+  ) {
+    return `Installments must be between 1 and ${Math.min(limits.maxInstallments, input.duration_days)}`;
+  }
+  if (input.min_credit_score != null && (input.min_credit_score < 0 || input.min_credit_score > 100)) {
+    return "Minimum credit score must be between 0 and 100";
+  }
+  if (input.currency_type === "community" && !input.community_currency_id) {
+    return "Choose a community currency";
+  }
+
+  const collateral = input.collateral;
+  if (collateral.type === "inventory") {
+    if (!collateral.resource_id || !collateral.quality_id || !collateral.quantity || collateral.quantity <= 0) {
+      return "Choose the collateral item, quality and quantity";
+    }
+  } else if (collateral.type === "shares") {
+    if (!collateral.company_id || !collateral.shares || !Number.isInteger(collateral.shares) || collateral.shares <= 0) {
+      return "Choose the company and number of shares";
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// ACTION: Loan market
+// ============================================================================
+
+/**
+ * Open loan offers, newest first. Community-currency offers can be limited to
+ * the given communities' currencies.
+ */
+export async function getLoanOffers(params: { communityIds?: string[] } = {}): Promise<Loan[]> {
+  const supabase = await createSupabaseServerClient();
+
+  let query = supabase
+    .from("loans")
+    .select(LOAN_SELECT)
+    .eq("status", "open")
+    .order("created_at", { ascending: false })
+    .limit(100);
+
+  if (params.communityIds?.length) {
+    const { data: currencies } = await supabase
+      .from("community_currencies")
+      .select("id")
+      .in("community_id", params.communityIds);
+
+    const currencyIds = (currencies ?? []).map((currency) => currency.id);
+    query = currencyIds.length
+      ? query.or(`currency_type.eq.gold,community_currency_id.in.(${currencyIds.join(",")})`)
+      : query.eq("currency_type", "gold");
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching loan offers:", error);
+    return [];
+  }
+
+  return ((data ?? []) as unknown as LoanRow[]).map(toLoan);
+}
+
+/**
+ * Loans the current user has offered or taken, newest first
+ */
+export async function getMyLoans(): Promise<Loan[]> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) return [];
+
+  const { data, error } = await supabase
+    .from("loans")
+    .select(LOAN_SELECT)
+    .or(`lender_id.eq.${profileId},borrower_id.eq.${profileId}`)
+    .order("created_at", { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.error("Error fetching loans:", error);
+    return [];
+  }
+
+  return ((data ?? []) as unknown as LoanRow[]).map(toLoan);
+}
+
+/**
+ * A player's borrowing record; the current user's when no id is given
+ */
+export async function getCreditHistory(userId?: string): Promise<CreditHistory | null> {
+  const supabase = await createSupabaseServerClient();
+  const targetId = userId ?? (await getProfileId(supabase));
+  if (!targetId) return null;
+
+  const { data, error } = await supabase.rpc("get_credit_history", { p_user_id: targetId });
+
+  if (error) {
+    console.error("Error fetching credit history:", error);
+    return null;
+  }
+
+  return data as CreditHistory;
+}
+
+/**
+ * Post a loan offer. The principal is escrowed from the lender until the
+ * offer is taken or withdrawn.
+ */
+export async function createLoanOfferAction(input: CreateLoanOfferInput): Promise<LoanActionResult> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const validationError = validateOffer(input);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const currency = {
+    currency_type: input.currency_type,
+    community_currency_id: input.currency_type === "community" ? input.community_currency_id ?? null : null,
+  };
+
+  const escrow = await debitLoanCurrency(
+    currency,
+    profileId,
+    input.principal,
+    "loan_escrow",
+    { interest_rate: input.interest_rate, duration_days: input.duration_days },
+    "Loan offer escrow"
+  );
+  if (!escrow.success) {
+    return { success: false, error: escrow.error ?? "Insufficient balance" };
+  }
+
+  const collateral = input.collateral;
+  const { data: loan, error } = await supabaseAdmin
+    .from("loans")
+    .insert({
+      lender_id: profileId,
+      ...currency,
+      principal: input.principal,
+      interest_rate: input.interest_rate,
+      duration_days: input.duration_days,
+      installment_count: input.installment_count,
+      min_credit_score: input.min_credit_score ?? null,
+      collateral_type: collateral.type,
+      collateral_resource_id: collateral.type === "inventory" ? collateral.resource_id : null,
+      collateral_quality_id: collateral.type === "inventory" ? collateral.quality_id : null,
+      collateral_quantity: collateral.type === "inventory" ? collateral.quantity : null,
+      collateral_company_id: collateral.type === "shares" ? collateral.company_id : null,
+      collateral_shares: collateral.type === "shares" ? collateral.shares : null,
+    })
+    .select("id")
+    .single();
+
+  if (error || !loan) {
+    await creditLoanCurrency(currency, profileId, input.principal, "loan_refund", {}, "Loan offer could not be posted");
+    return { success: false, error: error?.message ?? "Failed to post loan offer" };
+  }
+
+  revalidatePath("/market");
+  return { success: true, loan_id: loan.id, status: "open" };
+}
+
+/**
+ * Take down an open offer and return the escrowed principal
+ */
+export async function withdrawLoanOfferAction(loanId: string): Promise<LoanActionResult> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { data: withdrawn, error } = await supabaseAdmin
+    .from("loans")
+    .update({ status: "withdrawn", closed_at: new Date().toISOString() })
+    .eq("id", loanId)
+    .eq("lender_id", profileId)
+    .eq("status", "open")
+    .select("id, lender_id, borrower_id, currency_type, community_currency_id, principal, status")
+    .maybeSingle();
+
+  if (error || !withdrawn) {
+    return { success: false, error: "This offer can no longer be withdrawn" };
+  }
+
+  const loan = withdrawn as LoanLedgerRow;
+  const refund = await creditLoanCurrency(
+    loan,
+    profileId,
+    Number(loan.principal),
+    "loan_refund",
+    { loan_id: loan.id },
+    "Loan offer withdrawn"
+  );
+  if (!refund.success) {
+    console.error(`Loan ${loan.id}: offer withdrawn but the escrow refund failed`, refund.error);
+  }
+
+  revalidatePath("/market");
+  return { success: true, loan_id: loan.id, status: "withdrawn" };
+}
+
+/**
+ * Borrow against an open offer: pledges the collateral, creates the repayment
+ * schedule and pays out the principal
+ */
+export async function acceptLoanOfferAction(loanId: string): Promise<LoanActionResult> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { data: offer } = await supabase
+    .from("loans")
+    .select("id, lender_id, borrower_id, currency_type, community_currency_id, principal, status")
+    .eq("id", loanId)
+    .maybeSingle();
+
+  if (!offer || offer.status !== "open") {
+    return { success: false, error: "This loan is no longer available" };
+  }
+
+  const [ownIds, lenderIds] = await Promise.all([
+    getTradeCommunityIds(supabase, profileId),
+    getTradeCommunityIds(supabase, offer.lender_id),
+  ]);
+  const embargo = await findTradeEmbargo(supabase, ownIds, lenderIds);
+  if (embargo) {
+    return { success: false, error: `Trade blocked: ${embargo.reason}` };
+  }
+
+  const { data, error } = await supabaseAdmin.rpc("accept_loan", {
+    p_loan_id: loanId,
+    p_borrower_id: profileId,
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  if (!data?.success) {
+    return { success: false, error: data?.error ?? "Request failed" };
+  }
+
+  const loan = offer as LoanLedgerRow;
+  const payout = await creditLoanCurrency(
+    loan,
+    profileId,
+    Number(loan.principal),
+    "loan_disbursement",
+    { loan_id: loan.id, lender_id: loan.lender_id },
+    "Loan received"
+  );
+  if (!payout.success) {
+    await supabaseAdmin.rpc("cancel_loan_acceptance", { p_loan_id: loanId });
+    return { success: false, error: payout.error ?? "Failed to pay out the loan" };
+  }
+
+  revalidatePath("/market");
+  revalidatePath("/inventory");
+  return { success: true, loan_id: loanId, status: "active" };
+}
+
+/**
+ * Pay off the rest of an active loan now; interest not yet due is waived
+ */
+export async function repayLoanAction(loanId: string): Promise<LoanActionResult> {
+  const supabase = await createSupabaseServerClient();
+  const profileId = await getProfileId(supabase);
+  if (!profileId) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { data: loan } = await supabase
+    .from("loans")
+    .select("id, lender_id, borrower_id, currency_type, community_currency_id, principal, status")
+    .eq("id", loanId)
+    .maybeSingle();
+
+  if (!loan || loan.borrower_id !== profileId || loan.status !== "active") {
+    return { success: false, error: "You have no active loan with this id" };
+  }
+
+  const result = await repayLoanEarly(loan as LoanLedgerRow);
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  revalidatePath("/market");
+  revalidatePath("/inventory");
+  return { success: true, loan_id: loanId, status: "repaid" };
+}
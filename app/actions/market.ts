@@ -1,10 +1,12 @@
 'use server';
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createSupabaseServerClient } from '@/lib/supabase-server';
 import { revalidatePath } from 'next/cache';
 import type {
   CreateOrderResult,
   AcceptOrderResult,
+  MarketOrderResult,
   CancelOrderResult,
   OrderBookData,
   OrderBookLevel,
@@ -14,6 +16,7 @@ import type {
   OrderType,
   SourceAccount,
 } from '@/lib/types/economy';
+import { findTradeEmbargo, getTradeCommunityIds, listTradeBlocks } from '@/lib/governance/embargoes';
 
 // ============================================================================
 // HELPER: Get public user ID from auth user
@@ -33,6 +36,29 @@ async function getPublicUserId(supabase: any): Promise<string | null> {
   return profile?.id || null;
 }
 
+// ============================================================================
+// HELPER: Trade embargoes
+// ============================================================================
+
+/**
+ * Why a user may not trade with the given communities (or with a counterparty
+ * user's communities), or null when no embargo stands between them
+ */
+async function getEmbargoBlockReason(
+  supabase: SupabaseClient,
+  userId: string,
+  counterparty: { communityIds?: Array<string | null | undefined>; userId?: string | null }
+): Promise<string | null> {
+  const counterpartyIds = (counterparty.communityIds ?? []).filter((id): id is string => Boolean(id));
+  if (counterparty.userId && counterparty.userId !== userId) {
+    counterpartyIds.push(...(await getTradeCommunityIds(supabase, counterparty.userId)));
+  }
+
+  const ownIds = await getTradeCommunityIds(supabase, userId);
+  const block = await findTradeEmbargo(supabase, ownIds, counterpartyIds);
+  return block ? `Trade blocked: ${block.reason}` : null;
+}
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -91,6 +117,41 @@ export interface TradeResult {
   error?: string;
 }
 
+export interface ProductBuyOrder {
+  id: string;
+  buyer_id: string;
+  community_id: string;
+  community_currency_id: string;
+  resource_id: string;
+  resource_name?: string;
+  min_quality_id: string;
+  min_quality_name?: string;
+  min_quality_stars?: number;
+  quantity: number;
+  filled_quantity: number;
+  max_price_per_unit: number; // Tariff included
+  escrow_remaining: number;
+  status: 'active' | 'filled' | 'cancelled' | 'expired';
+  created_at: string;
+  expires_at: string;
+}
+
+export interface BuyOrderResult {
+  success: boolean;
+  buy_order_id?: string;
+  status?: ProductBuyOrder['status'];
+  quantity_filled?: number;
+  community_coin_spent?: number; // Price plus tariff paid for the fills
+  fills?: number;
+  error?: string;
+}
+
+export interface TradeEmbargoNotice {
+  community_id: string; // Community the current user cannot trade with
+  community_name: string;
+  reason: string;
+}
+
 export interface JobApplicationResult {
   success: boolean;
   company_id?: string;
@@ -136,7 +197,13 @@ export async function createProductListing(params: {
   quantity: number;
   pricePerUnitGold?: number;
   pricePerUnitCommunityCoin?: number;
-}): Promise<{ success: boolean; listingId?: string; error?: string }> {
+}): Promise<{
+  success: boolean;
+  listingId?: string;
+  quantitySold?: number; // Sold straight away to standing buy orders
+  communityCoinReceived?: number;
+  error?: string;
+}> {
   const supabase = await createSupabaseServerClient();
 
   // Get current user
@@ -171,10 +238,23 @@ export async function createProductListing(params: {
 
     if (error) throw error;
 
+    // Sell straight into standing buy orders that the listing satisfies
+    const { data: match, error: matchError } = await supabase.rpc('match_product_listing', {
+      p_listing_id: data,
+    });
+    if (matchError) {
+      console.error('Error matching listing against buy orders:', matchError);
+    }
+
     revalidatePath('/market');
     revalidatePath('/inventory');
 
-    return { success: true, listingId: data };
+    return {
+      success: true,
+      listingId: data,
+      quantitySold: Number(match?.quantity_sold ?? 0),
+      communityCoinReceived: Number(match?.community_coin_received ?? 0),
+    };
   } catch (error) {
     console.error('Error creating product listing:', error);
     return {
@@ -209,6 +289,22 @@ export async function purchaseProduct(params: {
     return { success: false, error: 'User profile not found' };
   }
 
+  const { data: listing } = await supabase
+    .from('market_listings')
+    .select('community_id, seller_id')
+    .eq('id', params.listingId)
+    .maybeSingle();
+
+  if (listing) {
+    const embargoReason = await getEmbargoBlockReason(supabase, profile.id, {
+      communityIds: [listing.community_id],
+      userId: listing.seller_id,
+    });
+    if (embargoReason) {
+      return { success: false, error: embargoReason };
+    }
+  }
+
   try {
     // Use the location-aware purchase function
     const { data, error } = await supabase.rpc('purchase_product_with_location_check', {
@@ -283,6 +379,138 @@ export async function cancelListing(listingId: string): Promise<{
   }
 }
 
+// ============================================================================
+// PRODUCT BUY ORDERS (Bids)
+// ============================================================================
+
+/**
+ * Post a standing bid for a product on a community market. The full cost is
+ * escrowed in the market's currency; the bid fills against cheaper listings
+ * straight away and later against new listings that satisfy it.
+ */
+export async function createProductBuyOrder(params: {
+  communityId: string;
+  resourceId: string;
+  minQualityId: string;
+  quantity: number;
+  maxPricePerUnit: number; // Tariff included
+}): Promise<BuyOrderResult> {
+  const supabase = await createSupabaseServerClient();
+  const userId = await getPublicUserId(supabase);
+  if (!userId) {
+    return { success: false, error: 'Not authenticated' };
+  }
+
+  const embargoReason = await getEmbargoBlockReason(supabase, userId, {
+    communityIds: [params.communityId],
+  });
+  if (embargoReason) {
+    return { success: false, error: embargoReason };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('place_product_buy_order', {
+      p_buyer_id: userId,
+      p_community_id: params.communityId,
+      p_resource_id: params.resourceId,
+      p_min_quality_id: params.minQualityId,
+      p_quantity: params.quantity,
+      p_max_price_per_unit: params.maxPricePerUnit,
+    });
+
+    if (error) throw error;
+
+    revalidatePath('/market');
+    revalidatePath('/inventory');
+
+    return data as BuyOrderResult;
+  } catch (error) {
+    console.error('Error creating buy order:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create buy order',
+    };
+  }
+}
+
+export async function cancelProductBuyOrder(buyOrderId: string): Promise<{
+  success: boolean;
+  refunded?: number;
+  error?: string;
+}> {
+  const supabase = await createSupabaseServerClient();
+  const userId = await getPublicUserId(supabase);
+  if (!userId) {
+    return { success: false, error: 'Not authenticated' };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('cancel_product_buy_order', {
+      p_buyer_id: userId,
+      p_buy_order_id: buyOrderId,
+    });
+
+    if (error) throw error;
+
+    revalidatePath('/market');
+
+    return data as { success: boolean; refunded?: number; error?: string };
+  } catch (error) {
+    console.error('Error cancelling buy order:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel buy order',
+    };
+  }
+}
+
+/**
+ * The current user's buy orders on the given markets, open ones first
+ */
+export async function getMyProductBuyOrders(communityIds?: string[]): Promise<ProductBuyOrder[]> {
+  const supabase = await createSupabaseServerClient();
+  const userId = await getPublicUserId(supabase);
+  if (!userId) return [];
+
+  let query = supabase
+    .from('product_buy_orders')
+    .select(
+      '*, resource:resources(name), min_quality:resource_qualities(name, quality_level)'
+    )
+    .eq('buyer_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (communityIds && communityIds.length > 0) {
+    query = query.in('community_id', communityIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching buy orders:', error);
+    return [];
+  }
+
+  type BuyOrderRow = ProductBuyOrder & {
+    resource: { name: string } | null;
+    min_quality: { name: string; quality_level: number } | null;
+  };
+
+  return ((data ?? []) as BuyOrderRow[])
+    .map(({ resource, min_quality, ...order }) => ({
+      ...order,
+      quantity: Number(order.quantity),
+      filled_quantity: Number(order.filled_quantity),
+      max_price_per_unit: Number(order.max_price_per_unit),
+      escrow_remaining: Number(order.escrow_remaining),
+      resource_name: resource?.name,
+      min_quality_name: min_quality?.name,
+      min_quality_stars: min_quality?.quality_level,
+    }))
+    .sort((a, b) => Number(b.status === 'active') - Number(a.status === 'active'));
+}
+
 // ============================================================================
 // JOB LISTINGS
 // ============================================================================
@@ -383,6 +611,18 @@ export async function createJobListing(params: {
     return { success: false, error: 'Your company is in wilderness. No employees to hire here!' };
   }
 
+  // Major outside shareholders must have approved this wage
+  const { data: approval, error: approvalError } = await supabase.rpc('use_company_approval', {
+    p_user_id: profile.id,
+    p_company_id: params.companyId,
+    p_kind: 'hire_wage',
+    p_value: wage,
+  });
+
+  if (approvalError || !approval?.success) {
+    return { success: false, error: approval?.error || 'Failed to check shareholder approval' };
+  }
+
   try {
     const { data, error } = await supabase.rpc('create_job_listing', {
       p_company_id: params.companyId,
@@ -450,6 +690,21 @@ export async function applyToJob(listingId: string): Promise<JobApplicationResul
     };
   }
 
+  const { data: listing } = await supabase
+    .from('market_listings')
+    .select('community_id')
+    .eq('id', listingId)
+    .maybeSingle();
+
+  if (listing) {
+    const embargoReason = await getEmbargoBlockReason(supabase, profile.id, {
+      communityIds: [listing.community_id],
+    });
+    if (embargoReason) {
+      return { success: false, error: embargoReason };
+    }
+  }
+
   try {
     const { data, error } = await supabase.rpc('apply_to_job', {
       p_applicant_id: profile.id,
@@ -505,12 +760,41 @@ export async function getExchangeListings(params: {
   return data as MarketListing[];
 }
 
+// ============================================================================
+// TRADE EMBARGOES
+// ============================================================================
+
+/**
+ * Communities the current user cannot trade with because of an EMBARGO law,
+ * so the market can explain why their listings are blocked
+ */
+export async function getMyTradeEmbargoes(): Promise<TradeEmbargoNotice[]> {
+  const supabase = await createSupabaseServerClient();
+  const userId = await getPublicUserId(supabase);
+  if (!userId) return [];
+
+  try {
+    const communityIds = await getTradeCommunityIds(supabase, userId);
+    const blocks = await listTradeBlocks(supabase, communityIds);
+
+    return blocks.map((block) => ({
+      community_id: block.counterparty_id,
+      community_name: block.counterparty_name,
+      reason: block.reason,
+    }));
+  } catch (error) {
+    console.error('Error loading trade embargoes:', error);
+    return [];
+  }
+}
+
 // ============================================================================
 // CURRENCY EXCHANGE ORDERS (P2P Market)
 // ============================================================================
 
 /**
- * Create a new exchange order (buy or sell offer)
+ * Post a limit order (buy or sell offer). It fills straight away against
+ * crossing orders with price-time priority and rests with whatever is left.
  */
 export async function createExchangeOrder(params: {
   communityCurrencyId: string;
@@ -540,6 +824,19 @@ export async function createExchangeOrder(params: {
     return { order_id: null, success: false, message: 'User profile not found' };
   }
 
+  const { data: currency } = await supabase
+    .from('community_currencies')
+    .select('community_id')
+    .eq('id', params.communityCurrencyId)
+    .maybeSingle();
+
+  const embargoReason = await getEmbargoBlockReason(supabase, profile.id, {
+    communityIds: [currency?.community_id],
+  });
+  if (embargoReason) {
+    return { order_id: null, success: false, message: embargoReason };
+  }
+
   try {
     const { data, error } = await supabase.rpc('create_exchange_order', {
       p_user_id: profile.id,
@@ -570,6 +867,66 @@ export async function createExchangeOrder(params: {
   }
 }
 
+/**
+ * Buy or sell an amount of currency at the best prices on the book. The order
+ * sweeps resting offers until it is filled or the price moves more than
+ * maxSlippage (0.05 = 5%) from the best offer; the rest is refunded.
+ */
+export async function executeMarketExchangeOrder(params: {
+  communityCurrencyId: string;
+  orderType: OrderType;
+  currencyAmount: number;
+  maxSlippage: number;
+}): Promise<MarketOrderResult> {
+  const supabase = await createSupabaseServerClient();
+  const userId = await getPublicUserId(supabase);
+
+  if (!userId) {
+    return { order_id: null, success: false, message: 'Not authenticated' };
+  }
+
+  const { data: currency } = await supabase
+    .from('community_currencies')
+    .select('community_id')
+    .eq('id', params.communityCurrencyId)
+    .maybeSingle();
+
+  const embargoReason = await getEmbargoBlockReason(supabase, userId, {
+    communityIds: [currency?.community_id],
+  });
+  if (embargoReason) {
+    return { order_id: null, success: false, message: embargoReason };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('execute_market_exchange_order', {
+      p_user_id: userId,
+      p_community_currency_id: params.communityCurrencyId,
+      p_order_type: params.orderType,
+      p_currency_amount: params.currencyAmount,
+      p_max_slippage: params.maxSlippage,
+    });
+
+    if (error) throw error;
+
+    revalidatePath('/market');
+
+    // RPC returns array, get first row
+    return (data && data[0]) ? data[0] as MarketOrderResult : {
+      order_id: null,
+      success: false,
+      message: 'No data returned from order execution',
+    };
+  } catch (error) {
+    console.error('Error executing market order:', error);
+    return {
+      order_id: null,
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to execute market order',
+    };
+  }
+}
+
 /**
  * Accept an existing exchange order (partial or full fill)
  */
@@ -598,6 +955,25 @@ export async function acceptExchangeOrder(params: {
     return { trade_id: null, success: false, message: 'User profile not found' };
   }
 
+  const { data: order } = await supabase
+    .from('currency_exchange_orders')
+    .select('user_id, community_currency_id, community_currencies(community_id)')
+    .eq('id', params.orderId)
+    .maybeSingle();
+
+  if (order) {
+    const currencyCommunity = Array.isArray(order.community_currencies)
+      ? order.community_currencies[0]
+      : order.community_currencies;
+    const embargoReason = await getEmbargoBlockReason(supabase, profile.id, {
+      communityIds: [currencyCommunity?.community_id],
+      userId: order.user_id,
+    });
+    if (embargoReason) {
+      return { trade_id: null, success: false, message: embargoReason };
+    }
+  }
+
   try {
     const { data, error } = await supabase.rpc('accept_exchange_order', {
       p_taker_user_id: profile.id,
@@ -896,8 +1272,15 @@ export async function getUserExchangeOrders(): Promise<UserExchangeOrder[]> {
   }
 }
 
+// Candle width for each chart period
+const RATE_HISTORY_BUCKETS: Record<'24h' | '7d' | '30d', string> = {
+  '24h': '1 hour',
+  '7d': '6 hours',
+  '30d': '1 day',
+};
+
 /**
- * Get exchange rate history for charting
+ * Get exchange rate history for charting, as candles built from trade prints
  */
 export async function getExchangeRateHistory(params: {
   communityCurrencyId: string;
@@ -925,6 +1308,7 @@ export async function getExchangeRateHistory(params: {
       p_community_currency_id: params.communityCurrencyId,
       p_start_time: startTime.toISOString(),
       p_end_time: now.toISOString(),
+      p_bucket: RATE_HISTORY_BUCKETS[params.period],
     });
 
     if (error) throw error;
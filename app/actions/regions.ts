@@ -1,6 +1,9 @@
 "use server";
 
 import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { getHexNeighbors } from "@/components/map/hex-utils";
+import { getRegionDisplayName } from "@/lib/regions/display-name";
+import { getSupplyFronts } from "@/lib/regions/supply-lines";
 
 export interface CommunityRegion {
   hex_id: string;
@@ -9,8 +12,51 @@ export interface CommunityRegion {
   last_conquered_at: string;
   custom_name: string | null;
   province_name?: string | null;
+  acquired_from?: RegionAcquisition | null; // Set when the region was ceded or sold rather than conquered
 }
 
+export interface RegionAcquisition {
+  community_id: string;
+  community_name: string;
+  price: number; // 0 = ceded without payment
+  currency_type: "gold" | "community";
+}
+
+export interface CampaignRegion {
+  hex_id: string;
+  name: string;
+  is_supplied: boolean;
+  unsupplied_since: string | null;
+}
+
+export interface CampaignBattle {
+  id: string;
+  target_hex_id: string;
+  role: "attacking" | "defending";
+  ends_at: string;
+}
+
+export interface CampaignFront {
+  supplied: boolean; // Connected to the capital
+  regions: CampaignRegion[];
+  battles: CampaignBattle[]; // Defending one of its regions or attacking next to it
+}
+
+export interface CommunityCampaignView {
+  capital_hex_id: string | null;
+  fronts: CampaignFront[];
+  expeditions: CampaignBattle[]; // Attacks that no front borders
+}
+
+type RegionTransferRow = {
+  hex_id: string;
+  from_community_id: string;
+  price: number | string;
+  currency_type: "gold" | "community";
+  created_at: string;
+  from_community: { name: string | null } | null;
+};
+
 /**
  * Get all regions owned by a community
  */
@@ -28,7 +74,41 @@ export async function getCommunityRegions(
     return [];
   }
 
-  return (data || []) as CommunityRegion[];
+  const regions = (data || []) as CommunityRegion[];
+  if (regions.length === 0) return regions;
+
+  // Regions transferred by TRANSFER_REGION law record where they came from
+  const { data: transfers } = await supabase
+    .from("community_region_transfers")
+    .select("hex_id, from_community_id, price, currency_type, created_at, from_community:communities!community_region_transfers_from_community_id_fkey(name)")
+    .eq("to_community_id", communityId)
+    .in("hex_id", regions.map((region) => region.hex_id))
+    .order("created_at", { ascending: false });
+
+  const latestTransferByHex = new Map<string, RegionTransferRow>();
+  for (const transfer of (transfers ?? []) as unknown as RegionTransferRow[]) {
+    if (!latestTransferByHex.has(transfer.hex_id)) {
+      latestTransferByHex.set(transfer.hex_id, transfer);
+    }
+  }
+
+  return regions.map((region) => {
+    const transfer = latestTransferByHex.get(region.hex_id);
+    // A transfer stamps last_conquered_at in the same transaction; a later conquest supersedes it
+    if (!transfer || new Date(transfer.created_at) < new Date(region.last_conquered_at)) {
+      return region;
+    }
+
+    return {
+      ...region,
+      acquired_from: {
+        community_id: transfer.from_community_id,
+        community_name: transfer.from_community?.name ?? "Unknown",
+        price: Number(transfer.price),
+        currency_type: transfer.currency_type,
+      },
+    };
+  });
 }
 
 /**
@@ -50,3 +130,79 @@ export async function getCommunityRegionCount(
 
   return data || 0;
 }
+
+/**
+ * A community's fronts (groups of connected regions), their supply state and
+ * the active battles along each
+ */
+export async function getCommunityCampaign(communityId: string): Promise<CommunityCampaignView> {
+  const supabase = await createSupabaseServerClient();
+
+  const [communityResult, regionsResult, battlesResult] = await Promise.all([
+    supabase.from("communities").select("capital_hex_id").eq("id", communityId).maybeSingle(),
+    supabase
+      .from("world_regions")
+      .select("hex_id, custom_name, province_name, is_supplied, unsupplied_since")
+      .eq("owner_community_id", communityId),
+    supabase
+      .from("battles")
+      .select("id, target_hex_id, attacker_community_id, ends_at")
+      .or(`attacker_community_id.eq.${communityId},defender_community_id.eq.${communityId}`)
+      .eq("status", "active")
+      .order("ends_at", { ascending: true }),
+  ]);
+
+  if (regionsResult.error) {
+    throw new Error(`Failed to load regions: ${regionsResult.error.message}`);
+  }
+  if (battlesResult.error) {
+    throw new Error(`Failed to load battles: ${battlesResult.error.message}`);
+  }
+
+  const capitalHexId = communityResult.data?.capital_hex_id ?? null;
+  const regionByHex = new Map<string, CampaignRegion>(
+    (regionsResult.data ?? []).map((region) => [
+      region.hex_id,
+      {
+        hex_id: region.hex_id,
+        name: getRegionDisplayName(region),
+        is_supplied: region.is_supplied ?? true,
+        unsupplied_since: region.unsupplied_since ?? null,
+      },
+    ])
+  );
+
+  const fronts: CampaignFront[] = getSupplyFronts(Array.from(regionByHex.keys()), capitalHexId).map((front) => ({
+    supplied: front.hasCapital,
+    regions: front.hexIds.map((hexId) => regionByHex.get(hexId)!),
+    battles: [],
+  }));
+
+  const frontByHex = new Map<string, CampaignFront>();
+  for (const front of fronts) {
+    for (const region of front.regions) frontByHex.set(region.hex_id, front);
+  }
+
+  const expeditions: CampaignBattle[] = [];
+  for (const battle of battlesResult.data ?? []) {
+    const role = battle.attacker_community_id === communityId ? "attacking" : "defending";
+    const entry: CampaignBattle = {
+      id: battle.id,
+      target_hex_id: battle.target_hex_id,
+      role,
+      ends_at: battle.ends_at,
+    };
+
+    const front =
+      role === "defending"
+        ? frontByHex.get(battle.target_hex_id)
+        : getHexNeighbors(battle.target_hex_id)
+            .map((hexId) => frontByHex.get(hexId))
+            .find(Boolean);
+
+    if (front) front.battles.push(entry);
+    else expeditions.push(entry);
+  }
+
+  return { capital_hex_id: capitalHexId, fronts, expeditions };
+}
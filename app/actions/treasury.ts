@@ -0,0 +1,140 @@
+"use server";
+
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import type { TreasuryCurrency } from "@/lib/governance/treasury-spending";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface TreasuryPaymentRecord {
+  id: string;
+  recipient_id: string | null;
+  recipient_username: string;
+  currency_type: TreasuryCurrency;
+  amount: number;
+  transaction_type: "treasury_grant" | "treasury_stipend";
+  purpose: string | null;
+  proposal_id: string | null;
+  created_at: string;
+}
+
+export interface TreasuryStipendRecord {
+  id: string;
+  proposal_id: string;
+  recipient_id: string;
+  recipient_username: string;
+  currency_type: TreasuryCurrency;
+  amount: number;
+  payment_interval: string;
+  purpose: string;
+  next_payment_at: string;
+  payments_made: number;
+  missed_payments: number;
+  last_error: string | null;
+}
+
+export interface TreasurySpendingView {
+  payments: TreasuryPaymentRecord[]; // Most recent payments first
+  stipends: TreasuryStipendRecord[]; // Active recurring payments
+}
+
+type PaymentRow = {
+  id: string;
+  to_user_id: string | null;
+  currency_type: TreasuryCurrency;
+  amount: number | string;
+  transaction_type: "treasury_grant" | "treasury_stipend";
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+  recipient: { username: string | null } | null;
+};
+
+type StipendRow = Omit<TreasuryStipendRecord, "recipient_username" | "amount"> & {
+  amount: number | string;
+  recipient: { username: string | null } | null;
+};
+
+const PAYMENT_HISTORY_LIMIT = 50;
+
+// ============================================================================
+// ACTION: Treasury spending audit trail
+// ============================================================================
+
+/**
+ * Payments made from a community treasury by SPEND_TREASURY laws, plus the
+ * recurring payments still in force. Visible to members, like the treasury itself.
+ */
+export async function getTreasurySpendingAction(communityId: string): Promise<TreasurySpendingView> {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("id")
+    .eq("auth_id", user.id)
+    .maybeSingle();
+
+  if (!profile) throw new Error("Profile not found");
+
+  const { data: member } = await supabase
+    .from("community_members")
+    .select("user_id")
+    .eq("community_id", communityId)
+    .eq("user_id", profile.id)
+    .maybeSingle();
+
+  if (!member) {
+    return { payments: [], stipends: [] };
+  }
+
+  // Transactions are only readable by their participants, so the ledger is read with the admin client
+  const [paymentsResult, stipendsResult] = await Promise.all([
+    supabaseAdmin
+      .from("currency_transactions")
+      .select(
+        "id, to_user_id, currency_type, amount, transaction_type, metadata, created_at, recipient:users!currency_transactions_to_user_id_fkey(username)"
+      )
+      .in("transaction_type", ["treasury_grant", "treasury_stipend"])
+      .eq("metadata->>community_id", communityId)
+      .order("created_at", { ascending: false })
+      .limit(PAYMENT_HISTORY_LIMIT),
+    supabase
+      .from("treasury_stipends")
+      .select(
+        "id, proposal_id, recipient_id, currency_type, amount, payment_interval, purpose, next_payment_at, payments_made, missed_payments, last_error, recipient:users!treasury_stipends_recipient_id_fkey(username)"
+      )
+      .eq("community_id", communityId)
+      .eq("status", "active")
+      .order("created_at", { ascending: false }),
+  ]);
+
+  if (paymentsResult.error) {
+    throw new Error(`Failed to load treasury payments: ${paymentsResult.error.message}`);
+  }
+  if (stipendsResult.error) {
+    throw new Error(`Failed to load recurring payments: ${stipendsResult.error.message}`);
+  }
+
+  const payments = ((paymentsResult.data ?? []) as unknown as PaymentRow[]).map((row) => ({
+    id: row.id,
+    recipient_id: row.to_user_id,
+    recipient_username: row.recipient?.username ?? "Unknown",
+    currency_type: row.currency_type,
+    amount: Number(row.amount),
+    transaction_type: row.transaction_type,
+    purpose: typeof row.metadata?.purpose === "string" ? row.metadata.purpose : null,
+    proposal_id: typeof row.metadata?.proposal_id === "string" ? row.metadata.proposal_id : null,
+    created_at: row.created_at,
+  }));
+
+  const stipends = ((stipendsResult.data ?? []) as unknown as StipendRow[]).map(({ recipient, ...row }) => ({
+    ...row,
+    amount: Number(row.amount),
+    recipient_username: recipient?.username ?? "Unknown",
+  }));
+
+  return { payments, stipends };
+}
@@ -0,0 +1,219 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { LAW_REGISTRY, type LawType } from "@/lib/governance/laws";
+import { wouldCreateDelegationCycle, type VoteDelegation } from "@/lib/governance/delegation";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface VoteDelegationRecord {
+  id: string;
+  delegator_id: string;
+  delegator_username: string;
+  delegate_id: string;
+  delegate_username: string;
+  law_type: LawType | null;
+  created_at: string;
+}
+
+export interface VoteDelegationView {
+  outgoing: VoteDelegationRecord[]; // Delegations made by the current user
+  incoming: VoteDelegationRecord[]; // Delegations made to the current user
+  isMember: boolean;
+}
+
+type DelegationRow = {
+  id: string;
+  delegator_id: string;
+  delegate_id: string;
+  law_type: LawType | null;
+  created_at: string;
+  delegator: { username: string | null } | null;
+  delegate: { username: string | null } | null;
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Helper to get the authenticated user's profile ID
+ */
+async function getProfileId() {
+  const supabase = await createSupabaseServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("id")
+    .eq("auth_id", user.id)
+    .maybeSingle();
+
+  if (!profile) throw new Error("Profile not found");
+  return { supabase, profileId: profile.id as string };
+}
+
+async function isCommunityMember(
+  supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+  communityId: string,
+  userId: string
+): Promise<boolean> {
+  const { data: member } = await supabase
+    .from("community_members")
+    .select("user_id")
+    .eq("community_id", communityId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return !!member;
+}
+
+function toRecord(row: DelegationRow): VoteDelegationRecord {
+  return {
+    id: row.id,
+    delegator_id: row.delegator_id,
+    delegator_username: row.delegator?.username ?? "Unknown",
+    delegate_id: row.delegate_id,
+    delegate_username: row.delegate?.username ?? "Unknown",
+    law_type: row.law_type,
+    created_at: row.created_at,
+  };
+}
+
+// ============================================================================
+// ACTION: Get the current user's delegations in a community
+// ============================================================================
+
+export async function getVoteDelegationsAction(communityId: string): Promise<VoteDelegationView> {
+  const { supabase, profileId } = await getProfileId();
+
+  const isMember = await isCommunityMember(supabase, communityId, profileId);
+  if (!isMember) {
+    return { outgoing: [], incoming: [], isMember };
+  }
+
+  const { data, error } = await supabase
+    .from("vote_delegations")
+    .select(
+      "id, delegator_id, delegate_id, law_type, created_at, delegator:users!vote_delegations_delegator_id_fkey(username), delegate:users!vote_delegations_delegate_id_fkey(username)"
+    )
+    .eq("community_id", communityId)
+    .is("revoked_at", null)
+    .or(`delegator_id.eq.${profileId},delegate_id.eq.${profileId}`)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load delegations: ${error.message}`);
+  }
+
+  const rows = (data ?? []) as unknown as DelegationRow[];
+  return {
+    outgoing: rows.filter((row) => row.delegator_id === profileId).map(toRecord),
+    incoming: rows.filter((row) => row.delegate_id === profileId).map(toRecord),
+    isMember,
+  };
+}
+
+// ============================================================================
+// ACTION: Delegate the current user's vote
+// ============================================================================
+
+/**
+ * Delegate votes to another member, for every law (lawType null) or one law type.
+ * Replaces any existing delegation with the same scope.
+ */
+export async function delegateVoteAction(
+  communityId: string,
+  delegateId: string,
+  lawType: LawType | null
+) {
+  const { supabase, profileId } = await getProfileId();
+
+  if (delegateId === profileId) {
+    throw new Error("You cannot delegate your vote to yourself");
+  }
+  if (lawType !== null && !LAW_REGISTRY[lawType]) {
+    throw new Error(`Unknown law type: ${lawType}`);
+  }
+
+  if (!(await isCommunityMember(supabase, communityId, profileId))) {
+    throw new Error("You are not a member of this community");
+  }
+  if (!(await isCommunityMember(supabase, communityId, delegateId))) {
+    throw new Error("Your delegate must be a member of this community");
+  }
+
+  const { data: activeDelegations, error: fetchError } = await supabase
+    .from("vote_delegations")
+    .select("delegator_id, delegate_id, law_type")
+    .eq("community_id", communityId)
+    .is("revoked_at", null);
+
+  if (fetchError) {
+    throw new Error(`Failed to load delegations: ${fetchError.message}`);
+  }
+
+  const candidate: VoteDelegation = { delegator_id: profileId, delegate_id: delegateId, law_type: lawType };
+  if (wouldCreateDelegationCycle((activeDelegations ?? []) as VoteDelegation[], candidate)) {
+    throw new Error("This delegation would create a cycle: your vote would flow back to you");
+  }
+
+  // Replace the existing delegation for the same scope
+  let revokeQuery = supabase
+    .from("vote_delegations")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("community_id", communityId)
+    .eq("delegator_id", profileId)
+    .is("revoked_at", null);
+  revokeQuery = lawType === null ? revokeQuery.is("law_type", null) : revokeQuery.eq("law_type", lawType);
+
+  const { error: revokeError } = await revokeQuery;
+  if (revokeError) {
+    throw new Error(`Failed to replace delegation: ${revokeError.message}`);
+  }
+
+  const { error: insertError } = await supabase.from("vote_delegations").insert({
+    community_id: communityId,
+    delegator_id: profileId,
+    delegate_id: delegateId,
+    law_type: lawType,
+  });
+
+  if (insertError) {
+    throw new Error(`Failed to delegate vote: ${insertError.message}`);
+  }
+
+  revalidatePath(`/community/${communityId}`);
+  return { success: true };
+}
+
+// ============================================================================
+// ACTION: Revoke a delegation
+// ============================================================================
+
+export async function revokeVoteDelegationAction(delegationId: string) {
+  const { supabase, profileId } = await getProfileId();
+
+  const { data: delegation, error } = await supabase
+    .from("vote_delegations")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", delegationId)
+    .eq("delegator_id", profileId)
+    .is("revoked_at", null)
+    .select("community_id")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to revoke delegation: ${error.message}`);
+  }
+  if (!delegation) {
+    throw new Error("Delegation not found");
+  }
+
+  revalidatePath(`/community/${delegation.community_id}`);
+  return { success: true };
+}
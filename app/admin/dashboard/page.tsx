@@ -12,6 +12,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { createSupabaseBrowserClient } from "@/lib/supabase-browser";
 import { getMoraleLeaderboard, getRebellionUsers, resetAllMorale } from "@/lib/morale";
 import { useState as useStateWithCallback } from "react";
+import { BattleBalancePanel } from "@/components/admin/battle-balance-panel";
 
 interface User {
   id: string;
@@ -598,7 +599,7 @@ export default function AdminDashboard() {
 
       {/* Tabs for different sections */}
       <Tabs defaultValue="agents" className="space-y-4">
-        <TabsList className="grid grid-cols-7 w-full gap-2">
+        <TabsList className="grid grid-cols-8 w-full gap-2">
           <TabsTrigger
             value="agents"
             size="sm"
@@ -634,6 +635,13 @@ export default function AdminDashboard() {
           >
             Simulation
           </TabsTrigger>
+          <TabsTrigger
+            value="battle"
+            size="sm"
+            className="text-[10px] font-semibold tracking-[0.12em]"
+          >
+            Battle Balance
+          </TabsTrigger>
           <TabsTrigger
             value="governance"
             size="sm"
@@ -1226,6 +1234,11 @@ export default function AdminDashboard() {
           </Card>
         </TabsContent>
 
+        {/* BATTLE BALANCE TAB */}
+        <TabsContent value="battle" className="space-y-4">
+          <BattleBalancePanel />
+        </TabsContent>
+
         {/* GOVERNANCE TAB */}
         <TabsContent value="governance" className="space-y-4">
           <Card>
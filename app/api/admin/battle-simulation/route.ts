@@ -0,0 +1,109 @@
+/**
+ * Admin API: Battle Simulation
+ * Run seeded what-if battles against the live battle mechanics config
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { assertAdmin } from "@/lib/admin/api-auth";
+import { getBattleConfig } from "@/lib/battle-mechanics/config";
+import { runBattleSimulation } from "@/lib/battle-mechanics/simulator";
+import type { BattleMechanicsConfig, SimulatedSquad } from "@/lib/battle-mechanics/types";
+import { RANK_TIERS, type MilitaryRank } from "@/lib/military-ranks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_RUNS = 2000;
+const MAX_FIGHTERS_PER_SIDE = 500;
+const MAX_FIGHTER_RUNS = 250_000; // Fighters × runs, keeps a request to a few seconds
+
+// Config fields a what-if may override
+const OVERRIDABLE_FIELDS = [
+  "focus_enabled",
+  "focus_morale_ratio",
+  "rage_crit_multiplier",
+  "battle_duration_hours",
+  "base_energy_cost",
+  "adrenaline_enabled",
+  "adrenaline_final_stand_window_percent",
+  "adrenaline_damage_threshold_ratio",
+  "adrenaline_rage_per_percent_time",
+  "adrenaline_max_rage",
+] as const satisfies readonly (keyof BattleMechanicsConfig)[];
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+};
+
+function parseSquads(value: unknown): SimulatedSquad[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const ranks = new Set<string>(RANK_TIERS.map((tier) => tier.rank));
+  const squads = value.map((raw: Partial<Record<keyof SimulatedSquad, unknown>>) => ({
+    count: Math.floor(clamp(raw?.count, 0, MAX_FIGHTERS_PER_SIDE, 0)),
+    morale: clamp(raw?.morale, 0, 100, 50),
+    rage: clamp(raw?.rage, 0, 100, 0),
+    strength: clamp(raw?.strength, 0, 1000, 1),
+    rank: (typeof raw?.rank === "string" && ranks.has(raw.rank) ? raw.rank : "Recruit") as MilitaryRank,
+    weaponQuality: raw?.weaponQuality ? Math.round(clamp(raw.weaponQuality, 1, 5, 1)) : null,
+    weapons: raw?.weapons == null || raw.weapons === "" ? undefined : Math.floor(clamp(raw.weapons, 0, 10_000, 0)),
+    energy: clamp(raw?.energy, 0, 100, 100),
+  }));
+
+  const total = squads.reduce((sum, squad) => sum + squad.count, 0);
+  return total > 0 && total <= MAX_FIGHTERS_PER_SIDE ? squads : null;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { error } = await assertAdmin(request);
+    if (error) return error;
+
+    const body = await request.json().catch(() => null);
+    const attackers = parseSquads(body?.attackers);
+    const defenders = parseSquads(body?.defenders);
+
+    if (!attackers || !defenders) {
+      return NextResponse.json(
+        { error: `Each side needs between 1 and ${MAX_FIGHTERS_PER_SIDE} fighters` },
+        { status: 400 }
+      );
+    }
+
+    const communityId = typeof body?.communityId === "string" ? body.communityId : null;
+    const baseConfig = await getBattleConfig(communityId);
+    const config: BattleMechanicsConfig = { ...baseConfig };
+    const overridden = config as unknown as Record<string, number | boolean>;
+    for (const field of OVERRIDABLE_FIELDS) {
+      const override = body?.overrides?.[field];
+      if (override === undefined || override === null || override === "") continue;
+      overridden[field] = typeof baseConfig[field] === "boolean" ? Boolean(override) : Number(override);
+    }
+
+    const fighters = [...attackers, ...defenders].reduce((sum, squad) => sum + squad.count, 0);
+    const runs = Math.min(
+      Math.floor(clamp(body?.runs, 1, MAX_RUNS, 500)),
+      Math.max(1, Math.floor(MAX_FIGHTER_RUNS / fighters))
+    );
+
+    const report = runBattleSimulation({
+      attackers,
+      defenders,
+      config,
+      initialDefense: clamp(body?.initialDefense, 0, 100_000_000, 10_000),
+      attackerDisarrayMultiplier: clamp(body?.attackerDisarrayMultiplier, 1, 10, 1),
+      defenderDisarrayMultiplier: clamp(body?.defenderDisarrayMultiplier, 1, 10, 1),
+      runs,
+      seed: Math.floor(clamp(body?.seed, 0, 2 ** 32 - 1, 1)),
+    });
+
+    return NextResponse.json({ config, report });
+  } catch (err) {
+    console.error("Battle simulation error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -12,7 +12,21 @@ import {
   getDisarrayMultiplier,
   calculateEnergyCost,
 } from "@/lib/battle-mechanics";
-import { getRankDamageMultiplier, type MilitaryRank } from "@/lib/military-ranks";
+import { getSupplyEnergyMultiplier } from "@/lib/battle-mechanics/disarray";
+import {
+  applyDamageModifiers,
+  calculateBaseDamage,
+  getFortificationDamageMultiplier,
+  getWeaponClassDamageMultiplier,
+  isFortifiedBattle,
+} from "@/lib/battle-mechanics/damage";
+import {
+  getDominantWeaponClass,
+  getWeaponClassByResourceKey,
+  type WeaponClass,
+  type WeaponClassDamage,
+} from "@/lib/battle-mechanics/weapon-classes";
+import type { MilitaryRank } from "@/lib/military-ranks";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -124,8 +138,43 @@ export async function POST(request: Request) {
       disarrayMultiplier = await getDisarrayMultiplier(communityId);
     }
 
-    // Calculate energy cost with disarray
-    const energyCost = calculateEnergyCost(config.base_energy_cost, disarrayMultiplier);
+    const { data: battle } = await supabaseAdmin
+      .from("battles")
+      .select(
+        "attacker_community_id, defender_community_id, target_hex_id, fortification_defense, defender_damage_multiplier, attacker_damage_multiplier"
+      )
+      .eq("id", battleId)
+      .maybeSingle();
+
+    const battleSide: "attacker" | "defender" =
+      battle && communityId && battle.defender_community_id === communityId ? "defender" : "attacker";
+
+    // Weapon class comes from the inventory row, never from the client
+    let weaponClass: WeaponClass | null = null;
+    if (weaponInventoryId) {
+      const { data: weaponRow } = await supabaseAdmin
+        .from("user_inventory")
+        .select("resource:resources(key)")
+        .eq("id", weaponInventoryId)
+        .eq("user_id", actorUserId)
+        .maybeSingle();
+      const resource = weaponRow?.resource as { key: string } | { key: string }[] | null | undefined;
+      weaponClass = getWeaponClassByResourceKey(Array.isArray(resource) ? resource[0]?.key : resource?.key);
+    }
+
+    // Defending a region cut off from its capital costs more energy
+    let supplyMultiplier = 1;
+    if (battle && battleSide === "defender") {
+      const { data: region } = await supabaseAdmin
+        .from("world_regions")
+        .select("is_supplied")
+        .eq("hex_id", battle.target_hex_id)
+        .maybeSingle();
+      supplyMultiplier = getSupplyEnergyMultiplier(battleSide, region?.is_supplied !== false);
+    }
+
+    // Calculate energy cost with disarray and supply
+    const energyCost = calculateEnergyCost(config.base_energy_cost, disarrayMultiplier * supplyMultiplier);
 
     // Check energy
     if (currentEnergy < energyCost) {
@@ -135,6 +184,7 @@ export async function POST(request: Request) {
           required: energyCost,
           current: currentEnergy,
           disarrayMultiplier,
+          supplyMultiplier,
         },
         { status: 400 }
       );
@@ -145,22 +195,13 @@ export async function POST(request: Request) {
     const hit = checkFocusHit(focus);
 
     let damage = 0;
+    let weaponClassMultiplier = 1;
     let critical = false;
     let result: "HIT" | "CRITICAL" | "MISS" = "MISS";
     let battleState: any = null;
-    let battleSide: "attacker" | "defender" = "attacker";
 
     if (hit) {
-      const { data: battle } = await supabaseAdmin
-        .from("battles")
-        .select("attacker_community_id, defender_community_id, target_hex_id")
-        .eq("id", battleId)
-        .maybeSingle();
-
       if (battle && communityId) {
-        battleSide =
-          battle.defender_community_id === communityId ? "defender" : "attacker";
-
         // Parallelize location checks - run both RPCs concurrently
         const [hexCheckResult, territoryCheckResult] = await Promise.all([
           supabaseAdmin.rpc("is_user_on_hex", {
@@ -213,24 +254,40 @@ export async function POST(request: Request) {
       // Gate 2: Rage Check (Critical)
       critical = checkRageCritical(effectiveRage);
 
-      // Calculate damage with rank bonus
-      const rankMultiplier = getRankDamageMultiplier(militaryRank);
-      let baseDamage = 100 * strength * rankMultiplier;
-
-      // Apply weapon damage bonus
-      if (weaponQuality && weaponQuality >= 1 && weaponQuality <= 5) {
-        const weaponBonuses: Record<number, number> = {
-          1: 0.20, // +20%
-          2: 0.30, // +30%
-          3: 0.40, // +40%
-          4: 0.50, // +50%
-          5: 0.60, // +60%
-        };
-        const weaponBonus = weaponBonuses[weaponQuality] || 0;
-        baseDamage = baseDamage * (1 + weaponBonus);
+      // Calculate damage with rank and weapon bonuses
+      const baseDamage = calculateBaseDamage(strength, militaryRank, weaponQuality);
+
+      // Watchtowers and bunkers on the target were fixed when the battle started
+      const fortificationMultiplier = getFortificationDamageMultiplier(battleSide, battle);
+
+      // Class matchup against what the other side mostly fights with
+      if (weaponClass) {
+        const opposingSide = battleSide === "defender" ? "attacker" : "defender";
+        const { data: classTotals } = await supabaseAdmin
+          .from("battle_weapon_damage")
+          .select("side, weapon_class, damage, actions")
+          .eq("battle_id", battleId)
+          .eq("side", opposingSide);
+        const opposingClass = getDominantWeaponClass(
+          (classTotals ?? []).map((total) => ({
+            ...total,
+            weapon_class: total.weapon_class === "unarmed" ? null : total.weapon_class,
+            damage: Number(total.damage),
+          })) as WeaponClassDamage[],
+          opposingSide
+        );
+        weaponClassMultiplier = getWeaponClassDamageMultiplier(
+          weaponClass,
+          battleSide,
+          opposingClass,
+          isFortifiedBattle(battle)
+        );
       }
 
-      damage = Math.floor(critical ? calculateCriticalDamage(baseDamage, config) : baseDamage);
+      damage = applyDamageModifiers(critical ? calculateCriticalDamage(baseDamage, config) : baseDamage, {
+        fortificationMultiplier,
+        weaponClassMultiplier,
+      });
 
       result = critical ? "CRITICAL" : "HIT";
 
@@ -272,23 +329,14 @@ export async function POST(request: Request) {
       }
     } else {
       // Even on MISS, we need to log it for toast display
-      const { data: battle } = await supabaseAdmin
-        .from("battles")
-        .select("attacker_community_id, defender_community_id")
-        .eq("id", battleId)
-        .single();
-
       if (battle) {
-        const side =
-          communityId === battle.defender_community_id ? "defender" : "attacker";
-
         const { error: missLogError } = await supabaseAdmin.from("battle_logs").insert({
           battle_id: battleId,
           user_id: actorUserId,
           username: username ?? "Unknown",
           actor_avatar_url: avatarUrl ?? null,
           damage: 0,
-          side: side,
+          side: battleSide,
           result: "MISS",
         });
         if (missLogError && missLogError.code === "42703") {
@@ -297,7 +345,7 @@ export async function POST(request: Request) {
             user_id: actorUserId,
             username: username ?? "Unknown",
             damage: 0,
-            side: side,
+            side: battleSide,
             result: "MISS",
           });
         }
@@ -350,7 +398,7 @@ export async function POST(request: Request) {
       ? Math.min(100, rage + adrenalineBonus)
       : rage;
 
-    await supabaseAdmin.from("battle_action_log").insert({
+    const { error: actionLogError } = await supabaseAdmin.from("battle_action_log").insert({
       battle_id: battleId,
       user_id: actorUserId,
       action_type: "FIGHT",
@@ -362,7 +410,12 @@ export async function POST(request: Request) {
       user_energy: currentEnergy,
       energy_cost: energyCost,
       disarray_multiplier: disarrayMultiplier,
+      weapon_class: weaponClass,
+      side: battleSide,
     });
+    if (actionLogError) {
+      console.error("Failed to log fight action:", actionLogError);
+    }
 
     try {
       await recordMoraleEvent({
@@ -394,6 +447,9 @@ export async function POST(request: Request) {
         energyUpdatedAt: updatedProfile?.energy_updated_at ?? null,
         energyCost,
         disarrayMultiplier,
+        supplyMultiplier,
+        weaponClass,
+        weaponClassMultiplier,
         // Include battle state for instant UI updates
         current_defense: battleState?.current_defense,
         attacker_score: battleState?.attacker_score,
@@ -4,6 +4,7 @@ import { createSupabaseServerClient } from "@/lib/supabase-server";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
 import { NotificationType } from "@/lib/types/notifications";
 import { getHexNeighbors } from "@/components/map/hex-utils";
+import { findActiveTreaty, describeTreatyBlock } from "@/lib/governance/treaties";
 
 export async function POST(request: Request) {
   try {
@@ -70,6 +71,32 @@ export async function POST(request: Request) {
 
     const regionName = regionData?.custom_name || regionData?.province_name || `Region ${targetHexId}`;
 
+    // No battles against a community the attacker has a peace treaty or ceasefire with
+    const { data: targetRegion } = await supabase
+      .from("world_regions")
+      .select("owner_community_id")
+      .eq("hex_id", targetHexId)
+      .maybeSingle();
+
+    const defenderCommunityId = targetRegion?.owner_community_id ?? null;
+    if (defenderCommunityId && defenderCommunityId !== attackerCommunityId) {
+      const treaty = await findActiveTreaty(supabase, attackerCommunityId, defenderCommunityId);
+      if (treaty) {
+        const { data: defenderCommunity } = await supabase
+          .from("communities")
+          .select("name")
+          .eq("id", defenderCommunityId)
+          .maybeSingle();
+
+        return NextResponse.json(
+          {
+            error: `${describeTreatyBlock(treaty, defenderCommunity?.name ?? "this community")} Battles cannot be started until it ends.`,
+          },
+          { status: 403 }
+        );
+      }
+    }
+
     // Deduct gold cost using transaction service (single source of truth)
     const goldCost = 10;
     const { data: deductResult, error: goldError } = await supabase.rpc(
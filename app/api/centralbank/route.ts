@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { summarizeMonetaryTrend, type SupplySnapshot } from "@/lib/governance/monetary-policy";
 
 /**
  * Central Bank API Routes
@@ -60,6 +61,9 @@ export async function GET(request: Request) {
       case "community_stats":
         return await getCommunityStats(supabase, searchParams);
 
+      case "monetary_policy":
+        return await getMonetaryPolicy(supabase, searchParams);
+
       default:
         return NextResponse.json(
           { error: "Invalid action parameter" },
@@ -394,3 +398,71 @@ async function getCommunityStats(
 
   return NextResponse.json(data || {});
 }
+
+async function getMonetaryPolicy(
+  supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+  searchParams: URLSearchParams
+) {
+  const currencyId = searchParams.get("community_currency_id");
+  const range = searchParams.get("range") || "month";
+
+  if (!currencyId) {
+    return NextResponse.json(
+      { error: "community_currency_id parameter required" },
+      { status: 400 }
+    );
+  }
+
+  const now = new Date();
+  const startDate = new Date(now);
+
+  switch (range) {
+    case "week":
+      startDate.setDate(startDate.getDate() - 7);
+      break;
+    case "quarter":
+      startDate.setDate(startDate.getDate() - 90);
+      break;
+    default:
+      startDate.setDate(startDate.getDate() - 30);
+  }
+
+  const [statsResult, historyResult, operationsResult] = await Promise.all([
+    supabase.rpc("get_currency_monetary_stats", {
+      p_community_currency_id: currencyId,
+    }),
+    supabase.rpc("get_currency_supply_history", {
+      p_community_currency_id: currencyId,
+      p_start_date: startDate.toISOString(),
+      p_end_date: now.toISOString(),
+    }),
+    supabase
+      .from("open_market_operations")
+      .select("id, proposal_id, operation, gold_amount, currency_amount, status, created_at, closed_at, order:currency_exchange_orders(filled_gold_amount)")
+      .eq("community_currency_id", currencyId)
+      .order("created_at", { ascending: false })
+      .limit(10),
+  ]);
+
+  const error = statsResult.error || historyResult.error || operationsResult.error;
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  if (!statsResult.data) {
+    return NextResponse.json({ error: "Currency not found" }, { status: 404 });
+  }
+
+  const history = (historyResult.data || []) as SupplySnapshot[];
+
+  return NextResponse.json({
+    stats: statsResult.data,
+    history,
+    trend: summarizeMonetaryTrend(history),
+    operations: (operationsResult.data || []).map((operation) => {
+      const { order, ...rest } = operation;
+      const fill = Array.isArray(order) ? order[0] : order;
+      return { ...rest, filled_gold_amount: Number(fill?.filled_gold_amount ?? 0) };
+    }),
+  });
+}
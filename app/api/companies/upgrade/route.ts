@@ -47,7 +47,7 @@ export async function POST(request: NextRequest) {
     // Get company details
     const { data: company } = await supabase
       .from("companies")
-      .select("id, user_id, company_type_key, level")
+      .select("id, user_id, company_type_key, level, status")
       .eq("id", company_id)
       .single();
 
@@ -66,6 +66,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A company behind on its upkeep must catch up before growing (and upkeep rises with level)
+    if (company.status && company.status !== "active") {
+      return NextResponse.json(
+        { error: "Pay the company's overdue upkeep before upgrading" },
+        { status: 400 }
+      );
+    }
+
     // Get company type configuration
     const companyType = COMPANY_TYPES.find(
       (ct) => ct.key === company.company_type_key
@@ -105,6 +113,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Major outside shareholders must have approved the upgrade
+    const { data: approval, error: approvalError } = await supabase.rpc("use_company_approval", {
+      p_user_id: userProfile.id,
+      p_company_id: company_id,
+      p_kind: "upgrade",
+    });
+
+    if (approvalError || !approval?.success) {
+      return NextResponse.json(
+        { error: approval?.error || "Failed to check shareholder approval" },
+        { status: 403 }
+      );
+    }
+
     // Deduct gold
     const { error: walletError } = await supabase
       .from("user_wallets")
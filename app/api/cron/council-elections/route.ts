@@ -0,0 +1,44 @@
+/**
+ * COUNCIL ELECTION CRON JOB
+ * Runs every 15 minutes to move council elections from candidacy to voting,
+ * tally closed polls and call elections for councils whose term is ending
+ */
+
+import { NextResponse } from "next/server";
+import { resolveCouncilElectionsAction } from "@/app/actions/council-elections";
+
+export async function GET(request: Request) {
+  const startTime = Date.now();
+
+  try {
+    // Verify authorization (cron secret)
+    const authHeader = request.headers.get("authorization");
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await resolveCouncilElectionsAction();
+
+    console.log("[Council Election Cron] Complete:", result);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      durationMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error("[Council Election Cron] Fatal error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        details: String(error),
+        durationMs: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// The pg_cron job posts to this endpoint
+export const POST = GET;
@@ -0,0 +1,44 @@
+/**
+ * LAW SUNSET CRON JOB
+ * Runs every 15 minutes to revert the effects of enacted laws whose sunset
+ * clause has lapsed
+ */
+
+import { NextResponse } from "next/server";
+import { resolveLapsedLawsAction } from "@/app/actions/laws";
+
+export async function GET(request: Request) {
+  const startTime = Date.now();
+
+  try {
+    // Verify authorization (cron secret)
+    const authHeader = request.headers.get("authorization");
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await resolveLapsedLawsAction();
+
+    console.log("[Law Sunset Cron] Complete:", result);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      durationMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error("[Law Sunset Cron] Fatal error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        details: String(error),
+        durationMs: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// The pg_cron job posts to this endpoint
+export const POST = GET;
@@ -0,0 +1,44 @@
+/**
+ * LOAN COLLECTION CRON JOB
+ * Runs hourly to collect due loan installments and default loans whose
+ * borrowers stay behind past the grace period
+ */
+
+import { NextResponse } from "next/server";
+import { processDueLoanInstallments } from "@/lib/services/loan-service";
+
+export async function GET(request: Request) {
+  const startTime = Date.now();
+
+  try {
+    // Verify authorization (cron secret)
+    const authHeader = request.headers.get("authorization");
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await processDueLoanInstallments();
+
+    console.log("[Loan Collection Cron] Complete:", result);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      durationMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error("[Loan Collection Cron] Fatal error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        details: String(error),
+        durationMs: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// The pg_cron job posts to this endpoint
+export const POST = GET;
@@ -0,0 +1,44 @@
+/**
+ * TREASURY STIPEND CRON JOB
+ * Runs hourly to pay the recurring salaries and stipends enacted by
+ * SPEND_TREASURY laws that have come due
+ */
+
+import { NextResponse } from "next/server";
+import { processTreasuryStipendsAction } from "@/app/actions/laws";
+
+export async function GET(request: Request) {
+  const startTime = Date.now();
+
+  try {
+    // Verify authorization (cron secret)
+    const authHeader = request.headers.get("authorization");
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await processTreasuryStipendsAction();
+
+    console.log("[Treasury Stipend Cron] Complete:", result);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      durationMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error("[Treasury Stipend Cron] Fatal error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        details: String(error),
+        durationMs: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// The pg_cron job posts to this endpoint
+export const POST = GET;
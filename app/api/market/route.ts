@@ -0,0 +1,168 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase-server";
+import {
+  buildMarketDepth,
+  getCandleResolution,
+  summarizeCandles,
+  toExchangeCandles,
+  toProductCandles,
+  type DepthRow,
+  type ExchangeCandleRow,
+  type ProductCandleRow,
+} from "@/lib/economy/market-data";
+import type { MarketCandle } from "@/lib/types/economy";
+
+/**
+ * Market Data API Routes
+ * OHLCV candles, depth snapshots and 24h stats for the currency exchange
+ * (market=exchange&community_currency_id=...) and for product markets
+ * (market=product&community_id=...&resource_id=...[&quality_id=...])
+ */
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createSupabaseServerClient>>;
+
+type MarketParams =
+  | { market: "exchange"; communityCurrencyId: string }
+  | { market: "product"; communityId: string; resourceId: string; qualityId: string | null };
+
+export async function GET(request: Request) {
+  try {
+    const supabase = await createSupabaseServerClient({ canSetCookies: false });
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const market = parseMarketParams(searchParams);
+    if (!market) {
+      return NextResponse.json(
+        { error: "Specify market=exchange with community_currency_id, or market=product with community_id and resource_id" },
+        { status: 400 }
+      );
+    }
+
+    switch (searchParams.get("action")) {
+      case "candles":
+        return await getCandles(supabase, market, searchParams);
+
+      case "depth":
+        return await getDepth(supabase, market);
+
+      case "stats":
+        return await getStats(supabase, market);
+
+      default:
+        return NextResponse.json(
+          { error: "Invalid action parameter" },
+          { status: 400 }
+        );
+    }
+  } catch (err) {
+    console.error("Market data API error:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+function parseMarketParams(searchParams: URLSearchParams): MarketParams | null {
+  const market = searchParams.get("market") ?? "exchange";
+
+  if (market === "exchange") {
+    const communityCurrencyId = searchParams.get("community_currency_id");
+    return communityCurrencyId ? { market, communityCurrencyId } : null;
+  }
+
+  if (market === "product") {
+    const communityId = searchParams.get("community_id");
+    const resourceId = searchParams.get("resource_id");
+    if (!communityId || !resourceId) return null;
+    return { market, communityId, resourceId, qualityId: searchParams.get("quality_id") };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// HANDLER FUNCTIONS
+// ============================================================================
+
+async function fetchCandles(
+  supabase: SupabaseServerClient,
+  market: MarketParams,
+  bucket: string,
+  hours: number
+): Promise<MarketCandle[]> {
+  const endTime = new Date();
+  const startTime = new Date(endTime.getTime() - hours * 60 * 60 * 1000);
+
+  if (market.market === "exchange") {
+    const { data, error } = await supabase.rpc("get_exchange_rate_history", {
+      p_community_currency_id: market.communityCurrencyId,
+      p_start_time: startTime.toISOString(),
+      p_end_time: endTime.toISOString(),
+      p_bucket: bucket,
+    });
+    if (error) throw error;
+    return toExchangeCandles((data ?? []) as ExchangeCandleRow[]);
+  }
+
+  const { data, error } = await supabase.rpc("get_product_price_history", {
+    p_community_id: market.communityId,
+    p_resource_id: market.resourceId,
+    p_quality_id: market.qualityId,
+    p_start_time: startTime.toISOString(),
+    p_end_time: endTime.toISOString(),
+    p_bucket: bucket,
+  });
+  if (error) throw error;
+  return toProductCandles((data ?? []) as ProductCandleRow[]);
+}
+
+async function getCandles(
+  supabase: SupabaseServerClient,
+  market: MarketParams,
+  searchParams: URLSearchParams
+) {
+  const resolution = getCandleResolution(searchParams.get("resolution") ?? "1h");
+  if (!resolution) {
+    return NextResponse.json(
+      { error: "Invalid resolution. Use 5m, 1h or 1d" },
+      { status: 400 }
+    );
+  }
+
+  const candles = await fetchCandles(supabase, market, resolution.bucket, resolution.hours);
+
+  return NextResponse.json({
+    resolution: resolution.value,
+    candles,
+  });
+}
+
+async function getDepth(supabase: SupabaseServerClient, market: MarketParams) {
+  const { data, error } =
+    market.market === "exchange"
+      ? await supabase.rpc("get_exchange_depth", {
+          p_community_currency_id: market.communityCurrencyId,
+        })
+      : await supabase.rpc("get_product_depth", {
+          p_community_id: market.communityId,
+          p_resource_id: market.resourceId,
+          p_quality_id: market.qualityId,
+        });
+
+  if (error) throw error;
+
+  return NextResponse.json(buildMarketDepth((data ?? []) as DepthRow[]));
+}
+
+async function getStats(supabase: SupabaseServerClient, market: MarketParams) {
+  const candles = await fetchCandles(supabase, market, "1 hour", 24);
+  return NextResponse.json(summarizeCandles(candles));
+}
@@ -37,6 +37,7 @@ const CATEGORY_TYPES: Record<NotificationCategory, NotificationType[]> = {
     NotificationType.BATTLE_EXHAUSTION,
     NotificationType.BATTLE_RAGE,
     NotificationType.COMMUNITY_UPDATE,
+    NotificationType.COMPANY_UPDATE,
   ],
   [NotificationCategory.SOCIAL]: [
     NotificationType.MENTION,
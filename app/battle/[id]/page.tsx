@@ -53,6 +53,7 @@ import { BattleHeroes } from "@/components/battle/battle-heroes";
 import { BattleWall } from "@/components/battle/battle-wall";
 import { BattleControls } from "@/components/battle/battle-controls";
 import { BattleInfoModal } from "@/components/battle/battle-info-modal";
+import { BattleReplayDialog } from "@/components/battle/battle-replay";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -64,6 +65,13 @@ import { FloatingAdrenalineRage } from "@/components/battle/floating-adrenaline-
 import { StatBar } from "@/components/battle/stat-bar";
 import { AdrenalineBar } from "@/components/battle/adrenaline-bar";
 import { WeaponSelectorInline } from "@/components/battle/weapon-selector-inline";
+import { WeaponSelectionSheet } from "@/components/battle/weapon-selection-sheet";
+import {
+  WEAPON_CLASSES,
+  WEAPON_CLASS_ORDER,
+  getWeaponClassByResourceKey,
+  type WeaponClass,
+} from "@/lib/battle-mechanics/weapon-classes";
 import { WeaponQualityIcon, getWeaponDamageBonusPercent } from "@/components/ui/weapon-quality-icon";
 
 // Adrenaline system
@@ -96,6 +104,7 @@ export default function BattlePage() {
 
   // UI State
   const [showBattleInfo, setShowBattleInfo] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
   const [fightButtonLoading, setFightButtonLoading] = useState(false);
   const [actionLoading, setActionLoading] = useState(false);
   const [lastCombatResult, setLastCombatResult] = useState<{ result: string; damage: number } | null>(null);
@@ -104,9 +113,13 @@ export default function BattlePage() {
   const [userFocus, setUserFocus] = useState(50);
 
   // Weapon State
-  const [weaponInventory, setWeaponInventory] = useState<Array<{ id: string; quality_tier: number; quantity: number }>>([]);
+  const [weaponInventory, setWeaponInventory] = useState<
+    Array<{ id: string; weapon_class: WeaponClass; quality_tier: number; quantity: number }>
+  >([]);
   const [selectedWeaponQuality, setSelectedWeaponQuality] = useState<number | null>(null);
+  const [selectedWeaponClass, setSelectedWeaponClass] = useState<WeaponClass | null>(null);
   const [selectedWeaponId, setSelectedWeaponId] = useState<string | null>(null);
+  const [showLoadout, setShowLoadout] = useState(false);
 
   // Refs
   const resolvingRef = useRef(false);
@@ -523,24 +536,30 @@ export default function BattlePage() {
 
     const loadWeaponInventory = async (userId: string) => {
       try {
-        const { data: weaponResource } = await supabase
+        const { data: weaponResources } = await supabase
           .from("resources")
-          .select("id")
-          .eq("key", "weapon")
-          .single();
+          .select("id, key")
+          .in("key", WEAPON_CLASS_ORDER.map((weaponClass) => WEAPON_CLASSES[weaponClass].resourceKey));
+
+        if (!weaponResources?.length) return;
 
-        if (!weaponResource) return;
+        const classByResource = new Map<string, WeaponClass>();
+        weaponResources.forEach((resource: { id: string; key: string }) => {
+          const weaponClass = getWeaponClassByResourceKey(resource.key);
+          if (weaponClass) classByResource.set(resource.id, weaponClass);
+        });
 
         const { data: inventory } = await supabase
           .from("user_inventory")
-          .select("id, quality_id, quantity, resource_qualities!inner(quality_level)")
+          .select("id, resource_id, quality_id, quantity, resource_qualities!inner(quality_level)")
           .eq("user_id", userId)
-          .eq("resource_id", weaponResource.id)
+          .in("resource_id", Array.from(classByResource.keys()))
           .gt("quantity", 0);
 
         if (inventory && mounted) {
           const weapons = inventory.map((item: any) => ({
             id: item.id,
+            weapon_class: classByResource.get(item.resource_id) ?? "rifle",
             quality_tier: item.resource_qualities?.quality_level || 1,
             quantity: item.quantity,
           }));
@@ -779,6 +798,18 @@ export default function BattlePage() {
     };
   }, [battle, adrenalineConfig, userSide, spawnFloatingAdrenalineRage]);
 
+  const handleSelectWeapon = useCallback((weaponId: string, quality: number, weaponClass: WeaponClass) => {
+    setSelectedWeaponId(weaponId);
+    setSelectedWeaponQuality(quality);
+    setSelectedWeaponClass(weaponClass);
+  }, []);
+
+  const handleClearWeapon = useCallback(() => {
+    setSelectedWeaponId(null);
+    setSelectedWeaponQuality(null);
+    setSelectedWeaponClass(null);
+  }, []);
+
   const handleFight = useCallback(async () => {
     if (!battle || isFinished || !currentUser || !userSide) return;
 
@@ -907,6 +938,7 @@ export default function BattlePage() {
         // Only clear selection if quantity reached 0
         if (shouldClearSelection) {
           setSelectedWeaponQuality(null);
+          setSelectedWeaponClass(null);
           setSelectedWeaponId(null);
         }
       }
@@ -1134,9 +1166,14 @@ export default function BattlePage() {
           {/* Center: Region and Timer - Perfectly centered */}
           <div className="flex flex-col items-center justify-center gap-0.5">
             {isFinished ? (
-              <div className="px-4 py-1 bg-muted/50 rounded-lg text-xs font-bold uppercase whitespace-nowrap">
-                {finalStatusText || "Battle Ended"}
-              </div>
+              <>
+                <div className="px-4 py-1 bg-muted/50 rounded-lg text-xs font-bold uppercase whitespace-nowrap">
+                  {finalStatusText || "Battle Ended"}
+                </div>
+                <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => setShowReplay(true)}>
+                  Replay
+                </Button>
+              </>
             ) : (
               <>
                 <div className="text-xs font-bold uppercase tracking-wider text-foreground/70 hidden md:block">
@@ -1422,14 +1459,10 @@ export default function BattlePage() {
               <WeaponSelectorInline
                 weaponInventory={weaponInventory}
                 selectedWeaponQuality={selectedWeaponQuality}
-                onSelectWeapon={(weaponId, quality) => {
-                  setSelectedWeaponId(weaponId);
-                  setSelectedWeaponQuality(quality);
-                }}
-                onClearWeapon={() => {
-                  setSelectedWeaponId(null);
-                  setSelectedWeaponQuality(null);
-                }}
+                selectedWeaponClass={selectedWeaponClass}
+                onSelectWeapon={handleSelectWeapon}
+                onClearWeapon={handleClearWeapon}
+                onOpenLoadout={() => setShowLoadout(true)}
               />
               <Button size="icon" disabled className={cn("rounded-2xl h-12 w-12 md:h-16 md:w-16 flex-shrink-0 relative group text-2xl md:text-3xl", BATTLE_THEME.ui.buttons.food.bg, BATTLE_THEME.ui.buttons.food.border, BATTLE_THEME.ui.buttons.food.disabled)}>
                 🍖
@@ -1472,6 +1505,28 @@ export default function BattlePage() {
         getUserAvatar={getUserAvatar}
       />
 
+      {/* Weapon Loadout */}
+      <WeaponSelectionSheet
+        open={showLoadout}
+        onOpenChange={setShowLoadout}
+        weaponInventory={weaponInventory}
+        selectedWeaponId={selectedWeaponId}
+        onSelectWeapon={handleSelectWeapon}
+        onClearWeapon={handleClearWeapon}
+      />
+
+      {/* Battle Replay */}
+      {isFinished && adrenalineConfig && (
+        <BattleReplayDialog
+          open={showReplay}
+          onOpenChange={setShowReplay}
+          battleId={battle.id}
+          attackerName={attackerComm?.name || "Attackers"}
+          defenderName={defenderComm?.name || "Defenders"}
+          adrenalineConfig={adrenalineConfig}
+        />
+      )}
+
       {/* Medal Achievement Modal */}
     </div>
   );
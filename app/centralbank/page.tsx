@@ -13,6 +13,7 @@ import { GoldCoinIcon, CommunityCoinIcon } from "@/components/ui/coin-icon";
 import * as Icons from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ChevronLeft, ChevronRight } from "lucide-react";
+import { MonetaryPolicyPanel } from "@/components/economy/monetary-policy-panel";
 
 interface OverviewStats {
   total_gold_supply: number;
@@ -328,14 +329,20 @@ export default function CentralBankPage() {
 
       {/* Main Content Tabs - Always visible */}
       <Tabs defaultValue="personal" className="space-y-4">
-        <TabsList className="grid grid-cols-3 w-full gap-2">
+        <TabsList className="grid grid-cols-4 w-full gap-2">
           <TabsTrigger value="personal">Personal</TabsTrigger>
           <TabsTrigger value="community">Community</TabsTrigger>
+          <TabsTrigger value="monetary">Monetary Policy</TabsTrigger>
           <TabsTrigger value="global" disabled={!isPremium}>
             Global {!isPremium && "🔒"}
           </TabsTrigger>
         </TabsList>
 
+        {/* Monetary Policy Tab */}
+        <TabsContent value="monetary" className="space-y-4">
+          <MonetaryPolicyPanel currencies={overviewStats?.community_currencies.currencies ?? []} />
+        </TabsContent>
+
         {/* Personal Tab */}
         <TabsContent value="personal" className="space-y-4">
           <Card>
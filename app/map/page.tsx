@@ -3,6 +3,7 @@
 import dynamic from "next/dynamic";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { createSupabaseBrowserClient } from "@/lib/supabase-browser";
+import type { RealtimePostgresInsertPayload } from "@supabase/supabase-js";
 import { useRouter } from "next/navigation";
 import ErrorBoundary from "@/components/error-boundary";
 import { debug, error as logError } from "@/lib/logger";
@@ -18,6 +19,7 @@ import type {
 import { makeDiplomacyKey } from "@/components/map/region-types";
 import { getHexNeighbors } from "@/components/map/hex-utils";
 import { ActionMode, type RegionActionResult } from "@/components/map/region-drawer";
+import type { FortifiedHex } from "@/components/map/hex-map";
 import { globalPerformanceMonitor } from "@/lib/performance-monitor";
 import { hasFullGovernanceAuthority, hasGovernanceAuthority } from "@/lib/governance";
 
@@ -61,6 +63,7 @@ export default function MapPage() {
   const [userTicketCount, setUserTicketCount] = useState<number>(0);
   const [userGold, setUserGold] = useState<number>(0);
   const [capitalHexIds, setCapitalHexIds] = useState<string[]>([]);
+  const [fortifiedHexes, setFortifiedHexes] = useState<FortifiedHex[]>([]);
   const handleSelectionChange = useCallback((hexId: string | null) => {
     setSelectedHex(hexId);
     setActionResult(null);
@@ -115,10 +118,20 @@ export default function MapPage() {
 
     // Fetch regions without the communities join to avoid RLS bottleneck
     // Add timestamp to bust any caching
-    const { data: regions } = await supabase
-      .from("world_regions")
-      .select("hex_id, custom_name, province_name, display_name, owner_community_id, fortification_level, resource_yield")
-      .limit(10000); // Force fresh query
+    const [{ data: regions }, { data: fortifications }] = await Promise.all([
+      supabase
+        .from("world_regions")
+        .select("hex_id, custom_name, province_name, display_name, owner_community_id, fortification_level, resource_yield")
+        .limit(10000), // Force fresh query
+      supabase.from("region_fortifications").select("hex_id, level"),
+    ]);
+
+    // One map marker per hex, stronger the more levels are built
+    const fortificationLevels = new Map<string, number>();
+    (fortifications ?? []).forEach((row: { hex_id: string; level: number }) => {
+      fortificationLevels.set(row.hex_id, (fortificationLevels.get(row.hex_id) ?? 0) + row.level);
+    });
+    setFortifiedHexes(Array.from(fortificationLevels, ([hexId, level]) => ({ hexId, level })));
 
     const map: RegionOwnersMap = {};
 
@@ -307,7 +320,7 @@ export default function MapPage() {
       // Fetch all updated regions without the communities join to avoid RLS bottleneck
       const { data } = await supabase
         .from("world_regions")
-        .select("hex_id, owner_community_id, fortification_level, resource_yield")
+        .select("hex_id, custom_name, province_name, display_name, owner_community_id, fortification_level, resource_yield")
         .in("hex_id", hexIds);
 
       // If there are any regions with owners, fetch community data in batch
@@ -344,7 +357,8 @@ export default function MapPage() {
               }
             }
           });
-          setCapitalHexIds(Array.from(capitalSet));
+          // Merge rather than replace: only the capitals of the updated owners were fetched
+          setCapitalHexIds((prev) => Array.from(new Set([...prev, ...capitalSet])));
         }
       }
 
@@ -394,6 +408,30 @@ export default function MapPage() {
     //   .subscribe();
     // channels.push(regionChannel);
 
+    // Regions ceded or sold by law. Unlike conquest these are rare, so each transfer
+    // refreshes just the affected hex while the world_regions feed stays disabled
+    const regionTransferChannel = supabase
+      .channel("game_state_region_transfers")
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "community_region_transfers",
+        },
+        (payload: RealtimePostgresInsertPayload<{ hex_id: string }>) => {
+          if (!mounted) return;
+          const hexId = payload.new?.hex_id;
+          if (!hexId) return;
+
+          pendingRegionUpdates.add(hexId);
+          if (regionUpdateTimeout) clearTimeout(regionUpdateTimeout);
+          regionUpdateTimeout = setTimeout(processPendingRegionUpdates, 250);
+        }
+      )
+      .subscribe();
+    channels.push(regionTransferChannel);
+
     // Consolidated channel setup for diplomacy states
     const diplomacyChannel = supabase
       .channel("game_state_diplomacy")
@@ -694,6 +732,7 @@ export default function MapPage() {
           currentCommunityId={userCommunityId}
           activeBattles={activeBattles}
           capitalHexIds={capitalHexIds}
+          fortifiedHexes={fortifiedHexes}
           showResourceIcons
           drawerActionMode={actionMode}
           drawerOnFight={handleFight}
@@ -3,7 +3,7 @@
 import { useState, useEffect, useMemo, useRef } from "react";
 import { useSearchParams, useRouter, usePathname } from "next/navigation";
 import { toast } from "sonner";
-import { ShoppingCart, Briefcase, ArrowRightLeft, X, Plus, Minus } from "lucide-react";
+import { ShoppingCart, Briefcase, ArrowRightLeft, PieChart, Gavel, HandCoins, X, Plus, Minus } from "lucide-react";
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
@@ -11,15 +11,19 @@ import { PageSection } from "@/components/layout/page-section";
 import { H1, P } from "@/components/ui/typography";
 import { cn } from "@/lib/utils";
 import { getCommunityAvatarUrl } from "@/lib/community-visuals";
-import { getP2PExchangeContext } from "@/app/actions/market";
+import { getMyTradeEmbargoes, getP2PExchangeContext } from "@/app/actions/market";
 import { CommunityCoinIcon } from "@/components/ui/coin-icon";
 
 import { MarketTab } from "@/components/market/market-tab";
 import { JobsTab } from "@/components/market/jobs-tab";
+import { SharesTab } from "@/components/market/shares-tab";
+import { AuctionsTab } from "@/components/market/auctions-tab";
+import { LoansTab } from "@/components/market/loans-tab";
 import { CurrencyExchangeP2P } from "@/components/market/currency-exchange-p2p";
 import { ExchangeTabSkeleton } from "@/components/market/market-skeletons";
+import { EmbargoNotice } from "@/components/market/embargo-notice";
 import { MARKET_TAB_CONFIG, MARKET_DEFAULTS } from "@/components/market/market-config";
-import type { Community } from "@/components/market/types";
+import type { Community, TradeEmbargoNotice } from "@/components/market/types";
 import type { CommunityCurrency } from "@/lib/currency-system";
 
 // ============================================================================
@@ -55,7 +59,7 @@ export function MarketView({ communityCurrencies }: MarketViewProps) {
   const pathname = usePathname();
   const tabParam = searchParams.get("tab");
   const communitiesParam = searchParams.get("communities");
-  const [activeTab, setActiveTab] = useState<"market" | "jobs" | "exchange">("market");
+  const [activeTab, setActiveTab] = useState<"market" | "jobs" | "shares" | "auctions" | "loans" | "exchange">("market");
   const [selectedCommunities, setSelectedCommunities] = useState<string[]>([]);
   const [communityQuery, setCommunityQuery] = useState("");
   const [isCommunityDropdownOpen, setCommunityDropdownOpen] = useState(false);
@@ -64,6 +68,7 @@ export function MarketView({ communityCurrencies }: MarketViewProps) {
   const [communities, setCommunities] = useState<Community[]>([]);
   const [loading, setLoading] = useState(true);
   const [p2pExchangeData, setP2PExchangeData] = useState<any>(null);
+  const [tradeEmbargoes, setTradeEmbargoes] = useState<TradeEmbargoNotice[]>([]);
 
   const communityLookup = useMemo(
     () => new Map(communities.map((community) => [community.id, community])),
@@ -87,14 +92,13 @@ export function MarketView({ communityCurrencies }: MarketViewProps) {
     const loadInitialData = async () => {
       try {
         const { getUserCommunityId } = await import("@/app/actions/economy");
-        const { getMyCompanyCommunityIds } = await import("@/app/actions/companies");
         const { getAllCommunities } = await import("@/app/actions/community");
 
-        const [communityId, myCompanyCommunityIds, communitiesData, p2pData] = await Promise.all([
+        const [communityId, communitiesData, p2pData, embargoes] = await Promise.all([
           getUserCommunityId(),
-          getMyCompanyCommunityIds(),
           getAllCommunities(),
           getP2PExchangeContext(),
+          getMyTradeEmbargoes(),
         ]);
 
         // Load communities first
@@ -106,6 +110,8 @@ export function MarketView({ communityCurrencies }: MarketViewProps) {
           setP2PExchangeData(p2pData);
         }
 
+        setTradeEmbargoes(embargoes);
+
         // Only initialize selectedCommunities if not set from URL params
         // All tabs (market, jobs, exchange): auto-select user's main community as default
         // Single-select mode for all tabs
@@ -125,7 +131,7 @@ export function MarketView({ communityCurrencies }: MarketViewProps) {
 
   // Initialize tab from URL params
   useEffect(() => {
-    if (tabParam === "market" || tabParam === "jobs" || tabParam === "exchange") {
+    if (tabParam === "market" || tabParam === "jobs" || tabParam === "shares" || tabParam === "auctions" || tabParam === "loans" || tabParam === "exchange") {
       setActiveTab(tabParam);
     } else {
       setActiveTab("market");
@@ -174,7 +180,7 @@ export function MarketView({ communityCurrencies }: MarketViewProps) {
   }, [isCommunityDropdownOpen]);
 
 
-  const handleTabChange = (newTab: "market" | "jobs" | "exchange") => {
+  const handleTabChange = (newTab: "market" | "jobs" | "shares" | "auctions" | "loans" | "exchange") => {
     setActiveTab(newTab);
   };
 
@@ -213,6 +219,18 @@ export function MarketView({ communityCurrencies }: MarketViewProps) {
                 <Briefcase className="h-4 w-4" />
                 <span>Jobs</span>
               </TabsTrigger>
+              <TabsTrigger value="shares" size={MARKET_TAB_CONFIG.trigger.size} className={MARKET_TAB_CONFIG.trigger.className}>
+                <PieChart className="h-4 w-4" />
+                <span>Shares</span>
+              </TabsTrigger>
+              <TabsTrigger value="auctions" size={MARKET_TAB_CONFIG.trigger.size} className={MARKET_TAB_CONFIG.trigger.className}>
+                <Gavel className="h-4 w-4" />
+                <span>Auctions</span>
+              </TabsTrigger>
+              <TabsTrigger value="loans" size={MARKET_TAB_CONFIG.trigger.size} className={MARKET_TAB_CONFIG.trigger.className}>
+                <HandCoins className="h-4 w-4" />
+                <span>Loans</span>
+              </TabsTrigger>
               <TabsTrigger value="exchange" size={MARKET_TAB_CONFIG.trigger.size} className={MARKET_TAB_CONFIG.trigger.className}>
                 <ArrowRightLeft className="h-4 w-4" />
                 <span>Exchange</span>
@@ -364,14 +382,34 @@ export function MarketView({ communityCurrencies }: MarketViewProps) {
             </div>
           </div>
 
+          {/* Embargoed communities (applies to all tabs) */}
+          {!loading && (
+            <EmbargoNotice embargoes={tradeEmbargoes} communityIds={selectedCommunities} className="mt-6" />
+          )}
+
           {/* Market Tab */}
           <TabsContent value="market" className="mt-6 space-y-4">
-            {!loading && <MarketTab selectedCommunities={selectedCommunities} communityCurrencies={communityCurrencies} />}
+            {!loading && <MarketTab selectedCommunities={selectedCommunities} communityCurrencies={communityCurrencies} tradeEmbargoes={tradeEmbargoes} />}
           </TabsContent>
 
           {/* Jobs Tab */}
           <TabsContent value="jobs" className="mt-6 space-y-4">
-            {!loading && <JobsTab selectedCommunities={selectedCommunities} communityCurrencies={communityCurrencies} />}
+            {!loading && <JobsTab selectedCommunities={selectedCommunities} communityCurrencies={communityCurrencies} tradeEmbargoes={tradeEmbargoes} />}
+          </TabsContent>
+
+          {/* Shares Tab */}
+          <TabsContent value="shares" className="mt-6 space-y-4">
+            {!loading && <SharesTab selectedCommunities={selectedCommunities} tradeEmbargoes={tradeEmbargoes} />}
+          </TabsContent>
+
+          {/* Auctions Tab */}
+          <TabsContent value="auctions" className="mt-6 space-y-4">
+            {!loading && <AuctionsTab selectedCommunities={selectedCommunities} tradeEmbargoes={tradeEmbargoes} />}
+          </TabsContent>
+
+          {/* Loans Tab */}
+          <TabsContent value="loans" className="mt-6 space-y-4">
+            {!loading && <LoansTab selectedCommunities={selectedCommunities} tradeEmbargoes={tradeEmbargoes} />}
           </TabsContent>
 
           {/* Exchange Tab */}
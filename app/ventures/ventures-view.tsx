@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import Link from "next/link";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -18,8 +18,10 @@ import {
   Settings,
   Loader2,
   AlertCircle,
+  FileSignature,
 } from "lucide-react";
 import type {
+  SupplyContract,
   UserCompany,
   UserEmployment,
 } from "@/lib/types/companies";
@@ -28,14 +30,16 @@ import {
   getUserEmployments,
   performWork,
 } from "@/app/actions/companies";
+import { getUserSupplyContracts } from "@/app/actions/contracts";
 import { toast } from "sonner";
 import { showErrorToast, showTravelRequiredToast } from "@/lib/toast-utils";
-import { getCompanyIcon } from "@/lib/company-config";
+import { COMPANY_UPKEEP_CONFIG, getCompanyIcon } from "@/lib/company-config";
 import { getWeaponIcon, getQualityName } from "@/components/ui/weapon-quality-icon";
 import { getBreadIcon } from "@/components/ui/food-quality-icon";
 import { CompanyDetailsSheet } from "@/components/economy/company-details-sheet";
 import { DailyWorkSection } from "@/components/economy/daily-work-section";
 import { CreateCompanyDialog } from "@/components/economy/create-company-dialog";
+import { SupplyContractsSection } from "@/components/economy/supply-contracts-section";
 import { cn } from "@/lib/utils";
 import { normalizeEmployments } from "@/lib/company-employment";
 
@@ -53,6 +57,8 @@ export function VenturesView({ userId }: VenturesViewProps) {
   const [detailsSheetOpen, setDetailsSheetOpen] = useState(false);
   const [userCurrentHex, setUserCurrentHex] = useState<string | null>(null);
   const [userCurrentLocationName, setUserCurrentLocationName] = useState<string | null>(null);
+  const [contracts, setContracts] = useState<SupplyContract[]>([]);
+  const [isLoadingContracts, setIsLoadingContracts] = useState(true);
 
   // Load user's current location
   useEffect(() => {
@@ -99,6 +105,27 @@ export function VenturesView({ userId }: VenturesViewProps) {
     loadEmployments();
   }, [userId]);
 
+  const reloadEmployments = useCallback(async () => {
+    const data = await getUserEmployments(userId);
+    setEmployments(normalizeEmployments(data));
+  }, [userId]);
+
+  // Load supply contracts on both sides
+  const loadContracts = useCallback(async () => {
+    const data = await getUserSupplyContracts();
+    setContracts(data);
+    setIsLoadingContracts(false);
+  }, []);
+
+  useEffect(() => {
+    const loadInitialContracts = async () => {
+      const data = await getUserSupplyContracts();
+      setContracts(data);
+      setIsLoadingContracts(false);
+    };
+    loadInitialContracts();
+  }, []);
+
   const handleWork = async (
     companyId: string,
     availableRecipes: string[],
@@ -192,6 +219,7 @@ export function VenturesView({ userId }: VenturesViewProps) {
           onWork={(employment) =>
             handleWork(employment.company_id, employment.available_recipes, false)
           }
+          onContractChange={reloadEmployments}
           emptyState={
             <p className="text-sm text-muted-foreground text-center">
               You're not employed at any companies. Apply for jobs in the{" "}
@@ -262,6 +290,9 @@ export function VenturesView({ userId }: VenturesViewProps) {
               {companies.map((company) => {
                 const IconComponent = getCompanyIcon(company.company_type_key);
                 const isWorking = workingCompanyId === company.id;
+                const activeContracts = contracts.filter(
+                  (contract) => contract.company_id === company.id && contract.status === "active"
+                ).length;
 
                 return (
                   <Card
@@ -280,8 +311,20 @@ export function VenturesView({ userId }: VenturesViewProps) {
                         <h3 className="text-sm font-bold text-foreground truncate">
                           {company.name}
                         </h3>
-                        <p className="text-xs text-muted-foreground">
+                        <p className="flex items-center gap-2 text-xs text-muted-foreground">
                           {company.company_type_name}
+                          {company.status && company.status !== "active" && (
+                            <span className="inline-flex items-center gap-1 text-amber-500">
+                              <AlertCircle className="h-3 w-3" />
+                              {COMPANY_UPKEEP_CONFIG.statusLabels[company.status]}
+                            </span>
+                          )}
+                          {activeContracts > 0 && (
+                            <span className="inline-flex items-center gap-1">
+                              <FileSignature className="h-3 w-3" />
+                              {activeContracts} contract{activeContracts === 1 ? "" : "s"}
+                            </span>
+                          )}
                         </p>
                       </div>
 
@@ -369,6 +412,13 @@ export function VenturesView({ userId }: VenturesViewProps) {
           )}
         </section>
 
+        <SupplyContractsSection
+          contracts={contracts}
+          companies={companies}
+          isLoading={isLoadingContracts}
+          onChange={loadContracts}
+        />
+
         {/* Company Details Sheet */}
         <CompanyDetailsSheet
           company={selectedCompany}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RANK_TIERS, type MilitaryRank } from "@/lib/military-ranks";
+import type {
+  BattleSimulationReport,
+  DistributionSummary,
+  SimulatedSideSummary,
+  SimulatedSquad,
+} from "@/lib/battle-mechanics/types";
+
+type SquadForm = Omit<SimulatedSquad, "weapons">;
+
+const DEFAULT_SQUAD: SquadForm = {
+  count: 20,
+  morale: 60,
+  rage: 10,
+  strength: 5,
+  rank: "Recruit",
+  weaponQuality: null,
+  energy: 100,
+};
+
+// Overridable config fields (blank keeps the live value)
+const OVERRIDE_FIELDS = [
+  { key: "base_energy_cost", label: "Energy per fight" },
+  { key: "rage_crit_multiplier", label: "Crit multiplier (2 or 3)" },
+  { key: "focus_morale_ratio", label: "Focus per morale" },
+  { key: "battle_duration_hours", label: "Battle hours" },
+  { key: "adrenaline_max_rage", label: "Adrenaline max rage" },
+  { key: "adrenaline_damage_threshold_ratio", label: "Adrenaline damage ratio" },
+] as const;
+
+const formatNumber = (value: number) => Math.round(value).toLocaleString();
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function SquadEditor({
+  title,
+  squad,
+  onChange,
+}: {
+  title: string;
+  squad: SquadForm;
+  onChange: (squad: SquadForm) => void;
+}) {
+  const numberField = (key: "count" | "morale" | "rage" | "strength" | "energy", label: string) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        min="0"
+        value={squad[key]}
+        onChange={(e) => onChange({ ...squad, [key]: Number(e.target.value) || 0 })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/40 p-4">
+      <p className="text-sm font-semibold text-foreground">{title}</p>
+      <div className="grid grid-cols-2 gap-3">
+        {numberField("count", "Fighters")}
+        {numberField("strength", "Strength")}
+        {numberField("morale", "Morale")}
+        {numberField("rage", "Rage")}
+        {numberField("energy", "Starting energy")}
+        <div className="space-y-1">
+          <Label className="text-xs">Rank</Label>
+          <Select value={squad.rank} onValueChange={(rank) => onChange({ ...squad, rank: rank as MilitaryRank })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANK_TIERS.map((tier) => (
+                <SelectItem key={tier.rank} value={tier.rank}>
+                  {tier.rank}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Weapon</Label>
+          <Select
+            value={squad.weaponQuality ? String(squad.weaponQuality) : "none"}
+            onValueChange={(value) => onChange({ ...squad, weaponQuality: value === "none" ? null : Number(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Unarmed</SelectItem>
+              {[1, 2, 3, 4, 5].map((quality) => (
+                <SelectItem key={quality} value={String(quality)}>
+                  Q{quality}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function DistributionRow({ label, summary }: { label: string; summary: DistributionSummary | null }) {
+  return (
+    <tr className="border-t border-border/40">
+      <td className="py-1 pr-3 text-muted-foreground">{label}</td>
+      {summary ? (
+        [summary.mean, summary.p10, summary.p50, summary.p90].map((value, i) => (
+          <td key={i} className="py-1 pr-3 text-right tabular-nums">
+            {label.includes("hours") ? value.toFixed(2) : formatNumber(value)}
+          </td>
+        ))
+      ) : (
+        <td colSpan={4} className="py-1 pr-3 text-right text-muted-foreground">
+          Never won
+        </td>
+      )}
+    </tr>
+  );
+}
+
+function SideResults({ title, side }: { title: string; side: SimulatedSideSummary }) {
+  return (
+    <div className="space-y-2 rounded-lg border border-border/40 p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold text-foreground">{title}</p>
+        <Badge variant={side.winProbability >= 0.5 ? "default" : "secondary"}>
+          {formatPercent(side.winProbability)} wins
+        </Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Hit rate {formatPercent(side.hitRate)} · Crit rate {formatPercent(side.critRate)}
+      </p>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th />
+            <th className="text-right font-medium pr-3">Mean</th>
+            <th className="text-right font-medium pr-3">P10</th>
+            <th className="text-right font-medium pr-3">P50</th>
+            <th className="text-right font-medium pr-3">P90</th>
+          </tr>
+        </thead>
+        <tbody>
+          <DistributionRow label="Damage" summary={side.damage} />
+          <DistributionRow label="Victory at (hours)" summary={side.timeToVictoryHours} />
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function BattleBalancePanel() {
+  const [attackers, setAttackers] = useState<SquadForm>(DEFAULT_SQUAD);
+  const [defenders, setDefenders] = useState<SquadForm>(DEFAULT_SQUAD);
+  const [initialDefense, setInitialDefense] = useState(10000);
+  const [runs, setRuns] = useState(500);
+  const [seed, setSeed] = useState(1);
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+  const [report, setReport] = useState<BattleSimulationReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/battle-simulation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          attackers: [attackers],
+          defenders: [defenders],
+          initialDefense,
+          runs,
+          seed,
+          overrides,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Simulation failed");
+      setReport(data.report);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Simulation failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Battle Balance What-If</CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Simulate seeded battles with the attack formulas against the live config. Overrides only apply to the
+          simulation; the same inputs and seed always give the same result.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <SquadEditor title="Attackers" squad={attackers} onChange={setAttackers} />
+          <SquadEditor title="Defenders" squad={defenders} onChange={setDefenders} />
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Initial defense</Label>
+            <Input
+              type="number"
+              min="0"
+              value={initialDefense}
+              onChange={(e) => setInitialDefense(Number(e.target.value) || 0)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Runs</Label>
+            <Input
+              type="number"
+              min="1"
+              max="2000"
+              value={runs}
+              onChange={(e) => setRuns(parseInt(e.target.value) || 500)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Seed</Label>
+            <Input type="number" min="0" value={seed} onChange={(e) => setSeed(parseInt(e.target.value) || 0)} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          {OVERRIDE_FIELDS.map((field) => (
+            <div key={field.key} className="space-y-1">
+              <Label className="text-xs">{field.label}</Label>
+              <Input
+                type="number"
+                placeholder="Live value"
+                value={overrides[field.key] ?? ""}
+                onChange={(e) => setOverrides({ ...overrides, [field.key]: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <Button onClick={handleRun} disabled={loading} className="w-full">
+          {loading ? "Simulating..." : "Run Simulation"}
+        </Button>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {report && (
+          <div className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              {report.runs} battles of {report.durationHours}h · seed {report.seed}
+            </p>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <SideResults title="Attackers" side={report.attacker} />
+              <SideResults title="Defenders" side={report.defender} />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
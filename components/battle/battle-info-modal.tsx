@@ -10,6 +10,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { BATTLE_THEME } from "@/lib/battle-theme";
 import { getCommunityAvatarUrl } from "@/lib/community-visuals";
 import { createSupabaseBrowserClient } from "@/lib/supabase-browser";
+import {
+  WEAPON_CLASSES,
+  WEAPON_CLASS_ORDER,
+  type WeaponClass,
+  type WeaponClassDamage,
+} from "@/lib/battle-mechanics/weapon-classes";
 
 type HeroTotalsEntry = {
   name: string;
@@ -93,6 +99,7 @@ export function BattleInfoModal({
   const [observers, setObservers] = useState<BattleObserver[]>([]);
   const [attackerMechanics, setAttackerMechanics] = useState<BattleMechanics | null>(null);
   const [defenderMechanics, setDefenderMechanics] = useState<BattleMechanics | null>(null);
+  const [weaponStats, setWeaponStats] = useState<WeaponClassDamage[]>([]);
   const [isClosing, setIsClosing] = useState(false);
 
   const handleClose = () => {
@@ -174,13 +181,23 @@ export function BattleInfoModal({
       }
     };
 
+    // Damage per side and weapon class
+    const fetchWeaponStats = async () => {
+      const { data } = await supabase.rpc('get_battle_weapon_stats', { p_battle_id: battleId });
+      if (Array.isArray(data)) {
+        setWeaponStats(data as WeaponClassDamage[]);
+      }
+    };
+
     fetchMechanics();
     fetchObservers();
+    fetchWeaponStats();
 
     // Poll for observers/mechanics every 10 seconds
     const interval = setInterval(() => {
       fetchMechanics();
       fetchObservers();
+      fetchWeaponStats();
     }, 10000);
     return () => clearInterval(interval);
   }, [isOpen, battleId, attackerCommunity, defenderCommunity]);
@@ -191,6 +208,12 @@ export function BattleInfoModal({
   const totalDefenderDamage = defenderHeroes.reduce((sum, hero) => sum + hero.damage, 0);
   const totalParticipants = attackerHeroes.length + defenderHeroes.length;
 
+  const weaponClassRows: (WeaponClass | null)[] = [...WEAPON_CLASS_ORDER, null];
+  const getWeaponDamage = (side: "attacker" | "defender", weaponClass: WeaponClass | null) =>
+    weaponStats.find((entry) => entry.side === side && entry.weapon_class === weaponClass)?.damage ?? 0;
+  const getSideWeaponDamage = (side: "attacker" | "defender") =>
+    weaponStats.filter((entry) => entry.side === side).reduce((sum, entry) => sum + Number(entry.damage), 0);
+
   const getReadinessColor = (value: number) => {
     if (value >= 0.7) return READINESS_STATUS.high.text;
     if (value >= 0.4) return READINESS_STATUS.medium.text;
@@ -642,6 +665,43 @@ export function BattleInfoModal({
                   </div>
                 </div>
 
+                <div className="p-4 rounded-xl border border-border bg-muted/30 space-y-3">
+                  <h4 className="text-xs uppercase tracking-[0.1em] text-muted-foreground font-bold">
+                    Damage by Weapon
+                  </h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {(["attacker", "defender"] as const).map((side) => {
+                      const sideTotal = getSideWeaponDamage(side);
+                      return (
+                        <div key={side} className="space-y-2">
+                          <span className={cn("text-sm font-bold", BATTLE_THEME.sides[side].colors.text)}>
+                            {side === "attacker" ? "Attackers" : "Defenders"}
+                          </span>
+                          {weaponClassRows.map((weaponClass) => {
+                            const damage = Number(getWeaponDamage(side, weaponClass));
+                            return (
+                              <div key={weaponClass ?? "unarmed"} className="space-y-1">
+                                <div className="flex justify-between items-center text-xs">
+                                  <span className="text-muted-foreground">
+                                    {weaponClass ? WEAPON_CLASSES[weaponClass].name : "Unarmed"}
+                                  </span>
+                                  <span className="font-bold tabular-nums">{damage.toLocaleString()}</span>
+                                </div>
+                                <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+                                  <div
+                                    className={cn("h-full transition-all duration-500", BATTLE_THEME.sides[side].colors.bg)}
+                                    style={{ width: `${sideTotal > 0 ? (damage / sideTotal) * 100 : 0}%` }}
+                                  />
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
                 <div className="p-4 rounded-xl border border-border bg-muted/30 space-y-3">
                   <h4 className="text-xs uppercase tracking-[0.1em] text-muted-foreground font-bold">
                     Battle Intensity
@@ -0,0 +1,291 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Crown, Download, Flame, Loader2, Pause, Play, Zap } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BATTLE_THEME } from "@/lib/battle-theme";
+import { createSupabaseBrowserClient } from "@/lib/supabase-browser";
+import { normalizeBattleLog } from "@/lib/battle/utils";
+import {
+  battleReplayToCsv,
+  battleReplayToJson,
+  buildBattleReplay,
+  getReplayFrameIndex,
+  type BattleReplaySource,
+} from "@/lib/battle/replay";
+import type { BattleReplay, RawBattleLogEntry } from "@/lib/battle/types";
+import type { AdrenalineConfig } from "@/lib/battle-mechanics/types";
+
+interface BattleReplayDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  battleId: string;
+  attackerName: string;
+  defenderName: string;
+  adrenalineConfig: AdrenalineConfig;
+}
+
+// Battle seconds played per real second
+const SPEEDS = [
+  { value: 60, label: "1 min/s" },
+  { value: 300, label: "5 min/s" },
+  { value: 900, label: "15 min/s" },
+  { value: 3600, label: "1 h/s" },
+];
+
+const TICK_MS = 100;
+const RECENT_ACTIONS = 8;
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+}
+
+function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function BattleReplayDialog({
+  open,
+  onOpenChange,
+  battleId,
+  attackerName,
+  defenderName,
+  adrenalineConfig,
+}: BattleReplayDialogProps) {
+  const [replay, setReplay] = useState<BattleReplay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEEDS[1].value);
+
+  useEffect(() => {
+    if (!open || replay) return;
+    let mounted = true;
+
+    const load = async () => {
+      const supabase = createSupabaseBrowserClient();
+      const { data, error: rpcError } = await supabase.rpc("get_battle_replay", { p_battle_id: battleId });
+      if (!mounted) return;
+
+      if (rpcError || !data?.success) {
+        setError(rpcError?.message ?? data?.error ?? "Failed to load replay");
+        return;
+      }
+
+      const logs = (data.actions as RawBattleLogEntry[]).map((entry) => normalizeBattleLog(entry));
+      setReplay(buildBattleReplay(data.battle as BattleReplaySource, logs, adrenalineConfig));
+    };
+
+    load();
+    return () => {
+      mounted = false;
+    };
+  }, [open, replay, battleId, adrenalineConfig]);
+
+  const durationMs = replay?.durationMs ?? 0;
+  const atEnd = position >= durationMs;
+
+  useEffect(() => {
+    if (!playing || atEnd) return;
+    const interval = setInterval(() => {
+      setPosition((current) => Math.min(durationMs, current + speed * TICK_MS));
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [playing, atEnd, speed, durationMs]);
+
+  const frameIndex = replay ? getReplayFrameIndex(replay, position) : -1;
+  const frame = replay && frameIndex >= 0 ? replay.frames[frameIndex] : null;
+  const wallRemaining = frame?.wallRemaining ?? replay?.initialDefense ?? 0;
+
+  const recentActions = useMemo(
+    () => (replay && frameIndex >= 0 ? replay.frames.slice(Math.max(0, frameIndex - RECENT_ACTIONS + 1), frameIndex + 1).reverse() : []),
+    [replay, frameIndex]
+  );
+
+  const percent = (at: number) => (durationMs > 0 ? (at / durationMs) * 100 : 0);
+
+  const togglePlay = () => {
+    if (atEnd) setPosition(0);
+    setPlaying(!playing || atEnd);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Battle Replay</DialogTitle>
+          <DialogDescription>
+            {attackerName} vs {defenderName}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!replay && !error && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {replay && (
+          <div className="space-y-4">
+            {/* Scoreboard */}
+            <div className="grid grid-cols-3 items-center gap-2 text-center">
+              <div>
+                <p className={cn("text-[10px] uppercase font-bold", BATTLE_THEME.sides.defender.colors.text)}>Defender</p>
+                <p className="text-lg font-bold tabular-nums">{(frame?.defenderScore ?? 0).toLocaleString()}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {frame?.defenderHero ? `Hero: ${frame.defenderHero.name}` : "No hero yet"}
+                </p>
+              </div>
+              <div>
+                <p className="text-[10px] uppercase font-bold text-muted-foreground">Wall</p>
+                <p
+                  className={cn(
+                    "text-3xl font-black tabular-nums",
+                    wallRemaining <= 0 ? BATTLE_THEME.sides.attacker.colors.text : BATTLE_THEME.sides.defender.colors.text
+                  )}
+                >
+                  {Math.round(wallRemaining).toLocaleString()}
+                </p>
+                <p className="text-xs text-muted-foreground tabular-nums">
+                  {formatElapsed(position)} / {formatElapsed(durationMs)}
+                </p>
+              </div>
+              <div>
+                <p className={cn("text-[10px] uppercase font-bold", BATTLE_THEME.sides.attacker.colors.text)}>Attacker</p>
+                <p className="text-lg font-bold tabular-nums">{(frame?.attackerScore ?? 0).toLocaleString()}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {frame?.attackerHero ? `Hero: ${frame.attackerHero.name}` : "No hero yet"}
+                </p>
+              </div>
+            </div>
+
+            {/* Timeline */}
+            <div className="space-y-1">
+              <div className="relative h-8 rounded-md bg-muted/40 overflow-hidden">
+                {replay.adrenalineWindows.map((window) => (
+                  <div
+                    key={window.start}
+                    className="absolute inset-y-0 bg-yellow-500/25"
+                    style={{ left: `${percent(window.start)}%`, width: `${percent(window.end - window.start)}%` }}
+                    title="Defender adrenaline"
+                  />
+                ))}
+                {replay.markers
+                  .filter((marker) => marker.type === "critical")
+                  .map((marker, i) => (
+                    <div
+                      key={`crit-${i}`}
+                      className={cn(
+                        "absolute w-px h-3",
+                        marker.side === "attacker" ? "top-0" : "bottom-0",
+                        BATTLE_THEME.sides[marker.side].colors.bg
+                      )}
+                      style={{ left: `${percent(marker.at)}%` }}
+                      title={marker.label}
+                    />
+                  ))}
+                {replay.markers
+                  .filter((marker) => marker.type === "hero_swap")
+                  .map((marker, i) => (
+                    <Crown
+                      key={`hero-${i}`}
+                      className={cn("absolute top-1/2 -translate-y-1/2 -translate-x-1/2 h-3 w-3", BATTLE_THEME.sides[marker.side].colors.text)}
+                      style={{ left: `${percent(marker.at)}%` }}
+                      aria-label={marker.label}
+                    />
+                  ))}
+                <div className="absolute inset-y-0 w-0.5 bg-foreground" style={{ left: `${percent(position)}%` }} />
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={durationMs}
+                step={1000}
+                value={position}
+                onChange={(e) => setPosition(Number(e.target.value))}
+                className="w-full"
+                aria-label="Replay position"
+              />
+              <div className="flex flex-wrap gap-3 text-[10px] text-muted-foreground">
+                <span className="flex items-center gap-1"><Flame className="h-3 w-3" /> Rage crits</span>
+                <span className="flex items-center gap-1"><Crown className="h-3 w-3" /> Hero swaps</span>
+                <span className="flex items-center gap-1"><Zap className="h-3 w-3 text-yellow-500" /> Adrenaline</span>
+              </div>
+            </div>
+
+            {/* Controls */}
+            <div className="flex flex-wrap items-center gap-2">
+              <Button size="sm" onClick={togglePlay}>
+                {playing && !atEnd ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                {playing && !atEnd ? "Pause" : atEnd ? "Replay" : "Play"}
+              </Button>
+              <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+                <SelectTrigger className="h-8 w-28 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SPEEDS.map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="ml-auto flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => downloadFile(`battle-${replay.battleId}.json`, battleReplayToJson(replay), "application/json")}
+                >
+                  <Download className="h-4 w-4" /> JSON
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => downloadFile(`battle-${replay.battleId}.csv`, battleReplayToCsv(replay), "text/csv")}
+                >
+                  <Download className="h-4 w-4" /> CSV
+                </Button>
+              </div>
+            </div>
+
+            {/* Recent actions */}
+            <div className="space-y-1 text-xs">
+              {recentActions.length === 0 ? (
+                <p className="text-muted-foreground">No actions yet.</p>
+              ) : (
+                recentActions.map((entry) => (
+                  <div key={entry.log.id} className="flex items-center gap-2">
+                    <span className="w-14 tabular-nums text-muted-foreground">{formatElapsed(entry.at)}</span>
+                    <span className={cn("font-semibold truncate", BATTLE_THEME.sides[entry.log.side].colors.text)}>
+                      {entry.log.user}
+                    </span>
+                    <span className="ml-auto tabular-nums">
+                      {entry.log.result === "MISS"
+                        ? "Miss"
+                        : `${entry.log.result === "CRITICAL" ? "Crit " : ""}${entry.log.damage.toLocaleString()}`}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,6 +13,7 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import {
+  WEAPON_CLASS_ICONS,
   WeaponQualityIcon,
   getQualityName,
   getWeaponDamageBonusPercent,
@@ -20,10 +21,17 @@ import {
   getQualityBgColor,
   getQualityBorderColor,
 } from "@/components/ui/weapon-quality-icon";
+import {
+  WEAPON_CLASSES,
+  WEAPON_CLASS_MATCHUP,
+  WEAPON_CLASS_ORDER,
+  type WeaponClass,
+} from "@/lib/battle-mechanics/weapon-classes";
 import { Sword, X } from "lucide-react";
 
 interface WeaponInventoryItem {
   id: string;
+  weapon_class: WeaponClass;
   quality_tier: number;
   quantity: number;
 }
@@ -32,24 +40,37 @@ interface WeaponSelectionSheetProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   weaponInventory: WeaponInventoryItem[];
-  selectedWeaponQuality: number | null;
-  onSelectWeapon: (weaponId: string, quality: number) => void;
+  selectedWeaponId: string | null;
+  onSelectWeapon: (weaponId: string, quality: number, weaponClass: WeaponClass) => void;
   onClearWeapon: () => void;
 }
 
+const formatModifier = (multiplier: number) =>
+  `${multiplier >= 1 ? "+" : ""}${Math.round((multiplier - 1) * 100)}%`;
+
+// Class that counters the given one
+function getCounter(weaponClass: WeaponClass): WeaponClass {
+  return WEAPON_CLASS_ORDER.find((other) => WEAPON_CLASSES[other].strongAgainst === weaponClass)!;
+}
+
 export function WeaponSelectionSheet({
   open,
   onOpenChange,
   weaponInventory,
-  selectedWeaponQuality,
+  selectedWeaponId,
   onSelectWeapon,
   onClearWeapon,
 }: WeaponSelectionSheetProps) {
-  // Sort weapons by quality tier (lowest to highest)
-  const sortedWeapons = [...weaponInventory].sort((a, b) => a.quality_tier - b.quality_tier);
+  // Group by class, each sorted by quality tier (lowest to highest)
+  const weaponsByClass = WEAPON_CLASS_ORDER.map((weaponClass) => ({
+    weaponClass,
+    weapons: weaponInventory
+      .filter((weapon) => weapon.weapon_class === weaponClass)
+      .sort((a, b) => a.quality_tier - b.quality_tier),
+  }));
 
   const handleSelectWeapon = (weapon: WeaponInventoryItem) => {
-    onSelectWeapon(weapon.id, weapon.quality_tier);
+    onSelectWeapon(weapon.id, weapon.quality_tier, weapon.weapon_class);
     onOpenChange(false);
   };
 
@@ -64,11 +85,12 @@ export function WeaponSelectionSheet({
         <SheetHeader>
           <SheetTitle className="flex items-center gap-2">
             <Sword className="h-5 w-5" />
-            Select Weapon
+            Select Loadout
           </SheetTitle>
           <SheetDescription>
-            Choose a weapon quality to use in battle. Higher quality weapons provide greater damage bonuses.
-            Weapons are consumed after use.
+            Choose a weapon class and quality. Each class deals {formatModifier(WEAPON_CLASS_MATCHUP.advantage)} damage
+            against the class the enemy mostly fights with if it counters it, and{" "}
+            {formatModifier(WEAPON_CLASS_MATCHUP.disadvantage)} if it is countered. Weapons are consumed on a hit.
           </SheetDescription>
         </SheetHeader>
 
@@ -77,7 +99,7 @@ export function WeaponSelectionSheet({
           <Card
             className={cn(
               "p-4 cursor-pointer transition-all border-2",
-              selectedWeaponQuality === null
+              selectedWeaponId === null
                 ? "border-primary bg-primary/10"
                 : "border-border/60 hover:bg-muted/50"
             )}
@@ -99,65 +121,96 @@ export function WeaponSelectionSheet({
             </div>
           </Card>
 
-          {/* Weapon quality options */}
-          {sortedWeapons.length === 0 ? (
+          {/* Weapon classes and their quality options */}
+          {weaponInventory.length === 0 ? (
             <Card className="p-6">
               <div className="flex flex-col items-center justify-center space-y-3">
                 <Sword className="h-8 w-8 text-muted-foreground" />
                 <p className="text-sm text-muted-foreground text-center">
-                  No weapons in inventory. Produce weapons at a Smithy to use them in battle.
+                  No weapons in inventory. Produce rifles, artillery or anti-armor at a Weapon Factory to use them in
+                  battle.
                 </p>
               </div>
             </Card>
           ) : (
-            sortedWeapons.map((weapon) => {
-              const isSelected = selectedWeaponQuality === weapon.quality_tier;
-              const qualityName = getQualityName(weapon.quality_tier);
-              const damageBonus = getWeaponDamageBonusPercent(weapon.quality_tier);
-              const colorClass = getQualityColor(weapon.quality_tier);
-              const bgColorClass = getQualityBgColor(weapon.quality_tier);
-              const borderColorClass = getQualityBorderColor(weapon.quality_tier);
+            weaponsByClass.map(({ weaponClass, weapons }) => {
+              const definition = WEAPON_CLASSES[weaponClass];
+              const ClassIcon = WEAPON_CLASS_ICONS[weaponClass];
 
               return (
-                <Card
-                  key={weapon.id}
-                  className={cn(
-                    "p-4 cursor-pointer transition-all border-2",
-                    isSelected
-                      ? `border-current ${colorClass} ${bgColorClass}`
-                      : `${borderColorClass} hover:bg-muted/50`
-                  )}
-                  onClick={() => handleSelectWeapon(weapon)}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <div
-                        className={cn(
-                          "flex h-12 w-12 items-center justify-center rounded-lg",
-                          isSelected
-                            ? bgColorClass
-                            : "bg-muted"
-                        )}
-                      >
-                        <WeaponQualityIcon tier={weapon.quality_tier} size="lg" />
-                      </div>
-                      <div>
-                        <h4 className={cn("text-sm font-bold", isSelected && colorClass)}>
-                          {qualityName} Weapon
-                        </h4>
-                        <p className="text-xs text-muted-foreground">
-                          Quality {weapon.quality_tier} · {weapon.quantity} available
-                        </p>
-                      </div>
+                <div key={weaponClass} className="space-y-2 pt-2">
+                  <div className="flex items-start gap-2">
+                    <ClassIcon className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-sm font-bold text-foreground">{definition.name}</h3>
+                      <p className="text-xs text-muted-foreground">{definition.description}</p>
                     </div>
-                    <Badge
-                      variant="outline"
-                      className={cn("gap-1 font-bold", isSelected && colorClass)}
-                    >
-                      {damageBonus} Damage
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant="outline">
+                      Strong vs {WEAPON_CLASSES[definition.strongAgainst].name}
+                    </Badge>
+                    <Badge variant="outline">Weak vs {WEAPON_CLASSES[getCounter(weaponClass)].name}</Badge>
+                    <Badge variant="outline">
+                      {formatModifier(definition.fortificationMultiplier)} vs fortifications
                     </Badge>
                   </div>
-                </Card>
+
+                  {weapons.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">None in inventory.</p>
+                  ) : (
+                    weapons.map((weapon) => {
+                      const isSelected = selectedWeaponId === weapon.id;
+                      const qualityName = getQualityName(weapon.quality_tier);
+                      const damageBonus = getWeaponDamageBonusPercent(weapon.quality_tier);
+                      const colorClass = getQualityColor(weapon.quality_tier);
+                      const bgColorClass = getQualityBgColor(weapon.quality_tier);
+                      const borderColorClass = getQualityBorderColor(weapon.quality_tier);
+
+                      return (
+                        <Card
+                          key={weapon.id}
+                          className={cn(
+                            "p-4 cursor-pointer transition-all border-2",
+                            isSelected
+                              ? `border-current ${colorClass} ${bgColorClass}`
+                              : `${borderColorClass} hover:bg-muted/50`
+                          )}
+                          onClick={() => handleSelectWeapon(weapon)}
+                        >
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                              <div
+                                className={cn(
+                                  "flex h-12 w-12 items-center justify-center rounded-lg",
+                                  isSelected
+                                    ? bgColorClass
+                                    : "bg-muted"
+                                )}
+                              >
+                                <WeaponQualityIcon tier={weapon.quality_tier} size="lg" />
+                              </div>
+                              <div>
+                                <h4 className={cn("text-sm font-bold", isSelected && colorClass)}>
+                                  {qualityName} {definition.name}
+                                </h4>
+                                <p className="text-xs text-muted-foreground">
+                                  Quality {weapon.quality_tier} · {weapon.quantity} available
+                                </p>
+                              </div>
+                            </div>
+                            <Badge
+                              variant="outline"
+                              className={cn("gap-1 font-bold", isSelected && colorClass)}
+                            >
+                              {damageBonus} Damage
+                            </Badge>
+                          </div>
+                        </Card>
+                      );
+                    })
+                  )}
+                </div>
               );
             })
           )}
@@ -3,15 +3,18 @@
 import React, { useState } from "react";
 import { cn } from "@/lib/utils";
 import {
+  WEAPON_CLASS_ICONS,
   WeaponQualityIcon,
   getWeaponDamageBonusPercent,
   getQualityColor,
 } from "@/components/ui/weapon-quality-icon";
-import { X } from "lucide-react";
+import { WEAPON_CLASSES, WEAPON_CLASS_ORDER, type WeaponClass } from "@/lib/battle-mechanics/weapon-classes";
+import { ListChecks, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 
 interface WeaponInventoryItem {
   id: string;
+  weapon_class: WeaponClass;
   quality_tier: number;
   quantity: number;
 }
@@ -19,25 +22,37 @@ interface WeaponInventoryItem {
 interface WeaponSelectorInlineProps {
   weaponInventory: WeaponInventoryItem[];
   selectedWeaponQuality: number | null;
-  onSelectWeapon: (weaponId: string, quality: number) => void;
+  selectedWeaponClass: WeaponClass | null;
+  onSelectWeapon: (weaponId: string, quality: number, weaponClass: WeaponClass) => void;
   onClearWeapon: () => void;
+  onOpenLoadout?: () => void; // Full loadout sheet with class matchups
   className?: string;
 }
 
 export function WeaponSelectorInline({
   weaponInventory,
   selectedWeaponQuality,
+  selectedWeaponClass,
   onSelectWeapon,
   onClearWeapon,
+  onOpenLoadout,
   className,
 }: WeaponSelectorInlineProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [activeClass, setActiveClass] = useState<WeaponClass>(selectedWeaponClass ?? "rifle");
+  const classWeapons = weaponInventory.filter((w) => w.weapon_class === activeClass);
+  const selectedWeapon = weaponInventory.find(
+    (w) => w.weapon_class === selectedWeaponClass && w.quality_tier === selectedWeaponQuality
+  );
 
   return (
     <div className={cn("relative", className)}>
       {/* Collapsed Button - Matches other control buttons */}
       <button
-        onClick={() => setIsExpanded(!isExpanded)}
+        onClick={() => {
+          if (!isExpanded && selectedWeaponClass) setActiveClass(selectedWeaponClass);
+          setIsExpanded(!isExpanded);
+        }}
         className={cn(
           "rounded-2xl h-12 w-12 md:h-16 md:w-16 flex-shrink-0 relative group text-2xl md:text-3xl transition-all flex items-center justify-center border border-b-4",
           selectedWeaponQuality
@@ -49,7 +64,7 @@ export function WeaponSelectorInline({
           <div className="flex flex-col items-center justify-center">
             <WeaponQualityIcon tier={selectedWeaponQuality} size="sm" />
             <Badge className={cn("absolute -bottom-1 -right-1 h-4 w-4 flex items-center justify-center text-[8px] p-0 border-2 border-background", getQualityColor(selectedWeaponQuality))}>
-              {weaponInventory.find(w => w.quality_tier === selectedWeaponQuality)?.quantity || 0}
+              {selectedWeapon?.quantity || 0}
             </Badge>
           </div>
         ) : (
@@ -104,10 +119,32 @@ export function WeaponSelectorInline({
               </span>
             </button>
 
+            {/* Weapon class */}
+            <div className="flex flex-col gap-0.5 mx-1">
+              {WEAPON_CLASS_ORDER.map((weaponClass) => {
+                const ClassIcon = WEAPON_CLASS_ICONS[weaponClass];
+                return (
+                  <button
+                    key={weaponClass}
+                    onClick={() => setActiveClass(weaponClass)}
+                    title={WEAPON_CLASSES[weaponClass].name}
+                    className={cn(
+                      "h-4 w-8 md:h-[18px] md:w-10 rounded flex items-center justify-center transition-all",
+                      activeClass === weaponClass
+                        ? "bg-orange-500/40 text-orange-300"
+                        : "bg-slate-800/40 text-white/50 hover:bg-slate-700/50"
+                    )}
+                  >
+                    <ClassIcon className="h-3 w-3" />
+                  </button>
+                );
+              })}
+            </div>
+
             {/* Weapon quality options Q1-Q5 */}
             {[1, 2, 3, 4, 5].map((quality) => {
-              const weapon = weaponInventory.find((w) => w.quality_tier === quality);
-              const isSelected = selectedWeaponQuality === quality;
+              const weapon = classWeapons.find((w) => w.quality_tier === quality);
+              const isSelected = selectedWeaponClass === activeClass && selectedWeaponQuality === quality;
               const isAvailable = weapon && weapon.quantity > 0;
               const colorClass = getQualityColor(quality);
               const damageBonus = getWeaponDamageBonusPercent(quality);
@@ -117,7 +154,7 @@ export function WeaponSelectorInline({
                   key={quality}
                   onClick={() => {
                     if (weapon && isAvailable) {
-                      onSelectWeapon(weapon.id, quality);
+                      onSelectWeapon(weapon.id, quality, activeClass);
                       setIsExpanded(false);
                     }
                   }}
@@ -147,6 +184,20 @@ export function WeaponSelectorInline({
                 </button>
               );
             })}
+
+            {/* Full loadout */}
+            {onOpenLoadout && (
+              <button
+                onClick={() => {
+                  onOpenLoadout();
+                  setIsExpanded(false);
+                }}
+                className="flex flex-col items-center justify-center h-12 w-12 md:h-14 md:w-14 rounded-lg transition-all relative group bg-slate-800/40 border border-slate-700/30 hover:bg-slate-700/50"
+              >
+                <ListChecks className="h-4 w-4 text-white/70" />
+                <span className="text-[8px] text-white/60 mt-0.5">Loadout</span>
+              </button>
+            )}
           </div>
         </>
       )}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Castle, Map as MapIcon, Shield, Swords } from "lucide-react";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { SectionHeading } from "@/components/ui/section-heading";
+import {
+  getCommunityCampaign,
+  type CampaignBattle,
+  type CampaignFront,
+  type CommunityCampaignView,
+} from "@/app/actions/regions";
+import { SUPPLY_LINE_RULES, getSupplyDecayAt } from "@/lib/regions/supply-lines";
+
+interface CampaignCardProps {
+  communityId: string;
+}
+
+const MAX_REGION_CHIPS = 6;
+
+const formatDateTime = (value: Date) =>
+  value.toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+// Earliest unsupplied region decides when the front starts falling apart
+function getFrontDecayAt(front: CampaignFront): Date | null {
+  const since = front.regions
+    .map((region) => region.unsupplied_since)
+    .filter((value): value is string => Boolean(value))
+    .sort()[0];
+  return since ? getSupplyDecayAt(since) : null;
+}
+
+function BattleRow({ battle }: { battle: CampaignBattle }) {
+  const Icon = battle.role === "attacking" ? Swords : Shield;
+
+  return (
+    <Link
+      href={`/battle/${battle.id}`}
+      className="flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
+    >
+      <Icon className="h-3 w-3 flex-shrink-0" />
+      <span className="truncate">
+        {battle.role === "attacking" ? "Attacking" : "Defending"} #{battle.target_hex_id}
+      </span>
+      <span className="ml-auto flex-shrink-0">Ends {formatDateTime(new Date(battle.ends_at))}</span>
+    </Link>
+  );
+}
+
+/**
+ * The community's fronts: groups of connected regions, whether each is still
+ * linked to the capital, and the battles being fought along it.
+ */
+export function CampaignCard({ communityId }: CampaignCardProps) {
+  const [view, setView] = useState<CommunityCampaignView | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getCommunityCampaign(communityId)
+      .then((data) => {
+        if (!cancelled) setView(data);
+      })
+      .catch((error) => console.error("Failed to load campaign:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [communityId]);
+
+  if (!view || view.fronts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card variant="default">
+      <CardContent className="space-y-4">
+        <SectionHeading
+          title="Campaign"
+          icon={MapIcon}
+          tooltip={`Regions are supplied while they connect to the capital through your own territory. Cut-off regions produce ${Math.round(
+            (1 - SUPPLY_LINE_RULES.unsuppliedProductionMultiplier) * 100
+          )}% less, cost defenders ${SUPPLY_LINE_RULES.unsuppliedDefenseEnergyMultiplier}x energy and fall back to neutral after ${SUPPLY_LINE_RULES.decayAfterHours} hours unless under attack.`}
+        />
+
+        <div className="space-y-2">
+          {view.fronts.map((front, index) => {
+            const decayAt = front.supplied ? null : getFrontDecayAt(front);
+            const hiddenRegions = front.regions.length - MAX_REGION_CHIPS;
+
+            return (
+              <div
+                key={front.regions[0].hex_id}
+                className="p-3 rounded-lg border border-border/40 bg-muted/10 space-y-2"
+              >
+                <div className="flex items-center gap-3">
+                  {front.supplied ? (
+                    <Castle className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  ) : (
+                    <MapIcon className="h-4 w-4 text-warning flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-foreground truncate">
+                      {front.supplied ? "Home Front" : `Front ${index + (view.fronts[0].supplied ? 0 : 1)}`}
+                    </p>
+                    <p className="text-[10px] sm:text-xs text-muted-foreground">
+                      {front.regions.length} {front.regions.length === 1 ? "region" : "regions"}
+                      {front.battles.length > 0 && ` • ${front.battles.length} ongoing`}
+                      {decayAt && ` • Falls ${formatDateTime(decayAt)}`}
+                    </p>
+                  </div>
+                  <Badge variant={front.supplied ? "success" : "warning"} className="flex-shrink-0">
+                    {front.supplied ? "Supplied" : "Cut Off"}
+                  </Badge>
+                </div>
+
+                <div className="flex flex-wrap gap-1">
+                  {front.regions.slice(0, MAX_REGION_CHIPS).map((region) => (
+                    <Badge key={region.hex_id} variant="minimal">
+                      {region.name}
+                    </Badge>
+                  ))}
+                  {hiddenRegions > 0 && <Badge variant="minimal">+{hiddenRegions}</Badge>}
+                </div>
+
+                {front.battles.length > 0 && (
+                  <div className="space-y-1">
+                    {front.battles.map((battle) => (
+                      <BattleRow key={battle.id} battle={battle} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {view.expeditions.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-semibold text-muted-foreground">Expeditions</p>
+            {view.expeditions.map((battle) => (
+              <BattleRow key={battle.id} battle={battle} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -68,6 +68,8 @@ import { CommunityStatParts } from "./community-stat";
 import { getRankLabel } from "@/lib/governance";
 import { resolveAvatar } from "@/lib/avatar";
 import { CommunityEconomyTab } from "./community-economy-tab";
+import { DiplomacyStatusCard } from "./diplomacy-status-card";
+import { CampaignCard } from "./campaign-card";
 
 const TAB_OPTIONS = ["Home", "Governance", "Politics", "Ideology", "Military", "Economy", "Buildings"] as const;
 type CommunityTabOption = (typeof TAB_OPTIONS)[number];
@@ -637,6 +639,9 @@ export function CommunityDetailsClient({
           </Card>
         )}
 
+        {/* War and treaty status (public) */}
+        <DiplomacyStatusCard communityId={communityId} />
+
         {/* Join Notification */}
         {joinNotification && (
           <Card
@@ -794,6 +799,7 @@ export function CommunityDetailsClient({
 
             <TabsContent value="military" className="outline-none mt-6 animate-in fade-in slide-in-from-bottom-2 duration-300">
               <div className="space-y-6">
+                <CampaignCard communityId={communityId} />
                 {(() => {
                   const militaryMembers: MilitaryMember[] = initialMembers
                     .filter((m) => m.user_id)
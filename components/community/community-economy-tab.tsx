@@ -2,6 +2,7 @@
 
 import React, { useState } from "react";
 import { getCommunityRegions } from "@/app/actions/regions";
+import { getTreasurySpendingAction, type TreasurySpendingView } from "@/app/actions/treasury";
 import {
   calculateResourceZoneBonus,
   RESOURCE_DISTRIBUTION_RULES,
@@ -24,6 +25,8 @@ import {
   TrendingUp,
   Landmark,
   Receipt,
+  HandCoins,
+  Repeat,
 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { SectionHeading } from "@/components/ui/section-heading";
@@ -76,6 +79,7 @@ export function CommunityEconomyTab({
     communityColor: null,
   });
   const [isTreasuryLoading, setIsTreasuryLoading] = React.useState(false);
+  const [treasurySpending, setTreasurySpending] = React.useState<TreasurySpendingView | null>(null);
   const isStatsLoading = isLoading || !resourceDistribution;
 
   // Handle auto-open from header click
@@ -292,6 +296,22 @@ export function CommunityEconomyTab({
     fetchTreasuryData();
   }, [activeSubTab, communityId]);
 
+  // Fetch the treasury spending audit trail alongside the balances
+  React.useEffect(() => {
+    if (activeSubTab !== "treasury") return;
+    let cancelled = false;
+
+    getTreasurySpendingAction(communityId)
+      .then((data) => {
+        if (!cancelled) setTreasurySpending(data);
+      })
+      .catch((err) => console.error("Error fetching treasury spending:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeSubTab, communityId]);
+
   // Calculate active resource zone bonuses per resource
   const resourceStats = React.useMemo(() => {
     const grainBonuses: number[] = [];
@@ -592,6 +612,88 @@ export function CommunityEconomyTab({
             </CardContent>
           </Card>
 
+          {/* Treasury Spending - payments enacted by SPEND_TREASURY laws */}
+          <Card variant="default">
+            <CardContent className="space-y-4">
+              <SectionHeading title="Treasury Spending" icon={HandCoins} />
+
+              <div className="space-y-2">
+                <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                  Recurring Payments
+                </p>
+                {!treasurySpending || treasurySpending.stipends.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No salaries or stipends in force</p>
+                ) : (
+                  treasurySpending.stipends.map((stipend) => (
+                    <div
+                      key={stipend.id}
+                      className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border/40 bg-muted/10"
+                    >
+                      <div className="space-y-1 min-w-0">
+                        <p className="text-sm font-semibold text-foreground truncate flex items-center gap-1.5">
+                          <Repeat className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+                          {stipend.recipient_username}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">{stipend.purpose}</p>
+                        {stipend.last_error && (
+                          <p className="text-xs text-amber-600 dark:text-amber-400">
+                            Last payment missed: {stipend.last_error}
+                          </p>
+                        )}
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        <p className="text-sm font-bold text-foreground flex items-center justify-end gap-1">
+                          {stipend.currency_type === "gold" ? (
+                            <GoldCoinIcon className="h-3.5 w-3.5" />
+                          ) : (
+                            <CommunityCoinIcon className="h-3.5 w-3.5" color={treasuryData.communityColor || undefined} />
+                          )}
+                          {stipend.amount.toLocaleString()}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          every {stipend.payment_interval} • {stipend.payments_made} paid
+                        </p>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <div className="space-y-2 border-t border-border/30 pt-3">
+                <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                  Recent Payments
+                </p>
+                {!treasurySpending || treasurySpending.payments.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No payments made from the treasury yet</p>
+                ) : (
+                  treasurySpending.payments.map((payment) => (
+                    <div key={payment.id} className="flex items-center justify-between gap-3 text-xs">
+                      <div className="min-w-0">
+                        <p className="font-semibold text-foreground truncate">
+                          {payment.recipient_username}
+                          <span className="font-normal text-muted-foreground">
+                            {" "}• {payment.transaction_type === "treasury_stipend" ? "Stipend" : "Grant"}
+                          </span>
+                        </p>
+                        <p className="text-muted-foreground truncate">
+                          {payment.purpose ?? "—"} • {new Date(payment.created_at).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <p className="font-bold text-foreground flex items-center gap-1 flex-shrink-0">
+                        {payment.currency_type === "gold" ? (
+                          <GoldCoinIcon className="h-3 w-3" />
+                        ) : (
+                          <CommunityCoinIcon className="h-3 w-3" color={treasuryData.communityColor || undefined} />
+                        )}
+                        {payment.amount.toLocaleString()}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Community Inventory */}
           <Card variant="default">
             <CardContent className="space-y-4">
@@ -0,0 +1,257 @@
+"use client";
+
+import { useCallback, useEffect, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Vote, Clock, CheckCircle2, Loader2 } from "lucide-react";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { SectionHeading } from "@/components/ui/section-heading";
+import { UserAvatar } from "@/components/ui/user-avatar";
+import { showGovernanceToast } from "@/lib/toast-utils";
+import { cn } from "@/lib/utils";
+
+import {
+  getCouncilElectionAction,
+  declareCandidacyAction,
+  withdrawCandidacyAction,
+  castCouncilBallotAction,
+  type CouncilElectionView,
+} from "@/app/actions/council-elections";
+
+interface CouncilElectionPanelProps {
+  communityId: string;
+  isMember: boolean;
+}
+
+const formatDeadline = (iso: string) =>
+  new Date(iso).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+
+/**
+ * Council elections for governance types with elected ranks (e.g. republic).
+ * Members declare candidacy, then cast an approval ballot for up to `seats` candidates.
+ */
+export function CouncilElectionPanel({ communityId, isMember }: CouncilElectionPanelProps) {
+  const [view, setView] = useState<CouncilElectionView | null>(null);
+  const [statement, setStatement] = useState("");
+  const [selectedCandidates, setSelectedCandidates] = useState<string[]>([]);
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+
+  const loadElection = useCallback(async () => {
+    try {
+      const data = await getCouncilElectionAction(communityId);
+      setView(data);
+    } catch (error) {
+      console.error("Failed to load council election:", error);
+    }
+  }, [communityId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getCouncilElectionAction(communityId)
+      .then((data) => {
+        if (!cancelled) setView(data);
+      })
+      .catch((error) => console.error("Failed to load council election:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [communityId]);
+
+  const runAction = (action: () => Promise<unknown>, successMessage: string) => {
+    startTransition(async () => {
+      try {
+        await action();
+        showGovernanceToast(successMessage, "success");
+        await loadElection();
+        router.refresh();
+      } catch (error) {
+        showGovernanceToast(error instanceof Error ? error.message : "Election action failed", "error");
+      }
+    });
+  };
+
+  const toggleCandidate = (candidateId: string) => {
+    if (!view?.election) return;
+    setSelectedCandidates((current) => {
+      if (current.includes(candidateId)) {
+        return current.filter((id) => id !== candidateId);
+      }
+      if (current.length >= view.election!.seats) {
+        return current;
+      }
+      return [...current, candidateId];
+    });
+  };
+
+  if (!view) {
+    return null;
+  }
+
+  const { election, phase, candidates, userBallot, isCandidate, canRun, canVote, electedRankLabel } = view;
+
+  return (
+    <Card variant="default">
+      <CardContent className="space-y-4">
+        <SectionHeading
+          title="Council Election"
+          icon={Vote}
+          actions={
+            phase ? (
+              <Badge variant="secondary" className="text-xs capitalize">
+                {phase}
+              </Badge>
+            ) : undefined
+          }
+        />
+
+        {!election ? (
+          <p className="text-xs text-muted-foreground">
+            The first election will be called shortly. {electedRankLabel} seats are filled by the citizens.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Clock className="h-3.5 w-3.5 flex-shrink-0" />
+              <p>
+                {phase === "candidacy" && `Candidacy closes ${formatDeadline(election.candidacy_ends_at)}`}
+                {phase === "voting" && `Polls close ${formatDeadline(election.voting_ends_at)}`}
+                {phase === "completed" && `Council term ends ${formatDeadline(election.term_ends_at)}`}
+                {phase === "cancelled" && "No candidates stood. The sitting council holds over until the next election."}
+              </p>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {election.seats} {electedRankLabel.toLowerCase()} seats
+              {phase === "voting" && ` • vote for up to ${election.seats} candidates`}
+            </p>
+
+            {/* Candidates */}
+            <div className="space-y-2">
+              {candidates.length === 0 ? (
+                <p className="text-xs text-muted-foreground p-2">No candidates yet</p>
+              ) : (
+                candidates.map((candidate) => {
+                  const isSelected = selectedCandidates.includes(candidate.id);
+                  const hasVotedFor = userBallot.includes(candidate.id);
+                  return (
+                    <button
+                      key={candidate.id}
+                      type="button"
+                      onClick={() => canVote && toggleCandidate(candidate.id)}
+                      disabled={!canVote || isPending}
+                      className={cn(
+                        "w-full flex items-center gap-3 p-3 rounded-lg border text-left transition-all",
+                        isSelected
+                          ? "border-primary bg-primary/10"
+                          : "border-border/50 bg-card",
+                        canVote && "hover:bg-muted/50"
+                      )}
+                    >
+                      <UserAvatar
+                        username={candidate.username}
+                        avatarUrl={candidate.avatar_url}
+                        size="sm"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs sm:text-sm font-semibold truncate">{candidate.username}</p>
+                        {candidate.statement && (
+                          <p className="text-[10px] sm:text-xs text-muted-foreground line-clamp-2">
+                            {candidate.statement}
+                          </p>
+                        )}
+                      </div>
+                      {candidate.votes !== null && (
+                        <span className="text-xs font-semibold tabular-nums">{candidate.votes} votes</span>
+                      )}
+                      {candidate.elected && (
+                        <Badge variant="secondary" className="text-[10px]">
+                          Elected
+                        </Badge>
+                      )}
+                      {hasVotedFor && <CheckCircle2 className="h-4 w-4 text-emerald-500 flex-shrink-0" />}
+                    </button>
+                  );
+                })
+              )}
+            </div>
+
+            {/* Candidacy */}
+            {isMember && phase === "candidacy" && (
+              <div className="space-y-2">
+                {canRun && (
+                  <>
+                    <Textarea
+                      value={statement}
+                      onChange={(event) => setStatement(event.target.value)}
+                      placeholder="Campaign statement (optional)"
+                      maxLength={280}
+                      className="text-xs"
+                      disabled={isPending}
+                    />
+                    <Button
+                      onClick={() =>
+                        runAction(
+                          () => declareCandidacyAction(election.id, statement),
+                          "You are now standing for election"
+                        )
+                      }
+                      disabled={isPending}
+                      size="sm"
+                      className="w-full"
+                    >
+                      {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Declare Candidacy
+                    </Button>
+                  </>
+                )}
+                {isCandidate && (
+                  <Button
+                    onClick={() =>
+                      runAction(() => withdrawCandidacyAction(election.id), "Candidacy withdrawn")
+                    }
+                    disabled={isPending}
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                  >
+                    Withdraw Candidacy
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {/* Ballot */}
+            {canVote && (
+              <Button
+                onClick={() =>
+                  runAction(
+                    () => castCouncilBallotAction(election.id, selectedCandidates),
+                    "Ballot cast"
+                  )
+                }
+                disabled={isPending || selectedCandidates.length === 0}
+                size="sm"
+                className="w-full"
+              >
+                {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Cast Ballot ({selectedCandidates.length}/{election.seats})
+              </Button>
+            )}
+
+            {phase === "voting" && userBallot.length > 0 && (
+              <p className="text-[10px] sm:text-xs text-muted-foreground text-center">
+                Your ballot has been cast. Results are revealed when the polls close.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
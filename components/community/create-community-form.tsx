@@ -3,7 +3,7 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useFormStatus } from "react-dom";
-import { CheckCircle2, Crown, Loader2, Plus, UserPlus } from "lucide-react";
+import { CheckCircle2, Crown, Landmark, Loader2, Plus, UserPlus } from "lucide-react";
 
 import { cn } from "@/lib/utils";
 import { borders } from "@/lib/design-system";
@@ -102,7 +102,7 @@ function CommunityFormBody({ onSuccess }: CommunityFormBodyProps) {
 
       <div className="space-y-2">
         <Label>Governance Type</Label>
-        <div className="grid grid-cols-3 gap-2">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
           {/* Kingdom - Active */}
           <button
             type="button"
@@ -118,6 +118,21 @@ function CommunityFormBody({ onSuccess }: CommunityFormBodyProps) {
             <span className="text-xs font-semibold">Kingdom</span>
           </button>
 
+          {/* Republic - Active */}
+          <button
+            type="button"
+            onClick={() => setGovernanceType("republic")}
+            className={cn(
+              `p-3 rounded-lg ${borders.thin} transition-all flex flex-col items-center gap-2`,
+              governanceType === "republic"
+                ? "border-primary bg-primary/10"
+                : "border-border/50 bg-muted/20"
+            )}
+          >
+            <Landmark className="h-5 w-5" />
+            <span className="text-xs font-semibold">Republic</span>
+          </button>
+
           {/* Democracy - Disabled */}
           <button
             type="button"
@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Flag, Handshake, Swords } from "lucide-react";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { SectionHeading } from "@/components/ui/section-heading";
+import { getCommunityDiplomacyAction, type CommunityDiplomacyView } from "@/app/actions/diplomacy";
+
+interface DiplomacyStatusCardProps {
+  communityId: string;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+/**
+ * Wars in progress (with the battle record against each enemy) and the peace
+ * treaties and ceasefires in force. Hidden when the community is at peace with everyone.
+ */
+export function DiplomacyStatusCard({ communityId }: DiplomacyStatusCardProps) {
+  const [view, setView] = useState<CommunityDiplomacyView | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getCommunityDiplomacyAction(communityId)
+      .then((data) => {
+        if (!cancelled) setView(data);
+      })
+      .catch((error) => console.error("Failed to load diplomacy status:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [communityId]);
+
+  if (!view || (view.wars.length === 0 && view.treaties.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card variant="default" className="mt-6">
+      <CardContent className="space-y-4">
+        <SectionHeading
+          title="War & Treaties"
+          icon={Swords}
+          tooltip="Wars end with a peace treaty or pause with a ceasefire, once both governments pass the law. No battles can be started between parties to a treaty."
+        />
+
+        {view.wars.length > 0 && (
+          <div className="space-y-2">
+            {view.wars.map((war) => (
+              <Link
+                key={war.enemy_id}
+                href={`/community/${war.enemy_slug || war.enemy_id}`}
+                className="flex items-center gap-3 p-3 rounded-lg border border-border/40 bg-muted/10 hover:border-border hover:bg-muted/30 transition-all duration-200"
+              >
+                <Swords className="h-4 w-4 text-destructive flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-foreground truncate">{war.enemy_name}</p>
+                  <p className="text-[10px] sm:text-xs text-muted-foreground">
+                    Since {formatDate(war.since)} • {war.battles_won} won • {war.battles_lost} lost
+                    {war.battles_active > 0 && ` • ${war.battles_active} ongoing`}
+                  </p>
+                </div>
+                <Badge variant={war.status === "war" ? "destructive" : "warning"} className="flex-shrink-0">
+                  {war.status === "war" ? "At War" : "Ceasefire"}
+                </Badge>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {view.treaties.length > 0 && (
+          <div className="space-y-2">
+            {view.treaties.map((treaty) => {
+              const Icon = treaty.treaty_type === "peace" ? Handshake : Flag;
+              const terms = [
+                treaty.terms.reparations_gold > 0 &&
+                  `${treaty.terms.reparations_gold.toLocaleString()} gold reparations`,
+                treaty.terms.ceded_hex_ids.length > 0 &&
+                  `${treaty.terms.ceded_hex_ids.length} ${treaty.terms.ceded_hex_ids.length === 1 ? "region" : "regions"} ceded`,
+              ].filter(Boolean);
+
+              return (
+                <Link
+                  key={treaty.id}
+                  href={`/community/${treaty.partner_slug || treaty.partner_id}`}
+                  className="flex items-center gap-3 p-3 rounded-lg border border-border/40 bg-muted/10 hover:border-border hover:bg-muted/30 transition-all duration-200"
+                >
+                  <Icon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-foreground truncate">{treaty.partner_name}</p>
+                    <p className="text-[10px] sm:text-xs text-muted-foreground">
+                      Signed {formatDate(treaty.starts_at)}
+                      {treaty.ends_at ? ` • Until ${formatDate(treaty.ends_at)}` : " • Permanent"}
+                      {terms.length > 0 && ` • ${terms.join(", ")}`}
+                    </p>
+                  </div>
+                  <Badge variant={treaty.treaty_type === "peace" ? "success" : "warning"} className="flex-shrink-0">
+                    {treaty.treaty_type === "peace" ? "Peace" : "Ceasefire"}
+                  </Badge>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,10 +12,11 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { SectionHeading } from "@/components/ui/section-heading";
 import { Input } from "@/components/ui/input";
-import { getGovernanceType, getRankLabel } from "@/lib/governance";
+import { getGovernanceType, getRankLabel, isElectedRank } from "@/lib/governance";
 import { assignRankAction, claimThroneAction } from "@/app/actions/community";
 import { showGovernanceToast, showErrorToast } from "@/lib/toast-utils";
 import type { ChatSidebarEvent } from "@/lib/types/community";
+import { CouncilElectionPanel } from "./council-election-panel";
 
 interface HierarchyMember {
   user_id: string;
@@ -56,6 +57,11 @@ export function GovernanceHierarchy({
   const hasNoSovereign = !sovereign;
   const isCurrentUserSovereign = sovereign?.user_id === currentUserId;
 
+  // Elected councils are seated by the ballot box, not appointed by the sovereign
+  const isCouncilElected = isElectedRank(governanceType, 1);
+  const canAppointSecretaries = isUserSovereign && !isCouncilElected;
+  const isCurrentUserMember = members.some((m) => m.user_id === currentUserId);
+
   const assignedSecretaries = members.filter((m) => m.rank_tier === 1);
   const availableMembers = members.filter((m) => m.rank_tier !== 0 && m.rank_tier !== 1);
 
@@ -91,7 +97,7 @@ export function GovernanceHierarchy({
   };
 
   const handleAssignRank = (targetUserId: string, rankTier: number, username: string) => {
-    if (!isUserSovereign) return;
+    if (!canAppointSecretaries) return;
     startTransition(async () => {
       try {
         const result = await assignRankAction(communityId, targetUserId, rankTier);
@@ -137,7 +143,7 @@ export function GovernanceHierarchy({
   };
 
   const renderSelectionPanel = (index: number) => {
-    if (!isUserSovereign || selectingMinisterSlot !== index) return null;
+    if (!canAppointSecretaries || selectingMinisterSlot !== index) return null;
     const normalizedTerm = searchTerm.trim().toLowerCase();
     const filteredMembers = normalizedTerm
       ? availableMembers.filter((member) => member.username.toLowerCase().includes(normalizedTerm))
@@ -298,7 +304,7 @@ export function GovernanceHierarchy({
                             badgeSize="xs"
                             className="text-[10px] sm:text-xs font-semibold text-center line-clamp-1"
                           />
-                          {isUserSovereign && (
+                          {canAppointSecretaries && (
                             <div className="flex w-full flex-col space-y-1">
                               <Button
                                 onClick={() => handleOpenSelection(index)}
@@ -321,7 +327,7 @@ export function GovernanceHierarchy({
                             </div>
                           )}
                         </>
-                      ) : isUserSovereign ? (
+                      ) : canAppointSecretaries ? (
                         <Button
                           onClick={() => handleOpenSelection(index)}
                           variant="ghost"
@@ -343,15 +349,24 @@ export function GovernanceHierarchy({
               )}
             </div>
 
-            {isUserSovereign && (
+            {canAppointSecretaries && (
               <p className="text-[10px] sm:text-xs text-muted-foreground text-center">
                 Use the search below to find a member before assigning them a rank
               </p>
             )}
+            {isCouncilElected && (
+              <p className="text-[10px] sm:text-xs text-muted-foreground text-center">
+                Seats are filled by council elections and rotate at the end of each term
+              </p>
+            )}
           </CardContent>
         </Card>
       )}
 
+      {isCouncilElected && (
+        <CouncilElectionPanel communityId={communityId} isMember={isCurrentUserMember} />
+      )}
+
     </div>
   );
 }
@@ -5,18 +5,52 @@ import { Dialog, DialogContent, DialogTitle, DialogDescription } from "@/compone
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { AlertTriangle, Clock, CheckCircle2, Hammer, Loader2, Megaphone, Podcast, XCircle, Gavel } from "lucide-react";
+import { AlertTriangle, Clock, CheckCircle2, ChevronDown, ChevronUp, Hammer, ListOrdered, Loader2, Megaphone, Podcast, XCircle, Gavel } from "lucide-react";
 import { showGovernanceToast } from "@/lib/toast-utils";
+import { getRankLabel } from "@/lib/governance";
 import { GoldCoinIcon, CommunityCoinIcon } from "@/components/ui/coin-icon";
 import {
   LAW_REGISTRY,
   getGovernanceRules,
   canVoteOnLaw,
+  getAmendableFields,
+  getRevisableLawTypes,
+  getProposalOptions,
+  isBilateralLaw,
+  getBilateralLawTypes,
   type LawType,
 } from "@/lib/governance/laws";
 import { getLawColorScheme } from "@/lib/law-design-system";
+import {
+  TREASURY_PAYMENT_INTERVALS,
+  MAX_TREASURY_PAYMENT,
+  MAX_PAYMENT_PURPOSE_LENGTH,
+  isRecurringPayment,
+  describePaymentSchedule,
+  type TreasuryCurrency,
+} from "@/lib/governance/treasury-spending";
+import { MAX_REPARATIONS, MAX_CEDED_REGIONS, describeTreatyTerms } from "@/lib/governance/treaties";
+import {
+  MAX_REGION_PRICE,
+  describeRegionTransfer,
+  type RegionTransferCurrency,
+} from "@/lib/governance/region-transfers";
+import {
+  MAX_POLICY_RATE,
+  MAX_OPERATION_GOLD,
+  describeMonetaryPolicy,
+  describeOpenMarketOperation,
+  formatPercent,
+  type OpenMarketOperationType,
+} from "@/lib/governance/monetary-policy";
 import { createSupabaseBrowserClient } from "@/lib/supabase-browser";
-import { proposeLawAction, voteOnProposalAction } from "@/app/actions/laws";
+import {
+  proposeLawAction,
+  voteOnProposalAction,
+  getProposalDetailsAction,
+  type ProposalDelegatedVote,
+  type ProposalTally,
+} from "@/app/actions/laws";
 import { cn, hexToRgba } from "@/lib/utils";
 import { formatCommunityColor } from "@/lib/community-visuals";
 
@@ -43,20 +77,82 @@ interface ProposalData {
   expires_at: string;
   resolved_at?: string | null;
   resolution_notes?: string | null;
+  repealed_at?: string | null;
+  amended_at?: string | null;
+  lapses_at?: string | null;
+  lapsed_at?: string | null;
   proposer_id: string;
   proposer_name?: string;
   voteRows: ProposalVoteRow[];
+  tally?: ProposalTally | null;
+  delegatedVotes?: ProposalDelegatedVote[];
 }
 
 type ProposalVoteRow = {
   vote: string | null;
   user_id: string | null;
-  community_id?: string | null; // For CFC alliances, tracks which community the voter belongs to
+  ranking?: string[] | null; // Ordered options for ranked-choice proposals
+  community_id?: string | null; // For bilateral laws, tracks which community the voter belongs to
   user?: {
     username?: string | null;
   } | null;
 };
 
+type EnactedLawRow = {
+  id: string;
+  law_type: LawType;
+  metadata: Record<string, unknown> | null;
+  resolved_at: string | null;
+};
+
+// Inputs for the fields an AMEND_LAW proposal can change (percent fields are entered as 0-100)
+const AMENDABLE_FIELD_INPUTS: Record<string, { label: string; isPercent?: boolean; min: number; max?: number; step: number }> = {
+  tax_rate: { label: "Work Tax Rate (%)", isPercent: true, min: 0, max: 100, step: 1 },
+  tariff_rate: { label: "Import Tariff Rate (%)", isPercent: true, min: 0, max: 100, step: 1 },
+  gold_amount: { label: "Gold Amount", min: 1, max: 1000000, step: 1 },
+  conversion_rate: { label: "Conversion Rate (1 Gold = X Currency)", min: 0.001, step: 0.1 },
+  amount: { label: "Payment Amount", min: 1, max: MAX_TREASURY_PAYMENT, step: 1 },
+  policy_rate: { label: "Policy Rate (%)", isPercent: true, min: 0, max: MAX_POLICY_RATE * 100, step: 0.5 },
+  reserve_ratio: { label: "Reserve Ratio (%)", isPercent: true, min: 0, max: 100, step: 1 },
+};
+
+function formatAmendableValue(field: string, value: unknown): string {
+  if (typeof value !== "number") return "—";
+  return AMENDABLE_FIELD_INPUTS[field]?.isPercent
+    ? `${(value * 100).toFixed(0)}%`
+    : value.toLocaleString();
+}
+
+// Short summary of an enacted law's terms for repeal/amend pickers
+function describeLawTerms(lawType: string, metadata: Record<string, unknown> | null | undefined): string {
+  const terms = metadata ?? {};
+  switch (lawType) {
+    case "WORK_TAX":
+      return `${formatAmendableValue("tax_rate", terms.tax_rate)} work tax`;
+    case "IMPORT_TARIFF":
+      return `${formatAmendableValue("tariff_rate", terms.tariff_rate)} import tariff`;
+    case "ISSUE_CURRENCY":
+      return `${formatAmendableValue("gold_amount", terms.gold_amount)} gold at 1:${formatAmendableValue("conversion_rate", terms.conversion_rate)}`;
+    case "CFC_ALLIANCE":
+      return "Active alliance pact";
+    case "EMBARGO":
+      return `Trade embargo on ${terms.target_community_name ?? "Unknown"}${terms.include_allies ? " (with allies)" : ""}`;
+    case "PROPOSE_PEACE":
+    case "CEASEFIRE":
+      return `${lawType === "CEASEFIRE" ? "Ceasefire" : "Peace"} with ${terms.target_community_name ?? "Unknown"} (${describeTreatyTerms(terms)})`;
+    case "TRANSFER_REGION":
+      return describeRegionTransfer(terms);
+    case "SPEND_TREASURY":
+      return `${formatAmendableValue("amount", terms.amount)} ${terms.currency === "community" ? "community coins" : "gold"} ${describePaymentSchedule(terms.interval)} to ${terms.recipient_username ?? "Unknown"}`;
+    case "MONETARY_POLICY":
+      return describeMonetaryPolicy(terms);
+    case "OPEN_MARKET_OPERATION":
+      return describeOpenMarketOperation(terms);
+    default:
+      return "";
+  }
+}
+
 type HeirCandidateRow = {
   user_id: string;
   user?: {
@@ -121,6 +217,11 @@ export function LawProposalDrawer({
   // For CHANGE_GOVERNANCE
   const [selectedGovernanceType, setSelectedGovernanceType] = useState<string>("democracy");
 
+  // Ranked-choice proposals (PROPOSE_HEIR / CHANGE_GOVERNANCE with several options)
+  const [isRankedBallot, setIsRankedBallot] = useState(false);
+  const [rankedOptions, setRankedOptions] = useState<Array<{ id: string; label: string }>>([]);
+  const [ballotRanking, setBallotRanking] = useState<string[]>([]);
+
   // For MESSAGE_OF_THE_DAY
   const [motdTitle, setMotdTitle] = useState("");
   const [motdContent, setMotdContent] = useState("");
@@ -130,7 +231,7 @@ export function LawProposalDrawer({
   const [workTaxRate, setWorkTaxRate] = useState<number>(0); // Default 0% - king must set it
   const [successProposalId, setSuccessProposalId] = useState<string | null>(null);
   const [currentVote, setCurrentVote] = useState<"yes" | "no" | null>(null);
-  const [voteInProgress, setVoteInProgress] = useState<"yes" | "no" | null>(null);
+  const [voteInProgress, setVoteInProgress] = useState<"yes" | "no" | "ranked" | null>(null);
 
   // For IMPORT_TARIFF
   const [importTariffRate, setImportTariffRate] = useState<number>(0); // Default 0% - king must set it
@@ -139,12 +240,64 @@ export function LawProposalDrawer({
   const [goldAmount, setGoldAmount] = useState<number>(0);
   const [conversionRate, setConversionRate] = useState<number>(1); // Default 1:1
 
+  // For MONETARY_POLICY (entered as percentages)
+  const [policyRatePercent, setPolicyRatePercent] = useState<number>(0);
+  const [reserveRatioPercent, setReserveRatioPercent] = useState<number>(0);
+
+  // For OPEN_MARKET_OPERATION
+  const [omoOperation, setOmoOperation] = useState<OpenMarketOperationType>("buy");
+  const [omoGoldAmount, setOmoGoldAmount] = useState<number>(0);
+  const [omoCurrencyAmount, setOmoCurrencyAmount] = useState<number>(0);
+
+  // For SPEND_TREASURY ("" interval = one-off payment)
+  const [spendRecipientSearch, setSpendRecipientSearch] = useState("");
+  const [spendRecipientCandidates, setSpendRecipientCandidates] = useState<Array<{ id: string; username: string }>>([]);
+  const [selectedSpendRecipient, setSelectedSpendRecipient] = useState<{ id: string; username: string } | null>(null);
+  const [spendAmount, setSpendAmount] = useState<number>(0);
+  const [spendCurrency, setSpendCurrency] = useState<TreasuryCurrency>("gold");
+  const [spendPurpose, setSpendPurpose] = useState("");
+  const [spendInterval, setSpendInterval] = useState<string>("");
+
   // For CFC_ALLIANCE
   const [allianceTargetSearch, setAllianceTargetSearch] = useState("");
   const [allianceTargets, setAllianceTargets] = useState<Array<{ id: string; name: string }>>([]);
   const [selectedAllianceTarget, setSelectedAllianceTarget] = useState<{ id: string; name: string } | null>(null);
   const [allianceTargetsLoading, setAllianceTargetsLoading] = useState(false);
 
+  // For EMBARGO
+  const [embargoTargetSearch, setEmbargoTargetSearch] = useState("");
+  const [embargoTargets, setEmbargoTargets] = useState<Array<{ id: string; name: string }>>([]);
+  const [selectedEmbargoTarget, setSelectedEmbargoTarget] = useState<{ id: string; name: string } | null>(null);
+  const [embargoIncludeAllies, setEmbargoIncludeAllies] = useState(false);
+
+  // For PROPOSE_PEACE / CEASEFIRE (only communities at war with this one can be chosen)
+  const [treatyEnemies, setTreatyEnemies] = useState<Array<{ id: string; name: string }>>([]);
+  const [treatyEnemiesLoading, setTreatyEnemiesLoading] = useState(false);
+  const [selectedTreatyTarget, setSelectedTreatyTarget] = useState<{ id: string; name: string } | null>(null);
+  const [reparationsGold, setReparationsGold] = useState<number>(0);
+  const [reparationsPayer, setReparationsPayer] = useState<"us" | "them">("them");
+  const [treatyRegions, setTreatyRegions] = useState<Array<{ hex_id: string; owner_community_id: string }>>([]);
+  const [cededHexIds, setCededHexIds] = useState<string[]>([]);
+
+  // For TRANSFER_REGION (our regions, capital excluded)
+  const [transferRegions, setTransferRegions] = useState<Array<{ hex_id: string; name: string }>>([]);
+  const [transferRegionsLoading, setTransferRegionsLoading] = useState(false);
+  const [selectedTransferRegion, setSelectedTransferRegion] = useState<{ hex_id: string; name: string } | null>(null);
+  const [transferTargetSearch, setTransferTargetSearch] = useState("");
+  const [transferTargets, setTransferTargets] = useState<Array<{ id: string; name: string }>>([]);
+  const [selectedTransferTarget, setSelectedTransferTarget] = useState<{ id: string; name: string } | null>(null);
+  const [transferPrice, setTransferPrice] = useState<number>(0);
+  const [transferCurrency, setTransferCurrency] = useState<RegionTransferCurrency>("gold");
+
+  // For REPEAL_LAW / AMEND_LAW
+  const [enactedLaws, setEnactedLaws] = useState<EnactedLawRow[]>([]);
+  const [enactedLawsLoading, setEnactedLawsLoading] = useState(false);
+  const [selectedEnactedLaw, setSelectedEnactedLaw] = useState<EnactedLawRow | null>(null);
+  const [amendmentValues, setAmendmentValues] = useState<Record<string, number>>({});
+
+  // Sunset clause ("" = permanent)
+  const [lawDuration, setLawDuration] = useState<string>("");
+
   const supabase = useMemo(() => createSupabaseBrowserClient(), []);
 
   const currentLawType = ((selectedProposalId || proposalId) ? proposalData?.law_type : lawType) as LawType;
@@ -172,7 +325,7 @@ export function LawProposalDrawer({
         .from("community_proposals")
         .select(
           `*,
-          proposal_votes(vote, user_id)`
+          proposal_votes(vote, user_id, ranking)`
         )
         .eq("id", idToLoad)
         .single();
@@ -192,11 +345,11 @@ export function LawProposalDrawer({
         }
       }
 
-      // Fetch target community name for DECLARE_WAR and CFC_ALLIANCE
+      // Fetch target community name for DECLARE_WAR and bilateral laws (alliances, treaties)
       const baseMetadata = (data.metadata ?? {}) as Record<string, unknown>;
       const enrichedMetadata: Record<string, unknown> = { ...baseMetadata };
       if (
-        (data.law_type === "DECLARE_WAR" || data.law_type === "CFC_ALLIANCE") &&
+        (data.law_type === "DECLARE_WAR" || isBilateralLaw(data.law_type as LawType)) &&
         typeof baseMetadata.target_community_id === "string"
       ) {
         const { data: targetComm } = await supabase
@@ -209,6 +362,22 @@ export function LawProposalDrawer({
         }
       }
 
+      // Fetch the targeted law for REPEAL_LAW and AMEND_LAW
+      if (
+        (data.law_type === "REPEAL_LAW" || data.law_type === "AMEND_LAW") &&
+        typeof baseMetadata.target_proposal_id === "string"
+      ) {
+        const { data: targetLaw } = await supabase
+          .from("community_proposals")
+          .select("law_type, metadata")
+          .eq("id", baseMetadata.target_proposal_id)
+          .maybeSingle();
+        if (targetLaw) {
+          enrichedMetadata.target_law_type = targetLaw.law_type;
+          enrichedMetadata.target_law_terms = describeLawTerms(targetLaw.law_type, targetLaw.metadata);
+        }
+      }
+
       // Get current user's profile ID (not auth ID) for vote checking
       const { data: authData } = await supabase.auth.getUser();
       const authId = authData.user?.id;
@@ -255,8 +424,8 @@ export function LawProposalDrawer({
           }, {} as Record<string, string>);
         }
 
-        // For CFC alliances, determine which community each voter belongs to
-        if (data.law_type === "CFC_ALLIANCE" && baseMetadata.target_community_id) {
+        // For bilateral laws, determine which community each voter belongs to
+        if (isBilateralLaw(data.law_type as LawType) && baseMetadata.target_community_id) {
           const initiatorCommunityId = data.community_id;
           const targetCommunityId = String(baseMetadata.target_community_id);
 
@@ -298,6 +467,17 @@ export function LawProposalDrawer({
             : undefined),
       }));
 
+      // Server-side tally (quorum, weighting, ranked-choice rounds)
+      let tally: ProposalTally | null = null;
+      let delegatedVotes: ProposalDelegatedVote[] = [];
+      try {
+        const details = await getProposalDetailsAction(idToLoad);
+        tally = details.tally;
+        delegatedVotes = details.delegatedVotes;
+      } catch (tallyError) {
+        console.error("Failed to load proposal tally:", tallyError);
+      }
+
       setProposalData({
         ...data,
         metadata: enrichedMetadata,
@@ -305,9 +485,14 @@ export function LawProposalDrawer({
         noVotes,
         proposer_name,
         voteRows: voteRowsWithUsers,
+        tally,
+        delegatedVotes,
       });
       setHasVoted(!!userVoteRow);
       setCurrentVote(userVote);
+      setBallotRanking(
+        userVoteRow?.ranking ?? getProposalOptions(data.law_type as LawType, baseMetadata) ?? []
+      );
     } catch (err) {
       console.error("Failed to load proposal:", err);
       setError(err instanceof Error ? err.message : "Failed to load proposal");
@@ -361,6 +546,28 @@ export function LawProposalDrawer({
     setHeirLoading(false);
   };
 
+  // Search for payment recipients (any player can receive a grant or bounty)
+  const handleSpendRecipientSearch = async (value: string) => {
+    setSpendRecipientSearch(value);
+    if (value.length < 2) {
+      setSpendRecipientCandidates([]);
+      return;
+    }
+
+    const { data } = await supabase
+      .from("users")
+      .select("id, username")
+      .ilike("username", `%${value}%`)
+      .limit(10);
+
+    setSpendRecipientCandidates(
+      (data || []).map((user: { id: string; username: string | null }) => ({
+        id: user.id,
+        username: user.username || "Unknown",
+      }))
+    );
+  };
+
   // Search for alliance targets
   const handleAllianceTargetSearch = async (value: string) => {
     setAllianceTargetSearch(value);
@@ -381,6 +588,226 @@ export function LawProposalDrawer({
     setAllianceTargetsLoading(false);
   };
 
+  // Search for the community to embargo
+  const handleEmbargoTargetSearch = async (value: string) => {
+    setEmbargoTargetSearch(value);
+    if (value.length < 2) {
+      setEmbargoTargets([]);
+      return;
+    }
+
+    const { data } = await supabase
+      .from("communities")
+      .select("id, name")
+      .ilike("name", `%${value}%`)
+      .neq("id", communityId)
+      .limit(10);
+
+    setEmbargoTargets(data || []);
+  };
+
+  // Search for the community receiving a transferred region
+  const handleTransferTargetSearch = async (value: string) => {
+    setTransferTargetSearch(value);
+    if (value.length < 2) {
+      setTransferTargets([]);
+      return;
+    }
+
+    const { data } = await supabase
+      .from("communities")
+      .select("id, name")
+      .ilike("name", `%${value}%`)
+      .neq("id", communityId)
+      .limit(10);
+
+    setTransferTargets(data || []);
+  };
+
+  // Load laws in force that can be repealed or amended
+  useEffect(() => {
+    if (!isOpen || proposalId || selectedProposalId) return;
+    if (lawType !== "REPEAL_LAW" && lawType !== "AMEND_LAW") return;
+
+    const revisableTypes = getRevisableLawTypes(lawType === "REPEAL_LAW" ? "repeal" : "amend");
+    let cancelled = false;
+
+    const loadEnactedLaws = async () => {
+      setEnactedLawsLoading(true);
+      const { data } = await supabase
+        .from("community_proposals")
+        .select("id, law_type, metadata, resolved_at")
+        // Alliances and treaties can also be revised by the community on the other side
+        .or(`community_id.eq.${communityId},and(law_type.in.(${getBilateralLawTypes().join(",")}),metadata->>target_community_id.eq.${communityId})`)
+        .eq("status", "passed")
+        .is("repealed_at", null)
+        .is("lapsed_at", null)
+        .in("law_type", revisableTypes)
+        .order("resolved_at", { ascending: false })
+        .limit(50);
+
+      // Rate-style laws are replaced by newer enactments, so keep only the latest of each
+      const seenSupersededTypes = new Set<string>();
+      const inForce = ((data ?? []) as EnactedLawRow[]).filter((row) => {
+        // One-off treasury grants are final once paid
+        if (row.law_type === "SPEND_TREASURY" && !isRecurringPayment(row.metadata)) return false;
+        if (!LAW_REGISTRY[row.law_type]?.supersededByNewer) return true;
+        if (seenSupersededTypes.has(row.law_type)) return false;
+        seenSupersededTypes.add(row.law_type);
+        return true;
+      });
+
+      if (!cancelled) {
+        setEnactedLaws(inForce);
+        setEnactedLawsLoading(false);
+      }
+    };
+
+    void loadEnactedLaws();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, lawType, proposalId, selectedProposalId, communityId, supabase]);
+
+  // Load the communities this one is at war with (a ceasefire still allows peace talks)
+  useEffect(() => {
+    if (!isOpen || proposalId || selectedProposalId) return;
+    if (lawType !== "PROPOSE_PEACE" && lawType !== "CEASEFIRE") return;
+
+    let cancelled = false;
+
+    const loadEnemies = async () => {
+      setTreatyEnemiesLoading(true);
+      const { data: wars } = await supabase
+        .from("diplomacy_states")
+        .select("initiator_community_id, target_community_id")
+        .or(`initiator_community_id.eq.${communityId},target_community_id.eq.${communityId}`)
+        .in("status", lawType === "PROPOSE_PEACE" ? ["war", "ceasefire"] : ["war"]);
+
+      const enemyIds = (wars ?? []).map((war: { initiator_community_id: string; target_community_id: string }) =>
+        war.initiator_community_id === communityId ? war.target_community_id : war.initiator_community_id
+      );
+      const { data: enemies } = enemyIds.length > 0
+        ? await supabase.from("communities").select("id, name").in("id", enemyIds)
+        : { data: [] };
+
+      if (!cancelled) {
+        setTreatyEnemies(enemies ?? []);
+        setTreatyEnemiesLoading(false);
+      }
+    };
+
+    void loadEnemies();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, lawType, proposalId, selectedProposalId, communityId, supabase]);
+
+  // Load the regions either side could cede in a peace treaty (capitals excluded)
+  useEffect(() => {
+    if (lawType !== "PROPOSE_PEACE" || !selectedTreatyTarget) return;
+
+    let cancelled = false;
+    const partyIds = [communityId, selectedTreatyTarget.id];
+
+    Promise.all([
+      supabase
+        .from("world_regions")
+        .select("hex_id, owner_community_id")
+        .in("owner_community_id", partyIds)
+        .order("hex_id")
+        .limit(200),
+      supabase.from("communities").select("capital_hex_id").in("id", partyIds),
+    ])
+      .then(([{ data: regions }, { data: parties }]) => {
+        if (cancelled) return;
+        const capitals = new Set((parties ?? []).map((party: { capital_hex_id: string | null }) => party.capital_hex_id));
+        setTreatyRegions(
+          ((regions ?? []) as Array<{ hex_id: string; owner_community_id: string }>).filter(
+            (region) => !capitals.has(region.hex_id)
+          )
+        );
+      })
+      .catch((error) => console.error("Failed to load regions for treaty:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lawType, selectedTreatyTarget, communityId, supabase]);
+
+  // Load the regions this community could cede or sell (the capital stays)
+  useEffect(() => {
+    if (!isOpen || proposalId || selectedProposalId) return;
+    if (lawType !== "TRANSFER_REGION") return;
+
+    let cancelled = false;
+
+    const loadTransferRegions = async () => {
+      setTransferRegionsLoading(true);
+      const [{ data: regions }, { data: community }] = await Promise.all([
+        supabase
+          .from("world_regions")
+          .select("hex_id, custom_name, province_name")
+          .eq("owner_community_id", communityId)
+          .order("hex_id")
+          .limit(200),
+        supabase.from("communities").select("capital_hex_id").eq("id", communityId).maybeSingle(),
+      ]);
+
+      if (!cancelled) {
+        setTransferRegions(
+          ((regions ?? []) as Array<{ hex_id: string; custom_name: string | null; province_name: string | null }>)
+            .filter((region) => region.hex_id !== community?.capital_hex_id)
+            .map((region) => ({
+              hex_id: region.hex_id,
+              name: region.custom_name || region.province_name || region.hex_id,
+            }))
+        );
+        setTransferRegionsLoading(false);
+      }
+    };
+
+    void loadTransferRegions();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, lawType, proposalId, selectedProposalId, communityId, supabase]);
+
+  const toggleCededRegion = (hexId: string) => {
+    setCededHexIds((current) =>
+      current.includes(hexId)
+        ? current.filter((id) => id !== hexId)
+        : current.length < MAX_CEDED_REGIONS
+          ? [...current, hexId]
+          : current
+    );
+  };
+
+  const handleSelectEnactedLaw = (law: EnactedLawRow) => {
+    setSelectedEnactedLaw(law);
+    // Pre-fill amendment inputs with the law's current terms
+    const initialValues: Record<string, number> = {};
+    for (const field of getAmendableFields(law.law_type)) {
+      const current = law.metadata?.[field];
+      if (typeof current === "number") {
+        initialValues[field] = AMENDABLE_FIELD_INPUTS[field]?.isPercent ? Math.round(current * 100) : current;
+      }
+    }
+    setAmendmentValues(initialValues);
+  };
+
+  const amendmentChanges = useMemo(() => {
+    if (!selectedEnactedLaw) return {};
+    const changes: Record<string, number> = {};
+    for (const [field, displayValue] of Object.entries(amendmentValues)) {
+      const value = AMENDABLE_FIELD_INPUTS[field]?.isPercent ? displayValue / 100 : displayValue;
+      if (value !== selectedEnactedLaw.metadata?.[field]) {
+        changes[field] = value;
+      }
+    }
+    return changes;
+  }, [amendmentValues, selectedEnactedLaw]);
+
   const handleProposeLaw = async () => {
     if (!lawType) return;
 
@@ -394,6 +821,14 @@ export function LawProposalDrawer({
       metadata = {
         target_community_id: selectedWarTarget.id,
       };
+    } else if (isRankedBallot && (lawType === "PROPOSE_HEIR" || lawType === "CHANGE_GOVERNANCE")) {
+      if (rankedOptions.length < 2) {
+        setError("Add at least two options for a ranked vote");
+        return;
+      }
+      metadata = {
+        options: rankedOptions.map((option) => option.id),
+      };
     } else if (lawType === "PROPOSE_HEIR") {
       if (!selectedHeir) {
         setError("Please select an heir");
@@ -448,6 +883,53 @@ export function LawProposalDrawer({
         gold_amount: goldAmount,
         conversion_rate: conversionRate,
       };
+    } else if (lawType === "MONETARY_POLICY") {
+      if (policyRatePercent < 0 || policyRatePercent > MAX_POLICY_RATE * 100) {
+        setError(`Policy rate must be between 0% and ${MAX_POLICY_RATE * 100}%`);
+        return;
+      }
+      if (reserveRatioPercent < 0 || reserveRatioPercent > 100) {
+        setError("Reserve ratio must be between 0% and 100%");
+        return;
+      }
+      metadata = {
+        policy_rate: policyRatePercent / 100,
+        reserve_ratio: reserveRatioPercent / 100,
+      };
+    } else if (lawType === "OPEN_MARKET_OPERATION") {
+      if (omoGoldAmount <= 0 || omoGoldAmount > MAX_OPERATION_GOLD) {
+        setError(`Gold amount must be between 1 and ${MAX_OPERATION_GOLD.toLocaleString()}`);
+        return;
+      }
+      if (omoCurrencyAmount <= 0) {
+        setError("Currency amount must be greater than 0");
+        return;
+      }
+      metadata = {
+        operation: omoOperation,
+        gold_amount: omoGoldAmount,
+        currency_amount: omoCurrencyAmount,
+      };
+    } else if (lawType === "SPEND_TREASURY") {
+      if (!selectedSpendRecipient) {
+        setError("Please select a recipient");
+        return;
+      }
+      if (spendAmount <= 0 || spendAmount > MAX_TREASURY_PAYMENT) {
+        setError(`Amount must be between 1 and ${MAX_TREASURY_PAYMENT.toLocaleString()}`);
+        return;
+      }
+      if (!spendPurpose.trim()) {
+        setError("Please describe the purpose of the payment");
+        return;
+      }
+      metadata = {
+        recipient_id: selectedSpendRecipient.id,
+        amount: spendAmount,
+        currency: spendCurrency,
+        purpose: spendPurpose.trim(),
+        ...(spendInterval ? { interval: spendInterval } : {}),
+      };
     } else if (lawType === "CFC_ALLIANCE") {
       if (!selectedAllianceTarget) {
         setError("Please select a community to ally with");
@@ -456,6 +938,82 @@ export function LawProposalDrawer({
       metadata = {
         target_community_id: selectedAllianceTarget.id,
       };
+    } else if (lawType === "EMBARGO") {
+      if (!selectedEmbargoTarget) {
+        setError("Please select the community to embargo");
+        return;
+      }
+      metadata = {
+        target_community_id: selectedEmbargoTarget.id,
+        include_allies: embargoIncludeAllies,
+      };
+    } else if (lawType === "PROPOSE_PEACE" || lawType === "CEASEFIRE") {
+      if (!selectedTreatyTarget) {
+        setError("Please select the community to negotiate with");
+        return;
+      }
+      if (reparationsGold < 0 || reparationsGold > MAX_REPARATIONS) {
+        setError(`Reparations must be between 0 and ${MAX_REPARATIONS.toLocaleString()} gold`);
+        return;
+      }
+      metadata = {
+        target_community_id: selectedTreatyTarget.id,
+        // Reparations and cession are peace terms; a ceasefire only pauses the war
+        ...(lawType === "PROPOSE_PEACE" && reparationsGold > 0
+          ? {
+              reparations_gold: reparationsGold,
+              reparations_payer_id: reparationsPayer === "us" ? communityId : selectedTreatyTarget.id,
+            }
+          : {}),
+        ...(lawType === "PROPOSE_PEACE" && cededHexIds.length > 0 ? { ceded_hex_ids: cededHexIds } : {}),
+      };
+    } else if (lawType === "TRANSFER_REGION") {
+      if (!selectedTransferRegion) {
+        setError("Please select a region to transfer");
+        return;
+      }
+      if (!selectedTransferTarget) {
+        setError("Please select the community receiving the region");
+        return;
+      }
+      if (transferPrice < 0 || transferPrice > MAX_REGION_PRICE) {
+        setError(`Price must be between 0 and ${MAX_REGION_PRICE.toLocaleString()}`);
+        return;
+      }
+      metadata = {
+        target_community_id: selectedTransferTarget.id,
+        hex_id: selectedTransferRegion.hex_id,
+        price: transferPrice,
+        currency: transferCurrency,
+      };
+    } else if (lawType === "REPEAL_LAW") {
+      if (!selectedEnactedLaw) {
+        setError("Please select a law to repeal");
+        return;
+      }
+      metadata = {
+        target_proposal_id: selectedEnactedLaw.id,
+      };
+    } else if (lawType === "AMEND_LAW") {
+      if (!selectedEnactedLaw) {
+        setError("Please select a law to amend");
+        return;
+      }
+      if (Object.keys(amendmentChanges).length === 0) {
+        setError("Change at least one term of the law");
+        return;
+      }
+      metadata = {
+        target_proposal_id: selectedEnactedLaw.id,
+        amendments: amendmentChanges,
+      };
+    }
+
+    const durationRules = LAW_REGISTRY[lawType]?.duration;
+    const duration = lawDuration || (durationRules?.required ? durationRules.options[0] : "");
+    // Only recurring treasury payments can lapse
+    if (durationRules && duration && (lawType !== "SPEND_TREASURY" || spendInterval)) {
+      metadata.duration = duration;
     }
 
     setIsLoading(true);
@@ -491,7 +1049,7 @@ export function LawProposalDrawer({
     onProposalCreated?.(successProposalId);
   }, [successProposalId, onOpenChange, onProposalCreated]);
 
-  const handleVote = async (vote: "yes" | "no") => {
+  const handleVote = async (vote: "yes" | "no" | "ranked") => {
     const idToVoteOn = selectedProposalId || proposalId;
     if (!idToVoteOn) return;
 
@@ -499,12 +1057,12 @@ export function LawProposalDrawer({
     setError(null);
 
     try {
-      await voteOnProposalAction(idToVoteOn, vote);
+      await voteOnProposalAction(idToVoteOn, vote, vote === "ranked" ? ballotRanking : undefined);
       setHasVoted(true);
-      setCurrentVote(vote);
+      setCurrentVote(vote === "ranked" ? null : vote);
       setVoteInProgress(null); // Clear loading state immediately after vote
       await loadProposal(true); // Force reload after voting to get updated vote counts
-      showGovernanceToast(`Vote Recorded: ${vote.toUpperCase()}`, "success");
+      showGovernanceToast(vote === "ranked" ? "Ranking Recorded" : `Vote Recorded: ${vote.toUpperCase()}`, "success");
       onProposalCreated?.();
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : "Failed to vote";
@@ -514,6 +1072,27 @@ export function LawProposalDrawer({
     }
   };
 
+  const moveRankedOption = (index: number, direction: -1 | 1) => {
+    setBallotRanking((current) => {
+      const target = index + direction;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const toggleRankedOption = (option: { id: string; label: string }) => {
+    const maxOptions = lawType ? LAW_REGISTRY[lawType]?.rankedChoice?.maxOptions ?? 0 : 0;
+    setRankedOptions((current) => {
+      if (current.some((o) => o.id === option.id)) {
+        return current.filter((o) => o.id !== option.id);
+      }
+      if (current.length >= maxOptions) return current;
+      return [...current, option];
+    });
+  };
+
   const resetState = () => {
     setError(null);
     setWarTargetSearch("");
@@ -523,6 +1102,9 @@ export function LawProposalDrawer({
     setHeirCandidates([]);
     setSelectedHeir(null);
     setSelectedGovernanceType("democracy");
+    setIsRankedBallot(false);
+    setRankedOptions([]);
+    setBallotRanking([]);
     setProposalData(null);
     setHasVoted(false);
     setMotdTitle("");
@@ -533,9 +1115,42 @@ export function LawProposalDrawer({
     setVoteInProgress(null);
     setWorkTaxRate(0);
     setImportTariffRate(0);
+    setPolicyRatePercent(0);
+    setReserveRatioPercent(0);
+    setOmoOperation("buy");
+    setOmoGoldAmount(0);
+    setOmoCurrencyAmount(0);
+    setSpendRecipientSearch("");
+    setSpendRecipientCandidates([]);
+    setSelectedSpendRecipient(null);
+    setSpendAmount(0);
+    setSpendCurrency("gold");
+    setSpendPurpose("");
+    setSpendInterval("");
     setAllianceTargetSearch("");
     setAllianceTargets([]);
     setSelectedAllianceTarget(null);
+    setEmbargoTargetSearch("");
+    setEmbargoTargets([]);
+    setSelectedEmbargoTarget(null);
+    setEmbargoIncludeAllies(false);
+    setTreatyEnemies([]);
+    setSelectedTreatyTarget(null);
+    setReparationsGold(0);
+    setReparationsPayer("them");
+    setTreatyRegions([]);
+    setCededHexIds([]);
+    setTransferRegions([]);
+    setSelectedTransferRegion(null);
+    setTransferTargetSearch("");
+    setTransferTargets([]);
+    setSelectedTransferTarget(null);
+    setTransferPrice(0);
+    setTransferCurrency("gold");
+    setEnactedLaws([]);
+    setSelectedEnactedLaw(null);
+    setAmendmentValues({});
+    setLawDuration("");
     setSelectedProposalId(null);
   };
 
@@ -564,6 +1179,15 @@ export function LawProposalDrawer({
   const noVoters = voteRows.filter((row) => row.vote === "no");
   const getVoterLabel = (row: ProposalVoteRow) =>
     row.user?.username ?? row.user_id ?? "Unknown Member";
+  const proposalOptions = proposalData
+    ? getProposalOptions(proposalData.law_type as LawType, proposalData.metadata)
+    : null;
+  const optionLabels = (proposalData?.metadata?.option_labels ?? {}) as Record<string, string>;
+  const getOptionLabel = (option: string) => optionLabels[option] ?? option;
+  const canRankOptions =
+    !!proposalOptions && proposalData?.status === "pending" && voteAccessAllowed && !hasVoted;
+  const supportsRankedBallot =
+    !!lawType && !!LAW_REGISTRY[lawType]?.rankedChoice && rules?.timeToPass !== "0h";
 
   // Get color scheme for this law type
   const colors = currentLawType ? getLawColorScheme(currentLawType) : null;
@@ -659,14 +1283,33 @@ export function LawProposalDrawer({
                     Passes When
                   </p>
                   <p className="text-sm font-semibold text-foreground mt-2 capitalize">
-                    {rules?.passingCondition === "sovereign_only"
+                    {proposalOptions || isRankedBallot
+                      ? rules?.passingCondition === "sovereign_only"
+                        ? "Sovereign Ranks The Options"
+                        : "Ranked Choice"
+                      : rules?.passingCondition === "sovereign_only"
                       ? "Sovereign Decrees"
                       : rules?.passingCondition === "majority_vote"
                       ? "Majority Votes Yes"
                       : rules?.passingCondition === "supermajority_vote"
                       ? "2/3 Vote Yes"
+                      : rules?.passingCondition === "council_weighted"
+                      ? "Council-Weighted Majority"
                       : "Unanimous Consent"}
                   </p>
+                  {rules?.voteWeights && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {Object.entries(rules.voteWeights)
+                        .filter(([rank]) => rules.voteAccessRanks.includes(Number(rank)))
+                        .map(([rank, weight]) => `${getRankLabel(governanceType, Number(rank))}: ${weight}×`)
+                        .join(" • ")}
+                    </p>
+                  )}
+                  {rules?.quorum && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Quorum: {Math.round(rules.quorum * 100)}% of eligible voters must vote
+                    </p>
+                  )}
                 </div>
 
                 {rules?.canFastTrack && (
@@ -763,6 +1406,67 @@ export function LawProposalDrawer({
                   </div>
                 ) : null}
 
+                {proposalData?.law_type === "EMBARGO" && proposalData?.metadata?.target_community_name ? (
+                  <div className="border-t border-border/30 pt-3">
+                    <p className="text-xs font-semibold uppercase text-muted-foreground">Embargo On</p>
+                    <p className="text-sm font-medium text-foreground mt-1">{String(proposalData.metadata.target_community_name)}</p>
+                    <p className="text-xs text-muted-foreground mt-2 p-2 bg-muted/30 border border-border/40 rounded">
+                      Blocks product purchases, currency exchange and job applications between members of the two communities
+                      {proposalData.metadata.include_allies ? ", and between our allies and the target" : ""}.
+                    </p>
+                  </div>
+                ) : null}
+
+                {(proposalData?.law_type === "PROPOSE_PEACE" || proposalData?.law_type === "CEASEFIRE") && proposalData?.metadata?.target_community_name ? (
+                  <div className="border-t border-border/30 pt-3 space-y-3">
+                    <div>
+                      <p className="text-xs font-semibold uppercase text-muted-foreground">
+                        {proposalData.law_type === "PROPOSE_PEACE" ? "Peace With" : "Ceasefire With"}
+                      </p>
+                      <p className="text-sm font-medium text-foreground mt-1">{String(proposalData.metadata.target_community_name)}</p>
+                      <p className="text-xs text-muted-foreground mt-1.5">Both governments must accept the terms</p>
+                    </div>
+                    <div>
+                      <p className="text-xs font-semibold uppercase text-muted-foreground">Terms</p>
+                      <p className="text-sm text-foreground mt-1">{describeTreatyTerms(proposalData.metadata)}</p>
+                      {Array.isArray(proposalData.metadata.ceded_hex_ids) && proposalData.metadata.ceded_hex_ids.length > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Ceded regions: {(proposalData.metadata.ceded_hex_ids as string[]).join(", ")}
+                        </p>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-2 p-2 bg-muted/30 border border-border/40 rounded">
+                      {proposalData.law_type === "PROPOSE_PEACE"
+                        ? `Ends the war${proposalData.metadata.duration ? ` for at least ${String(proposalData.metadata.duration)}` : ""}. No battles can be started between the two communities while the treaty holds.`
+                        : `Pauses the war for ${String(proposalData.metadata.duration ?? "its term")}. Hostilities resume when the ceasefire ends.`}
+                    </p>
+                  </div>
+                ) : null}
+
+                {proposalData?.law_type === "TRANSFER_REGION" && proposalData?.metadata?.target_community_name ? (
+                  <div className="border-t border-border/30 pt-3 space-y-3">
+                    <div>
+                      <p className="text-xs font-semibold uppercase text-muted-foreground">Region</p>
+                      <p className="text-sm font-medium text-foreground mt-1">
+                        {String(proposalData.metadata.region_name ?? proposalData.metadata.hex_id)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs font-semibold uppercase text-muted-foreground">Terms</p>
+                      <p className="text-sm text-foreground mt-1">{describeRegionTransfer(proposalData.metadata)}</p>
+                      <p className="text-xs text-muted-foreground mt-1.5">
+                        {String(proposalData.metadata.seller_community_name ?? "The offering community")} gives up the region;{" "}
+                        {String(proposalData.metadata.target_community_name)} must accept
+                      </p>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-2 p-2 bg-muted/30 border border-border/40 rounded">
+                      {typeof proposalData.metadata.price === "number" && proposalData.metadata.price > 0
+                        ? "The price is paid from the buyer's treasury to the seller's when the law passes. The transfer fails if the buyer can no longer pay or the region changed hands."
+                        : "The region is ceded without payment when the law passes."}
+                    </p>
+                  </div>
+                ) : null}
+
                 {proposalData?.law_type === "WORK_TAX" && proposalData?.metadata?.tax_rate !== undefined ? (
                   <div className="border-t border-border/30 pt-3">
                     <p className="text-xs font-semibold uppercase text-muted-foreground">Proposed Tax Rate</p>
@@ -813,6 +1517,122 @@ export function LawProposalDrawer({
                   </div>
                 ) : null}
 
+                {proposalData?.law_type === "MONETARY_POLICY" && typeof proposalData?.metadata?.policy_rate === "number" ? (
+                  <div className="border-t border-border/30 pt-3 space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <p className="text-xs font-semibold uppercase text-muted-foreground">Policy Rate</p>
+                        <p className="text-lg font-bold text-foreground mt-1">
+                          {formatPercent(proposalData.metadata.policy_rate)}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-xs font-semibold uppercase text-muted-foreground">Reserve Ratio</p>
+                        <p className="text-lg font-bold text-foreground mt-1">
+                          {formatPercent(Number(proposalData.metadata.reserve_ratio ?? 0))}
+                        </p>
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Savers earn the policy rate a year, paid daily in newly minted {String(proposalData.metadata.currency_symbol ?? "currency")}.
+                      Open-market purchases must leave the reserve ratio of circulating money covered by treasury gold.
+                    </p>
+                  </div>
+                ) : null}
+
+                {proposalData?.law_type === "OPEN_MARKET_OPERATION" && typeof proposalData?.metadata?.gold_amount === "number" ? (
+                  <div className="border-t border-border/30 pt-3 space-y-3">
+                    <div>
+                      <p className="text-xs font-semibold uppercase text-muted-foreground">Operation</p>
+                      <p className="text-lg font-bold text-foreground mt-1">
+                        {describeOpenMarketOperation(proposalData.metadata)}
+                      </p>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {proposalData.metadata.operation === "sell"
+                        ? "Treasury currency is listed on the exchange for gold, expanding the money in circulation."
+                        : "Treasury gold is offered on the exchange for the currency, shrinking the money in circulation."}{" "}
+                      Repealing the law cancels whatever has not been filled.
+                    </p>
+                  </div>
+                ) : null}
+
+                {proposalData?.law_type === "SPEND_TREASURY" && typeof proposalData?.metadata?.amount === "number" ? (
+                  <div className="border-t border-border/30 pt-3 space-y-3">
+                    <div>
+                      <p className="text-xs font-semibold uppercase text-muted-foreground">Recipient</p>
+                      <p className="text-lg font-bold text-foreground mt-1">
+                        {String(proposalData.metadata.recipient_username ?? "Unknown")}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs font-semibold uppercase text-muted-foreground">Payment</p>
+                      <p className="text-lg font-bold text-foreground mt-1 flex items-center gap-1.5">
+                        {proposalData.metadata.currency === "community" ? (
+                          <CommunityCoinIcon className="h-4 w-4" />
+                        ) : (
+                          <GoldCoinIcon className="h-4 w-4" />
+                        )}
+                        {(proposalData.metadata.amount as number).toLocaleString()}
+                        <span className="text-sm font-medium text-muted-foreground">
+                          {describePaymentSchedule(proposalData.metadata.interval)}
+                        </span>
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs font-semibold uppercase text-muted-foreground">Purpose</p>
+                      <p className="text-sm text-foreground mt-1">{String(proposalData.metadata.purpose ?? "")}</p>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-2 p-2 bg-muted/30 border border-border/40 rounded">
+                      {isRecurringPayment(proposalData.metadata)
+                        ? "Paid from the treasury on schedule until repealed or lapsed. Payments the treasury cannot cover are skipped."
+                        : "Paid from the treasury once, as soon as the law passes."}
+                    </p>
+                  </div>
+                ) : null}
+
+                {(proposalData?.law_type === "REPEAL_LAW" || proposalData?.law_type === "AMEND_LAW") && typeof proposalData?.metadata?.target_law_type === "string" ? (
+                  <div className="border-t border-border/30 pt-3 space-y-3">
+                    <div>
+                      <p className="text-xs font-semibold uppercase text-muted-foreground">
+                        {proposalData.law_type === "REPEAL_LAW" ? "Law to Repeal" : "Law to Amend"}
+                      </p>
+                      <p className="text-lg font-bold text-foreground mt-1">
+                        {LAW_REGISTRY[proposalData.metadata.target_law_type as LawType]?.label ?? proposalData.metadata.target_law_type}
+                      </p>
+                      {typeof proposalData.metadata.target_law_terms === "string" && proposalData.metadata.target_law_terms && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Currently: {proposalData.metadata.target_law_terms}
+                        </p>
+                      )}
+                    </div>
+                    {proposalData.law_type === "AMEND_LAW" && proposalData.metadata.amendments && typeof proposalData.metadata.amendments === "object" ? (
+                      <div className="space-y-1">
+                        <p className="text-xs font-semibold uppercase text-muted-foreground">Amendments</p>
+                        {Object.entries(proposalData.metadata.amendments as Record<string, unknown>).map(([field, value]) => {
+                          const previousValues = (proposalData.metadata.previous_values ?? {}) as Record<string, unknown>;
+                          return (
+                            <p key={field} className="text-sm text-foreground">
+                              {AMENDABLE_FIELD_INPUTS[field]?.label ?? field}:{" "}
+                              {field in previousValues && (
+                                <span className="text-muted-foreground line-through mr-1">
+                                  {formatAmendableValue(field, previousValues[field])}
+                                </span>
+                              )}
+                              <span className="font-semibold">{formatAmendableValue(field, value)}</span>
+                            </p>
+                          );
+                        })}
+                      </div>
+                    ) : null}
+                    {proposalData.law_type === "REPEAL_LAW" && (
+                      <p className="text-xs text-muted-foreground p-2 bg-amber-500/10 border border-amber-500/20 rounded">
+                        ⚠️ Repealing undoes the law&apos;s effects: rates reset to 0%, alliances dissolve, issued currency is burned and its gold restored
+                      </p>
+                    )}
+                  </div>
+                ) : null}
+
                 {proposalData?.law_type === "MESSAGE_OF_THE_DAY" && proposalData?.metadata?.title && proposalData?.metadata?.content ? (
                   <div className="border-t border-border/30 pt-3">
                     <p className="text-xs font-semibold uppercase text-muted-foreground">Announcement</p>
@@ -866,7 +1686,63 @@ export function LawProposalDrawer({
                   </div>
                 ) : null}
 
-                {proposalData.status === "pending" && proposalData.law_type !== "CFC_ALLIANCE" && (
+                {proposalOptions && (
+                  <div className="border-t border-border/30 pt-3 space-y-2">
+                    <p className="text-xs font-semibold uppercase text-muted-foreground">
+                      {canRankOptions ? "Rank The Options" : hasVoted ? "Your Ranking" : "Options"}
+                    </p>
+                    {canRankOptions && (
+                      <p className="text-xs text-muted-foreground">
+                        Order the options from most to least preferred. If your first choice is eliminated, your vote moves to your next choice.
+                      </p>
+                    )}
+                    <div className="space-y-1.5">
+                      {(ballotRanking.length > 0 ? ballotRanking : proposalOptions).map((option, index, ordered) => (
+                        <div
+                          key={option}
+                          className={cn(
+                            "flex items-center gap-3 p-2.5 rounded-lg border text-sm",
+                            proposalData.metadata?.ranked_choice_winner === option
+                              ? "border-emerald-500/40 bg-emerald-500/10"
+                              : "border-border/40 bg-card"
+                          )}
+                        >
+                          <span className="w-5 text-center text-xs font-bold text-muted-foreground tabular-nums">
+                            {index + 1}
+                          </span>
+                          <span className="flex-1 font-medium truncate capitalize">{getOptionLabel(option)}</span>
+                          {proposalData.metadata?.ranked_choice_winner === option && (
+                            <CheckCircle2 className="h-4 w-4 text-emerald-500 flex-shrink-0" />
+                          )}
+                          {canRankOptions && (
+                            <div className="flex items-center gap-1">
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon-sm"
+                                onClick={() => moveRankedOption(index, -1)}
+                                disabled={index === 0 || voteInProgress !== null}
+                              >
+                                <ChevronUp className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon-sm"
+                                onClick={() => moveRankedOption(index, 1)}
+                                disabled={index === ordered.length - 1 || voteInProgress !== null}
+                              >
+                                <ChevronDown className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {proposalData.status === "pending" && !isBilateralLaw(proposalData.law_type as LawType) && !proposalOptions && (
                   <div className="space-y-2 border-t border-border/30 pt-3">
                     <div className="flex justify-between text-sm">
                       <span className="text-muted-foreground">Votes</span>
@@ -883,8 +1759,8 @@ export function LawProposalDrawer({
                   </div>
                 )}
 
-                {/* Dual table for CFC Alliance votes */}
-                {proposalData.law_type === "CFC_ALLIANCE" && !!proposalData.metadata?.target_community_id && (
+                {/* Dual table for bilateral law votes (alliances, treaties) */}
+                {isBilateralLaw(proposalData.law_type as LawType) && !!proposalData.metadata?.target_community_id && (
                   <div className="space-y-3 border-t border-border/30 pt-4">
                     <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
                       Mutual Approval Required - Both Communities Must Vote Yes
@@ -985,8 +1861,8 @@ export function LawProposalDrawer({
                   </div>
                 )}
 
-                {/* Regular vote display for non-CFC laws */}
-                {proposalData.law_type !== "CFC_ALLIANCE" && (
+                {/* Regular vote display for one-sided yes/no laws */}
+                {!isBilateralLaw(proposalData.law_type as LawType) && !proposalOptions && (
                   <div className="grid sm:grid-cols-2 gap-4 border-t border-border/30 pt-4">
                   <div className="space-y-2">
                     <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
@@ -1031,13 +1907,81 @@ export function LawProposalDrawer({
                 </div>
                 )}
 
-                {proposalData.status === "passed" && (
+                {proposalData.delegatedVotes && proposalData.delegatedVotes.length > 0 && (
+                  <div className="border-t border-border/30 pt-3 space-y-2">
+                    <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                      Delegated Votes
+                    </p>
+                    <div className="space-y-1 max-h-32 overflow-y-auto pr-1">
+                      {proposalData.delegatedVotes.map((delegated) => (
+                        <div
+                          key={`delegated-${delegated.delegator_id}`}
+                          className="flex items-center gap-2 text-xs text-foreground"
+                        >
+                          {delegated.vote === "yes" ? (
+                            <CheckCircle2 className="h-3.5 w-3.5 text-emerald-500 flex-shrink-0" />
+                          ) : delegated.vote === "no" ? (
+                            <XCircle className="h-3.5 w-3.5 text-destructive flex-shrink-0" />
+                          ) : (
+                            <ListOrdered className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+                          )}
+                          <span className="truncate">
+                            <span className="font-semibold">{delegated.voter_username}</span>
+                            {" voted for "}
+                            <span className="font-semibold">{delegated.delegator_username}</span>
+                            {delegated.via_usernames.length > 0 && (
+                              <span className="text-muted-foreground"> (via {delegated.via_usernames.join(" → ")})</span>
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {proposalData.tally && (
+                  <div className="border-t border-border/30 pt-3 space-y-1">
+                    <p className="text-xs font-semibold uppercase text-muted-foreground flex items-center gap-1.5">
+                      <ListOrdered className="h-3.5 w-3.5" />
+                      How The Tally Works
+                    </p>
+                    {proposalData.tally.explanation.map((line, idx) => (
+                      <p key={`tally-${idx}`} className="text-xs text-muted-foreground leading-relaxed">
+                        {line}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {proposalData.status === "passed" && (
                   <div className="flex items-center gap-2 text-green-600 dark:text-green-400 border-t border-border/30 pt-3">
                     <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
                     <p className="text-sm font-semibold">Proposal passed and executed</p>
                   </div>
                 )}
 
+                {proposalData.status === "passed" && !proposalData.repealed_at && (proposalData.lapsed_at || proposalData.lapses_at) && (
+                  <div className="flex items-center gap-2 text-muted-foreground text-xs">
+                    <Clock className="h-3.5 w-3.5 flex-shrink-0" />
+                    <p>
+                      {proposalData.lapsed_at
+                        ? `Lapsed on ${new Date(proposalData.lapsed_at).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}`
+                        : `Lapses on ${new Date(proposalData.lapses_at as string).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}`}
+                    </p>
+                  </div>
+                )}
+
+                {proposalData.status === "passed" && (proposalData.repealed_at || proposalData.amended_at) && (
+                  <div className="flex items-center gap-2 text-muted-foreground text-xs">
+                    <Gavel className="h-3.5 w-3.5 flex-shrink-0" />
+                    <p>
+                      {proposalData.repealed_at
+                        ? `Repealed on ${new Date(proposalData.repealed_at).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}`
+                        : `Amended on ${new Date(proposalData.amended_at as string).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" })}`}
+                    </p>
+                  </div>
+                )}
+
                 {proposalData.status === "rejected" && (
                   <div className="flex items-center gap-2 text-red-600 dark:text-red-400 border-t border-border/30 pt-3">
                     <XCircle className="h-4 w-4 flex-shrink-0" />
@@ -1104,9 +2048,27 @@ export function LawProposalDrawer({
             {/* PROPOSE_HEIR - Select heir */}
             {!proposalId && !selectedProposalId && lawType === "PROPOSE_HEIR" && colors && (
               <div className={cn("space-y-3 p-4 rounded-lg border", colors.bgLight, colors.borderLight)}>
-                <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
-                  Select Heir
-                </p>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                    {isRankedBallot ? "Heir Candidates" : "Select Heir"}
+                  </p>
+                  {supportsRankedBallot && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="text-xs gap-1.5"
+                      onClick={() => {
+                        setIsRankedBallot((current) => !current);
+                        setRankedOptions([]);
+                      }}
+                      disabled={isLoading}
+                    >
+                      <ListOrdered className="h-3.5 w-3.5" />
+                      {isRankedBallot ? "Single Heir" : "Ranked Vote"}
+                    </Button>
+                  )}
+                </div>
                 <Input
                   placeholder="Search for a community member..."
                   value={heirSearch}
@@ -1129,13 +2091,19 @@ export function LawProposalDrawer({
                         key={candidate.id}
                         type="button"
                         onClick={() => {
-                          setSelectedHeir(candidate);
+                          if (isRankedBallot) {
+                            toggleRankedOption({ id: candidate.id, label: candidate.username });
+                          } else {
+                            setSelectedHeir(candidate);
+                          }
                           setHeirSearch("");
                           setHeirCandidates([]);
                         }}
                         className={cn(
                           "w-full text-left p-3 rounded-lg border transition-all",
-                          selectedHeir?.id === candidate.id
+                          (isRankedBallot
+                            ? rankedOptions.some((option) => option.id === candidate.id)
+                            : selectedHeir?.id === candidate.id)
                             ? cn(colors.selectedBg, colors.selectedBorder)
                             : "border-border/40 hover:bg-accent/40"
                         )}
@@ -1146,7 +2114,18 @@ export function LawProposalDrawer({
                   </div>
                 )}
 
-                {selectedHeir && (
+                {isRankedBallot && (
+                  <div className={cn("p-3 rounded-lg text-sm space-y-1 border", colors.bgMedium, colors.borderMedium, colors.textStrong)}>
+                    <p className="font-semibold">
+                      👑 Candidates: {rankedOptions.length > 0 ? rankedOptions.map((option) => option.label).join(", ") : "none yet"}
+                    </p>
+                    <p className="text-xs">
+                      Add up to {definition?.rankedChoice?.maxOptions} candidates. Members rank them and the heir is chosen by instant runoff.
+                    </p>
+                  </div>
+                )}
+
+                {!isRankedBallot && selectedHeir && (
                   <div className={cn("p-3 rounded-lg text-sm space-y-1 border", colors.bgMedium, colors.borderMedium, colors.textStrong)}>
                     <p className="font-semibold">👑 Heir: {selectedHeir.username}</p>
                     <p className="text-xs">Will succeed to the throne upon succession</p>
@@ -1158,18 +2137,42 @@ export function LawProposalDrawer({
             {/* CHANGE_GOVERNANCE - Select governance type */}
             {!proposalId && !selectedProposalId && lawType === "CHANGE_GOVERNANCE" && colors && (
               <div className={cn("space-y-3 p-4 rounded-lg border", colors.bgLight, colors.borderLight)}>
-                <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
-                  New Governance Type
-                </p>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                    {isRankedBallot ? "Governance Options" : "New Governance Type"}
+                  </p>
+                  {supportsRankedBallot && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="text-xs gap-1.5"
+                      onClick={() => {
+                        setIsRankedBallot((current) => !current);
+                        setRankedOptions([]);
+                      }}
+                      disabled={isLoading}
+                    >
+                      <ListOrdered className="h-3.5 w-3.5" />
+                      {isRankedBallot ? "Single Option" : "Ranked Vote"}
+                    </Button>
+                  )}
+                </div>
                 <div className="space-y-2">
-                  {["monarchy", "democracy"].map((type) => (
+                  {["monarchy", "democracy", "republic"].map((type) => (
                     <button
                       key={type}
                       type="button"
-                      onClick={() => setSelectedGovernanceType(type)}
+                      onClick={() =>
+                        isRankedBallot
+                          ? toggleRankedOption({ id: type, label: type })
+                          : setSelectedGovernanceType(type)
+                      }
                       className={cn(
                         "w-full text-left p-3 rounded-lg border transition-all capitalize font-medium",
-                        selectedGovernanceType === type
+                        (isRankedBallot
+                          ? rankedOptions.some((option) => option.id === type)
+                          : selectedGovernanceType === type)
                           ? cn(colors.selectedBg, colors.selectedBorder, colors.selectedText)
                           : "border-border/40 hover:bg-accent/40"
                       )}
@@ -1178,7 +2181,17 @@ export function LawProposalDrawer({
                     </button>
                   ))}
                 </div>
-                {selectedGovernanceType && (
+                {isRankedBallot && (
+                  <div className={cn("p-3 rounded-lg text-sm space-y-1 border", colors.bgMedium, colors.borderMedium, colors.textStrong)}>
+                    <p className="font-semibold capitalize">
+                      ⚙️ Options: {rankedOptions.length > 0 ? rankedOptions.map((option) => option.label).join(", ") : "none yet"}
+                    </p>
+                    <p className="text-xs">
+                      Members rank the selected systems. The weakest is eliminated each round until one holds a majority.
+                    </p>
+                  </div>
+                )}
+                {!isRankedBallot && selectedGovernanceType && (
                   <div className={cn("p-3 rounded-lg text-sm space-y-1 border", colors.bgMedium, colors.borderMedium, colors.textStrong)}>
                     <p className="font-semibold">
                       ⚙️ Governance: {selectedGovernanceType}
@@ -1186,6 +2199,8 @@ export function LawProposalDrawer({
                     <p className="text-xs">
                       {selectedGovernanceType === "monarchy"
                         ? "One sovereign rules, advisors vote on laws"
+                        : selectedGovernanceType === "republic"
+                        ? "Citizens elect a council whose votes carry extra weight"
                         : "All members vote on major decisions"}
                     </p>
                   </div>
@@ -1409,6 +2424,147 @@ export function LawProposalDrawer({
               </div>
             )}
 
+            {/* MONETARY_POLICY - Set the central bank's policy rate and reserve ratio */}
+            {!proposalId && !selectedProposalId && lawType === "MONETARY_POLICY" && colors && (
+              <div className={cn("space-y-4 p-4 rounded-lg border", colors.bgLight, colors.borderLight)}>
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                      Policy Rate
+                    </p>
+                    <span className="text-2xl font-bold text-foreground">{policyRatePercent}%</span>
+                  </div>
+                  <Input
+                    type="range"
+                    min="0"
+                    max={MAX_POLICY_RATE * 100}
+                    step="0.5"
+                    value={policyRatePercent}
+                    onChange={(e) => setPolicyRatePercent(Number(e.target.value))}
+                    className="w-full"
+                    disabled={isLoading}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Annual interest paid on savings deposits, minted daily
+                  </p>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                      Reserve Ratio
+                    </p>
+                    <span className="text-2xl font-bold text-foreground">{reserveRatioPercent}%</span>
+                  </div>
+                  <Input
+                    type="range"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={reserveRatioPercent}
+                    onChange={(e) => setReserveRatioPercent(Number(e.target.value))}
+                    className="w-full"
+                    disabled={isLoading}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Share of circulating money, valued in gold, the treasury must keep in gold reserves
+                  </p>
+                </div>
+
+                <div className={cn("p-3 rounded-lg text-sm space-y-2 border", colors.bgMedium, colors.borderMedium)}>
+                  <p className="font-semibold flex items-center gap-2">
+                    <Megaphone className="h-4 w-4" />
+                    Policy Impact
+                  </p>
+                  <div className="space-y-1 text-xs text-muted-foreground">
+                    <p>
+                      • <span className="font-semibold text-foreground">1,000 coins</span> saved for a year earn about{" "}
+                      <span className="font-semibold text-foreground">{(1000 * policyRatePercent / 100).toFixed(0)} coins</span>
+                    </p>
+                    <p>
+                      • Interest is newly minted money: higher rates reward saving but grow the money supply
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* OPEN_MARKET_OPERATION - Treasury trades its currency against gold */}
+            {!proposalId && !selectedProposalId && lawType === "OPEN_MARKET_OPERATION" && colors && (
+              <div className={cn("space-y-4 p-4 rounded-lg border", colors.bgLight, colors.borderLight)}>
+                <div className="space-y-2">
+                  <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">Operation</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(["buy", "sell"] as const).map((operation) => (
+                      <Button
+                        key={operation}
+                        type="button"
+                        variant={omoOperation === operation ? "default" : "outline"}
+                        onClick={() => setOmoOperation(operation)}
+                        disabled={isLoading}
+                      >
+                        {operation === "buy" ? "Buy Currency" : "Sell Currency"}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <p className="text-xs font-semibold uppercase text-muted-foreground flex items-center gap-1">
+                      <GoldCoinIcon className="h-3 w-3" />
+                      Gold
+                    </p>
+                    <Input
+                      type="number"
+                      min="1"
+                      max={MAX_OPERATION_GOLD}
+                      value={omoGoldAmount || ""}
+                      onChange={(e) => setOmoGoldAmount(Number(e.target.value))}
+                      disabled={isLoading}
+                      placeholder="0"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <p className="text-xs font-semibold uppercase text-muted-foreground">Currency</p>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={omoCurrencyAmount || ""}
+                      onChange={(e) => setOmoCurrencyAmount(Number(e.target.value))}
+                      disabled={isLoading}
+                      placeholder="0"
+                    />
+                  </div>
+                </div>
+
+                <div className={cn("p-3 rounded-lg text-sm space-y-2 border", colors.bgMedium, colors.borderMedium)}>
+                  <p className="font-semibold flex items-center gap-2">
+                    <Megaphone className="h-4 w-4" />
+                    Order Details
+                  </p>
+                  <div className="space-y-1 text-xs text-muted-foreground">
+                    <p>
+                      • Price:{" "}
+                      <span className="font-semibold text-foreground">
+                        {omoGoldAmount > 0 && omoCurrencyAmount > 0
+                          ? `${(omoGoldAmount / omoCurrencyAmount).toFixed(4)} gold per coin`
+                          : "—"}
+                      </span>
+                    </p>
+                    <p>
+                      • {omoOperation === "buy"
+                        ? "Treasury gold is locked and offered for the currency, shrinking the money supply"
+                        : "Treasury currency is locked and offered for gold, expanding the money supply"}
+                    </p>
+                    <p className="mt-2 text-amber-600 dark:text-amber-400">
+                      Purchases must respect the reserve ratio set by monetary policy
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* ISSUE_CURRENCY - Convert gold to community currency */}
             {!proposalId && !selectedProposalId && lawType === "ISSUE_CURRENCY" && colors && (
               <div className={cn("space-y-4 p-4 rounded-lg border", colors.bgLight, colors.borderLight)}>
@@ -1504,6 +2660,147 @@ export function LawProposalDrawer({
               </div>
             )}
 
+            {/* SPEND_TREASURY - Grant, bounty or recurring salary from community funds */}
+            {!proposalId && !selectedProposalId && lawType === "SPEND_TREASURY" && colors && (
+              <div className={cn("space-y-4 p-4 rounded-lg border", colors.bgLight, colors.borderLight)}>
+                <div className="space-y-3">
+                  <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                    Recipient
+                  </p>
+                  <Input
+                    placeholder="Search for a player..."
+                    value={spendRecipientSearch}
+                    onChange={(e) => handleSpendRecipientSearch(e.target.value)}
+                    className="h-11 rounded-lg bg-muted/30"
+                    disabled={isLoading}
+                    autoFocus
+                  />
+                  {spendRecipientCandidates.length > 0 && (
+                    <div className="space-y-2 max-h-48 overflow-y-auto">
+                      {spendRecipientCandidates.map((candidate) => (
+                        <button
+                          key={candidate.id}
+                          type="button"
+                          onClick={() => {
+                            setSelectedSpendRecipient(candidate);
+                            setSpendRecipientSearch("");
+                            setSpendRecipientCandidates([]);
+                          }}
+                          className={cn(
+                            "w-full text-left p-3 rounded-lg border transition-all",
+                            selectedSpendRecipient?.id === candidate.id
+                              ? cn(colors.selectedBg, colors.selectedBorder)
+                              : "border-border/40 hover:bg-accent/40"
+                          )}
+                        >
+                          {candidate.username}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {selectedSpendRecipient && (
+                    <p className={cn("text-sm font-semibold", colors.textStrong)}>
+                      Paying: {selectedSpendRecipient.username}
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-3">
+                  <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                    Amount
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(["gold", "community"] as const).map((currency) => (
+                      <button
+                        key={currency}
+                        type="button"
+                        onClick={() => setSpendCurrency(currency)}
+                        disabled={isLoading}
+                        className={cn(
+                          "flex items-center gap-2 p-2 rounded-lg border transition-all text-sm font-medium",
+                          spendCurrency === currency
+                            ? cn(colors.selectedBg, colors.selectedBorder, colors.selectedText)
+                            : "border-border/40 hover:bg-accent/40"
+                        )}
+                      >
+                        {currency === "gold" ? <GoldCoinIcon className="h-4 w-4" /> : <CommunityCoinIcon className="h-4 w-4" />}
+                        {currency === "gold" ? "Gold" : "Community Currency"}
+                      </button>
+                    ))}
+                  </div>
+                  <Input
+                    type="number"
+                    min="1"
+                    max={MAX_TREASURY_PAYMENT}
+                    step="1"
+                    value={spendAmount}
+                    onChange={(e) => {
+                      const val = Number(e.target.value);
+                      if (val >= 0 && val <= MAX_TREASURY_PAYMENT) {
+                        setSpendAmount(val);
+                      }
+                    }}
+                    className="text-lg font-semibold text-center"
+                    disabled={isLoading}
+                    placeholder={`Enter amount (1-${MAX_TREASURY_PAYMENT.toLocaleString()})`}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                    Purpose
+                  </p>
+                  <Input
+                    placeholder="e.g. Bounty for defending the capital"
+                    value={spendPurpose}
+                    onChange={(e) => setSpendPurpose(e.target.value.slice(0, MAX_PAYMENT_PURPOSE_LENGTH))}
+                    className="h-11 rounded-lg bg-muted/30"
+                    disabled={isLoading}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                    Schedule
+                  </p>
+                  <div className="grid grid-cols-3 gap-2">
+                    {["", ...TREASURY_PAYMENT_INTERVALS].map((interval) => (
+                      <button
+                        key={interval || "once"}
+                        type="button"
+                        onClick={() => {
+                          setSpendInterval(interval);
+                          if (!interval) setLawDuration("");
+                        }}
+                        disabled={isLoading}
+                        className={cn(
+                          "p-2 rounded-lg border transition-all text-sm font-medium",
+                          spendInterval === interval
+                            ? cn(colors.selectedBg, colors.selectedBorder, colors.selectedText)
+                            : "border-border/40 hover:bg-accent/40"
+                        )}
+                      >
+                        {interval ? `Every ${interval}` : "Once"}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className={cn("p-3 rounded-lg text-sm space-y-1 border", colors.bgMedium, colors.borderMedium)}>
+                  <p className="font-semibold">Payment Preview</p>
+                  <p className="text-xs text-muted-foreground">
+                    • {spendAmount.toLocaleString()} {spendCurrency === "gold" ? "gold" : "community coins"} {describePaymentSchedule(spendInterval)} to{" "}
+                    <span className="font-semibold text-foreground">{selectedSpendRecipient?.username ?? "—"}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {spendInterval
+                      ? "• Salaries and stipends are paid until the law is repealed or lapses"
+                      : "• Paid once from the treasury when the law passes"}
+                  </p>
+                </div>
+              </div>
+            )}
+
             {/* CFC_ALLIANCE - Select community to ally with */}
             {!proposalId && !selectedProposalId && lawType === "CFC_ALLIANCE" && colors && (
               <div className={cn("space-y-3 p-4 rounded-lg border", colors.bgLight, colors.borderLight)}>
@@ -1564,6 +2861,475 @@ export function LawProposalDrawer({
               </div>
             )}
 
+            {/* EMBARGO - Select community to sanction */}
+            {!proposalId && !selectedProposalId && lawType === "EMBARGO" && colors && (
+              <div className={cn("space-y-3 p-4 rounded-lg border", colors.bgLight, colors.borderLight)}>
+                <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                  Select Community to Embargo
+                </p>
+                <Input
+                  placeholder="Search for a community..."
+                  value={embargoTargetSearch}
+                  onChange={(e) => handleEmbargoTargetSearch(e.target.value)}
+                  className="h-11 rounded-lg bg-muted/30"
+                  disabled={isLoading}
+                  autoFocus
+                />
+
+                {embargoTargets.length > 0 && (
+                  <div className="space-y-2 max-h-48 overflow-y-auto">
+                    {embargoTargets.map((target) => (
+                      <button
+                        key={target.id}
+                        type="button"
+                        onClick={() => {
+                          setSelectedEmbargoTarget(target);
+                          setEmbargoTargetSearch("");
+                          setEmbargoTargets([]);
+                        }}
+                        className={cn(
+                          "w-full text-left p-3 rounded-lg border transition-all",
+                          selectedEmbargoTarget?.id === target.id
+                            ? cn(colors.selectedBg, colors.selectedBorder)
+                            : "border-border/40 hover:bg-accent/40"
+                        )}
+                      >
+                        {target.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-2">
+                  {([false, true] as const).map((includeAllies) => (
+                    <button
+                      key={String(includeAllies)}
+                      type="button"
+                      onClick={() => setEmbargoIncludeAllies(includeAllies)}
+                      disabled={isLoading}
+                      className={cn(
+                        "text-left p-2 rounded-lg border transition-all text-sm font-medium",
+                        embargoIncludeAllies === includeAllies
+                          ? cn(colors.selectedBg, colors.selectedBorder, colors.selectedText)
+                          : "border-border/40 hover:bg-accent/40"
+                      )}
+                    >
+                      {includeAllies ? "With our allies" : "Our community only"}
+                    </button>
+                  ))}
+                </div>
+
+                {selectedEmbargoTarget && (
+                  <div className={cn("p-3 rounded-lg text-sm space-y-1 border", colors.bgMedium, colors.borderMedium, colors.textStrong)}>
+                    <p className="font-semibold">🚫 Trade embargo on {selectedEmbargoTarget.name}</p>
+                    <p className="text-xs">• No product purchases or job applications across the line</p>
+                    <p className="text-xs">• No currency exchange orders between members</p>
+                    {embargoIncludeAllies && (
+                      <p className="text-xs">• Members of our CFC allies are bound by the embargo too</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* PROPOSE_PEACE / CEASEFIRE - Select an enemy and the terms */}
+            {!proposalId && !selectedProposalId && (lawType === "PROPOSE_PEACE" || lawType === "CEASEFIRE") && colors && (
+              <div className={cn("space-y-3 p-4 rounded-lg border", colors.bgLight, colors.borderLight)}>
+                <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                  Select Enemy Community
+                </p>
+
+                {treatyEnemiesLoading ? (
+                  <div className="text-sm text-muted-foreground text-center py-3">
+                    Loading wars...
+                  </div>
+                ) : treatyEnemies.length === 0 ? (
+                  <div className="text-sm text-muted-foreground text-center py-3">
+                    {lawType === "PROPOSE_PEACE"
+                      ? "Your community is not at war with anyone."
+                      : "Your community has no active war to pause."}
+                  </div>
+                ) : (
+                  <div className="space-y-2 max-h-48 overflow-y-auto">
+                    {treatyEnemies.map((enemy) => (
+                      <button
+                        key={enemy.id}
+                        type="button"
+                        onClick={() => {
+                          setSelectedTreatyTarget(enemy);
+                          setTreatyRegions([]);
+                          setCededHexIds([]);
+                        }}
+                        className={cn(
+                          "w-full text-left p-3 rounded-lg border transition-all",
+                          selectedTreatyTarget?.id === enemy.id
+                            ? cn(colors.selectedBg, colors.selectedBorder)
+                            : "border-border/40 hover:bg-accent/40"
+                        )}
+                      >
+                        {enemy.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {lawType === "PROPOSE_PEACE" && selectedTreatyTarget && (
+                  <>
+                    <div className="space-y-1.5">
+                      <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                        Gold Reparations (optional)
+                      </p>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={MAX_REPARATIONS}
+                        step={1}
+                        value={reparationsGold}
+                        onChange={(e) => {
+                          const val = Number(e.target.value);
+                          if (val >= 0 && val <= MAX_REPARATIONS) {
+                            setReparationsGold(val);
+                          }
+                        }}
+                        className="text-lg font-semibold text-center"
+                        disabled={isLoading}
+                      />
+                      {reparationsGold > 0 && (
+                        <div className="grid grid-cols-2 gap-2">
+                          {(["them", "us"] as const).map((payer) => (
+                            <button
+                              key={payer}
+                              type="button"
+                              onClick={() => setReparationsPayer(payer)}
+                              disabled={isLoading}
+                              className={cn(
+                                "text-left p-2 rounded-lg border transition-all text-sm font-medium",
+                                reparationsPayer === payer
+                                  ? cn(colors.selectedBg, colors.selectedBorder, colors.selectedText)
+                                  : "border-border/40 hover:bg-accent/40"
+                              )}
+                            >
+                              {payer === "them" ? `${selectedTreatyTarget.name} pays` : "We pay"}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="space-y-1.5">
+                      <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                        Region Cession (optional, up to {MAX_CEDED_REGIONS})
+                      </p>
+                      {treatyRegions.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">Neither side holds regions that can be ceded.</p>
+                      ) : (
+                        <div className="flex flex-wrap gap-1.5 max-h-32 overflow-y-auto">
+                          {treatyRegions.map((region) => (
+                            <button
+                              key={region.hex_id}
+                              type="button"
+                              onClick={() => toggleCededRegion(region.hex_id)}
+                              disabled={isLoading}
+                              className={cn(
+                                "px-2 py-1 rounded-md border text-xs transition-all",
+                                cededHexIds.includes(region.hex_id)
+                                  ? cn(colors.selectedBg, colors.selectedBorder, colors.selectedText)
+                                  : "border-border/40 hover:bg-accent/40"
+                              )}
+                            >
+                              {region.hex_id} • {region.owner_community_id === communityId ? "ours" : "theirs"}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        Each selected region passes from its current holder to the other side. Capitals cannot be ceded.
+                      </p>
+                    </div>
+                  </>
+                )}
+
+                {selectedTreatyTarget && (
+                  <div className={cn("p-3 rounded-lg text-sm space-y-1 border", colors.bgMedium, colors.borderMedium, colors.textStrong)}>
+                    <p className="font-semibold">
+                      {lawType === "PROPOSE_PEACE" ? "🕊️ Peace" : "🏳️ Ceasefire"} with {selectedTreatyTarget.name}
+                    </p>
+                    <p className="text-xs">The enemy government must also accept the terms</p>
+                    {lawType === "PROPOSE_PEACE" && (
+                      <p className="text-xs">
+                        {describeTreatyTerms({
+                          reparations_gold: reparationsGold,
+                          reparations_payer_name: reparationsPayer === "us" ? "your community" : selectedTreatyTarget.name,
+                          ceded_hex_ids: cededHexIds,
+                        })}
+                      </p>
+                    )}
+                    <p className="text-xs">
+                      {lawType === "PROPOSE_PEACE"
+                        ? "• No battles can be started between the two communities while the treaty holds"
+                        : "• No battles can be started until the ceasefire ends, then the war resumes"}
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* TRANSFER_REGION - Select a region, the receiving community and the price */}
+            {!proposalId && !selectedProposalId && lawType === "TRANSFER_REGION" && colors && (
+              <div className={cn("space-y-3 p-4 rounded-lg border", colors.bgLight, colors.borderLight)}>
+                <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                  Select Region
+                </p>
+
+                {transferRegionsLoading ? (
+                  <div className="text-sm text-muted-foreground text-center py-3">
+                    Loading regions...
+                  </div>
+                ) : transferRegions.length === 0 ? (
+                  <div className="text-sm text-muted-foreground text-center py-3">
+                    Your community holds no regions besides its capital.
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap gap-1.5 max-h-32 overflow-y-auto">
+                    {transferRegions.map((region) => (
+                      <button
+                        key={region.hex_id}
+                        type="button"
+                        onClick={() => setSelectedTransferRegion(region)}
+                        disabled={isLoading}
+                        className={cn(
+                          "px-2 py-1 rounded-md border text-xs transition-all",
+                          selectedTransferRegion?.hex_id === region.hex_id
+                            ? cn(colors.selectedBg, colors.selectedBorder, colors.selectedText)
+                            : "border-border/40 hover:bg-accent/40"
+                        )}
+                      >
+                        {region.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <div className="space-y-1.5">
+                  <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                    Receiving Community
+                  </p>
+                  <Input
+                    placeholder="Search for a community..."
+                    value={transferTargetSearch}
+                    onChange={(e) => handleTransferTargetSearch(e.target.value)}
+                    className="h-11 rounded-lg bg-muted/30"
+                    disabled={isLoading}
+                  />
+                  {transferTargets.length > 0 && (
+                    <div className="space-y-2 max-h-48 overflow-y-auto">
+                      {transferTargets.map((target) => (
+                        <button
+                          key={target.id}
+                          type="button"
+                          onClick={() => {
+                            setSelectedTransferTarget(target);
+                            setTransferTargetSearch("");
+                            setTransferTargets([]);
+                          }}
+                          className={cn(
+                            "w-full text-left p-3 rounded-lg border transition-all",
+                            selectedTransferTarget?.id === target.id
+                              ? cn(colors.selectedBg, colors.selectedBorder)
+                              : "border-border/40 hover:bg-accent/40"
+                          )}
+                        >
+                          {target.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-1.5">
+                  <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                    Price (0 = cede for free)
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(["gold", "community"] as const).map((currency) => (
+                      <button
+                        key={currency}
+                        type="button"
+                        onClick={() => setTransferCurrency(currency)}
+                        disabled={isLoading}
+                        className={cn(
+                          "flex items-center gap-2 p-2 rounded-lg border transition-all text-sm font-medium",
+                          transferCurrency === currency
+                            ? cn(colors.selectedBg, colors.selectedBorder, colors.selectedText)
+                            : "border-border/40 hover:bg-accent/40"
+                        )}
+                      >
+                        {currency === "gold" ? <GoldCoinIcon className="h-4 w-4" /> : <CommunityCoinIcon className="h-4 w-4" />}
+                        {currency === "gold" ? "Gold" : "Their Currency"}
+                      </button>
+                    ))}
+                  </div>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={MAX_REGION_PRICE}
+                    step={1}
+                    value={transferPrice}
+                    onChange={(e) => {
+                      const val = Number(e.target.value);
+                      if (val >= 0 && val <= MAX_REGION_PRICE) {
+                        setTransferPrice(val);
+                      }
+                    }}
+                    className="text-lg font-semibold text-center"
+                    disabled={isLoading}
+                  />
+                </div>
+
+                {selectedTransferRegion && selectedTransferTarget && (
+                  <div className={cn("p-3 rounded-lg text-sm space-y-1 border", colors.bgMedium, colors.borderMedium, colors.textStrong)}>
+                    <p className="font-semibold">
+                      🗺️{" "}
+                      {describeRegionTransfer({
+                        region_name: selectedTransferRegion.name,
+                        target_community_name: selectedTransferTarget.name,
+                        price: transferPrice,
+                        currency: transferCurrency,
+                      })}
+                    </p>
+                    <p className="text-xs">{selectedTransferTarget.name}&apos;s government must also accept</p>
+                    {transferPrice > 0 && (
+                      <p className="text-xs">• Paid from their treasury into ours when the law passes</p>
+                    )}
+                    <p className="text-xs">• The region cannot be transferred while it is under attack</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* REPEAL_LAW / AMEND_LAW - Select an enacted law */}
+            {!proposalId && !selectedProposalId && (lawType === "REPEAL_LAW" || lawType === "AMEND_LAW") && colors && (
+              <div className={cn("space-y-3 p-4 rounded-lg border", colors.bgLight, colors.borderLight)}>
+                <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                  {lawType === "REPEAL_LAW" ? "Select Law to Repeal" : "Select Law to Amend"}
+                </p>
+
+                {enactedLawsLoading ? (
+                  <div className="text-sm text-muted-foreground text-center py-3">
+                    Loading enacted laws...
+                  </div>
+                ) : enactedLaws.length === 0 ? (
+                  <div className="text-sm text-muted-foreground text-center py-3">
+                    No enacted laws can be {lawType === "REPEAL_LAW" ? "repealed" : "amended"} right now.
+                  </div>
+                ) : (
+                  <div className="space-y-2 max-h-48 overflow-y-auto">
+                    {enactedLaws.map((law) => (
+                      <button
+                        key={law.id}
+                        type="button"
+                        onClick={() => handleSelectEnactedLaw(law)}
+                        className={cn(
+                          "w-full text-left p-3 rounded-lg border transition-all",
+                          selectedEnactedLaw?.id === law.id
+                            ? cn(colors.selectedBg, colors.selectedBorder)
+                            : "border-border/40 hover:bg-accent/40"
+                        )}
+                      >
+                        <p className="font-medium">{LAW_REGISTRY[law.law_type]?.label ?? law.law_type}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {describeLawTerms(law.law_type, law.metadata)}
+                          {law.resolved_at && ` • enacted ${new Date(law.resolved_at).toLocaleDateString("en-US", { dateStyle: "medium" })}`}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {lawType === "AMEND_LAW" && selectedEnactedLaw && (
+                  <div className="space-y-3 pt-1">
+                    {getAmendableFields(selectedEnactedLaw.law_type).map((field) => {
+                      const input = AMENDABLE_FIELD_INPUTS[field];
+                      return (
+                        <div key={field} className="space-y-1.5">
+                          <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                            {input?.label ?? field}
+                          </p>
+                          <Input
+                            type="number"
+                            min={input?.min}
+                            max={input?.max}
+                            step={input?.step}
+                            value={amendmentValues[field] ?? ""}
+                            onChange={(e) => {
+                              const val = Number(e.target.value);
+                              if (val >= (input?.min ?? 0) && (input?.max === undefined || val <= input.max)) {
+                                setAmendmentValues((prev) => ({ ...prev, [field]: val }));
+                              }
+                            }}
+                            className="text-lg font-semibold text-center"
+                            disabled={isLoading}
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {selectedEnactedLaw && (
+                  <div className={cn("p-3 rounded-lg text-sm space-y-1 border", colors.bgMedium, colors.borderMedium, colors.textStrong)}>
+                    <p className="font-semibold">
+                      {lawType === "REPEAL_LAW" ? "🗑️ Repeal" : "✏️ Amend"}: {LAW_REGISTRY[selectedEnactedLaw.law_type]?.label}
+                    </p>
+                    <p className="text-xs">
+                      {lawType === "REPEAL_LAW"
+                        ? "The law's effects are undone once the repeal passes"
+                        : Object.keys(amendmentChanges).length > 0
+                          ? `New terms: ${Object.entries(amendmentChanges).map(([field, value]) => `${AMENDABLE_FIELD_INPUTS[field]?.label ?? field} ${formatAmendableValue(field, value)}`).join(", ")}`
+                          : "Adjust the terms above to draft the amendment"}
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Sunset clause - optional duration for laws that support it */}
+            {!proposalId && !selectedProposalId && lawType && LAW_REGISTRY[lawType]?.duration && (lawType !== "SPEND_TREASURY" || spendInterval) && colors && (
+              <div className={cn("space-y-3 p-4 rounded-lg border", colors.bgLight, colors.borderLight)}>
+                <p className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                  Sunset Clause
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {[
+                    ...(LAW_REGISTRY[lawType]?.duration?.required ? [] : [""]),
+                    ...(LAW_REGISTRY[lawType]?.duration?.options ?? []),
+                  ].map((option) => {
+                    const isSelected =
+                      (lawDuration || (LAW_REGISTRY[lawType]?.duration?.required ? LAW_REGISTRY[lawType]?.duration?.options[0] : "")) === option;
+                    return (
+                      <button
+                        key={option || "permanent"}
+                        type="button"
+                        onClick={() => setLawDuration(option)}
+                        disabled={isLoading}
+                        className={cn(
+                          "text-left p-2 rounded-lg border transition-all text-sm font-medium",
+                          isSelected
+                            ? cn(colors.selectedBg, colors.selectedBorder, colors.selectedText)
+                            : "border-border/40 hover:bg-accent/40"
+                        )}
+                      >
+                        {option ? `Lapses after ${option}` : "Permanent"}
+                      </button>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  When the term ends, the law&apos;s effect is reverted automatically.
+                </p>
+              </div>
+            )}
+
             {/* Error */}
             {error && (
               <div className={cn("p-4 rounded-lg text-sm font-medium flex items-center gap-3 border", "bg-destructive/10 border-destructive/20 text-destructive dark:text-destructive/80")}>
@@ -1585,13 +3351,21 @@ export function LawProposalDrawer({
                 disabled={
                   isLoading ||
                   (lawType === "DECLARE_WAR" && !selectedWarTarget) ||
-                  (lawType === "PROPOSE_HEIR" && !selectedHeir) ||
-                  (lawType === "CHANGE_GOVERNANCE" && !selectedGovernanceType) ||
+                  (lawType === "PROPOSE_HEIR" && (isRankedBallot ? rankedOptions.length < 2 : !selectedHeir)) ||
+                  (lawType === "CHANGE_GOVERNANCE" && (isRankedBallot ? rankedOptions.length < 2 : !selectedGovernanceType)) ||
                   (lawType === "MESSAGE_OF_THE_DAY" && (!motdTitle || !motdContent)) ||
                   (lawType === "WORK_TAX" && (workTaxRate < 0 || workTaxRate > 100)) ||
                   (lawType === "IMPORT_TARIFF" && (importTariffRate < 0 || importTariffRate > 100)) ||
                   (lawType === "ISSUE_CURRENCY" && (goldAmount <= 0 || goldAmount > 1000000 || conversionRate <= 0)) ||
-                  (lawType === "CFC_ALLIANCE" && !selectedAllianceTarget)
+                  (lawType === "MONETARY_POLICY" && (policyRatePercent < 0 || policyRatePercent > MAX_POLICY_RATE * 100 || reserveRatioPercent < 0 || reserveRatioPercent > 100)) ||
+                  (lawType === "OPEN_MARKET_OPERATION" && (omoGoldAmount <= 0 || omoGoldAmount > MAX_OPERATION_GOLD || omoCurrencyAmount <= 0)) ||
+                  (lawType === "SPEND_TREASURY" && (!selectedSpendRecipient || spendAmount <= 0 || spendAmount > MAX_TREASURY_PAYMENT || !spendPurpose.trim())) ||
+                  (lawType === "CFC_ALLIANCE" && !selectedAllianceTarget) ||
+                  (lawType === "EMBARGO" && !selectedEmbargoTarget) ||
+                  ((lawType === "PROPOSE_PEACE" || lawType === "CEASEFIRE") && !selectedTreatyTarget) ||
+                  (lawType === "TRANSFER_REGION" && (!selectedTransferRegion || !selectedTransferTarget)) ||
+                  (lawType === "REPEAL_LAW" && !selectedEnactedLaw) ||
+                  (lawType === "AMEND_LAW" && (!selectedEnactedLaw || Object.keys(amendmentChanges).length === 0))
                 }
                 size="lg"
                 className="w-full gap-2 font-bold transition-all duration-300"
@@ -1605,7 +3379,7 @@ export function LawProposalDrawer({
                   <>
                     <Hammer className="size-4" />
                     <span className="text-sm truncate flex-1">
-                      {lawType === "MESSAGE_OF_THE_DAY" ? "Broadcast Announcement" : lawType === "WORK_TAX" ? "Set Tax Rate" : lawType === "IMPORT_TARIFF" ? "Set Import Tariff" : lawType === "ISSUE_CURRENCY" ? "Issue Currency" : lawType === "CFC_ALLIANCE" ? "Propose Alliance" : "Propose Law"}
+                      {lawType === "MESSAGE_OF_THE_DAY" ? "Broadcast Announcement" : lawType === "WORK_TAX" ? "Set Tax Rate" : lawType === "IMPORT_TARIFF" ? "Set Import Tariff" : lawType === "ISSUE_CURRENCY" ? "Issue Currency" : lawType === "MONETARY_POLICY" ? "Set Monetary Policy" : lawType === "OPEN_MARKET_OPERATION" ? "Place Operation" : lawType === "SPEND_TREASURY" ? "Propose Payment" : lawType === "CFC_ALLIANCE" ? "Propose Alliance" : lawType === "EMBARGO" ? "Impose Embargo" : lawType === "PROPOSE_PEACE" ? "Offer Peace" : lawType === "CEASEFIRE" ? "Propose Ceasefire" : lawType === "TRANSFER_REGION" ? "Offer Region" : lawType === "REPEAL_LAW" ? "Propose Repeal" : lawType === "AMEND_LAW" ? "Propose Amendment" : "Propose Law"}
                     </span>
                   </>
                 )}
@@ -1620,66 +3394,95 @@ export function LawProposalDrawer({
               {proposalData ? (
                 proposalData.status === "pending" ? (
                   <>
-                    <div className="flex gap-3 flex-wrap sm:flex-nowrap w-full">
+                    {proposalOptions ? (
                       <Button
-                        onClick={() => handleVote("yes")}
-                        disabled={!voteAccessAllowed || hasVoted || voteInProgress !== null}
+                        onClick={() => handleVote("ranked")}
+                        disabled={!canRankOptions || voteInProgress !== null}
                         size="lg"
                         className={cn(
-                          "flex-1 gap-2 font-bold transition-all rounded-xl",
-                          currentVote === "yes"
-                            ? "bg-emerald-500/20 border-emerald-500/40 text-emerald-600 dark:text-emerald-400"
-                            : "bg-emerald-500 hover:bg-emerald-600 text-white border-emerald-600",
-                          (!voteAccessAllowed || hasVoted || voteInProgress !== null) && "opacity-50 cursor-not-allowed"
+                          "w-full gap-2 font-bold transition-all rounded-xl",
+                          (!canRankOptions || voteInProgress !== null) && "opacity-50 cursor-not-allowed"
                         )}
                       >
-                        {voteInProgress === "yes" ? (
+                        {voteInProgress === "ranked" ? (
                           <>
                             <Loader2 className="size-4 animate-spin" />
                             Voting...
                           </>
-                        ) : currentVote === "yes" ? (
+                        ) : hasVoted ? (
                           <>
                             <CheckCircle2 className="size-4" />
-                            Voted Yes
-                          </>
-                        ) : (
-                          <>
-                            <CheckCircle2 className="size-4" />
-                            Vote Yes
-                          </>
-                        )}
-                      </Button>
-                      <Button
-                        onClick={() => handleVote("no")}
-                        disabled={!voteAccessAllowed || hasVoted || voteInProgress !== null}
-                        size="lg"
-                        className={cn(
-                          "flex-1 gap-2 font-bold transition-all rounded-xl",
-                          currentVote === "no"
-                            ? "bg-red-500/20 border-red-500/40 text-red-600 dark:text-red-400"
-                            : "bg-red-500 hover:bg-red-600 text-white border-red-600",
-                          (!voteAccessAllowed || hasVoted || voteInProgress !== null) && "opacity-50 cursor-not-allowed"
-                        )}
-                      >
-                        {voteInProgress === "no" ? (
-                          <>
-                            <Loader2 className="size-4 animate-spin" />
-                            Voting...
-                          </>
-                        ) : currentVote === "no" ? (
-                          <>
-                            <XCircle className="size-4" />
-                            Voted No
+                            Ranking Submitted
                           </>
                         ) : (
                           <>
-                            <XCircle className="size-4" />
-                            Vote No
+                            <ListOrdered className="size-4" />
+                            Submit Ranking
                           </>
                         )}
                       </Button>
-                    </div>
+                    ) : (
+                      <div className="flex gap-3 flex-wrap sm:flex-nowrap w-full">
+                        <Button
+                          onClick={() => handleVote("yes")}
+                          disabled={!voteAccessAllowed || hasVoted || voteInProgress !== null}
+                          size="lg"
+                          className={cn(
+                            "flex-1 gap-2 font-bold transition-all rounded-xl",
+                            currentVote === "yes"
+                              ? "bg-emerald-500/20 border-emerald-500/40 text-emerald-600 dark:text-emerald-400"
+                              : "bg-emerald-500 hover:bg-emerald-600 text-white border-emerald-600",
+                            (!voteAccessAllowed || hasVoted || voteInProgress !== null) && "opacity-50 cursor-not-allowed"
+                          )}
+                        >
+                          {voteInProgress === "yes" ? (
+                            <>
+                              <Loader2 className="size-4 animate-spin" />
+                              Voting...
+                            </>
+                          ) : currentVote === "yes" ? (
+                            <>
+                              <CheckCircle2 className="size-4" />
+                              Voted Yes
+                            </>
+                          ) : (
+                            <>
+                              <CheckCircle2 className="size-4" />
+                              Vote Yes
+                            </>
+                          )}
+                        </Button>
+                        <Button
+                          onClick={() => handleVote("no")}
+                          disabled={!voteAccessAllowed || hasVoted || voteInProgress !== null}
+                          size="lg"
+                          className={cn(
+                            "flex-1 gap-2 font-bold transition-all rounded-xl",
+                            currentVote === "no"
+                              ? "bg-red-500/20 border-red-500/40 text-red-600 dark:text-red-400"
+                              : "bg-red-500 hover:bg-red-600 text-white border-red-600",
+                            (!voteAccessAllowed || hasVoted || voteInProgress !== null) && "opacity-50 cursor-not-allowed"
+                          )}
+                        >
+                          {voteInProgress === "no" ? (
+                            <>
+                              <Loader2 className="size-4 animate-spin" />
+                              Voting...
+                            </>
+                          ) : currentVote === "no" ? (
+                            <>
+                              <XCircle className="size-4" />
+                              Voted No
+                            </>
+                          ) : (
+                            <>
+                              <XCircle className="size-4" />
+                              Vote No
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                    )}
                     {!voteAccessAllowed && (
                       <div className="text-sm text-muted-foreground italic w-full text-center py-2">
                         You don't have voting access for this law
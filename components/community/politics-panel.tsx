@@ -7,6 +7,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { LawListAccordion } from "./law-list-accordion";
 import { LawProposalDrawer } from "./law-proposal-drawer";
+import { VoteDelegationPanel } from "./vote-delegation-panel";
 import { SectionHeading } from "@/components/ui/section-heading";
 import {
   getCommunityActiveProposalsAction,
@@ -34,6 +35,9 @@ interface Proposal {
   proposer_name?: string;
   metadata?: Record<string, unknown>;
   resolved_at?: string | null;
+  repealed_at?: string | null;
+  amended_at?: string | null;
+  lapsed_at?: string | null;
 }
 
 const PROPOSAL_SKELETON_COUNT = 3;
@@ -412,7 +416,15 @@ export function PoliticsPanel({
                                   : "text-red-700 dark:text-red-300"
 	                              )}
 	                            >
-	                              {isPassed ? "Passed" : isExpired ? "Expired" : "Rejected"}
+	                              {isPassed
+	                                ? proposal.repealed_at
+	                                  ? "Passed • Repealed"
+	                                  : proposal.lapsed_at
+	                                    ? "Passed • Lapsed"
+	                                    : proposal.amended_at
+	                                      ? "Passed • Amended"
+	                                      : "Passed"
+	                                : isExpired ? "Expired" : "Rejected"}
 	                            </p>
 	                          </div>
 	                          <p className="text-[10px] text-muted-foreground/70">
@@ -452,6 +464,11 @@ export function PoliticsPanel({
 	            )}
 	          </CardContent>
 	        </Card>
+
+        {/* Members vote directly only where the sovereign does not decide alone */}
+        {governanceType !== "monarchy" && (
+          <VoteDelegationPanel communityId={communityId} governanceType={governanceType} />
+        )}
       </div>
 
       {/* Law Proposal Drawer - Modal */}
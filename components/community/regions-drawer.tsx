@@ -33,6 +33,7 @@ import {
 } from "@/lib/economy/hex-resource-distribution";
 import { getResourceIconComponent } from "@/lib/economy/resource-icons";
 import { RegionName } from "@/components/ui/region-name";
+import type { RegionAcquisition } from "@/app/actions/regions";
 import { cn } from "@/lib/utils";
 
 export interface RegionWithBonus {
@@ -47,6 +48,7 @@ export interface RegionWithBonus {
   resourceValueText?: string | null;
   resourceValueClassName?: string;
   resourceBonusValue?: number;
+  acquired_from?: RegionAcquisition | null;
 }
 
 interface RegionsDrawerProps {
@@ -199,6 +201,16 @@ export function RegionsDrawer({
                         </span>
                         <span>•</span>
                         <span>{new Date(region.last_conquered_at).toLocaleDateString()}</span>
+                        {region.acquired_from && (
+                          <>
+                            <span>•</span>
+                            <span className="truncate">
+                              {region.acquired_from.price > 0
+                                ? `Bought from ${region.acquired_from.community_name}`
+                                : `Ceded by ${region.acquired_from.community_name}`}
+                            </span>
+                          </>
+                        )}
                       </div>
                     </div>
 
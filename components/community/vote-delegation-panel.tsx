@@ -0,0 +1,250 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState, useTransition } from "react";
+import { ArrowRight, Handshake, Loader2, X } from "lucide-react";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SectionHeading } from "@/components/ui/section-heading";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { showGovernanceToast } from "@/lib/toast-utils";
+import { createSupabaseBrowserClient } from "@/lib/supabase-browser";
+import { LAW_REGISTRY, getAvailableLawsForGovernance, type LawType } from "@/lib/governance/laws";
+import { cn } from "@/lib/utils";
+
+import {
+  getVoteDelegationsAction,
+  delegateVoteAction,
+  revokeVoteDelegationAction,
+  type VoteDelegationView,
+} from "@/app/actions/vote-delegation";
+
+interface VoteDelegationPanelProps {
+  communityId: string;
+  governanceType: string;
+}
+
+type DelegateCandidateRow = {
+  user_id: string;
+  user?: {
+    username?: string | null;
+  } | null;
+};
+
+const ALL_LAWS = "all";
+
+const describeScope = (lawType: LawType | null) =>
+  lawType ? LAW_REGISTRY[lawType]?.label ?? lawType : "All laws";
+
+/**
+ * Liquid democracy: members hand their vote to another member for every law or
+ * for one law type. Delegated votes are counted whenever the member does not vote.
+ */
+export function VoteDelegationPanel({ communityId, governanceType }: VoteDelegationPanelProps) {
+  const [view, setView] = useState<VoteDelegationView | null>(null);
+  const [search, setSearch] = useState("");
+  const [candidates, setCandidates] = useState<Array<{ id: string; username: string }>>([]);
+  const [selectedDelegate, setSelectedDelegate] = useState<{ id: string; username: string } | null>(null);
+  const [scope, setScope] = useState<string>(ALL_LAWS);
+  const [isPending, startTransition] = useTransition();
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
+
+  const lawOptions = useMemo(() => getAvailableLawsForGovernance(governanceType), [governanceType]);
+
+  const loadDelegations = useCallback(async () => {
+    try {
+      const data = await getVoteDelegationsAction(communityId);
+      setView(data);
+    } catch (error) {
+      console.error("Failed to load vote delegations:", error);
+    }
+  }, [communityId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getVoteDelegationsAction(communityId)
+      .then((data) => {
+        if (!cancelled) setView(data);
+      })
+      .catch((error) => console.error("Failed to load vote delegations:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [communityId]);
+
+  const handleSearch = async (value: string) => {
+    setSearch(value);
+    if (value.length < 2) {
+      setCandidates([]);
+      return;
+    }
+
+    const { data } = await supabase
+      .from("community_members")
+      .select("user_id, user:users(id, username)")
+      .eq("community_id", communityId)
+      .ilike("user.username", `%${value}%`)
+      .limit(10);
+
+    const rows = (data || []) as DelegateCandidateRow[];
+    setCandidates(
+      rows
+        .filter((row) => row.user)
+        .map((row) => ({ id: row.user_id, username: row.user?.username || "Unknown" }))
+    );
+  };
+
+  const runAction = (action: () => Promise<unknown>, successMessage: string) => {
+    startTransition(async () => {
+      try {
+        await action();
+        showGovernanceToast(successMessage, "success");
+        await loadDelegations();
+      } catch (error) {
+        showGovernanceToast(error instanceof Error ? error.message : "Delegation failed", "error");
+      }
+    });
+  };
+
+  const handleDelegate = () => {
+    if (!selectedDelegate) return;
+    const lawType = scope === ALL_LAWS ? null : (scope as LawType);
+    runAction(async () => {
+      await delegateVoteAction(communityId, selectedDelegate.id, lawType);
+      setSelectedDelegate(null);
+      setSearch("");
+      setCandidates([]);
+    }, `Vote delegated to ${selectedDelegate.username} (${describeScope(lawType)})`);
+  };
+
+  if (!view?.isMember) {
+    return null;
+  }
+
+  return (
+    <Card variant="default">
+      <CardContent className="space-y-4">
+        <SectionHeading title="Vote Delegation" icon={Handshake} />
+
+        <p className="text-xs text-muted-foreground">
+          Hand your vote to a member you trust. When you don&apos;t vote yourself, your vote follows theirs — and
+          theirs follows their own delegate if they don&apos;t vote either. A delegation for a specific law overrides
+          one for all laws. Revoke at any time.
+        </p>
+
+        {/* Current delegations */}
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Your Delegations</p>
+          {view.outgoing.length === 0 ? (
+            <p className="text-xs text-muted-foreground">You vote for yourself on every law.</p>
+          ) : (
+            view.outgoing.map((delegation) => (
+              <div
+                key={delegation.id}
+                className="flex items-center gap-3 p-3 rounded-lg border border-border/50 bg-card"
+              >
+                <ArrowRight className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold truncate">{delegation.delegate_username}</p>
+                  <p className="text-[10px] sm:text-xs text-muted-foreground">{describeScope(delegation.law_type)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1 text-xs"
+                  disabled={isPending}
+                  onClick={() => runAction(() => revokeVoteDelegationAction(delegation.id), "Delegation revoked")}
+                >
+                  <X className="h-3.5 w-3.5" />
+                  Revoke
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {view.incoming.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+              Voting On Behalf Of
+            </p>
+            {view.incoming.map((delegation) => (
+              <p key={delegation.id} className="text-xs text-foreground">
+                {delegation.delegator_username}
+                <span className="text-muted-foreground"> • {describeScope(delegation.law_type)}</span>
+              </p>
+            ))}
+          </div>
+        )}
+
+        {/* New delegation */}
+        <div className="space-y-2 border-t border-border/30 pt-3">
+          <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Delegate Your Vote</p>
+          <Input
+            placeholder="Search for a community member..."
+            value={search}
+            onChange={(event) => handleSearch(event.target.value)}
+            className="h-10 rounded-lg bg-muted/30"
+            disabled={isPending}
+          />
+          {candidates.length > 0 && (
+            <div className="space-y-1 max-h-40 overflow-y-auto">
+              {candidates.map((candidate) => (
+                <button
+                  key={candidate.id}
+                  type="button"
+                  onClick={() => {
+                    setSelectedDelegate(candidate);
+                    setSearch("");
+                    setCandidates([]);
+                  }}
+                  className={cn(
+                    "w-full text-left p-2.5 rounded-lg border text-sm transition-all",
+                    selectedDelegate?.id === candidate.id
+                      ? "border-primary bg-primary/10"
+                      : "border-border/40 hover:bg-accent/40"
+                  )}
+                >
+                  {candidate.username}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger className="w-full h-9 text-xs">
+              <SelectValue placeholder="Scope" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_LAWS}>All laws</SelectItem>
+              {lawOptions.map(({ type, definition }) => (
+                <SelectItem key={type} value={type}>
+                  {definition.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button
+            onClick={handleDelegate}
+            disabled={isPending || !selectedDelegate}
+            size="sm"
+            className="w-full"
+          >
+            {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {selectedDelegate ? `Delegate to ${selectedDelegate.username}` : "Select a delegate"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
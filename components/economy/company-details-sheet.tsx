@@ -23,26 +23,24 @@ import {
   X,
   ChevronDown,
   ChevronUp,
+  PieChart,
+  Wallet,
+  FileSignature,
 } from "lucide-react";
 import { toast } from "sonner";
 import { getCompanyIcon, getCompanyTypeByKey } from "@/lib/company-config";
 import type { CompanyWithType, UserCompany } from "@/lib/types/companies";
+import type { CompanyEmployee } from "@/app/actions/companies";
 import { RegionName } from "@/components/ui/region-name";
 import { CompanyUpgradeDialog } from "@/components/economy/company-upgrade-dialog";
+import { CompanySharesPanel } from "@/components/economy/company-shares-panel";
+import { CompanyFinancePanel } from "@/components/economy/company-finance-panel";
+import { EmploymentOfferForm } from "@/components/economy/employment-offer-form";
 import { cn } from "@/lib/utils";
 import { getBreadIcon, getQualityName } from "@/components/ui/food-quality-icon";
 import { getWeaponIcon } from "@/components/ui/weapon-quality-icon";
 
-interface Employee {
-  id: string;
-  employee_id: string;
-  employee_type: "player" | "ai";
-  employee_name: string;
-  position: string;
-  wage_per_day_community_coin: number;
-  total_work_days: number;
-  hired_at: string;
-}
+type Employee = CompanyEmployee;
 
 interface JobListing {
   id: string;
@@ -74,6 +72,8 @@ export function CompanyDetailsSheet({
   const [loadingJobListings, setLoadingJobListings] = useState(false);
   const [loadingCompanyDetails, setLoadingCompanyDetails] = useState(false);
   const [firingEmployeeId, setFiringEmployeeId] = useState<string | null>(null);
+  const [offerEmployeeId, setOfferEmployeeId] = useState<string | null>(null);
+  const [employerReputation, setEmployerReputation] = useState<number | null>(null);
   const [cancellingListingId, setCancellingListingId] = useState<string | null>(null);
   const [showJobForm, setShowJobForm] = useState(false);
   const [jobFormData, setJobFormData] = useState({
@@ -104,6 +104,10 @@ export function CompanyDetailsSheet({
       const { getCompanyById } = await import("@/app/actions/companies");
       const data = await getCompanyById(company.id);
       setCompanyDetails(data);
+      if (data) {
+        const { getEmployerReputation } = await import("@/app/actions/employment-contracts");
+        setEmployerReputation(await getEmployerReputation(data.owner_id));
+      }
       return data;
     } catch (error) {
       console.error("Error loading company details:", error);
@@ -146,16 +150,28 @@ export function CompanyDetailsSheet({
     }
   };
 
-  const handleFireEmployee = async (contractId: string) => {
-    if (!window.confirm("Are you sure you want to fire this employee?")) {
+  const handleFireEmployee = async (employee: Employee) => {
+    const confirmMessage =
+      employee.contract_type === "term" && employee.notice_days > 0
+        ? `Give ${employee.employee_name} ${employee.notice_days} days notice? Their wages run until they leave.`
+        : "Are you sure you want to fire this employee?";
+    if (!window.confirm(confirmMessage)) {
       return;
     }
 
-    setFiringEmployeeId(contractId);
+    setFiringEmployeeId(employee.id);
     try {
       const { fireEmployee } = await import("@/app/actions/companies");
-      await fireEmployee(contractId);
-      toast.success("Employee fired");
+      const result = await fireEmployee(employee.id);
+      if (!result.success) {
+        toast.error(result.error || "Failed to fire employee");
+        return;
+      }
+      toast.success(
+        result.terminates_at
+          ? `Notice given. ${employee.employee_name} leaves on ${new Date(result.terminates_at).toLocaleDateString()}`
+          : "Employee fired"
+      );
       loadEmployees();
       onUpdate?.();
     } catch (error) {
@@ -449,12 +465,35 @@ export function CompanyDetailsSheet({
             </p>
           </div>
 
+          {/* Cash & Upkeep Section */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Wallet className="h-5 w-5 text-foreground" />
+              <h3 className="text-lg font-bold text-foreground">Cash & Upkeep</h3>
+            </div>
+            <CompanyFinancePanel key={company.id} companyId={company.id} onChange={onUpdate} />
+          </div>
+
+          {/* Shares Section */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <PieChart className="h-5 w-5 text-foreground" />
+              <h3 className="text-lg font-bold text-foreground">Shares & Dividends</h3>
+            </div>
+            <CompanySharesPanel key={company.id} companyId={company.id} onChange={onUpdate} />
+          </div>
+
           {/* Employees Section */}
           <div className="space-y-3">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <Users className="h-5 w-5 text-foreground" />
                 <h3 className="text-lg font-bold text-foreground">Employees</h3>
+                {employerReputation !== null && (
+                  <Badge variant="outline" className="text-[10px] px-2 py-0.5" title="Employer reputation">
+                    Reputation {employerReputation}/100
+                  </Badge>
+                )}
               </div>
               <Button
                 size="sm"
@@ -570,38 +609,76 @@ export function CompanyDetailsSheet({
             ) : (
               <div className="space-y-2">
                 {employees.map((employee) => (
-                  <div
-                    key={employee.id}
-                    className="flex items-center gap-3 rounded-lg border border-border/60 bg-muted/10 p-3 hover:bg-muted/20 transition-colors"
-                  >
-                    <div className="flex h-9 w-9 items-center justify-center rounded-full bg-muted text-muted-foreground shrink-0">
-                      <Users className="h-4 w-4" />
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <h4 className="text-sm font-bold text-foreground truncate">
-                        {employee.employee_name}
-                      </h4>
-                      <p className="text-xs text-muted-foreground truncate">
-                        {employee.position} · {employee.total_work_days}d worked
-                      </p>
-                    </div>
-                    <div className="flex items-center gap-1 text-xs font-semibold text-muted-foreground shrink-0">
-                      <Coins className="h-3 w-3" />
-                      <span>{employee.wage_per_day_community_coin}/day</span>
-                    </div>
-                    <Badge variant="outline" className="shrink-0 text-[9px] px-2 py-0.5">
-                      {employee.employee_type}
-                    </Badge>
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => handleFireEmployee(employee.id)}
-                      disabled={firingEmployeeId === employee.id}
-                      className="h-8 px-2.5 gap-1.5 text-xs shrink-0"
+                  <div key={employee.id} className="space-y-2">
+                    <div
+                      className="flex items-center gap-3 rounded-lg border border-border/60 bg-muted/10 p-3 hover:bg-muted/20 transition-colors"
                     >
-                      <UserX className="h-3 w-3" />
-                      {firingEmployeeId === employee.id ? "Firing..." : "Fire"}
-                    </Button>
+                      <div className="flex h-9 w-9 items-center justify-center rounded-full bg-muted text-muted-foreground shrink-0">
+                        <Users className="h-4 w-4" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h4 className="text-sm font-bold text-foreground truncate">
+                          {employee.employee_name}
+                        </h4>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {employee.position} · {employee.total_work_days}d worked
+                          {employee.contract_type === "term" && employee.ends_at && (
+                            <> · until {new Date(employee.ends_at).toLocaleDateString()}</>
+                          )}
+                          {employee.terminates_at && (
+                            <> · leaves {new Date(employee.terminates_at).toLocaleDateString()}</>
+                          )}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1 text-xs font-semibold text-muted-foreground shrink-0">
+                        <Coins className="h-3 w-3" />
+                        <span>
+                          {employee.contract_type === "term"
+                            ? `${employee.wage_gold_per_day} gold/day`
+                            : `${employee.wage_per_day_community_coin}/day`}
+                        </span>
+                      </div>
+                      <Badge variant="outline" className="shrink-0 text-[9px] px-2 py-0.5">
+                        {employee.pending_offer ? "offer sent" : employee.employee_type}
+                      </Badge>
+                      {employee.employee_type === "player" && !employee.terminates_at && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setOfferEmployeeId(offerEmployeeId === employee.id ? null : employee.id)}
+                          className="h-8 px-2.5 gap-1.5 text-xs shrink-0"
+                          title="Offer a term contract"
+                        >
+                          <FileSignature className="h-3 w-3" />
+                          Contract
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleFireEmployee(employee)}
+                        disabled={firingEmployeeId === employee.id || Boolean(employee.terminates_at)}
+                        className="h-8 px-2.5 gap-1.5 text-xs shrink-0"
+                      >
+                        <UserX className="h-3 w-3" />
+                        {firingEmployeeId === employee.id
+                          ? "Firing..."
+                          : employee.contract_type === "term" && employee.notice_days > 0
+                            ? "Notice"
+                            : "Fire"}
+                      </Button>
+                    </div>
+                    {offerEmployeeId === employee.id && (
+                      <EmploymentOfferForm
+                        contractId={employee.id}
+                        employeeName={employee.employee_name}
+                        onCancel={() => setOfferEmployeeId(null)}
+                        onSent={() => {
+                          setOfferEmployeeId(null);
+                          loadEmployees();
+                        }}
+                      />
+                    )}
                   </div>
                 ))}
               </div>
@@ -0,0 +1,210 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { AlertTriangle, Loader2, Receipt, Wallet } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { showErrorToast } from "@/lib/toast-utils";
+import { COMPANY_UPKEEP_CONFIG } from "@/lib/company-config";
+import { formatGold } from "@/lib/economy-config";
+import {
+  depositCompanyCashAction,
+  getCompanyFinances,
+  payCompanyDebtAction,
+  withdrawCompanyCashAction,
+  type UpkeepActionResult,
+} from "@/app/actions/company-upkeep";
+import type { CompanyFinances } from "@/lib/types/companies";
+
+interface CompanyFinancePanelProps {
+  companyId: string;
+  onChange?: () => void;
+}
+
+const inputClassName = "h-9 text-sm";
+
+/**
+ * Company cash, daily upkeep and debts. Shows the grace period countdown when
+ * upkeep is overdue.
+ */
+export function CompanyFinancePanel({ companyId, onChange }: CompanyFinancePanelProps) {
+  const [finances, setFinances] = useState<CompanyFinances | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pending, setPending] = useState<string | null>(null);
+  const [amount, setAmount] = useState("");
+
+  const loadFinances = useCallback(async () => {
+    const data = await getCompanyFinances(companyId);
+    setFinances(data);
+    setLoading(false);
+  }, [companyId]);
+
+  useEffect(() => {
+    const loadInitialFinances = async () => {
+      const data = await getCompanyFinances(companyId);
+      setFinances(data);
+      setLoading(false);
+    };
+    loadInitialFinances();
+  }, [companyId]);
+
+  const run = async (key: string, action: () => Promise<UpkeepActionResult>, successMessage: string) => {
+    setPending(key);
+    try {
+      const result = await action();
+      if (!result.success) {
+        showErrorToast("Request failed", { description: result.error });
+        return;
+      }
+      toast.success(successMessage);
+      setAmount("");
+      await loadFinances();
+      onChange?.();
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (loading) {
+    return <Skeleton className="h-24 w-full rounded-lg" />;
+  }
+
+  if (!finances) {
+    return (
+      <div className="rounded-lg border border-border/60 bg-muted/20 p-6 text-center">
+        <p className="text-sm text-muted-foreground">This company no longer exists.</p>
+      </div>
+    );
+  }
+
+  const openDebts = finances.debts.filter((debt) => !debt.settled_at);
+  const daysCovered = Math.floor(finances.cash_balance / finances.daily_upkeep);
+
+  return (
+    <div className="space-y-4">
+      {finances.status === "delinquent" && finances.grace_ends_at && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-500/40 bg-amber-500/10 p-3">
+          <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+          <p className="text-xs text-muted-foreground">
+            {formatGold(finances.upkeep_owed)} gold of upkeep is overdue. Pay it in before{" "}
+            {new Date(finances.grace_ends_at).toLocaleString()} or the company goes bankrupt and its assets are
+            auctioned.
+          </p>
+        </div>
+      )}
+
+      {finances.status === "bankrupt" && (
+        <div className="flex items-start gap-2 rounded-lg border border-destructive/40 bg-destructive/10 p-3">
+          <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
+          <p className="text-xs text-muted-foreground">
+            This company is bankrupt. Its assets are being auctioned to pay its debts.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="rounded-lg border border-border/60 bg-muted/10 p-3">
+          <span className="text-xs text-muted-foreground">Cash</span>
+          <p className="text-sm font-bold tabular-nums">{formatGold(finances.cash_balance)}</p>
+        </div>
+        <div className="rounded-lg border border-border/60 bg-muted/10 p-3">
+          <span className="text-xs text-muted-foreground">Upkeep / day</span>
+          <p className="text-sm font-bold tabular-nums">{formatGold(finances.daily_upkeep)}</p>
+        </div>
+        <div className="rounded-lg border border-border/60 bg-muted/10 p-3">
+          <span className="text-xs text-muted-foreground">Status</span>
+          <p className="text-sm font-bold">{COMPANY_UPKEEP_CONFIG.statusLabels[finances.status]}</p>
+        </div>
+      </div>
+
+      {finances.status !== "bankrupt" && (
+        <p className="text-xs text-muted-foreground">
+          Cash covers {daysCovered} {daysCovered === 1 ? "day" : "days"} of upkeep. Next payment{" "}
+          {new Date(finances.next_upkeep_at).toLocaleString()}.
+        </p>
+      )}
+
+      {finances.is_owner && finances.status !== "bankrupt" && (
+        <div className="rounded-lg border border-border/60 bg-muted/20 p-3 space-y-2">
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Wallet className="h-3.5 w-3.5" />
+            <span className="text-xs font-semibold uppercase tracking-wider">Company Cash</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Gold"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={inputClassName}
+            />
+            <Button
+              size="sm"
+              disabled={pending !== null || !amount}
+              onClick={() =>
+                run("deposit", () => depositCompanyCashAction(companyId, Number(amount)), "Gold deposited")
+              }
+            >
+              {pending === "deposit" ? <Loader2 className="h-4 w-4 animate-spin" /> : "Deposit"}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={pending !== null || !amount || finances.status !== "active"}
+              onClick={() =>
+                run("withdraw", () => withdrawCompanyCashAction(companyId, Number(amount)), "Gold withdrawn")
+              }
+            >
+              {pending === "withdraw" ? <Loader2 className="h-4 w-4 animate-spin" /> : "Withdraw"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {finances.debts.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Receipt className="h-3.5 w-3.5" />
+            <span className="text-xs font-semibold uppercase tracking-wider">
+              Debts · {openDebts.length} open
+            </span>
+          </div>
+          {finances.debts.map((debt) => (
+            <div
+              key={debt.id}
+              className="flex items-center gap-3 rounded-lg border border-border/60 bg-muted/10 p-3"
+            >
+              <div className="flex-1 min-w-0">
+                <span className="text-sm font-bold text-foreground truncate">{debt.creditor_username}</span>
+                <Badge variant="secondary" className="ml-2 text-xs capitalize">
+                  {debt.kind}
+                </Badge>
+                {debt.description && <p className="text-xs text-muted-foreground truncate">{debt.description}</p>}
+              </div>
+              <span className="text-sm font-semibold tabular-nums">
+                {debt.settled_at
+                  ? `${formatGold(debt.amount_paid)} / ${formatGold(debt.amount)} paid`
+                  : formatGold(debt.amount - debt.amount_paid)}
+              </span>
+              {finances.is_owner && !debt.settled_at && finances.status !== "bankrupt" && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={pending !== null || finances.cash_balance <= 0}
+                  onClick={() => run(`debt-${debt.id}`, () => payCompanyDebtAction(debt.id), "Debt paid")}
+                >
+                  {pending === `debt-${debt.id}` ? <Loader2 className="h-4 w-4 animate-spin" /> : "Pay"}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,390 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { HandCoins, Loader2, PieChart, Vote, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { showErrorToast } from "@/lib/toast-utils";
+import { COMPANY_SHARES_CONFIG } from "@/lib/company-config";
+import { formatGold } from "@/lib/economy-config";
+import {
+  cancelShareListingAction,
+  declareDividendAction,
+  getCompanyCapTable,
+  issueCompanySharesAction,
+  listCompanySharesAction,
+  proposeCompanyResolutionAction,
+  voteCompanyResolutionAction,
+  type ShareActionResult,
+} from "@/app/actions/company-shares";
+import type { CompanyCapTable, CompanyResolutionKind } from "@/lib/types/companies";
+
+interface CompanySharesPanelProps {
+  companyId: string;
+  onChange?: () => void;
+}
+
+const inputClassName = "h-9 text-sm";
+
+/**
+ * Cap table, share listings, dividends and shareholder votes for one company.
+ * Used in the owner's company sheet and from the share market.
+ */
+export function CompanySharesPanel({ companyId, onChange }: CompanySharesPanelProps) {
+  const [capTable, setCapTable] = useState<CompanyCapTable | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pending, setPending] = useState<string | null>(null);
+  const [issueCount, setIssueCount] = useState<string>(String(COMPANY_SHARES_CONFIG.defaultIssue));
+  const [listShares, setListShares] = useState("");
+  const [listPrice, setListPrice] = useState("");
+  const [dividendAmount, setDividendAmount] = useState("");
+  const [resolutionKind, setResolutionKind] = useState<CompanyResolutionKind>("upgrade");
+  const [resolutionWage, setResolutionWage] = useState("");
+
+  const loadCapTable = useCallback(async () => {
+    const data = await getCompanyCapTable(companyId);
+    setCapTable(data);
+    setLoading(false);
+  }, [companyId]);
+
+  useEffect(() => {
+    const loadInitialCapTable = async () => {
+      const data = await getCompanyCapTable(companyId);
+      setCapTable(data);
+      setLoading(false);
+    };
+    loadInitialCapTable();
+  }, [companyId]);
+
+  const run = async (key: string, action: () => Promise<ShareActionResult>, successMessage: string) => {
+    setPending(key);
+    try {
+      const result = await action();
+      if (!result.success) {
+        showErrorToast("Request failed", { description: result.error });
+        return false;
+      }
+      toast.success(successMessage);
+      await loadCapTable();
+      onChange?.();
+      return true;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-14 w-full rounded-lg" />
+        <Skeleton className="h-14 w-full rounded-lg" />
+      </div>
+    );
+  }
+
+  if (!capTable) {
+    return (
+      <div className="rounded-lg border border-border/60 bg-muted/20 p-6 text-center">
+        <p className="text-sm text-muted-foreground">This company no longer exists.</p>
+      </div>
+    );
+  }
+
+  if (capTable.total_shares === 0) {
+    return (
+      <div className="rounded-lg border border-border/60 bg-muted/20 p-4 space-y-3">
+        <p className="text-sm text-muted-foreground">
+          {capTable.is_owner
+            ? "This company has a single owner. Issue shares to sell stakes and pay dividends; all of them start with you."
+            : "This company has not issued shares."}
+        </p>
+        {capTable.is_owner && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={COMPANY_SHARES_CONFIG.minIssue}
+              max={COMPANY_SHARES_CONFIG.maxIssue}
+              value={issueCount}
+              onChange={(e) => setIssueCount(e.target.value)}
+              className={`${inputClassName} w-40`}
+            />
+            <Button
+              size="sm"
+              disabled={pending === "issue"}
+              onClick={() =>
+                run("issue", () => issueCompanySharesAction(companyId, Number(issueCount)), "Shares issued")
+              }
+            >
+              {pending === "issue" ? <Loader2 className="h-4 w-4 animate-spin" /> : "Issue Shares"}
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const myListings = capTable.listings.filter((listing) => listing.seller_id === capTable.viewer_id);
+  const myListedShares = myListings.reduce((sum, listing) => sum + listing.shares_available, 0);
+  const canPropose =
+    capTable.is_owner || capTable.my_shares * 100 >= capTable.total_shares * COMPANY_SHARES_CONFIG.majorStakePercent;
+
+  return (
+    <div className="space-y-4">
+      {capTable.vote_required && (
+        <p className="rounded-lg border border-amber-500/40 bg-amber-500/10 p-3 text-xs text-muted-foreground">
+          Outside shareholders hold a major stake: upgrades, job wages and liquidation need a passed resolution.
+        </p>
+      )}
+
+      {/* Cap table */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <PieChart className="h-3.5 w-3.5" />
+          <span className="text-xs font-semibold uppercase tracking-wider">
+            Cap Table · {capTable.total_shares.toLocaleString()} shares
+          </span>
+        </div>
+        {capTable.shareholders.map((holder) => (
+          <div
+            key={holder.holder_id}
+            className="flex items-center gap-3 rounded-lg border border-border/60 bg-muted/10 p-3"
+          >
+            <div className="flex-1 min-w-0">
+              <span className="text-sm font-bold text-foreground truncate">{holder.username}</span>
+              {holder.is_owner && (
+                <Badge variant="secondary" className="ml-2 text-xs">
+                  Owner
+                </Badge>
+              )}
+            </div>
+            <span className="text-xs text-muted-foreground tabular-nums">
+              {holder.shares.toLocaleString()}
+              {holder.listed_shares > 0 ? ` (${holder.listed_shares.toLocaleString()} listed)` : ""}
+            </span>
+            <span className="w-16 text-right text-sm font-semibold tabular-nums">{holder.percent.toFixed(1)}%</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Selling shares */}
+      {capTable.my_shares > 0 && (
+        <div className="rounded-lg border border-border/60 bg-muted/20 p-3 space-y-2">
+          <span className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            Sell Shares · {(capTable.my_shares - myListedShares).toLocaleString()} unlisted
+          </span>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="1"
+              placeholder="Shares"
+              value={listShares}
+              onChange={(e) => setListShares(e.target.value)}
+              className={inputClassName}
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Gold per share"
+              value={listPrice}
+              onChange={(e) => setListPrice(e.target.value)}
+              className={inputClassName}
+            />
+            <Button
+              size="sm"
+              disabled={pending === "list"}
+              onClick={async () => {
+                const listed = await run(
+                  "list",
+                  () => listCompanySharesAction(companyId, Number(listShares), Number(listPrice)),
+                  "Shares listed"
+                );
+                if (listed) {
+                  setListShares("");
+                  setListPrice("");
+                }
+              }}
+            >
+              {pending === "list" ? <Loader2 className="h-4 w-4 animate-spin" /> : "List"}
+            </Button>
+          </div>
+          {myListings.map((listing) => (
+            <div key={listing.id} className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                {listing.shares_available.toLocaleString()} listed at {formatGold(listing.price_per_share)} gold
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 gap-1 text-xs"
+                disabled={pending === listing.id}
+                onClick={() => run(listing.id, () => cancelShareListingAction(listing.id), "Listing cancelled")}
+              >
+                <X className="h-3 w-3" />
+                Cancel
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Dividends */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <HandCoins className="h-3.5 w-3.5" />
+          <span className="text-xs font-semibold uppercase tracking-wider">Dividends</span>
+        </div>
+        {capTable.is_owner && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Total gold for all shares"
+              value={dividendAmount}
+              onChange={(e) => setDividendAmount(e.target.value)}
+              className={inputClassName}
+            />
+            <Button
+              size="sm"
+              disabled={pending === "dividend"}
+              onClick={async () => {
+                const paid = await run(
+                  "dividend",
+                  () => declareDividendAction(companyId, Number(dividendAmount)),
+                  "Dividend paid"
+                );
+                if (paid) setDividendAmount("");
+              }}
+            >
+              {pending === "dividend" ? <Loader2 className="h-4 w-4 animate-spin" /> : "Pay Dividend"}
+            </Button>
+          </div>
+        )}
+        {capTable.dividends.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No dividends paid yet.</p>
+        ) : (
+          capTable.dividends.map((dividend) => (
+            <div key={dividend.id} className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{new Date(dividend.created_at).toLocaleDateString()}</span>
+              <span className="tabular-nums">
+                {formatGold(dividend.total_amount)} gold · {dividend.amount_per_share.toFixed(4)}/share ·{" "}
+                {formatGold(dividend.paid_out)} to {dividend.recipients} holder{dividend.recipients === 1 ? "" : "s"}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Resolutions */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Vote className="h-3.5 w-3.5" />
+          <span className="text-xs font-semibold uppercase tracking-wider">Shareholder Resolutions</span>
+        </div>
+        {canPropose && (
+          <div className="flex items-center gap-2">
+            <Select value={resolutionKind} onValueChange={(value) => setResolutionKind(value as CompanyResolutionKind)}>
+              <SelectTrigger className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(COMPANY_SHARES_CONFIG.resolutionLabels) as CompanyResolutionKind[]).map((kind) => (
+                  <SelectItem key={kind} value={kind}>
+                    {COMPANY_SHARES_CONFIG.resolutionLabels[kind]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {resolutionKind === "hire_wage" && (
+              <Input
+                type="number"
+                min="0.01"
+                step="0.01"
+                placeholder="Max wage/day"
+                value={resolutionWage}
+                onChange={(e) => setResolutionWage(e.target.value)}
+                className={`${inputClassName} w-32`}
+              />
+            )}
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={pending === "propose"}
+              onClick={() =>
+                run(
+                  "propose",
+                  () => proposeCompanyResolutionAction(companyId, resolutionKind, Number(resolutionWage)),
+                  "Resolution proposed"
+                )
+              }
+            >
+              Propose
+            </Button>
+          </div>
+        )}
+        {capTable.resolutions.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No resolutions yet.</p>
+        ) : (
+          capTable.resolutions.map((resolution) => {
+            const isOpen = resolution.status === "open";
+            return (
+              <div
+                key={resolution.id}
+                className="flex items-center gap-3 rounded-lg border border-border/60 bg-muted/10 p-3"
+              >
+                <div className="flex-1 min-w-0 space-y-0.5">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-bold text-foreground">
+                      {COMPANY_SHARES_CONFIG.resolutionLabels[resolution.kind]}
+                      {resolution.max_wage !== null ? ` up to ${resolution.max_wage}/day` : ""}
+                    </span>
+                    <Badge variant={isOpen ? "default" : "outline"} className="text-xs capitalize">
+                      {resolution.status}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground tabular-nums">
+                    For {resolution.shares_for.toLocaleString()} · Against {resolution.shares_against.toLocaleString()} of{" "}
+                    {capTable.total_shares.toLocaleString()}
+                    {resolution.proposed_by_username ? ` · by ${resolution.proposed_by_username}` : ""}
+                    {isOpen ? ` · closes ${new Date(resolution.expires_at).toLocaleString()}` : ""}
+                  </p>
+                </div>
+                {isOpen && capTable.my_shares > 0 && (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      size="sm"
+                      variant={resolution.my_vote === true ? "default" : "outline"}
+                      className="h-8 px-2.5 text-xs"
+                      disabled={pending === resolution.id}
+                      onClick={() =>
+                        run(resolution.id, () => voteCompanyResolutionAction(resolution.id, true), "Vote recorded")
+                      }
+                    >
+                      For
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={resolution.my_vote === false ? "default" : "outline"}
+                      className="h-8 px-2.5 text-xs"
+                      disabled={pending === resolution.id}
+                      onClick={() =>
+                        run(resolution.id, () => voteCompanyResolutionAction(resolution.id, false), "Vote recorded")
+                      }
+                    >
+                      Against
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
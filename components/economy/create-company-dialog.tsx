@@ -17,6 +17,7 @@ import {
   COMPANY_TYPES,
   RAW_MATERIAL_TYPES,
   PRODUCTION_TYPES,
+  LOGISTICS_TYPES,
 } from "@/lib/company-config";
 import { createCompany } from "@/app/actions/companies";
 import { toast } from "sonner";
@@ -299,6 +300,61 @@ export function CreateCompanyDialog({
             </div>
           </div>
 
+          {/* LOGISTICS Section */}
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-foreground uppercase tracking-wider">
+              Logistics
+            </label>
+            <p className="text-[10px] text-muted-foreground">
+              Store goods on this hex
+            </p>
+            <div className="grid grid-cols-1 gap-2">
+              {LOGISTICS_TYPES.map((type) => {
+                const isSelected = selectedTypeKey === type.key;
+                const IconComponent = type.icon;
+
+                return (
+                  <button
+                    key={type.key}
+                    type="button"
+                    onClick={() => setSelectedTypeKey(type.key)}
+                    className={cn(
+                      "flex items-start gap-3 p-3 rounded-lg border transition-all text-left",
+                      isSelected
+                        ? "border-primary bg-primary/10"
+                        : "border-border/60 bg-card hover:bg-muted/50"
+                    )}
+                  >
+                    <div
+                      className={cn(
+                        "flex h-9 w-9 items-center justify-center rounded-lg shrink-0",
+                        isSelected
+                          ? "bg-primary text-primary-foreground"
+                          : "bg-muted text-muted-foreground"
+                      )}
+                    >
+                      <IconComponent className="h-4 w-4" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <h4 className="text-sm font-bold text-foreground">
+                        {type.name}
+                      </h4>
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {type.description}
+                      </p>
+                      <div className="flex items-center gap-1 text-xs mt-2">
+                        <Coins className="h-3 w-3 text-yellow-500" />
+                        <span className="font-semibold">
+                          {type.build_cost_gold}
+                        </span>
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
           {/* Action Buttons */}
           <div className="flex gap-2 pt-2">
             <Button
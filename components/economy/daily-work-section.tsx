@@ -27,7 +27,8 @@ import {
 import { toast } from "sonner";
 import type { UserEmployment } from "@/lib/types/companies";
 import { getCompanyIcon } from "@/lib/company-config";
-import { CommunityCoinIcon } from "@/components/ui/coin-icon";
+import { CommunityCoinIcon, GoldCoinIcon } from "@/components/ui/coin-icon";
+import { EmploymentContractDetails } from "@/components/economy/employment-contract-details";
 import { cn } from "@/lib/utils";
 import { pickPrimaryEmployment } from "@/lib/company-employment";
 
@@ -39,6 +40,7 @@ interface DailyWorkSectionProps {
   emptyState: React.ReactNode;
   onWork: (employment: UserEmployment) => Promise<void> | void;
   onLeave?: (employment: UserEmployment) => Promise<boolean> | boolean;
+  onContractChange?: () => void;
 }
 
 export function DailyWorkSection({
@@ -49,6 +51,7 @@ export function DailyWorkSection({
   emptyState,
   onWork,
   onLeave,
+  onContractChange,
 }: DailyWorkSectionProps) {
   const [leaveTarget, setLeaveTarget] = useState<UserEmployment | null>(null);
   const [isLeaveDialogOpen, setIsLeaveDialogOpen] = useState(false);
@@ -122,8 +125,17 @@ export function DailyWorkSection({
                   </div>
 
                   <div className="flex items-center gap-1 text-sm font-semibold shrink-0">
-                    <CommunityCoinIcon className="h-4 w-4" />
-                    <span>{employment.wage_per_day_community_coin}</span>
+                    {employment.contract_type === "term" ? (
+                      <>
+                        <GoldCoinIcon className="h-4 w-4" />
+                        <span>{employment.wage_gold_per_day}</span>
+                      </>
+                    ) : (
+                      <>
+                        <CommunityCoinIcon className="h-4 w-4" />
+                        <span>{employment.wage_per_day_community_coin}</span>
+                      </>
+                    )}
                   </div>
 
                   <div className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
@@ -165,7 +177,7 @@ export function DailyWorkSection({
                     {onLeave && (
                       <Button
                         onClick={() => handleOpenLeave(employment)}
-                        disabled={isLeaving}
+                        disabled={isLeaving || Boolean(employment.terminates_at)}
                         size="icon-sm"
                         variant="outline"
                         className="border-border/60"
@@ -176,6 +188,7 @@ export function DailyWorkSection({
                     )}
                   </div>
                 </div>
+                <EmploymentContractDetails employment={employment} onChange={onContractChange} />
               </Card>
             );
           })}
@@ -201,7 +214,9 @@ export function DailyWorkSection({
                 Leave {leaveTarget?.company_name}?
               </AlertDialogTitle>
               <AlertDialogDescription className="text-sm leading-relaxed">
-                You will stop earning daily wages here and lose access to this company&apos;s work.
+                {leaveTarget?.contract_type === "term" && (leaveTarget.notice_days ?? 0) > 0
+                  ? `Your contract requires ${leaveTarget.notice_days} days notice. You keep working and earning until then.`
+                  : "You will stop earning daily wages here and lose access to this company's work."}
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter className="gap-3 pt-6">
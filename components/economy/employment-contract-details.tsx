@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { FileSignature, Flag, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { showErrorToast } from "@/lib/toast-utils";
+import { EMPLOYMENT_CONTRACT_CONFIG } from "@/lib/company-config";
+import {
+  fileEmployerComplaintAction,
+  respondEmploymentOfferAction,
+  type EmploymentActionResult,
+} from "@/app/actions/employment-contracts";
+import type { EmployerComplaintKind, UserEmployment } from "@/lib/types/companies";
+
+interface EmploymentContractDetailsProps {
+  employment: UserEmployment;
+  onChange?: () => void;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString();
+}
+
+/**
+ * The employee's side of a job: contract terms, a pending contract offer and
+ * complaints against the employer.
+ */
+export function EmploymentContractDetails({ employment, onChange }: EmploymentContractDetailsProps) {
+  const [pending, setPending] = useState<string | null>(null);
+  const [showComplaint, setShowComplaint] = useState(false);
+  const [complaintKind, setComplaintKind] = useState<EmployerComplaintKind>("unpaid_wages");
+  const [complaintText, setComplaintText] = useState("");
+  const offer = employment.pending_offer;
+
+  const run = async (key: string, action: () => Promise<EmploymentActionResult>, successMessage: string) => {
+    setPending(key);
+    try {
+      const result = await action();
+      if (!result.success) {
+        showErrorToast("Request failed", { description: result.error });
+        return false;
+      }
+      toast.success(successMessage);
+      onChange?.();
+      return true;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleComplaint = async () => {
+    const filed = await run(
+      "complaint",
+      () => fileEmployerComplaintAction(employment.company_id, complaintKind, complaintText),
+      "Complaint filed"
+    );
+    if (filed) {
+      setShowComplaint(false);
+      setComplaintText("");
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2 border-t border-border/60 pt-3">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+        {employment.contract_type === "term" ? (
+          <>
+            <span className="flex items-center gap-1">
+              <FileSignature className="h-3 w-3" />
+              {employment.wage_gold_per_day} gold/day
+              {employment.ends_at && <> until {formatDate(employment.ends_at)}</>}
+            </span>
+            <span>{employment.notice_days ?? 0} days notice</span>
+            {employment.min_days_per_week && (
+              <span>
+                Worked {employment.days_worked_this_week ?? 0}/{employment.min_days_per_week} days this week
+              </span>
+            )}
+          </>
+        ) : (
+          <span>Paid per work day, no fixed term</span>
+        )}
+        {employment.terminates_at && (
+          <span className="text-amber-500">
+            {employment.notice_given_by === "employee" ? "You leave" : "Let go"} on {formatDate(employment.terminates_at)}
+          </span>
+        )}
+        {employment.employer_reputation !== undefined && (
+          <span>Employer reputation {employment.employer_reputation}/100</span>
+        )}
+        <button
+          type="button"
+          onClick={() => setShowComplaint(!showComplaint)}
+          className="ml-auto flex items-center gap-1 hover:text-foreground"
+        >
+          <Flag className="h-3 w-3" />
+          Complain
+        </button>
+      </div>
+
+      {offer && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-primary/40 bg-primary/5 p-2">
+          <p className="flex-1 text-xs text-muted-foreground">
+            Contract offer: {offer.wage_gold_per_day} gold/day for {offer.term_days} days, {offer.notice_days} days
+            notice
+            {offer.min_days_per_week && <>, at least {offer.min_days_per_week} days a week</>}. Open until{" "}
+            {formatDate(offer.expires_at)}.
+          </p>
+          <Button
+            size="sm"
+            disabled={pending !== null}
+            onClick={() => run("accept", () => respondEmploymentOfferAction(offer.id, true), "Contract signed")}
+          >
+            {pending === "accept" ? <Loader2 className="h-4 w-4 animate-spin" /> : "Accept"}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={pending !== null}
+            onClick={() => run("decline", () => respondEmploymentOfferAction(offer.id, false), "Offer declined")}
+          >
+            {pending === "decline" ? <Loader2 className="h-4 w-4 animate-spin" /> : "Decline"}
+          </Button>
+        </div>
+      )}
+
+      {showComplaint && (
+        <div className="space-y-2 rounded-lg border border-border/60 bg-muted/20 p-2">
+          <Select value={complaintKind} onValueChange={(value) => setComplaintKind(value as EmployerComplaintKind)}>
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(EMPLOYMENT_CONTRACT_CONFIG.complaintKinds) as EmployerComplaintKind[]).map((kind) => (
+                <SelectItem key={kind} value={kind}>
+                  {EMPLOYMENT_CONTRACT_CONFIG.complaintKinds[kind]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            value={complaintText}
+            onChange={(e) => setComplaintText(e.target.value)}
+            maxLength={500}
+            placeholder="What happened?"
+            className="text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            Complaints lower the employer&apos;s reputation for {EMPLOYMENT_CONTRACT_CONFIG.reputationWindowDays} days.
+            You can file one per company every {EMPLOYMENT_CONTRACT_CONFIG.complaintCooldownDays} days.
+          </p>
+          <Button size="sm" disabled={pending !== null || !complaintText.trim()} onClick={handleComplaint}>
+            {pending === "complaint" ? <Loader2 className="h-4 w-4 animate-spin" /> : "File Complaint"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
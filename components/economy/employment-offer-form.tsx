@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { showErrorToast } from "@/lib/toast-utils";
+import { EMPLOYMENT_CONTRACT_CONFIG } from "@/lib/company-config";
+import { offerEmploymentContractAction } from "@/app/actions/employment-contracts";
+
+interface EmploymentOfferFormProps {
+  contractId: string;
+  employeeName: string;
+  onSent?: () => void;
+  onCancel: () => void;
+}
+
+const inputClassName = "h-9 text-sm";
+
+/**
+ * Term contract offer to an existing employee: a daily gold wage paid from
+ * company cash, a duration, a notice period and an optional weekly minimum.
+ */
+export function EmploymentOfferForm({ contractId, employeeName, onSent, onCancel }: EmploymentOfferFormProps) {
+  const [wage, setWage] = useState("1");
+  const [termDays, setTermDays] = useState("30");
+  const [noticeDays, setNoticeDays] = useState("3");
+  const [minDays, setMinDays] = useState("");
+  const [sending, setSending] = useState(false);
+
+  const handleSend = async () => {
+    setSending(true);
+    try {
+      const result = await offerEmploymentContractAction(contractId, {
+        wage_gold_per_day: Number(wage),
+        term_days: Number(termDays),
+        notice_days: Number(noticeDays),
+        min_days_per_week: minDays ? Number(minDays) : null,
+      });
+      if (!result.success) {
+        showErrorToast("Offer failed", { description: result.error });
+        return;
+      }
+      toast.success(`Contract offered to ${employeeName}`);
+      onSent?.();
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-border/60 bg-muted/20 p-3 space-y-3">
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Gold / day</Label>
+          <Input
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={wage}
+            onChange={(e) => setWage(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Days</Label>
+          <Input
+            type="number"
+            min="1"
+            max={EMPLOYMENT_CONTRACT_CONFIG.maxTermDays}
+            value={termDays}
+            onChange={(e) => setTermDays(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Notice days</Label>
+          <Input
+            type="number"
+            min="0"
+            max={EMPLOYMENT_CONTRACT_CONFIG.maxNoticeDays}
+            value={noticeDays}
+            onChange={(e) => setNoticeDays(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Min days / week</Label>
+          <Input
+            type="number"
+            min="1"
+            max="7"
+            placeholder="None"
+            value={minDays}
+            onChange={(e) => setMinDays(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Wages are paid daily from the company&apos;s cash. Anything it cannot cover is owed to {employeeName} as a
+        debt. The offer is open for {EMPLOYMENT_CONTRACT_CONFIG.offerExpiryDays} days.
+      </p>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSend} disabled={sending || !wage || !termDays} className="h-9">
+          {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Send Offer"}
+        </Button>
+        <Button size="sm" variant="outline" onClick={onCancel} className="h-9">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
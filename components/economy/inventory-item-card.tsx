@@ -80,7 +80,11 @@ export function InventoryItemCard({ item, communityId, wallet }: InventoryItemCa
       });
 
       if (result.success) {
-        toast.success("Listing created successfully");
+        toast.success(
+          result.quantitySold
+            ? `Listing created. ${result.quantitySold} sold to buy orders for ${result.communityCoinReceived?.toFixed(2)} coins`
+            : "Listing created successfully"
+        );
         setShowSellDialog(false);
         setSellQuantity(1);
         setSellPriceCommunityCoin(10);
@@ -1,10 +1,11 @@
 "use client";
 
 import React from "react";
-import { getUserCommunityId, getUserInventory } from "@/app/actions/economy";
-import type { InventoryByCategory, WalletDisplay } from "@/lib/types/economy";
+import { getUserCommunityId, getUserInventory, getUserStorage } from "@/app/actions/economy";
+import type { InventoryByCategory, StorageLocation, WalletDisplay } from "@/lib/types/economy";
 import { PageSection } from "@/components/layout/page-section";
 import { InventoryGrid } from "./inventory-grid";
+import { StoragePanel } from "./storage-panel";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { H1, P } from "@/components/ui/typography";
@@ -72,6 +73,8 @@ function InventoryGridSkeleton() {
 export function InventoryPageClient({ userId, initialWallet }: InventoryPageClientProps) {
   const [inventory, setInventory] = React.useState<InventoryByCategory[] | null>(null);
   const [communityId, setCommunityId] = React.useState<string | null>(null);
+  const [storage, setStorage] = React.useState<StorageLocation[]>([]);
+  const [reloadKey, setReloadKey] = React.useState(0);
   const [isLoading, setIsLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
 
@@ -85,9 +88,10 @@ export function InventoryPageClient({ userId, initialWallet }: InventoryPageClie
       try {
         setIsLoading(true);
         setError(null);
-        const [inventoryResult, communityResult] = await Promise.allSettled([
+        const [inventoryResult, communityResult, storageResult] = await Promise.allSettled([
           getUserInventory(userId),
           getUserCommunityId(),
+          getUserStorage(),
         ]);
 
         if (!mounted) return;
@@ -101,6 +105,10 @@ export function InventoryPageClient({ userId, initialWallet }: InventoryPageClie
         if (communityResult.status === "fulfilled") {
           setCommunityId(communityResult.value ?? null);
         }
+
+        if (storageResult.status === "fulfilled") {
+          setStorage(storageResult.value);
+        }
       } catch (err) {
         console.error("Error fetching inventory:", err);
         if (mounted) {
@@ -118,7 +126,7 @@ export function InventoryPageClient({ userId, initialWallet }: InventoryPageClie
     return () => {
       mounted = false;
     };
-  }, [userId]);
+  }, [userId, reloadKey]);
 
   return (
     <PageSection>
@@ -126,7 +134,7 @@ export function InventoryPageClient({ userId, initialWallet }: InventoryPageClie
         <div className="space-y-2">
           <H1>Inventory</H1>
           <P className="max-w-2xl font-medium">
-            Your personal raw materials and products.
+            Your raw materials and products at your current location. Goods elsewhere stay in storage until you return or ship them.
           </P>
         </div>
 
@@ -179,6 +187,10 @@ export function InventoryPageClient({ userId, initialWallet }: InventoryPageClie
             wallet={initialWallet}
           />
         )}
+
+        {!isLoading && !error && (
+          <StoragePanel locations={storage} onChange={() => setReloadKey((key) => key + 1)} />
+        )}
       </div>
     </PageSection>
   );
@@ -0,0 +1,476 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Landmark, Loader2, PiggyBank, Repeat, TrendingDown, TrendingUp } from "lucide-react";
+import { toast } from "sonner";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip as ChartTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GoldCoinIcon, CommunityCoinIcon } from "@/components/ui/coin-icon";
+import { typography, borders } from "@/lib/design-system";
+import { formatGold } from "@/lib/economy-config";
+import {
+  formatPercent,
+  getCirculatingSupply,
+  getReserveCoverage,
+  type MonetaryStats,
+  type MonetaryTrend,
+  type SupplySnapshot,
+} from "@/lib/governance/monetary-policy";
+import {
+  depositSavingsAction,
+  getSavingsAccountsAction,
+  withdrawSavingsAction,
+  type SavingsAccount,
+} from "@/app/actions/central-bank";
+
+interface CurrencyOption {
+  id: string;
+  currency_name: string;
+  currency_symbol: string;
+  total_supply: number;
+}
+
+interface OpenMarketOperationRow {
+  id: string;
+  proposal_id: string;
+  operation: "buy" | "sell";
+  gold_amount: number;
+  currency_amount: number;
+  filled_gold_amount: number;
+  status: "open" | "completed" | "cancelled";
+  created_at: string;
+}
+
+interface MonetaryPolicyData {
+  stats: MonetaryStats;
+  history: SupplySnapshot[];
+  trend: MonetaryTrend;
+  operations: OpenMarketOperationRow[];
+}
+
+interface MonetaryPolicyPanelProps {
+  currencies: CurrencyOption[];
+}
+
+function formatSignedPercent(value: number | null) {
+  if (value === null) return "—";
+  return `${value > 0 ? "+" : ""}${formatPercent(value)}`;
+}
+
+/**
+ * Money supply, inflation and central bank policy for one community currency,
+ * plus the viewer's savings deposits
+ */
+export function MonetaryPolicyPanel({ currencies }: MonetaryPolicyPanelProps) {
+  const issuedCurrencies = useMemo(
+    () => currencies.filter((currency) => Number(currency.total_supply) > 0),
+    [currencies]
+  );
+
+  const [selectedCurrencyId, setSelectedCurrencyId] = useState<string | null>(null);
+  const [range, setRange] = useState("month");
+  const [data, setData] = useState<MonetaryPolicyData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [savings, setSavings] = useState<SavingsAccount[]>([]);
+  const [savingsAmount, setSavingsAmount] = useState("");
+  const [savingsPending, setSavingsPending] = useState(false);
+
+  const currencyId = selectedCurrencyId ?? issuedCurrencies[0]?.id ?? null;
+
+  useEffect(() => {
+    if (!currencyId) return;
+    let cancelled = false;
+
+    async function loadPolicy() {
+      setLoading(true);
+      try {
+        const res = await fetch(
+          `/api/centralbank?action=monetary_policy&community_currency_id=${currencyId}&range=${range}`
+        );
+        if (res.ok && !cancelled) {
+          setData(await res.json());
+        }
+      } catch (err) {
+        console.error("Failed to load monetary policy:", err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    void loadPolicy();
+    return () => {
+      cancelled = true;
+    };
+  }, [currencyId, range]);
+
+  const loadSavings = useCallback(async () => {
+    try {
+      setSavings(await getSavingsAccountsAction());
+    } catch (err) {
+      console.error("Failed to load savings:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadInitialSavings() {
+      try {
+        const accounts = await getSavingsAccountsAction();
+        if (!cancelled) setSavings(accounts);
+      } catch (err) {
+        console.error("Failed to load savings:", err);
+      }
+    }
+
+    void loadInitialSavings();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const stats = data?.stats.community_currency_id === currencyId ? data.stats : null;
+  const account = savings.find((entry) => entry.community_currency_id === currencyId);
+  const coverage = stats ? getReserveCoverage(stats) : null;
+  const chartData = (data?.history ?? []).map((snapshot) => ({
+    date: snapshot.snapshot_date.slice(5),
+    supply: Number(snapshot.total_supply),
+    rate: snapshot.reference_rate !== null ? Number(snapshot.reference_rate) : null,
+  }));
+
+  async function handleSavings(direction: "deposit" | "withdraw") {
+    const amount = Number(savingsAmount);
+    if (!currencyId || !Number.isFinite(amount) || amount <= 0) {
+      toast.error("Enter an amount to move");
+      return;
+    }
+
+    setSavingsPending(true);
+    try {
+      const result =
+        direction === "deposit"
+          ? await depositSavingsAction(currencyId, amount)
+          : await withdrawSavingsAction(currencyId, amount);
+
+      if (!result.success) {
+        toast.error(result.error ?? "Request failed");
+        return;
+      }
+
+      toast.success(direction === "deposit" ? "Deposited to savings" : "Withdrawn from savings");
+      setSavingsAmount("");
+      await loadSavings();
+    } finally {
+      setSavingsPending(false);
+    }
+  }
+
+  if (issuedCurrencies.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <p className={`${typography.bodySm.size} text-muted-foreground text-center`}>
+            No community has issued a currency yet
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const symbol = stats?.currency_symbol ?? "";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className={`${typography.headingMd.size} ${typography.headingMd.weight}`}>
+            {stats ? `${stats.community_name} Central Bank` : "Central Bank"}
+          </h2>
+          <p className={`${typography.bodySm.size} text-muted-foreground`}>
+            Policy changes are enacted by Monetary Policy and Open-Market Operation laws
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={currencyId ?? undefined} onValueChange={setSelectedCurrencyId}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Select currency" />
+            </SelectTrigger>
+            <SelectContent>
+              {issuedCurrencies.map((currency) => (
+                <SelectItem key={currency.id} value={currency.id}>
+                  {currency.currency_name} ({currency.currency_symbol})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={range} onValueChange={setRange}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="week">7 days</SelectItem>
+              <SelectItem value="month">30 days</SelectItem>
+              <SelectItem value="quarter">90 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Money supply and policy */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card variant="compact">
+          <CardHeader className="pb-3">
+            <CardTitle className={typography.headingSm.size}>Money Supply</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading || !stats ? (
+              <Skeleton className="h-8 w-32" />
+            ) : (
+              <>
+                <div className={`${typography.displaySm.size} ${typography.displaySm.weight} flex items-center gap-2`}>
+                  <CommunityCoinIcon className="h-6 w-6" />
+                  {formatGold(stats.total_supply)}
+                </div>
+                <p className={`${typography.bodySm.size} text-muted-foreground mt-1`}>
+                  {formatGold(getCirculatingSupply(stats))} {symbol} circulating · growth{" "}
+                  {formatSignedPercent(data?.trend.supply_growth ?? null)}
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card variant="compact">
+          <CardHeader className="pb-3">
+            <CardTitle className={typography.headingSm.size}>Inflation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading || !stats ? (
+              <Skeleton className="h-8 w-24" />
+            ) : (
+              <>
+                <div
+                  className={`${typography.displaySm.size} ${typography.displaySm.weight} flex items-center gap-2 ${
+                    (data?.trend.inflation ?? 0) > 0 ? "text-red-600" : "text-green-600"
+                  }`}
+                >
+                  {(data?.trend.inflation ?? 0) > 0 ? (
+                    <TrendingUp className="h-6 w-6" />
+                  ) : (
+                    <TrendingDown className="h-6 w-6" />
+                  )}
+                  {formatSignedPercent(data?.trend.inflation ?? null)}
+                </div>
+                <p className={`${typography.bodySm.size} text-muted-foreground mt-1 flex items-center gap-1`}>
+                  1 {symbol} = <GoldCoinIcon className="h-3 w-3" />
+                  {stats.reference_rate !== null ? Number(stats.reference_rate).toFixed(4) : "—"} gold
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card variant="compact">
+          <CardHeader className="pb-3">
+            <CardTitle className={typography.headingSm.size}>Policy Rate</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading || !stats ? (
+              <Skeleton className="h-8 w-20" />
+            ) : (
+              <>
+                <div className={`${typography.displaySm.size} ${typography.displaySm.weight} flex items-center gap-2`}>
+                  <PiggyBank className="h-6 w-6" />
+                  {formatPercent(stats.policy_rate)}
+                </div>
+                <p className={`${typography.bodySm.size} text-muted-foreground mt-1`}>
+                  {formatGold(stats.savings_balance)} {symbol} saved by {stats.depositors}{" "}
+                  {stats.depositors === 1 ? "depositor" : "depositors"}
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card variant="compact">
+          <CardHeader className="pb-3">
+            <CardTitle className={typography.headingSm.size}>Reserves</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading || !stats ? (
+              <Skeleton className="h-8 w-32" />
+            ) : (
+              <>
+                <div className={`${typography.displaySm.size} ${typography.displaySm.weight} flex items-center gap-2`}>
+                  <GoldCoinIcon className="h-6 w-6" />
+                  {formatGold(stats.treasury_gold)}
+                </div>
+                <p className={`${typography.bodySm.size} text-muted-foreground mt-1`}>
+                  Coverage {coverage !== null ? formatPercent(coverage) : "—"} · required{" "}
+                  {formatPercent(stats.reserve_ratio)}
+                </p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Supply and exchange rate over time */}
+      <Card>
+        <CardHeader>
+          <CardTitle className={typography.headingMd.size}>Supply & Exchange Rate</CardTitle>
+          <p className={`${typography.bodySm.size} text-muted-foreground`}>
+            Daily snapshots of total supply ({symbol}) and the gold price of one {symbol}
+          </p>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : chartData.length < 2 ? (
+            <p className={`${typography.bodySm.size} text-muted-foreground`}>
+              Not enough history yet. Snapshots are recorded daily.
+            </p>
+          ) : (
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="date" tick={{ fontSize: 11 }} />
+                  <YAxis yAxisId="supply" tick={{ fontSize: 11 }} width={60} />
+                  <YAxis yAxisId="rate" orientation="right" tick={{ fontSize: 11 }} width={60} />
+                  <ChartTooltip />
+                  <Line
+                    yAxisId="supply"
+                    type="monotone"
+                    dataKey="supply"
+                    name={`Supply (${symbol})`}
+                    stroke="hsl(160, 60%, 45%)"
+                    dot={false}
+                  />
+                  <Line
+                    yAxisId="rate"
+                    type="monotone"
+                    dataKey="rate"
+                    name="Gold per unit"
+                    stroke="hsl(45, 90%, 55%)"
+                    dot={false}
+                    connectNulls
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Open-market operations */}
+        <Card>
+          <CardHeader>
+            <CardTitle className={`${typography.headingMd.size} flex items-center gap-2`}>
+              <Repeat className="h-4 w-4" />
+              Open-Market Operations
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : !data || data.operations.length === 0 ? (
+              <p className={`${typography.bodySm.size} text-muted-foreground`}>
+                No open-market operations yet
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {data.operations.map((operation) => {
+                  const filled = operation.gold_amount > 0 ? operation.filled_gold_amount / operation.gold_amount : 0;
+                  return (
+                    <div
+                      key={operation.id}
+                      className={`p-3 rounded ${borders.hairline} ${borders.muted} flex justify-between items-center`}
+                    >
+                      <div>
+                        <p className={`${typography.bodySm.size} font-semibold`}>
+                          {operation.operation === "buy" ? "Buy" : "Sell"}{" "}
+                          {formatGold(operation.currency_amount)} {symbol} for {formatGold(operation.gold_amount)} gold
+                        </p>
+                        <p className={`${typography.bodySm.size} text-muted-foreground`}>
+                          {new Date(operation.created_at).toLocaleDateString()} · {formatPercent(filled)} filled
+                        </p>
+                      </div>
+                      <Badge variant={operation.status === "open" ? "success" : "outline"}>
+                        {operation.status}
+                      </Badge>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Viewer's savings */}
+        <Card>
+          <CardHeader>
+            <CardTitle className={`${typography.headingMd.size} flex items-center gap-2`}>
+              <Landmark className="h-4 w-4" />
+              Your Savings
+            </CardTitle>
+            <p className={`${typography.bodySm.size} text-muted-foreground`}>
+              Deposits earn the policy rate, paid daily in newly issued {symbol || "currency"}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className={`p-2 rounded ${borders.hairline} ${borders.muted}`}>
+                <p className="text-xs text-muted-foreground">Deposited</p>
+                <p className="font-semibold">{formatGold(account?.balance ?? 0)}</p>
+              </div>
+              <div className={`p-2 rounded ${borders.hairline} ${borders.muted}`}>
+                <p className="text-xs text-muted-foreground">Interest earned</p>
+                <p className="font-semibold text-green-600">+{formatGold(account?.interest_earned ?? 0)}</p>
+              </div>
+              <div className={`p-2 rounded ${borders.hairline} ${borders.muted}`}>
+                <p className="text-xs text-muted-foreground">In wallet</p>
+                <p className="font-semibold">{formatGold(account?.wallet_balance ?? 0)}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder={`Amount (${symbol})`}
+                value={savingsAmount}
+                onChange={(e) => setSavingsAmount(e.target.value)}
+                disabled={savingsPending}
+              />
+              <Button onClick={() => handleSavings("deposit")} disabled={savingsPending || !savingsAmount}>
+                {savingsPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Deposit"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleSavings("withdraw")}
+                disabled={savingsPending || !savingsAmount}
+              >
+                Withdraw
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
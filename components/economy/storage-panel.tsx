@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Loader2, MapPin, Truck, Warehouse } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { H2, P } from "@/components/ui/typography";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { showErrorToast } from "@/lib/toast-utils";
+import { formatGold } from "@/lib/economy-config";
+import { calculateHexDistance, calculateShippingCost } from "@/lib/travel";
+import { shipInventoryAction } from "@/app/actions/economy";
+import type { ShippingPayment, StorageLocation, StoredItem } from "@/lib/types/economy";
+
+interface StoragePanelProps {
+  locations: StorageLocation[];
+  onChange?: () => void;
+}
+
+interface ShipTarget {
+  from: StorageLocation;
+  item: StoredItem;
+}
+
+/**
+ * Storage at each hex where the user keeps goods: capacity used, contents,
+ * and shipping between locations
+ */
+export function StoragePanel({ locations, onChange }: StoragePanelProps) {
+  const [target, setTarget] = useState<ShipTarget | null>(null);
+  const [quantity, setQuantity] = useState("");
+  const [destination, setDestination] = useState("");
+  const [payment, setPayment] = useState<ShippingPayment>("tickets");
+  const [shipping, setShipping] = useState(false);
+
+  const destinations = target ? locations.filter((location) => location.hex_id !== target.from.hex_id) : [];
+  const shipQuantity = Number(quantity) || 0;
+  const cost =
+    target && destination && shipQuantity > 0
+      ? calculateShippingCost(calculateHexDistance(target.from.hex_id, destination), shipQuantity)
+      : null;
+
+  const openShip = (from: StorageLocation, item: StoredItem) => {
+    setTarget({ from, item });
+    setQuantity(String(item.quantity));
+    setDestination(locations.find((location) => location.hex_id !== from.hex_id)?.hex_id ?? "");
+  };
+
+  const handleShip = async () => {
+    if (!target || !destination) return;
+    setShipping(true);
+    try {
+      const result = await shipInventoryAction({
+        resource_id: target.item.resource_id,
+        quality_id: target.item.quality_id,
+        quantity: shipQuantity,
+        from_hex: target.from.hex_id,
+        to_hex: destination,
+        payment,
+      });
+      if (!result.success) {
+        showErrorToast("Shipping failed", { description: result.error });
+        return;
+      }
+      toast.success(
+        result.tickets_used
+          ? `Shipped for ${result.tickets_used} travel tickets`
+          : `Shipped for ${formatGold(result.gold_paid ?? 0)} gold`
+      );
+      setTarget(null);
+      onChange?.();
+    } finally {
+      setShipping(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <H2>
+        <Warehouse className="h-5 w-5 text-foreground" />
+        Storage
+      </H2>
+      <P className="text-sm">
+        Goods stay at the hex where you leave them; only travel tickets go with you. Build a warehouse to store more
+        on a hex.
+      </P>
+
+      {locations.length === 0 ? (
+        <P className="text-sm">Travel somewhere to start storing goods.</P>
+      ) : (
+        <div className="space-y-3">
+          {locations.map((location) => (
+            <div key={location.hex_id} className="space-y-2 rounded-lg border border-border/60 bg-muted/10 p-3">
+              <div className="flex items-center gap-2">
+                <MapPin className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm font-bold text-foreground">{location.location_name}</span>
+                {location.is_current && <Badge variant="secondary">You are here</Badge>}
+                <span className="ml-auto text-xs text-muted-foreground tabular-nums">
+                  {location.used.toLocaleString()} / {location.capacity.toLocaleString()} units
+                </span>
+              </div>
+              <Progress
+                size="sm"
+                value={location.capacity > 0 ? (location.used / location.capacity) * 100 : 100}
+                color={location.used >= location.capacity ? "destructive" : "primary"}
+              />
+
+              {location.items.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {location.items.map((item) => (
+                    <button
+                      key={`${item.resource_id}-${item.quality_id}`}
+                      type="button"
+                      disabled={locations.length < 2}
+                      onClick={() => openShip(location, item)}
+                      className="flex items-center gap-1 rounded-md border border-border/60 px-2 py-1 text-xs text-muted-foreground hover:bg-muted/50 hover:text-foreground disabled:pointer-events-none"
+                    >
+                      {item.resource_name} Q{item.quality_level} × {item.quantity.toLocaleString()}
+                      {locations.length > 1 && <Truck className="h-3 w-3" />}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {target?.from.hex_id === location.hex_id && (
+                <div className="flex flex-wrap items-center gap-2 rounded-lg border border-primary/40 bg-primary/5 p-2">
+                  <span className="text-xs text-muted-foreground">
+                    Ship {target.item.resource_name} Q{target.item.quality_level}
+                  </span>
+                  <Input
+                    type="number"
+                    min="1"
+                    max={target.item.quantity}
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                    className="h-8 w-24 text-sm"
+                  />
+                  <Select value={destination} onValueChange={setDestination}>
+                    <SelectTrigger className="h-8 w-40 text-sm">
+                      <SelectValue placeholder="Destination" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {destinations.map((option) => (
+                        <SelectItem key={option.hex_id} value={option.hex_id}>
+                          {option.location_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={payment} onValueChange={(value) => setPayment(value as ShippingPayment)}>
+                    <SelectTrigger className="h-8 w-44 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="tickets">
+                        {cost ? `${cost.tickets} travel tickets` : "Travel tickets"}
+                      </SelectItem>
+                      <SelectItem value="gold">{cost ? `${formatGold(cost.gold)} gold` : "Gold"}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button size="sm" disabled={shipping || !destination || shipQuantity <= 0} onClick={handleShip}>
+                    {shipping ? <Loader2 className="h-4 w-4 animate-spin" /> : "Ship"}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setTarget(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,469 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { FileSignature, Loader2, Plus, Truck } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { H2 } from "@/components/ui/typography";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { showErrorToast } from "@/lib/toast-utils";
+import { getAllQualities, getAllResources } from "@/app/actions/economy";
+import { getCommunityCurrencies } from "@/app/actions/market";
+import {
+  cancelSupplyContractAction,
+  deliverSupplyContractAction,
+  proposeSupplyContractAction,
+  respondSupplyContractAction,
+} from "@/app/actions/contracts";
+import type {
+  SupplyContract,
+  SupplyContractRole,
+  SupplyContractStatus,
+  UserCompany,
+} from "@/lib/types/companies";
+
+const STATUS_BADGES: Record<SupplyContractStatus, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  proposed: { label: "Proposed", variant: "secondary" },
+  active: { label: "Active", variant: "default" },
+  completed: { label: "Completed", variant: "outline" },
+  rejected: { label: "Rejected", variant: "outline" },
+  cancelled: { label: "Cancelled", variant: "outline" },
+  terminated: { label: "Terminated", variant: "destructive" },
+};
+
+interface SupplyContractsSectionProps {
+  contracts: SupplyContract[];
+  companies: UserCompany[];
+  isLoading: boolean;
+  onChange: () => void | Promise<void>;
+}
+
+/**
+ * Whether the supplier can deliver now: the current window has opened and
+ * nothing has been delivered for it yet
+ */
+function isDeliveryWindowOpen(contract: SupplyContract): boolean {
+  if (contract.status !== "active" || !contract.next_due_at) return false;
+  const dueAt = new Date(contract.next_due_at).getTime();
+  const opensAt = dueAt - contract.delivery_interval_days * 86400000;
+  const now = Date.now();
+  return now >= opensAt && now < dueAt;
+}
+
+function describeTerms(contract: SupplyContract): string {
+  return `${contract.quantity_per_delivery}× Q${contract.quality_level} ${contract.resource_name} every ${
+    contract.delivery_interval_days
+  } day${contract.delivery_interval_days === 1 ? "" : "s"} for ${contract.price_per_delivery} ${contract.currency_symbol}`;
+}
+
+/**
+ * Supply contracts on both sides: proposals to answer, deliveries to make and
+ * the history of finished contracts
+ */
+export function SupplyContractsSection({ contracts, companies, isLoading, onChange }: SupplyContractsSectionProps) {
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const runAction = async (
+    contractId: string,
+    action: () => Promise<{ success: boolean; error?: string }>,
+    successMessage: string
+  ) => {
+    setPendingId(contractId);
+    try {
+      const result = await action();
+      if (result.success) {
+        toast.success(successMessage);
+        await onChange();
+      } else {
+        showErrorToast("Contract update failed", { description: result.error });
+      }
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const companyName = (companyId: string | null) =>
+    companyId ? companies.find((company) => company.id === companyId)?.name ?? null : null;
+
+  const open = contracts.filter((contract) => contract.status === "proposed" || contract.status === "active");
+  const closed = contracts.filter((contract) => contract.status !== "proposed" && contract.status !== "active").slice(0, 10);
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <H2>
+          <FileSignature className="h-5 w-5 text-foreground" />
+          Supply Contracts ({open.length})
+        </H2>
+        <Button size="sm" variant="outline" onClick={() => setDialogOpen(true)} className="gap-1.5">
+          <Plus className="h-4 w-4" />
+          Propose Contract
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-16 w-full rounded-xl" />
+          <Skeleton className="h-16 w-full rounded-xl" />
+        </div>
+      ) : open.length === 0 && closed.length === 0 ? (
+        <Card className="p-6 border-border/60">
+          <p className="text-sm text-muted-foreground text-center">
+            No supply contracts yet. Propose one to buy or sell a resource on a schedule.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {[...open, ...closed].map((contract) => {
+            const badge = STATUS_BADGES[contract.status];
+            const isPending = pendingId === contract.id;
+            const ownCompany = companyName(contract.company_id);
+            const canRespond = contract.status === "proposed" && !contract.proposed_by_me;
+            const canDeliver = contract.role === "supplier" && isDeliveryWindowOpen(contract);
+            const delivered = contract.deliveries_made + contract.deliveries_missed;
+
+            return (
+              <Card key={contract.id} variant="compact" className="border-border/60">
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex-1 min-w-0 space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={badge.variant} className="text-xs">
+                        {badge.label}
+                      </Badge>
+                      <span className="text-sm font-bold text-foreground truncate">
+                        {contract.role === "buyer" ? "Buying from" : "Supplying"} {contract.counterparty_username}
+                        {contract.counterparty_company_name ? ` (${contract.counterparty_company_name})` : ""}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {describeTerms(contract)} · penalty {contract.penalty_per_miss} {contract.currency_symbol}
+                      {ownCompany ? ` · for ${ownCompany}` : ""}
+                    </p>
+                    {contract.status !== "proposed" && (
+                      <p className="text-xs text-muted-foreground">
+                        {delivered}/{contract.total_deliveries} windows · {contract.deliveries_made} delivered ·{" "}
+                        {contract.deliveries_missed} missed
+                        {contract.penalties_paid > 0 ? ` · ${contract.penalties_paid} ${contract.currency_symbol} in penalties` : ""}
+                        {contract.status === "active" && contract.next_due_at
+                          ? ` · next due ${new Date(contract.next_due_at).toLocaleString()}`
+                          : ""}
+                        {contract.termination_reason === "buyer_unfunded" ? " · buyer could not fund the next delivery" : ""}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-2 shrink-0">
+                    {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                    {canRespond && (
+                      <>
+                        <Button
+                          size="sm"
+                          disabled={isPending}
+                          onClick={() =>
+                            runAction(
+                              contract.id,
+                              () => respondSupplyContractAction(contract.id, true),
+                              "Contract accepted"
+                            )
+                          }
+                        >
+                          Accept
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isPending}
+                          onClick={() =>
+                            runAction(
+                              contract.id,
+                              () => respondSupplyContractAction(contract.id, false),
+                              "Contract rejected"
+                            )
+                          }
+                        >
+                          Reject
+                        </Button>
+                      </>
+                    )}
+                    {canDeliver && (
+                      <Button
+                        size="sm"
+                        disabled={isPending}
+                        className="gap-1.5"
+                        onClick={() =>
+                          runAction(contract.id, () => deliverSupplyContractAction(contract.id), "Delivery made")
+                        }
+                      >
+                        <Truck className="h-3.5 w-3.5" />
+                        Deliver
+                      </Button>
+                    )}
+                    {contract.status === "proposed" && contract.proposed_by_me && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isPending}
+                        onClick={() =>
+                          runAction(contract.id, () => cancelSupplyContractAction(contract.id), "Proposal withdrawn")
+                        }
+                      >
+                        Withdraw
+                      </Button>
+                    )}
+                    {contract.status === "active" && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={isPending}
+                        title={`Costs one penalty (${contract.penalty_per_miss} ${contract.currency_symbol})`}
+                        onClick={() =>
+                          runAction(contract.id, () => cancelSupplyContractAction(contract.id), "Contract terminated")
+                        }
+                      >
+                        Terminate
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <ProposeContractDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        companies={companies}
+        onProposed={onChange}
+      />
+    </section>
+  );
+}
+
+interface ProposeContractDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  companies: UserCompany[];
+  onProposed: () => void | Promise<void>;
+}
+
+type Option = { id: string; label: string };
+
+function ProposeContractDialog({ open, onOpenChange, companies, onProposed }: ProposeContractDialogProps) {
+  const [resources, setResources] = useState<Option[]>([]);
+  const [qualities, setQualities] = useState<Option[]>([]);
+  const [currencies, setCurrencies] = useState<Option[]>([]);
+  const [role, setRole] = useState<SupplyContractRole>("buyer");
+  const [counterparty, setCounterparty] = useState("");
+  const [companyId, setCompanyId] = useState<string>("none");
+  const [resourceId, setResourceId] = useState("");
+  const [qualityId, setQualityId] = useState("");
+  const [currencyId, setCurrencyId] = useState("");
+  const [quantity, setQuantity] = useState("10");
+  const [price, setPrice] = useState("");
+  const [penalty, setPenalty] = useState("");
+  const [intervalDays, setIntervalDays] = useState("1");
+  const [totalDeliveries, setTotalDeliveries] = useState("7");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open || resources.length > 0) return;
+    let cancelled = false;
+
+    async function loadOptions() {
+      const [resourcesData, qualitiesData, currenciesData] = await Promise.all([
+        getAllResources(),
+        getAllQualities(),
+        getCommunityCurrencies(),
+      ]);
+      if (cancelled) return;
+      setResources(resourcesData.map((resource: { id: string; name: string }) => ({ id: resource.id, label: resource.name })));
+      setQualities(
+        [...qualitiesData]
+          .sort((a: { quality_level: number }, b: { quality_level: number }) => a.quality_level - b.quality_level)
+          .map((quality: { id: string; quality_level: number }) => ({ id: quality.id, label: `Q${quality.quality_level}` }))
+      );
+      setCurrencies(
+        currenciesData.map((currency) => ({
+          id: currency.currencyId,
+          label: `${currency.currencySymbol} (${currency.currencyName})`,
+        }))
+      );
+    }
+
+    void loadOptions();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, resources.length]);
+
+  const handleSubmit = async () => {
+    if (!counterparty.trim() || !resourceId || !qualityId || !currencyId) {
+      toast.error("Fill in the counterparty, resource, quality and currency");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await proposeSupplyContractAction({
+        role,
+        counterparty_username: counterparty,
+        company_id: companyId === "none" ? null : companyId,
+        resource_id: resourceId,
+        quality_id: qualityId,
+        quantity_per_delivery: Number(quantity),
+        community_currency_id: currencyId,
+        price_per_delivery: Number(price),
+        penalty_per_miss: Number(penalty || 0),
+        delivery_interval_days: Number(intervalDays),
+        total_deliveries: Number(totalDeliveries),
+      });
+
+      if (!result.success) {
+        showErrorToast("Proposal failed", { description: result.error });
+        return;
+      }
+
+      toast.success(`Contract proposed to ${counterparty.trim()}`);
+      onOpenChange(false);
+      setCounterparty("");
+      setPrice("");
+      setPenalty("");
+      await onProposed();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Propose Supply Contract</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">You are the</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as SupplyContractRole)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="buyer">Buyer</SelectItem>
+                <SelectItem value="supplier">Supplier</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">{role === "buyer" ? "Supplier" : "Buyer"} username</Label>
+            <Input value={counterparty} onChange={(e) => setCounterparty(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Your company</Label>
+            <Select value={companyId} onValueChange={setCompanyId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                {companies.map((company) => (
+                  <SelectItem key={company.id} value={company.id}>
+                    {company.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Currency</Label>
+            <Select value={currencyId} onValueChange={setCurrencyId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select" />
+              </SelectTrigger>
+              <SelectContent>
+                {currencies.map((currency) => (
+                  <SelectItem key={currency.id} value={currency.id}>
+                    {currency.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Resource</Label>
+            <Select value={resourceId} onValueChange={setResourceId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select" />
+              </SelectTrigger>
+              <SelectContent>
+                {resources.map((resource) => (
+                  <SelectItem key={resource.id} value={resource.id}>
+                    {resource.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Quality</Label>
+            <Select value={qualityId} onValueChange={setQualityId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select" />
+              </SelectTrigger>
+              <SelectContent>
+                {qualities.map((quality) => (
+                  <SelectItem key={quality.id} value={quality.id}>
+                    {quality.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Quantity per delivery</Label>
+            <Input type="number" min="1" value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Price per delivery</Label>
+            <Input type="number" min="0" step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Every (days)</Label>
+            <Input type="number" min="1" max="30" value={intervalDays} onChange={(e) => setIntervalDays(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Deliveries</Label>
+            <Input
+              type="number"
+              min="1"
+              max="100"
+              value={totalDeliveries}
+              onChange={(e) => setTotalDeliveries(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label className="text-xs">Penalty per missed delivery (paid by the supplier)</Label>
+            <Input type="number" min="0" step="0.01" value={penalty} onChange={(e) => setPenalty(e.target.value)} />
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          The buyer&apos;s payment is held one delivery at a time and released when the supplier delivers.
+        </p>
+
+        <Button onClick={handleSubmit} disabled={submitting}>
+          {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Send Proposal"}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -102,6 +102,9 @@ export function WorkDialog({
         } else {
           description = "Production added to your inventory.";
         }
+        if (result.unsupplied) {
+          description += " Output halved: this region is cut off from its capital.";
+        }
       } else {
         description = `You earned ${result.wage_earned || 0} community coins.`;
       }
@@ -255,14 +258,18 @@ function RecipeOption({ recipe, isSelected, onClick }: RecipeOptionProps) {
             <div className="flex items-center gap-1">
               <Package className="h-3.5 w-3.5 text-red-500" />
               <span className="text-muted-foreground">
-                {Object.values(inputs).reduce((sum, val) => sum + val, 0)} materials
+                {recipe.input_resources?.length
+                  ? recipe.input_resources.map((input) => `${input.quantity} ${input.resource_name}`).join(" + ")
+                  : `${Object.values(inputs).reduce((sum, val) => sum + val, 0)} materials`}
               </span>
             </div>
           )}
           <div className="flex items-center gap-1">
             <TrendingUp className="h-3.5 w-3.5 text-green-500" />
             <span className="text-muted-foreground">
-              {Object.values(outputs).reduce((sum, val) => sum + val.base_quantity, 0)} products
+              {recipe.output_resources?.length
+                ? recipe.output_resources.map((output) => `${output.quantity} ${output.resource_name}`).join(" + ")
+                : `${Object.values(outputs).reduce((sum, val) => sum + val.base_quantity, 0)} products`}
             </span>
           </div>
         </div>
@@ -0,0 +1,138 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Castle, Eye, Loader2, ShieldHalf } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { SectionHeading } from "@/components/ui/section-heading";
+import { showErrorToast, showSuccessToast } from "@/lib/toast-utils";
+import { buildFortification, getHexFortifications } from "@/app/actions/fortifications";
+import {
+  FORTIFICATION_TYPES,
+  FORTIFICATION_TYPE_ORDER,
+  MAX_FORTIFICATION_LEVEL,
+  getFortificationCost,
+  type FortificationType,
+  type RegionFortification,
+} from "@/lib/regions/fortifications";
+
+interface HexFortificationsPanelProps {
+  hexId: string;
+  canBuild: boolean; // Leader of the community that owns the region
+  onChange?: () => void | Promise<void>;
+}
+
+const FORTIFICATION_ICONS: Record<FortificationType, LucideIcon> = {
+  wall: Castle,
+  watchtower: Eye,
+  bunker: ShieldHalf,
+};
+
+const formatMaterial = (key: string) => key.charAt(0).toUpperCase() + key.slice(1);
+
+/**
+ * Walls, watchtowers and bunkers on a region, with build and upgrade
+ * buttons for the owning community's leaders
+ */
+export function HexFortificationsPanel({ hexId, canBuild, onChange }: HexFortificationsPanelProps) {
+  const [structures, setStructures] = useState<RegionFortification[] | null>(null);
+  const [building, setBuilding] = useState<FortificationType | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setStructures(await getHexFortifications(hexId));
+    } catch (error) {
+      console.error("Failed to load fortifications:", error);
+      setStructures([]);
+    }
+  }, [hexId]);
+
+  useEffect(() => {
+    setStructures(null);
+    load();
+  }, [load]);
+
+  const handleBuild = async (type: FortificationType) => {
+    setBuilding(type);
+    try {
+      const result = await buildFortification(hexId, type);
+      if (!result.success) {
+        showErrorToast(result.error ?? "Failed to build fortification");
+        return;
+      }
+      showSuccessToast(`${FORTIFICATION_TYPES[type].name} raised to level ${result.level}`);
+      await load();
+      await onChange?.();
+    } finally {
+      setBuilding(null);
+    }
+  };
+
+  return (
+    <Card variant="default">
+      <CardContent className="space-y-3">
+        <SectionHeading
+          title="Fortifications"
+          icon={Castle}
+          tooltip="Structures take effect when a battle starts here. Each loses a level when the region is captured."
+        />
+
+        {!structures ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {FORTIFICATION_TYPE_ORDER.map((type) => {
+              const definition = FORTIFICATION_TYPES[type];
+              const Icon = FORTIFICATION_ICONS[type];
+              const level = structures.find((structure) => structure.structure_type === type)?.level ?? 0;
+              const maxed = level >= MAX_FORTIFICATION_LEVEL;
+              const cost = getFortificationCost(type, level + 1);
+
+              return (
+                <div key={type} className="flex items-center gap-3 p-3 rounded-lg border border-border/40 bg-muted/10">
+                  <Icon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-foreground">
+                      {definition.name}{" "}
+                      <span className="text-xs font-normal text-muted-foreground">
+                        {level}/{MAX_FORTIFICATION_LEVEL}
+                      </span>
+                    </p>
+                    <p className="text-[10px] sm:text-xs text-muted-foreground">{definition.description}</p>
+                    {canBuild && !maxed && (
+                      <p className="text-[10px] sm:text-xs text-muted-foreground">
+                        Next: {cost.gold.toLocaleString()} treasury gold + {cost.materialQuantity}{" "}
+                        {formatMaterial(cost.materialKey)}
+                      </p>
+                    )}
+                  </div>
+                  {canBuild && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={maxed || building !== null}
+                      onClick={() => handleBuild(type)}
+                    >
+                      {building === type ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : maxed ? (
+                        "Max"
+                      ) : level === 0 ? (
+                        "Build"
+                      ) : (
+                        "Upgrade"
+                      )}
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
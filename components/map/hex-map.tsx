@@ -562,6 +562,11 @@ type HexOverlay = {
   disableDepthTest?: boolean;
 };
 
+export type FortifiedHex = {
+  hexId: string;
+  level: number; // Sum of structure levels on the hex
+};
+
 export type HexMapProps = {
   onHexClick?: (hexId: string) => void;
   onSelectionChange?: (hexId: string | null) => void;
@@ -570,6 +575,7 @@ export type HexMapProps = {
   currentCommunityId?: string | null;
   activeBattles?: ActiveBattleRow[];
   capitalHexIds?: string[];
+  fortifiedHexes?: FortifiedHex[];
   showResourceIcons?: boolean;
   drawerActionMode?: ActionMode;
   drawerOnFight?: () => Promise<{ battleId?: string }>;
@@ -1024,6 +1030,7 @@ export default function HexMapFlat({
   currentCommunityId,
   activeBattles = [],
   capitalHexIds = [],
+  fortifiedHexes = [],
   showResourceIcons = true,
   drawerActionMode,
   drawerOnFight,
@@ -2453,6 +2460,34 @@ function buildZoneBorderData({
     });
   }, [effectiveCapitalHexIds, tileById]);
 
+  const fortificationLayers = useMemo(() => {
+    if (!fortifiedHexes.length) return [];
+    const layers: Layer[] = [];
+    // Three structures at level 3 each
+    const maxLevel = 9;
+
+    for (const { hexId, level } of fortifiedHexes) {
+      const tile = tileById[hexId];
+      if (!tile?.contour || tile.contour.length !== 6 || level <= 0) continue;
+      const strength = Math.min(1, level / maxLevel);
+
+      layers.push(
+        new PrototypeHexStyleLayer({
+          id: `fortification-style:${hexId}`,
+          verticesLngLat: tile.contour,
+          centerLngLat: tile.center,
+          borderColor: [168, 162, 150],
+          borderMaxAlpha: 0.35 + strength * 0.5,
+          borderFadeRatio: 0.18 + strength * 0.12,
+          fillAlpha: 0,
+          wrapLongitude: true,
+        })
+      );
+    }
+
+    return layers;
+  }, [fortifiedHexes, tileById]);
+
   const resourceZoneLayers = useMemo(() => {
     if (!selectedResourceZoneBorders.length && !ownedResourceZoneBorders.length) return [];
     const layers: Layer[] = [];
@@ -3122,6 +3157,7 @@ function buildZoneBorderData({
     if (hoverLayer) layerList.push(hoverLayer);
     if (selectionLayer) layerList.push(selectionLayer);
     if (capitalRingLayer) layerList.push(capitalRingLayer);
+    if (fortificationLayers.length) layerList.push(...fortificationLayers);
     if (battleLayers.length) layerList.push(...battleLayers);
     if (prototypeHexShaderLayers.length) layerList.push(...prototypeHexShaderLayers);
     if (prototypeAmbientIconLayer) layerList.push(prototypeAmbientIconLayer);
@@ -3142,6 +3178,7 @@ function buildZoneBorderData({
     hoverLayer,
     selectionLayer,
     capitalRingLayer,
+    fortificationLayers,
     resourceZoneLayers,
     battleLayers,
     userLocationLayer,
@@ -23,6 +23,7 @@ import { CommunityStatParts } from "@/components/community/community-stat";
 import { cn } from "@/lib/utils";
 import { isSovereign } from "@/lib/governance";
 import { BattleMechanicsStatus } from "@/components/battle/battle-mechanics-status";
+import { HexFortificationsPanel } from "@/components/map/hex-fortifications-panel";
 import { HexResourceBonuses } from "@/components/economy/hex-resource-bonuses";
 import { HexVenturesTab } from "@/components/economy/hex-ventures-tab";
 import { RegionName } from "@/components/ui/region-name";
@@ -285,6 +286,9 @@ export default memo(function RegionDrawer({
     Boolean(userCommunityId) &&
     hex?.ownerCommunityId === userCommunityId;
 
+  const canBuildFortifications =
+    isSovereign(userRankTier) && Boolean(userCommunityId) && hex?.ownerCommunityId === userCommunityId;
+
   const handleEditName = () => {
     setEditedName(hex?.region.customName ?? "");
     setIsEditingName(true);
@@ -510,14 +514,21 @@ export default memo(function RegionDrawer({
             )}
           </TabsContent>
 
-          <TabsContent value="military" className="flex-1 overflow-y-auto mt-4">
+          <TabsContent value="military" className="flex-1 overflow-y-auto mt-4 space-y-4">
             {hex?.ownerCommunityId ? (
-              <BattleMechanicsStatus
-                communityId={hex.ownerCommunityId}
-                communityName={hex.ownerCommunity?.name || "This community"}
-                averageRage={0}
-                showHeading={false}
-              />
+              <>
+                <BattleMechanicsStatus
+                  communityId={hex.ownerCommunityId}
+                  communityName={hex.ownerCommunity?.name || "This community"}
+                  averageRage={0}
+                  showHeading={false}
+                />
+                <HexFortificationsPanel
+                  hexId={hex.id}
+                  canBuild={canBuildFortifications}
+                  onChange={onReloadData}
+                />
+              </>
             ) : (
               <Card className="rounded-xl border border-border/60 bg-card p-6">
                 <div className="flex flex-col items-center justify-center py-8 space-y-4">
@@ -0,0 +1,165 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Gavel, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { H2, P } from "@/components/ui/typography";
+import { showErrorToast } from "@/lib/toast-utils";
+import { getCompanyIcon } from "@/lib/company-config";
+import { formatGold } from "@/lib/economy-config";
+import { getCompanyAuctionLots, placeAuctionBidAction } from "@/app/actions/company-upkeep";
+import type { CompanyAuctionLot } from "@/lib/types/companies";
+import { TableSkeleton } from "./market-skeletons";
+import { AUCTION_TABLE_COLUMNS, MARKET_TABLE_CONFIG } from "./market-config";
+import type { BaseTabProps } from "./types";
+
+function describeLot(lot: CompanyAuctionLot): string {
+  if (lot.lot_type === "company") {
+    return `Company · Lv${lot.company_level ?? 1}`;
+  }
+  return `${lot.quantity?.toLocaleString() ?? 0} ${lot.resource_name ?? "goods"} · Q${lot.quality_level ?? 1}`;
+}
+
+/**
+ * Assets of bankrupt companies up for auction: the companies themselves and
+ * their stock. Bids are held in escrow until outbid or the lot closes.
+ */
+export function AuctionsTab({ selectedCommunities, tradeEmbargoes = [] }: BaseTabProps) {
+  const [lots, setLots] = useState<CompanyAuctionLot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [bids, setBids] = useState<Record<string, string>>({});
+  const [bidding, setBidding] = useState<string | null>(null);
+  const embargoLookup = useMemo(
+    () => new Map(tradeEmbargoes.map((embargo) => [embargo.community_id, embargo])),
+    [tradeEmbargoes]
+  );
+
+  const loadData = useCallback(async () => {
+    const data = await getCompanyAuctionLots({ communityIds: selectedCommunities });
+    setLots(data);
+  }, [selectedCommunities]);
+
+  useEffect(() => {
+    const loadInitialData = async () => {
+      setLoading(true);
+      try {
+        await loadData();
+      } catch (error) {
+        console.error("Error loading auctions:", error);
+        toast.error("Failed to load auctions");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInitialData();
+  }, [loadData]);
+
+  const handleBid = async (lot: CompanyAuctionLot) => {
+    const amount = Number(bids[lot.id] || lot.min_bid);
+    setBidding(lot.id);
+    try {
+      const result = await placeAuctionBidAction(lot.id, amount);
+      if (result.success) {
+        toast.success(`Bid ${formatGold(amount)} gold on ${lot.company_name}`);
+        setBids((prev) => ({ ...prev, [lot.id]: "" }));
+        await loadData();
+      } else {
+        showErrorToast("Bid failed", { description: result.error });
+      }
+    } finally {
+      setBidding(null);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <H2>
+        <Gavel className="h-5 w-5 text-foreground" />
+        Bankruptcy Auctions
+      </H2>
+      <P className="text-sm">
+        Companies that could not pay their upkeep are sold off here. The proceeds pay their employees and creditors.
+      </P>
+      {loading ? (
+        <TableSkeleton rows={4} />
+      ) : lots.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-sm text-muted-foreground">No open auctions.</p>
+        </div>
+      ) : (
+        <div className={MARKET_TABLE_CONFIG.container}>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className={MARKET_TABLE_CONFIG.headerRow}>
+                <tr className={MARKET_TABLE_CONFIG.headerCell}>
+                  <th className={`px-4 py-3 text-${AUCTION_TABLE_COLUMNS.lot.align}`}>Lot</th>
+                  <th className={`px-4 py-3 text-${AUCTION_TABLE_COLUMNS.company.align}`}>Company</th>
+                  <th className={`px-4 py-3 text-${AUCTION_TABLE_COLUMNS.currentBid.align}`}>Current Bid</th>
+                  <th className={`px-4 py-3 text-${AUCTION_TABLE_COLUMNS.endsAt.align}`}>Ends</th>
+                  <th className={`px-4 py-3 text-${AUCTION_TABLE_COLUMNS.action.align}`}>Action</th>
+                </tr>
+              </thead>
+              <tbody className={MARKET_TABLE_CONFIG.divider}>
+                {lots.map((lot) => {
+                  const embargo = lot.community_id ? embargoLookup.get(lot.community_id) : undefined;
+                  const IconComponent = getCompanyIcon(lot.company_type_key ?? "");
+                  const blockedReason = lot.is_former_owner
+                    ? "You cannot bid on your own company's assets"
+                    : embargo
+                      ? `Trade blocked: ${embargo.reason}`
+                      : undefined;
+                  return (
+                    <tr key={lot.id} className={MARKET_TABLE_CONFIG.bodyRow}>
+                      <td className="px-4 py-3 text-center">
+                        <span className="text-sm font-medium text-foreground">{describeLot(lot)}</span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center justify-center gap-2">
+                          <IconComponent className="h-4 w-4 text-muted-foreground" />
+                          <span className="text-sm text-muted-foreground">{lot.company_name}</span>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <span className="text-sm font-semibold text-foreground tabular-nums">
+                          {lot.highest_bid === null ? "—" : formatGold(lot.highest_bid)}
+                        </span>
+                        {lot.is_highest_bidder && <span className="ml-2 text-xs text-green-500">You lead</span>}
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <span className="text-xs text-muted-foreground">{new Date(lot.ends_at).toLocaleString()}</span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center justify-center gap-2">
+                          <Input
+                            type="number"
+                            min={lot.min_bid}
+                            step="0.01"
+                            placeholder={formatGold(lot.min_bid)}
+                            value={bids[lot.id] ?? ""}
+                            onChange={(e) => setBids((prev) => ({ ...prev, [lot.id]: e.target.value }))}
+                            className="h-8 w-24 text-sm"
+                          />
+                          <Button
+                            size="sm"
+                            disabled={bidding === lot.id || lot.is_highest_bidder || Boolean(blockedReason)}
+                            title={blockedReason}
+                            onClick={() => handleBid(lot)}
+                          >
+                            {bidding === lot.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Bid"}
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
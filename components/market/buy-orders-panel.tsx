@@ -0,0 +1,239 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CommunityCoinIcon } from "@/components/ui/coin-icon";
+import { getCurrencyDisplayInfo, type CommunityCurrency } from "@/lib/currency-display";
+import { showErrorToast, showLocationAccessError } from "@/lib/toast-utils";
+import {
+  cancelProductBuyOrder,
+  createProductBuyOrder,
+  getMyProductBuyOrders,
+  type ProductBuyOrder,
+} from "@/app/actions/market";
+import { BUY_ORDER_CONFIG, MARKET_TABLE_CONFIG } from "./market-config";
+import type { Resource, Quality, TradeEmbargoNotice } from "./types";
+
+interface BuyOrdersPanelProps {
+  communityId: string;
+  communityName?: string;
+  currency: CommunityCurrency | null;
+  resources: Resource[];
+  qualities: Quality[];
+  embargo?: TradeEmbargoNotice;
+  onFilled?: () => void; // Called when a new bid bought from listings straight away
+}
+
+/**
+ * Standing bids on one community market: post a bid for a product at a
+ * maximum price and manage your open bids
+ */
+export function BuyOrdersPanel({
+  communityId,
+  communityName,
+  currency,
+  resources,
+  qualities,
+  embargo,
+  onFilled,
+}: BuyOrdersPanelProps) {
+  const [resourceId, setResourceId] = useState<string>("");
+  const [minQualityId, setMinQualityId] = useState<string>("");
+  const [quantity, setQuantity] = useState<string>(String(BUY_ORDER_CONFIG.defaultQuantity));
+  const [maxPrice, setMaxPrice] = useState<string>("");
+  const [submitting, setSubmitting] = useState(false);
+  const [cancelling, setCancelling] = useState<string | null>(null);
+  const [orders, setOrders] = useState<ProductBuyOrder[]>([]);
+  const currencyInfo = getCurrencyDisplayInfo(currency);
+
+  const sortedQualities = useMemo(
+    () => [...qualities].sort((a, b) => a.quality_level - b.quality_level),
+    [qualities]
+  );
+  const quantityValue = parseInt(quantity) || 0;
+  const maxPriceValue = parseFloat(maxPrice) || 0;
+  const escrow = quantityValue * maxPriceValue;
+
+  const loadOrders = useCallback(async () => {
+    setOrders(await getMyProductBuyOrders([communityId]));
+  }, [communityId]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  useEffect(() => {
+    if (!resourceId && resources.length > 0) setResourceId(resources[0].id);
+    if (!minQualityId && sortedQualities.length > 0) setMinQualityId(sortedQualities[0].id);
+  }, [resources, sortedQualities, resourceId, minQualityId]);
+
+  const handleSubmit = async () => {
+    if (!resourceId || !minQualityId || quantityValue <= 0 || maxPriceValue <= 0) {
+      toast.error("Enter a quantity and a maximum price");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await createProductBuyOrder({
+        communityId,
+        resourceId,
+        minQualityId,
+        quantity: quantityValue,
+        maxPricePerUnit: maxPriceValue,
+      });
+
+      if (!result.success) {
+        const errorMessage = result.error || "";
+        if (errorMessage.toLowerCase().includes("travel to this community") && communityName) {
+          showLocationAccessError({ communityName, action: "purchase" });
+        } else {
+          showErrorToast("Buy order failed", { description: errorMessage });
+        }
+        return;
+      }
+
+      const filled = Number(result.quantity_filled ?? 0);
+      if (filled > 0) {
+        toast.success(
+          `Bought ${filled} item(s) for ${Number(result.community_coin_spent ?? 0).toFixed(2)} ${currencyInfo.symbol}${
+            result.status === "filled" ? "" : `, bid open for ${quantityValue - filled} more`
+          }`
+        );
+        onFilled?.();
+      } else {
+        toast.success(`Buy order placed for ${quantityValue} item(s)`);
+      }
+
+      setMaxPrice("");
+      setQuantity(String(BUY_ORDER_CONFIG.defaultQuantity));
+      await loadOrders();
+    } catch {
+      showErrorToast("Buy order failed", { description: "Failed to place buy order" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (orderId: string) => {
+    setCancelling(orderId);
+    try {
+      const result = await cancelProductBuyOrder(orderId);
+      if (result.success) {
+        toast.success(`Buy order cancelled, ${Number(result.refunded ?? 0).toFixed(2)} ${currencyInfo.symbol} refunded`);
+        await loadOrders();
+      } else {
+        toast.error(result.error || "Failed to cancel buy order");
+      }
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  const openOrders = orders.filter((order) => order.status === "active");
+
+  return (
+    <div className={MARKET_TABLE_CONFIG.container}>
+      <div className="p-4 space-y-4">
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">Buy Orders</h3>
+          <p className="text-xs text-muted-foreground">
+            Bid for a product at a maximum price (tariff included). The cost is held until the bid fills from
+            listings at or below your price, or you cancel it.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 md:grid-cols-5">
+          <Select value={resourceId} onValueChange={setResourceId}>
+            <SelectTrigger className="h-9" aria-label="Product">
+              <SelectValue placeholder="Product" />
+            </SelectTrigger>
+            <SelectContent>
+              {resources.map((resource) => (
+                <SelectItem key={resource.id} value={resource.id}>
+                  {resource.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={minQualityId} onValueChange={setMinQualityId}>
+            <SelectTrigger className="h-9" aria-label="Minimum quality">
+              <SelectValue placeholder="Min quality" />
+            </SelectTrigger>
+            <SelectContent>
+              {sortedQualities.map((quality) => (
+                <SelectItem key={quality.id} value={quality.id}>
+                  {quality.quality_level}★ or better
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="1"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            className="h-9 tabular-nums"
+            aria-label="Quantity"
+            placeholder="Quantity"
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={maxPrice}
+            onChange={(e) => setMaxPrice(e.target.value)}
+            className="h-9 tabular-nums"
+            aria-label="Maximum price per unit"
+            placeholder={`Max ${currencyInfo.symbol} / unit`}
+          />
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || Boolean(embargo) || escrow <= 0}
+            title={embargo?.reason}
+            className="h-9"
+          >
+            {submitting ? "..." : embargo ? "Embargoed" : "Place Bid"}
+          </Button>
+        </div>
+
+        {escrow > 0 && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <span>Holds up to</span>
+            <span className="font-semibold text-foreground tabular-nums">{escrow.toFixed(2)}</span>
+            <CommunityCoinIcon className="h-3.5 w-3.5" color={currencyInfo.color} />
+            <span>{currencyInfo.symbol}</span>
+          </div>
+        )}
+
+        {openOrders.length > 0 && (
+          <div className={MARKET_TABLE_CONFIG.divider}>
+            {openOrders.map((order) => (
+              <div key={order.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <span className="font-medium text-foreground">{order.resource_name}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {order.min_quality_stars ?? 1}★+ · {order.filled_quantity}/{order.quantity} filled · max{" "}
+                    {order.max_price_per_unit.toFixed(2)} {currencyInfo.symbol}
+                  </span>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleCancel(order.id)}
+                  disabled={cancelling === order.id}
+                  className="h-8"
+                >
+                  {cancelling === order.id ? "..." : "Cancel"}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -17,9 +17,11 @@ import { RegionName } from "@/components/ui/region-name";
 import { resolveAvatar } from "@/lib/avatar";
 import { cn } from "@/lib/utils";
 import { EXCHANGE_CONFIG } from "./market-config";
+import { MarketChart } from "./market-chart";
 
 import {
   createExchangeOrder,
+  executeMarketExchangeOrder,
   acceptExchangeOrder,
   getOrderBook,
   getIndividualOrders,
@@ -351,41 +353,7 @@ export function CurrencyExchangeP2P({ data, selectedCommunities }: CurrencyExcha
       }
     }
 
-    const relevantOffers = tradingAsset === "gold" ? orderBook?.sells || [] : orderBook?.buys || [];
-
-    // Auto-match best offer if no order selected
-    if (!selectedOrder && relevantOffers.length > 0) {
-      const bestOffer = relevantOffers[0];
-      const goldAmountNeeded = tradingAsset === "gold" ? offer : want;
-      const levelData = priceLevelOrders.get(bestOffer.exchange_rate);
-
-      if (levelData && levelData.orders.length > 0) {
-        setIsBuying(true);
-        try {
-          const result = await acceptExchangeOrder({
-            orderId: levelData.orders[0].order_id,
-            goldAmount: parseFloat(goldAmountNeeded.toFixed(2)),
-          });
-
-          if (result.success) {
-            const boughtAsset = tradingAsset === "gold" ? selectedCurrency.currencySymbol : "Gold";
-            const boughtAmount = tradingAsset === "gold" ? want : offer;
-            toast.success(`Bought ${boughtAmount.toFixed(2)} ${boughtAsset} from best offer!`);
-            setOfferAmount("");
-            setWantAmount("");
-            await fetchOrderBook(selectedCurrency, tradingAsset);
-            setIsBuying(false);
-            setIsSelling(false);
-            return;
-          }
-        } catch (error) {
-          console.error("Auto-match error:", error);
-        }
-        setIsBuying(false);
-      }
-    }
-
-    // Post new order if no match or match failed
+    // Post a limit order: crossing offers fill first, the rest stays on the book
     setIsSelling(true);
     try {
       const exchangeRate = want / offer;
@@ -401,9 +369,18 @@ export function CurrencyExchangeP2P({ data, selectedCommunities }: CurrencyExcha
       });
 
       if (result.success) {
-        toast.success(
-          `Posted new offer: ${offer} ${tradingAsset === "gold" ? "Gold" : selectedCurrency.currencySymbol} @ ${exchangeRate.toFixed(4)}`
-        );
+        const matchedCurrency = result.matched_currency ?? 0;
+        if (result.order_status === "filled") {
+          toast.success(`Filled: ${matchedCurrency.toFixed(2)} ${selectedCurrency.currencySymbol} for ${(result.matched_gold ?? 0).toFixed(2)} Gold`);
+        } else if (matchedCurrency > 0) {
+          toast.success(
+            `Matched ${matchedCurrency.toFixed(2)} ${selectedCurrency.currencySymbol} instantly, the rest is posted @ ${exchangeRate.toFixed(4)}`
+          );
+        } else {
+          toast.success(
+            `Posted new offer: ${offer} ${tradingAsset === "gold" ? "Gold" : selectedCurrency.currencySymbol} @ ${exchangeRate.toFixed(4)}`
+          );
+        }
         setOfferAmount("");
         setWantAmount("");
         await fetchOrderBook(selectedCurrency, tradingAsset);
@@ -418,6 +395,57 @@ export function CurrencyExchangeP2P({ data, selectedCommunities }: CurrencyExcha
     }
   };
 
+  // Trade at the best prices on the book, within the configured slippage limit
+  const handleMarketOrder = async () => {
+    if (!selectedCurrency) return;
+
+    const offer = parseFloat(offerAmount);
+    const want = parseFloat(wantAmount);
+    // The order is sized in currency: what you receive when buying, what you offer when selling
+    const currencyAmount = tradingAsset === "gold" ? want : offer;
+
+    if (isNaN(currencyAmount) || currencyAmount <= 0) {
+      toast.error(`Please enter a valid ${selectedCurrency.currencySymbol} amount`);
+      return;
+    }
+
+    if (tradingAsset === "currency" && currencyAmount > selectedCurrency.amount) {
+      toast.error(`Insufficient ${selectedCurrency.currencySymbol} balance`);
+      return;
+    }
+
+    setIsBuying(true);
+    try {
+      const result = await executeMarketExchangeOrder({
+        communityCurrencyId: selectedCurrency.currencyId,
+        orderType: tradingAsset === "gold" ? "buy" : "sell",
+        currencyAmount: parseFloat(currencyAmount.toFixed(2)),
+        maxSlippage: EXCHANGE_CONFIG.marketOrder.maxSlippage,
+      });
+
+      if (result.success) {
+        const matchedCurrency = result.matched_currency ?? 0;
+        const averageRate = result.average_rate ? ` @ ${result.average_rate.toFixed(4)} avg` : "";
+        if (result.order_status === "filled") {
+          toast.success(`Filled ${matchedCurrency.toFixed(2)} ${selectedCurrency.currencySymbol}${averageRate}`);
+        } else {
+          toast.warning(`${result.message}${averageRate}`);
+        }
+        setOfferAmount("");
+        setWantAmount("");
+        setSelectedOrder(null);
+        await fetchOrderBook(selectedCurrency, tradingAsset);
+      } else {
+        toast.error(result.message || "Failed to execute market order");
+      }
+    } catch (error) {
+      console.error("Market order error:", error);
+      toast.error("Failed to execute market order");
+    } finally {
+      setIsBuying(false);
+    }
+  };
+
   // Show skeleton while loading initial data
   if (initialLoading) {
     return (
@@ -501,313 +529,331 @@ export function CurrencyExchangeP2P({ data, selectedCommunities }: CurrencyExcha
   }
 
   return (
-    <div className={EXCHANGE_CONFIG.container.grid}>
-      {/* Left: Available Offers */}
-      <Card className={cn(EXCHANGE_CONFIG.card.className, EXCHANGE_CONFIG.container.height)}>
-        <div className={EXCHANGE_CONFIG.header.className}>
-          <div className="flex items-center gap-2 flex-wrap">
-            <h3 className={EXCHANGE_CONFIG.header.title}>
-              {tradingAsset === "gold" ? `Buy ${selectedCurrency.currencySymbol}` : `Buy GOLD`}
-            </h3>
-            <div className={cn("flex items-center gap-1", EXCHANGE_CONFIG.header.subtitle)}>
-              <span>with</span>
-              {tradingAsset === "gold" ? (
-                <GoldCoinIcon className={EXCHANGE_CONFIG.header.iconSize} />
+    <div className="space-y-4">
+      <MarketChart
+        source={{ market: "exchange", communityCurrencyId: selectedCurrency.currencyId }}
+        title={`${selectedCurrency.currencySymbol} / Gold`}
+        priceUnit="gold"
+        volumeUnit={selectedCurrency.currencySymbol}
+      />
+      <div className={EXCHANGE_CONFIG.container.grid}>
+        {/* Left: Available Offers */}
+        <Card className={cn(EXCHANGE_CONFIG.card.className, EXCHANGE_CONFIG.container.height)}>
+          <div className={EXCHANGE_CONFIG.header.className}>
+            <div className="flex items-center gap-2 flex-wrap">
+              <h3 className={EXCHANGE_CONFIG.header.title}>
+                {tradingAsset === "gold" ? `Buy ${selectedCurrency.currencySymbol}` : `Buy GOLD`}
+              </h3>
+              <div className={cn("flex items-center gap-1", EXCHANGE_CONFIG.header.subtitle)}>
+                <span>with</span>
+                {tradingAsset === "gold" ? (
+                  <GoldCoinIcon className={EXCHANGE_CONFIG.header.iconSize} />
+                ) : (
+                  <CommunityCoinIcon className={EXCHANGE_CONFIG.header.iconSize} color={selectedCurrency.communityColor || undefined} />
+                )}
+                <span>{tradingAsset === "gold" ? "GOLD" : selectedCurrency.currencySymbol}</span>
+              </div>
+            </div>
+
+            {/* Contextual Location Message - Single Line */}
+            <div className={EXCHANGE_CONFIG.header.locationContainer}>
+              {isInCommunityLocation ? (
+                <p className={cn(EXCHANGE_CONFIG.header.locationText, EXCHANGE_CONFIG.header.subtitle)}>
+                  You are in {selectedCurrency.currencyName} Lands. Trade safely.
+                </p>
               ) : (
-                <CommunityCoinIcon className={EXCHANGE_CONFIG.header.iconSize} color={selectedCurrency.communityColor || undefined} />
+                <div className={cn(EXCHANGE_CONFIG.header.locationText, EXCHANGE_CONFIG.header.subtitle, "flex items-center gap-1 flex-wrap")}>
+                  <span>Travel to {selectedCurrency.currencyName} territory to trade.</span>
+                  {data.userHex && data.userHexCustomName && (
+                    <>
+                      <MapPin className="h-3 w-3 flex-shrink-0" />
+                      <span className="text-xs text-muted-foreground">Location: {data.userHexCustomName}</span>
+                      <span className="text-xs text-muted-foreground">•</span>
+                      <Link
+                        href="/map"
+                        target="_blank"
+                        className="inline-flex items-center gap-1 hover:text-foreground transition-colors text-xs"
+                        title="Travel to different location"
+                      >
+                        <Plane className="h-3 w-3" />
+                        <span>Travel</span>
+                      </Link>
+                    </>
+                  )}
+                </div>
               )}
-              <span>{tradingAsset === "gold" ? "GOLD" : selectedCurrency.currencySymbol}</span>
             </div>
           </div>
 
-          {/* Contextual Location Message - Single Line */}
-          <div className={EXCHANGE_CONFIG.header.locationContainer}>
-            {isInCommunityLocation ? (
-              <p className={cn(EXCHANGE_CONFIG.header.locationText, EXCHANGE_CONFIG.header.subtitle)}>
-                You are in {selectedCurrency.currencyName} Lands. Trade safely.
-              </p>
+          <div className="flex flex-col flex-1 min-h-0">
+            {loading ? (
+              <div className="p-4 space-y-3">
+                {Array.from({ length: EXCHANGE_CONFIG.skeleton.offerRows }).map((_, i) => (
+                  <Skeleton key={i} className={cn("w-full", EXCHANGE_CONFIG.skeleton.height)} />
+                ))}
+              </div>
+            ) : relevantOffers.length === 0 ? (
+              <div className="flex items-center justify-center flex-1 px-4 text-center">
+                <div>
+                  <p className={EXCHANGE_CONFIG.header.subtitle}>No offers available</p>
+                  {data.userHex && data.userHexCustomName && (
+                    <div className={cn(EXCHANGE_CONFIG.header.subtitle, "mt-1 text-xs text-muted-foreground flex items-center justify-center gap-1")}>
+                      in {data.userHexCustomName}
+                    </div>
+                  )}
+                </div>
+              </div>
             ) : (
-              <div className={cn(EXCHANGE_CONFIG.header.locationText, EXCHANGE_CONFIG.header.subtitle, "flex items-center gap-1 flex-wrap")}>
-                <span>Travel to {selectedCurrency.currencyName} territory to trade.</span>
-                {data.userHex && data.userHexCustomName && (
-                  <>
-                    <MapPin className="h-3 w-3 flex-shrink-0" />
-                    <span className="text-xs text-muted-foreground">Location: {data.userHexCustomName}</span>
-                    <span className="text-xs text-muted-foreground">•</span>
-                    <Link
-                      href="/map"
-                      target="_blank"
-                      className="inline-flex items-center gap-1 hover:text-foreground transition-colors text-xs"
-                      title="Travel to different location"
+              <>
+                <ScrollArea className="flex-1 min-h-0">
+                  <div className={EXCHANGE_CONFIG.offers.divider}>
+                    {paginatedOffers.map((level) => {
+                      const levelData = priceLevelOrders.get(level.exchange_rate);
+                      return (
+                        <OfferLevel
+                          key={level.exchange_rate}
+                          level={level}
+                          orders={levelData?.orders || []}
+                          ordersLoading={levelData?.loading !== false}
+                          currencySymbol={selectedCurrency.currencySymbol}
+                          communityColor={selectedCurrency.communityColor}
+                          tradingAsset={tradingAsset}
+                          selectedOrder={selectedOrder}
+                          onSelectOrder={setSelectedOrder}
+                          disabled={!isInCommunityLocation}
+                          currentUserId={data.userId}
+                          onCancelOrder={async (orderId) => {
+                            try {
+                              const result = await cancelExchangeOrder(orderId);
+                              if (result.success) {
+                                toast.success("Order cancelled successfully");
+                                await fetchOrderBook(selectedCurrency, tradingAsset);
+                              } else {
+                                toast.error(result.message || "Failed to cancel order");
+                              }
+                            } catch (error) {
+                              console.error("Cancel order error:", error);
+                              toast.error("Failed to cancel order");
+                            }
+                          }}
+                        />
+                      );
+                    })}
+                  </div>
+                </ScrollArea>
+                {totalPages > 1 && (
+                  <div className="flex items-center justify-between px-4 py-2 border-t border-border/60 bg-muted/20 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                      disabled={currentPage === 1}
+                      className="h-8"
                     >
-                      <Plane className="h-3 w-3" />
-                      <span>Travel</span>
-                    </Link>
-                  </>
+                      <ChevronLeft className="h-4 w-4 mr-1" />
+                      Previous
+                    </Button>
+                    <span className="text-xs text-muted-foreground">
+                      Page {currentPage} of {totalPages}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                      disabled={currentPage === totalPages}
+                      className="h-8"
+                    >
+                      Next
+                      <ChevronRight className="h-4 w-4 ml-1" />
+                    </Button>
+                  </div>
                 )}
-              </div>
+              </>
             )}
           </div>
-        </div>
+        </Card>
 
-        <div className="flex flex-col flex-1 min-h-0">
-          {loading ? (
-            <div className="p-4 space-y-3">
-              {Array.from({ length: EXCHANGE_CONFIG.skeleton.offerRows }).map((_, i) => (
-                <Skeleton key={i} className={cn("w-full", EXCHANGE_CONFIG.skeleton.height)} />
-              ))}
-            </div>
-          ) : relevantOffers.length === 0 ? (
-            <div className="flex items-center justify-center flex-1 px-4 text-center">
+        {/* Right: Exchange Form */}
+        <Card className={cn(EXCHANGE_CONFIG.card.className, EXCHANGE_CONFIG.container.height)}>
+          <div className={cn(EXCHANGE_CONFIG.header.className, "flex flex-col gap-3")}>
+            <div className="flex items-center justify-between">
               <div>
-                <p className={EXCHANGE_CONFIG.header.subtitle}>No offers available</p>
-                {data.userHex && data.userHexCustomName && (
-                  <div className={cn(EXCHANGE_CONFIG.header.subtitle, "mt-1 text-xs text-muted-foreground flex items-center justify-center gap-1")}>
-                    in {data.userHexCustomName}
-                  </div>
-                )}
+                <h3 className={EXCHANGE_CONFIG.header.title}>Exchange</h3>
+                <p className={EXCHANGE_CONFIG.header.subtitle}>Trade with {selectedCurrency.currencyName}</p>
               </div>
             </div>
-          ) : (
-            <>
-              <ScrollArea className="flex-1 min-h-0">
-                <div className={EXCHANGE_CONFIG.offers.divider}>
-                  {paginatedOffers.map((level) => {
-                    const levelData = priceLevelOrders.get(level.exchange_rate);
-                    return (
-                      <OfferLevel
-                        key={level.exchange_rate}
-                        level={level}
-                        orders={levelData?.orders || []}
-                        ordersLoading={levelData?.loading !== false}
-                        currencySymbol={selectedCurrency.currencySymbol}
-                        communityColor={selectedCurrency.communityColor}
-                        tradingAsset={tradingAsset}
-                        selectedOrder={selectedOrder}
-                        onSelectOrder={setSelectedOrder}
-                        disabled={!isInCommunityLocation}
-                        currentUserId={data.userId}
-                        onCancelOrder={async (orderId) => {
-                          try {
-                            const result = await cancelExchangeOrder(orderId);
-                            if (result.success) {
-                              toast.success("Order cancelled successfully");
-                              await fetchOrderBook(selectedCurrency, tradingAsset);
-                            } else {
-                              toast.error(result.message || "Failed to cancel order");
-                            }
-                          } catch (error) {
-                            console.error("Cancel order error:", error);
-                            toast.error("Failed to cancel order");
-                          }
-                        }}
-                      />
-                    );
-                  })}
-                </div>
-              </ScrollArea>
-              {totalPages > 1 && (
-                <div className="flex items-center justify-between px-4 py-2 border-t border-border/60 bg-muted/20 shrink-0">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-                    disabled={currentPage === 1}
-                    className="h-8"
+            {isLeader && (
+              <div className="flex items-center gap-2 pb-1">
+                <span className="text-xs font-medium text-muted-foreground">Trading Account:</span>
+                <div className="flex gap-1 p-1 bg-muted/50 rounded-lg">
+                  <button
+                    onClick={() => setSourceAccount("personal")}
+                    className={cn(
+                      "px-4 py-1.5 rounded-md text-xs font-semibold transition-all flex items-center gap-2",
+                      sourceAccount === "personal"
+                        ? "bg-primary text-primary-foreground shadow-sm"
+                        : "text-muted-foreground hover:text-foreground hover:bg-muted/70"
+                    )}
+                    title="Use your personal account"
                   >
-                    <ChevronLeft className="h-4 w-4 mr-1" />
-                    Previous
-                  </Button>
-                  <span className="text-xs text-muted-foreground">
-                    Page {currentPage} of {totalPages}
-                  </span>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-                    disabled={currentPage === totalPages}
-                    className="h-8"
+                    <span>Personal</span>
+                    {sourceAccount === "personal" && <span className="h-1.5 w-1.5 rounded-full bg-primary-foreground" />}
+                  </button>
+                  <button
+                    onClick={() => setSourceAccount("treasury")}
+                    className={cn(
+                      "px-4 py-1.5 rounded-md text-xs font-semibold transition-all flex items-center gap-2",
+                      sourceAccount === "treasury"
+                        ? "bg-emerald-600 text-white shadow-sm"
+                        : "text-muted-foreground hover:text-foreground hover:bg-muted/70"
+                    )}
+                    title="Use community treasury account"
                   >
-                    Next
-                    <ChevronRight className="h-4 w-4 ml-1" />
-                  </Button>
+                    <span>Treasury</span>
+                    {sourceAccount === "treasury" && <span className="h-1.5 w-1.5 rounded-full bg-white" />}
+                  </button>
                 </div>
-              )}
-            </>
-          )}
-        </div>
-      </Card>
+              </div>
+            )}
+          </div>
 
-      {/* Right: Exchange Form */}
-      <Card className={cn(EXCHANGE_CONFIG.card.className, EXCHANGE_CONFIG.container.height)}>
-        <div className={cn(EXCHANGE_CONFIG.header.className, "flex flex-col gap-3")}>
-          <div className="flex items-center justify-between">
+          <div className="flex-1 p-4 space-y-4 overflow-y-auto">
+            {/* Offer Input */}
             <div>
-              <h3 className={EXCHANGE_CONFIG.header.title}>Exchange</h3>
-              <p className={EXCHANGE_CONFIG.header.subtitle}>Trade with {selectedCurrency.currencyName}</p>
-            </div>
-          </div>
-          {isLeader && (
-            <div className="flex items-center gap-2 pb-1">
-              <span className="text-xs font-medium text-muted-foreground">Trading Account:</span>
-              <div className="flex gap-1 p-1 bg-muted/50 rounded-lg">
-                <button
-                  onClick={() => setSourceAccount("personal")}
-                  className={cn(
-                    "px-4 py-1.5 rounded-md text-xs font-semibold transition-all flex items-center gap-2",
-                    sourceAccount === "personal"
-                      ? "bg-primary text-primary-foreground shadow-sm"
-                      : "text-muted-foreground hover:text-foreground hover:bg-muted/70"
-                  )}
-                  title="Use your personal account"
-                >
-                  <span>Personal</span>
-                  {sourceAccount === "personal" && <span className="h-1.5 w-1.5 rounded-full bg-primary-foreground" />}
-                </button>
-                <button
-                  onClick={() => setSourceAccount("treasury")}
-                  className={cn(
-                    "px-4 py-1.5 rounded-md text-xs font-semibold transition-all flex items-center gap-2",
-                    sourceAccount === "treasury"
-                      ? "bg-emerald-600 text-white shadow-sm"
-                      : "text-muted-foreground hover:text-foreground hover:bg-muted/70"
+              <Label className={EXCHANGE_CONFIG.header.subtitle}>You Offer</Label>
+              <div className="relative mt-1">
+                <Input
+                  type="number"
+                  value={offerAmount}
+                  onChange={(e) => {
+                    setOfferAmount(e.target.value);
+                    if (e.target.value && !wantAmount) {
+                      const rate = selectedOrder?.exchange_rate || selectedCurrency.exchangeRate;
+                      const val = parseFloat(e.target.value);
+                      if (tradingAsset === "gold") {
+                        setWantAmount((val * rate).toFixed(2));
+                      } else {
+                        setWantAmount((val / rate).toFixed(2));
+                      }
+                    }
+                  }}
+                  placeholder="0.00"
+                  className={EXCHANGE_CONFIG.input.className}
+                />
+                <div className={EXCHANGE_CONFIG.input.iconContainer}>
+                  {tradingAsset === "gold" ? (
+                    <GoldCoinIcon className="h-4 w-4" />
+                  ) : (
+                    <CommunityCoinIcon className="h-4 w-4" color={selectedCurrency.communityColor || undefined} />
                   )}
-                  title="Use community treasury account"
-                >
-                  <span>Treasury</span>
-                  {sourceAccount === "treasury" && <span className="h-1.5 w-1.5 rounded-full bg-white" />}
-                </button>
+                  <span className="text-sm font-medium">{offerAsset}</span>
+                </div>
               </div>
+              <p className={cn(EXCHANGE_CONFIG.header.subtitle, "mt-1")}>Balance: {offerBalance.toFixed(2)}</p>
             </div>
-          )}
-        </div>
 
-        <div className="flex-1 p-4 space-y-4 overflow-y-auto">
-          {/* Offer Input */}
-          <div>
-            <Label className={EXCHANGE_CONFIG.header.subtitle}>You Offer</Label>
-            <div className="relative mt-1">
-              <Input
-                type="number"
-                value={offerAmount}
-                onChange={(e) => {
-                  setOfferAmount(e.target.value);
-                  if (e.target.value && !wantAmount) {
-                    const rate = selectedOrder?.exchange_rate || selectedCurrency.exchangeRate;
-                    const val = parseFloat(e.target.value);
-                    if (tradingAsset === "gold") {
-                      setWantAmount((val * rate).toFixed(2));
-                    } else {
-                      setWantAmount((val / rate).toFixed(2));
-                    }
-                  }
-                }}
-                placeholder="0.00"
-                className={EXCHANGE_CONFIG.input.className}
-              />
-              <div className={EXCHANGE_CONFIG.input.iconContainer}>
-                {tradingAsset === "gold" ? (
-                  <GoldCoinIcon className="h-4 w-4" />
-                ) : (
-                  <CommunityCoinIcon className="h-4 w-4" color={selectedCurrency.communityColor || undefined} />
-                )}
-                <span className="text-sm font-medium">{offerAsset}</span>
-              </div>
+            {/* Flip Button */}
+            <div className="flex justify-center">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleFlip}
+                className="rounded-full"
+              >
+                <ArrowUpDown className="h-4 w-4" />
+              </Button>
             </div>
-            <p className={cn(EXCHANGE_CONFIG.header.subtitle, "mt-1")}>Balance: {offerBalance.toFixed(2)}</p>
-          </div>
-
-          {/* Flip Button */}
-          <div className="flex justify-center">
-            <Button
-              type="button"
-              variant="outline"
-              size="sm"
-              onClick={handleFlip}
-              className="rounded-full"
-            >
-              <ArrowUpDown className="h-4 w-4" />
-            </Button>
-          </div>
 
-          {/* Want Input */}
-          <div>
-            <Label className={EXCHANGE_CONFIG.header.subtitle}>You Receive</Label>
-            <div className="relative mt-1">
-              <Input
-                type="number"
-                value={wantAmount}
-                onChange={(e) => {
-                  setWantAmount(e.target.value);
-                  if (e.target.value && !offerAmount) {
-                    const rate = selectedOrder?.exchange_rate || selectedCurrency.exchangeRate;
-                    const val = parseFloat(e.target.value);
-                    if (tradingAsset === "gold") {
-                      setOfferAmount((val / rate).toFixed(2));
-                    } else {
-                      setOfferAmount((val * rate).toFixed(2));
+            {/* Want Input */}
+            <div>
+              <Label className={EXCHANGE_CONFIG.header.subtitle}>You Receive</Label>
+              <div className="relative mt-1">
+                <Input
+                  type="number"
+                  value={wantAmount}
+                  onChange={(e) => {
+                    setWantAmount(e.target.value);
+                    if (e.target.value && !offerAmount) {
+                      const rate = selectedOrder?.exchange_rate || selectedCurrency.exchangeRate;
+                      const val = parseFloat(e.target.value);
+                      if (tradingAsset === "gold") {
+                        setOfferAmount((val / rate).toFixed(2));
+                      } else {
+                        setOfferAmount((val * rate).toFixed(2));
+                      }
                     }
-                  }
-                }}
-                placeholder="0.00"
-                className={EXCHANGE_CONFIG.input.className}
-              />
-              <div className={EXCHANGE_CONFIG.input.iconContainer}>
-                {tradingAsset === "currency" ? (
-                  <GoldCoinIcon className="h-4 w-4" />
-                ) : (
-                  <CommunityCoinIcon className="h-4 w-4" color={selectedCurrency.communityColor || undefined} />
+                  }}
+                  placeholder="0.00"
+                  className={EXCHANGE_CONFIG.input.className}
+                />
+                <div className={EXCHANGE_CONFIG.input.iconContainer}>
+                  {tradingAsset === "currency" ? (
+                    <GoldCoinIcon className="h-4 w-4" />
+                  ) : (
+                    <CommunityCoinIcon className="h-4 w-4" color={selectedCurrency.communityColor || undefined} />
+                  )}
+                  <span className="text-sm font-medium">{wantAsset}</span>
+                </div>
+              </div>
+              <div className="flex items-center justify-between mt-1">
+                {selectedOrder && (
+                  <p className="text-xs text-primary">@ {selectedOrder.exchange_rate.toFixed(4)} (from selected offer)</p>
+                )}
+                {!selectedOrder && offerAmount && wantAmount && parseFloat(offerAmount) > 0 && parseFloat(wantAmount) > 0 && (
+                  <p className={EXCHANGE_CONFIG.header.subtitle}>
+                    @ {(parseFloat(offerAmount) / parseFloat(wantAmount)).toFixed(4)} (custom rate)
+                  </p>
+                )}
+                {selectedOrder && (
+                  <button
+                    type="button"
+                    onClick={() => setSelectedOrder(null)}
+                    className={cn(EXCHANGE_CONFIG.header.subtitle, "hover:text-foreground")}
+                  >
+                    Clear
+                  </button>
                 )}
-                <span className="text-sm font-medium">{wantAsset}</span>
               </div>
             </div>
-            <div className="flex items-center justify-between mt-1">
-              {selectedOrder && (
-                <p className="text-xs text-primary">@ {selectedOrder.exchange_rate.toFixed(4)} (from selected offer)</p>
-              )}
-              {!selectedOrder && offerAmount && wantAmount && parseFloat(offerAmount) > 0 && parseFloat(wantAmount) > 0 && (
-                <p className={EXCHANGE_CONFIG.header.subtitle}>
-                  @ {(parseFloat(offerAmount) / parseFloat(wantAmount)).toFixed(4)} (custom rate)
-                </p>
-              )}
-              {selectedOrder && (
-                <button
-                  type="button"
-                  onClick={() => setSelectedOrder(null)}
-                  className={cn(EXCHANGE_CONFIG.header.subtitle, "hover:text-foreground")}
-                >
-                  Clear
-                </button>
-              )}
-            </div>
-          </div>
 
-          {/* Action Buttons */}
-          <div className="space-y-2 pt-4">
-            <Button
-              onClick={handleBuy}
-              disabled={isBuying || isSelling || !selectedOrder || !isInCommunityLocation}
-              className="w-full bg-green-600 hover:bg-green-700 text-white disabled:bg-green-600/50 disabled:text-white/70"
-              title={!isInCommunityLocation ? "Travel to community to accept offers" : ""}
-            >
-              {isBuying ? "Processing..." : selectedOrder ? "Buy! (Accept Offer)" : "Buy! (Select an Offer)"}
-            </Button>
-            <Button
-              onClick={handleSell}
-              disabled={isBuying || isSelling || !offerAmount || !wantAmount || !isInCommunityLocation}
-              className="w-full bg-red-600 hover:bg-red-700 text-white disabled:bg-red-600/50 disabled:text-white/70"
-              title={!isInCommunityLocation ? "Travel to community to post offers" : ""}
-            >
-              {isSelling ? "Processing..." : selectedOrder ? "Sell! (Match or Post)" : relevantOffers.length > 0 ? "Sell! (Match Best)" : "Sell! (Post New Offer)"}
-            </Button>
-          </div>
+            {/* Action Buttons */}
+            <div className="space-y-2 pt-4">
+              <Button
+                onClick={handleBuy}
+                disabled={isBuying || isSelling || !selectedOrder || !isInCommunityLocation}
+                className="w-full bg-green-600 hover:bg-green-700 text-white disabled:bg-green-600/50 disabled:text-white/70"
+                title={!isInCommunityLocation ? "Travel to community to accept offers" : ""}
+              >
+                {isBuying ? "Processing..." : selectedOrder ? "Buy! (Accept Offer)" : "Buy! (Select an Offer)"}
+              </Button>
+              <Button
+                onClick={handleSell}
+                disabled={isBuying || isSelling || !offerAmount || !wantAmount || !isInCommunityLocation}
+                className="w-full bg-red-600 hover:bg-red-700 text-white disabled:bg-red-600/50 disabled:text-white/70"
+                title={!isInCommunityLocation ? "Travel to community to post offers" : ""}
+              >
+                {isSelling ? "Processing..." : relevantOffers.length > 0 ? "Sell! (Match or Post)" : "Sell! (Post New Offer)"}
+              </Button>
+              <Button
+                onClick={handleMarketOrder}
+                disabled={isBuying || isSelling || relevantOffers.length === 0 || !(tradingAsset === "gold" ? wantAmount : offerAmount) || !isInCommunityLocation}
+                variant="outline"
+                className="w-full"
+                title={!isInCommunityLocation ? "Travel to community to trade" : ""}
+              >
+                {isBuying ? "Processing..." : `Market (max ${EXCHANGE_CONFIG.marketOrder.maxSlippage * 100}% slippage)`}
+              </Button>
+            </div>
 
-          <div className="text-[10px] text-muted-foreground text-center space-y-0.5 pt-2 border-t">
-            <p><strong>Accept</strong> = Take existing offer immediately</p>
-            <p><strong>Match/Post</strong> = Auto-match best or create new offer</p>
+            <div className="text-[10px] text-muted-foreground text-center space-y-0.5 pt-2 border-t">
+              <p><strong>Accept</strong> = Take existing offer immediately</p>
+              <p><strong>Match/Post</strong> = Fill crossing offers at your price, post the rest</p>
+              <p><strong>Market</strong> = Sweep the best offers now, never posts</p>
+            </div>
           </div>
-        </div>
-      </Card>
+        </Card>
+      </div>
     </div>
   );
 }
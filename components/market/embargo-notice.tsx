@@ -0,0 +1,38 @@
+"use client";
+
+import { Ban } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { cn } from "@/lib/utils";
+import type { TradeEmbargoNotice } from "./types";
+
+interface EmbargoNoticeProps {
+  embargoes: TradeEmbargoNotice[];
+  communityIds: string[]; // Communities currently shown in the market
+  className?: string;
+}
+
+/**
+ * Explains why listings from the selected communities cannot be traded
+ */
+export function EmbargoNotice({ embargoes, communityIds, className }: EmbargoNoticeProps) {
+  const visible = embargoes.filter((embargo) => communityIds.includes(embargo.community_id));
+  if (visible.length === 0) return null;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {visible.map((embargo) => (
+        <Alert key={embargo.community_id} className="border-destructive/30 bg-destructive/5">
+          <AlertTitle className="flex items-center gap-2 text-destructive">
+            <Ban className="h-4 w-4" />
+            Trade with {embargo.community_name} is blocked
+          </AlertTitle>
+          <AlertDescription className="text-muted-foreground">
+            {embargo.reason} Products, jobs and currency orders from this community cannot be traded
+            until the embargo ends.
+          </AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  );
+}
@@ -22,7 +22,7 @@ interface JobsTabProps extends BaseTabProps {
   communityCurrencies: CommunityCurrency[];
 }
 
-export function JobsTab({ selectedCommunities, communityCurrencies }: JobsTabProps) {
+export function JobsTab({ selectedCommunities, communityCurrencies, tradeEmbargoes = [] }: JobsTabProps) {
   const [listings, setListings] = useState<MarketListing[]>([]);
   const [loading, setLoading] = useState(true);
   const [employments, setEmployments] = useState<UserEmployment[]>([]);
@@ -38,6 +38,10 @@ export function JobsTab({ selectedCommunities, communityCurrencies }: JobsTabPro
     () => new Map(communityCurrencies.map((c) => [c.community_id, c])),
     [communityCurrencies]
   );
+  const embargoLookup = useMemo(
+    () => new Map(tradeEmbargoes.map((embargo) => [embargo.community_id, embargo])),
+    [tradeEmbargoes]
+  );
 
   const isTravelRequiredError = (message?: string | null) =>
     Boolean(message && message.toLowerCase().includes("travel to this community"));
@@ -208,7 +212,11 @@ export function JobsTab({ selectedCommunities, communityCurrencies }: JobsTabPro
     try {
       const { leaveEmployment } = await import("@/app/actions/companies");
       const result = await leaveEmployment(employment.id);
-      if (result.success) {
+      if (result.success && result.terminates_at) {
+        toast.success(`Notice given. You leave on ${new Date(result.terminates_at).toLocaleDateString()}.`);
+        await loadEmployments();
+        return true;
+      } else if (result.success) {
         toast.success("You left the company.");
         setEmployments((prev) =>
           prev.filter(
@@ -238,6 +246,7 @@ export function JobsTab({ selectedCommunities, communityCurrencies }: JobsTabPro
         workingCompanyId={workingCompanyId}
         onWork={handleWork}
         onLeave={handleLeave}
+        onContractChange={loadEmployments}
         emptyState={
           <p className="text-sm text-muted-foreground text-center">
             You're not employed at any companies yet.
@@ -280,6 +289,7 @@ export function JobsTab({ selectedCommunities, communityCurrencies }: JobsTabPro
                   {listings.map((listing) => {
                     const currency = currencyLookup.get(listing.community_id);
                     const currencyInfo = getCurrencyDisplayInfo(currency || null);
+                    const embargo = embargoLookup.get(listing.community_id);
 
                     return (
                       <tr key={listing.id} className={MARKET_TABLE_CONFIG.bodyRow}>
@@ -326,7 +336,8 @@ export function JobsTab({ selectedCommunities, communityCurrencies }: JobsTabPro
                           <Button
                             size="sm"
                             onClick={() => handleApply(listing)}
-                            disabled={applying[listing.id] || hasActiveEmployment}
+                            disabled={applying[listing.id] || hasActiveEmployment || Boolean(embargo)}
+                            title={embargo?.reason}
                             className="gap-1.5 font-bold transition-all"
                           >
                             {applying[listing.id] ? (
@@ -337,7 +348,7 @@ export function JobsTab({ selectedCommunities, communityCurrencies }: JobsTabPro
                             ) : (
                               <>
                                 <Briefcase className="size-3.5" />
-                                Apply
+                                {embargo ? "Embargoed" : "Apply"}
                               </>
                             )}
                           </Button>
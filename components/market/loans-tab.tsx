@@ -0,0 +1,561 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { HandCoins, Landmark, Loader2, Plus, ScrollText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { H2, P } from "@/components/ui/typography";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { showErrorToast } from "@/lib/toast-utils";
+import { ECONOMY_CONFIG, formatGold } from "@/lib/economy-config";
+import {
+  acceptLoanOfferAction,
+  createLoanOfferAction,
+  getCreditHistory,
+  getLoanOffers,
+  getMyLoans,
+  repayLoanAction,
+  withdrawLoanOfferAction,
+} from "@/app/actions/loans";
+import { getAllQualities, getAllResources, getUserWallet } from "@/app/actions/economy";
+import { getMyShareholdings, getShareListings } from "@/app/actions/company-shares";
+import type {
+  CreditHistory,
+  Loan,
+  LoanActionResult,
+  LoanCollateralType,
+  LoanCurrencyType,
+  WalletDisplay,
+} from "@/lib/types/economy";
+import { TableSkeleton } from "./market-skeletons";
+import { LOAN_TABLE_COLUMNS, MARKET_TABLE_CONFIG } from "./market-config";
+import type { BaseTabProps, Quality, Resource } from "./types";
+
+const LOAN_LIMITS = ECONOMY_CONFIG.loans;
+
+function formatLoanAmount(loan: Pick<Loan, "currency_type" | "currency_symbol">, amount: number): string {
+  return loan.currency_type === "gold" ? `${formatGold(amount)} gold` : `${formatGold(amount)} ${loan.currency_symbol ?? ""}`;
+}
+
+function describeCollateral(loan: Loan): string {
+  const collateral = loan.collateral;
+  if (collateral.type === "inventory") {
+    return `${collateral.quantity} × ${collateral.resource_name ?? "item"} Q${collateral.quality_level ?? 1}`;
+  }
+  if (collateral.type === "shares") {
+    return `${collateral.shares} shares of ${collateral.company_name ?? "a company"}`;
+  }
+  return "None";
+}
+
+function describeCredit(history: CreditHistory): string {
+  if (history.score === null) return "No credit history";
+  return `Score ${history.score}/100 · ${history.loans_repaid} repaid, ${history.loans_defaulted} defaulted, ${history.active_loans} active · ${history.installments_on_time} on time, ${history.installments_late} late`;
+}
+
+interface OfferFormState {
+  currencyKey: string; // "gold" or a community currency id
+  principal: string;
+  interestRate: string;
+  durationDays: string;
+  installments: string;
+  minScore: string;
+  collateralType: LoanCollateralType;
+  resourceId: string;
+  qualityId: string;
+  quantity: string;
+  companyId: string;
+  shares: string;
+}
+
+const EMPTY_OFFER: OfferFormState = {
+  currencyKey: "gold",
+  principal: "",
+  interestRate: "10",
+  durationDays: "14",
+  installments: "2",
+  minScore: "",
+  collateralType: "none",
+  resourceId: "",
+  qualityId: "",
+  quantity: "",
+  companyId: "",
+  shares: "",
+};
+
+/**
+ * The credit market: open loan offers, a form to lend, and the user's own
+ * loans with their repayment schedules
+ */
+export function LoansTab({ selectedCommunities }: BaseTabProps) {
+  const [offers, setOffers] = useState<Loan[]>([]);
+  const [myLoans, setMyLoans] = useState<Loan[]>([]);
+  const [myCredit, setMyCredit] = useState<CreditHistory | null>(null);
+  const [wallet, setWallet] = useState<WalletDisplay | null>(null);
+  const [resources, setResources] = useState<Resource[]>([]);
+  const [qualities, setQualities] = useState<Quality[]>([]);
+  const [shareCompanies, setShareCompanies] = useState<Array<{ id: string; name: string }>>([]);
+  const [borrowerCredit, setBorrowerCredit] = useState<Record<string, CreditHistory | null>>({});
+  const [loading, setLoading] = useState(true);
+  const [pending, setPending] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<OfferFormState>(EMPTY_OFFER);
+
+  const loadData = useCallback(async () => {
+    const [offersData, myLoansData, creditData] = await Promise.all([
+      getLoanOffers({ communityIds: selectedCommunities }),
+      getMyLoans(),
+      getCreditHistory(),
+    ]);
+    setOffers(offersData);
+    setMyLoans(myLoansData);
+    setMyCredit(creditData);
+  }, [selectedCommunities]);
+
+  useEffect(() => {
+    const loadInitialData = async () => {
+      setLoading(true);
+      try {
+        await loadData();
+      } catch (error) {
+        console.error("Error loading loan market:", error);
+        toast.error("Failed to load loan offers");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInitialData();
+  }, [loadData]);
+
+  useEffect(() => {
+    if (!showForm) return;
+
+    const loadFormOptions = async () => {
+      const [walletData, resourcesData, qualitiesData, holdings, listings] = await Promise.all([
+        getUserWallet(),
+        getAllResources(),
+        getAllQualities(),
+        getMyShareholdings(),
+        getShareListings(),
+      ]);
+      const companies = new Map<string, string>();
+      holdings.forEach((holding) => companies.set(holding.company_id, holding.company_name));
+      listings.forEach((listing) => companies.set(listing.company_id, listing.company_name));
+
+      setWallet(walletData);
+      setResources(resourcesData as Resource[]);
+      setQualities(qualitiesData as Quality[]);
+      setShareCompanies(Array.from(companies, ([id, name]) => ({ id, name })));
+    };
+
+    loadFormOptions();
+  }, [showForm]);
+
+  const myOpenOfferIds = useMemo(
+    () => new Set(myLoans.filter((loan) => loan.status === "open").map((loan) => loan.id)),
+    [myLoans]
+  );
+
+  const updateForm = (patch: Partial<OfferFormState>) => setForm((prev) => ({ ...prev, ...patch }));
+
+  const run = async (key: string, action: () => Promise<LoanActionResult>, successMessage: string) => {
+    setPending(key);
+    try {
+      const result = await action();
+      if (!result.success) {
+        showErrorToast("Request failed", { description: result.error });
+        return false;
+      }
+      toast.success(successMessage);
+      await loadData();
+      return true;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleCreateOffer = async () => {
+    const currencyType: LoanCurrencyType = form.currencyKey === "gold" ? "gold" : "community";
+    const created = await run(
+      "create",
+      () =>
+        createLoanOfferAction({
+          currency_type: currencyType,
+          community_currency_id: currencyType === "community" ? form.currencyKey : null,
+          principal: Number(form.principal),
+          interest_rate: Number(form.interestRate),
+          duration_days: Number(form.durationDays),
+          installment_count: Number(form.installments),
+          min_credit_score: form.minScore === "" ? null : Number(form.minScore),
+          collateral: {
+            type: form.collateralType,
+            resource_id: form.resourceId || null,
+            quality_id: form.qualityId || null,
+            quantity: form.quantity === "" ? null : Number(form.quantity),
+            company_id: form.companyId || null,
+            shares: form.shares === "" ? null : Number(form.shares),
+          },
+        }),
+      "Loan offer posted"
+    );
+    if (created) {
+      setForm(EMPTY_OFFER);
+      setShowForm(false);
+    }
+  };
+
+  const handleShowCredit = async (loan: Loan) => {
+    if (!loan.borrower_id) return;
+    const history = await getCreditHistory(loan.borrower_id);
+    setBorrowerCredit((prev) => ({ ...prev, [loan.id]: history }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <H2>
+            <ScrollText className="h-5 w-5 text-foreground" />
+            My Loans
+          </H2>
+          <Button size="sm" variant={showForm ? "outline" : "default"} onClick={() => setShowForm(!showForm)}>
+            <Plus className="mr-1 h-4 w-4" />
+            Offer a Loan
+          </Button>
+        </div>
+        {myCredit && <P className="text-sm">Your credit: {describeCredit(myCredit)}</P>}
+
+        {showForm && (
+          <div className="space-y-3 rounded-lg border border-border/60 bg-muted/10 p-3">
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Currency</Label>
+                <Select value={form.currencyKey} onValueChange={(value) => updateForm({ currencyKey: value })}>
+                  <SelectTrigger className="h-9 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="gold">Gold</SelectItem>
+                    {wallet?.communityWallets.map((communityWallet) => (
+                      <SelectItem key={communityWallet.currencyId} value={communityWallet.currencyId}>
+                        {communityWallet.currencyName} ({communityWallet.currencySymbol})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Amount</Label>
+                <Input
+                  type="number"
+                  min={LOAN_LIMITS.minPrincipal}
+                  value={form.principal}
+                  onChange={(e) => updateForm({ principal: e.target.value })}
+                  className="h-9 text-sm"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Interest % (whole term)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max={LOAN_LIMITS.maxInterestPercent}
+                  value={form.interestRate}
+                  onChange={(e) => updateForm({ interestRate: e.target.value })}
+                  className="h-9 text-sm"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Days</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  max={LOAN_LIMITS.maxDurationDays}
+                  value={form.durationDays}
+                  onChange={(e) => updateForm({ durationDays: e.target.value })}
+                  className="h-9 text-sm"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Installments</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  max={LOAN_LIMITS.maxInstallments}
+                  value={form.installments}
+                  onChange={(e) => updateForm({ installments: e.target.value })}
+                  className="h-9 text-sm"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Min credit score</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  placeholder="Any"
+                  value={form.minScore}
+                  onChange={(e) => updateForm({ minScore: e.target.value })}
+                  className="h-9 text-sm"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Collateral</Label>
+                <Select
+                  value={form.collateralType}
+                  onValueChange={(value) => updateForm({ collateralType: value as LoanCollateralType })}
+                >
+                  <SelectTrigger className="h-9 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="inventory">Inventory items</SelectItem>
+                    <SelectItem value="shares">Company shares</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {form.collateralType === "inventory" && (
+              <div className="grid grid-cols-3 gap-3">
+                <Select value={form.resourceId} onValueChange={(value) => updateForm({ resourceId: value })}>
+                  <SelectTrigger className="h-9 text-sm">
+                    <SelectValue placeholder="Item" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {resources.map((resource) => (
+                      <SelectItem key={resource.id} value={resource.id}>
+                        {resource.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={form.qualityId} onValueChange={(value) => updateForm({ qualityId: value })}>
+                  <SelectTrigger className="h-9 text-sm">
+                    <SelectValue placeholder="Quality" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {qualities.map((quality) => (
+                      <SelectItem key={quality.id} value={quality.id}>
+                        Q{quality.quality_level} {quality.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="1"
+                  placeholder="Quantity"
+                  value={form.quantity}
+                  onChange={(e) => updateForm({ quantity: e.target.value })}
+                  className="h-9 text-sm"
+                />
+              </div>
+            )}
+
+            {form.collateralType === "shares" && (
+              <div className="grid grid-cols-2 gap-3">
+                <Select value={form.companyId} onValueChange={(value) => updateForm({ companyId: value })}>
+                  <SelectTrigger className="h-9 text-sm">
+                    <SelectValue placeholder="Company" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {shareCompanies.map((company) => (
+                      <SelectItem key={company.id} value={company.id}>
+                        {company.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="1"
+                  placeholder="Shares"
+                  value={form.shares}
+                  onChange={(e) => updateForm({ shares: e.target.value })}
+                  className="h-9 text-sm"
+                />
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              The amount is held from your wallet until someone borrows it. Installments are collected
+              automatically; a borrower {LOAN_LIMITS.defaultGraceDays} days behind defaults and their collateral
+              goes to you.
+            </p>
+            <Button size="sm" disabled={pending !== null || !form.principal} onClick={handleCreateOffer}>
+              {pending === "create" ? <Loader2 className="h-4 w-4 animate-spin" /> : "Post Offer"}
+            </Button>
+          </div>
+        )}
+
+        {loading ? (
+          <TableSkeleton rows={2} />
+        ) : myLoans.length === 0 ? (
+          <P className="text-sm">You have not lent or borrowed anything yet.</P>
+        ) : (
+          <div className="space-y-2">
+            {myLoans.map((loan) => {
+              const isBorrower = loan.borrower_id !== null && loan.borrower_id === myCredit?.user_id;
+              const outstanding = loan.installments
+                .filter((installment) => installment.status === "pending" || installment.status === "overdue")
+                .reduce((sum, installment) => sum + installment.principal_due, 0);
+              const credit = borrowerCredit[loan.id];
+
+              return (
+                <div key={loan.id} className="space-y-2 rounded-lg border border-border/60 bg-muted/10 p-3">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <span className="text-sm font-bold text-foreground">
+                        {isBorrower ? "Borrowed" : "Lent"} {formatLoanAmount(loan, loan.principal)}
+                      </span>
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {isBorrower ? `from ${loan.lender_username}` : loan.borrower_username ? `to ${loan.borrower_username}` : ""}
+                        {" · "}
+                        {loan.interest_rate}% over {loan.duration_days} days · Collateral: {describeCollateral(loan)}
+                      </span>
+                    </div>
+                    <span className="text-xs font-semibold text-muted-foreground">
+                      {LOAN_LIMITS.statusLabels[loan.status]}
+                    </span>
+                    {loan.status === "open" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={pending !== null}
+                        onClick={() => run(loan.id, () => withdrawLoanOfferAction(loan.id), "Offer withdrawn")}
+                      >
+                        {pending === loan.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Withdraw"}
+                      </Button>
+                    )}
+                    {loan.status === "active" && isBorrower && (
+                      <Button
+                        size="sm"
+                        disabled={pending !== null}
+                        onClick={() => run(loan.id, () => repayLoanAction(loan.id), "Loan repaid")}
+                      >
+                        {pending === loan.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          `Repay ${formatLoanAmount(loan, outstanding)}`
+                        )}
+                      </Button>
+                    )}
+                    {!isBorrower && loan.borrower_id && credit === undefined && (
+                      <Button size="sm" variant="outline" onClick={() => handleShowCredit(loan)}>
+                        Borrower Credit
+                      </Button>
+                    )}
+                  </div>
+
+                  {credit !== undefined && (
+                    <p className="text-xs text-muted-foreground">
+                      {loan.borrower_username}: {credit ? describeCredit(credit) : "Unavailable"}
+                    </p>
+                  )}
+
+                  {loan.installments.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {loan.installments.map((installment) => (
+                        <span
+                          key={installment.id}
+                          className="rounded-md border border-border/60 px-2 py-0.5 text-xs text-muted-foreground tabular-nums"
+                          title={installment.paid_at ? `Paid ${new Date(installment.paid_at).toLocaleString()}` : undefined}
+                        >
+                          #{installment.installment_number} {new Date(installment.due_at).toLocaleDateString()} ·{" "}
+                          {formatGold(installment.principal_due + installment.interest_due)} · {installment.status}
+                          {installment.paid_late && " (late)"}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-4">
+        <H2>
+          <HandCoins className="h-5 w-5 text-foreground" />
+          Loan Offers
+        </H2>
+        {loading ? (
+          <TableSkeleton rows={5} />
+        ) : offers.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-sm text-muted-foreground">No loans on offer.</p>
+          </div>
+        ) : (
+          <div className={MARKET_TABLE_CONFIG.container}>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className={MARKET_TABLE_CONFIG.headerRow}>
+                  <tr className={MARKET_TABLE_CONFIG.headerCell}>
+                    <th className={`px-4 py-3 text-${LOAN_TABLE_COLUMNS.lender.align}`}>Lender</th>
+                    <th className={`px-4 py-3 text-${LOAN_TABLE_COLUMNS.amount.align}`}>Amount</th>
+                    <th className={`px-4 py-3 text-${LOAN_TABLE_COLUMNS.interest.align}`}>Interest</th>
+                    <th className={`px-4 py-3 text-${LOAN_TABLE_COLUMNS.term.align}`}>Term</th>
+                    <th className={`px-4 py-3 text-${LOAN_TABLE_COLUMNS.collateral.align}`}>Collateral</th>
+                    <th className={`px-4 py-3 text-${LOAN_TABLE_COLUMNS.minScore.align}`}>Min Score</th>
+                    <th className={`px-4 py-3 text-${LOAN_TABLE_COLUMNS.action.align}`}>Action</th>
+                  </tr>
+                </thead>
+                <tbody className={MARKET_TABLE_CONFIG.divider}>
+                  {offers.map((loan) => (
+                    <tr key={loan.id} className={MARKET_TABLE_CONFIG.bodyRow}>
+                      <td className="px-4 py-3 text-center">
+                        <span className="text-sm text-muted-foreground">{loan.lender_username}</span>
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <span className="text-sm font-semibold text-foreground tabular-nums">
+                          {formatLoanAmount(loan, loan.principal)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <span className="text-sm text-muted-foreground tabular-nums">{loan.interest_rate}%</span>
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <span className="text-sm text-muted-foreground">
+                          {loan.duration_days}d / {loan.installment_count}×
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <span className="text-sm text-muted-foreground">{describeCollateral(loan)}</span>
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        <span className="text-sm text-muted-foreground tabular-nums">{loan.min_credit_score ?? "—"}</span>
+                      </td>
+                      <td className="px-4 py-3 text-center">
+                        {myOpenOfferIds.has(loan.id) ? (
+                          <span className="text-xs text-muted-foreground">Your offer</span>
+                        ) : (
+                          <Button
+                            size="sm"
+                            disabled={pending !== null}
+                            onClick={() => run(loan.id, () => acceptLoanOfferAction(loan.id), "Loan received")}
+                          >
+                            {pending === loan.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Borrow"}
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Landmark className="h-3 w-3" />
+          Borrowers without a history start at a score of {LOAN_LIMITS.newBorrowerScore}.
+        </p>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  ResponsiveContainer,
+  Tooltip as ChartTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ECONOMY_CONFIG } from "@/lib/economy-config";
+import { formatPercent } from "@/lib/governance/monetary-policy";
+import { cn } from "@/lib/utils";
+import type { CandleResolution, MarketCandle, MarketDepth, MarketStats24h } from "@/lib/types/economy";
+import { MARKET_CHART_CONFIG } from "./market-config";
+
+export type MarketChartSource =
+  | { market: "exchange"; communityCurrencyId: string }
+  | { market: "product"; communityId: string; resourceId: string; qualityId?: string | null };
+
+interface MarketChartProps {
+  source: MarketChartSource;
+  title: string;
+  priceUnit: string; // e.g. "gold" or a currency symbol
+  volumeUnit: string; // e.g. a currency symbol or "items"
+  pricePrecision?: number;
+}
+
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: MarketCandle;
+}
+
+function buildQuery(source: MarketChartSource): string {
+  const params = new URLSearchParams({ market: source.market });
+  if (source.market === "exchange") {
+    params.set("community_currency_id", source.communityCurrencyId);
+  } else {
+    params.set("community_id", source.communityId);
+    params.set("resource_id", source.resourceId);
+    if (source.qualityId) params.set("quality_id", source.qualityId);
+  }
+  return params.toString();
+}
+
+function formatCandleTime(time: string, resolution: CandleResolution): string {
+  const date = new Date(time);
+  return resolution === "1d"
+    ? date.toLocaleDateString(undefined, { month: "short", day: "numeric" })
+    : date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Candle body and wick drawn inside the bar recharts lays out for [low, high]
+ */
+function CandleShape(props: unknown) {
+  const { x = 0, y = 0, width = 0, height = 0, payload } = props as CandleShapeProps;
+  if (!payload) return <g />;
+
+  const { open, close, high, low } = payload;
+  const rising = close >= open;
+  const color = rising ? MARKET_CHART_CONFIG.risingColor : MARKET_CHART_CONFIG.fallingColor;
+  const pixelsPerUnit = high > low ? height / (high - low) : 0;
+  const bodyTop = y + (high - Math.max(open, close)) * pixelsPerUnit;
+  const bodyHeight = Math.max(Math.abs(open - close) * pixelsPerUnit, 1);
+  const center = x + width / 2;
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} fill={color} />
+    </g>
+  );
+}
+
+/**
+ * Price candles with volume, 24h stats and a depth snapshot for one exchange
+ * pair or one product market. Polls the market data API.
+ */
+export function MarketChart({ source, title, priceUnit, volumeUnit, pricePrecision = 4 }: MarketChartProps) {
+  const [resolution, setResolution] = useState<CandleResolution>("1h");
+  const [candles, setCandles] = useState<MarketCandle[]>([]);
+  const [depth, setDepth] = useState<MarketDepth | null>(null);
+  const [stats, setStats] = useState<MarketStats24h | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const query = buildQuery(source);
+
+  const load = useCallback(async () => {
+    try {
+      const [candlesRes, depthRes, statsRes] = await Promise.all([
+        fetch(`/api/market?action=candles&resolution=${resolution}&${query}`),
+        fetch(`/api/market?action=depth&${query}`),
+        fetch(`/api/market?action=stats&${query}`),
+      ]);
+      if (candlesRes.ok) setCandles((await candlesRes.json()).candles ?? []);
+      if (depthRes.ok) setDepth(await depthRes.json());
+      if (statsRes.ok) setStats(await statsRes.json());
+    } catch (err) {
+      console.error("Failed to load market data:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [query, resolution]);
+
+  useEffect(() => {
+    setLoading(true);
+    void load();
+    const interval = setInterval(() => void load(), ECONOMY_CONFIG.exchangeMarket.pollInterval);
+    return () => clearInterval(interval);
+  }, [load]);
+
+  const candleData = useMemo(
+    () =>
+      candles.map((candle) => ({
+        ...candle,
+        label: formatCandleTime(candle.time, resolution),
+        range: [candle.low, candle.high],
+      })),
+    [candles, resolution]
+  );
+
+  // Bids descend towards the spread and asks climb away from it
+  const depthData = useMemo(() => {
+    if (!depth) return [];
+    return [
+      ...[...depth.bids].reverse().map((level) => ({ price: level.price, bids: level.cumulative })),
+      ...depth.asks.map((level) => ({ price: level.price, asks: level.cumulative })),
+    ];
+  }, [depth]);
+
+  const maxVolume = Math.max(0, ...candles.map((candle) => candle.volume));
+  const formatPrice = (value: number | null | undefined) =>
+    value === null || value === undefined ? "—" : Number(value).toFixed(pricePrecision);
+  const change = stats?.change ?? null;
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="space-y-1">
+          <h3 className="text-sm font-semibold text-foreground">{title}</h3>
+          <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            <span className="text-lg font-semibold text-foreground tabular-nums">
+              {formatPrice(stats?.last_price)} <span className="text-xs font-normal">{priceUnit}</span>
+            </span>
+            <span
+              className={cn(
+                "font-semibold tabular-nums",
+                change === null ? "" : change >= 0 ? "text-green-600" : "text-red-600"
+              )}
+            >
+              {change === null ? "—" : `${change > 0 ? "+" : ""}${formatPercent(change)}`} 24h
+            </span>
+            <span className="tabular-nums">
+              H {formatPrice(stats?.high)} · L {formatPrice(stats?.low)}
+            </span>
+            <span className="tabular-nums">
+              Vol {(stats?.volume ?? 0).toLocaleString(undefined, { maximumFractionDigits: 2 })} {volumeUnit}
+            </span>
+            <span className="tabular-nums">{stats?.trade_count ?? 0} trades</span>
+          </div>
+        </div>
+        <div className="flex gap-1">
+          {ECONOMY_CONFIG.exchangeMarket.resolutions.map((option) => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={resolution === option.value ? "default" : "outline"}
+              onClick={() => setResolution(option.value)}
+              className="h-7 px-2 text-xs"
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <Skeleton className="w-full" style={{ height: ECONOMY_CONFIG.exchangeMarket.chartHeight }} />
+      ) : candleData.length === 0 ? (
+        <div
+          className="flex items-center justify-center text-sm text-muted-foreground"
+          style={{ height: ECONOMY_CONFIG.exchangeMarket.chartHeight }}
+        >
+          No trades in this period
+        </div>
+      ) : (
+        <div style={{ height: ECONOMY_CONFIG.exchangeMarket.chartHeight }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={candleData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} minTickGap={24} />
+              <YAxis
+                yAxisId="price"
+                orientation="right"
+                domain={["auto", "auto"]}
+                tick={{ fontSize: 11 }}
+                width={60}
+                tickFormatter={(value: number) => value.toFixed(pricePrecision)}
+              />
+              {/* Volume sits in the bottom quarter of the chart */}
+              <YAxis yAxisId="volume" hide domain={[0, maxVolume * 4 || 1]} />
+              <ChartTooltip
+                formatter={(value, name) =>
+                  name === "range" && Array.isArray(value)
+                    ? [`${formatPrice(value[0])} – ${formatPrice(value[1])}`, "Low – High"]
+                    : [value, name === "volume" ? `Volume (${volumeUnit})` : String(name)]
+                }
+              />
+              <Bar yAxisId="volume" dataKey="volume" fill={MARKET_CHART_CONFIG.volumeColor} isAnimationActive={false} />
+              <Bar yAxisId="price" dataKey="range" shape={CandleShape} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {/* Depth snapshot */}
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Depth</span>
+          <span className="tabular-nums">
+            Bid {formatPrice(depth?.best_bid)} · Ask {formatPrice(depth?.best_ask)} · Spread{" "}
+            {formatPrice(depth?.spread)}
+          </span>
+        </div>
+        {depthData.length === 0 ? (
+          <p className="text-xs text-muted-foreground py-4 text-center">No open orders</p>
+        ) : (
+          <div style={{ height: ECONOMY_CONFIG.exchangeMarket.depthChartHeight }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={depthData} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+                <XAxis
+                  dataKey="price"
+                  type="number"
+                  domain={["dataMin", "dataMax"]}
+                  tick={{ fontSize: 11 }}
+                  tickFormatter={(value: number) => value.toFixed(pricePrecision)}
+                />
+                <YAxis orientation="right" tick={{ fontSize: 11 }} width={60} />
+                <ChartTooltip labelFormatter={(value) => `${formatPrice(Number(value))} ${priceUnit}`} />
+                <Area
+                  type="stepAfter"
+                  dataKey="bids"
+                  stroke={MARKET_CHART_CONFIG.risingColor}
+                  fill={MARKET_CHART_CONFIG.risingColor}
+                  fillOpacity={0.2}
+                  connectNulls={false}
+                  isAnimationActive={false}
+                />
+                <Area
+                  type="stepBefore"
+                  dataKey="asks"
+                  stroke={MARKET_CHART_CONFIG.fallingColor}
+                  fill={MARKET_CHART_CONFIG.fallingColor}
+                  fillOpacity={0.2}
+                  connectNulls={false}
+                  isAnimationActive={false}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -82,6 +82,41 @@ export const JOB_TABLE_COLUMNS = {
   action: { align: "center" as const },
 } as const;
 
+// ============================================================================
+// SHARE TABLE COLUMNS
+// ============================================================================
+
+export const SHARE_TABLE_COLUMNS = {
+  company: { align: "center" as const },
+  seller: { align: "center" as const },
+  shares: { align: "center" as const },
+  stake: { align: "center" as const },
+  price: { align: "center" as const },
+  action: { align: "center" as const },
+} as const;
+
+export const AUCTION_TABLE_COLUMNS = {
+  lot: { align: "center" as const },
+  company: { align: "center" as const },
+  currentBid: { align: "center" as const },
+  endsAt: { align: "center" as const },
+  action: { align: "center" as const },
+} as const;
+
+// ============================================================================
+// LOAN TABLE COLUMNS
+// ============================================================================
+
+export const LOAN_TABLE_COLUMNS = {
+  lender: { align: "center" as const },
+  amount: { align: "center" as const },
+  interest: { align: "center" as const },
+  term: { align: "center" as const },
+  collateral: { align: "center" as const },
+  minScore: { align: "center" as const },
+  action: { align: "center" as const },
+} as const;
+
 // ============================================================================
 // RESOURCE TYPES
 // ============================================================================
@@ -93,6 +128,9 @@ export const MARKET_RESOURCE_TYPES = [
   "food",
   "weapon",
   "ticket",
+  "steel",
+  "armor",
+  "rations",
 ] as const;
 
 // ============================================================================
@@ -155,6 +193,9 @@ export const EXCHANGE_CONFIG = {
     inLocation: "text-emerald-600 dark:text-emerald-400",
     needsTravel: "text-amber-600 dark:text-amber-400",
   },
+  marketOrder: {
+    maxSlippage: 0.05, // Worst accepted price, relative to the best offer
+  },
 } as const;
 
 // ============================================================================
@@ -167,3 +208,13 @@ export const MARKET_DEFAULTS = {
   maxCommunityFilters: 2,
   purchaseQuantity: 1,
 } as const;
+
+export const BUY_ORDER_CONFIG = {
+  defaultQuantity: 10,
+} as const;
+
+export const MARKET_CHART_CONFIG = {
+  risingColor: "hsl(160, 60%, 45%)",
+  fallingColor: "hsl(0, 70%, 55%)",
+  volumeColor: "hsl(220, 10%, 60%)",
+} as const;
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,6 +10,8 @@ import { getMarketListings, purchaseProduct } from "@/app/actions/market";
 import { getAllResources, getAllQualities } from "@/app/actions/economy";
 import { showErrorToast, showLocationAccessError, showTravelRequiredToast } from "@/lib/toast-utils";
 import { TableSkeleton, MarketFiltersSkeleton } from "./market-skeletons";
+import { BuyOrdersPanel } from "./buy-orders-panel";
+import { MarketChart } from "./market-chart";
 import { CommunityCoinIcon } from "@/components/ui/coin-icon";
 import { getCurrencyDisplayInfo, type CommunityCurrency } from "@/lib/currency-display";
 import {
@@ -26,7 +28,7 @@ interface MarketTabProps extends BaseTabProps {
   communityCurrencies: CommunityCurrency[];
 }
 
-export function MarketTab({ selectedCommunities, communityCurrencies }: MarketTabProps) {
+export function MarketTab({ selectedCommunities, communityCurrencies, tradeEmbargoes = [] }: MarketTabProps) {
   const [selectedResources, setSelectedResources] = useState<string[]>([]);
   const [selectedQuality, setSelectedQuality] = useState<number>(0); // 0 = all, 1-5 = specific
   const [hoverQuality, setHoverQuality] = useState<number>(0);
@@ -72,30 +74,29 @@ export function MarketTab({ selectedCommunities, communityCurrencies }: MarketTa
     loadMetadata();
   }, []);
 
+  const loadListings = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await getMarketListings({
+        communityIds: selectedCommunities.length > 0 ? selectedCommunities : undefined,
+        resourceIds,
+        qualityIds,
+      });
+
+      setListings(data);
+    } catch (error) {
+      console.error("Error loading listings:", error);
+      toast.error("Failed to load market listings");
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedCommunities, resourceIds, qualityIds]);
+
   // Load listings when filters change
   useEffect(() => {
     if (!metadataReady) return;
-
-    const loadListings = async () => {
-      setLoading(true);
-      try {
-        const data = await getMarketListings({
-          communityIds: selectedCommunities.length > 0 ? selectedCommunities : undefined,
-          resourceIds,
-          qualityIds,
-        });
-
-        setListings(data);
-      } catch (error) {
-        console.error("Error loading listings:", error);
-        toast.error("Failed to load market listings");
-      } finally {
-        setLoading(false);
-      }
-    };
-
     loadListings();
-  }, [metadataReady, selectedCommunities, resourceIds, qualityIds]);
+  }, [metadataReady, loadListings]);
 
   const toggleResource = (key: string) => {
     setSelectedResources((prev) =>
@@ -201,6 +202,13 @@ export function MarketTab({ selectedCommunities, communityCurrencies }: MarketTa
     () => new Map(communityCurrencies.map((c) => [c.community_id, c])),
     [communityCurrencies]
   );
+  const embargoLookup = useMemo(
+    () => new Map(tradeEmbargoes.map((embargo) => [embargo.community_id, embargo])),
+    [tradeEmbargoes]
+  );
+
+  const chartResource =
+    selectedResources.length === 1 ? resources.find((r) => r.key === selectedResources[0]) ?? null : null;
 
   const renderQualityStars = (stars: number) => {
     return (
@@ -279,6 +287,35 @@ export function MarketTab({ selectedCommunities, communityCurrencies }: MarketTa
         <MarketFiltersSkeleton />
       )}
 
+      {/* Price chart (one product on one market) */}
+      {chartResource && selectedCommunities.length === 1 && (
+        <MarketChart
+          source={{
+            market: "product",
+            communityId: selectedCommunities[0],
+            resourceId: chartResource.id,
+            qualityId: qualityIds?.[0] ?? null,
+          }}
+          title={`${chartResource.name}${selectedQuality > 0 ? ` Q${selectedQuality}` : ""}`}
+          priceUnit={getCurrencyDisplayInfo(currencyLookup.get(selectedCommunities[0]) || null).symbol}
+          volumeUnit="items"
+          pricePrecision={2}
+        />
+      )}
+
+      {/* Buy Orders (one market at a time) */}
+      {metadataReady && selectedCommunities.length === 1 && (
+        <BuyOrdersPanel
+          communityId={selectedCommunities[0]}
+          communityName={currencyLookup.get(selectedCommunities[0])?.community_name}
+          currency={currencyLookup.get(selectedCommunities[0]) ?? null}
+          resources={resourceTypes}
+          qualities={qualities}
+          embargo={embargoLookup.get(selectedCommunities[0])}
+          onFilled={loadListings}
+        />
+      )}
+
       {/* Listings Table */}
       <div className="space-y-2">
         {loading ? (
@@ -319,6 +356,7 @@ export function MarketTab({ selectedCommunities, communityCurrencies }: MarketTa
                     const totalPrice = (listing.price_per_unit_community_coin || 0) * quantity;
                     const currency = currencyLookup.get(listing.community_id);
                     const currencyInfo = getCurrencyDisplayInfo(currency || null);
+                    const embargo = embargoLookup.get(listing.community_id);
 
                     return (
                       <tr key={listing.id} className={MARKET_TABLE_CONFIG.bodyRow}>
@@ -385,10 +423,11 @@ export function MarketTab({ selectedCommunities, communityCurrencies }: MarketTa
                             <Button
                               size="sm"
                               onClick={() => handlePurchase(listing.id, listing.quantity || 1)}
-                              disabled={purchasing[listing.id]}
+                              disabled={purchasing[listing.id] || Boolean(embargo)}
+                              title={embargo?.reason}
                               className="h-8 px-3"
                             >
-                              {purchasing[listing.id] ? "..." : "Buy"}
+                              {purchasing[listing.id] ? "..." : embargo ? "Embargoed" : "Buy"}
                             </Button>
                           </div>
                         </td>
@@ -0,0 +1,218 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Loader2, PieChart, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { H2, P } from "@/components/ui/typography";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CompanySharesPanel } from "@/components/economy/company-shares-panel";
+import { showErrorToast } from "@/lib/toast-utils";
+import { formatGold } from "@/lib/economy-config";
+import {
+  buyCompanySharesAction,
+  getMyShareholdings,
+  getShareListings,
+} from "@/app/actions/company-shares";
+import type { CompanyShareListing, UserShareholding } from "@/lib/types/companies";
+import { TableSkeleton } from "./market-skeletons";
+import { MARKET_TABLE_CONFIG, SHARE_TABLE_COLUMNS } from "./market-config";
+import type { BaseTabProps } from "./types";
+
+/**
+ * The share market: open share listings for companies in the selected
+ * communities, plus the user's own holdings with their cap tables
+ */
+export function SharesTab({ selectedCommunities, tradeEmbargoes = [] }: BaseTabProps) {
+  const [listings, setListings] = useState<CompanyShareListing[]>([]);
+  const [holdings, setHoldings] = useState<UserShareholding[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [buying, setBuying] = useState<string | null>(null);
+  const [openCompany, setOpenCompany] = useState<{ id: string; name: string } | null>(null);
+  const embargoLookup = useMemo(
+    () => new Map(tradeEmbargoes.map((embargo) => [embargo.community_id, embargo])),
+    [tradeEmbargoes]
+  );
+
+  const loadData = useCallback(async () => {
+    const [listingsData, holdingsData] = await Promise.all([
+      getShareListings({ communityIds: selectedCommunities }),
+      getMyShareholdings(),
+    ]);
+    setListings(listingsData);
+    setHoldings(holdingsData);
+  }, [selectedCommunities]);
+
+  useEffect(() => {
+    const loadInitialData = async () => {
+      setLoading(true);
+      try {
+        await loadData();
+      } catch (error) {
+        console.error("Error loading share market:", error);
+        toast.error("Failed to load share listings");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInitialData();
+  }, [loadData]);
+
+  const handleBuy = async (listing: CompanyShareListing) => {
+    const shares = Number(quantities[listing.id] || 1);
+    setBuying(listing.id);
+    try {
+      const result = await buyCompanySharesAction(listing.id, shares);
+      if (result.success) {
+        toast.success(`Bought ${result.shares} shares of ${listing.company_name} for ${formatGold(result.gold_spent ?? 0)} gold`);
+        await loadData();
+      } else {
+        showErrorToast("Purchase failed", { description: result.error });
+      }
+    } finally {
+      setBuying(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="space-y-4">
+        <H2>
+          <Wallet className="h-5 w-5 text-foreground" />
+          My Shareholdings
+        </H2>
+        {loading ? (
+          <TableSkeleton rows={2} />
+        ) : holdings.length === 0 ? (
+          <P className="text-sm">You don&apos;t hold shares in any company yet.</P>
+        ) : (
+          <div className="space-y-2">
+            {holdings.map((holding) => (
+              <div
+                key={holding.company_id}
+                className="flex items-center gap-3 rounded-lg border border-border/60 bg-muted/10 p-3"
+              >
+                <div className="flex-1 min-w-0">
+                  <span className="text-sm font-bold text-foreground truncate">{holding.company_name}</span>
+                  {holding.is_owner && <span className="ml-2 text-xs text-muted-foreground">Owner</span>}
+                </div>
+                <span className="text-xs text-muted-foreground tabular-nums">
+                  {holding.shares.toLocaleString()} / {holding.total_shares.toLocaleString()} (
+                  {((holding.shares / holding.total_shares) * 100).toFixed(1)}%)
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setOpenCompany({ id: holding.company_id, name: holding.company_name })}
+                >
+                  Cap Table
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-4">
+        <H2>
+          <PieChart className="h-5 w-5 text-foreground" />
+          Shares for Sale
+        </H2>
+        {loading ? (
+          <TableSkeleton rows={5} />
+        ) : listings.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-sm text-muted-foreground">No shares for sale.</p>
+          </div>
+        ) : (
+          <div className={MARKET_TABLE_CONFIG.container}>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className={MARKET_TABLE_CONFIG.headerRow}>
+                  <tr className={MARKET_TABLE_CONFIG.headerCell}>
+                    <th className={`px-4 py-3 text-${SHARE_TABLE_COLUMNS.company.align}`}>Company</th>
+                    <th className={`px-4 py-3 text-${SHARE_TABLE_COLUMNS.seller.align}`}>Seller</th>
+                    <th className={`px-4 py-3 text-${SHARE_TABLE_COLUMNS.shares.align}`}>Shares</th>
+                    <th className={`px-4 py-3 text-${SHARE_TABLE_COLUMNS.stake.align}`}>Stake</th>
+                    <th className={`px-4 py-3 text-${SHARE_TABLE_COLUMNS.price.align}`}>Gold/Share</th>
+                    <th className={`px-4 py-3 text-${SHARE_TABLE_COLUMNS.action.align}`}>Action</th>
+                  </tr>
+                </thead>
+                <tbody className={MARKET_TABLE_CONFIG.divider}>
+                  {listings.map((listing) => {
+                    const embargo = listing.community_id ? embargoLookup.get(listing.community_id) : undefined;
+                    return (
+                      <tr key={listing.id} className={MARKET_TABLE_CONFIG.bodyRow}>
+                        <td className="px-4 py-3 text-center">
+                          <button
+                            type="button"
+                            className="text-sm font-medium text-primary hover:underline"
+                            onClick={() => setOpenCompany({ id: listing.company_id, name: listing.company_name })}
+                          >
+                            {listing.company_name}
+                          </button>
+                        </td>
+                        <td className="px-4 py-3 text-center">
+                          <span className="text-sm text-muted-foreground">{listing.seller_username}</span>
+                        </td>
+                        <td className="px-4 py-3 text-center">
+                          <span className="text-sm font-medium text-foreground tabular-nums">
+                            {listing.shares_available.toLocaleString()}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-center">
+                          <span className="text-sm text-muted-foreground tabular-nums">
+                            {listing.total_shares > 0
+                              ? `${((listing.shares_available / listing.total_shares) * 100).toFixed(1)}%`
+                              : "—"}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-center">
+                          <span className="text-sm font-semibold text-foreground tabular-nums">
+                            {formatGold(listing.price_per_share)}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center justify-center gap-2">
+                            <Input
+                              type="number"
+                              min="1"
+                              max={listing.shares_available}
+                              value={quantities[listing.id] ?? "1"}
+                              onChange={(e) => setQuantities((prev) => ({ ...prev, [listing.id]: e.target.value }))}
+                              className="h-8 w-20 text-sm"
+                            />
+                            <Button
+                              size="sm"
+                              disabled={buying === listing.id || Boolean(embargo)}
+                              title={embargo ? `Trade blocked: ${embargo.reason}` : undefined}
+                              onClick={() => handleBuy(listing)}
+                            >
+                              {buying === listing.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Buy"}
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <Dialog open={openCompany !== null} onOpenChange={(open) => !open && setOpenCompany(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{openCompany?.name}</DialogTitle>
+          </DialogHeader>
+          {openCompany && <CompanySharesPanel key={openCompany.id} companyId={openCompany.id} onChange={loadData} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
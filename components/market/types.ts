@@ -2,7 +2,7 @@
  * Shared types for Market components
  */
 
-import type { MarketListing } from "@/app/actions/market";
+import type { MarketListing, TradeEmbargoNotice } from "@/app/actions/market";
 
 // ============================================================================
 // COMMON PROPS
@@ -10,6 +10,7 @@ import type { MarketListing } from "@/app/actions/market";
 
 export interface BaseTabProps {
   selectedCommunities: string[];
+  tradeEmbargoes?: TradeEmbargoNotice[]; // Communities the user cannot trade with
 }
 
 // ============================================================================
@@ -46,4 +47,4 @@ export interface Community {
 // RE-EXPORT MARKET LISTING
 // ============================================================================
 
-export type { MarketListing };
+export type { MarketListing, TradeEmbargoNotice };
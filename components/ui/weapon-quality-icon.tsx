@@ -1,5 +1,7 @@
 import React from "react";
+import { Bomb, Crosshair, Sword, type LucideIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { WeaponClass } from "@/lib/battle-mechanics/weapon-classes";
 import {
   getQualityIcon,
   getQualityName,
@@ -36,3 +38,10 @@ export function WeaponQualityIcon({ tier, size = "md", className }: WeaponQualit
 
 // Re-export damage bonus functions from design-system
 export { getWeaponDamageBonus, getWeaponDamageBonusPercent } from "@/lib/design-system";
+
+// Matches the resource icons of each class
+export const WEAPON_CLASS_ICONS: Record<WeaponClass, LucideIcon> = {
+  rifle: Sword,
+  artillery: Bomb,
+  anti_armor: Crosshair,
+};
@@ -0,0 +1,135 @@
+// Battle Mechanics System: Damage Module
+// Version: 1.0
+// Date: March 21, 2027
+
+import { getRankDamageMultiplier, type MilitaryRank } from "@/lib/military-ranks";
+import {
+  getWeaponFortificationMultiplier,
+  getWeaponMatchupMultiplier,
+  type WeaponClass,
+} from "./weapon-classes";
+
+/**
+ * Base damage per point of strength, before rank and weapon bonuses
+ */
+export const BASE_DAMAGE_PER_STRENGTH = 100;
+
+/**
+ * Damage bonus by weapon quality (Q1-Q5)
+ */
+export const WEAPON_DAMAGE_BONUSES: Record<number, number> = {
+  1: 0.2, // +20%
+  2: 0.3, // +30%
+  3: 0.4, // +40%
+  4: 0.5, // +50%
+  5: 0.6, // +60%
+};
+
+/**
+ * Get the damage bonus for a weapon quality
+ *
+ * @param weaponQuality - Weapon quality level (1-5), or null when unarmed
+ * @returns Bonus fraction (0 when unarmed or out of range)
+ */
+export function getWeaponDamageBonus(weaponQuality: number | null | undefined): number {
+  if (!weaponQuality || weaponQuality < 1 || weaponQuality > 5) {
+    return 0;
+  }
+
+  return WEAPON_DAMAGE_BONUSES[weaponQuality] || 0;
+}
+
+/**
+ * Calculate damage of a landed hit before the critical multiplier
+ * Damage = 100 × Strength × Rank Multiplier × (1 + Weapon Bonus)
+ *
+ * @param strength - User's strength
+ * @param rank - User's military rank
+ * @param weaponQuality - Weapon quality level (1-5), or null when unarmed
+ * @returns Base damage (not yet floored)
+ */
+export function calculateBaseDamage(
+  strength: number,
+  rank: MilitaryRank,
+  weaponQuality: number | null | undefined
+): number {
+  const baseDamage = BASE_DAMAGE_PER_STRENGTH * strength * getRankDamageMultiplier(rank);
+  return baseDamage * (1 + getWeaponDamageBonus(weaponQuality));
+}
+
+/**
+ * Multipliers applied to a landed hit after the critical multiplier
+ */
+export interface DamageModifiers {
+  fortificationMultiplier?: number; // Fixed from the target's fortifications when the battle started
+  weaponClassMultiplier?: number; // Class matchup, and for attackers the class against fortifications
+}
+
+/**
+ * Get a side's damage multiplier from the fortifications fixed on a battle
+ * Watchtowers raise defender damage, bunkers reduce attacker damage
+ *
+ * @param side - Side the fighter is on
+ * @param battle - The battle's fortification multipliers (missing = no fortifications)
+ * @returns Damage multiplier
+ */
+export function getFortificationDamageMultiplier(
+  side: "attacker" | "defender",
+  battle: {
+    attacker_damage_multiplier?: number | null;
+    defender_damage_multiplier?: number | null;
+  } | null | undefined
+): number {
+  const multiplier = side === "defender" ? battle?.defender_damage_multiplier : battle?.attacker_damage_multiplier;
+  return Number(multiplier ?? 1);
+}
+
+/**
+ * Whether a battle's target was fortified against attackers when it started
+ *
+ * @param battle - The battle's wall HP and attacker multiplier
+ * @returns True when walls or bunkers stood on the target
+ */
+export function isFortifiedBattle(
+  battle: {
+    fortification_defense?: number | null;
+    attacker_damage_multiplier?: number | null;
+  } | null | undefined
+): boolean {
+  return Number(battle?.fortification_defense ?? 0) > 0 || Number(battle?.attacker_damage_multiplier ?? 1) < 1;
+}
+
+/**
+ * Get the damage multiplier of a weapon class
+ * Matchup against the class the other side mostly fights with; attackers
+ * also get their class's multiplier against a fortified target
+ *
+ * @param weaponClass - Class the fighter is using, or null when unarmed
+ * @param side - Side the fighter is on
+ * @param opposingClass - Dominant class of the other side, or null
+ * @param fortified - Whether the battle's target is fortified
+ * @returns Damage multiplier
+ */
+export function getWeaponClassDamageMultiplier(
+  weaponClass: WeaponClass | null | undefined,
+  side: "attacker" | "defender",
+  opposingClass: WeaponClass | null | undefined,
+  fortified: boolean
+): number {
+  const matchup = getWeaponMatchupMultiplier(weaponClass, opposingClass);
+  return side === "attacker" ? matchup * getWeaponFortificationMultiplier(weaponClass, fortified) : matchup;
+}
+
+/**
+ * Apply battle modifiers to a landed hit
+ * Damage = Hit Damage × Fortification Multiplier × Weapon Class Multiplier
+ *
+ * @param hitDamage - Base damage, after the critical multiplier
+ * @param modifiers - Battle modifiers for the fighter
+ * @returns Final damage (floored)
+ */
+export function applyDamageModifiers(hitDamage: number, modifiers: DamageModifiers = {}): number {
+  return Math.floor(
+    hitDamage * (modifiers.fortificationMultiplier ?? 1) * (modifiers.weaponClassMultiplier ?? 1)
+  );
+}
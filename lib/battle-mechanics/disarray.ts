@@ -3,6 +3,7 @@
 // Date: December 29, 2025
 
 import { createSupabaseServerClient } from "@/lib/supabase-server";
+import { SUPPLY_LINE_RULES } from "@/lib/regions/supply-lines";
 import { BattleMechanicsConfig } from "./types";
 
 /**
@@ -82,6 +83,25 @@ export function calculateEnergyCost(
   return Math.ceil(baseEnergyCost * disarrayMultiplier);
 }
 
+/**
+ * Get the energy cost multiplier from the target region's supply state
+ * Defending a region cut off from its capital costs more energy
+ *
+ * @param side - Side the fighter is on
+ * @param regionSupplied - Whether the target region connects to its capital
+ * @returns Energy cost multiplier (1.0 unless defending an unsupplied region)
+ */
+export function getSupplyEnergyMultiplier(
+  side: "attacker" | "defender",
+  regionSupplied: boolean
+): number {
+  if (side !== "defender" || regionSupplied) {
+    return 1.0;
+  }
+
+  return SUPPLY_LINE_RULES.unsuppliedDefenseEnergyMultiplier;
+}
+
 /**
  * Get hours remaining until disarray clears
  *
@@ -31,10 +31,14 @@ export function calculateFocus(
  * Uses random number generation (0-100)
  *
  * @param focus - Focus percentage (0-100)
+ * @param random - Random source in [0, 1) (seeded in simulations)
  * @returns Whether attack hits
  */
-export function checkFocusHit(focus: number): boolean {
-  const roll = Math.random() * 100;
+export function checkFocusHit(
+  focus: number,
+  random: () => number = Math.random
+): boolean {
+  const roll = random() * 100;
   return roll < focus;
 }
 
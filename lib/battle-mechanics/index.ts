@@ -14,3 +14,8 @@ export * from "./rage";
 export * from "./disarray";
 export * from "./momentum";
 export * from "./exhaustion";
+export * from "./damage";
+export * from "./weapon-classes";
+
+// Simulation
+export * from "./simulator";
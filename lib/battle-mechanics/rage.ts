@@ -94,14 +94,18 @@ export async function addRage(
  * Uses random number generation (0-100)
  *
  * @param rage - Rage percentage (0-100)
+ * @param random - Random source in [0, 1) (seeded in simulations)
  * @returns Whether attack is critical
  */
-export function checkRageCritical(rage: number): boolean {
+export function checkRageCritical(
+  rage: number,
+  random: () => number = Math.random
+): boolean {
   const rawRage = Number(rage);
   if (!Number.isFinite(rawRage) || rawRage <= 0) return false;
 
   const normalizedRage = rawRage <= 1 ? rawRage * 100 : rawRage;
-  const roll = Math.random() * 100;
+  const roll = random() * 100;
   return roll < Math.min(100, normalizedRage);
 }
 
@@ -0,0 +1,348 @@
+// Battle Mechanics System: Battle Simulator
+// Version: 1.0
+// Date: March 21, 2027
+// Description: Seedable Monte Carlo battles using the attack route's combat formulas
+
+import { ENERGY_CAP, ENERGY_REGEN_PER_HOUR } from "@/lib/gameplay/constants";
+import {
+  calculateAdrenalineState,
+  extractAdrenalineConfig,
+  updateAdrenalineState,
+} from "./adrenaline";
+import {
+  applyDamageModifiers,
+  calculateBaseDamage,
+  getWeaponClassDamageMultiplier,
+  isFortifiedBattle,
+  type DamageModifiers,
+} from "./damage";
+import { calculateEnergyCost, getSupplyEnergyMultiplier } from "./disarray";
+import { calculateFocus, checkFocusHit } from "./focus";
+import { calculateCriticalDamage, checkRageCritical } from "./rage";
+import { getDominantWeaponClass, type WeaponClassDamage } from "./weapon-classes";
+import type {
+  AdrenalineState,
+  BattleMechanicsConfig,
+  BattleSimulationInput,
+  BattleSimulationReport,
+  BattleSimulationRun,
+  DistributionSummary,
+  SimulatedSideStats,
+  SimulatedSideSummary,
+  SimulatedSquad,
+} from "./types";
+
+export const DEFAULT_SIMULATION_SEED = 1;
+export const DEFAULT_SIMULATION_RUNS = 500;
+export const DEFAULT_TICKS_PER_HOUR = 12;
+
+/**
+ * Morale change of every FIGHT action (recorded by the attack route)
+ */
+export const FIGHT_MORALE_CHANGE = -0.5;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface SimulatedFighter {
+  squad: SimulatedSquad;
+  energy: number;
+  morale: number;
+  weaponsLeft: number;
+}
+
+/**
+ * Create a seeded random source (mulberry32)
+ * The same seed always yields the same sequence
+ *
+ * @param seed - Integer seed
+ * @returns Random source in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Resolve one FIGHT action exactly as the attack route does
+ * Gate 1 (focus) decides the hit, Gate 2 (rage) the critical
+ *
+ * @param fighter - Fighter state at the time of the action
+ * @param config - Battle mechanics configuration
+ * @param random - Random source
+ * @param adrenalineBonus - Bonus rage (defenders in the final stand only)
+ * @param modifiers - Battle modifiers for the fighter's side
+ * @returns Whether the attack hit, was critical, and its damage
+ */
+export function resolveSimulatedAttack(
+  fighter: { morale: number; rage: number; strength: number; rank: SimulatedSquad["rank"]; weaponQuality: number | null },
+  config: BattleMechanicsConfig,
+  random: () => number,
+  adrenalineBonus = 0,
+  modifiers: DamageModifiers = {}
+): { hit: boolean; critical: boolean; damage: number } {
+  const focus = calculateFocus(fighter.morale, config);
+  if (!checkFocusHit(focus, random)) {
+    return { hit: false, critical: false, damage: 0 };
+  }
+
+  const effectiveRage = adrenalineBonus > 0 ? Math.min(100, fighter.rage + adrenalineBonus) : fighter.rage;
+  const critical = checkRageCritical(effectiveRage, random);
+  const baseDamage = calculateBaseDamage(fighter.strength, fighter.rank, fighter.weaponQuality);
+  const damage = applyDamageModifiers(critical ? calculateCriticalDamage(baseDamage, config) : baseDamage, modifiers);
+
+  return { hit: true, critical, damage };
+}
+
+function createFighters(squads: SimulatedSquad[]): SimulatedFighter[] {
+  return squads.flatMap((squad) =>
+    Array.from({ length: Math.max(0, Math.floor(squad.count)) }, () => ({
+      squad,
+      energy: Math.min(ENERGY_CAP, squad.energy),
+      morale: squad.morale,
+      weaponsLeft: squad.weapons ?? Infinity,
+    }))
+  );
+}
+
+function emptySideStats(): SimulatedSideStats {
+  return { actions: 0, hits: 0, crits: 0, damage: 0 };
+}
+
+/**
+ * Add an action to the per-class damage totals the matchup is decided from
+ */
+function recordClassDamage(
+  totals: WeaponClassDamage[],
+  side: "attacker" | "defender",
+  weaponClass: WeaponClassDamage["weapon_class"],
+  damage: number
+) {
+  const entry = totals.find((total) => total.side === side && total.weapon_class === weaponClass);
+  if (entry) {
+    entry.damage += damage;
+    entry.actions += 1;
+  } else {
+    totals.push({ side, weapon_class: weaponClass, damage, actions: 1 });
+  }
+}
+
+/**
+ * Simulate a single battle
+ * Every tick each fighter regenerates energy, then spends all of it on FIGHT
+ * actions: attackers first, then defenders with any adrenaline bonus.
+ * As in resolve_battle_outcome, attackers win if defense is at or below
+ * zero when the battle ends.
+ *
+ * @param input - Simulation input (runs and seed are ignored)
+ * @param random - Random source
+ * @returns Battle outcome
+ */
+export function simulateBattle(
+  input: BattleSimulationInput,
+  random: () => number
+): BattleSimulationRun {
+  const { config } = input;
+  const durationHours = input.durationHours ?? config.battle_duration_hours;
+  const ticksPerHour = input.ticksPerHour ?? DEFAULT_TICKS_PER_HOUR;
+  const regenPerTick = (input.energyRegenPerHour ?? ENERGY_REGEN_PER_HOUR) / ticksPerHour;
+  const tickMs = HOUR_MS / ticksPerHour;
+  const totalTicks = Math.ceil(durationHours * ticksPerHour);
+
+  const attackCost = calculateEnergyCost(config.base_energy_cost, input.attackerDisarrayMultiplier ?? 1.0);
+  const defendCost = calculateEnergyCost(
+    config.base_energy_cost,
+    (input.defenderDisarrayMultiplier ?? 1.0) * getSupplyEnergyMultiplier("defender", input.defenderSupplied ?? true)
+  );
+
+  const fortificationMultipliers = {
+    attacker: input.attackerDamageMultiplier ?? 1,
+    defender: input.defenderDamageMultiplier ?? 1,
+  };
+  const fortified = isFortifiedBattle({
+    fortification_defense: input.fortificationDefense,
+    attacker_damage_multiplier: input.attackerDamageMultiplier,
+  });
+  const classDamage: WeaponClassDamage[] = [];
+
+  const attackers = createFighters(input.attackers);
+  const defenders = createFighters(input.defenders);
+  const attacker = emptySideStats();
+  const defender = emptySideStats();
+
+  const adrenalineConfig = extractAdrenalineConfig(config);
+  const startedAt = new Date(0).toISOString();
+  const endsAt = new Date(durationHours * HOUR_MS).toISOString();
+  let adrenaline: AdrenalineState | undefined;
+  let peakAdrenalineRage = 0;
+
+  let defense = input.initialDefense;
+  let attackerLeading = defense <= 0;
+  let decidedAtHours = 0;
+
+  const fight = (
+    fighter: SimulatedFighter,
+    side: "attacker" | "defender",
+    stats: SimulatedSideStats,
+    energyCost: number,
+    adrenalineBonus: number
+  ) => {
+    while (fighter.energy >= energyCost) {
+      fighter.energy -= energyCost;
+      stats.actions += 1;
+
+      const armed = fighter.weaponsLeft > 0;
+      const weaponClass = armed && fighter.squad.weaponQuality ? fighter.squad.weaponClass ?? null : null;
+      const modifiers: DamageModifiers = {
+        fortificationMultiplier: fortificationMultipliers[side],
+        weaponClassMultiplier: getWeaponClassDamageMultiplier(
+          weaponClass,
+          side,
+          weaponClass ? getDominantWeaponClass(classDamage, side === "attacker" ? "defender" : "attacker") : null,
+          fortified
+        ),
+      };
+      const outcome = resolveSimulatedAttack(
+        {
+          morale: fighter.morale,
+          rage: fighter.squad.rage,
+          strength: fighter.squad.strength,
+          rank: fighter.squad.rank,
+          weaponQuality: armed ? fighter.squad.weaponQuality : null,
+        },
+        config,
+        random,
+        adrenalineBonus,
+        modifiers
+      );
+
+      if (outcome.hit) {
+        stats.hits += 1;
+        stats.damage += outcome.damage;
+        if (outcome.critical) stats.crits += 1;
+        if (armed && fighter.squad.weaponQuality) fighter.weaponsLeft -= 1;
+      }
+
+      recordClassDamage(classDamage, side, weaponClass, outcome.damage);
+
+      fighter.morale = Math.max(0, Math.min(100, fighter.morale + FIGHT_MORALE_CHANGE));
+    }
+  };
+
+  for (let tick = 0; tick < totalTicks; tick++) {
+    if (tick > 0) {
+      for (const fighter of [...attackers, ...defenders]) {
+        fighter.energy = Math.min(ENERGY_CAP, fighter.energy + regenPerTick);
+      }
+    }
+
+    adrenaline = calculateAdrenalineState({
+      battle: {
+        started_at: startedAt,
+        ends_at: endsAt,
+        attacker_score: attacker.damage,
+        defender_score: defender.damage,
+        status: "active",
+      },
+      config: adrenalineConfig,
+      currentTimeMs: tick * tickMs,
+      previousState: adrenaline,
+    });
+    peakAdrenalineRage = Math.max(peakAdrenalineRage, adrenaline.bonusRage);
+
+    for (const fighter of attackers) fight(fighter, "attacker", attacker, attackCost, 0);
+    for (const fighter of defenders) fight(fighter, "defender", defender, defendCost, adrenaline.bonusRage);
+
+    adrenaline = updateAdrenalineState(adrenaline, tickMs);
+
+    defense = input.initialDefense - attacker.damage + defender.damage;
+    if ((defense <= 0) !== attackerLeading) {
+      attackerLeading = defense <= 0;
+      decidedAtHours = (tick + 1) / ticksPerHour;
+    }
+  }
+
+  return {
+    winner: defense <= 0 ? "attacker" : "defender",
+    finalDefense: defense,
+    attacker,
+    defender,
+    decidedAtHours,
+    peakAdrenalineRage,
+  };
+}
+
+/**
+ * Summarize a sample (mean, range and percentiles)
+ *
+ * @param values - Sampled values
+ * @returns Distribution summary (all zeros when empty)
+ */
+export function summarizeDistribution(values: number[]): DistributionSummary {
+  if (values.length === 0) {
+    return { mean: 0, min: 0, max: 0, p10: 0, p50: 0, p90: 0 };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+  return {
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    p10: percentile(0.1),
+    p50: percentile(0.5),
+    p90: percentile(0.9),
+  };
+}
+
+function summarizeSide(
+  results: BattleSimulationRun[],
+  side: "attacker" | "defender"
+): SimulatedSideSummary {
+  const wins = results.filter((run) => run.winner === side);
+  const actions = results.reduce((sum, run) => sum + run[side].actions, 0);
+  const hits = results.reduce((sum, run) => sum + run[side].hits, 0);
+  const crits = results.reduce((sum, run) => sum + run[side].crits, 0);
+
+  return {
+    winProbability: results.length > 0 ? wins.length / results.length : 0,
+    damage: summarizeDistribution(results.map((run) => run[side].damage)),
+    hitRate: actions > 0 ? hits / actions : 0,
+    critRate: hits > 0 ? crits / hits : 0,
+    timeToVictoryHours: wins.length > 0 ? summarizeDistribution(wins.map((run) => run.decidedAtHours)) : null,
+  };
+}
+
+/**
+ * Run many seeded battles and report win probability, damage
+ * distribution and time to victory for each side
+ * Identical input (including seed) always produces an identical report
+ *
+ * @param input - Simulation input
+ * @returns Simulation report
+ */
+export function runBattleSimulation(input: BattleSimulationInput): BattleSimulationReport {
+  const runs = Math.max(1, Math.floor(input.runs ?? DEFAULT_SIMULATION_RUNS));
+  const seed = input.seed ?? DEFAULT_SIMULATION_SEED;
+  const random = createSeededRandom(seed);
+
+  const results: BattleSimulationRun[] = [];
+  for (let i = 0; i < runs; i++) {
+    results.push(simulateBattle(input, random));
+  }
+
+  return {
+    runs,
+    seed,
+    durationHours: input.durationHours ?? input.config.battle_duration_hours,
+    attacker: summarizeSide(results, "attacker"),
+    defender: summarizeSide(results, "defender"),
+  };
+}
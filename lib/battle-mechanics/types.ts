@@ -2,6 +2,9 @@
 // Version: 1.0
 // Date: December 29, 2025
 
+import type { MilitaryRank } from "@/lib/military-ranks";
+import type { WeaponClass } from "./weapon-classes";
+
 /**
  * Battle mechanics configuration interface
  * Maps to battle_mechanics_config table
@@ -305,6 +308,98 @@ export interface AdrenalineInput {
   previousState?: Pick<AdrenalineState, 'cumulativeTimeMs'>; // For incremental updates
 }
 
+/**
+ * A group of identical fighters in a battle simulation
+ */
+export interface SimulatedSquad {
+  count: number;
+  morale: number;
+  rage: number;
+  strength: number;
+  rank: MilitaryRank;
+  weaponQuality: number | null; // 1-5, null when unarmed
+  weaponClass?: WeaponClass | null; // Class of the squad's weapons, none when omitted
+  weapons?: number; // Weapons per fighter (one used per hit); unlimited when omitted
+  energy: number; // Energy at battle start
+}
+
+/**
+ * Battle simulation input
+ */
+export interface BattleSimulationInput {
+  attackers: SimulatedSquad[];
+  defenders: SimulatedSquad[];
+  config: BattleMechanicsConfig;
+  initialDefense: number;
+  durationHours?: number; // Defaults to config.battle_duration_hours
+  ticksPerHour?: number; // How often fighters act, defaults to 12 (every 5 minutes)
+  energyRegenPerHour?: number; // Defaults to ENERGY_REGEN_PER_HOUR
+  attackerDisarrayMultiplier?: number;
+  defenderDisarrayMultiplier?: number;
+  defenderSupplied?: boolean; // Whether the target region connects to its capital, defaults to true
+  attackerDamageMultiplier?: number; // Bunkers on the target (wall HP belongs in initialDefense)
+  defenderDamageMultiplier?: number; // Watchtowers on the target
+  fortificationDefense?: number; // Wall HP included in initialDefense, marks the target as fortified
+  runs?: number;
+  seed?: number;
+}
+
+/**
+ * One side's combat totals in a single simulated battle
+ */
+export interface SimulatedSideStats {
+  actions: number;
+  hits: number;
+  crits: number;
+  damage: number;
+}
+
+/**
+ * Outcome of a single simulated battle
+ */
+export interface BattleSimulationRun {
+  winner: "attacker" | "defender";
+  finalDefense: number;
+  attacker: SimulatedSideStats;
+  defender: SimulatedSideStats;
+  decidedAtHours: number; // When the winner took the lead for good
+  peakAdrenalineRage: number;
+}
+
+/**
+ * Summary of a sampled distribution
+ */
+export interface DistributionSummary {
+  mean: number;
+  min: number;
+  max: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+/**
+ * One side's results across all simulated battles
+ */
+export interface SimulatedSideSummary {
+  winProbability: number; // 0-1
+  damage: DistributionSummary;
+  hitRate: number; // 0-1
+  critRate: number; // 0-1, share of hits
+  timeToVictoryHours: DistributionSummary | null; // Null when the side never won
+}
+
+/**
+ * Battle simulation report
+ */
+export interface BattleSimulationReport {
+  runs: number;
+  seed: number;
+  durationHours: number;
+  attacker: SimulatedSideSummary;
+  defender: SimulatedSideSummary;
+}
+
 /**
  * Default configuration
  */
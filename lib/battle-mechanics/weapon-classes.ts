@@ -0,0 +1,124 @@
+// Battle Mechanics System: Weapon Classes Module
+// Version: 1.0
+// Date: March 24, 2027
+
+/**
+ * Weapon classes and their rock-paper-scissors matchups.
+ * Mirrors migration 20270324_weapon_classes: each class is its own resource
+ * produced by its own Weapon Factory recipe, and battle_action_log records the
+ * class behind every action.
+ */
+
+export type WeaponClass = "rifle" | "artillery" | "anti_armor";
+
+export interface WeaponClassDefinition {
+  name: string;
+  resourceKey: string;
+  description: string;
+  strongAgainst: WeaponClass;
+  fortificationMultiplier: number; // Applied to attackers hitting a fortified region
+}
+
+/**
+ * Damage dealt by one side with one class (null = unarmed)
+ */
+export interface WeaponClassDamage {
+  side: "attacker" | "defender";
+  weapon_class: WeaponClass | null;
+  damage: number;
+  actions: number;
+}
+
+export const WEAPON_CLASS_MATCHUP = {
+  advantage: 1.25, // +25% against the class it counters
+  disadvantage: 0.8, // -20% against the class that counters it
+} as const;
+
+export const WEAPON_CLASSES: Record<WeaponClass, WeaponClassDefinition> = {
+  rifle: {
+    name: "Rifles",
+    resourceKey: "weapon",
+    description: "Infantry rifles. Overrun anti-armor crews, pinned down by artillery.",
+    strongAgainst: "anti_armor",
+    fortificationMultiplier: 0.9,
+  },
+  artillery: {
+    name: "Artillery",
+    resourceKey: "artillery",
+    description: "Heavy guns. Shell infantry and fortifications, exposed to anti-armor raids.",
+    strongAgainst: "rifle",
+    fortificationMultiplier: 1.3,
+  },
+  anti_armor: {
+    name: "Anti-Armor",
+    resourceKey: "anti_armor",
+    description: "Launchers that knock out guns and bunkers, but fall to massed rifles.",
+    strongAgainst: "artillery",
+    fortificationMultiplier: 1.1,
+  },
+};
+
+export const WEAPON_CLASS_ORDER: WeaponClass[] = ["rifle", "artillery", "anti_armor"];
+
+/**
+ * Weapon class of an inventory resource
+ *
+ * @returns The class, or null when the resource is not a weapon
+ */
+export function getWeaponClassByResourceKey(resourceKey: string | null | undefined): WeaponClass | null {
+  return WEAPON_CLASS_ORDER.find((weaponClass) => WEAPON_CLASSES[weaponClass].resourceKey === resourceKey) ?? null;
+}
+
+/**
+ * Damage multiplier of one class against another
+ *
+ * @param weaponClass - Class the fighter is using, or null when unarmed
+ * @param opposingClass - Class the other side mostly fights with, or null
+ * @returns 1.25 with the advantage, 0.8 at a disadvantage, 1 otherwise
+ */
+export function getWeaponMatchupMultiplier(
+  weaponClass: WeaponClass | null | undefined,
+  opposingClass: WeaponClass | null | undefined
+): number {
+  if (!weaponClass || !opposingClass || weaponClass === opposingClass) {
+    return 1;
+  }
+
+  if (WEAPON_CLASSES[weaponClass].strongAgainst === opposingClass) {
+    return WEAPON_CLASS_MATCHUP.advantage;
+  }
+  if (WEAPON_CLASSES[opposingClass].strongAgainst === weaponClass) {
+    return WEAPON_CLASS_MATCHUP.disadvantage;
+  }
+  return 1;
+}
+
+/**
+ * Damage multiplier of a class against a fortified region (attackers only)
+ */
+export function getWeaponFortificationMultiplier(
+  weaponClass: WeaponClass | null | undefined,
+  fortified: boolean
+): number {
+  if (!weaponClass || !fortified) {
+    return 1;
+  }
+
+  return WEAPON_CLASSES[weaponClass].fortificationMultiplier;
+}
+
+/**
+ * Class that has dealt the most damage for a side so far
+ *
+ * @returns The class, or null when the side has only fought unarmed
+ */
+export function getDominantWeaponClass(stats: WeaponClassDamage[], side: "attacker" | "defender"): WeaponClass | null {
+  let dominant: WeaponClassDamage | null = null;
+
+  for (const entry of stats) {
+    if (entry.side !== side || !entry.weapon_class || entry.damage <= 0) continue;
+    if (!dominant || entry.damage > dominant.damage) dominant = entry;
+  }
+
+  return dominant?.weapon_class ?? null;
+}
@@ -0,0 +1,263 @@
+/**
+ * Battle Replay
+ * Rebuilds a finished battle's timeline from its action log and exports it
+ */
+
+import {
+  checkDamageDifferenceCondition,
+  isInFinalStandWindow,
+} from "@/lib/battle-mechanics/adrenaline";
+import type { AdrenalineConfig } from "@/lib/battle-mechanics/types";
+import type {
+  BattleLog,
+  BattleReplay,
+  BattleReplayFrame,
+  BattleReplayMarker,
+  BattleReplayWindow,
+  BattleStatus,
+  HeroTotalsEntry,
+} from "./types";
+
+export interface BattleReplaySource {
+  id: string;
+  status: BattleStatus;
+  started_at: string;
+  ends_at: string;
+  initial_defense: number;
+}
+
+/**
+ * Reconstruct wall HP, scores and hero leaders after every action, and mark
+ * rage crits, hero swaps and the spans where defenders had adrenaline
+ */
+export function buildBattleReplay(
+  battle: BattleReplaySource,
+  logs: BattleLog[],
+  adrenalineConfig: AdrenalineConfig
+): BattleReplay {
+  const startMs = new Date(battle.started_at).getTime();
+  const durationMs = Math.max(0, new Date(battle.ends_at).getTime() - startMs);
+  const windowStart = durationMs * (1 - adrenalineConfig.final_stand_window_percent / 100);
+
+  const frames: BattleReplayFrame[] = [];
+  const markers: BattleReplayMarker[] = [];
+  const adrenalineWindows: BattleReplayWindow[] = [];
+
+  const heroTotals = new Map<string, HeroTotalsEntry>();
+  const leaders: Record<"attacker" | "defender", HeroTotalsEntry | null> = {
+    attacker: null,
+    defender: null,
+  };
+  let attackerScore = 0;
+  let defenderScore = 0;
+  let adrenalineOpenedAt: number | null = null;
+  let windowStartChecked = false;
+
+  // Adrenaline only changes when scores change or the final stand opens
+  const checkAdrenaline = (at: number) => {
+    const active =
+      adrenalineConfig.enabled &&
+      isInFinalStandWindow(
+        battle.started_at,
+        battle.ends_at,
+        adrenalineConfig.final_stand_window_percent,
+        startMs + at
+      ) &&
+      checkDamageDifferenceCondition(attackerScore, defenderScore, adrenalineConfig.damage_threshold_ratio);
+
+    if (active && adrenalineOpenedAt === null) {
+      adrenalineOpenedAt = at;
+      markers.push({ type: "adrenaline", at, side: "defender", label: "Defenders gain adrenaline" });
+    } else if (!active && adrenalineOpenedAt !== null) {
+      adrenalineWindows.push({ start: adrenalineOpenedAt, end: at });
+      adrenalineOpenedAt = null;
+    }
+  };
+
+  const sorted = logs
+    .filter((log) => log.created_at)
+    .map((log) => ({ log, at: Math.min(durationMs, Math.max(0, new Date(log.created_at!).getTime() - startMs)) }))
+    .sort((a, b) => a.at - b.at);
+
+  for (const { log, at } of sorted) {
+    if (!windowStartChecked && at >= windowStart) {
+      windowStartChecked = true;
+      checkAdrenaline(windowStart);
+    }
+
+    if (log.side === "defender") defenderScore += log.damage;
+    else attackerScore += log.damage;
+
+    if (log.damage > 0) {
+      const key = `${log.side}:${log.actor_id ?? log.user}`;
+      const hero: HeroTotalsEntry = {
+        name: log.user,
+        avatar: log.user_avatar ?? heroTotals.get(key)?.avatar,
+        side: log.side,
+        actorId: log.actor_id ?? null,
+        damage: (heroTotals.get(key)?.damage ?? 0) + log.damage,
+      };
+      heroTotals.set(key, hero);
+
+      const leader = leaders[log.side];
+      if (!leader || `${leader.side}:${leader.actorId ?? leader.name}` === key) {
+        leaders[log.side] = hero;
+      } else if (hero.damage > leader.damage) {
+        leaders[log.side] = hero;
+        markers.push({ type: "hero_swap", at, side: log.side, label: `${hero.name} takes the lead from ${leader.name}` });
+      }
+    }
+
+    if (log.result === "CRITICAL") {
+      markers.push({
+        type: "critical",
+        at,
+        side: log.side,
+        label: `${log.user} crit for ${log.damage.toLocaleString()}`,
+      });
+    }
+
+    frames.push({
+      at,
+      log,
+      attackerScore,
+      defenderScore,
+      wallRemaining: battle.initial_defense - attackerScore + defenderScore,
+      attackerHero: leaders.attacker,
+      defenderHero: leaders.defender,
+    });
+
+    checkAdrenaline(at);
+  }
+
+  if (!windowStartChecked) {
+    checkAdrenaline(windowStart);
+  }
+  if (adrenalineOpenedAt !== null) {
+    adrenalineWindows.push({ start: adrenalineOpenedAt, end: durationMs });
+  }
+
+  return {
+    battleId: battle.id,
+    status: battle.status,
+    startedAt: battle.started_at,
+    endsAt: battle.ends_at,
+    durationMs,
+    initialDefense: battle.initial_defense,
+    frames,
+    markers,
+    adrenalineWindows,
+  };
+}
+
+/**
+ * Index of the last frame at or before a point in the battle (-1 before the first)
+ */
+export function getReplayFrameIndex(replay: BattleReplay, at: number): number {
+  let low = 0;
+  let high = replay.frames.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (replay.frames[mid].at <= at) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
+
+function frameTime(replay: BattleReplay, frame: BattleReplayFrame): string {
+  return new Date(new Date(replay.startedAt).getTime() + frame.at).toISOString();
+}
+
+/**
+ * Battle report as JSON: summary, timeline markers and every action
+ */
+export function battleReplayToJson(replay: BattleReplay): string {
+  const last = replay.frames[replay.frames.length - 1];
+  const count = (side: "attacker" | "defender", result?: string) =>
+    replay.frames.filter((frame) => frame.log.side === side && (!result || frame.log.result === result)).length;
+
+  const sideSummary = (side: "attacker" | "defender") => ({
+    damage: side === "attacker" ? (last?.attackerScore ?? 0) : (last?.defenderScore ?? 0),
+    actions: count(side),
+    hits: count(side) - count(side, "MISS"),
+    crits: count(side, "CRITICAL"),
+    hero: (side === "attacker" ? last?.attackerHero : last?.defenderHero) ?? null,
+  });
+
+  return JSON.stringify(
+    {
+      battle_id: replay.battleId,
+      status: replay.status,
+      started_at: replay.startedAt,
+      ends_at: replay.endsAt,
+      initial_defense: replay.initialDefense,
+      final_wall: last?.wallRemaining ?? replay.initialDefense,
+      attacker: sideSummary("attacker"),
+      defender: sideSummary("defender"),
+      adrenaline_windows: replay.adrenalineWindows.map((window) => ({
+        start_seconds: Math.round(window.start / 1000),
+        end_seconds: Math.round(window.end / 1000),
+      })),
+      markers: replay.markers.map((marker) => ({ ...marker, at: Math.round(marker.at / 1000) })),
+      actions: replay.frames.map((frame) => ({
+        time: frameTime(replay, frame),
+        user: frame.log.user,
+        user_id: frame.log.actor_id ?? null,
+        side: frame.log.side,
+        result: frame.log.result ?? "HIT",
+        damage: frame.log.damage,
+        attacker_score: frame.attackerScore,
+        defender_score: frame.defenderScore,
+        wall_remaining: frame.wallRemaining,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Battle report as CSV, one row per action
+ */
+export function battleReplayToCsv(replay: BattleReplay): string {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const header = [
+    "time",
+    "elapsed_seconds",
+    "user",
+    "side",
+    "result",
+    "damage",
+    "attacker_score",
+    "defender_score",
+    "wall_remaining",
+  ];
+  const rows = replay.frames.map((frame) =>
+    [
+      frameTime(replay, frame),
+      Math.round(frame.at / 1000),
+      frame.log.user,
+      frame.log.side,
+      frame.log.result ?? "HIT",
+      frame.log.damage,
+      frame.attackerScore,
+      frame.defenderScore,
+      frame.wallRemaining,
+    ]
+      .map(escape)
+      .join(",")
+  );
+
+  return [header.join(","), ...rows].join("\n");
+}
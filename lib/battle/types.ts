@@ -61,6 +61,7 @@ export interface BattleLog {
   side: "attacker" | "defender";
   actor_id?: string | null;
   result?: BattleResultType;
+  created_at?: string;
 }
 
 export interface RawBattleLogEntry {
@@ -79,6 +80,11 @@ export interface RawBattleLogEntry {
   actorId?: string | null;
   userId?: string | null;
   result?: BattleResultType;
+  created_at?: string;
+  // battle_action_log rows
+  damage_dealt?: number | string;
+  hit?: boolean;
+  critical?: boolean;
 }
 
 export interface FloatingHit {
@@ -130,3 +136,39 @@ export interface BattleStats {
   greenHeightPct: number;
   redHeightPct: number;
 }
+
+export type BattleReplayMarkerType = "critical" | "hero_swap" | "adrenaline";
+
+export interface BattleReplayFrame {
+  at: number; // ms since battle start
+  log: BattleLog;
+  attackerScore: number;
+  defenderScore: number;
+  wallRemaining: number;
+  attackerHero: HeroTotalsEntry | null;
+  defenderHero: HeroTotalsEntry | null;
+}
+
+export interface BattleReplayMarker {
+  type: BattleReplayMarkerType;
+  at: number;
+  side: "attacker" | "defender";
+  label: string;
+}
+
+export interface BattleReplayWindow {
+  start: number;
+  end: number;
+}
+
+export interface BattleReplay {
+  battleId: string;
+  status: BattleStatus;
+  startedAt: string;
+  endsAt: string;
+  durationMs: number;
+  initialDefense: number;
+  frames: BattleReplayFrame[];
+  markers: BattleReplayMarker[];
+  adrenalineWindows: BattleReplayWindow[];
+}
@@ -47,11 +47,14 @@ export function isDefenderVictory(status: BattleStatus): boolean {
 export function normalizeBattleLog(entry: RawBattleLogEntry): BattleLog {
   const username = entry.actor_username ?? entry.username ?? entry.user ?? "Unknown";
   const avatar = entry.actor_avatar_url ?? entry.avatar_url ?? entry.user_avatar ?? null;
-  const rawDamage = entry.damage_amount ?? entry.damage ?? 0;
+  const rawDamage = entry.damage_amount ?? entry.damage ?? entry.damage_dealt ?? 0;
   const damage = Math.abs(Number(rawDamage) || 0);
   const side = entry.side === "defender" ? "defender" : "attacker";
   const actorId = entry.actor_id ?? entry.user_id ?? entry.actorId ?? entry.userId ?? null;
-  const result = (entry as any).result as BattleResultType | undefined;
+  // Action log rows carry hit/critical flags instead of a result
+  const actionResult: BattleResultType | undefined =
+    entry.hit === false ? "MISS" : entry.critical ? "CRITICAL" : undefined;
+  const result = entry.result ?? actionResult;
 
   const fallbackKey =
     entry.user ??
@@ -71,6 +74,7 @@ export function normalizeBattleLog(entry: RawBattleLogEntry): BattleLog {
     side,
     actor_id: actorId,
     result: result || "HIT",
+    created_at: entry.created_at,
   };
 }
 
@@ -16,9 +16,41 @@ export interface StaticCompanyType {
   icon: LucideIcon;
   pollution_per_work: number;
   max_level: number;
+  recipes: string[]; // PRODUCTION_RECIPES keys this company can run
 }
 
-export type CompanyCategory = "raw_material" | "production";
+// Recipes mirror production_recipes in the database, keyed by resource key
+// instead of resource id. Inputs are consumed together or not at all.
+export interface StaticRecipe {
+  key: string;
+  name: string;
+  description: string;
+  inputs: Record<string, number>;
+  outputs: Record<string, number>;
+}
+
+export const PRODUCTION_RECIPES: StaticRecipe[] = [
+  // Extraction
+  { key: "harvest_grain", name: "Harvest Grain", description: "Extract grain from farmland.", inputs: {}, outputs: { grain: 1 } },
+  { key: "mine_iron", name: "Mine Iron", description: "Extract iron ore from deposits.", inputs: {}, outputs: { iron: 1 } },
+  { key: "drill_oil", name: "Drill Oil", description: "Extract crude oil from reservoirs.", inputs: {}, outputs: { oil: 1 } },
+
+  // Single-step processing
+  { key: "bake_bread", name: "Bake Bread", description: "Bake grain into food.", inputs: { grain: 10 }, outputs: { food: 1 } },
+  { key: "forge_weapon", name: "Forge Weapon", description: "Forge iron into weapons.", inputs: { iron: 10 }, outputs: { weapon: 1 } },
+  { key: "issue_ticket", name: "Issue Travel Ticket", description: "Convert oil into travel tickets.", inputs: { oil: 1 }, outputs: { ticket: 1 } },
+
+  // Production chains
+  { key: "smelt_steel", name: "Smelt Steel", description: "Refine iron ore with oil as fuel.", inputs: { iron: 5, oil: 2 }, outputs: { steel: 1 } },
+  { key: "forge_armor", name: "Forge Armor", description: "Hammer steel plates onto an iron frame.", inputs: { steel: 3, iron: 2 }, outputs: { armor: 1 } },
+  { key: "pack_rations", name: "Pack Rations", description: "Cook and seal grain for long marches.", inputs: { grain: 5, oil: 1 }, outputs: { rations: 2 } },
+
+  // Weapon classes
+  { key: "cast_artillery", name: "Cast Artillery", description: "Cast heavy guns from steel.", inputs: { steel: 3, oil: 2 }, outputs: { artillery: 1 } },
+  { key: "assemble_anti_armor", name: "Assemble Anti-Armor", description: "Assemble launchers from steel and iron.", inputs: { steel: 2, iron: 4 }, outputs: { anti_armor: 1 } },
+];
+
+export type CompanyCategory = "raw_material" | "production" | "logistics";
 
 export const COMPANY_TYPES: (StaticCompanyType & { category: CompanyCategory })[] = [
   // RAW MATERIALS (Extraction)
@@ -30,6 +62,7 @@ export const COMPANY_TYPES: (StaticCompanyType & { category: CompanyCategory })[
     build_cost_gold: 10,
     build_cost_resources: {},
     icon: COMPANY_ICONS.farm,
+    recipes: ["harvest_grain"],
     pollution_per_work: 1,
     max_level: 5,
   },
@@ -41,6 +74,7 @@ export const COMPANY_TYPES: (StaticCompanyType & { category: CompanyCategory })[
     build_cost_gold: 15,
     build_cost_resources: {},
     icon: COMPANY_ICONS.mine,
+    recipes: ["mine_iron"],
     pollution_per_work: 3,
     max_level: 5,
   },
@@ -52,6 +86,7 @@ export const COMPANY_TYPES: (StaticCompanyType & { category: CompanyCategory })[
     build_cost_gold: 25,
     build_cost_resources: {},
     icon: COMPANY_ICONS.oil_rig,
+    recipes: ["drill_oil"],
     pollution_per_work: 5,
     max_level: 3,
   },
@@ -67,6 +102,7 @@ export const COMPANY_TYPES: (StaticCompanyType & { category: CompanyCategory })[
       grain: 10,
     },
     icon: COMPANY_ICONS.bakery,
+    recipes: ["bake_bread"],
     pollution_per_work: 1,
     max_level: 5,
   },
@@ -74,12 +110,13 @@ export const COMPANY_TYPES: (StaticCompanyType & { category: CompanyCategory })[
     key: "smithy",
     name: "Weapon Factory",
     category: "production",
-    description: "Forge weapons from iron ore.",
+    description: "Forge rifles, artillery and anti-armor weapons.",
     build_cost_gold: 15,
     build_cost_resources: {
       iron: 10,
     },
     icon: COMPANY_ICONS.smithy,
+    recipes: ["forge_weapon", "cast_artillery", "assemble_anti_armor"],
     pollution_per_work: 2,
     max_level: 5,
   },
@@ -93,18 +130,131 @@ export const COMPANY_TYPES: (StaticCompanyType & { category: CompanyCategory })[
       oil: 5,
     },
     icon: COMPANY_ICONS.transit_station,
+    recipes: ["issue_ticket"],
+    pollution_per_work: 1,
+    max_level: 5,
+  },
+
+  // PRODUCTION CHAINS (multi-input, intermediate goods)
+  {
+    key: "foundry",
+    name: "Steel Foundry",
+    category: "production",
+    description: "Smelt iron and oil into steel.",
+    build_cost_gold: 200,
+    build_cost_resources: {
+      iron: 10,
+    },
+    icon: COMPANY_ICONS.foundry,
+    recipes: ["smelt_steel"],
+    pollution_per_work: 4,
+    max_level: 5,
+  },
+  {
+    key: "armory",
+    name: "Armory",
+    category: "production",
+    description: "Forge armor from steel and iron.",
+    build_cost_gold: 250,
+    build_cost_resources: {
+      steel: 5,
+    },
+    icon: COMPANY_ICONS.armory,
+    recipes: ["forge_armor"],
+    pollution_per_work: 2,
+    max_level: 5,
+  },
+  {
+    key: "field_kitchen",
+    name: "Field Kitchen",
+    category: "production",
+    description: "Pack grain and oil into rations for long marches.",
+    build_cost_gold: 150,
+    build_cost_resources: {
+      grain: 10,
+    },
+    icon: COMPANY_ICONS.field_kitchen,
+    recipes: ["pack_rations"],
     pollution_per_work: 1,
     max_level: 5,
   },
+
+  // LOGISTICS (no production)
+  {
+    key: "warehouse",
+    name: "Warehouse",
+    category: "logistics",
+    description: "Store more goods on this hex. Each level adds 1,000 units of storage.",
+    build_cost_gold: 100,
+    build_cost_resources: {},
+    icon: COMPANY_ICONS.warehouse,
+    recipes: [],
+    pollution_per_work: 0,
+    max_level: 5,
+  },
 ];
 
+// Mirrors the limits in the company shares migration
+export const COMPANY_SHARES_CONFIG = {
+  minIssue: 100,
+  maxIssue: 1000000,
+  defaultIssue: 1000,
+  majorStakePercent: 10, // Outside holders at or above this get a vote on key decisions
+  resolutionLabels: {
+    upgrade: "Upgrade the company",
+    hire_wage: "Approve job wage",
+    liquidation: "Liquidate the company",
+  },
+} as const;
+
+// Mirrors collect_company_upkeep and the auction rules in the upkeep migration
+export const COMPANY_UPKEEP_CONFIG = {
+  goldPerLevelPerDay: 2,
+  graceDays: 3, // Delinquent companies go bankrupt after this
+  auctionHours: 24,
+  minBidIncrementPercent: 5,
+  statusLabels: {
+    active: "Active",
+    delinquent: "Upkeep overdue",
+    bankrupt: "Bankrupt",
+  },
+} as const;
+
+export function getCompanyDailyUpkeep(level: number): number {
+  return COMPANY_UPKEEP_CONFIG.goldPerLevelPerDay * Math.max(1, level);
+}
+
+export const EMPLOYMENT_CONTRACT_CONFIG = {
+  maxTermDays: 90,
+  maxNoticeDays: 14,
+  offerExpiryDays: 3,
+  complaintCooldownDays: 7, // One complaint per company per employee
+  reputationWindowDays: 90, // Complaints count against the employer this long
+  complaintKinds: {
+    unpaid_wages: "Unpaid wages",
+    unfair_dismissal: "Unfair dismissal",
+    contract_breach: "Contract breach",
+    other: "Other",
+  },
+} as const;
+
 export const RAW_MATERIAL_TYPES = COMPANY_TYPES.filter(t => t.category === "raw_material");
 export const PRODUCTION_TYPES = COMPANY_TYPES.filter(t => t.category === "production");
+export const LOGISTICS_TYPES = COMPANY_TYPES.filter(t => t.category === "logistics");
 
 export function getCompanyTypeByKey(key: string): StaticCompanyType | undefined {
   return COMPANY_TYPES.find((t) => t.key === key);
 }
 
+export function getRecipeByKey(key: string): StaticRecipe | undefined {
+  return PRODUCTION_RECIPES.find((r) => r.key === key);
+}
+
+export function getRecipesForCompanyType(companyKey: string): StaticRecipe[] {
+  const recipeKeys = getCompanyTypeByKey(companyKey)?.recipes ?? [];
+  return PRODUCTION_RECIPES.filter((r) => recipeKeys.includes(r.key));
+}
+
 export function getCompanyIcon(key: string): LucideIcon {
   return getCompanyTypeByKey(key)?.icon || Building2;
 }
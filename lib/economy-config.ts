@@ -13,6 +13,10 @@ export const ECONOMY_CONFIG = {
         label: "Raw Materials",
         description: "Base resources harvested from hexes",
       },
+      intermediate: {
+        label: "Intermediate Goods",
+        description: "Refined materials that feed further production",
+      },
       product: {
         label: "Products",
         description: "Crafted items made from raw materials",
@@ -76,8 +80,8 @@ export const ECONOMY_CONFIG = {
     quantityPrecision: 2,
 
     // UI Settings
-    chartCollapsedHeight: 60, // px
-    chartExpandedHeight: 300, // px
+    chartHeight: 300, // px, candles and volume
+    depthChartHeight: 160, // px
     pollInterval: 15000, // 15 seconds
 
     // Chart periods
@@ -86,6 +90,46 @@ export const ECONOMY_CONFIG = {
       { value: "7d", label: "7 Days", days: 7 },
       { value: "30d", label: "30 Days", days: 30 },
     ] as const,
+
+    // Candle resolutions (market data API), each with the window it charts
+    resolutions: [
+      { value: "5m", label: "5m", bucket: "5 minutes", hours: 24 },
+      { value: "1h", label: "1H", bucket: "1 hour", hours: 24 * 7 },
+      { value: "1d", label: "1D", bucket: "1 day", hours: 24 * 90 },
+    ] as const,
+    depthLevels: 20, // Price levels per side in depth snapshots
+  },
+
+  // ============================================================================
+  // PLAYER-TO-PLAYER LOANS
+  // ============================================================================
+  loans: {
+    minPrincipal: 1,
+    maxDurationDays: 90,
+    maxInstallments: 12,
+    maxInterestPercent: 100, // Over the whole term
+    defaultGraceDays: 2, // An installment this late puts the loan in default
+    newBorrowerScore: 50, // Assumed score for users with no credit history
+    statusLabels: {
+      open: "Open",
+      active: "Active",
+      repaid: "Repaid",
+      defaulted: "Defaulted",
+      withdrawn: "Withdrawn",
+    },
+  },
+
+  // ============================================================================
+  // STORAGE & SHIPPING (mirrors the warehouses migration)
+  // ============================================================================
+  storage: {
+    baseCapacity: 1000, // Units every user can keep at any hex
+    warehouseCapacityPerLevel: 1000,
+    carriedResourceKeys: ["ticket"], // Travel with the user; everything else stays behind
+    hexesPerTicket: 30,
+    unitsPerTicket: 100,
+    goldPerUnitPerHex: 0.01,
+    minGoldFee: 1,
   },
 
   // ============================================================================
@@ -219,16 +263,42 @@ export function formatTransactionType(type: string): string {
     company_creation: "Company Founded",
     production_cost: "Production Cost",
     wage_payment: "Wage Received",
+    share_purchase: "Shares Traded",
+    dividend_payment: "Dividend",
+    company_deposit: "Company Deposit",
+    company_withdrawal: "Company Withdrawal",
+    auction_escrow: "Auction Bid",
+    auction_refund: "Auction Refund",
+    bankruptcy_payout: "Bankruptcy Payout",
 
     // Market
     tariff: "Trade Tax",
 
+    // Central bank
+    savings_deposit: "Savings Deposit",
+    savings_withdrawal: "Savings Withdrawal",
+    open_market_operation: "Open-Market Operation",
+
+    // Supply contracts
+    contract_escrow: "Contract Escrow",
+    contract_payment: "Contract Delivery Paid",
+    contract_penalty: "Contract Penalty",
+    contract_refund: "Contract Escrow Returned",
+
     // Loans
+    loan_escrow: "Loan Offer Escrow",
+    loan_refund: "Loan Offer Withdrawn",
     loan_disbursement: "Loan Received",
     loan_repayment: "Loan Payment",
     interest_payment: "Interest Paid",
     interest_earned: "Interest Earned",
 
+    // Shipping
+    shipping_fee: "Shipping Fee",
+
+    // Fortifications
+    fortification_build: "Fortification Built",
+
     // Admin operations
     admin_grant: "Admin Grant",
     admin_deduction: "Admin Deduction",
@@ -269,16 +339,42 @@ export function getTransactionIcon(type: string): string {
     company_creation: "Building",
     production_cost: "Factory",
     wage_payment: "Coins",
+    share_purchase: "PieChart",
+    dividend_payment: "HandCoins",
+    company_deposit: "PiggyBank",
+    company_withdrawal: "Banknote",
+    auction_escrow: "Gavel",
+    auction_refund: "Undo2",
+    bankruptcy_payout: "Scale",
 
     // Market
     tariff: "Percent",
 
+    // Central bank
+    savings_deposit: "PiggyBank",
+    savings_withdrawal: "Wallet",
+    open_market_operation: "Landmark",
+
+    // Supply contracts
+    contract_escrow: "Lock",
+    contract_payment: "Truck",
+    contract_penalty: "AlertTriangle",
+    contract_refund: "Undo2",
+
     // Loans
+    loan_escrow: "Lock",
+    loan_refund: "Undo2",
     loan_disbursement: "HandCoins",
     loan_repayment: "HandCoins",
     interest_payment: "TrendingDown",
     interest_earned: "TrendingUp",
 
+    // Shipping
+    shipping_fee: "Truck",
+
+    // Fortifications
+    fortification_build: "Castle",
+
     // Admin operations
     admin_grant: "ShieldCheck",
     admin_deduction: "ShieldAlert",
@@ -316,7 +412,7 @@ export function getTransactionColor(
  * Get category label for display
  */
 export function getCategoryLabel(
-  category: "raw_material" | "product"
+  category: "raw_material" | "intermediate" | "product"
 ): string {
   return ECONOMY_CONFIG.resources.categories[category]?.label || category;
 }
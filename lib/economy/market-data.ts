@@ -0,0 +1,161 @@
+/**
+ * Market Data
+ * Shapes the rows returned by the candle and depth RPCs into the market data
+ * API's candles, depth snapshots and 24h stats. The same shapes serve the
+ * currency exchange (gold per unit of currency) and the product markets
+ * (community coins per item).
+ */
+
+import { ECONOMY_CONFIG } from "@/lib/economy-config";
+import type {
+  CandleResolution,
+  MarketCandle,
+  MarketDepth,
+  MarketDepthLevel,
+  MarketStats24h,
+  OrderType,
+} from "@/lib/types/economy";
+
+type Numeric = number | string | null;
+
+export interface ExchangeCandleRow {
+  snapshot_time: string;
+  open_rate: Numeric;
+  high_rate: Numeric;
+  low_rate: Numeric;
+  close_rate: Numeric;
+  weighted_avg_rate: Numeric;
+  volume_gold: Numeric;
+  volume_currency: Numeric;
+  trade_count: Numeric;
+}
+
+export interface ProductCandleRow {
+  snapshot_time: string;
+  open_price: Numeric;
+  high_price: Numeric;
+  low_price: Numeric;
+  close_price: Numeric;
+  weighted_avg_price: Numeric;
+  volume_quantity: Numeric;
+  volume_community_coin: Numeric;
+  trade_count: Numeric;
+}
+
+export interface DepthRow {
+  side: OrderType;
+  price: Numeric;
+  quantity: Numeric;
+  order_count: Numeric;
+}
+
+export type CandleResolutionConfig = (typeof ECONOMY_CONFIG.exchangeMarket.resolutions)[number];
+
+export function getCandleResolution(value: string | null | undefined): CandleResolutionConfig | null {
+  return ECONOMY_CONFIG.exchangeMarket.resolutions.find((resolution) => resolution.value === value) ?? null;
+}
+
+export function isCandleResolution(value: string | null | undefined): value is CandleResolution {
+  return getCandleResolution(value) !== null;
+}
+
+export function toExchangeCandles(rows: ExchangeCandleRow[]): MarketCandle[] {
+  return rows.map((row) => ({
+    time: row.snapshot_time,
+    open: Number(row.open_rate ?? 0),
+    high: Number(row.high_rate ?? 0),
+    low: Number(row.low_rate ?? 0),
+    close: Number(row.close_rate ?? 0),
+    average: row.weighted_avg_rate !== null ? Number(row.weighted_avg_rate) : null,
+    volume: Number(row.volume_currency ?? 0),
+    turnover: Number(row.volume_gold ?? 0),
+    trade_count: Number(row.trade_count ?? 0),
+  }));
+}
+
+export function toProductCandles(rows: ProductCandleRow[]): MarketCandle[] {
+  return rows.map((row) => ({
+    time: row.snapshot_time,
+    open: Number(row.open_price ?? 0),
+    high: Number(row.high_price ?? 0),
+    low: Number(row.low_price ?? 0),
+    close: Number(row.close_price ?? 0),
+    average: row.weighted_avg_price !== null ? Number(row.weighted_avg_price) : null,
+    volume: Number(row.volume_quantity ?? 0),
+    turnover: Number(row.volume_community_coin ?? 0),
+    trade_count: Number(row.trade_count ?? 0),
+  }));
+}
+
+/**
+ * Best prices first on each side, with running totals, capped at maxLevels per side
+ */
+export function buildMarketDepth(
+  rows: DepthRow[],
+  maxLevels: number = ECONOMY_CONFIG.exchangeMarket.depthLevels
+): MarketDepth {
+  const accumulate = (side: OrderType, direction: 1 | -1): MarketDepthLevel[] => {
+    let cumulative = 0;
+    return rows
+      .filter((row) => row.side === side)
+      .map((row) => ({
+        side,
+        price: Number(row.price ?? 0),
+        quantity: Number(row.quantity ?? 0),
+        order_count: Number(row.order_count ?? 0),
+      }))
+      .sort((a, b) => (a.price - b.price) * direction)
+      .slice(0, maxLevels)
+      .map((level) => {
+        cumulative += level.quantity;
+        return { ...level, cumulative };
+      });
+  };
+
+  const bids = accumulate("buy", -1);
+  const asks = accumulate("sell", 1);
+  const bestBid = bids[0]?.price ?? null;
+  const bestAsk = asks[0]?.price ?? null;
+
+  return {
+    bids,
+    asks,
+    best_bid: bestBid,
+    best_ask: bestAsk,
+    spread: bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null,
+  };
+}
+
+/**
+ * Change, range and volume over candles covering the last 24 hours. Change is
+ * measured from the first trade in the window to the last.
+ */
+export function summarizeCandles(candles: MarketCandle[]): MarketStats24h {
+  const traded = candles.filter((candle) => candle.trade_count > 0);
+  if (traded.length === 0) {
+    return {
+      last_price: null,
+      open_price: null,
+      change: null,
+      high: null,
+      low: null,
+      volume: 0,
+      turnover: 0,
+      trade_count: 0,
+    };
+  }
+
+  const openPrice = traded[0].open;
+  const lastPrice = traded[traded.length - 1].close;
+
+  return {
+    last_price: lastPrice,
+    open_price: openPrice,
+    change: openPrice > 0 ? lastPrice / openPrice - 1 : null,
+    high: Math.max(...traded.map((candle) => candle.high)),
+    low: Math.min(...traded.map((candle) => candle.low)),
+    volume: traded.reduce((sum, candle) => sum + candle.volume, 0),
+    turnover: traded.reduce((sum, candle) => sum + candle.turnover, 0),
+    trade_count: traded.reduce((sum, candle) => sum + candle.trade_count, 0),
+  };
+}
@@ -25,6 +25,8 @@
  * TODO: Complete migration by removing all "role" checks
  */
 
+import { parseTimeToMilliseconds } from "@/lib/governance/laws";
+
 /**
  * Scalable Governance System Configuration
  *
@@ -40,11 +42,20 @@ export interface GovernanceRank {
   icon: string;
 }
 
+export interface ElectionConfig {
+  electedRank: number; // Rank tier filled by election instead of appointment
+  seats: number; // Seats up for election each term
+  termLength: string; // How long an elected council sits (e.g., "14d")
+  candidacyWindow: string; // How long members can declare candidacy (e.g., "24h")
+  votingWindow: string; // How long ballots can be cast after candidacy closes (e.g., "48h")
+}
+
 export interface GovernanceType {
   label: string;
   description: string;
   roles: GovernanceRank[];
   canAssignRanks: number[]; // Which rank tiers can assign others
+  elections?: ElectionConfig; // Present when some ranks are elected
 }
 
 export const GOVERNANCE_TYPES: Record<string, GovernanceType> = {
@@ -58,6 +69,23 @@ export const GOVERNANCE_TYPES: Record<string, GovernanceType> = {
     ],
     canAssignRanks: [0], // Only rank 0 can assign
   },
+  republic: {
+    label: "Republic",
+    description: "Led by a consul and a council elected by the citizens",
+    roles: [
+      { rank: 0, label: "Consul", maxCount: 1, icon: "landmark" },
+      { rank: 1, label: "Councilor", maxCount: 5, icon: "user-cog" },
+      { rank: 10, label: "Citizen", maxCount: null, icon: "users" },
+    ],
+    canAssignRanks: [0], // Consul can assign non-elected ranks only
+    elections: {
+      electedRank: 1,
+      seats: 5,
+      termLength: "14d",
+      candidacyWindow: "24h",
+      votingWindow: "48h",
+    },
+  },
   // Future governance types can be added here
   // democracy: { ... },
   // dictatorship: { ... },
@@ -96,13 +124,42 @@ export function canAssignRanks(governanceType: string, rankTier: number): boolea
   return config.canAssignRanks.includes(rankTier);
 }
 
+/**
+ * Get the election config for a governance type (null if no ranks are elected)
+ */
+export function getElectionConfig(governanceType: string): ElectionConfig | null {
+  return GOVERNANCE_TYPES[governanceType]?.elections ?? null;
+}
+
+/**
+ * Check if a rank tier is filled by election in this governance type
+ */
+export function isElectedRank(governanceType: string, rankTier: number): boolean {
+  return getElectionConfig(governanceType)?.electedRank === rankTier;
+}
+
+/**
+ * Compute the phase boundaries of an election opened at `openedAt`
+ */
+export function getElectionSchedule(
+  config: ElectionConfig,
+  openedAt: Date = new Date()
+): { candidacyEndsAt: Date; votingEndsAt: Date; termEndsAt: Date } {
+  const candidacyEndsAt = new Date(openedAt.getTime() + parseTimeToMilliseconds(config.candidacyWindow));
+  const votingEndsAt = new Date(candidacyEndsAt.getTime() + parseTimeToMilliseconds(config.votingWindow));
+  const termEndsAt = new Date(votingEndsAt.getTime() + parseTimeToMilliseconds(config.termLength));
+  return { candidacyEndsAt, votingEndsAt, termEndsAt };
+}
+
 /**
  * Get all assignable ranks for a governance type (ranks that can be assigned to members)
  */
 export function getAssignableRanks(governanceType: string): GovernanceRank[] {
   const config = getGovernanceType(governanceType);
-  // Usually all non-base ranks can be assigned
-  return config.roles.filter((r) => r.rank !== 10);
+  // Usually all non-base ranks can be assigned; elected ranks come from the ballot box
+  return config.roles.filter(
+    (r) => r.rank !== 10 && r.rank !== config.elections?.electedRank
+  );
 }
 
 /**
@@ -120,6 +177,13 @@ export function validateRankAssignment(
     return { valid: false, error: `Invalid rank tier: ${rankTier}` };
   }
 
+  if (config.elections?.electedRank === rankTier) {
+    return {
+      valid: false,
+      error: `${rankConfig.label} seats are filled by election`,
+    };
+  }
+
   if (rankConfig.maxCount !== null && currentCount >= rankConfig.maxCount) {
     return {
       valid: false,
@@ -0,0 +1,100 @@
+/**
+ * Vote Delegation (liquid democracy)
+ * Members may hand their vote to another member, either for every law or for a
+ * single law type. A law-specific delegation takes precedence over a global one.
+ * Delegation is transitive: if the delegate did not vote, the vote follows the
+ * delegate's own delegation, and so on until it reaches someone who voted.
+ */
+
+import { LAW_REGISTRY, type LawType } from "@/lib/governance/laws";
+
+export interface VoteDelegation {
+  delegator_id: string;
+  delegate_id: string;
+  law_type: LawType | null; // null = all laws
+}
+
+export interface ResolvedDelegation {
+  delegatorId: string;
+  voterId: string; // The member whose vote is counted on the delegator's behalf
+  via: string[]; // Intermediate delegates who did not vote themselves
+}
+
+/**
+ * The member a delegator has handed their vote to for a law type, if any
+ */
+export function getDelegateFor(
+  delegations: VoteDelegation[],
+  delegatorId: string,
+  lawType: LawType
+): string | null {
+  const specific = delegations.find((d) => d.delegator_id === delegatorId && d.law_type === lawType);
+  if (specific) return specific.delegate_id;
+
+  const global = delegations.find((d) => d.delegator_id === delegatorId && d.law_type === null);
+  return global?.delegate_id ?? null;
+}
+
+/**
+ * Whether adding a delegation would let a vote flow back to its delegator.
+ * The new delegation replaces any existing one with the same scope; a global
+ * delegation is checked against every law type it would apply to.
+ */
+export function wouldCreateDelegationCycle(
+  delegations: VoteDelegation[],
+  candidate: VoteDelegation
+): boolean {
+  if (candidate.delegator_id === candidate.delegate_id) return true;
+
+  const next = [
+    ...delegations.filter(
+      (d) => !(d.delegator_id === candidate.delegator_id && d.law_type === candidate.law_type)
+    ),
+    candidate,
+  ];
+  const lawTypes = candidate.law_type ? [candidate.law_type] : (Object.keys(LAW_REGISTRY) as LawType[]);
+
+  return lawTypes.some((lawType) => {
+    const visited = new Set<string>([candidate.delegator_id]);
+    let current = getDelegateFor(next, candidate.delegator_id, lawType);
+    while (current) {
+      if (visited.has(current)) return true;
+      visited.add(current);
+      current = getDelegateFor(next, current, lawType);
+    }
+    return false;
+  });
+}
+
+/**
+ * Resolve whose vote counts for each eligible member who did not vote directly.
+ * Members whose chain ends without reaching a voter (or loops) abstain.
+ */
+export function resolveDelegatedVotes(
+  delegations: VoteDelegation[],
+  lawType: LawType,
+  directVoterIds: Set<string>,
+  eligibleMemberIds: string[]
+): ResolvedDelegation[] {
+  const resolved: ResolvedDelegation[] = [];
+
+  for (const delegatorId of eligibleMemberIds) {
+    if (directVoterIds.has(delegatorId)) continue;
+
+    const visited = new Set<string>([delegatorId]);
+    const via: string[] = [];
+    let current = getDelegateFor(delegations, delegatorId, lawType);
+
+    while (current && !visited.has(current)) {
+      if (directVoterIds.has(current)) {
+        resolved.push({ delegatorId, voterId: current, via });
+        break;
+      }
+      visited.add(current);
+      via.push(current);
+      current = getDelegateFor(delegations, current, lawType);
+    }
+  }
+
+  return resolved;
+}
@@ -0,0 +1,261 @@
+/**
+ * Trade Embargoes (EMBARGO)
+ * A community cuts trade with another: while the embargo is active, members of
+ * the two communities cannot buy each other's products, exchange currency with
+ * each other or take jobs across the line. An embargo may extend to the
+ * sanctioning community's CFC allies.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export interface ActiveEmbargo {
+  id: string;
+  proposal_id: string;
+  community_id: string; // Sanctioning community
+  target_community_id: string; // Sanctioned community
+  include_allies: boolean;
+  starts_at: string;
+  ends_at: string | null; // null = until repealed
+}
+
+export interface TradeBlock {
+  embargo: ActiveEmbargo;
+  counterparty_id: string; // The community on the other side of the block
+  counterparty_name: string;
+  reason: string;
+}
+
+type EmbargoNetworkEntry = {
+  embargo: ActiveEmbargo;
+  sanctioners: Set<string>; // The sanctioning community plus, if included, its allies
+};
+
+/**
+ * Validate the terms of an EMBARGO proposal. Throws on invalid terms.
+ */
+export function normalizeEmbargoTerms(
+  metadata: Record<string, unknown>,
+  communityId: string
+): { target_community_id: string; include_allies: boolean } {
+  const targetCommunityId = metadata.target_community_id;
+  if (typeof targetCommunityId !== "string" || !targetCommunityId) {
+    throw new Error("Please select the community to embargo");
+  }
+  if (targetCommunityId === communityId) {
+    throw new Error("A community cannot embargo itself");
+  }
+
+  return {
+    target_community_id: targetCommunityId,
+    include_allies: metadata.include_allies === true,
+  };
+}
+
+/**
+ * The communities a user trades on behalf of: their main community and active memberships
+ */
+export async function getTradeCommunityIds(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const [{ data: user }, { data: memberships }] = await Promise.all([
+    supabase.from("users").select("main_community_id").eq("id", userId).maybeSingle(),
+    supabase.from("community_members").select("community_id").eq("user_id", userId).is("left_at", null),
+  ]);
+
+  const ids = new Set<string>((memberships ?? []).map((row: { community_id: string }) => row.community_id));
+  if (user?.main_community_id) {
+    ids.add(user.main_community_id);
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Active CFC allies of each given community
+ */
+async function getActiveAllies(
+  supabase: SupabaseClient,
+  communityIds: string[]
+): Promise<Map<string, string[]>> {
+  const allies = new Map<string, string[]>();
+  if (communityIds.length === 0) return allies;
+
+  const idList = communityIds.join(",");
+  const { data, error } = await supabase
+    .from("community_alliances")
+    .select("initiator_community_id, target_community_id")
+    .eq("status", "active")
+    .or(`initiator_community_id.in.(${idList}),target_community_id.in.(${idList})`);
+
+  if (error) {
+    throw new Error(`Failed to load alliances: ${error.message}`);
+  }
+
+  for (const row of (data ?? []) as Array<{ initiator_community_id: string; target_community_id: string }>) {
+    allies.set(row.initiator_community_id, [...(allies.get(row.initiator_community_id) ?? []), row.target_community_id]);
+    allies.set(row.target_community_id, [...(allies.get(row.target_community_id) ?? []), row.initiator_community_id]);
+  }
+  return allies;
+}
+
+/**
+ * Every embargo in force that involves the given communities, either as the
+ * sanctioned party or as a sanctioner (directly or through an alliance)
+ */
+async function loadEmbargoNetwork(
+  supabase: SupabaseClient,
+  communityIds: string[]
+): Promise<EmbargoNetworkEntry[]> {
+  if (communityIds.length === 0) return [];
+
+  const ownAllies = await getActiveAllies(supabase, communityIds);
+  const candidateSanctioners = new Set(communityIds);
+  for (const allyIds of ownAllies.values()) {
+    allyIds.forEach((id) => candidateSanctioners.add(id));
+  }
+
+  const { data, error } = await supabase
+    .from("community_embargoes")
+    .select("id, proposal_id, community_id, target_community_id, include_allies, starts_at, ends_at")
+    .eq("status", "active")
+    .or(
+      `community_id.in.(${Array.from(candidateSanctioners).join(",")}),` +
+      `target_community_id.in.(${communityIds.join(",")})`
+    )
+    .or(`ends_at.is.null,ends_at.gt.${new Date().toISOString()}`);
+
+  if (error) {
+    throw new Error(`Failed to check embargoes: ${error.message}`);
+  }
+
+  const embargoes = (data ?? []) as ActiveEmbargo[];
+  const sanctionerAllies = await getActiveAllies(
+    supabase,
+    Array.from(new Set(embargoes.filter((e) => e.include_allies).map((e) => e.community_id)))
+  );
+
+  return embargoes.map((embargo) => ({
+    embargo,
+    sanctioners: new Set([
+      embargo.community_id,
+      ...(embargo.include_allies ? sanctionerAllies.get(embargo.community_id) ?? [] : []),
+    ]),
+  }));
+}
+
+/**
+ * Pairs of (own community, blocked community) for each embargo in the network
+ */
+function collectBlocks(
+  network: EmbargoNetworkEntry[],
+  ownIds: string[]
+): Array<{ embargo: ActiveEmbargo; ownId: string; counterpartyId: string }> {
+  const blocks: Array<{ embargo: ActiveEmbargo; ownId: string; counterpartyId: string }> = [];
+
+  for (const { embargo, sanctioners } of network) {
+    for (const ownId of ownIds) {
+      if (sanctioners.has(ownId) && ownId !== embargo.target_community_id) {
+        blocks.push({ embargo, ownId, counterpartyId: embargo.target_community_id });
+      }
+      if (ownId === embargo.target_community_id) {
+        sanctioners.forEach((sanctionerId) => {
+          if (sanctionerId !== ownId) blocks.push({ embargo, ownId, counterpartyId: sanctionerId });
+        });
+      }
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Why trade with a community is blocked, e.g. "Rome has placed an embargo on Carthage"
+ */
+function describeBlock(
+  embargo: ActiveEmbargo,
+  ownId: string,
+  counterpartyId: string,
+  names: Map<string, string>
+): string {
+  const nameOf = (id: string) => names.get(id) ?? "Unknown";
+  const sanctioner = nameOf(embargo.community_id);
+  const until = embargo.ends_at ? ` until ${new Date(embargo.ends_at).toUTCString()}` : "";
+
+  // One side may be bound only through its alliance with the sanctioning community
+  const allyId = [ownId, counterpartyId].find(
+    (id) => id !== embargo.community_id && id !== embargo.target_community_id
+  );
+  const viaAlliance = allyId ? ` ${nameOf(allyId)} enforces it as an ally of ${sanctioner}.` : "";
+
+  return `${sanctioner} has placed a trade embargo on ${nameOf(embargo.target_community_id)}${until}.${viaAlliance}`;
+}
+
+async function loadCommunityNames(supabase: SupabaseClient, ids: string[]): Promise<Map<string, string>> {
+  if (ids.length === 0) return new Map();
+  const { data } = await supabase.from("communities").select("id, name").in("id", ids);
+  return new Map((data ?? []).map((community: { id: string; name: string }) => [community.id, community.name]));
+}
+
+/**
+ * The embargo, if any, that forbids trade between two sets of communities
+ * (e.g. a buyer's communities and a seller's market)
+ */
+export async function findTradeEmbargo(
+  supabase: SupabaseClient,
+  communityIds: string[],
+  otherCommunityIds: string[]
+): Promise<TradeBlock | null> {
+  const others = new Set(otherCommunityIds.filter(Boolean));
+  if (others.size === 0) return null;
+
+  const network = await loadEmbargoNetwork(supabase, communityIds.filter(Boolean));
+  const block = collectBlocks(network, communityIds).find((candidate) => others.has(candidate.counterpartyId));
+  if (!block) return null;
+
+  const names = await loadCommunityNames(supabase, [
+    block.embargo.community_id,
+    block.embargo.target_community_id,
+    block.ownId,
+    block.counterpartyId,
+  ]);
+
+  return {
+    embargo: block.embargo,
+    counterparty_id: block.counterpartyId,
+    counterparty_name: names.get(block.counterpartyId) ?? "Unknown",
+    reason: describeBlock(block.embargo, block.ownId, block.counterpartyId, names),
+  };
+}
+
+/**
+ * Every community the given communities cannot trade with, one entry per counterparty
+ */
+export async function listTradeBlocks(supabase: SupabaseClient, communityIds: string[]): Promise<TradeBlock[]> {
+  const network = await loadEmbargoNetwork(supabase, communityIds.filter(Boolean));
+  const blocks = collectBlocks(network, communityIds);
+  if (blocks.length === 0) return [];
+
+  const names = await loadCommunityNames(
+    supabase,
+    Array.from(
+      new Set(
+        blocks.flatMap((block) => [
+          block.embargo.community_id,
+          block.embargo.target_community_id,
+          block.ownId,
+          block.counterpartyId,
+        ])
+      )
+    )
+  );
+
+  const byCounterparty = new Map<string, TradeBlock>();
+  for (const block of blocks) {
+    if (byCounterparty.has(block.counterpartyId)) continue;
+    byCounterparty.set(block.counterpartyId, {
+      embargo: block.embargo,
+      counterparty_id: block.counterpartyId,
+      counterparty_name: names.get(block.counterpartyId) ?? "Unknown",
+      reason: describeBlock(block.embargo, block.ownId, block.counterpartyId, names),
+    });
+  }
+
+  return Array.from(byCounterparty.values());
+}
@@ -11,8 +11,8 @@
  * 3. The UI and execution automatically adapt
  */
 
-export type LawType = "DECLARE_WAR" | "PROPOSE_HEIR" | "CHANGE_GOVERNANCE" | "MESSAGE_OF_THE_DAY" | "WORK_TAX" | "IMPORT_TARIFF" | "CFC_ALLIANCE" | "ISSUE_CURRENCY";
-export type PassingCondition = "sovereign_only" | "majority_vote" | "supermajority_vote" | "unanimous";
+export type LawType = "DECLARE_WAR" | "PROPOSE_HEIR" | "CHANGE_GOVERNANCE" | "MESSAGE_OF_THE_DAY" | "WORK_TAX" | "IMPORT_TARIFF" | "CFC_ALLIANCE" | "ISSUE_CURRENCY" | "REPEAL_LAW" | "AMEND_LAW" | "SPEND_TREASURY" | "PROPOSE_PEACE" | "CEASEFIRE" | "TRANSFER_REGION" | "EMBARGO" | "MONETARY_POLICY" | "OPEN_MARKET_OPERATION";
+export type PassingCondition = "sovereign_only" | "majority_vote" | "supermajority_vote" | "unanimous" | "council_weighted" | "ranked_choice";
 export type VoteAccessType = "all_members" | "council_only" | "sovereign_only";
 
 export interface GovernanceRules {
@@ -22,14 +22,32 @@ export interface GovernanceRules {
   timeToPass: string; // e.g., "24h", "48h", "12h"
   canFastTrack: boolean; // Can sovereign override timer
   passingCondition: PassingCondition;
+  voteWeights?: Record<number, number>; // Vote weight per rank tier (defaults to 1 per vote)
+  quorum?: number; // Minimum turnout as a fraction of eligible (weighted) voters, e.g. 0.25
   description: string;
 }
 
+export interface RankedChoiceRules {
+  field: string; // Metadata field the winning option is written to before execution
+  maxOptions: number; // Most options a single ballot may offer
+}
+
+export interface LawDurationRules {
+  options: string[]; // Sunset durations a proposer may choose (e.g., ["7d", "30d"])
+  required?: boolean; // If true, the law cannot be enacted permanently
+}
+
 export interface LawDefinition {
   label: string;
   description: string;
   icon: string;
   requiresMetadata?: string[]; // Required metadata fields (e.g., ["target_community_id"])
+  repealable?: boolean; // Enacted instances can be targeted by REPEAL_LAW
+  amendableFields?: string[]; // Metadata fields AMEND_LAW may change on an enacted instance
+  supersededByNewer?: boolean; // A newer enactment of the same type replaces this one (rate-style laws)
+  duration?: LawDurationRules; // Optional sunset clause; the law's effect is reverted when it lapses
+  rankedChoice?: RankedChoiceRules; // Proposals may offer several options, decided by instant-runoff
+  bilateral?: boolean; // The target community's government (metadata.target_community_id) must also approve
   governanceRules: Record<string, GovernanceRules>;
 }
 
@@ -38,6 +56,9 @@ export interface LawDefinition {
  */
 const DEFAULT_GOVERNANCE_TYPE = "monarchy";
 
+// Republic council seats outweigh individual citizens when tallying votes
+const REPUBLIC_VOTE_WEIGHTS: Record<number, number> = { 0: 5, 1: 5, 10: 1 };
+
 function normalizeGovernanceType(governanceType: string | undefined | null) {
   if (!governanceType) return DEFAULT_GOVERNANCE_TYPE;
   return governanceType.toLowerCase();
@@ -66,8 +87,20 @@ export const LAW_REGISTRY: Record<LawType, LawDefinition> = {
         timeToPass: "48h",
         canFastTrack: false,
         passingCondition: "majority_vote",
+        quorum: 0.25,
         description: "Any member can propose war. Majority vote decides the fate of conflict.",
       },
+      republic: {
+        proposeRank: [0, 1], // Consul and council can propose
+        voteAccessRanks: [0, 1, 10], // Everyone votes
+        voteAccessType: "all_members",
+        timeToPass: "48h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        quorum: 0.25,
+        description: "Consul or council propose war. Council votes count five times a citizen vote.",
+      },
     },
   },
 
@@ -76,6 +109,7 @@ export const LAW_REGISTRY: Record<LawType, LawDefinition> = {
     description: "Designate the future ruler of your dynasty.",
     icon: "crown",
     requiresMetadata: ["target_user_id"],
+    rankedChoice: { field: "target_user_id", maxOptions: 5 },
     governanceRules: {
       monarchy: {
         proposeRank: 0,
@@ -94,6 +128,7 @@ export const LAW_REGISTRY: Record<LawType, LawDefinition> = {
     description: "Reshape how your community makes decisions.",
     icon: "gavel",
     requiresMetadata: ["new_governance_type"],
+    rankedChoice: { field: "new_governance_type", maxOptions: 3 },
     governanceRules: {
       monarchy: {
         proposeRank: 0,
@@ -104,6 +139,17 @@ export const LAW_REGISTRY: Record<LawType, LawDefinition> = {
         passingCondition: "sovereign_only",
         description: "Sovereign must decree the shift. Secretaries counsel on the change.",
       },
+      republic: {
+        proposeRank: [0, 1],
+        voteAccessRanks: [0, 1, 10],
+        voteAccessType: "all_members",
+        timeToPass: "72h",
+        canFastTrack: false,
+        passingCondition: "supermajority_vote",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        quorum: 0.4,
+        description: "Council drafts the new constitution. Needs a 2/3 council-weighted vote of all members.",
+      },
     },
   },
 
@@ -122,6 +168,16 @@ export const LAW_REGISTRY: Record<LawType, LawDefinition> = {
         passingCondition: "sovereign_only",
         description: "Sovereign broadcasts instantly. Members see it immediately on the community banner.",
       },
+      republic: {
+        proposeRank: [0, 1],
+        voteAccessRanks: [0, 1],
+        voteAccessType: "council_only",
+        timeToPass: "0h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        description: "Consul and councilors broadcast instantly on behalf of the republic.",
+      },
     },
   },
 
@@ -130,6 +186,10 @@ export const LAW_REGISTRY: Record<LawType, LawDefinition> = {
     description: "Set the tax rate on all work actions. Tax is deducted from wages and sent to community treasury.",
     icon: "coins",
     requiresMetadata: ["tax_rate"],
+    repealable: true,
+    amendableFields: ["tax_rate"],
+    supersededByNewer: true,
+    duration: { options: ["7d", "14d", "30d", "90d"] },
     governanceRules: {
       monarchy: {
         proposeRank: 0, // Only king can propose
@@ -140,6 +200,16 @@ export const LAW_REGISTRY: Record<LawType, LawDefinition> = {
         passingCondition: "sovereign_only",
         description: "Sovereign sets the work tax rate. Takes effect immediately upon approval.",
       },
+      republic: {
+        proposeRank: [0, 1],
+        voteAccessRanks: [0, 1],
+        voteAccessType: "council_only",
+        timeToPass: "24h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        description: "Council sets the work tax rate by weighted majority.",
+      },
     },
   },
 
@@ -148,6 +218,10 @@ export const LAW_REGISTRY: Record<LawType, LawDefinition> = {
     description: "Set tariff rate on goods sold by merchants from other communities in your market. Revenue goes to community treasury.",
     icon: "package",
     requiresMetadata: ["tariff_rate"],
+    repealable: true,
+    amendableFields: ["tariff_rate"],
+    supersededByNewer: true,
+    duration: { options: ["7d", "14d", "30d", "90d"] },
     governanceRules: {
       monarchy: {
         proposeRank: 0, // Only king can propose
@@ -158,6 +232,55 @@ export const LAW_REGISTRY: Record<LawType, LawDefinition> = {
         passingCondition: "sovereign_only",
         description: "Sovereign sets the import tariff rate. Takes effect immediately on cross-community market trades.",
       },
+      republic: {
+        proposeRank: [0, 1],
+        voteAccessRanks: [0, 1],
+        voteAccessType: "council_only",
+        timeToPass: "24h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        description: "Council sets the import tariff rate by weighted majority.",
+      },
+    },
+  },
+
+  EMBARGO: {
+    label: "Trade Embargo",
+    description: "Cut trade with another community. Members of the two communities cannot buy from each other's markets, exchange currency with each other or take jobs across the line. Allies may be asked to join.",
+    icon: "ban",
+    requiresMetadata: ["target_community_id"],
+    repealable: true,
+    duration: { options: ["7d", "30d", "90d"] },
+    governanceRules: {
+      monarchy: {
+        proposeRank: 0, // Only king can propose
+        voteAccessRanks: [0, 1], // King and secretaries
+        voteAccessType: "council_only",
+        timeToPass: "24h",
+        canFastTrack: true,
+        passingCondition: "sovereign_only",
+        description: "Sovereign imposes the embargo. Secretaries provide counsel.",
+      },
+      democracy: {
+        proposeRank: [0, 1], // Leadership can propose
+        voteAccessRanks: [0, 1, 10], // Everyone votes
+        voteAccessType: "all_members",
+        timeToPass: "48h",
+        canFastTrack: false,
+        passingCondition: "majority_vote",
+        description: "Leadership proposes the embargo. Majority vote decides.",
+      },
+      republic: {
+        proposeRank: [0, 1],
+        voteAccessRanks: [0, 1],
+        voteAccessType: "council_only",
+        timeToPass: "24h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        description: "Council imposes the embargo by weighted majority.",
+      },
     },
   },
 
@@ -166,6 +289,9 @@ export const LAW_REGISTRY: Record<LawType, LawDefinition> = {
     description: "Propose an alliance with another community. Both communities must approve. Allies can fight in each other's battles from home.",
     icon: "handshake",
     requiresMetadata: ["target_community_id"],
+    repealable: true,
+    bilateral: true,
+    duration: { options: ["30d", "90d", "180d"] },
     governanceRules: {
       monarchy: {
         proposeRank: 0, // Only king can propose
@@ -176,6 +302,134 @@ export const LAW_REGISTRY: Record<LawType, LawDefinition> = {
         passingCondition: "sovereign_only",
         description: "Sovereign proposes alliance. Target community must also approve to activate. Maximum 5 active alliances.",
       },
+      republic: {
+        proposeRank: [0, 1],
+        voteAccessRanks: [0, 1],
+        voteAccessType: "council_only",
+        timeToPass: "24h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        description: "Council proposes the alliance by weighted majority. Target community must also approve. Maximum 5 active alliances.",
+      },
+    },
+  },
+
+  PROPOSE_PEACE: {
+    label: "Propose Peace",
+    description: "End a war with a peace treaty. Both governments must agree. Terms may include gold reparations, region cession and a minimum duration.",
+    icon: "dove",
+    requiresMetadata: ["target_community_id"],
+    repealable: true, // Breaking the treaty ends it early
+    bilateral: true,
+    duration: { options: ["7d", "30d", "90d"] },
+    governanceRules: {
+      monarchy: {
+        proposeRank: 0, // Only king can propose
+        voteAccessRanks: [0, 1], // King and secretaries
+        voteAccessType: "council_only",
+        timeToPass: "24h",
+        canFastTrack: false, // The enemy government still has to vote
+        passingCondition: "sovereign_only",
+        description: "Sovereign offers peace. The enemy government must also accept the terms.",
+      },
+      democracy: {
+        proposeRank: [0, 1], // Leadership can propose
+        voteAccessRanks: [0, 1, 10], // Everyone votes
+        voteAccessType: "all_members",
+        timeToPass: "24h",
+        canFastTrack: false,
+        passingCondition: "majority_vote",
+        description: "Leadership offers peace. A majority of members and the enemy government must accept the terms.",
+      },
+      republic: {
+        proposeRank: [0, 1],
+        voteAccessRanks: [0, 1],
+        voteAccessType: "council_only",
+        timeToPass: "24h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        description: "Council offers peace by weighted majority. The enemy government must also accept the terms.",
+      },
+    },
+  },
+
+  CEASEFIRE: {
+    label: "Ceasefire",
+    description: "Pause a war for a fixed period. Both governments must agree. Hostilities resume when the ceasefire ends.",
+    icon: "flag",
+    requiresMetadata: ["target_community_id"],
+    repealable: true, // Breaking the ceasefire resumes the war
+    bilateral: true,
+    duration: { options: ["1d", "3d", "7d"], required: true },
+    governanceRules: {
+      monarchy: {
+        proposeRank: 0, // Only king can propose
+        voteAccessRanks: [0, 1], // King and secretaries
+        voteAccessType: "council_only",
+        timeToPass: "12h",
+        canFastTrack: false, // The enemy government still has to vote
+        passingCondition: "sovereign_only",
+        description: "Sovereign calls for a ceasefire. The enemy government must also agree.",
+      },
+      democracy: {
+        proposeRank: [0, 1], // Leadership can propose
+        voteAccessRanks: [0, 1, 10], // Everyone votes
+        voteAccessType: "all_members",
+        timeToPass: "12h",
+        canFastTrack: false,
+        passingCondition: "majority_vote",
+        description: "Leadership calls for a ceasefire. A majority of members and the enemy government must agree.",
+      },
+      republic: {
+        proposeRank: [0, 1],
+        voteAccessRanks: [0, 1],
+        voteAccessType: "council_only",
+        timeToPass: "12h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        description: "Council calls for a ceasefire by weighted majority. The enemy government must also agree.",
+      },
+    },
+  },
+
+  TRANSFER_REGION: {
+    label: "Transfer Region",
+    description: "Cede or sell one of our regions to another community. The receiving government must accept, and any price is paid from its treasury into ours.",
+    icon: "map",
+    requiresMetadata: ["target_community_id", "hex_id"],
+    bilateral: true,
+    governanceRules: {
+      monarchy: {
+        proposeRank: 0, // Only king can propose
+        voteAccessRanks: [0, 1], // King and secretaries
+        voteAccessType: "council_only",
+        timeToPass: "24h",
+        canFastTrack: false, // The receiving government still has to vote
+        passingCondition: "sovereign_only",
+        description: "Sovereign offers the region. The receiving government must accept the terms.",
+      },
+      democracy: {
+        proposeRank: [0, 1], // Leadership can propose
+        voteAccessRanks: [0, 1, 10], // Everyone votes
+        voteAccessType: "all_members",
+        timeToPass: "24h",
+        canFastTrack: false,
+        passingCondition: "majority_vote",
+        description: "Leadership offers the region. A majority of members and the receiving government must accept the terms.",
+      },
+      republic: {
+        proposeRank: [0, 1],
+        voteAccessRanks: [0, 1],
+        voteAccessType: "council_only",
+        timeToPass: "24h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        description: "Council offers the region by weighted majority. The receiving government must accept the terms.",
+      },
     },
   },
 
@@ -184,6 +438,8 @@ export const LAW_REGISTRY: Record<LawType, LawDefinition> = {
     description: "Convert gold from treasury into community currency at a specified exchange rate. Gold is burned permanently and currency is minted to treasury.",
     icon: "coins",
     requiresMetadata: ["gold_amount", "conversion_rate"],
+    repealable: true,
+    amendableFields: ["gold_amount", "conversion_rate"],
     governanceRules: {
       monarchy: {
         proposeRank: 0, // Only king can propose
@@ -201,8 +457,220 @@ export const LAW_REGISTRY: Record<LawType, LawDefinition> = {
         timeToPass: "48h",
         canFastTrack: false,
         passingCondition: "majority_vote",
+        quorum: 0.2,
         description: "Leadership proposes currency issuance. All members vote on monetary policy.",
       },
+      republic: {
+        proposeRank: [0, 1],
+        voteAccessRanks: [0, 1, 10],
+        voteAccessType: "all_members",
+        timeToPass: "48h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        quorum: 0.2,
+        description: "Council proposes currency issuance. All citizens vote, with council votes weighted.",
+      },
+    },
+  },
+
+  MONETARY_POLICY: {
+    label: "Monetary Policy",
+    description: "Set the central bank's policy interest rate, paid on savings deposits in community currency, and the gold reserve the treasury must hold against money in circulation.",
+    icon: "percent",
+    requiresMetadata: ["policy_rate", "reserve_ratio"],
+    repealable: true,
+    amendableFields: ["policy_rate", "reserve_ratio"],
+    supersededByNewer: true,
+    duration: { options: ["7d", "14d", "30d", "90d"] },
+    governanceRules: {
+      monarchy: {
+        proposeRank: 0, // Only king can propose
+        voteAccessRanks: [0], // Only king votes
+        voteAccessType: "sovereign_only",
+        timeToPass: "0h", // Instant when king votes
+        canFastTrack: false, // Already instant
+        passingCondition: "sovereign_only",
+        description: "Sovereign sets monetary policy. Takes effect immediately upon approval.",
+      },
+      democracy: {
+        proposeRank: [0, 1], // Leadership can propose
+        voteAccessRanks: [0, 1, 10], // All members vote
+        voteAccessType: "all_members",
+        timeToPass: "48h",
+        canFastTrack: false,
+        passingCondition: "majority_vote",
+        quorum: 0.2,
+        description: "Leadership proposes monetary policy. All members vote on the rate and reserve.",
+      },
+      republic: {
+        proposeRank: [0, 1],
+        voteAccessRanks: [0, 1],
+        voteAccessType: "council_only",
+        timeToPass: "24h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        description: "Council sets monetary policy by weighted majority.",
+      },
+    },
+  },
+
+  OPEN_MARKET_OPERATION: {
+    label: "Open-Market Operation",
+    description: "Have the treasury buy back community currency with gold, or sell currency for gold, through an order on the P2P exchange. Repealing the law withdraws whatever has not been filled.",
+    icon: "repeat",
+    requiresMetadata: ["operation", "gold_amount", "currency_amount"],
+    repealable: true,
+    governanceRules: {
+      monarchy: {
+        proposeRank: 0, // Only king can propose
+        voteAccessRanks: [0], // Only king votes
+        voteAccessType: "sovereign_only",
+        timeToPass: "0h", // Instant when king votes
+        canFastTrack: false, // Already instant
+        passingCondition: "sovereign_only",
+        description: "Sovereign orders the operation. The treasury order is placed immediately.",
+      },
+      democracy: {
+        proposeRank: [0, 1], // Leadership can propose
+        voteAccessRanks: [0, 1, 10], // All members vote
+        voteAccessType: "all_members",
+        timeToPass: "48h",
+        canFastTrack: false,
+        passingCondition: "majority_vote",
+        quorum: 0.2,
+        description: "Leadership proposes the operation. All members vote on treasury trading.",
+      },
+      republic: {
+        proposeRank: [0, 1],
+        voteAccessRanks: [0, 1],
+        voteAccessType: "council_only",
+        timeToPass: "24h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        description: "Council approves the operation by weighted majority.",
+      },
+    },
+  },
+
+  SPEND_TREASURY: {
+    label: "Spend Treasury",
+    description: "Pay a grant, bounty or salary from community funds. Recurring payments continue on schedule until repealed or lapsed.",
+    icon: "landmark",
+    requiresMetadata: ["recipient_id", "amount", "currency", "purpose"],
+    repealable: true, // Stops a recurring payment; one-off grants are final once paid
+    amendableFields: ["amount"],
+    duration: { options: ["7d", "30d", "90d"] }, // Recurring payments only
+    governanceRules: {
+      monarchy: {
+        proposeRank: 0, // Only king can propose
+        voteAccessRanks: [0], // Only king votes
+        voteAccessType: "sovereign_only",
+        timeToPass: "0h", // Instant when king votes
+        canFastTrack: false, // Already instant
+        passingCondition: "sovereign_only",
+        description: "Sovereign disburses treasury funds by decree. Payments are made immediately.",
+      },
+      democracy: {
+        proposeRank: [0, 1], // Leadership can propose
+        voteAccessRanks: [0, 1, 10], // All members vote
+        voteAccessType: "all_members",
+        timeToPass: "48h",
+        canFastTrack: false,
+        passingCondition: "majority_vote",
+        quorum: 0.2,
+        description: "Leadership proposes spending. All members vote on how treasury funds are used.",
+      },
+      republic: {
+        proposeRank: [0, 1],
+        voteAccessRanks: [0, 1],
+        voteAccessType: "council_only",
+        timeToPass: "24h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        description: "Council approves treasury spending by weighted majority.",
+      },
+    },
+  },
+
+  REPEAL_LAW: {
+    label: "Repeal Law",
+    description: "Strike an enacted law from the books and undo its effects (tax rate, tariff, monetary policy, alliance, treaty, currency issuance, open-market order or recurring payment).",
+    icon: "eraser",
+    requiresMetadata: ["target_proposal_id"],
+    governanceRules: {
+      monarchy: {
+        proposeRank: 0, // Only king can propose
+        voteAccessRanks: [0, 1], // King and secretaries
+        voteAccessType: "council_only",
+        timeToPass: "24h",
+        canFastTrack: true,
+        passingCondition: "sovereign_only",
+        description: "Sovereign may revoke any enacted law. Secretaries counsel on the repeal.",
+      },
+      democracy: {
+        proposeRank: [0, 1, 10], // Any member can propose
+        voteAccessRanks: [0, 1, 10], // Everyone votes
+        voteAccessType: "all_members",
+        timeToPass: "48h",
+        canFastTrack: false,
+        passingCondition: "majority_vote",
+        quorum: 0.2,
+        description: "Any member can call for a repeal. Majority vote strikes the law from the books.",
+      },
+      republic: {
+        proposeRank: [0, 1, 10],
+        voteAccessRanks: [0, 1, 10],
+        voteAccessType: "all_members",
+        timeToPass: "48h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        quorum: 0.2,
+        description: "Any citizen can call for a repeal. A council-weighted majority strikes the law from the books.",
+      },
+    },
+  },
+
+  AMEND_LAW: {
+    label: "Amend Law",
+    description: "Change the terms of an enacted law (e.g. adjust a tax rate or tariff) without repealing it.",
+    icon: "pen-line",
+    requiresMetadata: ["target_proposal_id", "amendments"],
+    governanceRules: {
+      monarchy: {
+        proposeRank: 0, // Only king can propose
+        voteAccessRanks: [0, 1], // King and secretaries
+        voteAccessType: "council_only",
+        timeToPass: "12h",
+        canFastTrack: true,
+        passingCondition: "sovereign_only",
+        description: "Sovereign rewrites the terms of an enacted law. Secretaries counsel on the amendment.",
+      },
+      democracy: {
+        proposeRank: [0, 1], // Leadership can propose
+        voteAccessRanks: [0, 1, 10], // Everyone votes
+        voteAccessType: "all_members",
+        timeToPass: "48h",
+        canFastTrack: false,
+        passingCondition: "majority_vote",
+        quorum: 0.2,
+        description: "Leadership drafts the amendment. Majority vote decides whether the new terms take effect.",
+      },
+      republic: {
+        proposeRank: [0, 1],
+        voteAccessRanks: [0, 1, 10],
+        voteAccessType: "all_members",
+        timeToPass: "48h",
+        canFastTrack: false,
+        passingCondition: "council_weighted",
+        voteWeights: REPUBLIC_VOTE_WEIGHTS,
+        quorum: 0.2,
+        description: "Council drafts the amendment. A council-weighted majority decides whether the new terms take effect.",
+      },
     },
   },
 };
@@ -236,6 +704,67 @@ export function getGovernanceRules(
   return rules;
 }
 
+/**
+ * Check if enacted laws of this type can be repealed
+ */
+export function isLawRepealable(lawType: LawType): boolean {
+  return Boolean(LAW_REGISTRY[lawType]?.repealable);
+}
+
+/**
+ * Get the metadata fields an amendment may change for a law type
+ */
+export function getAmendableFields(lawType: LawType): string[] {
+  return LAW_REGISTRY[lawType]?.amendableFields ?? [];
+}
+
+/**
+ * Get all law types whose enacted instances can be repealed or amended
+ */
+export function getRevisableLawTypes(mode: "repeal" | "amend"): LawType[] {
+  return (Object.keys(LAW_REGISTRY) as LawType[]).filter((lawType) =>
+    mode === "repeal" ? isLawRepealable(lawType) : getAmendableFields(lawType).length > 0
+  );
+}
+
+/**
+ * Validate a proposed sunset duration against the law's duration rules.
+ * Returns the duration to store, or null for a permanent law.
+ */
+export function resolveLawDuration(lawType: LawType, duration: unknown): string | null {
+  const rules = LAW_REGISTRY[lawType]?.duration;
+  if (duration === undefined || duration === null || duration === "") {
+    if (rules?.required) {
+      throw new Error(`${LAW_REGISTRY[lawType].label} must include a sunset duration`);
+    }
+    return null;
+  }
+
+  if (!rules) {
+    throw new Error(`${LAW_REGISTRY[lawType]?.label ?? lawType} cannot carry a sunset clause`);
+  }
+
+  if (typeof duration !== "string" || !rules.options.includes(duration)) {
+    throw new Error(`Invalid duration. Choose one of: ${rules.options.join(", ")}`);
+  }
+
+  return duration;
+}
+
+/**
+ * Whether a law needs the approval of the target community's government as well
+ */
+export function isBilateralLaw(lawType: LawType): boolean {
+  return !!LAW_REGISTRY[lawType]?.bilateral;
+}
+
+/**
+ * All law types that need both communities' approval
+ */
+export function getBilateralLawTypes(): LawType[] {
+  return (Object.keys(LAW_REGISTRY) as LawType[]).filter(isBilateralLaw);
+}
+
 /**
  * Check if a user can propose a law
  */
@@ -263,6 +792,13 @@ export function canVoteOnLaw(
   return rules.voteAccessRanks.includes(userRank);
 }
 
+/**
+ * Get the weight of a vote cast by a member of the given rank
+ */
+export function getVoteWeight(rules: GovernanceRules, rankTier: number): number {
+  return rules.voteWeights?.[rankTier] ?? 1;
+}
+
 /**
  * Parse time string (e.g., "24h", "48h") into milliseconds
  */
@@ -294,16 +830,24 @@ export function calculateExpiresAt(timeToPass: string): Date {
 }
 
 /**
- * Determine if a proposal should pass based on vote counts and passing condition
+ * Determine if a proposal should pass based on vote counts and passing condition.
+ * When the rules define voteWeights, counts are expected to be weighted sums.
+ * Counts include delegated votes: a member who delegated adds their weight to
+ * the vote of the member their delegation chain resolved to.
  */
 export function shouldProposalPass(
   yesVotes: number,
   noVotes: number,
   totalEligibleVoters: number,
-  passingCondition: PassingCondition
+  passingCondition: PassingCondition,
+  quorum?: number
 ): boolean {
   const totalVotes = yesVotes + noVotes;
 
+  if (!meetsQuorum(totalVotes, totalEligibleVoters, quorum)) {
+    return false;
+  }
+
   switch (passingCondition) {
     case "sovereign_only":
       // Sovereign vote is the only vote that matters
@@ -321,11 +865,117 @@ export function shouldProposalPass(
       // All votes must be yes
       return totalVotes > 0 && noVotes === 0 && yesVotes === totalEligibleVoters;
 
+    case "council_weighted":
+      // More weighted yes than weighted no (counts are already weighted by rank)
+      return yesVotes > noVotes;
+
+    case "ranked_choice":
+      // Yes counts ranked ballots; the winning option is decided by tallyRankedChoice
+      return yesVotes > 0;
+
     default:
       return false;
   }
 }
 
+/**
+ * Check whether enough eligible voters took part. `quorum` is a fraction (0-1)
+ * of eligible voters; laws without a quorum always meet it.
+ */
+export function meetsQuorum(
+  votesCast: number,
+  totalEligibleVoters: number,
+  quorum?: number
+): boolean {
+  if (!quorum || quorum <= 0) return true;
+  if (totalEligibleVoters <= 0) return false;
+  return votesCast / totalEligibleVoters >= quorum;
+}
+
+/**
+ * Get the options of a multi-option proposal, or null for a yes/no proposal
+ */
+export function getProposalOptions(
+  lawType: LawType,
+  metadata: Record<string, unknown> | null | undefined
+): string[] | null {
+  if (!LAW_REGISTRY[lawType]?.rankedChoice) return null;
+  const options = metadata?.options;
+  if (!Array.isArray(options) || options.length < 2) return null;
+  return options.map(String);
+}
+
+/**
+ * The passing condition that actually decides a proposal: multi-option
+ * proposals are always decided by ranked choice
+ */
+export function getEffectivePassingCondition(
+  rules: GovernanceRules,
+  lawType: LawType,
+  metadata: Record<string, unknown> | null | undefined
+): PassingCondition {
+  return getProposalOptions(lawType, metadata) ? "ranked_choice" : rules.passingCondition;
+}
+
+export interface RankedBallot {
+  ranking: string[]; // Option keys, most preferred first
+  weight: number;
+}
+
+export interface RankedChoiceRound {
+  round: number;
+  tallies: Record<string, number>;
+  eliminated: string | null;
+}
+
+export interface RankedChoiceResult {
+  winner: string | null;
+  rounds: RankedChoiceRound[];
+  exhaustedWeight: number; // Weight of ballots with no remaining option in the final round
+}
+
+/**
+ * Instant-runoff tally. Each round counts every ballot for its highest-ranked
+ * remaining option. An option holding a majority of the active weight wins;
+ * otherwise the weakest option is eliminated (ties eliminate the option listed last).
+ */
+export function tallyRankedChoice(options: string[], ballots: RankedBallot[]): RankedChoiceResult {
+  const remaining = [...options];
+  const rounds: RankedChoiceRound[] = [];
+
+  while (remaining.length > 0) {
+    const tallies: Record<string, number> = Object.fromEntries(remaining.map((option) => [option, 0]));
+    let exhaustedWeight = 0;
+
+    for (const ballot of ballots) {
+      const choice = ballot.ranking.find((option) => remaining.includes(option));
+      if (choice) {
+        tallies[choice] += ballot.weight;
+      } else {
+        exhaustedWeight += ballot.weight;
+      }
+    }
+
+    const activeWeight = remaining.reduce((total, option) => total + tallies[option], 0);
+    if (activeWeight === 0) {
+      rounds.push({ round: rounds.length + 1, tallies, eliminated: null });
+      return { winner: null, rounds, exhaustedWeight };
+    }
+
+    const leader = remaining.reduce((best, option) => (tallies[option] > tallies[best] ? option : best));
+    if (tallies[leader] * 2 > activeWeight || remaining.length === 1) {
+      rounds.push({ round: rounds.length + 1, tallies, eliminated: null });
+      return { winner: leader, rounds, exhaustedWeight };
+    }
+
+    const weakest = remaining.reduce((worst, option) => (tallies[option] <= tallies[worst] ? option : worst));
+    rounds.push({ round: rounds.length + 1, tallies, eliminated: weakest });
+    remaining.splice(remaining.indexOf(weakest), 1);
+  }
+
+  return { winner: null, rounds, exhaustedWeight: 0 };
+}
+
 /**
  * Get all laws available for a specific governance type
  */
@@ -0,0 +1,167 @@
+/**
+ * Central Bank Monetary Policy (MONETARY_POLICY, OPEN_MARKET_OPERATION)
+ * A community manages the currency it issued: a policy interest rate is paid
+ * on savings deposits (minted daily), a reserve ratio keeps treasury gold
+ * backing the money in circulation, and open-market operations buy or sell the
+ * currency against gold on the P2P exchange book.
+ */
+
+export type OpenMarketOperationType = "buy" | "sell"; // buy = treasury buys its own currency with gold
+
+export const MAX_POLICY_RATE = 0.5; // 50% a year
+export const MAX_RESERVE_RATIO = 1;
+export const MAX_OPERATION_GOLD = 1000000;
+
+export interface MonetaryPolicyTerms {
+  policy_rate: number; // Annual interest on savings deposits, 0.05 = 5%
+  reserve_ratio: number; // Treasury gold required per unit of circulating money valued in gold
+}
+
+export interface OpenMarketTerms {
+  operation: OpenMarketOperationType;
+  gold_amount: number;
+  currency_amount: number;
+}
+
+export interface MonetaryStats {
+  community_currency_id: string;
+  community_id: string;
+  community_name: string;
+  currency_name: string;
+  currency_symbol: string;
+  total_supply: number;
+  wallet_balance: number; // Held by players
+  savings_balance: number; // Deposited at the central bank
+  depositors: number;
+  treasury_balance: number; // Held by the community treasury
+  treasury_gold: number;
+  reference_rate: number | null; // Gold per unit of currency
+  policy_rate: number;
+  reserve_ratio: number;
+  policy_proposal_id: string | null;
+  policy_updated_at: string | null;
+}
+
+export interface SupplySnapshot {
+  community_currency_id: string;
+  snapshot_date: string;
+  total_supply: number;
+  wallet_balance: number;
+  savings_balance: number;
+  treasury_balance: number;
+  treasury_gold: number;
+  reference_rate: number | null;
+  policy_rate: number;
+}
+
+export interface MonetaryTrend {
+  supply_growth: number | null; // Fractional change in total supply over the period
+  inflation: number | null; // Rise in the currency's price level against gold over the period
+  days: number;
+}
+
+/**
+ * Validate the terms of a MONETARY_POLICY proposal. Throws on invalid terms.
+ */
+export function normalizeMonetaryPolicyTerms(metadata: Record<string, unknown>): MonetaryPolicyTerms {
+  const { policy_rate, reserve_ratio } = metadata;
+
+  if (typeof policy_rate !== "number" || !Number.isFinite(policy_rate) || policy_rate < 0 || policy_rate > MAX_POLICY_RATE) {
+    throw new Error(`Invalid policy rate. Must be between 0 and ${MAX_POLICY_RATE} (e.g., 0.05 for 5%)`);
+  }
+  if (
+    typeof reserve_ratio !== "number" ||
+    !Number.isFinite(reserve_ratio) ||
+    reserve_ratio < 0 ||
+    reserve_ratio > MAX_RESERVE_RATIO
+  ) {
+    throw new Error("Invalid reserve ratio. Must be between 0 and 1 (e.g., 0.2 for 20%)");
+  }
+
+  return { policy_rate, reserve_ratio };
+}
+
+/**
+ * Validate the terms of an OPEN_MARKET_OPERATION proposal. Throws on invalid terms.
+ */
+export function normalizeOpenMarketTerms(metadata: Record<string, unknown>): OpenMarketTerms {
+  const { operation, gold_amount, currency_amount } = metadata;
+
+  if (operation !== "buy" && operation !== "sell") {
+    throw new Error("Operation must be buy or sell");
+  }
+  if (typeof gold_amount !== "number" || !Number.isFinite(gold_amount) || gold_amount <= 0) {
+    throw new Error("Gold amount must be greater than 0");
+  }
+  if (gold_amount > MAX_OPERATION_GOLD) {
+    throw new Error(`Gold amount cannot exceed ${MAX_OPERATION_GOLD.toLocaleString()}`);
+  }
+  if (typeof currency_amount !== "number" || !Number.isFinite(currency_amount) || currency_amount <= 0) {
+    throw new Error("Currency amount must be greater than 0");
+  }
+
+  return { operation, gold_amount, currency_amount };
+}
+
+/**
+ * Short summary of a policy, e.g. "5% policy rate, 20% reserve ratio"
+ */
+export function describeMonetaryPolicy(metadata: Record<string, unknown> | null | undefined): string {
+  const rate = typeof metadata?.policy_rate === "number" ? metadata.policy_rate : 0;
+  const reserve = typeof metadata?.reserve_ratio === "number" ? metadata.reserve_ratio : 0;
+  return `${formatPercent(rate)} policy rate, ${formatPercent(reserve)} reserve ratio`;
+}
+
+/**
+ * Short summary of an operation, e.g. "Buy 10,000 RMC for 500 gold"
+ */
+export function describeOpenMarketOperation(metadata: Record<string, unknown> | null | undefined): string {
+  const gold = typeof metadata?.gold_amount === "number" ? metadata.gold_amount : 0;
+  const currency = typeof metadata?.currency_amount === "number" ? metadata.currency_amount : 0;
+  const symbol = metadata?.currency_symbol ?? "coins";
+  const verb = metadata?.operation === "sell" ? "Sell" : "Buy";
+  return `${verb} ${currency.toLocaleString()} ${symbol} for ${gold.toLocaleString()} gold`;
+}
+
+export function formatPercent(value: number): string {
+  return `${Number((value * 100).toFixed(2))}%`;
+}
+
+/**
+ * Money held outside the treasury: player wallets plus savings deposits
+ */
+export function getCirculatingSupply(stats: Pick<MonetaryStats, "wallet_balance" | "savings_balance">): number {
+  return stats.wallet_balance + stats.savings_balance;
+}
+
+/**
+ * Treasury gold as a fraction of circulating money valued in gold, null when nothing circulates
+ */
+export function getReserveCoverage(stats: MonetaryStats): number | null {
+  const circulatingValue = getCirculatingSupply(stats) * (stats.reference_rate ?? 0);
+  if (circulatingValue <= 0) return null;
+  return stats.treasury_gold / circulatingValue;
+}
+
+/**
+ * Supply growth and inflation between the first and last snapshot of a period.
+ * Inflation is measured against gold: when a unit buys less gold, prices quoted
+ * in the currency rise.
+ */
+export function summarizeMonetaryTrend(snapshots: SupplySnapshot[]): MonetaryTrend {
+  if (snapshots.length < 2) {
+    return { supply_growth: null, inflation: null, days: 0 };
+  }
+
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  const days = Math.round(
+    (new Date(last.snapshot_date).getTime() - new Date(first.snapshot_date).getTime()) / 86400000
+  );
+
+  const supplyGrowth = first.total_supply > 0 ? last.total_supply / first.total_supply - 1 : null;
+  const inflation =
+    first.reference_rate && last.reference_rate ? first.reference_rate / last.reference_rate - 1 : null;
+
+  return { supply_growth: supplyGrowth, inflation, days };
+}
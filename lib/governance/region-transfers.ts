@@ -0,0 +1,73 @@
+/**
+ * Region Transfers (TRANSFER_REGION)
+ * A community cedes or sells one of its regions to another community. The
+ * receiving government must accept; a price is paid in gold or in the buyer's
+ * community currency from treasury to treasury when the law is enacted.
+ */
+
+export type RegionTransferCurrency = "gold" | "community";
+
+export const MAX_REGION_PRICE = 1000000;
+
+export interface RegionTransferTerms {
+  target_community_id: string; // Receiving (buying) community
+  hex_id: string;
+  price: number; // 0 = ceded without payment
+  currency: RegionTransferCurrency;
+}
+
+/**
+ * Validate the terms of a TRANSFER_REGION proposal. Throws on invalid terms.
+ */
+export function normalizeRegionTransferTerms(
+  metadata: Record<string, unknown>,
+  communityId: string
+): RegionTransferTerms {
+  const { target_community_id, hex_id } = metadata;
+  const price = metadata.price ?? 0;
+  const currency = metadata.currency ?? "gold";
+
+  if (typeof target_community_id !== "string" || !target_community_id) {
+    throw new Error("Please select the community receiving the region");
+  }
+  if (target_community_id === communityId) {
+    throw new Error("A community cannot transfer a region to itself");
+  }
+  if (typeof hex_id !== "string" || !hex_id) {
+    throw new Error("Please select a region to transfer");
+  }
+
+  if (typeof price !== "number" || !Number.isFinite(price) || price < 0) {
+    throw new Error("Price must be zero or a positive amount");
+  }
+  if (price > MAX_REGION_PRICE) {
+    throw new Error(`Price cannot exceed ${MAX_REGION_PRICE.toLocaleString()}`);
+  }
+  if (currency !== "gold" && currency !== "community") {
+    throw new Error("Currency must be gold or community currency");
+  }
+
+  return {
+    target_community_id,
+    hex_id,
+    price,
+    currency: price > 0 ? currency : "gold",
+  };
+}
+
+/**
+ * Short summary of a transfer, e.g. "Northern Pass to Rome for 5,000 gold"
+ */
+export function describeRegionTransfer(metadata: Record<string, unknown> | null | undefined): string {
+  const region = metadata?.region_name ?? metadata?.hex_id ?? "Unknown region";
+  const recipient = metadata?.target_community_name ?? "Unknown";
+  const price = typeof metadata?.price === "number" ? metadata.price : 0;
+
+  if (price <= 0) {
+    return `${region} ceded to ${recipient}`;
+  }
+
+  const currencyLabel =
+    metadata?.currency === "community" ? metadata?.currency_symbol ?? "community currency" : "gold";
+  return `${region} sold to ${recipient} for ${price.toLocaleString()} ${currencyLabel}`;
+}
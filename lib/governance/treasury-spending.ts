@@ -0,0 +1,93 @@
+/**
+ * Treasury Spending (SPEND_TREASURY)
+ * A law pays a member out of community funds, either once (grant, bounty) or on
+ * a fixed interval (officer salary, soldier stipend). Recurring payments run
+ * until the law is repealed or its sunset clause lapses.
+ */
+
+import { parseTimeToMilliseconds } from "@/lib/governance/laws";
+
+export type TreasuryCurrency = "gold" | "community";
+
+export const TREASURY_PAYMENT_INTERVALS = ["1d", "7d"] as const;
+export type TreasuryPaymentInterval = (typeof TREASURY_PAYMENT_INTERVALS)[number];
+
+export const MAX_TREASURY_PAYMENT = 1000000;
+export const MAX_PAYMENT_PURPOSE_LENGTH = 200;
+
+export interface TreasuryPaymentTerms {
+  recipient_id: string;
+  amount: number;
+  currency: TreasuryCurrency;
+  purpose: string;
+  interval?: TreasuryPaymentInterval; // Omitted for one-off payments
+}
+
+/**
+ * Whether a SPEND_TREASURY law pays on a schedule rather than once
+ */
+export function isRecurringPayment(metadata: Record<string, unknown> | null | undefined): boolean {
+  return typeof metadata?.interval === "string" && metadata.interval !== "";
+}
+
+/**
+ * Validate the terms of a SPEND_TREASURY proposal. Throws on invalid terms.
+ */
+export function validateTreasuryPaymentTerms(metadata: Record<string, unknown>): TreasuryPaymentTerms {
+  const { recipient_id, amount, currency, purpose, interval } = metadata;
+
+  if (typeof recipient_id !== "string" || !recipient_id) {
+    throw new Error("Please select a recipient");
+  }
+
+  if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0) {
+    throw new Error("Invalid amount. Must be greater than 0");
+  }
+
+  if (amount > MAX_TREASURY_PAYMENT) {
+    throw new Error(`Amount cannot exceed ${MAX_TREASURY_PAYMENT.toLocaleString()}`);
+  }
+
+  if (currency !== "gold" && currency !== "community") {
+    throw new Error("Currency must be gold or community currency");
+  }
+
+  if (typeof purpose !== "string" || !purpose.trim()) {
+    throw new Error("Please describe the purpose of the payment");
+  }
+
+  if (purpose.length > MAX_PAYMENT_PURPOSE_LENGTH) {
+    throw new Error(`Purpose cannot exceed ${MAX_PAYMENT_PURPOSE_LENGTH} characters`);
+  }
+
+  if (
+    interval !== undefined &&
+    interval !== null &&
+    interval !== "" &&
+    !TREASURY_PAYMENT_INTERVALS.includes(interval as TreasuryPaymentInterval)
+  ) {
+    throw new Error(`Invalid payment interval. Choose one of: ${TREASURY_PAYMENT_INTERVALS.join(", ")}`);
+  }
+
+  return {
+    recipient_id,
+    amount,
+    currency,
+    purpose: purpose.trim(),
+    interval: isRecurringPayment(metadata) ? (interval as TreasuryPaymentInterval) : undefined,
+  };
+}
+
+/**
+ * When a recurring payment next falls due
+ */
+export function getNextPaymentAt(from: Date, interval: TreasuryPaymentInterval): Date {
+  return new Date(from.getTime() + parseTimeToMilliseconds(interval));
+}
+
+/**
+ * Short label for a payment schedule, e.g. "every 7d" or "one-off"
+ */
+export function describePaymentSchedule(interval: unknown): string {
+  return typeof interval === "string" && interval ? `every ${interval}` : "one-off";
+}
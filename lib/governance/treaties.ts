@@ -0,0 +1,174 @@
+/**
+ * Peace Treaties and Ceasefires
+ * PROPOSE_PEACE and CEASEFIRE laws end or pause a war between two communities
+ * once both governments approve. A peace treaty may carry gold reparations and
+ * region cession; both may carry a duration. While a treaty is in force neither
+ * side can declare war on or start battles against the other.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LawType } from "@/lib/governance/laws";
+
+export type TreatyType = "peace" | "ceasefire";
+export type DiplomacyStatus = "neutral" | "war" | "ally" | "ceasefire";
+
+export const TREATY_LAW_TYPES: Partial<Record<LawType, TreatyType>> = {
+  PROPOSE_PEACE: "peace",
+  CEASEFIRE: "ceasefire",
+};
+
+export const MAX_REPARATIONS = 1000000;
+export const MAX_CEDED_REGIONS = 10;
+
+export interface TreatyTerms {
+  reparations_gold: number; // 0 = no reparations
+  reparations_payer_id: string | null; // Community paying reparations to the other party
+  ceded_hex_ids: string[]; // Regions handed to the other party by their current owner
+}
+
+export interface ActiveTreaty {
+  id: string;
+  proposal_id: string;
+  treaty_type: TreatyType;
+  community_a_id: string;
+  community_b_id: string;
+  terms: TreatyTerms;
+  starts_at: string;
+  ends_at: string | null; // null = permanent
+}
+
+/**
+ * The treaty a law type enacts, if any
+ */
+export function getTreatyType(lawType: LawType): TreatyType | null {
+  return TREATY_LAW_TYPES[lawType] ?? null;
+}
+
+/**
+ * Validate the terms of a PROPOSE_PEACE / CEASEFIRE proposal. Throws on invalid terms.
+ */
+export function normalizeTreatyTerms(
+  lawType: LawType,
+  metadata: Record<string, unknown>,
+  communityId: string
+): TreatyTerms {
+  const targetCommunityId = metadata.target_community_id;
+  if (typeof targetCommunityId !== "string" || !targetCommunityId) {
+    throw new Error("Please select the community to negotiate with");
+  }
+  if (targetCommunityId === communityId) {
+    throw new Error("A community cannot sign a treaty with itself");
+  }
+
+  const reparations = metadata.reparations_gold ?? 0;
+  const cededHexIds = metadata.ceded_hex_ids ?? [];
+
+  if (typeof reparations !== "number" || !Number.isFinite(reparations) || reparations < 0) {
+    throw new Error("Reparations must be a positive amount of gold");
+  }
+  if (reparations > MAX_REPARATIONS) {
+    throw new Error(`Reparations cannot exceed ${MAX_REPARATIONS.toLocaleString()} gold`);
+  }
+  if (!Array.isArray(cededHexIds) || cededHexIds.some((hexId) => typeof hexId !== "string" || !hexId)) {
+    throw new Error("Ceded regions must be a list of region ids");
+  }
+  if (cededHexIds.length > MAX_CEDED_REGIONS) {
+    throw new Error(`A treaty can cede at most ${MAX_CEDED_REGIONS} regions`);
+  }
+
+  if (getTreatyType(lawType) === "ceasefire" && (reparations > 0 || cededHexIds.length > 0)) {
+    throw new Error("A ceasefire only pauses the war. Reparations and region cession belong in a peace treaty");
+  }
+
+  const payerId = reparations > 0 ? metadata.reparations_payer_id : null;
+  if (reparations > 0 && payerId !== communityId && payerId !== targetCommunityId) {
+    throw new Error("Reparations must be paid by one of the two parties");
+  }
+
+  return {
+    reparations_gold: reparations,
+    reparations_payer_id: (payerId as string | null) ?? null,
+    ceded_hex_ids: Array.from(new Set(cededHexIds as string[])),
+  };
+}
+
+/**
+ * Short summary of a treaty's terms, e.g. "5,000 gold reparations from Rome, 2 regions ceded"
+ */
+export function describeTreatyTerms(metadata: Record<string, unknown> | null | undefined): string {
+  const reparations = typeof metadata?.reparations_gold === "number" ? metadata.reparations_gold : 0;
+  const cededCount = Array.isArray(metadata?.ceded_hex_ids) ? metadata.ceded_hex_ids.length : 0;
+  const terms: string[] = [];
+
+  if (reparations > 0) {
+    terms.push(`${reparations.toLocaleString()} gold reparations from ${metadata?.reparations_payer_name ?? "Unknown"}`);
+  }
+  if (cededCount > 0) {
+    terms.push(`${cededCount} ${cededCount === 1 ? "region" : "regions"} ceded`);
+  }
+
+  return terms.length > 0 ? terms.join(", ") : "No reparations or cession";
+}
+
+/**
+ * Diplomatic status between two communities (diplomacy_states), "neutral" when no row exists
+ */
+export async function getDiplomacyStatus(
+  supabase: SupabaseClient,
+  communityId: string,
+  otherCommunityId: string
+): Promise<DiplomacyStatus> {
+  const { data, error } = await supabase
+    .from("diplomacy_states")
+    .select("status")
+    .or(
+      `and(initiator_community_id.eq.${communityId},target_community_id.eq.${otherCommunityId}),` +
+      `and(initiator_community_id.eq.${otherCommunityId},target_community_id.eq.${communityId})`
+    )
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check diplomatic status: ${error.message}`);
+  }
+
+  return (data?.status as DiplomacyStatus | undefined) ?? "neutral";
+}
+
+/**
+ * The treaty currently in force between two communities, if any
+ */
+export async function findActiveTreaty(
+  supabase: SupabaseClient,
+  communityId: string,
+  otherCommunityId: string
+): Promise<ActiveTreaty | null> {
+  const { data, error } = await supabase
+    .from("community_treaties")
+    .select("id, proposal_id, treaty_type, community_a_id, community_b_id, terms, starts_at, ends_at")
+    .eq("status", "active")
+    .or(
+      `and(community_a_id.eq.${communityId},community_b_id.eq.${otherCommunityId}),` +
+      `and(community_a_id.eq.${otherCommunityId},community_b_id.eq.${communityId})`
+    )
+    .or(`ends_at.is.null,ends_at.gt.${new Date().toISOString()}`)
+    .order("starts_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check treaties: ${error.message}`);
+  }
+
+  return (data as ActiveTreaty | null) ?? null;
+}
+
+/**
+ * Why hostilities are not allowed while a treaty is in force
+ */
+export function describeTreatyBlock(treaty: ActiveTreaty, otherCommunityName: string): string {
+  const until = treaty.ends_at ? ` until ${new Date(treaty.ends_at).toUTCString()}` : "";
+  return treaty.treaty_type === "ceasefire"
+    ? `A ceasefire with ${otherCommunityName} is in force${until}.`
+    : `A peace treaty with ${otherCommunityName} is in force${until}.`;
+}
@@ -27,6 +27,14 @@ import {
   Box,
   Sword,
   Ticket,
+  Flame,
+  Shield,
+  Soup,
+  Anvil,
+  Package,
+  Warehouse,
+  Bomb,
+  Crosshair,
   type LucideIcon,
 } from "lucide-react";
 
@@ -43,6 +51,10 @@ export const COMPANY_ICONS: Record<string, LucideIcon> = {
   oil_rig: Droplet,
   transit_station: Train,
   bakery: CookingPot,
+  foundry: Flame,
+  armory: Shield,
+  field_kitchen: Soup,
+  warehouse: Warehouse,
 } as const;
 
 export function getCompanyIcon(companyKey: string): LucideIcon {
@@ -62,6 +74,11 @@ export type ResourceIconName =
   | "apple"
   | "sword"
   | "ticket"
+  | "anvil"
+  | "shield"
+  | "package"
+  | "bomb"
+  | "crosshair"
   | "box";
 
 export const RESOURCE_ICONS: Record<
@@ -74,6 +91,11 @@ export const RESOURCE_ICONS: Record<
   apple: Apple,
   sword: Sword,
   ticket: Ticket,
+  anvil: Anvil,
+  shield: Shield,
+  package: Package,
+  bomb: Bomb,
+  crosshair: Crosshair,
   box: Box,
 } as const;
 
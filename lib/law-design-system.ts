@@ -8,7 +8,7 @@
  * - CHANGE_GOVERNANCE: Uses info colors (gray - #71717a / #a1a5b4)
  */
 
-export type LawType = "DECLARE_WAR" | "PROPOSE_HEIR" | "CHANGE_GOVERNANCE" | "MESSAGE_OF_THE_DAY" | "WORK_TAX" | "IMPORT_TARIFF" | "CFC_ALLIANCE" | "ISSUE_CURRENCY";
+export type LawType = "DECLARE_WAR" | "PROPOSE_HEIR" | "CHANGE_GOVERNANCE" | "MESSAGE_OF_THE_DAY" | "WORK_TAX" | "IMPORT_TARIFF" | "CFC_ALLIANCE" | "ISSUE_CURRENCY" | "REPEAL_LAW" | "AMEND_LAW" | "SPEND_TREASURY" | "PROPOSE_PEACE" | "CEASEFIRE" | "TRANSFER_REGION" | "EMBARGO" | "MONETARY_POLICY" | "OPEN_MARKET_OPERATION";
 
 export interface LawColorScheme {
   // Background colors (semi-transparent)
@@ -137,6 +137,22 @@ export const LAW_COLOR_SCHEMES: Record<LawType, LawColorScheme> = {
     selectedText: "text-orange-700 dark:text-orange-400",
   },
 
+  EMBARGO: {
+    // Stone color palette (sanctions)
+    bgLight: "bg-stone-500/5",
+    bgMedium: "bg-stone-500/10",
+    bgStrong: "bg-stone-500/20",
+    borderLight: "border-stone-500/20",
+    borderMedium: "border-stone-500/30",
+    borderStrong: "border-stone-500/50",
+    textLight: "text-stone-600 dark:text-stone-400",
+    textStrong: "text-stone-700 dark:text-stone-400",
+    iconColor: "text-stone-500",
+    selectedBg: "bg-stone-500/10",
+    selectedBorder: "border-stone-500/50",
+    selectedText: "text-stone-700 dark:text-stone-400",
+  },
+
   CFC_ALLIANCE: {
     // Cyan color palette (alliance/cooperation)
     bgLight: "bg-cyan-500/5",
@@ -153,6 +169,54 @@ export const LAW_COLOR_SCHEMES: Record<LawType, LawColorScheme> = {
     selectedText: "text-cyan-700 dark:text-cyan-400",
   },
 
+  PROPOSE_PEACE: {
+    // Sky color palette (peace)
+    bgLight: "bg-sky-500/5",
+    bgMedium: "bg-sky-500/10",
+    bgStrong: "bg-sky-500/20",
+    borderLight: "border-sky-500/20",
+    borderMedium: "border-sky-500/30",
+    borderStrong: "border-sky-500/50",
+    textLight: "text-sky-600 dark:text-sky-400",
+    textStrong: "text-sky-700 dark:text-sky-400",
+    iconColor: "text-sky-500",
+    selectedBg: "bg-sky-500/10",
+    selectedBorder: "border-sky-500/50",
+    selectedText: "text-sky-700 dark:text-sky-400",
+  },
+
+  CEASEFIRE: {
+    // Slate color palette (truce)
+    bgLight: "bg-slate-500/5",
+    bgMedium: "bg-slate-500/10",
+    bgStrong: "bg-slate-500/20",
+    borderLight: "border-slate-500/20",
+    borderMedium: "border-slate-500/30",
+    borderStrong: "border-slate-500/50",
+    textLight: "text-slate-600 dark:text-slate-400",
+    textStrong: "text-slate-700 dark:text-slate-400",
+    iconColor: "text-slate-500",
+    selectedBg: "bg-slate-500/10",
+    selectedBorder: "border-slate-500/50",
+    selectedText: "text-slate-700 dark:text-slate-400",
+  },
+
+  TRANSFER_REGION: {
+    // Lime color palette (territory)
+    bgLight: "bg-lime-500/5",
+    bgMedium: "bg-lime-500/10",
+    bgStrong: "bg-lime-500/20",
+    borderLight: "border-lime-500/20",
+    borderMedium: "border-lime-500/30",
+    borderStrong: "border-lime-500/50",
+    textLight: "text-lime-600 dark:text-lime-400",
+    textStrong: "text-lime-700 dark:text-lime-400",
+    iconColor: "text-lime-500",
+    selectedBg: "bg-lime-500/10",
+    selectedBorder: "border-lime-500/50",
+    selectedText: "text-lime-700 dark:text-lime-400",
+  },
+
   ISSUE_CURRENCY: {
     // Yellow color palette (gold/currency)
     bgLight: "bg-yellow-500/5",
@@ -168,6 +232,86 @@ export const LAW_COLOR_SCHEMES: Record<LawType, LawColorScheme> = {
     selectedBorder: "border-yellow-500/50",
     selectedText: "text-yellow-700 dark:text-yellow-400",
   },
+
+  MONETARY_POLICY: {
+    // Emerald color palette (central bank policy)
+    bgLight: "bg-emerald-500/5",
+    bgMedium: "bg-emerald-500/10",
+    bgStrong: "bg-emerald-500/20",
+    borderLight: "border-emerald-500/20",
+    borderMedium: "border-emerald-500/30",
+    borderStrong: "border-emerald-500/50",
+    textLight: "text-emerald-600 dark:text-emerald-400",
+    textStrong: "text-emerald-700 dark:text-emerald-400",
+    iconColor: "text-emerald-500",
+    selectedBg: "bg-emerald-500/10",
+    selectedBorder: "border-emerald-500/50",
+    selectedText: "text-emerald-700 dark:text-emerald-400",
+  },
+
+  OPEN_MARKET_OPERATION: {
+    // Violet color palette (central bank trading)
+    bgLight: "bg-violet-500/5",
+    bgMedium: "bg-violet-500/10",
+    bgStrong: "bg-violet-500/20",
+    borderLight: "border-violet-500/20",
+    borderMedium: "border-violet-500/30",
+    borderStrong: "border-violet-500/50",
+    textLight: "text-violet-600 dark:text-violet-400",
+    textStrong: "text-violet-700 dark:text-violet-400",
+    iconColor: "text-violet-500",
+    selectedBg: "bg-violet-500/10",
+    selectedBorder: "border-violet-500/50",
+    selectedText: "text-violet-700 dark:text-violet-400",
+  },
+
+  SPEND_TREASURY: {
+    // Teal color palette (payments from community funds)
+    bgLight: "bg-teal-500/5",
+    bgMedium: "bg-teal-500/10",
+    bgStrong: "bg-teal-500/20",
+    borderLight: "border-teal-500/20",
+    borderMedium: "border-teal-500/30",
+    borderStrong: "border-teal-500/50",
+    textLight: "text-teal-600 dark:text-teal-400",
+    textStrong: "text-teal-700 dark:text-teal-400",
+    iconColor: "text-teal-500",
+    selectedBg: "bg-teal-500/10",
+    selectedBorder: "border-teal-500/50",
+    selectedText: "text-teal-700 dark:text-teal-400",
+  },
+
+  REPEAL_LAW: {
+    // Rose color palette (revocation)
+    bgLight: "bg-rose-500/5",
+    bgMedium: "bg-rose-500/10",
+    bgStrong: "bg-rose-500/20",
+    borderLight: "border-rose-500/20",
+    borderMedium: "border-rose-500/30",
+    borderStrong: "border-rose-500/50",
+    textLight: "text-rose-600 dark:text-rose-400",
+    textStrong: "text-rose-700 dark:text-rose-400",
+    iconColor: "text-rose-500",
+    selectedBg: "bg-rose-500/10",
+    selectedBorder: "border-rose-500/50",
+    selectedText: "text-rose-700 dark:text-rose-400",
+  },
+
+  AMEND_LAW: {
+    // Indigo color palette (revision)
+    bgLight: "bg-indigo-500/5",
+    bgMedium: "bg-indigo-500/10",
+    bgStrong: "bg-indigo-500/20",
+    borderLight: "border-indigo-500/20",
+    borderMedium: "border-indigo-500/30",
+    borderStrong: "border-indigo-500/50",
+    textLight: "text-indigo-600 dark:text-indigo-400",
+    textStrong: "text-indigo-700 dark:text-indigo-400",
+    iconColor: "text-indigo-500",
+    selectedBg: "bg-indigo-500/10",
+    selectedBorder: "border-indigo-500/50",
+    selectedText: "text-indigo-700 dark:text-indigo-400",
+  },
 };
 
 /**
@@ -0,0 +1,90 @@
+/**
+ * Fortifications
+ *
+ * Communities build defensive structures on regions they own, paid from the
+ * treasury in gold plus materials from the builder's inventory. Their effect
+ * is fixed onto a battle when it starts (migration 20270323_fortifications);
+ * each structure loses a level when the region is captured.
+ */
+
+export type FortificationType = "wall" | "watchtower" | "bunker";
+
+export interface FortificationDefinition {
+  name: string;
+  description: string;
+  goldPerLevel: number;
+  materialKey: string;
+  materialPerLevel: number;
+}
+
+export interface RegionFortification {
+  structure_type: FortificationType;
+  level: number;
+}
+
+export interface FortificationModifiers {
+  bonusWallHp: number;
+  defenderDamageMultiplier: number;
+  attackerDamageMultiplier: number;
+}
+
+export const MAX_FORTIFICATION_LEVEL = 3;
+
+// Mirrors the fortifications migration
+export const FORTIFICATION_EFFECTS = {
+  wallHpPerLevel: 2500,
+  watchtowerDefenderDamagePerLevel: 0.1,
+  bunkerAttackerDamageReductionPerLevel: 0.05,
+} as const;
+
+export const FORTIFICATION_TYPES: Record<FortificationType, FortificationDefinition> = {
+  wall: {
+    name: "Wall",
+    description: `+${FORTIFICATION_EFFECTS.wallHpPerLevel.toLocaleString()} wall HP per level`,
+    goldPerLevel: 500,
+    materialKey: "steel",
+    materialPerLevel: 20,
+  },
+  watchtower: {
+    name: "Watchtower",
+    description: `Defenders deal +${FORTIFICATION_EFFECTS.watchtowerDefenderDamagePerLevel * 100}% damage per level`,
+    goldPerLevel: 300,
+    materialKey: "iron",
+    materialPerLevel: 30,
+  },
+  bunker: {
+    name: "Bunker",
+    description: `Attackers deal ${FORTIFICATION_EFFECTS.bunkerAttackerDamageReductionPerLevel * 100}% less damage per level`,
+    goldPerLevel: 800,
+    materialKey: "armor",
+    materialPerLevel: 10,
+  },
+};
+
+export const FORTIFICATION_TYPE_ORDER: FortificationType[] = ["wall", "watchtower", "bunker"];
+
+/**
+ * Gold and materials to raise a structure to the given level
+ */
+export function getFortificationCost(type: FortificationType, level: number) {
+  const definition = FORTIFICATION_TYPES[type];
+  return {
+    gold: definition.goldPerLevel * level,
+    materialKey: definition.materialKey,
+    materialQuantity: definition.materialPerLevel * level,
+  };
+}
+
+/**
+ * Combined battle effect of a region's structures
+ */
+export function getFortificationModifiers(structures: RegionFortification[]): FortificationModifiers {
+  const levelOf = (type: FortificationType) =>
+    structures.find((structure) => structure.structure_type === type)?.level ?? 0;
+
+  return {
+    bonusWallHp: levelOf("wall") * FORTIFICATION_EFFECTS.wallHpPerLevel,
+    defenderDamageMultiplier: 1 + levelOf("watchtower") * FORTIFICATION_EFFECTS.watchtowerDefenderDamagePerLevel,
+    attackerDamageMultiplier: 1 - levelOf("bunker") * FORTIFICATION_EFFECTS.bunkerAttackerDamageReductionPerLevel,
+  };
+}
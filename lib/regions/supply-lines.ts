@@ -0,0 +1,66 @@
+/**
+ * Supply Lines
+ *
+ * A community's regions are supplied while they connect to its capital through
+ * regions it owns. Unsupplied regions produce less, cost defenders more energy
+ * and decay back to neutral. The database keeps `world_regions.is_supplied`
+ * current (migration 20270322_supply_lines); this module groups regions into
+ * fronts for the campaign view.
+ */
+
+import { getHexNeighbors } from "@/components/map/hex-utils";
+
+// Mirrors the supply lines migration
+export const SUPPLY_LINE_RULES = {
+  unsuppliedProductionMultiplier: 0.5,
+  unsuppliedDefenseEnergyMultiplier: 1.5,
+  decayAfterHours: 48,
+} as const;
+
+export interface SupplyFront {
+  hexIds: string[];
+  hasCapital: boolean; // The capital's front is the only supplied one
+}
+
+/**
+ * Split owned regions into fronts: groups of regions connected through each
+ * other. The capital's front comes first, then the rest from largest to smallest.
+ */
+export function getSupplyFronts(ownedHexIds: string[], capitalHexId: string | null): SupplyFront[] {
+  const owned = new Set(ownedHexIds);
+  const visited = new Set<string>();
+  const fronts: SupplyFront[] = [];
+
+  const start = capitalHexId && owned.has(capitalHexId) ? [capitalHexId, ...ownedHexIds] : ownedHexIds;
+
+  for (const origin of start) {
+    if (visited.has(origin)) continue;
+
+    const hexIds: string[] = [];
+    const queue = [origin];
+    visited.add(origin);
+
+    while (queue.length > 0) {
+      const hexId = queue.shift()!;
+      hexIds.push(hexId);
+
+      for (const neighbor of getHexNeighbors(hexId)) {
+        if (owned.has(neighbor) && !visited.has(neighbor)) {
+          visited.add(neighbor);
+          queue.push(neighbor);
+        }
+      }
+    }
+
+    fronts.push({ hexIds, hasCapital: origin === capitalHexId });
+  }
+
+  return fronts.sort((a, b) => Number(b.hasCapital) - Number(a.hasCapital) || b.hexIds.length - a.hexIds.length);
+}
+
+/**
+ * When an unsupplied region falls back to neutral
+ */
+export function getSupplyDecayAt(unsuppliedSince: string): Date {
+  return new Date(new Date(unsuppliedSince).getTime() + SUPPLY_LINE_RULES.decayAfterHours * 60 * 60 * 1000);
+}
@@ -169,6 +169,27 @@ export async function notifyLawExpired(
   });
 }
 
+/**
+ * Notify community members about an enacted law lapsing under its sunset clause
+ */
+export async function notifyLawLapsed(
+  communityId: string,
+  lawLabel: string,
+  proposalId: string,
+  proposerUserId?: string
+) {
+  return notifyCommunityMembers({
+    communityId,
+    type: NotificationType.COMMUNITY_UPDATE,
+    title: `Law Lapsed: ${lawLabel}`,
+    body: `The ${lawLabel} law has reached the end of its term and its effects have been reverted.`,
+    triggeredByUserId: proposerUserId,
+    actionUrl: `/community/${communityId}/politics`,
+    proposalId,
+    metadata: { lawLabel, lapsed: true },
+  });
+}
+
 /**
  * Notify community members about a new law proposal
  */
@@ -289,6 +310,48 @@ export async function notifySecretaryRemoved(
   });
 }
 
+/**
+ * Notify community members that a council election has entered a new phase
+ */
+export async function notifyCouncilElectionPhase(
+  communityId: string,
+  electionId: string,
+  phase: "candidacy" | "voting"
+) {
+  return notifyCommunityMembers({
+    communityId,
+    type: NotificationType.COMMUNITY_UPDATE,
+    title: phase === "candidacy" ? "Council Election Called" : "Council Election: Polls Open",
+    body:
+      phase === "candidacy"
+        ? "Candidacy is open for the next council. Declare your candidacy before the deadline."
+        : "Candidacy has closed. Cast your ballot for the next council.",
+    actionUrl: `/community/${communityId}`,
+    metadata: { event_type: "council_election", electionId, phase },
+  });
+}
+
+/**
+ * Notify community members about the outcome of a council election
+ */
+export async function notifyCouncilElected(
+  communityId: string,
+  electionId: string,
+  councilorUsernames: string[]
+) {
+  return notifyCommunityMembers({
+    communityId,
+    type: NotificationType.COMMUNITY_UPDATE,
+    title: councilorUsernames.length > 0 ? "New Council Seated" : "Council Election Failed",
+    body:
+      councilorUsernames.length > 0
+        ? `${councilorUsernames.join(", ")} now hold${councilorUsernames.length === 1 ? "s" : ""} the council seats.`
+        : "No candidates stood for election. The sitting council remains until a new election is held.",
+    actionUrl: `/community/${communityId}`,
+    metadata: { event_type: "council_election", electionId, councilorUsernames },
+  });
+}
+
 /**
  * Notify community members about a revolution starting
  */
@@ -7,8 +7,9 @@
  * NO DIRECT WALLET UPDATES ALLOWED - Always use this service.
  */
 
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { createSupabaseBrowserClient } from "@/lib/supabase-browser";
-// Note: This service is for future use - current implementation uses RPC functions directly
+// Note: Most flows still call RPC functions directly; treasury spending and loans go through this service
 
 // Transaction types (must match database constraint)
 export type TransactionType =
@@ -30,11 +31,41 @@ export type TransactionType =
   | "company_creation"
   | "production_cost"
   | "wage_payment"
-  // Future features
+  // Company shares
+  | "share_purchase"
+  | "dividend_payment"
+  // Company cash and bankruptcy
+  | "company_deposit"
+  | "company_withdrawal"
+  | "auction_escrow"
+  | "auction_refund"
+  | "bankruptcy_payout"
+  // Community treasury spending
+  | "treasury_grant"
+  | "treasury_stipend"
+  // Diplomacy
+  | "war_reparations"
+  | "region_sale"
+  // Central bank
+  | "savings_deposit"
+  | "savings_withdrawal"
+  | "interest_earned"
+  | "open_market_operation"
+  // Supply contracts
+  | "contract_escrow"
+  | "contract_payment"
+  | "contract_penalty"
+  | "contract_refund"
+  // P2P loans
+  | "loan_escrow"
+  | "loan_refund"
   | "loan_disbursement"
   | "loan_repayment"
   | "interest_payment"
-  | "interest_earned"
+  // Warehouses and shipping
+  | "shipping_fee"
+  // Fortifications
+  | "fortification_build"
   // Admin operations
   | "admin_grant"
   | "admin_deduction"
@@ -68,11 +99,27 @@ export interface TransactionResult {
   required?: number;
 }
 
+// Community treasury a payment is drawn from
+export interface TreasurySource {
+  communityId: string;
+  currencyType: "gold" | "community";
+  communityCurrencyId?: string | null;
+}
+
 class EconomicTransactionService {
-  private supabase;
+  private client?: SupabaseClient;
 
-  constructor() {
-    this.supabase = createSupabaseBrowserClient();
+  /**
+   * Server code passes its own client (treasury spending requires the service role);
+   * otherwise the browser client is created on first use.
+   */
+  constructor(client?: SupabaseClient) {
+    this.client = client;
+  }
+
+  private get supabase(): SupabaseClient {
+    this.client ??= createSupabaseBrowserClient();
+    return this.client as SupabaseClient;
   }
 
   /**
@@ -101,10 +148,15 @@ class EconomicTransactionService {
       case "tax":
       case "wage_payment":
       case "production_cost":
+      case "treasury_grant":
+      case "treasury_stipend":
+      case "open_market_operation":
         return "community";
 
       // Inter-community (exchange, etc.)
       case "exchange":
+      case "war_reparations":
+      case "region_sale":
         return "inter_community";
 
       // Default to personal
@@ -329,6 +381,52 @@ class EconomicTransactionService {
     }
   }
 
+  /**
+   * SPEND FROM TREASURY (Pay a user out of community funds)
+   * Used for: grants, bounties, salaries and stipends enacted by law
+   */
+  async spendFromTreasury(
+    source: TreasurySource,
+    recipientId: string,
+    amount: number,
+    type: TransactionType,
+    metadata: TransactionMetadata = {},
+    description?: string,
+    scope?: TransactionScope
+  ): Promise<TransactionResult> {
+    const finalScope = this.determineScope(type, scope);
+
+    try {
+      const { data, error } = await this.supabase.rpc("spend_community_treasury_enhanced", {
+        p_community_id: source.communityId,
+        p_recipient_id: recipientId,
+        p_currency_type: source.currencyType,
+        p_community_currency_id: source.communityCurrencyId ?? null,
+        p_amount: amount,
+        p_transaction_type: type,
+        p_description: description || null,
+        p_metadata: metadata,
+        p_scope: finalScope,
+      });
+
+      if (error) {
+        console.error("Treasury spend error:", error);
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return data as TransactionResult;
+    } catch (err) {
+      console.error("Treasury spend exception:", err);
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      };
+    }
+  }
+
   /**
    * GET USER BALANCE
    * Helper to get current gold balance
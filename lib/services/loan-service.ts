@@ -0,0 +1,322 @@
+/**
+ * LOAN SERVICE
+ *
+ * Ledger operations for player-to-player loans: escrow, payouts, installment
+ * collection, early repayment and default. Every gold or community coin
+ * movement goes through the EconomicTransactionService; collateral is moved
+ * by the loan RPCs. Runs with the service role because collection debits
+ * borrowers who are not the caller.
+ */
+
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { ECONOMY_CONFIG } from "@/lib/economy-config";
+import type { LoanCurrencyType, LoanInstallmentStatus, LoanStatus } from "@/lib/types/economy";
+import {
+  EconomicTransactionService,
+  type TransactionMetadata,
+  type TransactionResult,
+  type TransactionType,
+} from "./economic-transaction-service";
+
+const loanTransactions = new EconomicTransactionService(supabaseAdmin);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LoanLedgerRow {
+  id: string;
+  lender_id: string;
+  borrower_id: string | null;
+  currency_type: LoanCurrencyType;
+  community_currency_id: string | null;
+  principal: number;
+  status: LoanStatus;
+}
+
+interface InstallmentRow {
+  id: string;
+  loan_id: string;
+  due_at: string;
+  principal_due: number;
+  interest_due: number;
+  status: LoanInstallmentStatus;
+}
+
+type LoanCurrency = Pick<LoanLedgerRow, "currency_type" | "community_currency_id">;
+
+// ============================================================================
+// CURRENCY HELPERS
+// ============================================================================
+
+export async function creditLoanCurrency(
+  currency: LoanCurrency,
+  userId: string,
+  amount: number,
+  type: TransactionType,
+  metadata: TransactionMetadata,
+  description: string
+): Promise<TransactionResult> {
+  if (currency.currency_type === "community" && currency.community_currency_id) {
+    return loanTransactions.creditCommunityCoin(
+      userId,
+      currency.community_currency_id,
+      amount,
+      type,
+      metadata,
+      description,
+      "personal"
+    );
+  }
+  return loanTransactions.credit(userId, amount, type, metadata, description);
+}
+
+export async function debitLoanCurrency(
+  currency: LoanCurrency,
+  userId: string,
+  amount: number,
+  type: TransactionType,
+  metadata: TransactionMetadata,
+  description: string
+): Promise<TransactionResult> {
+  if (currency.currency_type === "community" && currency.community_currency_id) {
+    return loanTransactions.debitCommunityCoin(
+      userId,
+      currency.community_currency_id,
+      amount,
+      type,
+      metadata,
+      description,
+      "personal"
+    );
+  }
+  return loanTransactions.debit(userId, amount, type, metadata, description);
+}
+
+async function getLoanCurrencyBalance(currency: LoanCurrency, userId: string): Promise<number> {
+  if (currency.currency_type === "community" && currency.community_currency_id) {
+    return loanTransactions.getUserCommunityBalance(userId, currency.community_currency_id);
+  }
+  return loanTransactions.getUserGoldBalance(userId);
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Move a repayment from borrower to lender, principal and interest booked
+ * separately. Checks the balance first so a payment is never half made.
+ */
+async function payLender(
+  loan: LoanLedgerRow,
+  principal: number,
+  interest: number,
+  metadata: TransactionMetadata
+): Promise<boolean> {
+  if (!loan.borrower_id) return false;
+
+  const total = roundAmount(principal + interest);
+  if (total <= 0) return true;
+
+  const balance = await getLoanCurrencyBalance(loan, loan.borrower_id);
+  if (balance < total) return false;
+
+  const legs: Array<{ amount: number; debitType: TransactionType; creditType: TransactionType; label: string }> = [
+    { amount: roundAmount(principal), debitType: "loan_repayment", creditType: "loan_repayment", label: "Loan repayment" },
+    { amount: roundAmount(interest), debitType: "interest_payment", creditType: "interest_earned", label: "Loan interest" },
+  ];
+
+  for (const leg of legs) {
+    if (leg.amount <= 0) continue;
+
+    const debit = await debitLoanCurrency(loan, loan.borrower_id, leg.amount, leg.debitType, metadata, leg.label);
+    if (!debit.success) return false;
+
+    const credit = await creditLoanCurrency(loan, loan.lender_id, leg.amount, leg.creditType, metadata, leg.label);
+    if (!credit.success) {
+      console.error(`Loan ${loan.id}: collected ${leg.amount} from borrower but could not pay the lender`, credit.error);
+    }
+  }
+
+  return true;
+}
+
+// ============================================================================
+// LOAN LIFECYCLE
+// ============================================================================
+
+/**
+ * Close a loan whose schedule is fully paid and return the collateral
+ */
+async function closeIfRepaid(loan: LoanLedgerRow): Promise<boolean> {
+  const { count } = await supabaseAdmin
+    .from("loan_installments")
+    .select("id", { count: "exact", head: true })
+    .eq("loan_id", loan.id)
+    .in("status", ["pending", "overdue"]);
+
+  if ((count ?? 0) > 0) return false;
+
+  const { data: closed } = await supabaseAdmin
+    .from("loans")
+    .update({ status: "repaid", closed_at: new Date().toISOString() })
+    .eq("id", loan.id)
+    .eq("status", "active")
+    .select("id");
+
+  if (closed?.length && loan.borrower_id) {
+    await supabaseAdmin.rpc("release_loan_collateral", {
+      p_loan_id: loan.id,
+      p_recipient_id: loan.borrower_id,
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Put a loan in default: write off the rest of the schedule and hand the
+ * collateral to the lender
+ */
+export async function defaultLoan(loan: LoanLedgerRow): Promise<boolean> {
+  const { data: defaulted } = await supabaseAdmin
+    .from("loans")
+    .update({ status: "defaulted", closed_at: new Date().toISOString() })
+    .eq("id", loan.id)
+    .eq("status", "active")
+    .select("id");
+
+  if (!defaulted?.length) return false;
+
+  await supabaseAdmin
+    .from("loan_installments")
+    .update({ status: "defaulted" })
+    .eq("loan_id", loan.id)
+    .in("status", ["pending", "overdue"]);
+
+  await supabaseAdmin.rpc("release_loan_collateral", {
+    p_loan_id: loan.id,
+    p_recipient_id: loan.lender_id,
+  });
+
+  return true;
+}
+
+/**
+ * Collect one installment from the borrower. Returns false if they cannot
+ * pay it.
+ */
+async function collectInstallment(loan: LoanLedgerRow, installment: InstallmentRow): Promise<boolean> {
+  const paid = await payLender(loan, Number(installment.principal_due), Number(installment.interest_due), {
+    loan_id: loan.id,
+    installment_id: installment.id,
+  });
+
+  if (!paid) return false;
+
+  await supabaseAdmin
+    .from("loan_installments")
+    .update({
+      status: "paid",
+      paid_at: new Date().toISOString(),
+      paid_late: installment.status === "overdue",
+    })
+    .eq("id", installment.id);
+
+  await closeIfRepaid(loan);
+  return true;
+}
+
+/**
+ * Pay off a loan now: the remaining principal plus interest on installments
+ * already due. Interest on later installments is waived.
+ */
+export async function repayLoanEarly(loan: LoanLedgerRow): Promise<{ success: boolean; error?: string }> {
+  const { data: remaining, error } = await supabaseAdmin
+    .from("loan_installments")
+    .select("id, loan_id, due_at, principal_due, interest_due, status")
+    .eq("loan_id", loan.id)
+    .in("status", ["pending", "overdue"]);
+
+  if (error) {
+    return { success: false, error: "Failed to load the repayment schedule" };
+  }
+
+  const installments = (remaining ?? []) as InstallmentRow[];
+  const now = Date.now();
+  const principal = installments.reduce((sum, row) => sum + Number(row.principal_due), 0);
+  const interest = installments
+    .filter((row) => new Date(row.due_at).getTime() <= now)
+    .reduce((sum, row) => sum + Number(row.interest_due), 0);
+
+  const paid = await payLender(loan, principal, interest, { loan_id: loan.id, early_repayment: true });
+  if (!paid) {
+    return { success: false, error: "Insufficient balance to repay this loan" };
+  }
+
+  const paidAt = new Date(now).toISOString();
+  for (const row of installments) {
+    const isDue = new Date(row.due_at).getTime() <= now;
+    await supabaseAdmin
+      .from("loan_installments")
+      .update({
+        status: "paid",
+        paid_at: paidAt,
+        paid_late: row.status === "overdue",
+        ...(isDue ? {} : { interest_due: 0 }),
+      })
+      .eq("id", row.id);
+  }
+
+  await closeIfRepaid(loan);
+  return { success: true };
+}
+
+/**
+ * Collect every installment that has fallen due (call periodically via cron).
+ * Installments the borrower cannot cover are marked overdue and retried; past
+ * the grace period the loan defaults.
+ */
+export async function processDueLoanInstallments() {
+  const { data: due, error } = await supabaseAdmin
+    .from("loan_installments")
+    .select(
+      "id, loan_id, due_at, principal_due, interest_due, status, loan:loans!inner(id, lender_id, borrower_id, currency_type, community_currency_id, principal, status)"
+    )
+    .in("status", ["pending", "overdue"])
+    .lte("due_at", new Date().toISOString())
+    .eq("loan.status", "active")
+    .order("due_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  const graceMs = ECONOMY_CONFIG.loans.defaultGraceDays * DAY_MS;
+  // Installments are collected in order; once one fails the loan's later ones wait
+  const skippedLoans = new Set<string>();
+  let collected = 0;
+  let defaulted = 0;
+
+  for (const row of (due ?? []) as unknown as Array<InstallmentRow & { loan: LoanLedgerRow }>) {
+    if (skippedLoans.has(row.loan_id)) continue;
+
+    try {
+      if (await collectInstallment(row.loan, row)) {
+        collected++;
+        continue;
+      }
+
+      skippedLoans.add(row.loan_id);
+      if (new Date(row.due_at).getTime() <= Date.now() - graceMs) {
+        if (await defaultLoan(row.loan)) defaulted++;
+      } else if (row.status === "pending") {
+        await supabaseAdmin.from("loan_installments").update({ status: "overdue" }).eq("id", row.id);
+      }
+    } catch (e) {
+      // Log error but continue processing; the installment is retried on the next run
+      console.error(`Failed to collect loan installment ${row.id}:`, e);
+    }
+  }
+
+  return { processed: due?.length ?? 0, collected, defaulted };
+}
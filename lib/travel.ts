@@ -3,6 +3,8 @@
  * Handles hex distance calculation and travel ticket requirements
  */
 
+import { ECONOMY_CONFIG } from '@/lib/economy-config';
+
 /**
  * Calculate the distance between two hexes using offset coordinates
  * Hex IDs are in format "row-col" where row and col are offset coordinates
@@ -35,6 +37,18 @@ export function calculateTicketsNeeded(distance: number): number {
   return Math.ceil(distance / 30);
 }
 
+/**
+ * Cost of shipping goods over a distance, payable either way
+ * Rule: travel tickets per 100 units, or a gold fee per unit and hex
+ */
+export function calculateShippingCost(distance: number, quantity: number): { tickets: number; gold: number } {
+  const { hexesPerTicket, unitsPerTicket, goldPerUnitPerHex, minGoldFee } = ECONOMY_CONFIG.storage;
+  return {
+    tickets: Math.ceil(distance / hexesPerTicket) * Math.ceil(quantity / unitsPerTicket),
+    gold: Math.max(minGoldFee, Math.round(quantity * distance * goldPerUnitPerHex * 100) / 100),
+  };
+}
+
 /**
  * Validate hex ID format (should be "row-col")
  */
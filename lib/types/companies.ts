@@ -20,6 +20,13 @@ export interface CompanyType {
   created_at: string;
 }
 
+export interface RecipeIngredient {
+  resource_id: string;
+  resource_key: string;
+  resource_name: string;
+  quantity: number;
+}
+
 export interface ProductionRecipe {
   id: string;
   key: string;
@@ -40,6 +47,9 @@ export interface ProductionRecipe {
     [key: string]: any;
   };
   created_at: string;
+  // Resolved from inputs/outputs by getProductionRecipes / getRecipesByIds
+  input_resources?: RecipeIngredient[];
+  output_resources?: RecipeIngredient[];
 }
 
 export interface Company {
@@ -52,6 +62,11 @@ export interface Company {
   health: number;
   community_id: string | null;
   output_destination: "founder" | "community";
+  total_shares?: number; // 0 until shares are issued
+  cash_balance?: number; // Gold, pays daily upkeep
+  status?: CompanyStatus;
+  last_upkeep_at?: string;
+  upkeep_overdue_since?: string | null;
   metadata: {
     pollution_level?: number;
     build_progress_days?: number;
@@ -113,6 +128,8 @@ export interface UserCompany {
   can_work_today: boolean;
   available_recipes: string[]; // recipe_ids
   created_at: string;
+  status?: CompanyStatus;
+  cash_balance?: number;
 }
 
 export interface UserEmployment {
@@ -128,6 +145,149 @@ export interface UserEmployment {
   can_work_today: boolean;
   available_recipes: string[]; // recipe_ids
   hired_at: string;
+  contract_type?: EmploymentContractType;
+  wage_gold_per_day?: number;
+  ends_at?: string | null;
+  notice_days?: number;
+  min_days_per_week?: number | null;
+  terminates_at?: string | null; // Set once notice has been given
+  notice_given_by?: EmploymentNoticeSide | null;
+  days_worked_this_week?: number;
+  employer_reputation?: number;
+  pending_offer?: EmploymentOffer | null;
+}
+
+// ============================================================================
+// SUPPLY CONTRACTS
+// ============================================================================
+
+export type SupplyContractStatus =
+  | "proposed"
+  | "active"
+  | "completed"
+  | "rejected"
+  | "cancelled"
+  | "terminated";
+
+export type SupplyContractRole = "buyer" | "supplier";
+
+export interface SupplyContract {
+  id: string;
+  role: SupplyContractRole; // The viewer's side
+  status: SupplyContractStatus;
+  proposed_by_me: boolean;
+  counterparty_id: string;
+  counterparty_username: string;
+  company_id: string | null; // The viewer's company on this contract
+  counterparty_company_name: string | null;
+  resource_id: string;
+  resource_name: string;
+  quality_id: string;
+  quality_level: number;
+  quantity_per_delivery: number;
+  community_currency_id: string;
+  currency_symbol: string;
+  price_per_delivery: number;
+  penalty_per_miss: number;
+  delivery_interval_days: number;
+  total_deliveries: number;
+  deliveries_made: number;
+  deliveries_missed: number;
+  escrow_balance: number;
+  penalties_paid: number;
+  next_due_at: string | null; // End of the current delivery window
+  proposal_expires_at: string;
+  termination_reason: string | null;
+  created_at: string;
+}
+
+export interface ProposeSupplyContractInput {
+  role: SupplyContractRole; // The proposer's side
+  counterparty_username: string;
+  company_id?: string | null;
+  resource_id: string;
+  quality_id: string;
+  quantity_per_delivery: number;
+  community_currency_id: string;
+  price_per_delivery: number;
+  penalty_per_miss: number;
+  delivery_interval_days: number;
+  total_deliveries: number;
+}
+
+// ============================================================================
+// COMPANY SHARES
+// ============================================================================
+
+export type CompanyResolutionKind = "upgrade" | "hire_wage" | "liquidation";
+
+export type CompanyResolutionStatus = "open" | "passed" | "rejected" | "expired" | "executed";
+
+export interface CompanyShareholder {
+  holder_id: string;
+  username: string;
+  shares: number; // Held plus listed
+  listed_shares: number;
+  percent: number;
+  is_owner: boolean;
+}
+
+export interface CompanyShareListing {
+  id: string;
+  company_id: string;
+  company_name: string;
+  community_id: string | null;
+  seller_id: string;
+  seller_username: string;
+  shares_available: number;
+  price_per_share: number; // Gold
+  total_shares: number;
+  created_at: string;
+}
+
+export interface CompanyDividend {
+  id: string;
+  total_amount: number;
+  amount_per_share: number;
+  paid_out: number;
+  recipients: number;
+  created_at: string;
+}
+
+export interface CompanyResolution {
+  id: string;
+  kind: CompanyResolutionKind;
+  status: CompanyResolutionStatus;
+  max_wage: number | null; // hire_wage only
+  proposed_by_username: string | null;
+  shares_for: number;
+  shares_against: number;
+  my_vote: boolean | null;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface UserShareholding {
+  company_id: string;
+  company_name: string;
+  company_type_key: string;
+  shares: number; // Held plus listed
+  total_shares: number;
+  is_owner: boolean;
+}
+
+export interface CompanyCapTable {
+  company_id: string;
+  owner_id: string;
+  total_shares: number;
+  viewer_id: string | null;
+  my_shares: number;
+  is_owner: boolean;
+  vote_required: boolean; // Whether an outside holder has a major stake
+  shareholders: CompanyShareholder[];
+  listings: CompanyShareListing[];
+  dividends: CompanyDividend[];
+  resolutions: CompanyResolution[];
 }
 
 // ============================================================================
@@ -162,6 +322,7 @@ export interface WorkResult {
   outputs_produced?: Record<string, { base_quantity: number; quality_level: number }>;
   wage_earned?: number;
   hex_bonuses?: Record<string, number>;
+  unsupplied?: boolean; // Region cut off from its owner's capital; output was halved
 }
 
 // ============================================================================
@@ -214,3 +375,81 @@ export interface WorkStats {
     work_days: number;
   };
 }
+
+// ============================================================================
+// COMPANY UPKEEP & BANKRUPTCY
+// ============================================================================
+
+export type CompanyStatus = "active" | "delinquent" | "bankrupt";
+
+export type CompanyDebtKind = "wages" | "trade" | "other";
+
+export interface CompanyDebt {
+  id: string;
+  creditor_id: string;
+  creditor_username: string;
+  kind: CompanyDebtKind;
+  amount: number; // Gold
+  amount_paid: number;
+  description: string | null;
+  created_at: string;
+  settled_at: string | null;
+}
+
+export interface CompanyFinances {
+  company_id: string;
+  is_owner: boolean;
+  status: CompanyStatus;
+  cash_balance: number; // Gold
+  daily_upkeep: number;
+  upkeep_owed: number; // Whole days due since the last payment
+  next_upkeep_at: string;
+  grace_ends_at: string | null; // Delinquent companies go bankrupt at this point
+  debts: CompanyDebt[];
+}
+
+export type CompanyAuctionLotType = "company" | "inventory";
+
+export interface CompanyAuctionLot {
+  id: string;
+  bankruptcy_id: string;
+  company_id: string | null;
+  company_name: string;
+  company_type_key: string | null;
+  community_id: string | null;
+  lot_type: CompanyAuctionLotType;
+  company_level: number | null;
+  resource_key: string | null;
+  resource_name: string | null;
+  quality_level: number | null;
+  quantity: number | null;
+  starting_bid: number; // Gold
+  highest_bid: number | null;
+  min_bid: number;
+  is_highest_bidder: boolean;
+  is_former_owner: boolean;
+  ends_at: string;
+}
+
+// ============================================================================
+// EMPLOYMENT CONTRACTS
+// ============================================================================
+
+// per_work pays community coin per work action; term pays gold daily from company cash
+export type EmploymentContractType = "per_work" | "term";
+
+export type EmploymentNoticeSide = "employer" | "employee";
+
+export type EmployerComplaintKind = "unpaid_wages" | "unfair_dismissal" | "contract_breach" | "other";
+
+export interface EmploymentContractTerms {
+  wage_gold_per_day: number;
+  term_days: number;
+  notice_days: number;
+  min_days_per_week: number | null;
+}
+
+export interface EmploymentOffer extends EmploymentContractTerms {
+  id: string;
+  expires_at: string;
+}
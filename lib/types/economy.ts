@@ -7,7 +7,7 @@
 // RESOURCE TYPES
 // ============================================================================
 
-export type ResourceCategory = 'raw_material' | 'product';
+export type ResourceCategory = 'raw_material' | 'intermediate' | 'product';
 
 export interface ResourceQuality {
   id: string;
@@ -46,6 +46,8 @@ export interface InventoryItem {
   quality_color: string;
   quantity: number;
   stat_multiplier: number;
+  hex_id?: string | null; // Where the stock is held (community inventory)
+  location_name?: string | null;
 }
 
 export interface UserInventoryItem {
@@ -182,12 +184,14 @@ export interface DeductGoldResult {
 export type OrderType = 'buy' | 'sell';
 export type OrderStatus = 'active' | 'partially_filled' | 'filled' | 'cancelled' | 'expired';
 export type SourceAccount = 'personal' | 'treasury';
+export type OrderKind = 'limit' | 'market'; // Market orders sweep the book and never rest
 
 export interface ExchangeOrder {
   id: string;
   user_id: string;
   community_currency_id: string;
   order_type: OrderType;
+  order_kind: OrderKind;
   gold_amount: number;
   currency_amount: number;
   exchange_rate: number;
@@ -202,7 +206,9 @@ export interface ExchangeOrder {
 
 export interface ExchangeTrade {
   id: string;
-  order_id: string;
+  order_id: string; // The resting (maker) order
+  taker_order_id: string | null; // The incoming order that matched it, null when taken by hand
+  taker_side: OrderType;
   maker_user_id: string;
   taker_user_id: string;
   community_currency_id: string;
@@ -278,6 +284,14 @@ export interface CreateOrderResult {
   order_id: string | null;
   success: boolean;
   message: string;
+  order_status?: OrderStatus | null; // After matching: 'filled', or still on the book
+  matched_gold?: number; // Filled immediately against resting orders
+  matched_currency?: number;
+  trade_count?: number;
+}
+
+export interface MarketOrderResult extends CreateOrderResult {
+  average_rate?: number | null; // Gold per unit of currency across all fills
 }
 
 export interface AcceptOrderResult {
@@ -291,6 +305,169 @@ export interface CancelOrderResult {
   message: string;
 }
 
+// ============================================================================
+// MARKET DATA (candles, depth, stats)
+// ============================================================================
+
+export type CandleResolution = '5m' | '1h' | '1d';
+
+// Exchange prices are gold per unit of currency; product prices are community coins per unit
+export interface MarketCandle {
+  time: string; // Start of the bucket
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  average: number | null; // Volume-weighted
+  volume: number; // Currency units (exchange) or items (products)
+  turnover: number; // Gold (exchange) or community coins (products)
+  trade_count: number;
+}
+
+export interface MarketDepthLevel {
+  side: OrderType; // buy = bids, sell = asks
+  price: number;
+  quantity: number;
+  cumulative: number; // Quantity available at this price or better
+  order_count: number;
+}
+
+export interface MarketDepth {
+  bids: MarketDepthLevel[]; // Best (highest) first
+  asks: MarketDepthLevel[]; // Best (lowest) first
+  best_bid: number | null;
+  best_ask: number | null;
+  spread: number | null;
+}
+
+export interface MarketStats24h {
+  last_price: number | null;
+  open_price: number | null; // First trade of the window
+  change: number | null; // Fractional, 0.05 = +5%
+  high: number | null;
+  low: number | null;
+  volume: number;
+  turnover: number;
+  trade_count: number;
+}
+
+// ============================================================================
+// PLAYER-TO-PLAYER LOANS
+// ============================================================================
+
+export type LoanStatus = 'open' | 'active' | 'repaid' | 'defaulted' | 'withdrawn';
+export type LoanCurrencyType = 'gold' | 'community';
+export type LoanCollateralType = 'none' | 'inventory' | 'shares';
+export type LoanInstallmentStatus = 'pending' | 'overdue' | 'paid' | 'defaulted';
+
+export interface LoanCollateral {
+  type: LoanCollateralType;
+  resource_id?: string | null;
+  resource_name?: string | null;
+  quality_id?: string | null;
+  quality_level?: number | null;
+  quantity?: number | null;
+  company_id?: string | null;
+  company_name?: string | null;
+  shares?: number | null;
+}
+
+export interface LoanInstallment {
+  id: string;
+  installment_number: number;
+  due_at: string;
+  principal_due: number;
+  interest_due: number;
+  status: LoanInstallmentStatus;
+  paid_late: boolean;
+  paid_at: string | null;
+}
+
+export interface Loan {
+  id: string;
+  lender_id: string;
+  lender_username: string;
+  borrower_id: string | null;
+  borrower_username: string | null;
+  currency_type: LoanCurrencyType;
+  community_currency_id: string | null;
+  currency_symbol: string | null; // Community currencies only
+  principal: number;
+  interest_rate: number; // Percent over the whole term
+  duration_days: number;
+  installment_count: number;
+  min_credit_score: number | null;
+  collateral: LoanCollateral;
+  status: LoanStatus;
+  created_at: string;
+  accepted_at: string | null;
+  closed_at: string | null;
+  installments: LoanInstallment[]; // Empty until accepted
+}
+
+export interface CreditHistory {
+  user_id: string;
+  score: number | null; // 0-100; null when the user never borrowed
+  loans_taken: number;
+  active_loans: number;
+  loans_repaid: number;
+  loans_defaulted: number;
+  installments_on_time: number;
+  installments_late: number;
+}
+
+export interface CreateLoanOfferInput {
+  currency_type: LoanCurrencyType;
+  community_currency_id?: string | null;
+  principal: number;
+  interest_rate: number;
+  duration_days: number;
+  installment_count: number;
+  min_credit_score?: number | null;
+  collateral: LoanCollateral;
+}
+
+export interface LoanActionResult {
+  success: boolean;
+  loan_id?: string;
+  status?: LoanStatus;
+  error?: string;
+}
+
+// ============================================================================
+// STORAGE & SHIPPING
+// ============================================================================
+
+export type ShippingPayment = 'tickets' | 'gold';
+
+export type StoredItem = Omit<InventoryItem, 'id' | 'stat_multiplier' | 'hex_id' | 'location_name'>;
+
+export interface StorageLocation {
+  hex_id: string;
+  location_name: string;
+  is_current: boolean; // The user's own inventory is here
+  capacity: number;
+  used: number;
+  items: StoredItem[];
+}
+
+export interface ShipInventoryInput {
+  resource_id: string;
+  quality_id: string;
+  quantity: number;
+  from_hex: string;
+  to_hex: string;
+  payment: ShippingPayment;
+}
+
+export interface ShippingResult {
+  success: boolean;
+  distance?: number;
+  tickets_used?: number;
+  gold_paid?: number;
+  error?: string;
+}
+
 // ============================================================================
 // UI DISPLAY TYPES
 // ============================================================================
@@ -59,6 +59,9 @@ export enum NotificationType {
   // Community - General
   COMMUNITY_UPDATE = "community_update",
 
+  // Companies (upkeep, bankruptcy, auctions)
+  COMPANY_UPDATE = "company_update",
+
   // Social (future - needs DB triggers)
   FOLLOW_REQUEST = "follow_request",
   COMMUNITY_INVITE = "community_invite",
@@ -221,6 +224,7 @@ export function getNotificationCategory(
     [NotificationType.BATTLE_EXHAUSTION]: NotificationCategory.COMMUNITY,
     [NotificationType.BATTLE_RAGE]: NotificationCategory.COMMUNITY,
     [NotificationType.COMMUNITY_UPDATE]: NotificationCategory.COMMUNITY,
+    [NotificationType.COMPANY_UPDATE]: NotificationCategory.COMMUNITY,
 
     // Social
     [NotificationType.MENTION]: NotificationCategory.SOCIAL,
@@ -348,6 +352,7 @@ export function getNotificationIcon(type: NotificationType): string {
     [NotificationType.BATTLE_EXHAUSTION]: "BatteryLow",
     [NotificationType.BATTLE_RAGE]: "Flame",
     [NotificationType.COMMUNITY_UPDATE]: "Building2",
+    [NotificationType.COMPANY_UPDATE]: "Factory",
     [NotificationType.MENTION]: "AtSign",
     [NotificationType.FOLLOW_REQUEST]: "UserPlus",
     [NotificationType.COMMUNITY_INVITE]: "UserCheck",
@@ -391,6 +396,7 @@ export function getNotificationTypeLabel(type: NotificationType): string {
     [NotificationType.BATTLE_EXHAUSTION]: "Exhaustion",
     [NotificationType.BATTLE_RAGE]: "Vengeance Rage",
     [NotificationType.COMMUNITY_UPDATE]: "Community Update",
+    [NotificationType.COMPANY_UPDATE]: "Company Update",
     [NotificationType.MENTION]: "Mention",
     [NotificationType.FOLLOW_REQUEST]: "Follow Request",
     [NotificationType.COMMUNITY_INVITE]: "Community Invite",
@@ -579,6 +585,7 @@ export const WORLD_EVENT_NOTIFICATION_TYPES = [
 
 export const COMMUNITY_EVENT_NOTIFICATION_TYPES = [
   NotificationType.COMMUNITY_UPDATE,
+  NotificationType.COMPANY_UPDATE,
   NotificationType.LAW_PASSED,
   NotificationType.LAW_REJECTED,
   NotificationType.LAW_EXPIRED,
@@ -0,0 +1,196 @@
+-- Law Repeal and Amendment Lifecycle
+-- Adds REPEAL_LAW / AMEND_LAW proposal types that target an enacted law by id,
+-- tracks repeal/amendment state on the enacted proposal, and adds the RPC used
+-- to reverse a currency issuance.
+
+-- ============================================================================
+-- 1. Allow new law types
+-- ============================================================================
+
+ALTER TABLE community_proposals DROP CONSTRAINT IF EXISTS law_type_valid;
+ALTER TABLE community_proposals ADD CONSTRAINT law_type_valid CHECK (
+  law_type IN (
+    'DECLARE_WAR',
+    'PROPOSE_HEIR',
+    'CHANGE_GOVERNANCE',
+    'MESSAGE_OF_THE_DAY',
+    'WORK_TAX',
+    'IMPORT_TARIFF',
+    'CFC_ALLIANCE',
+    'ISSUE_CURRENCY',
+    'REPEAL_LAW',
+    'AMEND_LAW'
+  )
+);
+
+-- ============================================================================
+-- 2. Enacted law lifecycle columns
+-- ============================================================================
+
+ALTER TABLE community_proposals
+  ADD COLUMN IF NOT EXISTS repealed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS repealed_by_proposal_id UUID REFERENCES community_proposals(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS amended_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS amended_by_proposal_id UUID REFERENCES community_proposals(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN community_proposals.repealed_at IS 'When a passed law was struck down by a REPEAL_LAW proposal. NULL while the law is in force.';
+COMMENT ON COLUMN community_proposals.amended_at IS 'When the terms (metadata) of a passed law were last changed by an AMEND_LAW proposal.';
+
+-- Fast lookup of laws currently in force
+CREATE INDEX IF NOT EXISTS idx_community_proposals_in_force
+  ON community_proposals(community_id, law_type, resolved_at DESC)
+  WHERE status = 'passed' AND repealed_at IS NULL;
+
+-- ============================================================================
+-- 3. Alliance dissolution status
+-- ============================================================================
+
+ALTER TABLE community_alliances DROP CONSTRAINT IF EXISTS community_alliances_status_check;
+ALTER TABLE community_alliances ADD CONSTRAINT community_alliances_status_check CHECK (
+  status IN (
+    'pending_target_approval',
+    'pending_mutual_approval',
+    'active',
+    'rejected',
+    'cancelled',
+    'dissolved'  -- Alliance law was repealed after activation
+  )
+);
+
+-- ============================================================================
+-- 4. Revoke currency issuance (called by REPEAL_LAW / AMEND_LAW execution)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION revoke_community_currency(
+  p_law_id UUID,
+  p_revoking_law_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_law RECORD;
+  v_community_id UUID;
+  v_gold_amount NUMERIC;
+  v_conversion_rate NUMERIC;
+  v_currency_id UUID;
+  v_currency_symbol TEXT;
+  v_gold_wallet_id UUID;
+  v_currency_wallet_id UUID;
+  v_currency_amount NUMERIC;
+  v_current_currency_balance NUMERIC;
+  v_transaction_id UUID;
+BEGIN
+  -- The amounts come from the enacted issuance, never from the caller
+  SELECT id, community_id, law_type, status, metadata, repealed_at
+  INTO v_law
+  FROM community_proposals
+  WHERE id = p_law_id
+  FOR UPDATE;
+
+  IF v_law.id IS NULL OR v_law.law_type <> 'ISSUE_CURRENCY' THEN
+    RAISE EXCEPTION 'Currency issuance law not found';
+  END IF;
+
+  IF v_law.status <> 'passed' OR v_law.repealed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Only an issuance law in force can be revoked';
+  END IF;
+
+  v_community_id := v_law.community_id;
+  v_gold_amount := (v_law.metadata->>'gold_amount')::NUMERIC;
+  v_conversion_rate := (v_law.metadata->>'conversion_rate')::NUMERIC;
+
+  IF COALESCE(v_gold_amount, 0) <= 0 OR COALESCE(v_conversion_rate, 0) <= 0 THEN
+    RAISE EXCEPTION 'Gold amount and conversion rate must be greater than 0';
+  END IF;
+
+  SELECT id, currency_symbol INTO v_currency_id, v_currency_symbol
+  FROM community_currencies
+  WHERE community_id = v_community_id;
+
+  IF v_currency_id IS NULL THEN
+    RAISE EXCEPTION 'No currency found for community';
+  END IF;
+
+  v_currency_amount := v_gold_amount * v_conversion_rate;
+
+  SELECT get_or_create_community_currency_wallet(v_community_id, v_currency_id)
+  INTO v_currency_wallet_id;
+
+  SELECT COALESCE(community_coins, 0) INTO v_current_currency_balance
+  FROM community_wallets
+  WHERE id = v_currency_wallet_id
+  FOR UPDATE;
+
+  -- Only currency still held by the treasury can be withdrawn from circulation
+  IF v_current_currency_balance < v_currency_amount THEN
+    RAISE EXCEPTION 'Treasury no longer holds the issued currency. Available: %, Required: %',
+      v_current_currency_balance, v_currency_amount;
+  END IF;
+
+  -- Burn the issued currency from treasury
+  UPDATE community_wallets
+  SET community_coins = community_coins - v_currency_amount,
+      updated_at = NOW()
+  WHERE id = v_currency_wallet_id;
+
+  UPDATE community_currencies
+  SET total_supply = GREATEST(total_supply - v_currency_amount, 0),
+      updated_at = NOW()
+  WHERE id = v_currency_id;
+
+  -- Restore the gold that backed the issuance
+  SELECT get_or_create_community_gold_wallet(v_community_id) INTO v_gold_wallet_id;
+
+  UPDATE community_wallets
+  SET gold_coins = gold_coins + v_gold_amount,
+      updated_at = NOW()
+  WHERE id = v_gold_wallet_id;
+
+  INSERT INTO currency_transactions (
+    from_user_id,
+    to_user_id,
+    currency_type,
+    community_currency_id,
+    amount,
+    transaction_type,
+    description,
+    scope,
+    metadata
+  ) VALUES (
+    NULL,
+    NULL,
+    'community',
+    v_currency_id,
+    v_currency_amount,
+    'reward',
+    format('Revoked %s %s and restored %s gold to treasury',
+      v_currency_amount, v_currency_symbol, v_gold_amount),
+    'community',
+    jsonb_build_object(
+      'gold_restored', v_gold_amount,
+      'conversion_rate', v_conversion_rate,
+      'currency_revoked', v_currency_amount,
+      'law_id', p_law_id,
+      'revoking_law_id', p_revoking_law_id,
+      'operation', 'currency_revocation'
+    )
+  ) RETURNING id INTO v_transaction_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'currency_revoked', v_currency_amount,
+    'gold_restored', v_gold_amount,
+    'currency_symbol', v_currency_symbol,
+    'transaction_id', v_transaction_id,
+    'new_total_supply', (SELECT total_supply FROM community_currencies WHERE id = v_currency_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+-- Only law execution (service role) may unwind an issuance
+REVOKE EXECUTE ON FUNCTION revoke_community_currency(UUID, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION revoke_community_currency(UUID, UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION revoke_community_currency(UUID, UUID) TO service_role;
+
+COMMENT ON FUNCTION revoke_community_currency IS
+  'Reverses an ISSUE_CURRENCY law: burns the issued currency from treasury and restores the backing gold. Called by REPEAL_LAW / AMEND_LAW execution.';
@@ -0,0 +1,40 @@
+-- Law Sunset Clauses
+-- Passed laws may carry a duration (metadata.duration). When enacted, the law
+-- records when it lapses; resolveLapsedLawsAction reverts its effect once that
+-- time has passed and stamps lapsed_at.
+
+ALTER TABLE community_proposals
+  ADD COLUMN IF NOT EXISTS lapses_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS lapsed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN community_proposals.lapses_at IS 'When a passed law with a sunset clause expires. NULL for permanent laws.';
+COMMENT ON COLUMN community_proposals.lapsed_at IS 'When the sunset resolver reverted the law''s effect. NULL while the law is in force.';
+
+-- Fast lookup of laws due to lapse
+CREATE INDEX IF NOT EXISTS idx_community_proposals_lapses_at
+  ON community_proposals(lapses_at)
+  WHERE status = 'passed' AND repealed_at IS NULL AND lapsed_at IS NULL AND lapses_at IS NOT NULL;
+
+-- Reverting a law runs through the app's law effects, so the job calls the
+-- cron endpoint rather than a SQL function
+DO $$
+BEGIN
+  PERFORM cron.unschedule('resolve-lapsed-laws');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL;  -- Ignore if job doesn't exist
+END $$;
+
+SELECT cron.schedule(
+  'resolve-lapsed-laws',
+  '*/15 * * * *',
+  $$
+    SELECT net.http_post(
+      url := current_setting('app.settings.api_url', true) || '/api/cron/lapsed-laws',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.cron_secret', true)
+      )
+    );
+  $$
+);
@@ -0,0 +1,442 @@
+-- Republic Governance and Council Elections
+-- Adds the 'republic' governance type, where council seats (rank tier 1) are
+-- filled by periodic elections instead of appointment. An election moves
+-- through candidacy -> voting -> completed (or cancelled when nobody stands),
+-- and completing it rotates the council seats atomically.
+
+-- ============================================================================
+-- 1. Allow the republic governance type
+-- ============================================================================
+
+ALTER TABLE public.communities DROP CONSTRAINT IF EXISTS communities_governance_type_check;
+ALTER TABLE public.communities ADD CONSTRAINT communities_governance_type_check CHECK (
+  governance_type IN ('monarchy', 'democracy', 'republic')
+);
+
+-- ============================================================================
+-- 2. Election tables
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.council_elections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  community_id UUID NOT NULL REFERENCES public.communities(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'candidacy' CHECK (status IN ('candidacy', 'voting', 'completed', 'cancelled')),
+  seats INTEGER NOT NULL CHECK (seats > 0),
+  elected_rank INTEGER NOT NULL DEFAULT 1, -- rank tier the winners are seated in
+  candidacy_ends_at TIMESTAMPTZ NOT NULL,
+  voting_ends_at TIMESTAMPTZ NOT NULL,
+  term_ends_at TIMESTAMPTZ NOT NULL,
+  results JSONB, -- [{ user_id, votes, elected }] ordered by final position
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ
+);
+
+-- Only one election can be running per community
+CREATE UNIQUE INDEX IF NOT EXISTS idx_council_elections_one_open
+  ON public.council_elections(community_id)
+  WHERE status IN ('candidacy', 'voting');
+
+CREATE INDEX IF NOT EXISTS idx_council_elections_community
+  ON public.council_elections(community_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.council_candidates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  election_id UUID NOT NULL REFERENCES public.council_elections(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  statement TEXT CHECK (statement IS NULL OR char_length(statement) <= 280),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (election_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.council_ballots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  election_id UUID NOT NULL REFERENCES public.council_elections(id) ON DELETE CASCADE,
+  voter_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  candidate_id UUID NOT NULL REFERENCES public.council_candidates(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (election_id, voter_id, candidate_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_council_ballots_candidate ON public.council_ballots(candidate_id);
+
+-- ============================================================================
+-- 3. RLS
+-- ============================================================================
+
+ALTER TABLE public.council_elections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.council_candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.council_ballots ENABLE ROW LEVEL SECURITY;
+
+-- Elections and candidates are public; phase changes happen via service role / RPCs
+CREATE POLICY "council_elections_read" ON public.council_elections
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "council_candidates_read" ON public.council_candidates
+  FOR SELECT TO authenticated USING (true);
+
+-- Candidacies and ballots are written by declare_council_candidacy / cast_council_ballot,
+-- which check membership, the election phase and the ballot limit
+CREATE POLICY "council_candidates_delete_own" ON public.council_candidates
+  FOR DELETE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users u
+      WHERE u.id = council_candidates.user_id
+        AND u.auth_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.council_elections e
+      WHERE e.id = council_candidates.election_id
+        AND e.status = 'candidacy'
+        AND e.candidacy_ends_at > NOW()
+    )
+  );
+
+-- Ballots are secret: voters can only see their own
+CREATE POLICY "council_ballots_read_own" ON public.council_ballots
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users u
+      WHERE u.id = council_ballots.voter_id
+        AND u.auth_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON public.council_elections TO authenticated;
+GRANT SELECT, DELETE ON public.council_candidates TO authenticated;
+GRANT SELECT ON public.council_ballots TO authenticated;
+
+-- ============================================================================
+-- 4. Open an election (idempotent: returns the running election if any)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION open_council_election(
+  p_community_id UUID,
+  p_seats INTEGER,
+  p_elected_rank INTEGER,
+  p_candidacy_ends_at TIMESTAMPTZ,
+  p_voting_ends_at TIMESTAMPTZ,
+  p_term_ends_at TIMESTAMPTZ
+)
+RETURNS UUID AS $$
+DECLARE
+  v_election_id UUID;
+BEGIN
+  SELECT id INTO v_election_id
+  FROM council_elections
+  WHERE community_id = p_community_id
+    AND status IN ('candidacy', 'voting');
+
+  IF v_election_id IS NOT NULL THEN
+    RETURN v_election_id;
+  END IF;
+
+  INSERT INTO council_elections (
+    community_id,
+    seats,
+    elected_rank,
+    candidacy_ends_at,
+    voting_ends_at,
+    term_ends_at
+  ) VALUES (
+    p_community_id,
+    p_seats,
+    p_elected_rank,
+    p_candidacy_ends_at,
+    p_voting_ends_at,
+    p_term_ends_at
+  ) RETURNING id INTO v_election_id;
+
+  RETURN v_election_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION open_council_election FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION open_council_election FROM authenticated;
+GRANT EXECUTE ON FUNCTION open_council_election TO service_role;
+
+COMMENT ON FUNCTION open_council_election IS
+  'Opens a council election for a community unless one is already running. Called by CHANGE_GOVERNANCE execution and the election resolver.';
+
+-- ============================================================================
+-- 5. Complete an election: tally ballots and rotate council seats
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION complete_council_election(
+  p_election_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_election council_elections%ROWTYPE;
+  v_results JSONB;
+  v_winner_ids UUID[];
+BEGIN
+  SELECT * INTO v_election
+  FROM council_elections
+  WHERE id = p_election_id
+  FOR UPDATE;
+
+  IF v_election.id IS NULL THEN
+    RAISE EXCEPTION 'Election not found';
+  END IF;
+
+  IF v_election.status NOT IN ('candidacy', 'voting') THEN
+    RAISE EXCEPTION 'Election has already been resolved';
+  END IF;
+
+  -- Tally ballots for candidates who are still eligible members (the sovereign
+  -- keeps their own seat); only ballots from current members count, and ties
+  -- go to whoever declared first
+  WITH tallies AS (
+    SELECT c.user_id, c.created_at, COUNT(b.id) AS votes
+    FROM council_candidates c
+    JOIN community_members cm
+      ON cm.community_id = v_election.community_id
+     AND cm.user_id = c.user_id
+    LEFT JOIN (
+      council_ballots b
+      JOIN community_members vm
+        ON vm.community_id = v_election.community_id
+       AND vm.user_id = b.voter_id
+    ) ON b.candidate_id = c.id
+    WHERE c.election_id = p_election_id
+      AND cm.rank_tier <> 0
+    GROUP BY c.user_id, c.created_at
+  ),
+  ranked AS (
+    SELECT user_id, votes, ROW_NUMBER() OVER (ORDER BY votes DESC, created_at ASC) AS position
+    FROM tallies
+  )
+  SELECT
+    COALESCE(
+      jsonb_agg(
+        jsonb_build_object('user_id', user_id, 'votes', votes, 'elected', position <= v_election.seats)
+        ORDER BY position
+      ),
+      '[]'::jsonb
+    ),
+    COALESCE(array_agg(user_id) FILTER (WHERE position <= v_election.seats), ARRAY[]::UUID[])
+  INTO v_results, v_winner_ids
+  FROM ranked;
+
+  -- Nobody stood: the sitting council holds over until the next election
+  IF COALESCE(array_length(v_winner_ids, 1), 0) = 0 THEN
+    UPDATE council_elections
+    SET status = 'cancelled',
+        resolved_at = NOW(),
+        results = v_results
+    WHERE id = p_election_id;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'status', 'cancelled',
+      'elected_user_ids', '[]'::jsonb,
+      'results', v_results
+    );
+  END IF;
+
+  -- Seat rotation: outgoing councilors step down, winners take their seats
+  UPDATE community_members
+  SET rank_tier = 10
+  WHERE community_id = v_election.community_id
+    AND rank_tier = v_election.elected_rank
+    AND NOT (user_id = ANY(v_winner_ids));
+
+  UPDATE community_members
+  SET rank_tier = v_election.elected_rank
+  WHERE community_id = v_election.community_id
+    AND user_id = ANY(v_winner_ids)
+    AND rank_tier <> 0;
+
+  UPDATE council_elections
+  SET status = 'completed',
+      resolved_at = NOW(),
+      results = v_results
+  WHERE id = p_election_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', 'completed',
+    'elected_user_ids', to_jsonb(v_winner_ids),
+    'results', v_results
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION complete_council_election FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION complete_council_election FROM authenticated;
+GRANT EXECUTE ON FUNCTION complete_council_election TO service_role;
+
+COMMENT ON FUNCTION complete_council_election IS
+  'Tallies a council election and atomically rotates the rank it was opened for: non-winning councilors are demoted, winners are seated. Cancels the election if nobody stood.';
+
+-- ============================================================================
+-- 6. Declare candidacy (members other than the head of state, candidacy phase)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION declare_council_candidacy(
+  p_election_id UUID,
+  p_user_id UUID,
+  p_statement TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_election council_elections%ROWTYPE;
+  v_rank_tier INTEGER;
+BEGIN
+  SELECT * INTO v_election
+  FROM council_elections
+  WHERE id = p_election_id
+  FOR SHARE;
+
+  IF v_election.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Election not found');
+  END IF;
+
+  IF v_election.status <> 'candidacy' OR NOW() >= v_election.candidacy_ends_at THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Candidacy for this election has closed');
+  END IF;
+
+  SELECT rank_tier INTO v_rank_tier
+  FROM community_members
+  WHERE community_id = v_election.community_id
+    AND user_id = p_user_id;
+
+  IF v_rank_tier IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only members can stand for election');
+  END IF;
+
+  IF v_rank_tier = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The head of state already holds a seat and cannot stand for council');
+  END IF;
+
+  INSERT INTO council_candidates (election_id, user_id, statement)
+  VALUES (p_election_id, p_user_id, p_statement)
+  ON CONFLICT (election_id, user_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You are already a candidate in this election');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION declare_council_candidacy FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION declare_council_candidacy FROM authenticated;
+GRANT EXECUTE ON FUNCTION declare_council_candidacy TO service_role;
+
+-- ============================================================================
+-- 7. Cast a ballot (approval vote for up to `seats` candidates, once per voter)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION cast_council_ballot(
+  p_election_id UUID,
+  p_voter_id UUID,
+  p_candidate_ids UUID[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_election council_elections%ROWTYPE;
+  v_candidate_ids UUID[];
+  v_standing INTEGER;
+BEGIN
+  SELECT * INTO v_election
+  FROM council_elections
+  WHERE id = p_election_id
+  FOR SHARE;
+
+  IF v_election.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Election not found');
+  END IF;
+
+  -- Timestamps are authoritative, as the resolver may not have advanced the status yet
+  IF v_election.status NOT IN ('candidacy', 'voting')
+     OR NOW() < v_election.candidacy_ends_at
+     OR NOW() >= v_election.voting_ends_at THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Voting is not open for this election');
+  END IF;
+
+  -- Locking the voter's membership serializes their ballots, so the limit below holds
+  PERFORM 1
+  FROM community_members
+  WHERE community_id = v_election.community_id
+    AND user_id = p_voter_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only members can vote in council elections');
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT candidate_id), ARRAY[]::UUID[])
+  INTO v_candidate_ids
+  FROM unnest(p_candidate_ids) AS candidate_id;
+
+  IF COALESCE(array_length(v_candidate_ids, 1), 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Select at least one candidate');
+  END IF;
+
+  IF array_length(v_candidate_ids, 1) > v_election.seats THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('You can vote for at most %s candidates', v_election.seats)
+    );
+  END IF;
+
+  SELECT COUNT(*) INTO v_standing
+  FROM council_candidates
+  WHERE election_id = p_election_id
+    AND id = ANY(v_candidate_ids);
+
+  IF v_standing <> array_length(v_candidate_ids, 1) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'One or more candidates are not standing in this election');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM council_ballots
+    WHERE election_id = p_election_id
+      AND voter_id = p_voter_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You have already voted in this election');
+  END IF;
+
+  INSERT INTO council_ballots (election_id, voter_id, candidate_id)
+  SELECT p_election_id, p_voter_id, candidate_id
+  FROM unnest(v_candidate_ids) AS candidate_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION cast_council_ballot FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION cast_council_ballot FROM authenticated;
+GRANT EXECUTE ON FUNCTION cast_council_ballot TO service_role;
+
+-- ============================================================================
+-- 8. Schedule
+-- ============================================================================
+
+-- Seat rotation notifies the community through the app, so the job calls the
+-- cron endpoint rather than a SQL function
+DO $$
+BEGIN
+  PERFORM cron.unschedule('resolve-council-elections');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL;  -- Ignore if job doesn't exist
+END $$;
+
+SELECT cron.schedule(
+  'resolve-council-elections',
+  '*/15 * * * *',
+  $$
+    SELECT net.http_post(
+      url := current_setting('app.settings.api_url', true) || '/api/cron/council-elections',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.cron_secret', true)
+      )
+    );
+  $$
+);
@@ -0,0 +1,25 @@
+-- Quorum and Ranked-Choice Proposals
+-- Multi-option proposals (metadata.options) are decided by instant-runoff.
+-- Members cast a 'ranked' vote carrying their ordered preferences; yes/no
+-- proposals are unchanged. Quorum is enforced in application code from
+-- GovernanceRules, so no schema change is needed for it.
+
+ALTER TABLE proposal_votes
+  ADD COLUMN IF NOT EXISTS ranking JSONB;
+
+ALTER TABLE proposal_votes
+  DROP CONSTRAINT IF EXISTS proposal_votes_vote_check;
+
+ALTER TABLE proposal_votes
+  ADD CONSTRAINT proposal_votes_vote_check CHECK (vote IN ('yes', 'no', 'ranked'));
+
+ALTER TABLE proposal_votes
+  DROP CONSTRAINT IF EXISTS proposal_votes_ranking_check;
+
+ALTER TABLE proposal_votes
+  ADD CONSTRAINT proposal_votes_ranking_check CHECK (
+    (vote = 'ranked' AND jsonb_typeof(ranking) = 'array')
+    OR (vote <> 'ranked' AND ranking IS NULL)
+  );
+
+COMMENT ON COLUMN proposal_votes.ranking IS 'Ordered option keys (most preferred first) for ranked-choice proposals. NULL for yes/no votes.';
@@ -0,0 +1,57 @@
+-- Vote Delegation (liquid democracy)
+-- Members can delegate their vote on community proposals to another member,
+-- either for every law (law_type NULL) or for a single law type. Delegations
+-- are transitive and are resolved when proposals are tallied; cycle detection
+-- happens in application code before a delegation is created. Revoking a
+-- delegation stamps revoked_at so past delegations stay auditable.
+
+CREATE TABLE IF NOT EXISTS public.vote_delegations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  community_id UUID NOT NULL REFERENCES public.communities(id) ON DELETE CASCADE,
+  delegator_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  delegate_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  law_type TEXT, -- NULL = all laws
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ,
+  CONSTRAINT vote_delegations_not_self CHECK (delegator_id <> delegate_id)
+);
+
+-- One active delegation per member, community and scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vote_delegations_one_active
+  ON public.vote_delegations(community_id, delegator_id, COALESCE(law_type, '*'))
+  WHERE revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_vote_delegations_community_active
+  ON public.vote_delegations(community_id)
+  WHERE revoked_at IS NULL;
+
+ALTER TABLE public.vote_delegations ENABLE ROW LEVEL SECURITY;
+
+-- Delegations are public so members can see who votes on whose behalf
+CREATE POLICY "vote_delegations_read" ON public.vote_delegations
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "vote_delegations_insert_own" ON public.vote_delegations
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.users u
+      WHERE u.id = vote_delegations.delegator_id
+        AND u.auth_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "vote_delegations_revoke_own" ON public.vote_delegations
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users u
+      WHERE u.id = vote_delegations.delegator_id
+        AND u.auth_id = auth.uid()
+    )
+  );
+
+GRANT SELECT, INSERT, UPDATE ON public.vote_delegations TO authenticated;
+
+COMMENT ON TABLE public.vote_delegations IS 'Transitive vote delegations between community members, globally or per law type.';
+COMMENT ON COLUMN public.vote_delegations.law_type IS 'Law type the delegation applies to. NULL applies to all laws; a law-specific delegation takes precedence.';
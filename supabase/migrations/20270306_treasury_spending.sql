@@ -0,0 +1,285 @@
+-- Treasury Spending Law
+-- SPEND_TREASURY proposals pay grants, bounties and salaries out of community
+-- funds. A one-off payment is made when the law passes; a recurring payment
+-- (officer salary, soldier stipend) is tracked in treasury_stipends and paid
+-- on schedule until the law is repealed or lapses. Every payment is recorded
+-- in currency_transactions with community scope as the audit trail.
+
+-- ============================================================================
+-- 1. Law type and transaction types
+-- ============================================================================
+
+ALTER TABLE community_proposals DROP CONSTRAINT IF EXISTS law_type_valid;
+ALTER TABLE community_proposals ADD CONSTRAINT law_type_valid CHECK (
+  law_type IN (
+    'DECLARE_WAR',
+    'PROPOSE_HEIR',
+    'CHANGE_GOVERNANCE',
+    'MESSAGE_OF_THE_DAY',
+    'WORK_TAX',
+    'IMPORT_TARIFF',
+    'CFC_ALLIANCE',
+    'ISSUE_CURRENCY',
+    'REPEAL_LAW',
+    'AMEND_LAW',
+    'SPEND_TREASURY'
+  )
+);
+
+ALTER TABLE currency_transactions
+  DROP CONSTRAINT IF EXISTS currency_transactions_transaction_type_check;
+
+ALTER TABLE currency_transactions
+  ADD CONSTRAINT currency_transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    -- Original types
+    'transfer',
+    'exchange',
+    'reward',
+    'tax',
+    'purchase',
+    'sale',
+    -- Battle system
+    'battle_cost',
+    'battle_reward',
+    'medal_reward',
+    -- Training system
+    'training_cost',
+    'training_reward',
+    -- Company/Production system
+    'company_creation',
+    'production_cost',
+    'wage_payment',
+    -- P2P Exchange Market
+    'exchange_order_locked',
+    'exchange_order_filled',
+    'exchange_order_refunded',
+    -- Community treasury spending
+    'treasury_grant',
+    'treasury_stipend',
+    -- Future features
+    'loan_disbursement',
+    'loan_repayment',
+    'interest_payment',
+    'interest_earned',
+    -- Admin operations
+    'admin_grant',
+    'admin_deduction',
+    'admin_burn'
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_currency_transactions_community_spending
+  ON currency_transactions((metadata->>'community_id'), created_at DESC)
+  WHERE transaction_type IN ('treasury_grant', 'treasury_stipend');
+
+-- ============================================================================
+-- 2. Recurring payments
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS treasury_stipends (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  community_id UUID NOT NULL REFERENCES communities(id) ON DELETE CASCADE,
+  proposal_id UUID NOT NULL UNIQUE REFERENCES community_proposals(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  currency_type TEXT NOT NULL CHECK (currency_type IN ('gold', 'community')),
+  community_currency_id UUID REFERENCES community_currencies(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  payment_interval TEXT NOT NULL,
+  purpose TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'stopped')),
+  next_payment_at TIMESTAMPTZ NOT NULL,
+  payments_made INTEGER NOT NULL DEFAULT 0,
+  missed_payments INTEGER NOT NULL DEFAULT 0,
+  last_paid_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  stopped_at TIMESTAMPTZ,
+  CONSTRAINT treasury_stipends_currency CHECK (
+    (currency_type = 'gold' AND community_currency_id IS NULL) OR
+    (currency_type = 'community' AND community_currency_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_treasury_stipends_due
+  ON treasury_stipends(next_payment_at)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_treasury_stipends_community
+  ON treasury_stipends(community_id, status);
+
+ALTER TABLE treasury_stipends ENABLE ROW LEVEL SECURITY;
+
+-- Members can see what their treasury pays out; only law execution writes
+DROP POLICY IF EXISTS "Members can view treasury stipends" ON treasury_stipends;
+CREATE POLICY "Members can view treasury stipends"
+  ON treasury_stipends FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM community_members cm
+      JOIN users u ON u.id = cm.user_id
+      WHERE cm.community_id = treasury_stipends.community_id
+        AND u.auth_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON treasury_stipends TO authenticated;
+
+-- ============================================================================
+-- 3. Pay a member out of the community treasury
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION spend_community_treasury_enhanced(
+  p_community_id UUID,
+  p_recipient_id UUID,
+  p_currency_type TEXT,
+  p_community_currency_id UUID,
+  p_amount NUMERIC,
+  p_transaction_type TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}',
+  p_scope TEXT DEFAULT 'community'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_treasury_wallet_id UUID;
+  v_recipient_wallet_id UUID;
+  v_balance NUMERIC;
+  v_transaction_id UUID;
+BEGIN
+  IF p_amount <= 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Amount must be positive'
+    );
+  END IF;
+
+  IF p_currency_type = 'gold' THEN
+    v_treasury_wallet_id := get_or_create_community_gold_wallet(p_community_id);
+
+    SELECT gold_coins INTO v_balance
+    FROM community_wallets
+    WHERE id = v_treasury_wallet_id
+    FOR UPDATE;
+  ELSIF p_currency_type = 'community' THEN
+    v_treasury_wallet_id := get_or_create_community_currency_wallet(p_community_id, p_community_currency_id);
+
+    SELECT community_coins INTO v_balance
+    FROM community_wallets
+    WHERE id = v_treasury_wallet_id
+    FOR UPDATE;
+  ELSE
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Invalid currency type'
+    );
+  END IF;
+
+  IF COALESCE(v_balance, 0) < p_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Insufficient funds in treasury',
+      'current_balance', COALESCE(v_balance, 0),
+      'required', p_amount
+    );
+  END IF;
+
+  -- Move funds from the treasury to the recipient
+  IF p_currency_type = 'gold' THEN
+    UPDATE community_wallets
+    SET gold_coins = gold_coins - p_amount,
+        updated_at = NOW()
+    WHERE id = v_treasury_wallet_id;
+
+    v_recipient_wallet_id := get_or_create_gold_wallet(p_recipient_id);
+
+    UPDATE user_wallets
+    SET gold_coins = gold_coins + p_amount,
+        updated_at = NOW()
+    WHERE id = v_recipient_wallet_id;
+  ELSE
+    UPDATE community_wallets
+    SET community_coins = community_coins - p_amount,
+        updated_at = NOW()
+    WHERE id = v_treasury_wallet_id;
+
+    v_recipient_wallet_id := get_or_create_community_wallet(p_recipient_id, p_community_currency_id);
+
+    UPDATE user_wallets
+    SET community_coins = community_coins + p_amount,
+        updated_at = NOW()
+    WHERE id = v_recipient_wallet_id;
+  END IF;
+
+  -- Audit trail: the treasury is the sender, identified by metadata.community_id
+  INSERT INTO currency_transactions (
+    from_user_id,
+    to_user_id,
+    currency_type,
+    community_currency_id,
+    amount,
+    transaction_type,
+    description,
+    metadata,
+    scope
+  )
+  VALUES (
+    NULL,
+    p_recipient_id,
+    p_currency_type,
+    CASE WHEN p_currency_type = 'community' THEN p_community_currency_id ELSE NULL END,
+    p_amount,
+    p_transaction_type,
+    p_description,
+    COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object('community_id', p_community_id),
+    p_scope
+  )
+  RETURNING id INTO v_transaction_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'amount', p_amount,
+    'user_id', p_recipient_id,
+    'new_balance', v_balance - p_amount
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Treasury spending is only ever triggered by law execution on the server
+REVOKE EXECUTE ON FUNCTION spend_community_treasury_enhanced FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION spend_community_treasury_enhanced FROM authenticated;
+GRANT EXECUTE ON FUNCTION spend_community_treasury_enhanced TO service_role;
+
+-- ============================================================================
+-- 4. Schedule
+-- ============================================================================
+
+-- Stipends are paid through the app's transaction service, so the job calls
+-- the cron endpoint rather than a SQL function
+DO $$
+BEGIN
+  PERFORM cron.unschedule('treasury-stipends-hourly');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL;  -- Ignore if job doesn't exist
+END $$;
+
+SELECT cron.schedule(
+  'treasury-stipends-hourly',
+  '30 * * * *',
+  $$
+    SELECT net.http_post(
+      url := current_setting('app.settings.api_url', true) || '/api/cron/treasury-stipends',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.cron_secret', true)
+      )
+    );
+  $$
+);
+
+COMMENT ON FUNCTION spend_community_treasury_enhanced IS
+  'Atomically pays a user out of a community treasury and records the payment. Called by SPEND_TREASURY law execution.';
+COMMENT ON TABLE treasury_stipends IS
+  'Recurring treasury payments (salaries, stipends) enacted by SPEND_TREASURY laws.';
@@ -0,0 +1,344 @@
+-- Peace Treaties and Ceasefires
+-- PROPOSE_PEACE ends a war and CEASEFIRE pauses one. Both are bilateral laws:
+-- the proposing community and the target community must each approve. A peace
+-- treaty may carry gold reparations and region cession, applied atomically
+-- when the treaty is enacted. While a treaty is active neither party can
+-- declare war on or start battles against the other.
+
+-- ============================================================================
+-- 1. Law types and transaction types
+-- ============================================================================
+
+ALTER TABLE community_proposals DROP CONSTRAINT IF EXISTS law_type_valid;
+ALTER TABLE community_proposals ADD CONSTRAINT law_type_valid CHECK (
+  law_type IN (
+    'DECLARE_WAR',
+    'PROPOSE_HEIR',
+    'CHANGE_GOVERNANCE',
+    'MESSAGE_OF_THE_DAY',
+    'WORK_TAX',
+    'IMPORT_TARIFF',
+    'CFC_ALLIANCE',
+    'ISSUE_CURRENCY',
+    'REPEAL_LAW',
+    'AMEND_LAW',
+    'SPEND_TREASURY',
+    'PROPOSE_PEACE',
+    'CEASEFIRE'
+  )
+);
+
+ALTER TABLE currency_transactions
+  DROP CONSTRAINT IF EXISTS currency_transactions_transaction_type_check;
+
+ALTER TABLE currency_transactions
+  ADD CONSTRAINT currency_transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    -- Original types
+    'transfer',
+    'exchange',
+    'reward',
+    'tax',
+    'purchase',
+    'sale',
+    -- Battle system
+    'battle_cost',
+    'battle_reward',
+    'medal_reward',
+    -- Training system
+    'training_cost',
+    'training_reward',
+    -- Company/Production system
+    'company_creation',
+    'production_cost',
+    'wage_payment',
+    -- P2P Exchange Market
+    'exchange_order_locked',
+    'exchange_order_filled',
+    'exchange_order_refunded',
+    -- Community treasury spending
+    'treasury_grant',
+    'treasury_stipend',
+    -- Diplomacy
+    'war_reparations',
+    -- Future features
+    'loan_disbursement',
+    'loan_repayment',
+    'interest_payment',
+    'interest_earned',
+    -- Admin operations
+    'admin_grant',
+    'admin_deduction',
+    'admin_burn'
+  ));
+
+-- ============================================================================
+-- 2. Treaties
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS community_treaties (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id UUID NOT NULL UNIQUE REFERENCES community_proposals(id) ON DELETE CASCADE,
+  treaty_type TEXT NOT NULL CHECK (treaty_type IN ('peace', 'ceasefire')),
+  community_a_id UUID NOT NULL REFERENCES communities(id) ON DELETE CASCADE, -- Proposing community
+  community_b_id UUID NOT NULL REFERENCES communities(id) ON DELETE CASCADE, -- Target community
+  terms JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'ended')),
+  starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ends_at TIMESTAMPTZ, -- NULL = permanent
+  ended_at TIMESTAMPTZ,
+  end_reason TEXT,
+  CONSTRAINT community_treaties_distinct_parties CHECK (community_a_id <> community_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_community_treaties_a
+  ON community_treaties(community_a_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_community_treaties_b
+  ON community_treaties(community_b_id, status);
+
+ALTER TABLE community_treaties ENABLE ROW LEVEL SECURITY;
+
+-- Treaties are public, like the wars they end; only law execution writes
+DROP POLICY IF EXISTS "Anyone can view treaties" ON community_treaties;
+CREATE POLICY "Anyone can view treaties"
+  ON community_treaties FOR SELECT
+  USING (true);
+
+GRANT SELECT ON community_treaties TO anon, authenticated;
+
+-- ============================================================================
+-- 3. Enact a treaty
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enact_community_treaty(
+  p_proposal_id UUID,
+  p_treaty_type TEXT,
+  p_community_a_id UUID,
+  p_community_b_id UUID,
+  p_terms JSONB DEFAULT '{}',
+  p_ends_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_diplomacy_id UUID;
+  v_status TEXT;
+  v_reparations NUMERIC := COALESCE((p_terms->>'reparations_gold')::NUMERIC, 0);
+  v_payer_id UUID := NULLIF(p_terms->>'reparations_payer_id', '')::UUID;
+  v_payee_id UUID;
+  v_payer_wallet_id UUID;
+  v_payee_wallet_id UUID;
+  v_balance NUMERIC;
+  v_hex_id TEXT;
+  v_owner_id UUID;
+  v_ceded_count INTEGER := 0;
+  v_treaty_id UUID;
+BEGIN
+  IF p_treaty_type NOT IN ('peace', 'ceasefire') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid treaty type');
+  END IF;
+
+  SELECT id, status::TEXT INTO v_diplomacy_id, v_status
+  FROM diplomacy_states
+  WHERE (initiator_community_id = p_community_a_id AND target_community_id = p_community_b_id)
+     OR (initiator_community_id = p_community_b_id AND target_community_id = p_community_a_id)
+  LIMIT 1
+  FOR UPDATE;
+
+  -- A ceasefire pauses an active war; peace can also end a paused one
+  IF v_status IS DISTINCT FROM 'war' AND NOT (p_treaty_type = 'peace' AND v_status = 'ceasefire') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The communities are not at war');
+  END IF;
+
+  -- Reparations move between the two community gold treasuries
+  IF v_reparations > 0 THEN
+    IF v_payer_id = p_community_a_id THEN
+      v_payee_id := p_community_b_id;
+    ELSIF v_payer_id = p_community_b_id THEN
+      v_payee_id := p_community_a_id;
+    ELSE
+      RETURN jsonb_build_object('success', false, 'error', 'Reparations must be paid by one of the parties');
+    END IF;
+
+    v_payer_wallet_id := get_or_create_community_gold_wallet(v_payer_id);
+    v_payee_wallet_id := get_or_create_community_gold_wallet(v_payee_id);
+
+    SELECT gold_coins INTO v_balance
+    FROM community_wallets
+    WHERE id = v_payer_wallet_id
+    FOR UPDATE;
+
+    IF COALESCE(v_balance, 0) < v_reparations THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', 'Insufficient funds in treasury for reparations',
+        'current_balance', COALESCE(v_balance, 0),
+        'required', v_reparations
+      );
+    END IF;
+
+    UPDATE community_wallets
+    SET gold_coins = gold_coins - v_reparations,
+        updated_at = NOW()
+    WHERE id = v_payer_wallet_id;
+
+    UPDATE community_wallets
+    SET gold_coins = gold_coins + v_reparations,
+        updated_at = NOW()
+    WHERE id = v_payee_wallet_id;
+
+    INSERT INTO currency_transactions (
+      from_user_id,
+      to_user_id,
+      currency_type,
+      amount,
+      transaction_type,
+      description,
+      metadata,
+      scope
+    )
+    VALUES (
+      NULL,
+      NULL,
+      'gold',
+      v_reparations,
+      'war_reparations',
+      'War reparations under peace treaty',
+      jsonb_build_object(
+        'community_id', v_payer_id,
+        'recipient_community_id', v_payee_id,
+        'proposal_id', p_proposal_id
+      ),
+      'inter_community'
+    );
+  END IF;
+
+  -- Ceded regions pass from whichever party owns them to the other party
+  FOR v_hex_id IN SELECT jsonb_array_elements_text(COALESCE(p_terms->'ceded_hex_ids', '[]'::jsonb))
+  LOOP
+    SELECT owner_community_id INTO v_owner_id
+    FROM world_regions
+    WHERE hex_id = v_hex_id
+    FOR UPDATE;
+
+    IF v_owner_id IS NULL OR v_owner_id NOT IN (p_community_a_id, p_community_b_id) THEN
+      RAISE EXCEPTION 'Region % is not held by either party', v_hex_id;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM communities WHERE id = v_owner_id AND capital_hex_id = v_hex_id) THEN
+      RAISE EXCEPTION 'Region % is a capital and cannot be ceded', v_hex_id;
+    END IF;
+
+    UPDATE world_regions
+    SET owner_community_id = CASE WHEN v_owner_id = p_community_a_id THEN p_community_b_id ELSE p_community_a_id END,
+        last_conquered_at = NOW()
+    WHERE hex_id = v_hex_id;
+
+    v_ceded_count := v_ceded_count + 1;
+  END LOOP;
+
+  IF p_treaty_type = 'peace' THEN
+    DELETE FROM diplomacy_states WHERE id = v_diplomacy_id;
+  ELSE
+    UPDATE diplomacy_states
+    SET status = 'ceasefire',
+        updated_at = NOW()
+    WHERE id = v_diplomacy_id;
+  END IF;
+
+  -- A new treaty supersedes any earlier one between the same parties
+  UPDATE community_treaties
+  SET status = 'ended',
+      ended_at = NOW(),
+      end_reason = 'superseded'
+  WHERE status = 'active'
+    AND ((community_a_id = p_community_a_id AND community_b_id = p_community_b_id)
+      OR (community_a_id = p_community_b_id AND community_b_id = p_community_a_id));
+
+  INSERT INTO community_treaties (
+    proposal_id,
+    treaty_type,
+    community_a_id,
+    community_b_id,
+    terms,
+    ends_at
+  )
+  VALUES (
+    p_proposal_id,
+    p_treaty_type,
+    p_community_a_id,
+    p_community_b_id,
+    COALESCE(p_terms, '{}'::jsonb),
+    p_ends_at
+  )
+  RETURNING id INTO v_treaty_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'treaty_id', v_treaty_id,
+    'reparations_paid', v_reparations,
+    'regions_ceded', v_ceded_count
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. End a treaty (lapse or repeal)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION end_community_treaty(
+  p_proposal_id UUID,
+  p_reason TEXT DEFAULT 'ended'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_treaty community_treaties%ROWTYPE;
+BEGIN
+  SELECT * INTO v_treaty
+  FROM community_treaties
+  WHERE proposal_id = p_proposal_id
+  FOR UPDATE;
+
+  IF v_treaty.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Treaty not found');
+  END IF;
+
+  IF v_treaty.status = 'ended' THEN
+    RETURN jsonb_build_object('success', true, 'already_ended', true);
+  END IF;
+
+  UPDATE community_treaties
+  SET status = 'ended',
+      ended_at = NOW(),
+      end_reason = p_reason
+  WHERE id = v_treaty.id;
+
+  -- When a ceasefire runs out the war resumes; peace simply leaves the parties neutral
+  IF v_treaty.treaty_type = 'ceasefire' THEN
+    UPDATE diplomacy_states
+    SET status = 'war',
+        updated_at = NOW()
+    WHERE status = 'ceasefire'
+      AND ((initiator_community_id = v_treaty.community_a_id AND target_community_id = v_treaty.community_b_id)
+        OR (initiator_community_id = v_treaty.community_b_id AND target_community_id = v_treaty.community_a_id));
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'treaty_id', v_treaty.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Treaties are only ever enacted or ended by law execution on the server
+REVOKE EXECUTE ON FUNCTION enact_community_treaty FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION enact_community_treaty FROM authenticated;
+GRANT EXECUTE ON FUNCTION enact_community_treaty TO service_role;
+
+REVOKE EXECUTE ON FUNCTION end_community_treaty FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION end_community_treaty FROM authenticated;
+GRANT EXECUTE ON FUNCTION end_community_treaty TO service_role;
+
+COMMENT ON TABLE community_treaties IS
+  'Peace treaties and ceasefires enacted by PROPOSE_PEACE and CEASEFIRE laws. Active treaties block war and battles between the parties.';
+COMMENT ON FUNCTION enact_community_treaty IS
+  'Atomically applies a treaty: pays reparations, cedes regions, updates diplomacy_states and records the treaty.';
+COMMENT ON FUNCTION end_community_treaty IS
+  'Ends a treaty when its law lapses or is repealed. An ended ceasefire returns the parties to war.';
@@ -0,0 +1,302 @@
+-- Region Transfers
+-- TRANSFER_REGION is a bilateral law that hands a region from the proposing
+-- community to another community, either as a gift (price 0) or as a sale.
+-- The receiving community must accept. The price is paid in gold or in the
+-- buyer's community currency, moving from treasury to treasury in the same
+-- transaction that changes world_regions ownership.
+
+-- ============================================================================
+-- 1. Law types and transaction types
+-- ============================================================================
+
+ALTER TABLE community_proposals DROP CONSTRAINT IF EXISTS law_type_valid;
+ALTER TABLE community_proposals ADD CONSTRAINT law_type_valid CHECK (
+  law_type IN (
+    'DECLARE_WAR',
+    'PROPOSE_HEIR',
+    'CHANGE_GOVERNANCE',
+    'MESSAGE_OF_THE_DAY',
+    'WORK_TAX',
+    'IMPORT_TARIFF',
+    'CFC_ALLIANCE',
+    'ISSUE_CURRENCY',
+    'REPEAL_LAW',
+    'AMEND_LAW',
+    'SPEND_TREASURY',
+    'PROPOSE_PEACE',
+    'CEASEFIRE',
+    'TRANSFER_REGION'
+  )
+);
+
+ALTER TABLE currency_transactions
+  DROP CONSTRAINT IF EXISTS currency_transactions_transaction_type_check;
+
+ALTER TABLE currency_transactions
+  ADD CONSTRAINT currency_transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    -- Original types
+    'transfer',
+    'exchange',
+    'reward',
+    'tax',
+    'purchase',
+    'sale',
+    -- Battle system
+    'battle_cost',
+    'battle_reward',
+    'medal_reward',
+    -- Training system
+    'training_cost',
+    'training_reward',
+    -- Company/Production system
+    'company_creation',
+    'production_cost',
+    'wage_payment',
+    -- P2P Exchange Market
+    'exchange_order_locked',
+    'exchange_order_filled',
+    'exchange_order_refunded',
+    -- Community treasury spending
+    'treasury_grant',
+    'treasury_stipend',
+    -- Diplomacy
+    'war_reparations',
+    'region_sale',
+    -- Future features
+    'loan_disbursement',
+    'loan_repayment',
+    'interest_payment',
+    'interest_earned',
+    -- Admin operations
+    'admin_grant',
+    'admin_deduction',
+    'admin_burn'
+  ));
+
+-- ============================================================================
+-- 2. Transfer history
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS community_region_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id UUID NOT NULL UNIQUE REFERENCES community_proposals(id) ON DELETE CASCADE,
+  hex_id TEXT NOT NULL,
+  from_community_id UUID NOT NULL REFERENCES communities(id) ON DELETE CASCADE, -- Seller (proposing community)
+  to_community_id UUID NOT NULL REFERENCES communities(id) ON DELETE CASCADE, -- Buyer (target community)
+  currency_type TEXT NOT NULL DEFAULT 'gold' CHECK (currency_type IN ('gold', 'community')),
+  community_currency_id UUID REFERENCES community_currencies(id) ON DELETE SET NULL,
+  price NUMERIC(20, 2) NOT NULL DEFAULT 0 CHECK (price >= 0), -- 0 = ceded without payment
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT community_region_transfers_distinct_parties CHECK (from_community_id <> to_community_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_community_region_transfers_hex
+  ON community_region_transfers(hex_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_community_region_transfers_from
+  ON community_region_transfers(from_community_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_community_region_transfers_to
+  ON community_region_transfers(to_community_id, created_at DESC);
+
+ALTER TABLE community_region_transfers ENABLE ROW LEVEL SECURITY;
+
+-- Region ownership is public, and so is how it changed hands
+DROP POLICY IF EXISTS "Anyone can view region transfers" ON community_region_transfers;
+CREATE POLICY "Anyone can view region transfers"
+  ON community_region_transfers FOR SELECT
+  USING (true);
+
+GRANT SELECT ON community_region_transfers TO anon, authenticated;
+
+-- The map listens for transfers to repaint ownership without reloading every region
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'community_region_transfers'
+  ) THEN
+    EXECUTE 'ALTER PUBLICATION supabase_realtime ADD TABLE public.community_region_transfers';
+  END IF;
+END $$;
+
+-- ============================================================================
+-- 3. Transfer a region
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION transfer_community_region(
+  p_proposal_id UUID,
+  p_hex_id TEXT,
+  p_from_community_id UUID,
+  p_to_community_id UUID,
+  p_currency_type TEXT DEFAULT 'gold',
+  p_community_currency_id UUID DEFAULT NULL,
+  p_price NUMERIC DEFAULT 0
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_owner_id UUID;
+  v_buyer_wallet_id UUID;
+  v_seller_wallet_id UUID;
+  v_balance NUMERIC;
+  v_price NUMERIC := COALESCE(p_price, 0);
+  v_transfer_id UUID;
+BEGIN
+  IF p_from_community_id = p_to_community_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A community cannot transfer a region to itself');
+  END IF;
+
+  IF v_price < 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Price cannot be negative');
+  END IF;
+
+  IF p_currency_type NOT IN ('gold', 'community')
+     OR (p_currency_type = 'community' AND p_community_currency_id IS NULL) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid currency');
+  END IF;
+
+  SELECT owner_community_id INTO v_owner_id
+  FROM world_regions
+  WHERE hex_id = p_hex_id
+  FOR UPDATE;
+
+  -- The region may have been conquered or ceded while the law was being voted on
+  IF v_owner_id IS DISTINCT FROM p_from_community_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The region is no longer held by the selling community');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM communities WHERE id = p_from_community_id AND capital_hex_id = p_hex_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A capital cannot be transferred');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM battles WHERE target_hex_id = p_hex_id AND status = 'active') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The region is under attack');
+  END IF;
+
+  -- The buyer pays from its treasury into the seller's treasury
+  IF v_price > 0 THEN
+    IF p_currency_type = 'gold' THEN
+      v_buyer_wallet_id := get_or_create_community_gold_wallet(p_to_community_id);
+      v_seller_wallet_id := get_or_create_community_gold_wallet(p_from_community_id);
+
+      SELECT gold_coins INTO v_balance
+      FROM community_wallets
+      WHERE id = v_buyer_wallet_id
+      FOR UPDATE;
+    ELSE
+      v_buyer_wallet_id := get_or_create_community_currency_wallet(p_to_community_id, p_community_currency_id);
+      v_seller_wallet_id := get_or_create_community_currency_wallet(p_from_community_id, p_community_currency_id);
+
+      SELECT community_coins INTO v_balance
+      FROM community_wallets
+      WHERE id = v_buyer_wallet_id
+      FOR UPDATE;
+    END IF;
+
+    IF COALESCE(v_balance, 0) < v_price THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', 'Insufficient funds in the buying treasury',
+        'current_balance', COALESCE(v_balance, 0),
+        'required', v_price
+      );
+    END IF;
+
+    IF p_currency_type = 'gold' THEN
+      UPDATE community_wallets
+      SET gold_coins = gold_coins - v_price,
+          updated_at = NOW()
+      WHERE id = v_buyer_wallet_id;
+
+      UPDATE community_wallets
+      SET gold_coins = gold_coins + v_price,
+          updated_at = NOW()
+      WHERE id = v_seller_wallet_id;
+    ELSE
+      UPDATE community_wallets
+      SET community_coins = community_coins - v_price,
+          updated_at = NOW()
+      WHERE id = v_buyer_wallet_id;
+
+      UPDATE community_wallets
+      SET community_coins = community_coins + v_price,
+          updated_at = NOW()
+      WHERE id = v_seller_wallet_id;
+    END IF;
+
+    INSERT INTO currency_transactions (
+      from_user_id,
+      to_user_id,
+      currency_type,
+      community_currency_id,
+      amount,
+      transaction_type,
+      description,
+      metadata,
+      scope
+    )
+    VALUES (
+      NULL,
+      NULL,
+      p_currency_type,
+      CASE WHEN p_currency_type = 'community' THEN p_community_currency_id ELSE NULL END,
+      v_price,
+      'region_sale',
+      'Purchase of region ' || p_hex_id,
+      jsonb_build_object(
+        'community_id', p_to_community_id,
+        'recipient_community_id', p_from_community_id,
+        'hex_id', p_hex_id,
+        'proposal_id', p_proposal_id
+      ),
+      'inter_community'
+    );
+  END IF;
+
+  -- last_conquered_at doubles as "acquired at", so the region leads the new owner's list
+  UPDATE world_regions
+  SET owner_community_id = p_to_community_id,
+      last_conquered_at = NOW()
+  WHERE hex_id = p_hex_id;
+
+  INSERT INTO community_region_transfers (
+    proposal_id,
+    hex_id,
+    from_community_id,
+    to_community_id,
+    currency_type,
+    community_currency_id,
+    price
+  )
+  VALUES (
+    p_proposal_id,
+    p_hex_id,
+    p_from_community_id,
+    p_to_community_id,
+    p_currency_type,
+    CASE WHEN p_currency_type = 'community' THEN p_community_currency_id ELSE NULL END,
+    v_price
+  )
+  RETURNING id INTO v_transfer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transfer_id', v_transfer_id,
+    'price_paid', v_price
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Regions only change hands by law execution on the server
+REVOKE EXECUTE ON FUNCTION transfer_community_region FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION transfer_community_region FROM authenticated;
+GRANT EXECUTE ON FUNCTION transfer_community_region TO service_role;
+
+COMMENT ON TABLE community_region_transfers IS
+  'Regions ceded or sold between communities by TRANSFER_REGION laws.';
+COMMENT ON FUNCTION transfer_community_region IS
+  'Atomically pays the price from the buyer treasury to the seller treasury and moves world_regions ownership.';
@@ -0,0 +1,340 @@
+-- Trade Embargoes
+-- EMBARGO is a unilateral law that cuts trade between the proposing community
+-- and a target community. While it is active the product market, the P2P
+-- currency exchange and job applications refuse trades between members of the
+-- two communities. An embargo may extend to the proposer's CFC allies, whose
+-- members are then sanctioned against the target as well.
+
+-- ============================================================================
+-- 1. Law type
+-- ============================================================================
+
+ALTER TABLE community_proposals DROP CONSTRAINT IF EXISTS law_type_valid;
+ALTER TABLE community_proposals ADD CONSTRAINT law_type_valid CHECK (
+  law_type IN (
+    'DECLARE_WAR',
+    'PROPOSE_HEIR',
+    'CHANGE_GOVERNANCE',
+    'MESSAGE_OF_THE_DAY',
+    'WORK_TAX',
+    'IMPORT_TARIFF',
+    'CFC_ALLIANCE',
+    'ISSUE_CURRENCY',
+    'REPEAL_LAW',
+    'AMEND_LAW',
+    'SPEND_TREASURY',
+    'PROPOSE_PEACE',
+    'CEASEFIRE',
+    'TRANSFER_REGION',
+    'EMBARGO'
+  )
+);
+
+-- ============================================================================
+-- 2. Embargoes
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS community_embargoes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id UUID NOT NULL UNIQUE REFERENCES community_proposals(id) ON DELETE CASCADE,
+  community_id UUID NOT NULL REFERENCES communities(id) ON DELETE CASCADE, -- Sanctioning community
+  target_community_id UUID NOT NULL REFERENCES communities(id) ON DELETE CASCADE, -- Sanctioned community
+  include_allies BOOLEAN NOT NULL DEFAULT false, -- Active CFC allies of the sanctioning community join the embargo
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'lifted')),
+  starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ends_at TIMESTAMPTZ, -- NULL = until repealed
+  lifted_at TIMESTAMPTZ,
+  lift_reason TEXT,
+  CONSTRAINT community_embargoes_distinct_parties CHECK (community_id <> target_community_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_community_embargoes_community
+  ON community_embargoes(community_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_community_embargoes_target
+  ON community_embargoes(target_community_id, status);
+
+ALTER TABLE community_embargoes ENABLE ROW LEVEL SECURITY;
+
+-- Sanctions are public so traders can see why a market is closed to them; only law execution writes
+DROP POLICY IF EXISTS "Anyone can view embargoes" ON community_embargoes;
+CREATE POLICY "Anyone can view embargoes"
+  ON community_embargoes FOR SELECT
+  USING (true);
+
+GRANT SELECT ON community_embargoes TO anon, authenticated;
+
+COMMENT ON TABLE community_embargoes IS
+  'Trade embargoes enacted by EMBARGO laws. Active embargoes block product purchases, currency exchange and job applications between the parties.';
+
+-- ============================================================================
+-- 3. Trade blocks
+-- ============================================================================
+
+-- Communities a user may not trade with: every active embargo their communities
+-- impose (directly or as allies of the sanctioner) or are the target of.
+-- Mirrors listTradeBlocks in lib/governance/embargoes.ts.
+CREATE OR REPLACE FUNCTION get_embargoed_community_ids(p_user_id UUID)
+RETURNS UUID[] AS $$
+  WITH own AS (
+    SELECT community_id FROM community_members
+    WHERE user_id = p_user_id AND left_at IS NULL
+    UNION
+    SELECT main_community_id FROM users
+    WHERE id = p_user_id AND main_community_id IS NOT NULL
+  ),
+  embargoes AS (
+    SELECT id, community_id, target_community_id, include_allies
+    FROM community_embargoes
+    WHERE status = 'active'
+      AND (ends_at IS NULL OR ends_at > NOW())
+  ),
+  sanctioners AS (
+    SELECT e.target_community_id, e.community_id AS sanctioner_id
+    FROM embargoes e
+    UNION
+    SELECT
+      e.target_community_id,
+      CASE WHEN a.initiator_community_id = e.community_id THEN a.target_community_id ELSE a.initiator_community_id END
+    FROM embargoes e
+    JOIN community_alliances a
+      ON a.status = 'active'
+     AND e.community_id IN (a.initiator_community_id, a.target_community_id)
+    WHERE e.include_allies
+  ),
+  blocked AS (
+    SELECT s.target_community_id AS community_id
+    FROM sanctioners s
+    JOIN own o ON o.community_id = s.sanctioner_id
+    WHERE s.sanctioner_id <> s.target_community_id
+    UNION
+    SELECT s.sanctioner_id
+    FROM sanctioners s
+    JOIN own o ON o.community_id = s.target_community_id
+    WHERE s.sanctioner_id <> s.target_community_id
+  )
+  SELECT COALESCE(array_agg(community_id), ARRAY[]::UUID[]) FROM blocked;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- True when an embargo stands between a user and a market's community or,
+-- when given, a counterparty's communities. Mirrors getEmbargoBlockReason in
+-- app/actions/market.ts, so trades that skip the server actions are refused too.
+CREATE OR REPLACE FUNCTION is_trade_embargoed(
+  p_user_id UUID,
+  p_community_id UUID,
+  p_counterparty_id UUID DEFAULT NULL
+) RETURNS BOOLEAN AS $$
+  WITH blocked AS (
+    SELECT get_embargoed_community_ids(p_user_id) AS community_ids
+  )
+  SELECT
+    COALESCE(p_community_id = ANY(b.community_ids), false)
+    OR EXISTS (
+      SELECT 1 FROM community_members cm
+      WHERE cm.user_id = p_counterparty_id
+        AND cm.left_at IS NULL
+        AND cm.community_id = ANY(b.community_ids)
+    )
+    OR EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = p_counterparty_id
+        AND u.main_community_id = ANY(b.community_ids)
+    )
+  FROM blocked b;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_embargoed_community_ids FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION get_embargoed_community_ids FROM authenticated;
+GRANT EXECUTE ON FUNCTION get_embargoed_community_ids TO service_role;
+
+REVOKE EXECUTE ON FUNCTION is_trade_embargoed FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION is_trade_embargoed FROM authenticated;
+GRANT EXECUTE ON FUNCTION is_trade_embargoed TO service_role;
+
+-- ============================================================================
+-- 4. Job applications
+-- ============================================================================
+
+-- apply_to_job as in 20270212, refusing jobs in communities the applicant is
+-- embargoed from
+CREATE OR REPLACE FUNCTION apply_to_job(
+  p_applicant_id UUID,
+  p_listing_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_listing RECORD;
+  v_company RECORD;
+  v_hex_owner_community_id UUID;
+  v_existing_contract UUID;
+  v_has_left_at BOOLEAN := false;
+  v_is_member BOOLEAN := false;
+  v_is_in_territory BOOLEAN := false;
+BEGIN
+  PERFORM set_config('row_security', 'off', true);
+
+  -- Ensure caller can only apply as themselves
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  IF v_public_user_id <> p_applicant_id THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  -- Get job listing
+  SELECT * INTO v_listing
+  FROM market_listings
+  WHERE id = p_listing_id
+    AND listing_type = 'job'
+    AND status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job listing not found or not active';
+  END IF;
+
+  -- Validate company + governance (companies follow hex ownership)
+  SELECT c.id, c.owner_id, c.hex_id
+  INTO v_company
+  FROM public.companies c
+  WHERE c.id = v_listing.company_id;
+
+  IF v_company.id IS NULL THEN
+    RAISE EXCEPTION 'Company not found';
+  END IF;
+
+  IF v_company.owner_id = p_applicant_id THEN
+    RAISE EXCEPTION 'You cannot be hired by your own company. Work there as manager instead.';
+  END IF;
+
+  SELECT wr.owner_community_id
+  INTO v_hex_owner_community_id
+  FROM public.world_regions wr
+  WHERE wr.hex_id = btrim(v_company.hex_id);
+
+  IF v_hex_owner_community_id IS NULL THEN
+    RAISE EXCEPTION 'This job is no longer available (company is in wilderness)';
+  END IF;
+
+  IF v_hex_owner_community_id <> v_listing.community_id THEN
+    RAISE EXCEPTION 'This job is no longer available (company governance changed)';
+  END IF;
+
+  IF is_trade_embargoed(p_applicant_id, v_listing.community_id) THEN
+    RAISE EXCEPTION 'Trade blocked: an embargo stands between you and this community';
+  END IF;
+
+  -- Check if user is a member of the community
+  SELECT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'community_members'
+      AND column_name = 'left_at'
+  ) INTO v_has_left_at;
+
+  IF v_has_left_at THEN
+    SELECT EXISTS (
+      SELECT 1
+      FROM public.community_members cm
+      WHERE cm.user_id = p_applicant_id
+        AND cm.community_id = v_listing.community_id
+        AND cm.left_at IS NULL
+    ) INTO v_is_member;
+  ELSE
+    SELECT EXISTS (
+      SELECT 1
+      FROM public.community_members cm
+      WHERE cm.user_id = p_applicant_id
+        AND cm.community_id = v_listing.community_id
+    ) INTO v_is_member;
+  END IF;
+
+  -- Check if user is in community territory using current_hex
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.users u
+    JOIN public.world_regions wr ON wr.hex_id = u.current_hex
+    WHERE u.id = p_applicant_id
+      AND wr.owner_community_id = v_listing.community_id
+  ) INTO v_is_in_territory;
+
+  -- Community members can apply from anywhere; non-members must be in territory
+  IF NOT v_is_member AND NOT v_is_in_territory THEN
+    RAISE EXCEPTION 'Travel to this community''s territory before applying to jobs here';
+  END IF;
+
+  IF v_listing.positions_available <= 0 THEN
+    RAISE EXCEPTION 'No positions available';
+  END IF;
+
+  -- Check if already employed at this company
+  SELECT id INTO v_existing_contract
+  FROM employment_contracts
+  WHERE company_id = v_listing.company_id
+    AND employee_id = p_applicant_id
+    AND employee_type = 'player'
+    AND active = true;
+
+  IF v_existing_contract IS NOT NULL THEN
+    RAISE EXCEPTION 'Already employed at this company';
+  END IF;
+
+  -- Create employment contract
+  INSERT INTO employment_contracts (
+    company_id,
+    employee_type,
+    employee_id,
+    wage_per_day_community_coin,
+    position
+  ) VALUES (
+    v_listing.company_id,
+    'player',
+    p_applicant_id,
+    v_listing.wage_per_day_community_coin,
+    v_listing.position_title
+  );
+
+  -- Decrement openings; when it hits 0, mark listing filled
+  UPDATE market_listings
+  SET
+    positions_available = GREATEST(positions_available - 1, 0),
+    status = CASE WHEN positions_available - 1 <= 0 THEN 'filled' ELSE status END,
+    updated_at = NOW()
+  WHERE id = p_listing_id;
+
+  -- Record in trade history using correct schema (amount_transferred JSONB)
+  INSERT INTO trade_history (
+    listing_id,
+    buyer_id,
+    seller_id,
+    trade_type,
+    amount_transferred
+  ) VALUES (
+    p_listing_id,
+    p_applicant_id,
+    v_company.owner_id,
+    'job',
+    jsonb_build_object(
+      'company_id', v_listing.company_id,
+      'position', v_listing.position_title,
+      'wage_cc', v_listing.wage_per_day_community_coin
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'company_id', v_listing.company_id,
+    'position', v_listing.position_title,
+    'wage_cc', v_listing.wage_per_day_community_coin
+  );
+END;
+$$;
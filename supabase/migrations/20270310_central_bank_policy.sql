@@ -0,0 +1,1105 @@
+-- Central Bank Monetary Policy
+-- ISSUE_CURRENCY mints a community currency; these laws manage it afterwards.
+--   MONETARY_POLICY sets the policy interest rate paid on savings deposits and
+--   the gold reserve ratio the treasury must hold against money in circulation.
+--   OPEN_MARKET_OPERATION has the treasury buy or sell its own currency against
+--   gold through an order on the P2P exchange book.
+-- Interest is minted (it grows total_supply) and accrues daily. A daily
+-- snapshot of each currency's money supply feeds the central bank dashboard.
+
+-- ============================================================================
+-- 1. Law types and transaction types
+-- ============================================================================
+
+ALTER TABLE community_proposals DROP CONSTRAINT IF EXISTS law_type_valid;
+ALTER TABLE community_proposals ADD CONSTRAINT law_type_valid CHECK (
+  law_type IN (
+    'DECLARE_WAR',
+    'PROPOSE_HEIR',
+    'CHANGE_GOVERNANCE',
+    'MESSAGE_OF_THE_DAY',
+    'WORK_TAX',
+    'IMPORT_TARIFF',
+    'CFC_ALLIANCE',
+    'ISSUE_CURRENCY',
+    'REPEAL_LAW',
+    'AMEND_LAW',
+    'SPEND_TREASURY',
+    'PROPOSE_PEACE',
+    'CEASEFIRE',
+    'TRANSFER_REGION',
+    'EMBARGO',
+    'MONETARY_POLICY',
+    'OPEN_MARKET_OPERATION'
+  )
+);
+
+ALTER TABLE currency_transactions
+  DROP CONSTRAINT IF EXISTS currency_transactions_transaction_type_check;
+
+ALTER TABLE currency_transactions
+  ADD CONSTRAINT currency_transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    -- Original types
+    'transfer',
+    'exchange',
+    'reward',
+    'tax',
+    'purchase',
+    'sale',
+    -- Battle system
+    'battle_cost',
+    'battle_reward',
+    'medal_reward',
+    -- Training system
+    'training_cost',
+    'training_reward',
+    -- Company/Production system
+    'company_creation',
+    'production_cost',
+    'wage_payment',
+    -- P2P Exchange Market
+    'exchange_order_locked',
+    'exchange_order_filled',
+    'exchange_order_refunded',
+    -- Community treasury spending
+    'treasury_grant',
+    'treasury_stipend',
+    -- Diplomacy
+    'war_reparations',
+    'region_sale',
+    -- Central bank
+    'savings_deposit',
+    'savings_withdrawal',
+    'interest_earned',
+    'open_market_operation',
+    -- Future features
+    'loan_disbursement',
+    'loan_repayment',
+    'interest_payment',
+    -- Admin operations
+    'admin_grant',
+    'admin_deduction',
+    'admin_burn'
+  ));
+
+-- ============================================================================
+-- 2. Policy, deposits and operations
+-- ============================================================================
+
+-- One policy per currency, written by MONETARY_POLICY execution
+CREATE TABLE IF NOT EXISTS community_monetary_policies (
+  community_currency_id UUID PRIMARY KEY REFERENCES community_currencies(id) ON DELETE CASCADE,
+  community_id UUID NOT NULL REFERENCES communities(id) ON DELETE CASCADE,
+  proposal_id UUID REFERENCES community_proposals(id) ON DELETE SET NULL,
+  policy_rate NUMERIC NOT NULL DEFAULT 0 CHECK (policy_rate >= 0 AND policy_rate <= 1), -- Annual rate on savings, 0.05 = 5%
+  reserve_ratio NUMERIC NOT NULL DEFAULT 0 CHECK (reserve_ratio >= 0 AND reserve_ratio <= 1), -- Gold held per unit of circulating money (valued in gold)
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_community_monetary_policies_community
+  ON community_monetary_policies(community_id);
+
+CREATE TABLE IF NOT EXISTS savings_deposits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  community_currency_id UUID NOT NULL REFERENCES community_currencies(id) ON DELETE CASCADE,
+  balance NUMERIC NOT NULL DEFAULT 0 CHECK (balance >= 0),
+  interest_earned NUMERIC NOT NULL DEFAULT 0 CHECK (interest_earned >= 0), -- Lifetime total
+  last_accrued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, community_currency_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_savings_deposits_currency
+  ON savings_deposits(community_currency_id)
+  WHERE balance > 0;
+
+CREATE TABLE IF NOT EXISTS open_market_operations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id UUID NOT NULL UNIQUE REFERENCES community_proposals(id) ON DELETE CASCADE,
+  community_id UUID NOT NULL REFERENCES communities(id) ON DELETE CASCADE,
+  community_currency_id UUID NOT NULL REFERENCES community_currencies(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES currency_exchange_orders(id) ON DELETE SET NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('buy', 'sell')), -- buy = treasury buys its currency with gold
+  gold_amount NUMERIC NOT NULL CHECK (gold_amount > 0),
+  currency_amount NUMERIC NOT NULL CHECK (currency_amount > 0),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'completed', 'cancelled')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_open_market_operations_currency
+  ON open_market_operations(community_currency_id, created_at DESC);
+
+-- Daily money supply, one row per currency per day
+CREATE TABLE IF NOT EXISTS currency_supply_snapshots (
+  community_currency_id UUID NOT NULL REFERENCES community_currencies(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL,
+  total_supply NUMERIC NOT NULL DEFAULT 0,
+  wallet_balance NUMERIC NOT NULL DEFAULT 0, -- Held by players
+  savings_balance NUMERIC NOT NULL DEFAULT 0, -- Deposited at the central bank
+  treasury_balance NUMERIC NOT NULL DEFAULT 0, -- Held by the community treasury
+  treasury_gold NUMERIC NOT NULL DEFAULT 0,
+  reference_rate NUMERIC, -- Gold per unit, volume-weighted over the day's trades (last known if none)
+  policy_rate NUMERIC NOT NULL DEFAULT 0,
+  PRIMARY KEY (community_currency_id, snapshot_date)
+);
+
+ALTER TABLE community_monetary_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE savings_deposits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE open_market_operations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE currency_supply_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Monetary policy is public; individual deposits are private to their owner
+DROP POLICY IF EXISTS "Anyone can view monetary policies" ON community_monetary_policies;
+CREATE POLICY "Anyone can view monetary policies"
+  ON community_monetary_policies FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view open market operations" ON open_market_operations;
+CREATE POLICY "Anyone can view open market operations"
+  ON open_market_operations FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view currency supply snapshots" ON currency_supply_snapshots;
+CREATE POLICY "Anyone can view currency supply snapshots"
+  ON currency_supply_snapshots FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can view their savings deposits" ON savings_deposits;
+CREATE POLICY "Users can view their savings deposits"
+  ON savings_deposits FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.id = savings_deposits.user_id
+        AND u.auth_id = auth.uid()
+    )
+  );
+
+GRANT SELECT ON community_monetary_policies TO anon, authenticated;
+GRANT SELECT ON open_market_operations TO anon, authenticated;
+GRANT SELECT ON currency_supply_snapshots TO anon, authenticated;
+GRANT SELECT ON savings_deposits TO authenticated;
+
+-- ============================================================================
+-- 3. Money supply figures
+-- ============================================================================
+
+-- Gold per unit of currency: the latest P2P trade, else the issuance rate
+CREATE OR REPLACE FUNCTION get_currency_reference_rate(p_community_currency_id UUID)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(
+    (
+      SELECT exchange_rate
+      FROM currency_exchange_trades
+      WHERE community_currency_id = p_community_currency_id
+      ORDER BY executed_at DESC
+      LIMIT 1
+    ),
+    (SELECT exchange_rate_to_gold FROM community_currencies WHERE id = p_community_currency_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_currency_monetary_stats(p_community_currency_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_currency RECORD;
+  v_policy RECORD;
+  v_wallet_balance NUMERIC;
+  v_savings_balance NUMERIC;
+  v_depositors INTEGER;
+  v_treasury_balance NUMERIC;
+  v_treasury_gold NUMERIC;
+  v_reference_rate NUMERIC;
+BEGIN
+  SELECT cc.id, cc.community_id, cc.currency_name, cc.currency_symbol, cc.total_supply, c.name AS community_name
+  INTO v_currency
+  FROM community_currencies cc
+  JOIN communities c ON c.id = cc.community_id
+  WHERE cc.id = p_community_currency_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT policy_rate, reserve_ratio, proposal_id, updated_at INTO v_policy
+  FROM community_monetary_policies
+  WHERE community_currency_id = p_community_currency_id;
+
+  SELECT COALESCE(SUM(community_coins), 0) INTO v_wallet_balance
+  FROM user_wallets
+  WHERE currency_type = 'community'
+    AND community_currency_id = p_community_currency_id;
+
+  SELECT COALESCE(SUM(balance), 0), COUNT(*) FILTER (WHERE balance > 0)
+  INTO v_savings_balance, v_depositors
+  FROM savings_deposits
+  WHERE community_currency_id = p_community_currency_id;
+
+  SELECT COALESCE(SUM(community_coins), 0) INTO v_treasury_balance
+  FROM community_wallets
+  WHERE community_id = v_currency.community_id
+    AND currency_type = 'community'
+    AND community_currency_id = p_community_currency_id;
+
+  v_treasury_gold := get_community_gold_balance(v_currency.community_id);
+  v_reference_rate := get_currency_reference_rate(p_community_currency_id);
+
+  RETURN jsonb_build_object(
+    'community_currency_id', v_currency.id,
+    'community_id', v_currency.community_id,
+    'community_name', v_currency.community_name,
+    'currency_name', v_currency.currency_name,
+    'currency_symbol', v_currency.currency_symbol,
+    'total_supply', COALESCE(v_currency.total_supply, 0),
+    'wallet_balance', v_wallet_balance,
+    'savings_balance', v_savings_balance,
+    'depositors', v_depositors,
+    'treasury_balance', v_treasury_balance,
+    'treasury_gold', v_treasury_gold,
+    'reference_rate', v_reference_rate,
+    'policy_rate', COALESCE(v_policy.policy_rate, 0),
+    'reserve_ratio', COALESCE(v_policy.reserve_ratio, 0),
+    'policy_proposal_id', v_policy.proposal_id,
+    'policy_updated_at', v_policy.updated_at
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_currency_supply_history(
+  p_community_currency_id UUID,
+  p_start_date TIMESTAMPTZ DEFAULT NOW() - INTERVAL '30 days',
+  p_end_date TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS SETOF currency_supply_snapshots AS $$
+  SELECT *
+  FROM currency_supply_snapshots
+  WHERE community_currency_id = p_community_currency_id
+    AND snapshot_date BETWEEN DATE(p_start_date) AND DATE(p_end_date)
+  ORDER BY snapshot_date ASC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_currency_reference_rate(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_currency_monetary_stats(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_currency_supply_history(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO anon, authenticated;
+
+-- ============================================================================
+-- 4. Savings deposits
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION deposit_savings(
+  p_user_id UUID,
+  p_community_currency_id UUID,
+  p_amount NUMERIC
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_wallet_id UUID;
+  v_wallet_balance NUMERIC;
+  v_new_balance NUMERIC;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  v_wallet_id := get_or_create_community_wallet(p_user_id, p_community_currency_id);
+
+  SELECT community_coins INTO v_wallet_balance
+  FROM user_wallets
+  WHERE id = v_wallet_id
+  FOR UPDATE;
+
+  IF COALESCE(v_wallet_balance, 0) < p_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Insufficient community currency (have: %s, need: %s)', COALESCE(v_wallet_balance, 0), p_amount)
+    );
+  END IF;
+
+  UPDATE user_wallets
+  SET community_coins = community_coins - p_amount,
+      updated_at = NOW()
+  WHERE id = v_wallet_id;
+
+  -- Interest owed on the old balance is settled by the next accrual run
+  INSERT INTO savings_deposits (user_id, community_currency_id, balance)
+  VALUES (p_user_id, p_community_currency_id, p_amount)
+  ON CONFLICT (user_id, community_currency_id) DO UPDATE
+    SET balance = savings_deposits.balance + EXCLUDED.balance,
+        updated_at = NOW()
+  RETURNING balance INTO v_new_balance;
+
+  INSERT INTO currency_transactions (
+    from_user_id, to_user_id, currency_type, community_currency_id,
+    amount, transaction_type, description, scope, metadata
+  ) VALUES (
+    p_user_id, NULL, 'community', p_community_currency_id,
+    p_amount, 'savings_deposit', 'Deposit to central bank savings', 'personal',
+    jsonb_build_object('savings_balance', v_new_balance)
+  );
+
+  RETURN jsonb_build_object('success', true, 'balance', v_new_balance);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION withdraw_savings(
+  p_user_id UUID,
+  p_community_currency_id UUID,
+  p_amount NUMERIC
+)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_wallet_id UUID;
+  v_balance NUMERIC;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT balance INTO v_balance
+  FROM savings_deposits
+  WHERE user_id = p_user_id
+    AND community_currency_id = p_community_currency_id
+  FOR UPDATE;
+
+  IF COALESCE(v_balance, 0) < p_amount THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Insufficient savings (have: %s, need: %s)', COALESCE(v_balance, 0), p_amount)
+    );
+  END IF;
+
+  UPDATE savings_deposits
+  SET balance = balance - p_amount,
+      updated_at = NOW()
+  WHERE user_id = p_user_id
+    AND community_currency_id = p_community_currency_id;
+
+  v_wallet_id := get_or_create_community_wallet(p_user_id, p_community_currency_id);
+
+  UPDATE user_wallets
+  SET community_coins = community_coins + p_amount,
+      updated_at = NOW()
+  WHERE id = v_wallet_id;
+
+  INSERT INTO currency_transactions (
+    from_user_id, to_user_id, currency_type, community_currency_id,
+    amount, transaction_type, description, scope, metadata
+  ) VALUES (
+    NULL, p_user_id, 'community', p_community_currency_id,
+    p_amount, 'savings_withdrawal', 'Withdrawal from central bank savings', 'personal',
+    jsonb_build_object('savings_balance', v_balance - p_amount)
+  );
+
+  RETURN jsonb_build_object('success', true, 'balance', v_balance - p_amount);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION deposit_savings(UUID, UUID, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION withdraw_savings(UUID, UUID, NUMERIC) TO authenticated;
+
+-- ============================================================================
+-- 5. Interest accrual and supply snapshots (daily)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION accrue_savings_interest()
+RETURNS INTEGER AS $$
+DECLARE
+  v_deposit RECORD;
+  v_interest NUMERIC;
+  v_credited INTEGER := 0;
+BEGIN
+  FOR v_deposit IN
+    SELECT d.id, d.user_id, d.community_currency_id, d.balance, d.last_accrued_at, p.policy_rate
+    FROM savings_deposits d
+    JOIN community_monetary_policies p ON p.community_currency_id = d.community_currency_id
+    WHERE d.balance > 0
+      AND p.policy_rate > 0
+    FOR UPDATE OF d
+  LOOP
+    -- Simple interest for the elapsed time, compounded at each run
+    v_interest := ROUND(
+      v_deposit.balance * v_deposit.policy_rate
+        * EXTRACT(EPOCH FROM (NOW() - v_deposit.last_accrued_at)) / (365 * 86400),
+      2
+    );
+
+    IF v_interest <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE savings_deposits
+    SET balance = balance + v_interest,
+        interest_earned = interest_earned + v_interest,
+        last_accrued_at = NOW(),
+        updated_at = NOW()
+    WHERE id = v_deposit.id;
+
+    -- Interest is new money
+    UPDATE community_currencies
+    SET total_supply = total_supply + v_interest,
+        updated_at = NOW()
+    WHERE id = v_deposit.community_currency_id;
+
+    INSERT INTO currency_transactions (
+      from_user_id, to_user_id, currency_type, community_currency_id,
+      amount, transaction_type, description, scope, metadata
+    ) VALUES (
+      NULL, v_deposit.user_id, 'community', v_deposit.community_currency_id,
+      v_interest, 'interest_earned', 'Savings interest', 'personal',
+      jsonb_build_object('policy_rate', v_deposit.policy_rate, 'savings_deposit_id', v_deposit.id)
+    );
+
+    v_credited := v_credited + 1;
+  END LOOP;
+
+  -- Deposits that earned nothing start their next period now
+  UPDATE savings_deposits d
+  SET last_accrued_at = NOW()
+  WHERE NOT EXISTS (
+    SELECT 1 FROM community_monetary_policies p
+    WHERE p.community_currency_id = d.community_currency_id
+      AND p.policy_rate > 0
+  );
+
+  RETURN v_credited;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION record_currency_supply_snapshots()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO currency_supply_snapshots (
+    community_currency_id,
+    snapshot_date,
+    total_supply,
+    wallet_balance,
+    savings_balance,
+    treasury_balance,
+    treasury_gold,
+    reference_rate,
+    policy_rate
+  )
+  SELECT
+    cc.id,
+    CURRENT_DATE,
+    COALESCE(cc.total_supply, 0),
+    COALESCE((
+      SELECT SUM(w.community_coins) FROM user_wallets w
+      WHERE w.currency_type = 'community' AND w.community_currency_id = cc.id
+    ), 0),
+    COALESCE((SELECT SUM(d.balance) FROM savings_deposits d WHERE d.community_currency_id = cc.id), 0),
+    COALESCE((
+      SELECT SUM(cw.community_coins) FROM community_wallets cw
+      WHERE cw.community_id = cc.community_id
+        AND cw.currency_type = 'community'
+        AND cw.community_currency_id = cc.id
+    ), 0),
+    get_community_gold_balance(cc.community_id),
+    COALESCE((
+      SELECT SUM(t.gold_amount) / NULLIF(SUM(t.currency_amount), 0)
+      FROM currency_exchange_trades t
+      WHERE t.community_currency_id = cc.id
+        AND t.executed_at >= NOW() - INTERVAL '1 day'
+    ), get_currency_reference_rate(cc.id)),
+    COALESCE((SELECT p.policy_rate FROM community_monetary_policies p WHERE p.community_currency_id = cc.id), 0)
+  FROM community_currencies cc
+  ON CONFLICT (community_currency_id, snapshot_date) DO UPDATE
+    SET total_supply = EXCLUDED.total_supply,
+        wallet_balance = EXCLUDED.wallet_balance,
+        savings_balance = EXCLUDED.savings_balance,
+        treasury_balance = EXCLUDED.treasury_balance,
+        treasury_gold = EXCLUDED.treasury_gold,
+        reference_rate = EXCLUDED.reference_rate,
+        policy_rate = EXCLUDED.policy_rate;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION accrue_savings_interest FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION accrue_savings_interest FROM authenticated;
+GRANT EXECUTE ON FUNCTION accrue_savings_interest TO service_role;
+REVOKE EXECUTE ON FUNCTION record_currency_supply_snapshots FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_currency_supply_snapshots FROM authenticated;
+GRANT EXECUTE ON FUNCTION record_currency_supply_snapshots TO service_role;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('central-bank-daily');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL;  -- Ignore if job doesn't exist
+END $$;
+
+SELECT cron.schedule(
+  'central-bank-daily',
+  '5 0 * * *',  -- Every day at 00:05
+  $$
+  SELECT public.accrue_savings_interest();
+  SELECT public.record_currency_supply_snapshots();
+  $$
+);
+
+-- ============================================================================
+-- 6. Open-market operations
+-- ============================================================================
+
+-- Place the treasury's order on the P2P book. The order carries the proposer as
+-- its user (orders need one) but settles against the community treasury.
+CREATE OR REPLACE FUNCTION place_open_market_operation(
+  p_proposal_id UUID,
+  p_community_id UUID,
+  p_user_id UUID,
+  p_operation TEXT,
+  p_gold_amount NUMERIC,
+  p_currency_amount NUMERIC
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_currency_id UUID;
+  v_gold_wallet_id UUID;
+  v_currency_wallet_id UUID;
+  v_balance NUMERIC;
+  v_reserve_ratio NUMERIC;
+  v_required_gold NUMERIC;
+  v_circulating NUMERIC;
+  v_order_id UUID;
+  v_operation_id UUID;
+BEGIN
+  IF p_operation NOT IN ('buy', 'sell') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Operation must be buy or sell');
+  END IF;
+
+  IF p_gold_amount <= 0 OR p_currency_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Amounts must be positive');
+  END IF;
+
+  SELECT id INTO v_currency_id
+  FROM community_currencies
+  WHERE community_id = p_community_id;
+
+  IF v_currency_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No currency found for community');
+  END IF;
+
+  IF p_operation = 'buy' THEN
+    -- Buying back currency spends treasury gold, which must stay above the reserve requirement
+    v_gold_wallet_id := get_or_create_community_gold_wallet(p_community_id);
+
+    SELECT gold_coins INTO v_balance
+    FROM community_wallets
+    WHERE id = v_gold_wallet_id
+    FOR UPDATE;
+
+    IF COALESCE(v_balance, 0) < p_gold_amount THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', 'Insufficient gold in treasury',
+        'current_balance', COALESCE(v_balance, 0),
+        'required', p_gold_amount
+      );
+    END IF;
+
+    SELECT COALESCE(reserve_ratio, 0) INTO v_reserve_ratio
+    FROM community_monetary_policies
+    WHERE community_currency_id = v_currency_id;
+
+    IF COALESCE(v_reserve_ratio, 0) > 0 THEN
+      SELECT
+        COALESCE((
+          SELECT SUM(community_coins) FROM user_wallets
+          WHERE currency_type = 'community' AND community_currency_id = v_currency_id
+        ), 0)
+        + COALESCE((SELECT SUM(balance) FROM savings_deposits WHERE community_currency_id = v_currency_id), 0)
+      INTO v_circulating;
+
+      v_required_gold := v_reserve_ratio
+        * GREATEST(v_circulating - p_currency_amount, 0)
+        * get_currency_reference_rate(v_currency_id);
+
+      IF v_balance - p_gold_amount < v_required_gold THEN
+        RETURN jsonb_build_object(
+          'success', false,
+          'error', format('The operation would leave gold reserves below the %s%% reserve requirement', ROUND(v_reserve_ratio * 100, 2)),
+          'required_reserve', v_required_gold
+        );
+      END IF;
+    END IF;
+
+    UPDATE community_wallets
+    SET gold_coins = gold_coins - p_gold_amount,
+        updated_at = NOW()
+    WHERE id = v_gold_wallet_id;
+  ELSE
+    v_currency_wallet_id := get_or_create_community_currency_wallet(p_community_id, v_currency_id);
+
+    SELECT community_coins INTO v_balance
+    FROM community_wallets
+    WHERE id = v_currency_wallet_id
+    FOR UPDATE;
+
+    IF COALESCE(v_balance, 0) < p_currency_amount THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', 'Insufficient currency in treasury',
+        'current_balance', COALESCE(v_balance, 0),
+        'required', p_currency_amount
+      );
+    END IF;
+
+    UPDATE community_wallets
+    SET community_coins = community_coins - p_currency_amount,
+        updated_at = NOW()
+    WHERE id = v_currency_wallet_id;
+  END IF;
+
+  INSERT INTO currency_exchange_orders (
+    user_id,
+    community_currency_id,
+    order_type,
+    gold_amount,
+    currency_amount,
+    exchange_rate,
+    filled_gold_amount,
+    status,
+    source_account,
+    metadata
+  ) VALUES (
+    p_user_id,
+    v_currency_id,
+    p_operation,
+    p_gold_amount,
+    p_currency_amount,
+    p_gold_amount / p_currency_amount,
+    0,
+    'active',
+    'treasury',
+    jsonb_build_object(
+      'community_id', p_community_id,
+      'proposal_id', p_proposal_id,
+      'operation', 'open_market'
+    )
+  )
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO open_market_operations (
+    proposal_id, community_id, community_currency_id, order_id, operation, gold_amount, currency_amount
+  ) VALUES (
+    p_proposal_id, p_community_id, v_currency_id, v_order_id, p_operation, p_gold_amount, p_currency_amount
+  )
+  RETURNING id INTO v_operation_id;
+
+  INSERT INTO currency_transactions (
+    from_user_id, to_user_id, currency_type, community_currency_id,
+    amount, transaction_type, description, scope, metadata
+  ) VALUES (
+    NULL, NULL,
+    CASE WHEN p_operation = 'buy' THEN 'gold' ELSE 'community' END,
+    CASE WHEN p_operation = 'buy' THEN NULL ELSE v_currency_id END,
+    CASE WHEN p_operation = 'buy' THEN p_gold_amount ELSE p_currency_amount END,
+    'open_market_operation',
+    CASE WHEN p_operation = 'buy'
+      THEN format('Open-market purchase of %s currency for %s gold', p_currency_amount, p_gold_amount)
+      ELSE format('Open-market sale of %s currency for %s gold', p_currency_amount, p_gold_amount)
+    END,
+    'community',
+    jsonb_build_object(
+      'community_id', p_community_id,
+      'proposal_id', p_proposal_id,
+      'order_id', v_order_id,
+      'operation', p_operation
+    )
+  );
+
+  RETURN jsonb_build_object('success', true, 'operation_id', v_operation_id, 'order_id', v_order_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Withdraw the unfilled part of an operation's order and return it to the treasury
+CREATE OR REPLACE FUNCTION cancel_open_market_operation(p_proposal_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_operation RECORD;
+  v_order RECORD;
+  v_gold_refund NUMERIC := 0;
+  v_currency_refund NUMERIC := 0;
+  v_wallet_id UUID;
+BEGIN
+  SELECT * INTO v_operation
+  FROM open_market_operations
+  WHERE proposal_id = p_proposal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Operation not found');
+  END IF;
+
+  IF v_operation.status <> 'open' THEN
+    RETURN jsonb_build_object('success', true, 'gold_refunded', 0, 'currency_refunded', 0);
+  END IF;
+
+  -- Marked first so the order guard lets the cancellation through
+  UPDATE open_market_operations
+  SET status = 'cancelled',
+      closed_at = NOW()
+  WHERE id = v_operation.id;
+
+  SELECT * INTO v_order
+  FROM currency_exchange_orders
+  WHERE id = v_operation.order_id
+    AND status IN ('active', 'partially_filled')
+  FOR UPDATE;
+
+  IF FOUND THEN
+    v_gold_refund := v_order.gold_amount - v_order.filled_gold_amount;
+    v_currency_refund := v_gold_refund / v_order.exchange_rate;
+
+    IF v_operation.operation = 'buy' THEN
+      v_wallet_id := get_or_create_community_gold_wallet(v_operation.community_id);
+
+      UPDATE community_wallets
+      SET gold_coins = gold_coins + v_gold_refund,
+          updated_at = NOW()
+      WHERE id = v_wallet_id;
+      v_currency_refund := 0;
+    ELSE
+      v_wallet_id := get_or_create_community_currency_wallet(v_operation.community_id, v_operation.community_currency_id);
+
+      UPDATE community_wallets
+      SET community_coins = community_coins + v_currency_refund,
+          updated_at = NOW()
+      WHERE id = v_wallet_id;
+      v_gold_refund := 0;
+    END IF;
+
+    UPDATE currency_exchange_orders
+    SET status = 'cancelled',
+        updated_at = NOW()
+    WHERE id = v_order.id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'gold_refunded', v_gold_refund,
+    'currency_refunded', v_currency_refund
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION place_open_market_operation FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION place_open_market_operation FROM authenticated;
+GRANT EXECUTE ON FUNCTION place_open_market_operation TO service_role;
+REVOKE EXECUTE ON FUNCTION cancel_open_market_operation FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION cancel_open_market_operation FROM authenticated;
+GRANT EXECUTE ON FUNCTION cancel_open_market_operation TO service_role;
+
+-- ============================================================================
+-- 7. Settle treasury orders against the treasury
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION accept_exchange_order(
+  p_taker_user_id UUID,
+  p_order_id UUID,
+  p_gold_amount NUMERIC
+) RETURNS TABLE (
+  trade_id UUID,
+  success BOOLEAN,
+  message TEXT
+)
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_order RECORD;
+  v_currency_amount NUMERIC;
+  v_new_trade_id UUID;
+  v_taker_gold NUMERIC;
+  v_taker_cc NUMERIC;
+  v_community_id UUID;
+  v_is_in_territory BOOLEAN;
+  v_remaining_gold NUMERIC;
+  v_treasury_community_id UUID;
+  v_treasury_wallet_id UUID;
+BEGIN
+  PERFORM set_config('row_security', 'off', true);
+
+  -- Verify caller
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, 'User profile not found';
+    RETURN;
+  END IF;
+
+  IF v_public_user_id <> p_taker_user_id THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, 'Not authorized';
+    RETURN;
+  END IF;
+
+  -- Get order details
+  SELECT * INTO v_order
+  FROM currency_exchange_orders
+  WHERE id = p_order_id
+    AND status IN ('active', 'partially_filled')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, 'Order not found or not active';
+    RETURN;
+  END IF;
+
+  -- Can't trade with yourself
+  IF v_order.user_id = p_taker_user_id THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, 'Cannot trade with yourself';
+    RETURN;
+  END IF;
+
+  -- Open-market operations settle against the community treasury, not the proposer
+  IF v_order.source_account = 'treasury' AND v_order.metadata ? 'community_id' THEN
+    v_treasury_community_id := (v_order.metadata->>'community_id')::UUID;
+  END IF;
+
+  -- Get community ID
+  SELECT community_id INTO v_community_id
+  FROM community_currencies
+  WHERE id = v_order.community_currency_id;
+
+  IF is_trade_embargoed(p_taker_user_id, v_community_id, v_order.user_id) THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, 'Trade blocked: an embargo stands between you and this order';
+    RETURN;
+  END IF;
+
+  -- Validate taker is in community territory
+  SELECT is_user_in_community_territory(p_taker_user_id, v_community_id) INTO v_is_in_territory;
+
+  IF NOT v_is_in_territory THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, 'You must be in this community''s territory to trade their currency';
+    RETURN;
+  END IF;
+
+  v_remaining_gold := v_order.gold_amount - v_order.filled_gold_amount;
+
+  -- Validate gold amount
+  IF p_gold_amount <= 0 THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, 'Gold amount must be positive';
+    RETURN;
+  END IF;
+
+  IF p_gold_amount > v_remaining_gold THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, format('Cannot accept more than remaining gold (max: %s)', v_remaining_gold);
+    RETURN;
+  END IF;
+
+  -- Calculate corresponding currency amount
+  v_currency_amount := p_gold_amount / v_order.exchange_rate;
+
+  -- Ensure wallets exist
+  PERFORM get_or_create_gold_wallet(p_taker_user_id);
+  PERFORM get_or_create_community_wallet(p_taker_user_id, v_order.community_currency_id);
+
+  -- Get taker's balances
+  SELECT gold_coins INTO v_taker_gold
+  FROM user_wallets
+  WHERE user_id = p_taker_user_id
+    AND currency_type = 'gold';
+
+  SELECT community_coins INTO v_taker_cc
+  FROM user_wallets
+  WHERE user_id = p_taker_user_id
+    AND currency_type = 'community'
+    AND community_currency_id = v_order.community_currency_id;
+
+  v_taker_gold := COALESCE(v_taker_gold, 0);
+  v_taker_cc := COALESCE(v_taker_cc, 0);
+
+  -- Process based on order type
+  IF v_order.order_type = 'buy' THEN
+    -- Maker is buying currency (taker is selling)
+    IF v_taker_cc < v_currency_amount THEN
+      RETURN QUERY SELECT NULL::UUID, FALSE, format('Insufficient community currency (have: %s, need: %s)', v_taker_cc, v_currency_amount);
+      RETURN;
+    END IF;
+
+    -- Taker gives currency, gets gold
+    UPDATE user_wallets
+    SET community_coins = community_coins - v_currency_amount,
+        updated_at = NOW()
+    WHERE user_id = p_taker_user_id
+      AND currency_type = 'community'
+      AND community_currency_id = v_order.community_currency_id;
+
+    UPDATE user_wallets
+    SET gold_coins = gold_coins + p_gold_amount,
+        updated_at = NOW()
+    WHERE user_id = p_taker_user_id
+      AND currency_type = 'gold';
+
+    -- Maker gets currency (gold was already escrowed)
+    IF v_treasury_community_id IS NOT NULL THEN
+      v_treasury_wallet_id := get_or_create_community_currency_wallet(v_treasury_community_id, v_order.community_currency_id);
+
+      UPDATE community_wallets
+      SET community_coins = community_coins + v_currency_amount,
+          updated_at = NOW()
+      WHERE id = v_treasury_wallet_id;
+    ELSE
+      UPDATE user_wallets
+      SET community_coins = community_coins + v_currency_amount,
+          updated_at = NOW()
+      WHERE user_id = v_order.user_id
+        AND currency_type = 'community'
+        AND community_currency_id = v_order.community_currency_id;
+    END IF;
+  ELSE
+    -- Maker is selling currency (taker is buying)
+    IF v_taker_gold < p_gold_amount THEN
+      RETURN QUERY SELECT NULL::UUID, FALSE, format('Insufficient gold (have: %s, need: %s)', v_taker_gold, p_gold_amount);
+      RETURN;
+    END IF;
+
+    -- Taker gives gold, gets currency
+    UPDATE user_wallets
+    SET gold_coins = gold_coins - p_gold_amount,
+        updated_at = NOW()
+    WHERE user_id = p_taker_user_id
+      AND currency_type = 'gold';
+
+    UPDATE user_wallets
+    SET community_coins = community_coins + v_currency_amount,
+        updated_at = NOW()
+    WHERE user_id = p_taker_user_id
+      AND currency_type = 'community'
+      AND community_currency_id = v_order.community_currency_id;
+
+    -- Maker gets gold (currency was already escrowed)
+    IF v_treasury_community_id IS NOT NULL THEN
+      v_treasury_wallet_id := get_or_create_community_gold_wallet(v_treasury_community_id);
+
+      UPDATE community_wallets
+      SET gold_coins = gold_coins + p_gold_amount,
+          updated_at = NOW()
+      WHERE id = v_treasury_wallet_id;
+    ELSE
+      UPDATE user_wallets
+      SET gold_coins = gold_coins + p_gold_amount,
+          updated_at = NOW()
+      WHERE user_id = v_order.user_id
+        AND currency_type = 'gold';
+    END IF;
+  END IF;
+
+  UPDATE currency_exchange_orders
+  SET
+    filled_gold_amount = filled_gold_amount + p_gold_amount,
+    status = CASE
+      WHEN (filled_gold_amount + p_gold_amount) >= gold_amount THEN 'filled'
+      ELSE 'partially_filled'
+    END,
+    updated_at = NOW()
+  WHERE id = p_order_id;
+
+  IF v_treasury_community_id IS NOT NULL AND p_gold_amount >= v_remaining_gold THEN
+    UPDATE open_market_operations
+    SET status = 'completed',
+        closed_at = NOW()
+    WHERE order_id = p_order_id
+      AND status = 'open';
+  END IF;
+
+  -- Record trade
+  INSERT INTO currency_exchange_trades (
+    order_id,
+    maker_user_id,
+    taker_user_id,
+    community_currency_id,
+    gold_amount,
+    currency_amount,
+    exchange_rate
+  ) VALUES (
+    p_order_id,
+    v_order.user_id,
+    p_taker_user_id,
+    v_order.community_currency_id,
+    p_gold_amount,
+    v_currency_amount,
+    v_order.exchange_rate
+  )
+  RETURNING id INTO v_new_trade_id;
+
+  RETURN QUERY SELECT v_new_trade_id, TRUE, 'Trade executed successfully';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_exchange_order(UUID, UUID, NUMERIC) TO authenticated;
+
+-- Central bank orders are withdrawn by repealing their law, not by the proposer
+CREATE OR REPLACE FUNCTION prevent_open_market_order_cancellation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'cancelled'
+     AND OLD.status IN ('active', 'partially_filled')
+     AND OLD.source_account = 'treasury'
+     AND OLD.metadata->>'operation' = 'open_market'
+     AND NOT EXISTS (
+       SELECT 1 FROM open_market_operations
+       WHERE order_id = OLD.id AND status = 'cancelled'
+     ) THEN
+    RAISE EXCEPTION 'Open-market orders can only be withdrawn by repealing their law';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_open_market_orders ON currency_exchange_orders;
+CREATE TRIGGER protect_open_market_orders
+  BEFORE UPDATE OF status ON currency_exchange_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_open_market_order_cancellation();
+
+COMMENT ON TABLE community_monetary_policies IS
+  'Policy interest rate and gold reserve ratio per community currency, set by MONETARY_POLICY laws.';
+COMMENT ON TABLE savings_deposits IS
+  'Community currency deposited at the central bank. Earns the policy rate, minted daily.';
+COMMENT ON TABLE open_market_operations IS
+  'Treasury orders on the P2P exchange placed by OPEN_MARKET_OPERATION laws.';
+COMMENT ON TABLE currency_supply_snapshots IS
+  'Daily money supply per community currency for the central bank dashboard.';
+COMMENT ON FUNCTION place_open_market_operation IS
+  'Locks treasury gold or currency and posts it as a treasury order on the P2P book. Buys must respect the reserve ratio.';
+COMMENT ON FUNCTION cancel_open_market_operation IS
+  'Cancels the unfilled part of an open-market order and refunds the treasury. Called when the law is repealed or lapses.';
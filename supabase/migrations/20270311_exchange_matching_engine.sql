@@ -0,0 +1,816 @@
+-- P2P Exchange Matching Engine
+-- Orders used to rest on the book until someone picked one by hand through
+-- accept_exchange_order. New orders now match automatically:
+--   * Limit orders cross the opposite side of the book with price-time
+--     priority (best price first, oldest first at a price) and rest with
+--     whatever is left. Partial fills are tracked on both orders.
+--   * Market orders sweep the book up to a slippage limit from the best price
+--     and never rest; the unfilled part is refunded.
+-- Fills execute at the resting (maker) order's price. A buyer that crosses
+-- below its limit gets the escrowed gold above the fill price back.
+-- Every fill writes a trade print to currency_exchange_trades, and
+-- get_exchange_rate_history builds its candles from those prints.
+--
+-- Rates are gold per unit of currency (gold_amount / currency_amount), and
+-- filled_gold_amount is measured at each order's own rate, so the currency
+-- left on an order is always (gold_amount - filled_gold_amount) / exchange_rate.
+
+-- ============================================================================
+-- 1. Order kinds and trade prints
+-- ============================================================================
+
+ALTER TABLE currency_exchange_orders
+  ADD COLUMN IF NOT EXISTS order_kind TEXT NOT NULL DEFAULT 'limit'
+    CHECK (order_kind IN ('limit', 'market'));
+
+-- Matching walks one side of one currency's book by price, then time
+CREATE INDEX IF NOT EXISTS idx_exchange_orders_matching
+  ON currency_exchange_orders(community_currency_id, order_type, exchange_rate, created_at)
+  WHERE status IN ('active', 'partially_filled');
+
+ALTER TABLE currency_exchange_trades
+  ADD COLUMN IF NOT EXISTS taker_order_id UUID REFERENCES currency_exchange_orders(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS taker_side TEXT CHECK (taker_side IN ('buy', 'sell'));
+
+-- Trades taken by hand before the engine: the taker was on the other side of the order
+UPDATE currency_exchange_trades t
+SET taker_side = CASE WHEN o.order_type = 'buy' THEN 'sell' ELSE 'buy' END
+FROM currency_exchange_orders o
+WHERE o.id = t.order_id
+  AND t.taker_side IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_exchange_trades_taker_order
+  ON currency_exchange_trades(taker_order_id)
+  WHERE taker_order_id IS NOT NULL;
+
+-- accept_exchange_order does not know about sides; derive it from the order it takes
+CREATE OR REPLACE FUNCTION set_exchange_trade_side()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.taker_side IS NULL THEN
+    SELECT CASE WHEN order_type = 'buy' THEN 'sell' ELSE 'buy' END
+    INTO NEW.taker_side
+    FROM currency_exchange_orders
+    WHERE id = NEW.order_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_exchange_trade_side ON currency_exchange_trades;
+CREATE TRIGGER set_exchange_trade_side
+  BEFORE INSERT ON currency_exchange_trades
+  FOR EACH ROW
+  EXECUTE FUNCTION set_exchange_trade_side();
+
+-- ============================================================================
+-- 2. Internal helpers
+-- ============================================================================
+
+-- Error message when a user may not trade a currency, NULL when they may
+CREATE OR REPLACE FUNCTION check_exchange_trader(
+  p_user_id UUID,
+  p_community_currency_id UUID
+) RETURNS TEXT AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_community_id UUID;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL THEN
+    RETURN 'User profile not found';
+  END IF;
+
+  IF v_public_user_id <> p_user_id THEN
+    RETURN 'Not authorized';
+  END IF;
+
+  SELECT community_id INTO v_community_id
+  FROM community_currencies
+  WHERE id = p_community_currency_id;
+
+  IF v_community_id IS NULL THEN
+    RETURN 'Community currency not found';
+  END IF;
+
+  IF NOT is_user_in_community_territory(p_user_id, v_community_id) THEN
+    RETURN 'You must be in this community''s territory to trade their currency';
+  END IF;
+
+  IF is_trade_embargoed(p_user_id, v_community_id) THEN
+    RETURN 'Trade blocked: an embargo stands between you and this community';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Pay gold or currency into the account behind an order: the treasury for
+-- open-market orders, otherwise the user's wallet
+CREATE OR REPLACE FUNCTION credit_exchange_account(
+  p_order currency_exchange_orders,
+  p_asset TEXT,
+  p_amount NUMERIC
+) RETURNS VOID AS $$
+DECLARE
+  v_wallet_id UUID;
+BEGIN
+  IF p_amount <= 0 THEN
+    RETURN;
+  END IF;
+
+  IF p_order.source_account = 'treasury' AND p_order.metadata ? 'community_id' THEN
+    IF p_asset = 'gold' THEN
+      v_wallet_id := get_or_create_community_gold_wallet((p_order.metadata->>'community_id')::UUID);
+
+      UPDATE community_wallets
+      SET gold_coins = gold_coins + p_amount,
+          updated_at = NOW()
+      WHERE id = v_wallet_id;
+    ELSE
+      v_wallet_id := get_or_create_community_currency_wallet(
+        (p_order.metadata->>'community_id')::UUID,
+        p_order.community_currency_id
+      );
+
+      UPDATE community_wallets
+      SET community_coins = community_coins + p_amount,
+          updated_at = NOW()
+      WHERE id = v_wallet_id;
+    END IF;
+  ELSIF p_asset = 'gold' THEN
+    v_wallet_id := get_or_create_gold_wallet(p_order.user_id);
+
+    UPDATE user_wallets
+    SET gold_coins = gold_coins + p_amount,
+        updated_at = NOW()
+    WHERE id = v_wallet_id;
+  ELSE
+    v_wallet_id := get_or_create_community_wallet(p_order.user_id, p_order.community_currency_id);
+
+    UPDATE user_wallets
+    SET community_coins = community_coins + p_amount,
+        updated_at = NOW()
+    WHERE id = v_wallet_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Lock the user's gold (buy) or currency (sell) and post the order
+CREATE OR REPLACE FUNCTION escrow_exchange_order(
+  p_user_id UUID,
+  p_community_currency_id UUID,
+  p_order_type TEXT,
+  p_order_kind TEXT,
+  p_gold_amount NUMERIC,
+  p_currency_amount NUMERIC,
+  p_source_account TEXT,
+  OUT o_order_id UUID,
+  OUT o_error TEXT
+) AS $$
+DECLARE
+  v_gold_wallet_id UUID;
+  v_currency_wallet_id UUID;
+  v_balance NUMERIC;
+BEGIN
+  IF p_order_type NOT IN ('buy', 'sell') THEN
+    o_error := 'Invalid order type (must be ''buy'' or ''sell'')';
+    RETURN;
+  END IF;
+
+  IF p_gold_amount <= 0 OR p_currency_amount <= 0 THEN
+    o_error := 'Amounts must be positive';
+    RETURN;
+  END IF;
+
+  IF p_order_type = 'buy' THEN
+    v_gold_wallet_id := get_or_create_gold_wallet(p_user_id);
+
+    SELECT gold_coins INTO v_balance
+    FROM user_wallets
+    WHERE id = v_gold_wallet_id
+    FOR UPDATE;
+
+    IF COALESCE(v_balance, 0) < p_gold_amount THEN
+      o_error := format('Insufficient gold (have: %s, need: %s)', COALESCE(v_balance, 0), p_gold_amount);
+      RETURN;
+    END IF;
+
+    UPDATE user_wallets
+    SET gold_coins = gold_coins - p_gold_amount,
+        updated_at = NOW()
+    WHERE id = v_gold_wallet_id;
+  ELSE
+    v_currency_wallet_id := get_or_create_community_wallet(p_user_id, p_community_currency_id);
+
+    SELECT community_coins INTO v_balance
+    FROM user_wallets
+    WHERE id = v_currency_wallet_id
+    FOR UPDATE;
+
+    IF COALESCE(v_balance, 0) < p_currency_amount THEN
+      o_error := format('Insufficient community currency (have: %s, need: %s)', COALESCE(v_balance, 0), p_currency_amount);
+      RETURN;
+    END IF;
+
+    UPDATE user_wallets
+    SET community_coins = community_coins - p_currency_amount,
+        updated_at = NOW()
+    WHERE id = v_currency_wallet_id;
+  END IF;
+
+  INSERT INTO currency_exchange_orders (
+    user_id,
+    community_currency_id,
+    order_type,
+    order_kind,
+    gold_amount,
+    currency_amount,
+    exchange_rate,
+    filled_gold_amount,
+    status,
+    source_account
+  ) VALUES (
+    p_user_id,
+    p_community_currency_id,
+    p_order_type,
+    p_order_kind,
+    p_gold_amount,
+    p_currency_amount,
+    p_gold_amount / p_currency_amount,
+    0,
+    'active',
+    COALESCE(p_source_account, 'personal')
+  )
+  RETURNING id INTO o_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Best resting price the user could trade against on one side of the book.
+-- Skips their own orders and orders from communities they are embargoed from.
+CREATE OR REPLACE FUNCTION get_best_exchange_rate(
+  p_community_currency_id UUID,
+  p_resting_side TEXT,
+  p_user_id UUID
+) RETURNS NUMERIC AS $$
+  WITH excluded AS (
+    SELECT get_embargoed_community_ids(p_user_id) AS community_ids
+  )
+  SELECT CASE WHEN p_resting_side = 'sell' THEN MIN(o.exchange_rate) ELSE MAX(o.exchange_rate) END
+  FROM currency_exchange_orders o
+  JOIN users u ON u.id = o.user_id
+  CROSS JOIN excluded x
+  WHERE o.community_currency_id = p_community_currency_id
+    AND o.order_type = p_resting_side
+    AND o.order_kind = 'limit'
+    AND o.status IN ('active', 'partially_filled')
+    AND o.gold_amount > o.filled_gold_amount
+    AND o.expires_at > NOW()
+    AND o.user_id <> p_user_id
+    AND NOT COALESCE(u.main_community_id = ANY(x.community_ids), FALSE)
+    AND NOT EXISTS (
+      SELECT 1 FROM community_members m
+      WHERE m.user_id = o.user_id
+        AND m.left_at IS NULL
+        AND m.community_id = ANY(x.community_ids)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- 3. Fills
+-- ============================================================================
+
+-- Settle one fill of p_currency_amount between a resting order and the
+-- incoming order that crossed it, at the resting order's price
+CREATE OR REPLACE FUNCTION settle_exchange_fill(
+  p_maker currency_exchange_orders,
+  p_taker currency_exchange_orders,
+  p_currency_amount NUMERIC
+) RETURNS UUID AS $$
+DECLARE
+  v_buyer currency_exchange_orders;
+  v_seller currency_exchange_orders;
+  v_gold_amount NUMERIC := p_currency_amount * p_maker.exchange_rate;
+  v_trade_id UUID;
+BEGIN
+  IF p_maker.order_type = 'buy' THEN
+    v_buyer := p_maker;
+    v_seller := p_taker;
+  ELSE
+    v_buyer := p_taker;
+    v_seller := p_maker;
+  END IF;
+
+  -- Escrow moves across: the buyer's gold to the seller, the seller's currency to the buyer
+  PERFORM credit_exchange_account(v_buyer, 'currency', p_currency_amount);
+  PERFORM credit_exchange_account(v_seller, 'gold', v_gold_amount);
+
+  -- Price improvement: the buyer escrowed at its own limit, above the fill price
+  IF v_buyer.exchange_rate > p_maker.exchange_rate THEN
+    PERFORM credit_exchange_account(
+      v_buyer,
+      'gold',
+      p_currency_amount * (v_buyer.exchange_rate - p_maker.exchange_rate)
+    );
+  END IF;
+
+  -- Each order's fill is measured at its own rate; dust below a millionth closes the order
+  UPDATE currency_exchange_orders
+  SET
+    filled_gold_amount = CASE
+      WHEN gold_amount - (filled_gold_amount + p_currency_amount * exchange_rate) <= 0.000001 THEN gold_amount
+      ELSE filled_gold_amount + p_currency_amount * exchange_rate
+    END,
+    status = CASE
+      WHEN gold_amount - (filled_gold_amount + p_currency_amount * exchange_rate) <= 0.000001 THEN 'filled'
+      ELSE 'partially_filled'
+    END,
+    updated_at = NOW()
+  WHERE id IN (p_maker.id, p_taker.id);
+
+  UPDATE open_market_operations
+  SET status = 'completed',
+      closed_at = NOW()
+  WHERE order_id IN (p_maker.id, p_taker.id)
+    AND status = 'open'
+    AND EXISTS (
+      SELECT 1 FROM currency_exchange_orders o
+      WHERE o.id = open_market_operations.order_id
+        AND o.status = 'filled'
+    );
+
+  INSERT INTO currency_exchange_trades (
+    order_id,
+    taker_order_id,
+    maker_user_id,
+    taker_user_id,
+    community_currency_id,
+    gold_amount,
+    currency_amount,
+    exchange_rate,
+    taker_side
+  ) VALUES (
+    p_maker.id,
+    p_taker.id,
+    p_maker.user_id,
+    p_taker.user_id,
+    p_maker.community_currency_id,
+    v_gold_amount,
+    p_currency_amount,
+    p_maker.exchange_rate,
+    p_taker.order_type
+  )
+  RETURNING id INTO v_trade_id;
+
+  RETURN v_trade_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Match an incoming order against the opposite side of the book until it is
+-- filled or no resting order crosses its limit. Returns the number of fills.
+-- Orders from communities the taker is embargoed from are skipped.
+CREATE OR REPLACE FUNCTION match_exchange_order(
+  p_order_id UUID
+) RETURNS INTEGER AS $$
+DECLARE
+  v_taker currency_exchange_orders;
+  v_maker currency_exchange_orders;
+  v_taker_remaining NUMERIC;
+  v_maker_remaining NUMERIC;
+  v_excluded_community_ids UUID[];
+  v_fills INTEGER := 0;
+BEGIN
+  LOOP
+    SELECT * INTO v_taker
+    FROM currency_exchange_orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    EXIT WHEN NOT FOUND OR v_taker.status NOT IN ('active', 'partially_filled');
+
+    IF v_excluded_community_ids IS NULL THEN
+      v_excluded_community_ids := get_embargoed_community_ids(v_taker.user_id);
+    END IF;
+
+    v_taker_remaining := (v_taker.gold_amount - v_taker.filled_gold_amount) / v_taker.exchange_rate;
+    EXIT WHEN v_taker_remaining <= 0;
+
+    -- Price-time priority: best price first, then the oldest order at that price
+    SELECT o.* INTO v_maker
+    FROM currency_exchange_orders o
+    JOIN users u ON u.id = o.user_id
+    WHERE o.community_currency_id = v_taker.community_currency_id
+      AND o.order_type <> v_taker.order_type
+      AND o.order_kind = 'limit'
+      AND o.status IN ('active', 'partially_filled')
+      AND o.gold_amount > o.filled_gold_amount
+      AND o.expires_at > NOW()
+      AND o.user_id <> v_taker.user_id
+      AND (
+        (v_taker.order_type = 'buy' AND o.exchange_rate <= v_taker.exchange_rate)
+        OR (v_taker.order_type = 'sell' AND o.exchange_rate >= v_taker.exchange_rate)
+      )
+      AND NOT COALESCE(u.main_community_id = ANY(v_excluded_community_ids), FALSE)
+      AND NOT EXISTS (
+        SELECT 1 FROM community_members m
+        WHERE m.user_id = o.user_id
+          AND m.left_at IS NULL
+          AND m.community_id = ANY(v_excluded_community_ids)
+      )
+    ORDER BY
+      CASE WHEN v_taker.order_type = 'buy' THEN o.exchange_rate END ASC,
+      CASE WHEN v_taker.order_type = 'sell' THEN o.exchange_rate END DESC,
+      o.created_at ASC,
+      o.id ASC
+    LIMIT 1
+    FOR UPDATE OF o SKIP LOCKED;
+
+    EXIT WHEN NOT FOUND;
+
+    v_maker_remaining := (v_maker.gold_amount - v_maker.filled_gold_amount) / v_maker.exchange_rate;
+
+    PERFORM settle_exchange_fill(v_maker, v_taker, LEAST(v_taker_remaining, v_maker_remaining));
+    v_fills := v_fills + 1;
+  END LOOP;
+
+  RETURN v_fills;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION check_exchange_trader FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION check_exchange_trader FROM authenticated;
+GRANT EXECUTE ON FUNCTION check_exchange_trader TO service_role;
+
+REVOKE EXECUTE ON FUNCTION credit_exchange_account FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION credit_exchange_account FROM authenticated;
+GRANT EXECUTE ON FUNCTION credit_exchange_account TO service_role;
+
+REVOKE EXECUTE ON FUNCTION escrow_exchange_order FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION escrow_exchange_order FROM authenticated;
+GRANT EXECUTE ON FUNCTION escrow_exchange_order TO service_role;
+
+REVOKE EXECUTE ON FUNCTION settle_exchange_fill FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION settle_exchange_fill FROM authenticated;
+GRANT EXECUTE ON FUNCTION settle_exchange_fill TO service_role;
+
+REVOKE EXECUTE ON FUNCTION match_exchange_order FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION match_exchange_order FROM authenticated;
+GRANT EXECUTE ON FUNCTION match_exchange_order TO service_role;
+
+GRANT EXECUTE ON FUNCTION get_best_exchange_rate(UUID, TEXT, UUID) TO authenticated;
+
+-- ============================================================================
+-- 4. Limit orders: match, then rest
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_exchange_order(UUID, UUID, TEXT, NUMERIC, NUMERIC, TEXT);
+
+CREATE OR REPLACE FUNCTION create_exchange_order(
+  p_user_id UUID,
+  p_community_currency_id UUID,
+  p_order_type TEXT,
+  p_gold_amount NUMERIC,
+  p_currency_amount NUMERIC,
+  p_source_account TEXT DEFAULT 'personal'
+) RETURNS TABLE (
+  order_id UUID,
+  success BOOLEAN,
+  message TEXT,
+  order_status TEXT,
+  matched_gold NUMERIC,
+  matched_currency NUMERIC,
+  trade_count INTEGER
+)
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_error TEXT;
+  v_order_id UUID;
+  v_fills INTEGER;
+  v_status TEXT;
+  v_matched_gold NUMERIC;
+  v_matched_currency NUMERIC;
+BEGIN
+  PERFORM set_config('row_security', 'off', true);
+
+  v_error := check_exchange_trader(p_user_id, p_community_currency_id);
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, v_error, NULL::TEXT, 0::NUMERIC, 0::NUMERIC, 0;
+    RETURN;
+  END IF;
+
+  SELECT o_order_id, o_error INTO v_order_id, v_error
+  FROM escrow_exchange_order(
+    p_user_id, p_community_currency_id, p_order_type, 'limit',
+    p_gold_amount, p_currency_amount, p_source_account
+  );
+
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, v_error, NULL::TEXT, 0::NUMERIC, 0::NUMERIC, 0;
+    RETURN;
+  END IF;
+
+  v_fills := match_exchange_order(v_order_id);
+
+  SELECT status INTO v_status FROM currency_exchange_orders WHERE id = v_order_id;
+
+  SELECT COALESCE(SUM(t.gold_amount), 0), COALESCE(SUM(t.currency_amount), 0)
+  INTO v_matched_gold, v_matched_currency
+  FROM currency_exchange_trades t
+  WHERE t.taker_order_id = v_order_id;
+
+  RETURN QUERY SELECT
+    v_order_id,
+    TRUE,
+    CASE
+      WHEN v_status = 'filled' THEN 'Order filled'
+      WHEN v_fills > 0 THEN 'Order partially filled; the rest is on the book'
+      ELSE 'Order created successfully'
+    END,
+    v_status,
+    v_matched_gold,
+    v_matched_currency,
+    v_fills;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_exchange_order(UUID, UUID, TEXT, NUMERIC, NUMERIC, TEXT) TO authenticated;
+
+-- ============================================================================
+-- 5. Market orders: sweep the book within a slippage limit
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION execute_market_exchange_order(
+  p_user_id UUID,
+  p_community_currency_id UUID,
+  p_order_type TEXT,
+  p_currency_amount NUMERIC,
+  p_max_slippage NUMERIC DEFAULT 0.05
+) RETURNS TABLE (
+  order_id UUID,
+  success BOOLEAN,
+  message TEXT,
+  order_status TEXT,
+  matched_gold NUMERIC,
+  matched_currency NUMERIC,
+  trade_count INTEGER,
+  average_rate NUMERIC
+)
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_error TEXT;
+  v_best_rate NUMERIC;
+  v_limit_rate NUMERIC;
+  v_order_id UUID;
+  v_order currency_exchange_orders;
+  v_fills INTEGER;
+  v_matched_gold NUMERIC;
+  v_matched_currency NUMERIC;
+  v_remaining_gold NUMERIC;
+BEGIN
+  PERFORM set_config('row_security', 'off', true);
+
+  v_error := check_exchange_trader(p_user_id, p_community_currency_id);
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, v_error, NULL::TEXT, 0::NUMERIC, 0::NUMERIC, 0, NULL::NUMERIC;
+    RETURN;
+  END IF;
+
+  IF p_order_type NOT IN ('buy', 'sell') THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, 'Invalid order type (must be ''buy'' or ''sell'')', NULL::TEXT, 0::NUMERIC, 0::NUMERIC, 0, NULL::NUMERIC;
+    RETURN;
+  END IF;
+
+  IF p_currency_amount IS NULL OR p_currency_amount <= 0 THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, 'Amount must be positive', NULL::TEXT, 0::NUMERIC, 0::NUMERIC, 0, NULL::NUMERIC;
+    RETURN;
+  END IF;
+
+  IF p_max_slippage IS NULL OR p_max_slippage < 0 OR p_max_slippage > 0.5 THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, 'Slippage limit must be between 0% and 50%', NULL::TEXT, 0::NUMERIC, 0::NUMERIC, 0, NULL::NUMERIC;
+    RETURN;
+  END IF;
+
+  v_best_rate := get_best_exchange_rate(
+    p_community_currency_id,
+    CASE WHEN p_order_type = 'buy' THEN 'sell' ELSE 'buy' END,
+    p_user_id
+  );
+
+  IF v_best_rate IS NULL THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, 'No offers to match', NULL::TEXT, 0::NUMERIC, 0::NUMERIC, 0, NULL::NUMERIC;
+    RETURN;
+  END IF;
+
+  -- The worst price the order accepts; a buy escrows enough gold to pay it throughout
+  v_limit_rate := CASE
+    WHEN p_order_type = 'buy' THEN v_best_rate * (1 + p_max_slippage)
+    ELSE v_best_rate * (1 - p_max_slippage)
+  END;
+
+  IF v_limit_rate <= 0 THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, 'Slippage limit is too wide', NULL::TEXT, 0::NUMERIC, 0::NUMERIC, 0, NULL::NUMERIC;
+    RETURN;
+  END IF;
+
+  SELECT o_order_id, o_error INTO v_order_id, v_error
+  FROM escrow_exchange_order(
+    p_user_id, p_community_currency_id, p_order_type, 'market',
+    p_currency_amount * v_limit_rate, p_currency_amount, 'personal'
+  );
+
+  IF v_error IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::UUID, FALSE, v_error, NULL::TEXT, 0::NUMERIC, 0::NUMERIC, 0, NULL::NUMERIC;
+    RETURN;
+  END IF;
+
+  v_fills := match_exchange_order(v_order_id);
+
+  -- Market orders never rest: refund and close whatever the book could not fill
+  SELECT * INTO v_order
+  FROM currency_exchange_orders
+  WHERE id = v_order_id
+  FOR UPDATE;
+
+  IF v_order.status <> 'filled' THEN
+    v_remaining_gold := v_order.gold_amount - v_order.filled_gold_amount;
+
+    IF v_order.order_type = 'buy' THEN
+      PERFORM credit_exchange_account(v_order, 'gold', v_remaining_gold);
+    ELSE
+      PERFORM credit_exchange_account(v_order, 'currency', v_remaining_gold / v_order.exchange_rate);
+    END IF;
+
+    UPDATE currency_exchange_orders
+    SET status = 'cancelled',
+        updated_at = NOW()
+    WHERE id = v_order_id;
+
+    v_order.status := 'cancelled';
+  END IF;
+
+  SELECT COALESCE(SUM(t.gold_amount), 0), COALESCE(SUM(t.currency_amount), 0)
+  INTO v_matched_gold, v_matched_currency
+  FROM currency_exchange_trades t
+  WHERE t.taker_order_id = v_order_id;
+
+  RETURN QUERY SELECT
+    v_order_id,
+    TRUE,
+    CASE
+      WHEN v_order.status = 'filled' THEN 'Order filled'
+      ELSE format('Filled %s of %s; the rest was outside the slippage limit', v_matched_currency, p_currency_amount)
+    END,
+    v_order.status,
+    v_matched_gold,
+    v_matched_currency,
+    v_fills,
+    CASE WHEN v_matched_currency > 0 THEN v_matched_gold / v_matched_currency END;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION execute_market_exchange_order(UUID, UUID, TEXT, NUMERIC, NUMERIC) TO authenticated;
+
+-- ============================================================================
+-- 6. Cancellation refunds the currency left at the order's own rate
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION cancel_exchange_order(
+  p_user_id UUID,
+  p_order_id UUID
+)
+RETURNS TABLE(
+  success BOOLEAN,
+  message TEXT
+) AS $$
+DECLARE
+  v_order currency_exchange_orders;
+  v_gold_to_refund NUMERIC;
+  v_currency_to_refund NUMERIC;
+BEGIN
+  SELECT * INTO v_order
+  FROM currency_exchange_orders
+  WHERE id = p_order_id
+  AND user_id = p_user_id
+  AND status IN ('active', 'partially_filled')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT FALSE, 'Order not found or cannot be cancelled';
+    RETURN;
+  END IF;
+
+  -- Calculate refund amount (unfilled portion)
+  v_gold_to_refund := v_order.gold_amount - v_order.filled_gold_amount;
+  v_currency_to_refund := v_gold_to_refund / v_order.exchange_rate;
+
+  -- Cancel first so the open-market guard rejects the whole call before any refund
+  UPDATE currency_exchange_orders
+  SET status = 'cancelled',
+      updated_at = NOW()
+  WHERE id = p_order_id;
+
+  IF v_order.order_type = 'sell' THEN
+    PERFORM credit_exchange_account(v_order, 'currency', v_currency_to_refund);
+  ELSE
+    PERFORM credit_exchange_account(v_order, 'gold', v_gold_to_refund);
+  END IF;
+
+  -- Log transaction
+  INSERT INTO currency_transactions (
+    from_user_id,
+    to_user_id,
+    currency_type,
+    community_currency_id,
+    amount,
+    transaction_type,
+    description,
+    scope,
+    metadata
+  ) VALUES (
+    NULL,
+    p_user_id,
+    CASE WHEN v_order.order_type = 'sell' THEN 'community' ELSE 'gold' END,
+    CASE WHEN v_order.order_type = 'sell' THEN v_order.community_currency_id ELSE NULL END,
+    CASE WHEN v_order.order_type = 'sell' THEN v_currency_to_refund ELSE v_gold_to_refund END,
+    'exchange_order_refunded',
+    'Exchange order cancelled and funds refunded',
+    CASE WHEN v_order.source_account = 'treasury' THEN 'community' ELSE 'personal' END,
+    jsonb_build_object(
+      'order_id', p_order_id,
+      'order_type', v_order.order_type,
+      'source_account', v_order.source_account,
+      'exchange_rate', v_order.exchange_rate
+    )
+  );
+
+  RETURN QUERY SELECT TRUE, 'Order cancelled successfully';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION cancel_exchange_order(UUID, UUID) TO authenticated;
+
+-- ============================================================================
+-- 7. Rate history from trade prints
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS get_exchange_rate_history(UUID, TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION get_exchange_rate_history(
+  p_community_currency_id UUID,
+  p_start_time TIMESTAMPTZ,
+  p_end_time TIMESTAMPTZ DEFAULT NOW(),
+  p_bucket INTERVAL DEFAULT INTERVAL '1 hour'
+)
+RETURNS TABLE(
+  snapshot_time TIMESTAMPTZ,
+  open_rate NUMERIC,
+  high_rate NUMERIC,
+  low_rate NUMERIC,
+  close_rate NUMERIC,
+  weighted_avg_rate NUMERIC,
+  volume_gold NUMERIC,
+  volume_currency NUMERIC,
+  trade_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    date_bin(p_bucket, t.executed_at, TIMESTAMPTZ '2000-01-01 00:00:00+00') AS bucket,
+    (array_agg(t.exchange_rate ORDER BY t.executed_at ASC, t.id ASC))[1],
+    MAX(t.exchange_rate),
+    MIN(t.exchange_rate),
+    (array_agg(t.exchange_rate ORDER BY t.executed_at DESC, t.id DESC))[1],
+    SUM(t.gold_amount) / NULLIF(SUM(t.currency_amount), 0),
+    SUM(t.gold_amount),
+    SUM(t.currency_amount),
+    COUNT(*)::INTEGER
+  FROM currency_exchange_trades t
+  WHERE t.community_currency_id = p_community_currency_id
+    AND t.executed_at >= p_start_time
+    AND t.executed_at <= p_end_time
+  GROUP BY bucket
+  ORDER BY bucket ASC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_exchange_rate_history(UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTERVAL) TO anon, authenticated;
+
+COMMENT ON COLUMN currency_exchange_orders.order_kind IS
+  'limit orders rest on the book after matching; market orders sweep it and are closed straight away.';
+COMMENT ON COLUMN currency_exchange_trades.taker_order_id IS
+  'The incoming order that crossed the resting order (order_id). NULL for trades taken by hand.';
+COMMENT ON FUNCTION match_exchange_order IS
+  'Fills an incoming order against the opposite side of the book with price-time priority at resting prices.';
+COMMENT ON FUNCTION create_exchange_order IS
+  'Posts a limit order: locks funds, matches crossing orders, then rests whatever is left.';
+COMMENT ON FUNCTION execute_market_exchange_order IS
+  'Sweeps the book up to a slippage limit from the best price and refunds the unfilled part.';
+COMMENT ON FUNCTION get_exchange_rate_history IS
+  'OHLC candles and volume aggregated from trade prints.';
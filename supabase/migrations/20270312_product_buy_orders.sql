@@ -0,0 +1,787 @@
+-- Product Buy Orders
+-- Buyers post standing bids on a community's product market: a resource, a
+-- minimum quality, a quantity and a maximum price per unit. The full cost is
+-- escrowed up front. A bid fills automatically against listings that satisfy
+-- it, both those already on the market when it is placed and new listings
+-- posted later, cheapest and oldest first. Fills happen at the listing's price.
+--
+-- The product market trades in the market community's currency only
+-- (20270213_enforce_community_currency_only), so bids escrow that currency.
+-- The maximum price includes the import tariff: a buyer from outside the
+-- community never pays more than their bid per unit, tariff included.
+--
+-- Purchases and bid fills settle through one function, settle_product_trade,
+-- so the import tariff applies the same way to both: non-members pay the
+-- community's import_tariff_rate (set by IMPORT_TARIFF laws) on top of the
+-- price, and the tariff goes to the community treasury.
+
+-- ============================================================================
+-- 1. Buy orders
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS product_buy_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  buyer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  community_id UUID NOT NULL REFERENCES communities(id) ON DELETE CASCADE, -- Market the bid is posted on
+  community_currency_id UUID NOT NULL REFERENCES community_currencies(id) ON DELETE CASCADE,
+  resource_id UUID NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  min_quality_id UUID NOT NULL REFERENCES resource_qualities(id) ON DELETE RESTRICT,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  filled_quantity NUMERIC NOT NULL DEFAULT 0 CHECK (filled_quantity >= 0 AND filled_quantity <= quantity),
+  max_price_per_unit NUMERIC NOT NULL CHECK (max_price_per_unit > 0), -- Tariff included
+  escrow_remaining NUMERIC NOT NULL DEFAULT 0 CHECK (escrow_remaining >= 0), -- Currency still locked for the bid
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'filled', 'cancelled', 'expired')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT (NOW() + INTERVAL '7 days')
+);
+
+-- Matching looks up a market's active bids for one resource, best price first
+CREATE INDEX IF NOT EXISTS idx_product_buy_orders_matching
+  ON product_buy_orders(community_id, resource_id, max_price_per_unit DESC, created_at)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_product_buy_orders_buyer
+  ON product_buy_orders(buyer_id, status);
+
+ALTER TABLE trade_history
+  ADD COLUMN IF NOT EXISTS buy_order_id UUID REFERENCES product_buy_orders(id) ON DELETE SET NULL;
+
+ALTER TABLE product_buy_orders ENABLE ROW LEVEL SECURITY;
+
+-- Bids are public so sellers can see the demand; only the functions below write them
+DROP POLICY IF EXISTS "Anyone can view product buy orders" ON product_buy_orders;
+CREATE POLICY "Anyone can view product buy orders"
+  ON product_buy_orders FOR SELECT
+  USING (true);
+
+GRANT SELECT ON product_buy_orders TO anon, authenticated;
+
+-- ============================================================================
+-- 2. Shared settlement
+-- ============================================================================
+
+-- Import tariff a buyer pays in a community's market, as a fraction.
+-- Members trade tariff-free; everyone else pays the IMPORT_TARIFF rate.
+CREATE OR REPLACE FUNCTION get_market_import_tariff_rate(
+  p_buyer_id UUID,
+  p_community_id UUID
+) RETURNS NUMERIC AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM community_members cm
+      WHERE cm.user_id = p_buyer_id
+        AND cm.community_id = p_community_id
+        AND cm.left_at IS NULL
+    ) THEN 0
+    ELSE COALESCE((SELECT import_tariff_rate FROM communities WHERE id = p_community_id), 0)
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_market_import_tariff_rate FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION get_market_import_tariff_rate FROM authenticated;
+GRANT EXECUTE ON FUNCTION get_market_import_tariff_rate TO service_role;
+
+-- Return a bid's remaining escrow to the buyer and close it
+CREATE OR REPLACE FUNCTION close_product_buy_order(
+  p_buy_order_id UUID,
+  p_status TEXT
+) RETURNS NUMERIC AS $$
+DECLARE
+  v_order product_buy_orders;
+  v_wallet_id UUID;
+BEGIN
+  SELECT * INTO v_order
+  FROM product_buy_orders
+  WHERE id = p_buy_order_id
+    AND status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  IF v_order.escrow_remaining > 0 THEN
+    v_wallet_id := get_or_create_community_wallet(v_order.buyer_id, v_order.community_currency_id);
+
+    UPDATE user_wallets
+    SET community_coins = community_coins + v_order.escrow_remaining,
+        updated_at = NOW()
+    WHERE id = v_wallet_id;
+  END IF;
+
+  UPDATE product_buy_orders
+  SET status = p_status,
+      escrow_remaining = 0,
+      updated_at = NOW()
+  WHERE id = p_buy_order_id;
+
+  RETURN v_order.escrow_remaining;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sell p_quantity from a listing to a buyer. A direct purchase pays from the
+-- buyer's wallet; a bid fill pays from the bid's escrow.
+CREATE OR REPLACE FUNCTION settle_product_trade(
+  p_listing_id UUID,
+  p_buyer_id UUID,
+  p_quantity NUMERIC,
+  p_buy_order_id UUID DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_listing market_listings;
+  v_order product_buy_orders;
+  v_community_currency_id UUID;
+  v_total_price_cc NUMERIC;
+  v_tariff_rate NUMERIC;
+  v_tariff NUMERIC;
+  v_buyer_wallet_id UUID;
+  v_seller_wallet_id UUID;
+  v_treasury_wallet_id UUID;
+  v_buyer_cc NUMERIC;
+BEGIN
+  SELECT * INTO v_listing
+  FROM market_listings
+  WHERE id = p_listing_id
+    AND listing_type = 'product'
+    AND status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Listing not found or not active';
+  END IF;
+
+  IF p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be positive';
+  END IF;
+
+  IF v_listing.quantity < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient quantity available (available: %, requested: %)', v_listing.quantity, p_quantity;
+  END IF;
+
+  SELECT id INTO v_community_currency_id
+  FROM community_currencies
+  WHERE community_id = v_listing.community_id;
+
+  IF v_community_currency_id IS NULL THEN
+    RAISE EXCEPTION 'Community currency not configured for this community';
+  END IF;
+
+  IF v_listing.price_per_unit_community_coin IS NULL OR v_listing.price_per_unit_community_coin <= 0 THEN
+    RAISE EXCEPTION 'Invalid listing: community currency price not set';
+  END IF;
+
+  v_total_price_cc := v_listing.price_per_unit_community_coin * p_quantity;
+  v_tariff_rate := get_market_import_tariff_rate(p_buyer_id, v_listing.community_id);
+  v_tariff := v_total_price_cc * v_tariff_rate;
+
+  -- Buyer pays price plus tariff
+  IF p_buy_order_id IS NOT NULL THEN
+    SELECT * INTO v_order
+    FROM product_buy_orders
+    WHERE id = p_buy_order_id
+      AND buyer_id = p_buyer_id
+      AND status = 'active'
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_order.escrow_remaining < v_total_price_cc + v_tariff THEN
+      RAISE EXCEPTION 'Buy order cannot cover this fill';
+    END IF;
+
+    UPDATE product_buy_orders
+    SET escrow_remaining = escrow_remaining - (v_total_price_cc + v_tariff),
+        filled_quantity = filled_quantity + p_quantity,
+        updated_at = NOW()
+    WHERE id = p_buy_order_id;
+  ELSE
+    v_buyer_wallet_id := get_or_create_community_wallet(p_buyer_id, v_community_currency_id);
+
+    SELECT community_coins INTO v_buyer_cc
+    FROM user_wallets
+    WHERE id = v_buyer_wallet_id
+    FOR UPDATE;
+
+    IF COALESCE(v_buyer_cc, 0) < v_total_price_cc + v_tariff THEN
+      RAISE EXCEPTION 'Insufficient community coins (have: %, need: %)', COALESCE(v_buyer_cc, 0), v_total_price_cc + v_tariff;
+    END IF;
+
+    UPDATE user_wallets
+    SET community_coins = community_coins - (v_total_price_cc + v_tariff),
+        updated_at = NOW()
+    WHERE id = v_buyer_wallet_id;
+  END IF;
+
+  -- Seller receives the listed price
+  v_seller_wallet_id := get_or_create_community_wallet(v_listing.seller_id, v_community_currency_id);
+
+  UPDATE user_wallets
+  SET community_coins = community_coins + v_total_price_cc,
+      updated_at = NOW()
+  WHERE id = v_seller_wallet_id;
+
+  -- Tariff goes to the market community's treasury
+  IF v_tariff > 0 THEN
+    v_treasury_wallet_id := get_or_create_community_currency_wallet(v_listing.community_id, v_community_currency_id);
+
+    UPDATE community_wallets
+    SET community_coins = community_coins + v_tariff,
+        updated_at = NOW()
+    WHERE id = v_treasury_wallet_id;
+
+    INSERT INTO currency_transactions (
+      from_user_id, to_user_id, currency_type, community_currency_id,
+      amount, transaction_type, description, scope, metadata
+    ) VALUES (
+      p_buyer_id, NULL, 'community', v_community_currency_id,
+      v_tariff, 'tax', 'Import tariff on market purchase', 'community',
+      jsonb_build_object(
+        'community_id', v_listing.community_id,
+        'listing_id', p_listing_id,
+        'buy_order_id', p_buy_order_id,
+        'tariff_rate', v_tariff_rate
+      )
+    );
+  END IF;
+
+  -- Transfer items to buyer
+  INSERT INTO user_inventory (user_id, resource_id, quality_id, quantity)
+  VALUES (p_buyer_id, v_listing.resource_id, v_listing.quality_id, p_quantity)
+  ON CONFLICT (user_id, resource_id, quality_id)
+  DO UPDATE SET
+    quantity = user_inventory.quantity + p_quantity,
+    updated_at = NOW();
+
+  -- Update or close listing
+  IF v_listing.quantity = p_quantity THEN
+    UPDATE market_listings
+    SET status = 'filled',
+        updated_at = NOW()
+    WHERE id = p_listing_id;
+  ELSE
+    UPDATE market_listings
+    SET quantity = quantity - p_quantity,
+        updated_at = NOW()
+    WHERE id = p_listing_id;
+  END IF;
+
+  INSERT INTO trade_history (
+    listing_id,
+    buy_order_id,
+    buyer_id,
+    seller_id,
+    trade_type,
+    amount_transferred,
+    trade_tariff_paid
+  ) VALUES (
+    p_listing_id,
+    p_buy_order_id,
+    p_buyer_id,
+    v_listing.seller_id,
+    'product',
+    jsonb_build_object(
+      'resource_id', v_listing.resource_id,
+      'quality_id', v_listing.quality_id,
+      'quantity', p_quantity,
+      'community_coin_paid', v_total_price_cc
+    ),
+    v_tariff
+  );
+
+  INSERT INTO currency_transactions (
+    from_user_id, to_user_id, currency_type, community_currency_id,
+    amount, transaction_type, description, scope, metadata
+  ) VALUES (
+    p_buyer_id, v_listing.seller_id, 'community', v_community_currency_id,
+    v_total_price_cc, 'purchase',
+    format('Market purchase: %s (qty: %s)', v_listing.resource_id, p_quantity),
+    'personal',
+    jsonb_build_object(
+      'listing_id', p_listing_id,
+      'buy_order_id', p_buy_order_id,
+      'resource_id', v_listing.resource_id,
+      'quality_id', v_listing.quality_id,
+      'quantity', p_quantity
+    )
+  );
+
+  -- A bid that got everything it asked for hands back what is left of its escrow
+  IF p_buy_order_id IS NOT NULL AND v_order.filled_quantity + p_quantity >= v_order.quantity THEN
+    PERFORM close_product_buy_order(p_buy_order_id, 'filled');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'quantity_purchased', p_quantity,
+    'gold_paid', 0,
+    'community_coin_paid', v_total_price_cc,
+    'tariff_paid', v_tariff
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION close_product_buy_order FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION close_product_buy_order FROM authenticated;
+GRANT EXECUTE ON FUNCTION close_product_buy_order TO service_role;
+
+REVOKE EXECUTE ON FUNCTION settle_product_trade FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION settle_product_trade FROM authenticated;
+GRANT EXECUTE ON FUNCTION settle_product_trade TO service_role;
+
+-- ============================================================================
+-- 3. Direct purchases settle the same way
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION purchase_product_with_location_check(
+  p_buyer_id UUID,
+  p_listing_id UUID,
+  p_quantity NUMERIC
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_listing_community_id UUID;
+  v_seller_id UUID;
+  v_buyer_hex TEXT;
+  v_hex_community_id UUID;
+BEGIN
+  PERFORM set_config('row_security', 'off', true);
+
+  -- Ensure caller can only purchase as themselves
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  IF v_public_user_id <> p_buyer_id THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  -- Get buyer's current location
+  SELECT current_hex INTO v_buyer_hex
+  FROM public.users
+  WHERE id = p_buyer_id;
+
+  IF v_buyer_hex IS NULL THEN
+    RAISE EXCEPTION 'You must be located in a community''s territory to buy items';
+  END IF;
+
+  SELECT owner_community_id INTO v_hex_community_id
+  FROM public.world_regions
+  WHERE hex_id = v_buyer_hex;
+
+  IF v_hex_community_id IS NULL THEN
+    RAISE EXCEPTION 'You must be in a community''s territory to buy items (wilderness not allowed)';
+  END IF;
+
+  SELECT community_id, seller_id INTO v_listing_community_id, v_seller_id
+  FROM market_listings
+  WHERE id = p_listing_id
+    AND listing_type = 'product'
+    AND status = 'active';
+
+  IF v_listing_community_id IS NULL THEN
+    RAISE EXCEPTION 'Listing not found or not active';
+  END IF;
+
+  -- Verify buyer is in the same community as the listing
+  IF v_hex_community_id <> v_listing_community_id THEN
+    RAISE EXCEPTION 'Travel to this community''s territory to purchase items from their market';
+  END IF;
+
+  IF is_trade_embargoed(p_buyer_id, v_listing_community_id, v_seller_id) THEN
+    RAISE EXCEPTION 'Trade blocked: an embargo stands between you and this seller';
+  END IF;
+
+  RETURN settle_product_trade(p_listing_id, p_buyer_id, p_quantity);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION purchase_product_with_location_check(UUID, UUID, NUMERIC) TO authenticated;
+
+-- ============================================================================
+-- 4. Matching
+-- ============================================================================
+
+-- Fill a bid from listings already on its market, cheapest then oldest first.
+-- Sellers the buyer is embargoed from are skipped.
+CREATE OR REPLACE FUNCTION match_product_buy_order(
+  p_buy_order_id UUID
+) RETURNS INTEGER AS $$
+DECLARE
+  v_order product_buy_orders;
+  v_listing RECORD;
+  v_tariff_rate NUMERIC;
+  v_excluded_community_ids UUID[];
+  v_fills INTEGER := 0;
+BEGIN
+  LOOP
+    SELECT * INTO v_order
+    FROM product_buy_orders
+    WHERE id = p_buy_order_id
+      AND status = 'active'
+    FOR UPDATE;
+
+    EXIT WHEN NOT FOUND OR v_order.filled_quantity >= v_order.quantity;
+
+    IF v_excluded_community_ids IS NULL THEN
+      v_excluded_community_ids := get_embargoed_community_ids(v_order.buyer_id);
+    END IF;
+
+    v_tariff_rate := get_market_import_tariff_rate(v_order.buyer_id, v_order.community_id);
+
+    SELECT l.id, l.quantity INTO v_listing
+    FROM market_listings l
+    JOIN resource_qualities lq ON lq.id = l.quality_id
+    JOIN users s ON s.id = l.seller_id
+    WHERE l.listing_type = 'product'
+      AND l.status = 'active'
+      AND l.community_id = v_order.community_id
+      AND l.resource_id = v_order.resource_id
+      AND l.seller_id <> v_order.buyer_id
+      AND (l.expires_at IS NULL OR l.expires_at > NOW())
+      AND lq.quality_level >= (SELECT quality_level FROM resource_qualities WHERE id = v_order.min_quality_id)
+      AND l.price_per_unit_community_coin > 0
+      AND l.price_per_unit_community_coin * (1 + v_tariff_rate) <= v_order.max_price_per_unit
+      AND NOT COALESCE(s.main_community_id = ANY(v_excluded_community_ids), FALSE)
+      AND NOT EXISTS (
+        SELECT 1 FROM community_members m
+        WHERE m.user_id = l.seller_id
+          AND m.left_at IS NULL
+          AND m.community_id = ANY(v_excluded_community_ids)
+      )
+    ORDER BY l.price_per_unit_community_coin ASC, l.created_at ASC, l.id ASC
+    LIMIT 1
+    FOR UPDATE OF l SKIP LOCKED;
+
+    EXIT WHEN NOT FOUND;
+
+    PERFORM settle_product_trade(
+      v_listing.id,
+      v_order.buyer_id,
+      LEAST(v_order.quantity - v_order.filled_quantity, v_listing.quantity),
+      p_buy_order_id
+    );
+    v_fills := v_fills + 1;
+  END LOOP;
+
+  RETURN v_fills;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION match_product_buy_order FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION match_product_buy_order FROM authenticated;
+GRANT EXECUTE ON FUNCTION match_product_buy_order TO service_role;
+
+-- Sell a new listing into standing bids, highest bid then oldest first.
+-- Buyers the seller is embargoed from are skipped.
+CREATE OR REPLACE FUNCTION match_product_listing(
+  p_listing_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_listing market_listings;
+  v_quality_level INT;
+  v_excluded_community_ids UUID[];
+  v_order RECORD;
+  v_result JSONB;
+  v_quantity_sold NUMERIC := 0;
+  v_received NUMERIC := 0;
+  v_fills INTEGER := 0;
+BEGIN
+  PERFORM set_config('row_security', 'off', true);
+
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  SELECT * INTO v_listing
+  FROM market_listings
+  WHERE id = p_listing_id
+    AND listing_type = 'product';
+
+  IF NOT FOUND OR v_public_user_id IS NULL OR v_listing.seller_id <> v_public_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Listing not found');
+  END IF;
+
+  SELECT quality_level INTO v_quality_level
+  FROM resource_qualities
+  WHERE id = v_listing.quality_id;
+
+  v_excluded_community_ids := get_embargoed_community_ids(v_listing.seller_id);
+
+  LOOP
+    SELECT * INTO v_listing
+    FROM market_listings
+    WHERE id = p_listing_id
+      AND status = 'active';
+
+    EXIT WHEN NOT FOUND;
+
+    SELECT o.id, o.buyer_id, o.quantity - o.filled_quantity AS remaining INTO v_order
+    FROM product_buy_orders o
+    JOIN resource_qualities oq ON oq.id = o.min_quality_id
+    JOIN users b ON b.id = o.buyer_id
+    WHERE o.status = 'active'
+      AND o.community_id = v_listing.community_id
+      AND o.resource_id = v_listing.resource_id
+      AND o.buyer_id <> v_listing.seller_id
+      AND o.expires_at > NOW()
+      AND oq.quality_level <= v_quality_level
+      AND v_listing.price_per_unit_community_coin
+        * (1 + get_market_import_tariff_rate(o.buyer_id, o.community_id)) <= o.max_price_per_unit
+      AND NOT COALESCE(b.main_community_id = ANY(v_excluded_community_ids), FALSE)
+      AND NOT EXISTS (
+        SELECT 1 FROM community_members m
+        WHERE m.user_id = o.buyer_id
+          AND m.left_at IS NULL
+          AND m.community_id = ANY(v_excluded_community_ids)
+      )
+    ORDER BY o.max_price_per_unit DESC, o.created_at ASC, o.id ASC
+    LIMIT 1
+    FOR UPDATE OF o SKIP LOCKED;
+
+    EXIT WHEN NOT FOUND;
+
+    v_result := settle_product_trade(
+      p_listing_id,
+      v_order.buyer_id,
+      LEAST(v_order.remaining, v_listing.quantity),
+      v_order.id
+    );
+
+    v_quantity_sold := v_quantity_sold + (v_result->>'quantity_purchased')::NUMERIC;
+    v_received := v_received + (v_result->>'community_coin_paid')::NUMERIC;
+    v_fills := v_fills + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'quantity_sold', v_quantity_sold,
+    'community_coin_received', v_received,
+    'fills', v_fills
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_product_listing(UUID) TO authenticated;
+
+-- ============================================================================
+-- 5. Placing and cancelling bids
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION place_product_buy_order(
+  p_buyer_id UUID,
+  p_community_id UUID,
+  p_resource_id UUID,
+  p_min_quality_id UUID,
+  p_quantity NUMERIC,
+  p_max_price_per_unit NUMERIC
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_buyer_hex TEXT;
+  v_hex_community_id UUID;
+  v_community_currency_id UUID;
+  v_wallet_id UUID;
+  v_balance NUMERIC;
+  v_escrow NUMERIC;
+  v_order_id UUID;
+  v_fills INTEGER;
+  v_order product_buy_orders;
+  v_spent NUMERIC;
+BEGIN
+  PERFORM set_config('row_security', 'off', true);
+
+  SELECT u.id, u.current_hex INTO v_public_user_id, v_buyer_hex
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'User profile not found');
+  END IF;
+
+  IF v_public_user_id <> p_buyer_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 OR p_quantity <> TRUNC(p_quantity) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Quantity must be a positive whole number');
+  END IF;
+
+  IF p_max_price_per_unit IS NULL OR p_max_price_per_unit <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Maximum price must be positive');
+  END IF;
+
+  -- Bids are posted in person, like listings and purchases
+  SELECT owner_community_id INTO v_hex_community_id
+  FROM public.world_regions
+  WHERE hex_id = v_buyer_hex;
+
+  IF v_hex_community_id IS NULL OR v_hex_community_id <> p_community_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Travel to this community''s territory to post a buy order on their market');
+  END IF;
+
+  IF is_trade_embargoed(p_buyer_id, p_community_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Trade blocked: an embargo stands between you and this community');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM resources WHERE id = p_resource_id)
+     OR NOT EXISTS (SELECT 1 FROM resource_qualities WHERE id = p_min_quality_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown product or quality');
+  END IF;
+
+  SELECT id INTO v_community_currency_id
+  FROM community_currencies
+  WHERE community_id = p_community_id;
+
+  IF v_community_currency_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Community currency not configured for this community');
+  END IF;
+
+  -- Escrow the whole bid up front
+  v_escrow := p_quantity * p_max_price_per_unit;
+  v_wallet_id := get_or_create_community_wallet(p_buyer_id, v_community_currency_id);
+
+  SELECT community_coins INTO v_balance
+  FROM user_wallets
+  WHERE id = v_wallet_id
+  FOR UPDATE;
+
+  IF COALESCE(v_balance, 0) < v_escrow THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Insufficient community coins (have: %s, need: %s)', COALESCE(v_balance, 0), v_escrow)
+    );
+  END IF;
+
+  UPDATE user_wallets
+  SET community_coins = community_coins - v_escrow,
+      updated_at = NOW()
+  WHERE id = v_wallet_id;
+
+  INSERT INTO product_buy_orders (
+    buyer_id, community_id, community_currency_id, resource_id, min_quality_id,
+    quantity, max_price_per_unit, escrow_remaining
+  ) VALUES (
+    p_buyer_id, p_community_id, v_community_currency_id, p_resource_id, p_min_quality_id,
+    p_quantity, p_max_price_per_unit, v_escrow
+  )
+  RETURNING id INTO v_order_id;
+
+  v_fills := match_product_buy_order(v_order_id);
+
+  SELECT * INTO v_order FROM product_buy_orders WHERE id = v_order_id;
+
+  SELECT COALESCE(SUM((th.amount_transferred->>'community_coin_paid')::NUMERIC + th.trade_tariff_paid), 0)
+  INTO v_spent
+  FROM trade_history th
+  WHERE th.buy_order_id = v_order_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'buy_order_id', v_order_id,
+    'status', v_order.status,
+    'quantity_filled', v_order.filled_quantity,
+    'community_coin_spent', v_spent,
+    'fills', v_fills
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_product_buy_order(
+  p_buyer_id UUID,
+  p_buy_order_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_refund NUMERIC;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_buyer_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM product_buy_orders
+    WHERE id = p_buy_order_id
+      AND buyer_id = p_buyer_id
+      AND status = 'active'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Buy order not found or already closed');
+  END IF;
+
+  v_refund := close_product_buy_order(p_buy_order_id, 'cancelled');
+
+  RETURN jsonb_build_object('success', true, 'refunded', v_refund);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_product_buy_order(UUID, UUID, UUID, UUID, NUMERIC, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_product_buy_order(UUID, UUID) TO authenticated;
+
+-- ============================================================================
+-- 6. Expiry
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION expire_product_buy_orders()
+RETURNS INTEGER AS $$
+DECLARE
+  v_order_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_order_id IN
+    SELECT id FROM product_buy_orders
+    WHERE status = 'active'
+      AND expires_at <= NOW()
+  LOOP
+    PERFORM close_product_buy_order(v_order_id, 'expired');
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION expire_product_buy_orders FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION expire_product_buy_orders FROM authenticated;
+GRANT EXECUTE ON FUNCTION expire_product_buy_orders TO service_role;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('expire-product-buy-orders');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL;  -- Ignore if job doesn't exist
+END $$;
+
+SELECT cron.schedule(
+  'expire-product-buy-orders',
+  '15 * * * *',  -- Every hour at :15
+  $$SELECT public.expire_product_buy_orders();$$
+);
+
+COMMENT ON TABLE product_buy_orders IS
+  'Standing bids on a community product market. The maximum price includes import tariffs; the cost is escrowed in the market currency.';
+COMMENT ON FUNCTION settle_product_trade IS
+  'Settles a product sale from a listing, paid from the buyer''s wallet or a bid''s escrow. Applies the import tariff for non-members.';
+COMMENT ON FUNCTION match_product_listing IS
+  'Sells a listing into standing bids, highest bid first. Called after a listing is created.';
+COMMENT ON FUNCTION place_product_buy_order IS
+  'Escrows a bid, fills it from matching listings on the market and leaves the rest standing.';
@@ -0,0 +1,174 @@
+-- Market Data
+-- Read-only functions behind the market data API (app/api/market):
+--   * OHLCV candles for product markets, built from product trade prints the
+--     way get_exchange_rate_history builds them for currency pairs
+--   * depth snapshots of the currency exchange book and of a product market
+--     (listings against standing buy orders)
+-- 24h change and volume stats are derived from the candles in the API.
+
+-- ============================================================================
+-- 1. Product candles
+-- ============================================================================
+
+-- Candles look up one resource's product trades by time
+CREATE INDEX IF NOT EXISTS idx_trade_history_product_resource
+  ON trade_history(((amount_transferred->>'resource_id')::UUID), executed_at)
+  WHERE trade_type = 'product';
+
+-- Prices are community coins per unit, excluding tariffs. p_quality_id NULL
+-- covers every quality of the resource.
+CREATE OR REPLACE FUNCTION get_product_price_history(
+  p_community_id UUID,
+  p_resource_id UUID,
+  p_quality_id UUID DEFAULT NULL,
+  p_start_time TIMESTAMPTZ DEFAULT NOW() - INTERVAL '24 hours',
+  p_end_time TIMESTAMPTZ DEFAULT NOW(),
+  p_bucket INTERVAL DEFAULT INTERVAL '1 hour'
+)
+RETURNS TABLE(
+  snapshot_time TIMESTAMPTZ,
+  open_price NUMERIC,
+  high_price NUMERIC,
+  low_price NUMERIC,
+  close_price NUMERIC,
+  weighted_avg_price NUMERIC,
+  volume_quantity NUMERIC,
+  volume_community_coin NUMERIC,
+  trade_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH prints AS (
+    SELECT
+      th.id,
+      th.executed_at,
+      (th.amount_transferred->>'quantity')::NUMERIC AS quantity,
+      (th.amount_transferred->>'community_coin_paid')::NUMERIC AS paid
+    FROM trade_history th
+    JOIN market_listings l ON l.id = th.listing_id
+    WHERE th.trade_type = 'product'
+      AND (th.amount_transferred->>'resource_id')::UUID = p_resource_id
+      AND (p_quality_id IS NULL OR (th.amount_transferred->>'quality_id')::UUID = p_quality_id)
+      AND l.community_id = p_community_id
+      AND th.executed_at >= p_start_time
+      AND th.executed_at <= p_end_time
+      AND (th.amount_transferred->>'quantity')::NUMERIC > 0
+      AND th.amount_transferred ? 'community_coin_paid'
+  )
+  SELECT
+    date_bin(p_bucket, p.executed_at, TIMESTAMPTZ '2000-01-01 00:00:00+00') AS bucket,
+    (array_agg(p.paid / p.quantity ORDER BY p.executed_at ASC, p.id ASC))[1],
+    MAX(p.paid / p.quantity),
+    MIN(p.paid / p.quantity),
+    (array_agg(p.paid / p.quantity ORDER BY p.executed_at DESC, p.id DESC))[1],
+    SUM(p.paid) / NULLIF(SUM(p.quantity), 0),
+    SUM(p.quantity),
+    SUM(p.paid),
+    COUNT(*)::INTEGER
+  FROM prints p
+  GROUP BY bucket
+  ORDER BY bucket ASC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_product_price_history(UUID, UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTERVAL) TO anon, authenticated;
+
+-- ============================================================================
+-- 2. Depth snapshots
+-- ============================================================================
+
+-- Every resting order on a currency's book, aggregated by price. Unlike
+-- get_order_book_aggregated this is not filtered by the viewer's location.
+-- Quantities are in currency units.
+CREATE OR REPLACE FUNCTION get_exchange_depth(
+  p_community_currency_id UUID
+)
+RETURNS TABLE(
+  side TEXT,
+  price NUMERIC,
+  quantity NUMERIC,
+  order_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.order_type,
+    o.exchange_rate,
+    SUM((o.gold_amount - o.filled_gold_amount) / o.exchange_rate),
+    COUNT(*)::INTEGER
+  FROM currency_exchange_orders o
+  WHERE o.community_currency_id = p_community_currency_id
+    AND o.status IN ('active', 'partially_filled')
+    AND o.gold_amount > o.filled_gold_amount
+    AND o.exchange_rate > 0
+  GROUP BY o.order_type, o.exchange_rate
+  ORDER BY o.order_type, o.exchange_rate;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Listings (sell side) against standing buy orders (buy side) for one
+-- resource on one community market. With p_quality_id, listings of that
+-- quality and bids that would accept it.
+CREATE OR REPLACE FUNCTION get_product_depth(
+  p_community_id UUID,
+  p_resource_id UUID,
+  p_quality_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+  side TEXT,
+  price NUMERIC,
+  quantity NUMERIC,
+  order_count INTEGER
+) AS $$
+DECLARE
+  v_quality_level INT;
+BEGIN
+  SELECT quality_level INTO v_quality_level
+  FROM resource_qualities
+  WHERE id = p_quality_id;
+
+  RETURN QUERY
+  SELECT
+    'sell'::TEXT,
+    l.price_per_unit_community_coin,
+    SUM(l.quantity),
+    COUNT(*)::INTEGER
+  FROM market_listings l
+  WHERE l.listing_type = 'product'
+    AND l.status = 'active'
+    AND l.community_id = p_community_id
+    AND l.resource_id = p_resource_id
+    AND (p_quality_id IS NULL OR l.quality_id = p_quality_id)
+    AND (l.expires_at IS NULL OR l.expires_at > NOW())
+    AND l.price_per_unit_community_coin > 0
+  GROUP BY l.price_per_unit_community_coin
+
+  UNION ALL
+
+  SELECT
+    'buy'::TEXT,
+    o.max_price_per_unit,
+    SUM(o.quantity - o.filled_quantity),
+    COUNT(*)::INTEGER
+  FROM product_buy_orders o
+  JOIN resource_qualities q ON q.id = o.min_quality_id
+  WHERE o.status = 'active'
+    AND o.community_id = p_community_id
+    AND o.resource_id = p_resource_id
+    AND o.expires_at > NOW()
+    AND (v_quality_level IS NULL OR q.quality_level <= v_quality_level)
+  GROUP BY o.max_price_per_unit
+
+  ORDER BY 1, 2;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_exchange_depth(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_product_depth(UUID, UUID, UUID) TO anon, authenticated;
+
+COMMENT ON FUNCTION get_product_price_history IS
+  'OHLC candles and volume for one resource on one community market, aggregated from product trade prints.';
+COMMENT ON FUNCTION get_exchange_depth IS
+  'Resting exchange orders aggregated by price, in currency units. Not filtered by location.';
+COMMENT ON FUNCTION get_product_depth IS
+  'Product listings and standing buy orders aggregated by price for one resource on one market.';
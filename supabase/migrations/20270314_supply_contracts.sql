@@ -0,0 +1,741 @@
+-- Supply Contracts
+-- A buyer and a supplier agree on repeated deliveries of one resource at one
+-- quality: a quantity per delivery, a delivery interval, a number of
+-- deliveries, a price per delivery and a penalty per missed delivery. Either
+-- side may propose; the other accepts or rejects. Either side may tie the
+-- contract to one of its companies so it shows next to that company.
+--
+-- Payment is escrowed one delivery at a time in a community currency: the
+-- buyer funds the first delivery on acceptance and each following delivery
+-- when the previous one is made. A delivery moves items from the supplier's
+-- inventory to the buyer's and releases the escrow to the supplier. When a
+-- delivery window closes without a delivery, the supplier pays the penalty
+-- to the buyer (as much as their wallet covers) and the escrow rolls over to
+-- the next window. The contract completes after its last window.
+--
+-- An active contract may be terminated early by either side, which costs the
+-- terminating side one penalty paid to the other.
+
+-- ============================================================================
+-- 1. Transaction types
+-- ============================================================================
+
+ALTER TABLE currency_transactions
+  DROP CONSTRAINT IF EXISTS currency_transactions_transaction_type_check;
+
+ALTER TABLE currency_transactions
+  ADD CONSTRAINT currency_transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    -- Original types
+    'transfer',
+    'exchange',
+    'reward',
+    'tax',
+    'purchase',
+    'sale',
+    -- Battle system
+    'battle_cost',
+    'battle_reward',
+    'medal_reward',
+    -- Training system
+    'training_cost',
+    'training_reward',
+    -- Company/Production system
+    'company_creation',
+    'production_cost',
+    'wage_payment',
+    -- P2P Exchange Market
+    'exchange_order_locked',
+    'exchange_order_filled',
+    'exchange_order_refunded',
+    -- Community treasury spending
+    'treasury_grant',
+    'treasury_stipend',
+    -- Diplomacy
+    'war_reparations',
+    'region_sale',
+    -- Central bank
+    'savings_deposit',
+    'savings_withdrawal',
+    'interest_earned',
+    'open_market_operation',
+    -- Supply contracts
+    'contract_escrow',
+    'contract_payment',
+    'contract_penalty',
+    'contract_refund',
+    -- Future features
+    'loan_disbursement',
+    'loan_repayment',
+    'interest_payment',
+    -- Admin operations
+    'admin_grant',
+    'admin_deduction',
+    'admin_burn'
+  ));
+
+-- ============================================================================
+-- 2. Contracts
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS supply_contracts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  buyer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  buyer_company_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+  supplier_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  supplier_company_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+  proposed_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Terms
+  resource_id UUID NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  quality_id UUID NOT NULL REFERENCES resource_qualities(id) ON DELETE RESTRICT,
+  quantity_per_delivery NUMERIC NOT NULL CHECK (quantity_per_delivery > 0),
+  community_currency_id UUID NOT NULL REFERENCES community_currencies(id) ON DELETE CASCADE,
+  price_per_delivery NUMERIC NOT NULL CHECK (price_per_delivery > 0),
+  penalty_per_miss NUMERIC NOT NULL DEFAULT 0 CHECK (penalty_per_miss >= 0),
+  delivery_interval_days INTEGER NOT NULL CHECK (delivery_interval_days BETWEEN 1 AND 30),
+  total_deliveries INTEGER NOT NULL CHECK (total_deliveries BETWEEN 1 AND 100),
+
+  -- Progress
+  deliveries_made INTEGER NOT NULL DEFAULT 0,
+  deliveries_missed INTEGER NOT NULL DEFAULT 0,
+  escrow_balance NUMERIC NOT NULL DEFAULT 0 CHECK (escrow_balance >= 0), -- Buyer's payment for the current window
+  penalties_paid NUMERIC NOT NULL DEFAULT 0,
+  next_due_at TIMESTAMPTZ, -- End of the current delivery window
+
+  status TEXT NOT NULL DEFAULT 'proposed'
+    CHECK (status IN ('proposed', 'active', 'completed', 'rejected', 'cancelled', 'terminated')),
+  proposal_expires_at TIMESTAMPTZ NOT NULL DEFAULT (NOW() + INTERVAL '3 days'),
+  accepted_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  metadata JSONB NOT NULL DEFAULT '{}', -- termination_reason, terminated_by
+
+  CONSTRAINT supply_contract_parties_differ CHECK (buyer_id <> supplier_id),
+  CONSTRAINT supply_contract_deliveries_within_term CHECK (deliveries_made + deliveries_missed <= total_deliveries)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supply_contracts_buyer ON supply_contracts(buyer_id, status);
+CREATE INDEX IF NOT EXISTS idx_supply_contracts_supplier ON supply_contracts(supplier_id, status);
+CREATE INDEX IF NOT EXISTS idx_supply_contracts_due
+  ON supply_contracts(next_due_at)
+  WHERE status = 'active';
+
+ALTER TABLE supply_contracts ENABLE ROW LEVEL SECURITY;
+
+-- Only the two parties see a contract; the functions below do all writes
+DROP POLICY IF EXISTS "Parties can view their supply contracts" ON supply_contracts;
+CREATE POLICY "Parties can view their supply contracts"
+  ON supply_contracts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM users u
+      WHERE u.auth_id::text = auth.uid()::text
+        AND u.id IN (supply_contracts.buyer_id, supply_contracts.supplier_id)
+    )
+  );
+
+GRANT SELECT ON supply_contracts TO authenticated;
+
+-- ============================================================================
+-- 3. Internal helpers
+-- ============================================================================
+
+-- Move currency between two users' wallets and log it. Takes at most what the
+-- payer holds when p_partial is true, otherwise nothing unless all of it is
+-- there. Returns the amount moved. A NULL payer or payee stands for the
+-- contract's escrow.
+CREATE OR REPLACE FUNCTION move_supply_contract_funds(
+  p_contract supply_contracts,
+  p_from_user_id UUID,
+  p_to_user_id UUID,
+  p_amount NUMERIC,
+  p_transaction_type TEXT,
+  p_description TEXT,
+  p_partial BOOLEAN DEFAULT FALSE
+) RETURNS NUMERIC AS $$
+DECLARE
+  v_from_wallet_id UUID;
+  v_to_wallet_id UUID;
+  v_balance NUMERIC;
+  v_amount NUMERIC := p_amount;
+BEGIN
+  IF v_amount <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  IF p_from_user_id IS NOT NULL THEN
+    v_from_wallet_id := get_or_create_community_wallet(p_from_user_id, p_contract.community_currency_id);
+
+    SELECT community_coins INTO v_balance
+    FROM user_wallets
+    WHERE id = v_from_wallet_id
+    FOR UPDATE;
+
+    v_balance := COALESCE(v_balance, 0);
+    IF v_balance < v_amount THEN
+      IF NOT p_partial THEN
+        RETURN 0;
+      END IF;
+      v_amount := v_balance;
+    END IF;
+
+    IF v_amount <= 0 THEN
+      RETURN 0;
+    END IF;
+
+    UPDATE user_wallets
+    SET community_coins = community_coins - v_amount,
+        updated_at = NOW()
+    WHERE id = v_from_wallet_id;
+  END IF;
+
+  IF p_to_user_id IS NOT NULL THEN
+    v_to_wallet_id := get_or_create_community_wallet(p_to_user_id, p_contract.community_currency_id);
+
+    UPDATE user_wallets
+    SET community_coins = community_coins + v_amount,
+        updated_at = NOW()
+    WHERE id = v_to_wallet_id;
+  END IF;
+
+  INSERT INTO currency_transactions (
+    from_user_id, to_user_id, currency_type, community_currency_id,
+    amount, transaction_type, description, scope, metadata
+  ) VALUES (
+    p_from_user_id, p_to_user_id, 'community', p_contract.community_currency_id,
+    v_amount, p_transaction_type, p_description, 'personal',
+    jsonb_build_object(
+      'contract_id', p_contract.id,
+      'resource_id', p_contract.resource_id,
+      'quality_id', p_contract.quality_id
+    )
+  );
+
+  RETURN v_amount;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Close a contract and hand any escrow back to the buyer
+CREATE OR REPLACE FUNCTION close_supply_contract(
+  p_contract_id UUID,
+  p_status TEXT,
+  p_metadata JSONB DEFAULT '{}'
+) RETURNS VOID AS $$
+DECLARE
+  v_contract supply_contracts;
+BEGIN
+  SELECT * INTO v_contract
+  FROM supply_contracts
+  WHERE id = p_contract_id
+  FOR UPDATE;
+
+  IF v_contract.escrow_balance > 0 THEN
+    PERFORM move_supply_contract_funds(
+      v_contract, NULL, v_contract.buyer_id, v_contract.escrow_balance,
+      'contract_refund', 'Supply contract escrow returned'
+    );
+  END IF;
+
+  UPDATE supply_contracts
+  SET status = p_status,
+      escrow_balance = 0,
+      next_due_at = NULL,
+      closed_at = NOW(),
+      updated_at = NOW(),
+      metadata = metadata || p_metadata
+  WHERE id = p_contract_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Escrow the buyer's payment for the next delivery. False when they cannot cover it.
+CREATE OR REPLACE FUNCTION escrow_supply_contract_delivery(
+  p_contract_id UUID
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_contract supply_contracts;
+  v_moved NUMERIC;
+BEGIN
+  SELECT * INTO v_contract
+  FROM supply_contracts
+  WHERE id = p_contract_id
+  FOR UPDATE;
+
+  v_moved := move_supply_contract_funds(
+    v_contract, v_contract.buyer_id, NULL, v_contract.price_per_delivery,
+    'contract_escrow', 'Supply contract delivery escrowed'
+  );
+
+  IF v_moved < v_contract.price_per_delivery THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE supply_contracts
+  SET escrow_balance = escrow_balance + v_moved,
+      updated_at = NOW()
+  WHERE id = p_contract_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record a missed window: the supplier pays what they can of the penalty and
+-- the escrow carries over. Completes the contract after its last window.
+CREATE OR REPLACE FUNCTION miss_supply_contract_delivery(
+  p_contract_id UUID
+) RETURNS VOID AS $$
+DECLARE
+  v_contract supply_contracts;
+  v_paid NUMERIC;
+BEGIN
+  SELECT * INTO v_contract
+  FROM supply_contracts
+  WHERE id = p_contract_id
+    AND status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_paid := move_supply_contract_funds(
+    v_contract, v_contract.supplier_id, v_contract.buyer_id, v_contract.penalty_per_miss,
+    'contract_penalty', 'Supply contract penalty for a missed delivery', TRUE
+  );
+
+  UPDATE supply_contracts
+  SET deliveries_missed = deliveries_missed + 1,
+      penalties_paid = penalties_paid + v_paid,
+      next_due_at = next_due_at + make_interval(days => delivery_interval_days),
+      updated_at = NOW()
+  WHERE id = p_contract_id;
+
+  IF v_contract.deliveries_made + v_contract.deliveries_missed + 1 >= v_contract.total_deliveries THEN
+    PERFORM close_supply_contract(p_contract_id, 'completed');
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION move_supply_contract_funds FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION move_supply_contract_funds FROM authenticated;
+GRANT EXECUTE ON FUNCTION move_supply_contract_funds TO service_role;
+
+REVOKE EXECUTE ON FUNCTION close_supply_contract FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION close_supply_contract FROM authenticated;
+GRANT EXECUTE ON FUNCTION close_supply_contract TO service_role;
+
+REVOKE EXECUTE ON FUNCTION escrow_supply_contract_delivery FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION escrow_supply_contract_delivery FROM authenticated;
+GRANT EXECUTE ON FUNCTION escrow_supply_contract_delivery TO service_role;
+
+REVOKE EXECUTE ON FUNCTION miss_supply_contract_delivery FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION miss_supply_contract_delivery FROM authenticated;
+GRANT EXECUTE ON FUNCTION miss_supply_contract_delivery TO service_role;
+
+-- ============================================================================
+-- 4. Proposing and responding
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION propose_supply_contract(
+  p_user_id UUID,
+  p_role TEXT, -- The proposer's side: 'buyer' or 'supplier'
+  p_counterparty_id UUID,
+  p_company_id UUID,
+  p_resource_id UUID,
+  p_quality_id UUID,
+  p_quantity_per_delivery NUMERIC,
+  p_community_currency_id UUID,
+  p_price_per_delivery NUMERIC,
+  p_penalty_per_miss NUMERIC,
+  p_delivery_interval_days INTEGER,
+  p_total_deliveries INTEGER
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_contract_id UUID;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  IF p_role NOT IN ('buyer', 'supplier') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Role must be buyer or supplier');
+  END IF;
+
+  IF p_counterparty_id IS NULL OR p_counterparty_id = p_user_id
+     OR NOT EXISTS (SELECT 1 FROM users WHERE id = p_counterparty_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Choose another player to contract with');
+  END IF;
+
+  IF p_company_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM companies WHERE id = p_company_id AND owner_id = p_user_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You can only attach your own company');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM resources WHERE id = p_resource_id)
+     OR NOT EXISTS (SELECT 1 FROM resource_qualities WHERE id = p_quality_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown resource or quality');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM community_currencies WHERE id = p_community_currency_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown currency');
+  END IF;
+
+  IF p_quantity_per_delivery IS NULL OR p_quantity_per_delivery <= 0
+     OR p_quantity_per_delivery <> TRUNC(p_quantity_per_delivery) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Quantity per delivery must be a positive whole number');
+  END IF;
+
+  IF p_price_per_delivery IS NULL OR p_price_per_delivery <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Price per delivery must be positive');
+  END IF;
+
+  IF p_penalty_per_miss IS NULL OR p_penalty_per_miss < 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Penalty cannot be negative');
+  END IF;
+
+  IF p_delivery_interval_days IS NULL OR p_delivery_interval_days NOT BETWEEN 1 AND 30 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Deliveries must be 1 to 30 days apart');
+  END IF;
+
+  IF p_total_deliveries IS NULL OR p_total_deliveries NOT BETWEEN 1 AND 100 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A contract covers 1 to 100 deliveries');
+  END IF;
+
+  INSERT INTO supply_contracts (
+    buyer_id, buyer_company_id, supplier_id, supplier_company_id, proposed_by,
+    resource_id, quality_id, quantity_per_delivery, community_currency_id,
+    price_per_delivery, penalty_per_miss, delivery_interval_days, total_deliveries
+  ) VALUES (
+    CASE WHEN p_role = 'buyer' THEN p_user_id ELSE p_counterparty_id END,
+    CASE WHEN p_role = 'buyer' THEN p_company_id END,
+    CASE WHEN p_role = 'supplier' THEN p_user_id ELSE p_counterparty_id END,
+    CASE WHEN p_role = 'supplier' THEN p_company_id END,
+    p_user_id,
+    p_resource_id, p_quality_id, p_quantity_per_delivery, p_community_currency_id,
+    p_price_per_delivery, p_penalty_per_miss, p_delivery_interval_days, p_total_deliveries
+  )
+  RETURNING id INTO v_contract_id;
+
+  RETURN jsonb_build_object('success', true, 'contract_id', v_contract_id);
+END;
+$$;
+
+-- The party that did not propose accepts (funding the first delivery when
+-- they are the buyer) or rejects
+CREATE OR REPLACE FUNCTION respond_supply_contract(
+  p_user_id UUID,
+  p_contract_id UUID,
+  p_accept BOOLEAN,
+  p_company_id UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_contract supply_contracts;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  SELECT * INTO v_contract
+  FROM supply_contracts
+  WHERE id = p_contract_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+     OR p_user_id NOT IN (v_contract.buyer_id, v_contract.supplier_id)
+     OR p_user_id = v_contract.proposed_by THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Contract not found');
+  END IF;
+
+  IF v_contract.status <> 'proposed' OR v_contract.proposal_expires_at <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This proposal is no longer open');
+  END IF;
+
+  IF NOT p_accept THEN
+    PERFORM close_supply_contract(p_contract_id, 'rejected');
+    RETURN jsonb_build_object('success', true, 'status', 'rejected');
+  END IF;
+
+  IF p_company_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM companies WHERE id = p_company_id AND owner_id = p_user_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You can only attach your own company');
+  END IF;
+
+  UPDATE supply_contracts
+  SET buyer_company_id = CASE WHEN p_user_id = buyer_id THEN COALESCE(p_company_id, buyer_company_id) ELSE buyer_company_id END,
+      supplier_company_id = CASE WHEN p_user_id = supplier_id THEN COALESCE(p_company_id, supplier_company_id) ELSE supplier_company_id END,
+      updated_at = NOW()
+  WHERE id = p_contract_id;
+
+  IF NOT escrow_supply_contract_delivery(p_contract_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('The buyer cannot cover the first delivery (%s)', v_contract.price_per_delivery)
+    );
+  END IF;
+
+  UPDATE supply_contracts
+  SET status = 'active',
+      accepted_at = NOW(),
+      next_due_at = NOW() + make_interval(days => delivery_interval_days),
+      updated_at = NOW()
+  WHERE id = p_contract_id;
+
+  RETURN jsonb_build_object('success', true, 'status', 'active');
+END;
+$$;
+
+-- The proposer withdraws an open proposal, or either party terminates an
+-- active contract and pays the other one penalty
+CREATE OR REPLACE FUNCTION cancel_supply_contract(
+  p_user_id UUID,
+  p_contract_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_contract supply_contracts;
+  v_counterparty_id UUID;
+  v_paid NUMERIC;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  SELECT * INTO v_contract
+  FROM supply_contracts
+  WHERE id = p_contract_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR p_user_id NOT IN (v_contract.buyer_id, v_contract.supplier_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Contract not found');
+  END IF;
+
+  IF v_contract.status = 'proposed' THEN
+    IF p_user_id <> v_contract.proposed_by THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Reject the proposal instead');
+    END IF;
+    PERFORM close_supply_contract(p_contract_id, 'cancelled');
+    RETURN jsonb_build_object('success', true, 'status', 'cancelled', 'penalty_paid', 0);
+  END IF;
+
+  IF v_contract.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This contract is already closed');
+  END IF;
+
+  v_counterparty_id := CASE WHEN p_user_id = v_contract.buyer_id THEN v_contract.supplier_id ELSE v_contract.buyer_id END;
+
+  v_paid := move_supply_contract_funds(
+    v_contract, p_user_id, v_counterparty_id, v_contract.penalty_per_miss,
+    'contract_penalty', 'Supply contract penalty for early termination', TRUE
+  );
+
+  UPDATE supply_contracts
+  SET penalties_paid = penalties_paid + v_paid
+  WHERE id = p_contract_id;
+
+  PERFORM close_supply_contract(
+    p_contract_id,
+    'terminated',
+    jsonb_build_object('termination_reason', 'terminated_early', 'terminated_by', p_user_id)
+  );
+
+  RETURN jsonb_build_object('success', true, 'status', 'terminated', 'penalty_paid', v_paid);
+END;
+$$;
+
+-- ============================================================================
+-- 5. Deliveries and deadlines
+-- ============================================================================
+
+-- The supplier delivers for the current window. Only one delivery per
+-- window; the next window opens when this one would have closed.
+CREATE OR REPLACE FUNCTION deliver_supply_contract(
+  p_user_id UUID,
+  p_contract_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_contract supply_contracts;
+  v_available NUMERIC;
+  v_paid NUMERIC;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  SELECT * INTO v_contract
+  FROM supply_contracts
+  WHERE id = p_contract_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_contract.supplier_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Contract not found');
+  END IF;
+
+  IF v_contract.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This contract is not active');
+  END IF;
+
+  IF v_contract.next_due_at <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This delivery window has closed');
+  END IF;
+
+  IF v_contract.next_due_at - make_interval(days => v_contract.delivery_interval_days) > NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This window''s delivery has already been made');
+  END IF;
+
+  SELECT quantity INTO v_available
+  FROM user_inventory
+  WHERE user_id = p_user_id
+    AND resource_id = v_contract.resource_id
+    AND quality_id = v_contract.quality_id
+  FOR UPDATE;
+
+  IF COALESCE(v_available, 0) < v_contract.quantity_per_delivery THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Not enough items in inventory (have: %s, need: %s)', COALESCE(v_available, 0), v_contract.quantity_per_delivery)
+    );
+  END IF;
+
+  UPDATE user_inventory
+  SET quantity = quantity - v_contract.quantity_per_delivery,
+      updated_at = NOW()
+  WHERE user_id = p_user_id
+    AND resource_id = v_contract.resource_id
+    AND quality_id = v_contract.quality_id;
+
+  INSERT INTO user_inventory (user_id, resource_id, quality_id, quantity)
+  VALUES (v_contract.buyer_id, v_contract.resource_id, v_contract.quality_id, v_contract.quantity_per_delivery)
+  ON CONFLICT (user_id, resource_id, quality_id)
+  DO UPDATE SET
+    quantity = user_inventory.quantity + v_contract.quantity_per_delivery,
+    updated_at = NOW();
+
+  -- Release this window's escrow to the supplier
+  v_paid := move_supply_contract_funds(
+    v_contract, NULL, p_user_id, v_contract.escrow_balance,
+    'contract_payment', 'Supply contract delivery paid'
+  );
+
+  UPDATE supply_contracts
+  SET escrow_balance = 0,
+      deliveries_made = deliveries_made + 1,
+      next_due_at = next_due_at + make_interval(days => delivery_interval_days),
+      updated_at = NOW()
+  WHERE id = p_contract_id;
+
+  IF v_contract.deliveries_made + v_contract.deliveries_missed + 1 >= v_contract.total_deliveries THEN
+    PERFORM close_supply_contract(p_contract_id, 'completed');
+    RETURN jsonb_build_object('success', true, 'paid', v_paid, 'status', 'completed');
+  END IF;
+
+  -- Fund the next delivery; a buyer who cannot ends the contract
+  IF NOT escrow_supply_contract_delivery(p_contract_id) THEN
+    PERFORM close_supply_contract(
+      p_contract_id,
+      'terminated',
+      jsonb_build_object('termination_reason', 'buyer_unfunded', 'terminated_by', v_contract.buyer_id)
+    );
+    RETURN jsonb_build_object('success', true, 'paid', v_paid, 'status', 'terminated');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'paid', v_paid, 'status', 'active');
+END;
+$$;
+
+-- Penalise every delivery window that closed without a delivery and expire
+-- stale proposals
+CREATE OR REPLACE FUNCTION process_supply_contract_deadlines()
+RETURNS INTEGER AS $$
+DECLARE
+  v_contract_id UUID;
+  v_misses INTEGER := 0;
+BEGIN
+  -- A contract that fell several windows behind is penalised once per window
+  LOOP
+    SELECT id INTO v_contract_id
+    FROM supply_contracts
+    WHERE status = 'active'
+      AND next_due_at <= NOW()
+    ORDER BY next_due_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    EXIT WHEN NOT FOUND;
+
+    PERFORM miss_supply_contract_delivery(v_contract_id);
+    v_misses := v_misses + 1;
+  END LOOP;
+
+  FOR v_contract_id IN
+    SELECT id FROM supply_contracts
+    WHERE status = 'proposed'
+      AND proposal_expires_at <= NOW()
+  LOOP
+    PERFORM close_supply_contract(v_contract_id, 'cancelled', jsonb_build_object('termination_reason', 'proposal_expired'));
+  END LOOP;
+
+  RETURN v_misses;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION propose_supply_contract(UUID, TEXT, UUID, UUID, UUID, UUID, NUMERIC, UUID, NUMERIC, NUMERIC, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION respond_supply_contract(UUID, UUID, BOOLEAN, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_supply_contract(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION deliver_supply_contract(UUID, UUID) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION process_supply_contract_deadlines FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION process_supply_contract_deadlines FROM authenticated;
+GRANT EXECUTE ON FUNCTION process_supply_contract_deadlines TO service_role;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('process-supply-contract-deadlines');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL;  -- Ignore if job doesn't exist
+END $$;
+
+SELECT cron.schedule(
+  'process-supply-contract-deadlines',
+  '*/15 * * * *',  -- Every 15 minutes
+  $$SELECT public.process_supply_contract_deadlines();$$
+);
+
+COMMENT ON TABLE supply_contracts IS
+  'Repeated deliveries of one resource between a buyer and a supplier, paid from per-delivery escrow with a penalty for each missed window.';
+COMMENT ON FUNCTION deliver_supply_contract IS
+  'Moves one delivery from the supplier''s inventory to the buyer''s, pays the supplier from escrow and escrows the next delivery.';
+COMMENT ON FUNCTION process_supply_contract_deadlines IS
+  'Charges the penalty for every closed delivery window without a delivery and expires stale proposals.';
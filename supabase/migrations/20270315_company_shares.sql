@@ -0,0 +1,879 @@
+-- Company Shares, Dividends and Shareholder Votes
+-- An owner may issue shares in their company once. All shares start with the
+-- owner, who can then sell them on the share market for gold like any other
+-- holder. Listed shares are held by the listing until they sell or the
+-- listing is cancelled.
+--
+-- Company output and sales still land in the owner's wallet, so dividends are
+-- declared by the owner as a gold amount for the whole company: every other
+-- holder is paid their pro-rata part from the owner's wallet, and the owner's
+-- own part simply stays where it is.
+--
+-- Once anyone other than the owner holds a major stake (10% or more of the
+-- shares) three decisions need a shareholder resolution: upgrading the
+-- company, posting jobs above the approved wage, and liquidation. Holders vote
+-- with their shares; a resolution passes or fails as soon as one side holds a
+-- majority of all shares. A passed upgrade or wage resolution authorises one
+-- such action; a passed liquidation dissolves the company at once.
+
+-- ============================================================================
+-- 1. Transaction types
+-- ============================================================================
+
+ALTER TABLE currency_transactions
+  DROP CONSTRAINT IF EXISTS currency_transactions_transaction_type_check;
+
+ALTER TABLE currency_transactions
+  ADD CONSTRAINT currency_transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    -- Original types
+    'transfer',
+    'exchange',
+    'reward',
+    'tax',
+    'purchase',
+    'sale',
+    -- Battle system
+    'battle_cost',
+    'battle_reward',
+    'medal_reward',
+    -- Training system
+    'training_cost',
+    'training_reward',
+    -- Company/Production system
+    'company_creation',
+    'production_cost',
+    'wage_payment',
+    -- Company shares
+    'share_purchase',
+    'dividend_payment',
+    -- P2P Exchange Market
+    'exchange_order_locked',
+    'exchange_order_filled',
+    'exchange_order_refunded',
+    -- Community treasury spending
+    'treasury_grant',
+    'treasury_stipend',
+    -- Diplomacy
+    'war_reparations',
+    'region_sale',
+    -- Central bank
+    'savings_deposit',
+    'savings_withdrawal',
+    'interest_earned',
+    'open_market_operation',
+    -- Supply contracts
+    'contract_escrow',
+    'contract_payment',
+    'contract_penalty',
+    'contract_refund',
+    -- Future features
+    'loan_disbursement',
+    'loan_repayment',
+    'interest_payment',
+    -- Admin operations
+    'admin_grant',
+    'admin_deduction',
+    'admin_burn'
+  ));
+
+-- ============================================================================
+-- 2. Shares and the share market
+-- ============================================================================
+
+-- 0 until the owner issues shares
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS total_shares INTEGER NOT NULL DEFAULT 0 CHECK (total_shares >= 0);
+
+CREATE TABLE IF NOT EXISTS company_shareholdings (
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  holder_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  shares INTEGER NOT NULL CHECK (shares >= 0),
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (company_id, holder_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_shareholdings_holder ON company_shareholdings(holder_id);
+
+CREATE TABLE IF NOT EXISTS company_share_listings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  seller_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  shares_available INTEGER NOT NULL CHECK (shares_available >= 0),
+  price_per_share NUMERIC NOT NULL CHECK (price_per_share > 0), -- Gold
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'sold', 'cancelled')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_share_listings_active
+  ON company_share_listings(company_id, price_per_share)
+  WHERE status = 'active';
+
+-- ============================================================================
+-- 3. Dividends and resolutions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS company_dividends (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  declared_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  total_amount NUMERIC NOT NULL CHECK (total_amount > 0), -- Gold, owner's own part included
+  amount_per_share NUMERIC NOT NULL,
+  total_shares INTEGER NOT NULL,
+  paid_out NUMERIC NOT NULL DEFAULT 0, -- Gold that left the owner's wallet
+  recipients INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_dividends_company ON company_dividends(company_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS company_resolutions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  proposed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('upgrade', 'hire_wage', 'liquidation')),
+  payload JSONB NOT NULL DEFAULT '{}', -- hire_wage: {max_wage}
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'passed', 'rejected', 'expired', 'executed')),
+  shares_for INTEGER NOT NULL DEFAULT 0,
+  shares_against INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT (NOW() + INTERVAL '3 days'),
+  closed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_resolutions_company ON company_resolutions(company_id, created_at DESC);
+
+-- One open resolution per decision at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_company_resolutions_one_open
+  ON company_resolutions(company_id, kind)
+  WHERE status = 'open';
+
+CREATE TABLE IF NOT EXISTS company_resolution_votes (
+  resolution_id UUID NOT NULL REFERENCES company_resolutions(id) ON DELETE CASCADE,
+  voter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  approve BOOLEAN NOT NULL,
+  shares INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (resolution_id, voter_id)
+);
+
+-- Cap tables, listings, dividends and votes are public; the functions below do all writes
+ALTER TABLE company_shareholdings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_share_listings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_dividends ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_resolutions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_resolution_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Shareholdings are viewable by everyone" ON company_shareholdings;
+CREATE POLICY "Shareholdings are viewable by everyone" ON company_shareholdings FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Share listings are viewable by everyone" ON company_share_listings;
+CREATE POLICY "Share listings are viewable by everyone" ON company_share_listings FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Dividends are viewable by everyone" ON company_dividends;
+CREATE POLICY "Dividends are viewable by everyone" ON company_dividends FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Resolutions are viewable by everyone" ON company_resolutions;
+CREATE POLICY "Resolutions are viewable by everyone" ON company_resolutions FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Resolution votes are viewable by everyone" ON company_resolution_votes;
+CREATE POLICY "Resolution votes are viewable by everyone" ON company_resolution_votes FOR SELECT USING (true);
+
+GRANT SELECT ON company_shareholdings, company_share_listings, company_dividends,
+  company_resolutions, company_resolution_votes TO authenticated;
+
+-- ============================================================================
+-- 4. Helpers
+-- ============================================================================
+
+-- Add (or with a negative amount, remove) shares from a holder
+CREATE OR REPLACE FUNCTION adjust_company_shareholding(
+  p_company_id UUID,
+  p_holder_id UUID,
+  p_shares INTEGER
+) RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO company_shareholdings (company_id, holder_id, shares)
+  VALUES (p_company_id, p_holder_id, p_shares)
+  ON CONFLICT (company_id, holder_id) DO UPDATE
+  SET shares = company_shareholdings.shares + EXCLUDED.shares,
+      updated_at = NOW();
+
+  DELETE FROM company_shareholdings
+  WHERE company_id = p_company_id
+    AND holder_id = p_holder_id
+    AND shares = 0;
+END;
+$$;
+
+-- Shares a user controls: their holding plus anything they have listed
+CREATE OR REPLACE FUNCTION get_company_voting_shares(
+  p_company_id UUID,
+  p_holder_id UUID
+) RETURNS INTEGER
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (
+    COALESCE((SELECT shares FROM company_shareholdings
+              WHERE company_id = p_company_id AND holder_id = p_holder_id), 0)
+    + COALESCE((SELECT SUM(shares_available)::INTEGER FROM company_share_listings
+                WHERE company_id = p_company_id AND seller_id = p_holder_id AND status = 'active'), 0)
+  );
+$$;
+
+-- True when someone other than the owner controls 10% or more of the shares
+CREATE OR REPLACE FUNCTION company_requires_shareholder_vote(p_company_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM companies c
+    JOIN (
+      SELECT holder_id FROM company_shareholdings WHERE company_id = p_company_id
+      UNION
+      SELECT seller_id FROM company_share_listings WHERE company_id = p_company_id AND status = 'active'
+    ) h ON h.holder_id <> c.owner_id
+    WHERE c.id = p_company_id
+      AND c.total_shares > 0
+      AND get_company_voting_shares(p_company_id, h.holder_id) * 10 >= c.total_shares
+  );
+$$;
+
+-- Mark resolutions whose voting window has closed
+CREATE OR REPLACE FUNCTION expire_company_resolutions(p_company_id UUID)
+RETURNS VOID
+LANGUAGE sql SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE company_resolutions
+  SET status = 'expired',
+      closed_at = NOW()
+  WHERE company_id = p_company_id
+    AND status IN ('open', 'passed')
+    AND expires_at <= NOW();
+$$;
+
+-- Dissolve a company after a passed liquidation vote. The company holds no
+-- assets of its own, so everything tied to it simply goes with it.
+CREATE OR REPLACE FUNCTION liquidate_company(p_company_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM companies WHERE id = p_company_id;
+END;
+$$;
+
+-- The company owner's check before an upgrade or a job listing. Succeeds
+-- outright while no outside holder has a major stake; otherwise it consumes a
+-- passed resolution for the decision (for hire_wage, one approving at least
+-- p_value).
+CREATE OR REPLACE FUNCTION use_company_approval(
+  p_user_id UUID,
+  p_company_id UUID,
+  p_kind TEXT,
+  p_value NUMERIC DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_resolution_id UUID;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM companies WHERE id = p_company_id AND owner_id = p_user_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You do not own this company');
+  END IF;
+
+  IF p_kind NOT IN ('upgrade', 'hire_wage') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown decision');
+  END IF;
+
+  IF NOT company_requires_shareholder_vote(p_company_id) THEN
+    RETURN jsonb_build_object('success', true, 'vote_required', false);
+  END IF;
+
+  PERFORM expire_company_resolutions(p_company_id);
+
+  SELECT id INTO v_resolution_id
+  FROM company_resolutions
+  WHERE company_id = p_company_id
+    AND kind = p_kind
+    AND status = 'passed'
+    AND (p_kind <> 'hire_wage' OR (payload->>'max_wage')::NUMERIC >= COALESCE(p_value, 0))
+  ORDER BY closed_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_resolution_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', CASE p_kind
+        WHEN 'upgrade' THEN 'Major shareholders must approve an upgrade first'
+        ELSE 'Major shareholders must approve this wage first'
+      END
+    );
+  END IF;
+
+  UPDATE company_resolutions
+  SET status = 'executed'
+  WHERE id = v_resolution_id;
+
+  RETURN jsonb_build_object('success', true, 'vote_required', true, 'resolution_id', v_resolution_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION adjust_company_shareholding FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION adjust_company_shareholding FROM authenticated;
+GRANT EXECUTE ON FUNCTION adjust_company_shareholding TO service_role;
+
+REVOKE EXECUTE ON FUNCTION expire_company_resolutions FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION expire_company_resolutions FROM authenticated;
+GRANT EXECUTE ON FUNCTION expire_company_resolutions TO service_role;
+
+REVOKE EXECUTE ON FUNCTION liquidate_company FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION liquidate_company FROM authenticated;
+GRANT EXECUTE ON FUNCTION liquidate_company TO service_role;
+
+-- ============================================================================
+-- 5. Issuing and trading shares
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION issue_company_shares(
+  p_user_id UUID,
+  p_company_id UUID,
+  p_total_shares INTEGER
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_company companies;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  SELECT * INTO v_company
+  FROM companies
+  WHERE id = p_company_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_company.owner_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You do not own this company');
+  END IF;
+
+  IF v_company.total_shares > 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Shares have already been issued');
+  END IF;
+
+  IF p_total_shares IS NULL OR p_total_shares NOT BETWEEN 100 AND 1000000 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Issue between 100 and 1,000,000 shares');
+  END IF;
+
+  UPDATE companies
+  SET total_shares = p_total_shares,
+      updated_at = NOW()
+  WHERE id = p_company_id;
+
+  PERFORM adjust_company_shareholding(p_company_id, p_user_id, p_total_shares);
+
+  RETURN jsonb_build_object('success', true, 'total_shares', p_total_shares);
+END;
+$$;
+
+-- Move shares from the holder into a listing on the share market
+CREATE OR REPLACE FUNCTION list_company_shares(
+  p_user_id UUID,
+  p_company_id UUID,
+  p_shares INTEGER,
+  p_price_per_share NUMERIC
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_held INTEGER;
+  v_listing_id UUID;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  IF p_shares IS NULL OR p_shares <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'List at least one share');
+  END IF;
+
+  IF p_price_per_share IS NULL OR p_price_per_share <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Price per share must be positive');
+  END IF;
+
+  SELECT shares INTO v_held
+  FROM company_shareholdings
+  WHERE company_id = p_company_id AND holder_id = p_user_id
+  FOR UPDATE;
+
+  IF COALESCE(v_held, 0) < p_shares THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('You hold %s unlisted shares', COALESCE(v_held, 0))
+    );
+  END IF;
+
+  PERFORM adjust_company_shareholding(p_company_id, p_user_id, -p_shares);
+
+  INSERT INTO company_share_listings (company_id, seller_id, shares_available, price_per_share)
+  VALUES (p_company_id, p_user_id, p_shares, p_price_per_share)
+  RETURNING id INTO v_listing_id;
+
+  RETURN jsonb_build_object('success', true, 'listing_id', v_listing_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_company_share_listing(
+  p_user_id UUID,
+  p_listing_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_listing company_share_listings;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  SELECT * INTO v_listing
+  FROM company_share_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.seller_id <> p_user_id OR v_listing.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Listing not found');
+  END IF;
+
+  UPDATE company_share_listings
+  SET status = 'cancelled',
+      updated_at = NOW()
+  WHERE id = p_listing_id;
+
+  PERFORM adjust_company_shareholding(v_listing.company_id, p_user_id, v_listing.shares_available);
+
+  RETURN jsonb_build_object('success', true, 'shares_returned', v_listing.shares_available);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION buy_company_shares(
+  p_user_id UUID,
+  p_listing_id UUID,
+  p_shares INTEGER
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_listing company_share_listings;
+  v_company_name TEXT;
+  v_cost NUMERIC;
+  v_transfer JSONB;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  SELECT * INTO v_listing
+  FROM company_share_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Listing not found');
+  END IF;
+
+  IF v_listing.seller_id = p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You cannot buy your own shares');
+  END IF;
+
+  IF p_shares IS NULL OR p_shares <= 0 OR p_shares > v_listing.shares_available THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Choose between 1 and %s shares', v_listing.shares_available)
+    );
+  END IF;
+
+  SELECT name INTO v_company_name FROM companies WHERE id = v_listing.company_id;
+  v_cost := p_shares * v_listing.price_per_share;
+
+  v_transfer := transfer_gold_enhanced(
+    p_user_id,
+    v_listing.seller_id,
+    v_cost,
+    'share_purchase',
+    format('%s shares of %s', p_shares, v_company_name),
+    jsonb_build_object(
+      'company_id', v_listing.company_id,
+      'listing_id', p_listing_id,
+      'shares', p_shares,
+      'price_per_share', v_listing.price_per_share
+    )
+  );
+
+  IF NOT COALESCE((v_transfer->>'success')::BOOLEAN, false) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Insufficient gold (need: %s)', v_cost)
+    );
+  END IF;
+
+  UPDATE company_share_listings
+  SET shares_available = shares_available - p_shares,
+      status = CASE WHEN shares_available = p_shares THEN 'sold' ELSE status END,
+      updated_at = NOW()
+  WHERE id = p_listing_id;
+
+  PERFORM adjust_company_shareholding(v_listing.company_id, p_user_id, p_shares);
+
+  RETURN jsonb_build_object('success', true, 'shares', p_shares, 'gold_spent', v_cost);
+END;
+$$;
+
+-- ============================================================================
+-- 6. Dividends
+-- ============================================================================
+
+-- Pay every other holder their part of p_total_amount gold from the owner's
+-- wallet. Listed shares earn dividends for their seller.
+CREATE OR REPLACE FUNCTION declare_company_dividend(
+  p_user_id UUID,
+  p_company_id UUID,
+  p_total_amount NUMERIC
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_company companies;
+  v_per_share NUMERIC;
+  v_outside_shares INTEGER;
+  v_wallet_id UUID;
+  v_balance NUMERIC;
+  v_dividend_id UUID;
+  v_holder RECORD;
+  v_amount NUMERIC;
+  v_paid NUMERIC := 0;
+  v_recipients INTEGER := 0;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  SELECT * INTO v_company
+  FROM companies
+  WHERE id = p_company_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_company.owner_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You do not own this company');
+  END IF;
+
+  IF v_company.total_shares = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Issue shares before paying dividends');
+  END IF;
+
+  IF p_total_amount IS NULL OR p_total_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Dividend must be positive');
+  END IF;
+
+  v_per_share := p_total_amount / v_company.total_shares;
+
+  SELECT COALESCE(SUM(get_company_voting_shares(p_company_id, holders.holder_id)), 0)
+  INTO v_outside_shares
+  FROM (
+    SELECT holder_id FROM company_shareholdings WHERE company_id = p_company_id
+    UNION
+    SELECT seller_id FROM company_share_listings WHERE company_id = p_company_id AND status = 'active'
+  ) holders
+  WHERE holders.holder_id <> p_user_id;
+
+  v_wallet_id := get_or_create_gold_wallet(p_user_id);
+  SELECT gold_coins INTO v_balance
+  FROM user_wallets
+  WHERE id = v_wallet_id
+  FOR UPDATE;
+
+  IF COALESCE(v_balance, 0) < ROUND(v_outside_shares * v_per_share, 4) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Insufficient gold for the outside holders (have: %s, need: %s)',
+        COALESCE(v_balance, 0), ROUND(v_outside_shares * v_per_share, 4))
+    );
+  END IF;
+
+  INSERT INTO company_dividends (company_id, declared_by, total_amount, amount_per_share, total_shares)
+  VALUES (p_company_id, p_user_id, p_total_amount, v_per_share, v_company.total_shares)
+  RETURNING id INTO v_dividend_id;
+
+  FOR v_holder IN
+    SELECT holders.holder_id, get_company_voting_shares(p_company_id, holders.holder_id) AS shares
+    FROM (
+      SELECT holder_id FROM company_shareholdings WHERE company_id = p_company_id
+      UNION
+      SELECT seller_id FROM company_share_listings WHERE company_id = p_company_id AND status = 'active'
+    ) holders
+    WHERE holders.holder_id <> p_user_id
+  LOOP
+    v_amount := ROUND(v_holder.shares * v_per_share, 4);
+    CONTINUE WHEN v_amount <= 0;
+
+    PERFORM transfer_gold_enhanced(
+      p_user_id,
+      v_holder.holder_id,
+      v_amount,
+      'dividend_payment',
+      format('Dividend from %s', v_company.name),
+      jsonb_build_object(
+        'company_id', p_company_id,
+        'dividend_id', v_dividend_id,
+        'shares', v_holder.shares,
+        'amount_per_share', v_per_share
+      )
+    );
+
+    v_paid := v_paid + v_amount;
+    v_recipients := v_recipients + 1;
+  END LOOP;
+
+  UPDATE company_dividends
+  SET paid_out = v_paid,
+      recipients = v_recipients
+  WHERE id = v_dividend_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'dividend_id', v_dividend_id,
+    'paid_out', v_paid,
+    'recipients', v_recipients
+  );
+END;
+$$;
+
+-- ============================================================================
+-- 7. Shareholder resolutions
+-- ============================================================================
+
+-- The owner or any major holder puts a decision to a vote
+CREATE OR REPLACE FUNCTION propose_company_resolution(
+  p_user_id UUID,
+  p_company_id UUID,
+  p_kind TEXT,
+  p_max_wage NUMERIC DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_company companies;
+  v_shares INTEGER;
+  v_resolution_id UUID;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  SELECT * INTO v_company FROM companies WHERE id = p_company_id;
+  IF NOT FOUND OR v_company.total_shares = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This company has not issued shares');
+  END IF;
+
+  v_shares := get_company_voting_shares(p_company_id, p_user_id);
+  IF v_company.owner_id <> p_user_id AND v_shares * 10 < v_company.total_shares THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only the owner and major shareholders can propose');
+  END IF;
+
+  IF p_kind NOT IN ('upgrade', 'hire_wage', 'liquidation') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown decision');
+  END IF;
+
+  IF p_kind = 'hire_wage' AND (p_max_wage IS NULL OR p_max_wage < 0.01) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Wage must be at least 0.01 community coin per day');
+  END IF;
+
+  PERFORM expire_company_resolutions(p_company_id);
+
+  IF EXISTS (
+    SELECT 1 FROM company_resolutions
+    WHERE company_id = p_company_id AND kind = p_kind AND status = 'open'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A vote on this decision is already open');
+  END IF;
+
+  INSERT INTO company_resolutions (company_id, proposed_by, kind, payload)
+  VALUES (
+    p_company_id,
+    p_user_id,
+    p_kind,
+    CASE WHEN p_kind = 'hire_wage' THEN jsonb_build_object('max_wage', p_max_wage) ELSE '{}'::jsonb END
+  )
+  RETURNING id INTO v_resolution_id;
+
+  RETURN jsonb_build_object('success', true, 'resolution_id', v_resolution_id);
+END;
+$$;
+
+-- Vote with every share the holder controls. The resolution closes as soon as
+-- either side has a majority of all shares.
+CREATE OR REPLACE FUNCTION vote_company_resolution(
+  p_user_id UUID,
+  p_resolution_id UUID,
+  p_approve BOOLEAN
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_resolution company_resolutions;
+  v_total_shares INTEGER;
+  v_shares INTEGER;
+  v_for INTEGER;
+  v_against INTEGER;
+  v_status TEXT := 'open';
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  SELECT * INTO v_resolution
+  FROM company_resolutions
+  WHERE id = p_resolution_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Resolution not found');
+  END IF;
+
+  PERFORM expire_company_resolutions(v_resolution.company_id);
+
+  IF v_resolution.status <> 'open' OR v_resolution.expires_at <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This vote has closed');
+  END IF;
+
+  v_shares := get_company_voting_shares(v_resolution.company_id, p_user_id);
+  IF v_shares = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only shareholders can vote');
+  END IF;
+
+  INSERT INTO company_resolution_votes (resolution_id, voter_id, approve, shares)
+  VALUES (p_resolution_id, p_user_id, p_approve, v_shares)
+  ON CONFLICT (resolution_id, voter_id) DO UPDATE
+  SET approve = EXCLUDED.approve,
+      shares = EXCLUDED.shares,
+      created_at = NOW();
+
+  SELECT
+    COALESCE(SUM(shares) FILTER (WHERE approve), 0),
+    COALESCE(SUM(shares) FILTER (WHERE NOT approve), 0)
+  INTO v_for, v_against
+  FROM company_resolution_votes
+  WHERE resolution_id = p_resolution_id;
+
+  SELECT total_shares INTO v_total_shares FROM companies WHERE id = v_resolution.company_id;
+
+  IF v_for * 2 > v_total_shares THEN
+    v_status := 'passed';
+  ELSIF v_against * 2 >= v_total_shares THEN
+    v_status := 'rejected';
+  END IF;
+
+  UPDATE company_resolutions
+  SET shares_for = v_for,
+      shares_against = v_against,
+      status = v_status,
+      closed_at = CASE WHEN v_status = 'open' THEN NULL ELSE NOW() END
+  WHERE id = p_resolution_id;
+
+  -- Liquidation takes effect immediately
+  IF v_status = 'passed' AND v_resolution.kind = 'liquidation' THEN
+    PERFORM liquidate_company(v_resolution.company_id);
+    v_status := 'executed';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', v_status,
+    'shares_for', v_for,
+    'shares_against', v_against
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_company_voting_shares(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION company_requires_shareholder_vote(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION use_company_approval(UUID, UUID, TEXT, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION issue_company_shares(UUID, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION list_company_shares(UUID, UUID, INTEGER, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_company_share_listing(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION buy_company_shares(UUID, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION declare_company_dividend(UUID, UUID, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION propose_company_resolution(UUID, UUID, TEXT, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION vote_company_resolution(UUID, UUID, BOOLEAN) TO authenticated;
+
+COMMENT ON COLUMN companies.total_shares IS
+  'Shares issued in the company; 0 while it has a single owner';
+COMMENT ON FUNCTION declare_company_dividend IS
+  'Pay outside shareholders their pro-rata part of a gold dividend from the owner''s wallet';
+COMMENT ON FUNCTION use_company_approval IS
+  'Check (and consume) shareholder approval for an upgrade or job wage when major outside holders exist';
@@ -0,0 +1,442 @@
+-- ============================================================================
+-- PRODUCTION CHAINS: Multi-input recipes and intermediate goods
+-- ============================================================================
+-- Recipes can now take several inputs and produce intermediate goods that
+-- feed further recipes:
+--   iron + oil   -> steel   (Steel Foundry)
+--   steel + iron -> armor   (Armory)
+--   grain + oil  -> rations (Field Kitchen)
+-- Mirrors PRODUCTION_RECIPES and COMPANY_TYPES in lib/company-config.ts.
+--
+-- perform_work now locks the founder's stock, checks every input and only
+-- then consumes them (lowest quality first), so a recipe either runs whole or
+-- not at all. Outputs honour base_quantity and the recipe must belong to the
+-- company's type.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Intermediate goods
+-- ============================================================================
+
+ALTER TABLE resources DROP CONSTRAINT IF EXISTS resources_category_check;
+ALTER TABLE resources
+  ADD CONSTRAINT resources_category_check
+  CHECK (category IN ('raw_material', 'intermediate', 'product', 'consumable'));
+
+INSERT INTO resources (key, name, description, category, icon_name, tradeable, stackable)
+VALUES
+  ('steel', 'Steel', 'Refined metal smelted from iron and oil', 'intermediate', 'anvil', true, true),
+  ('armor', 'Armor', 'Protective gear forged from steel', 'product', 'shield', true, true),
+  ('rations', 'Rations', 'Preserved food for long marches', 'consumable', 'package', true, true)
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================================================
+-- 2. Recipes and company types
+-- ============================================================================
+
+DO $$
+DECLARE
+  v_grain_id UUID;
+  v_iron_id UUID;
+  v_oil_id UUID;
+  v_steel_id UUID;
+  v_armor_id UUID;
+  v_rations_id UUID;
+  v_smelt_steel_id UUID;
+  v_forge_armor_id UUID;
+  v_pack_rations_id UUID;
+BEGIN
+  SELECT id INTO v_grain_id FROM resources WHERE key = 'grain';
+  SELECT id INTO v_iron_id FROM resources WHERE key = 'iron';
+  SELECT id INTO v_oil_id FROM resources WHERE key = 'oil';
+  SELECT id INTO v_steel_id FROM resources WHERE key = 'steel';
+  SELECT id INTO v_armor_id FROM resources WHERE key = 'armor';
+  SELECT id INTO v_rations_id FROM resources WHERE key = 'rations';
+
+  -- SMELT STEEL (5 iron + 2 oil -> 1 steel)
+  INSERT INTO production_recipes (key, name, description, inputs, outputs, time_cost_work_days, metadata)
+  VALUES (
+    'smelt_steel',
+    'Smelt Steel',
+    'Refine iron ore with oil as fuel. Requires 5 iron and 2 oil to produce 1 steel.',
+    jsonb_build_object(v_iron_id::TEXT, 5, v_oil_id::TEXT, 2),
+    jsonb_build_object(v_steel_id::TEXT, jsonb_build_object('base_quantity', 1, 'quality_level', 1)),
+    1,
+    '{"category": "refining", "skill_requirement": null}'
+  )
+  ON CONFLICT (key) DO UPDATE SET
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    inputs = EXCLUDED.inputs,
+    outputs = EXCLUDED.outputs,
+    metadata = EXCLUDED.metadata
+  RETURNING id INTO v_smelt_steel_id;
+
+  -- FORGE ARMOR (3 steel + 2 iron -> 1 armor)
+  INSERT INTO production_recipes (key, name, description, inputs, outputs, time_cost_work_days, metadata)
+  VALUES (
+    'forge_armor',
+    'Forge Armor',
+    'Hammer steel plates onto an iron frame. Requires 3 steel and 2 iron to produce 1 armor.',
+    jsonb_build_object(v_steel_id::TEXT, 3, v_iron_id::TEXT, 2),
+    jsonb_build_object(v_armor_id::TEXT, jsonb_build_object('base_quantity', 1, 'quality_level', 1)),
+    1,
+    '{"category": "smithing", "skill_requirement": null}'
+  )
+  ON CONFLICT (key) DO UPDATE SET
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    inputs = EXCLUDED.inputs,
+    outputs = EXCLUDED.outputs,
+    metadata = EXCLUDED.metadata
+  RETURNING id INTO v_forge_armor_id;
+
+  -- PACK RATIONS (5 grain + 1 oil -> 2 rations)
+  INSERT INTO production_recipes (key, name, description, inputs, outputs, time_cost_work_days, metadata)
+  VALUES (
+    'pack_rations',
+    'Pack Rations',
+    'Cook and seal grain for the road. Requires 5 grain and 1 oil to produce 2 rations.',
+    jsonb_build_object(v_grain_id::TEXT, 5, v_oil_id::TEXT, 1),
+    jsonb_build_object(v_rations_id::TEXT, jsonb_build_object('base_quantity', 2, 'quality_level', 1)),
+    1,
+    '{"category": "processing", "skill_requirement": null}'
+  )
+  ON CONFLICT (key) DO UPDATE SET
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    inputs = EXCLUDED.inputs,
+    outputs = EXCLUDED.outputs,
+    metadata = EXCLUDED.metadata
+  RETURNING id INTO v_pack_rations_id;
+
+  INSERT INTO company_types (key, name, description, build_cost_gold, build_cost_resources, can_produce_recipes, icon, metadata)
+  VALUES
+    (
+      'foundry',
+      'Steel Foundry',
+      'Smelt iron and oil into steel.',
+      200,
+      jsonb_build_object(v_iron_id::TEXT, 10),
+      jsonb_build_array(v_smelt_steel_id::TEXT),
+      'flame',
+      '{"pollution_per_work": 4, "upgradeable": true, "max_level": 5}'
+    ),
+    (
+      'armory',
+      'Armory',
+      'Forge armor from steel and iron.',
+      250,
+      jsonb_build_object(v_steel_id::TEXT, 5),
+      jsonb_build_array(v_forge_armor_id::TEXT),
+      'shield',
+      '{"pollution_per_work": 2, "upgradeable": true, "max_level": 5}'
+    ),
+    (
+      'field_kitchen',
+      'Field Kitchen',
+      'Pack grain and oil into rations for long marches.',
+      150,
+      jsonb_build_object(v_grain_id::TEXT, 10),
+      jsonb_build_array(v_pack_rations_id::TEXT),
+      'soup',
+      '{"pollution_per_work": 1, "upgradeable": true, "max_level": 5}'
+    )
+  ON CONFLICT (key) DO UPDATE SET
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    build_cost_gold = EXCLUDED.build_cost_gold,
+    build_cost_resources = EXCLUDED.build_cost_resources,
+    can_produce_recipes = EXCLUDED.can_produce_recipes,
+    icon = EXCLUDED.icon,
+    metadata = EXCLUDED.metadata;
+END $$;
+
+-- ============================================================================
+-- 3. Atomic perform_work
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS perform_work(UUID, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION perform_work(
+  p_worker_id UUID,
+  p_company_id UUID,
+  p_recipe_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_company RECORD;
+  v_recipe RECORD;
+  v_contract RECORD;
+  v_founder_id UUID;
+  v_work_type TEXT;
+  v_wage NUMERIC := 0;
+  v_inputs JSONB;
+  v_outputs JSONB;
+  v_hex_bonuses JSONB := '{}';
+  v_result JSONB;
+  v_resource_id UUID;
+  v_required_qty NUMERIC;
+  v_current_qty NUMERIC;
+  v_missing TEXT[] := ARRAY[]::TEXT[];
+  v_stock RECORD;
+  v_take NUMERIC;
+  v_output_qty NUMERIC;
+  v_quality_id UUID;
+  v_quality_tier INT;
+  v_company_level INT;
+  v_quality_roll NUMERIC;
+BEGIN
+  -- 1. Check cooldown (one work per company per day)
+  IF NOT can_work_today(p_worker_id, p_company_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Already worked at this company today'
+    );
+  END IF;
+
+  -- 2. Get company details
+  SELECT * INTO v_company FROM companies WHERE id = p_company_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Company not found');
+  END IF;
+
+  v_founder_id := v_company.owner_id;
+  v_company_level := COALESCE(v_company.level, 1);
+
+  -- 3. Determine work type (manager vs employee)
+  IF p_worker_id = v_founder_id THEN
+    v_work_type := 'manager';
+  ELSE
+    -- Check employment contract
+    SELECT * INTO v_contract
+    FROM employment_contracts
+    WHERE company_id = p_company_id
+      AND employee_id = p_worker_id
+      AND active = true;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Not employed at this company');
+    END IF;
+
+    v_work_type := 'employee';
+    v_wage := v_contract.wage_per_day_community_coin;
+  END IF;
+
+  -- 4. Get recipe (must be one this company type can produce)
+  SELECT * INTO v_recipe FROM production_recipes WHERE id = p_recipe_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Recipe not found');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM company_types ct
+    WHERE ct.id = v_company.company_type_id
+      AND ct.can_produce_recipes ? p_recipe_id::TEXT
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This company cannot produce that recipe');
+  END IF;
+
+  v_inputs := v_recipe.inputs;
+  v_outputs := v_recipe.outputs;
+
+  -- 5. Lock the FOUNDER's stock of every input and check all of them before
+  -- touching any, reporting everything that is short
+  PERFORM 1
+  FROM user_inventory
+  WHERE user_id = v_founder_id
+    AND resource_id IN (SELECT key::UUID FROM jsonb_each(v_inputs))
+  FOR UPDATE;
+
+  FOR v_resource_id, v_required_qty IN
+    SELECT (key::UUID), (value::TEXT)::NUMERIC
+    FROM jsonb_each(v_inputs)
+  LOOP
+    SELECT COALESCE(SUM(quantity), 0) INTO v_current_qty
+    FROM user_inventory
+    WHERE user_id = v_founder_id
+      AND resource_id = v_resource_id;
+
+    IF v_current_qty < v_required_qty THEN
+      v_missing := v_missing || format(
+        '%s %s',
+        v_required_qty - v_current_qty,
+        COALESCE((SELECT name FROM resources WHERE id = v_resource_id), 'materials')
+      );
+    END IF;
+  END LOOP;
+
+  IF array_length(v_missing, 1) > 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Founder lacks required materials: ' || array_to_string(v_missing, ', ') || ' short'
+    );
+  END IF;
+
+  -- 6. Consume inputs from FOUNDER's inventory, lowest quality first
+  FOR v_resource_id, v_required_qty IN
+    SELECT (key::UUID), (value::TEXT)::NUMERIC
+    FROM jsonb_each(v_inputs)
+  LOOP
+    FOR v_stock IN
+      SELECT ui.id, ui.quantity
+      FROM user_inventory ui
+      LEFT JOIN resource_qualities rq ON rq.id = ui.quality_id
+      WHERE ui.user_id = v_founder_id
+        AND ui.resource_id = v_resource_id
+        AND ui.quantity > 0
+      ORDER BY rq.quality_level NULLS FIRST
+    LOOP
+      EXIT WHEN v_required_qty <= 0;
+      v_take := LEAST(v_stock.quantity, v_required_qty);
+
+      UPDATE user_inventory
+      SET quantity = quantity - v_take,
+          updated_at = NOW()
+      WHERE id = v_stock.id;
+
+      v_required_qty := v_required_qty - v_take;
+    END LOOP;
+  END LOOP;
+
+  -- 7. Produce outputs to FOUNDER's inventory with level-based quality
+  -- Quality distribution based on company level:
+  -- Level 1: 100% Common (tier 1)
+  -- Level 2: 60% Common, 40% Uncommon (tier 2)
+  -- Level 3: 40% Common, 40% Uncommon, 20% Rare (tier 3)
+  -- Level 4: 20% Uncommon, 50% Rare, 30% Epic (tier 4)
+  -- Level 5: 10% Rare, 40% Epic, 50% Legendary (tier 5)
+
+  FOR v_resource_id, v_output_qty IN
+    SELECT (key::UUID), COALESCE((value->>'base_quantity')::NUMERIC, 1)
+    FROM jsonb_each(v_outputs)
+  LOOP
+    -- Roll for quality based on company level
+    v_quality_roll := random();
+
+    IF v_company_level = 1 THEN
+      v_quality_tier := 1; -- Common
+    ELSIF v_company_level = 2 THEN
+      IF v_quality_roll < 0.60 THEN
+        v_quality_tier := 1; -- Common
+      ELSE
+        v_quality_tier := 2; -- Uncommon
+      END IF;
+    ELSIF v_company_level = 3 THEN
+      IF v_quality_roll < 0.40 THEN
+        v_quality_tier := 1; -- Common
+      ELSIF v_quality_roll < 0.80 THEN
+        v_quality_tier := 2; -- Uncommon
+      ELSE
+        v_quality_tier := 3; -- Rare
+      END IF;
+    ELSIF v_company_level = 4 THEN
+      IF v_quality_roll < 0.20 THEN
+        v_quality_tier := 2; -- Uncommon
+      ELSIF v_quality_roll < 0.70 THEN
+        v_quality_tier := 3; -- Rare
+      ELSE
+        v_quality_tier := 4; -- Epic
+      END IF;
+    ELSE -- Level 5+
+      IF v_quality_roll < 0.10 THEN
+        v_quality_tier := 3; -- Rare
+      ELSIF v_quality_roll < 0.50 THEN
+        v_quality_tier := 4; -- Epic
+      ELSE
+        v_quality_tier := 5; -- Legendary
+      END IF;
+    END IF;
+
+    -- Get the quality ID for this tier
+    SELECT id INTO v_quality_id
+    FROM resource_qualities
+    WHERE quality_level = v_quality_tier
+    LIMIT 1;
+
+    -- If quality not found, fallback to common
+    IF v_quality_id IS NULL THEN
+      SELECT id INTO v_quality_id FROM resource_qualities WHERE key = 'common' LIMIT 1;
+    END IF;
+
+    -- Add resource to inventory
+    INSERT INTO user_inventory (user_id, resource_id, quality_id, quantity)
+    VALUES (v_founder_id, v_resource_id, v_quality_id, v_output_qty)
+    ON CONFLICT (user_id, resource_id, quality_id)
+    DO UPDATE SET
+      quantity = user_inventory.quantity + v_output_qty,
+      updated_at = NOW();
+  END LOOP;
+
+  -- 8. Pay wage if employee (from founder's wallet to employee's wallet)
+  IF v_work_type = 'employee' AND v_wage > 0 THEN
+    -- Deduct from founder's community coin wallet
+    UPDATE user_wallets
+    SET community_coins = community_coins - v_wage,
+        updated_at = NOW()
+    WHERE user_id = v_founder_id
+      AND currency_type = 'community'
+      AND community_currency_id = v_contract.community_coin_type;
+
+    -- Add to employee's community coin wallet
+    INSERT INTO user_wallets (
+      user_id,
+      currency_type,
+      community_currency_id,
+      community_coins
+    )
+    VALUES (p_worker_id, 'community', v_contract.community_coin_type, v_wage)
+    ON CONFLICT (user_id, community_currency_id)
+    DO UPDATE SET
+      community_coins = user_wallets.community_coins + v_wage,
+      updated_at = NOW();
+
+    -- Update contract stats
+    UPDATE employment_contracts
+    SET last_worked_at = NOW(),
+        total_work_days = total_work_days + 1
+    WHERE id = v_contract.id;
+  END IF;
+
+  -- 9. Record work history
+  INSERT INTO work_history (
+    user_id,
+    company_id,
+    work_type,
+    recipe_id,
+    resources_consumed,
+    resources_produced,
+    hex_bonuses_applied,
+    wage_earned,
+    currency_type,
+    worked_at
+  ) VALUES (
+    p_worker_id,
+    p_company_id,
+    v_work_type,
+    p_recipe_id,
+    v_inputs,
+    v_outputs,
+    v_hex_bonuses,
+    v_wage,
+    CASE WHEN v_wage > 0 THEN 'community_coin' ELSE NULL END,
+    NOW()
+  );
+
+  -- 10. Return success
+  v_result := jsonb_build_object(
+    'success', true,
+    'work_type', v_work_type,
+    'inputs_consumed', v_inputs,
+    'outputs_produced', v_outputs,
+    'wage_earned', v_wage,
+    'hex_bonuses', v_hex_bonuses,
+    'quality_tier', v_quality_tier,
+    'company_level', v_company_level
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant execute permission
+GRANT EXECUTE ON FUNCTION perform_work(UUID, UUID, UUID) TO authenticated;
@@ -0,0 +1,1377 @@
+-- Company Upkeep, Bankruptcy and Asset Auctions
+-- Every company now has a gold cash balance that its owner pays into and out
+-- of. Each day a company costs upkeep per level, taken from that balance.
+-- When the balance cannot cover what is owed the company becomes delinquent
+-- and a grace period starts; paying in enough gold during the grace period
+-- clears it. Once the grace period runs out the company goes bankrupt.
+--
+-- Bankruptcy wipes the shares, releases the staff and puts the company's
+-- assets up for auction to other players: the company itself (type, hex and
+-- level) as one lot, and its stock as further lots. Companies keep no stock of
+-- their own, so goods of the kinds the company produces that sit in the
+-- owner's inventory are treated as company stock and seized.
+--
+-- When every lot has closed, the cash left in the company plus the auction
+-- proceeds pay the company's debts: employees' unpaid wages first, then other
+-- creditors, oldest first. Whatever remains goes to the shareholders as they
+-- stood at bankruptcy (or the owner if no shares were issued). A company that
+-- finds no buyer is removed from its hex. Owners, staff, creditors,
+-- shareholders and winning bidders are notified along the way.
+--
+-- With a cash balance of its own, a company now pays dividends to all of its
+-- shareholders from that cash, and a passed liquidation vote pays its debts
+-- and shares out what is left before the company is dissolved.
+
+-- ============================================================================
+-- 1. Transaction types
+-- ============================================================================
+
+ALTER TABLE currency_transactions
+  DROP CONSTRAINT IF EXISTS currency_transactions_transaction_type_check;
+
+ALTER TABLE currency_transactions
+  ADD CONSTRAINT currency_transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    -- Original types
+    'transfer',
+    'exchange',
+    'reward',
+    'tax',
+    'purchase',
+    'sale',
+    -- Battle system
+    'battle_cost',
+    'battle_reward',
+    'medal_reward',
+    -- Training system
+    'training_cost',
+    'training_reward',
+    -- Company/Production system
+    'company_creation',
+    'production_cost',
+    'wage_payment',
+    -- Company shares
+    'share_purchase',
+    'dividend_payment',
+    -- Company cash and bankruptcy
+    'company_deposit',
+    'company_withdrawal',
+    'auction_escrow',
+    'auction_refund',
+    'bankruptcy_payout',
+    -- P2P Exchange Market
+    'exchange_order_locked',
+    'exchange_order_filled',
+    'exchange_order_refunded',
+    -- Community treasury spending
+    'treasury_grant',
+    'treasury_stipend',
+    -- Diplomacy
+    'war_reparations',
+    'region_sale',
+    -- Central bank
+    'savings_deposit',
+    'savings_withdrawal',
+    'interest_earned',
+    'open_market_operation',
+    -- Supply contracts
+    'contract_escrow',
+    'contract_payment',
+    'contract_penalty',
+    'contract_refund',
+    -- Future features
+    'loan_disbursement',
+    'loan_repayment',
+    'interest_payment',
+    -- Admin operations
+    'admin_grant',
+    'admin_deduction',
+    'admin_burn'
+  ));
+
+-- ============================================================================
+-- 2. Company notifications
+-- ============================================================================
+
+ALTER TABLE public.notifications
+DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE public.notifications
+ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'direct_message',
+  'group_message',
+
+  'law_proposal',
+  'heir_proposal',
+  'governance_change',
+  'war_declaration',
+  'announcement',
+
+  'law_passed',
+  'law_rejected',
+  'law_expired',
+  'king_changed',
+  'king_left',
+  'heir_appointed',
+  'secretary_appointed',
+  'secretary_removed',
+  'revolution_started',
+  'civil_war_started',
+
+  'battle_started',
+  'battle_won',
+  'battle_lost',
+  'battle_momentum',
+  'battle_disarray',
+  'battle_exhaustion',
+  'battle_rage',
+
+  'community_update',
+  'company_update',
+
+  'follow_request',
+  'community_invite',
+  'follow_accepted',
+  'mention',
+  'post_comment',
+  'post_like',
+  'post_dislike',
+  'feed_summary'
+));
+
+ALTER TABLE public.notifications
+DROP CONSTRAINT IF EXISTS valid_notification;
+
+ALTER TABLE public.notifications
+ADD CONSTRAINT valid_notification CHECK (
+  (type = 'direct_message' AND direct_message_id IS NOT NULL) OR
+  (type = 'group_message' AND group_message_id IS NOT NULL) OR
+  (type IN ('law_proposal', 'heir_proposal', 'governance_change') AND proposal_id IS NOT NULL) OR
+  (type = 'mention' AND mentioned_by_user_id IS NOT NULL) OR
+  (type IN (
+    'announcement',
+    'war_declaration',
+    'community_update',
+    'law_passed',
+    'law_rejected',
+    'law_expired',
+    'king_changed',
+    'king_left',
+    'heir_appointed',
+    'secretary_appointed',
+    'secretary_removed',
+    'revolution_started',
+    'civil_war_started',
+    'battle_started'
+  ) AND community_id IS NOT NULL) OR
+  (type IN (
+    'battle_won',
+    'battle_lost',
+    'battle_momentum',
+    'battle_disarray',
+    'battle_exhaustion',
+    'battle_rage'
+  ) AND community_id IS NOT NULL AND battle_id IS NOT NULL) OR
+  (type IN (
+    'follow_request',
+    'community_invite',
+    'follow_accepted',
+    'post_comment',
+    'post_like',
+    'post_dislike'
+  ) AND triggered_by_user_id IS NOT NULL) OR
+  (type = 'company_update' AND metadata ? 'company_id') OR
+  (type = 'feed_summary')
+);
+
+DROP VIEW IF EXISTS public.user_notification_counts;
+
+CREATE VIEW public.user_notification_counts AS
+SELECT
+  user_id,
+  COUNT(*) FILTER (WHERE is_archived = FALSE AND is_read = FALSE) AS total,
+  COUNT(*) FILTER (
+    WHERE is_archived = FALSE
+      AND is_read = FALSE
+      AND type IN ('direct_message', 'group_message')
+  ) AS messages,
+  COUNT(*) FILTER (
+    WHERE is_archived = FALSE
+      AND is_read = FALSE
+      AND type IN (
+        'law_proposal',
+        'heir_proposal',
+        'governance_change',
+        'war_declaration',
+        'announcement',
+        'feed_summary'
+      )
+  ) AS world,
+  COUNT(*) FILTER (
+    WHERE is_archived = FALSE
+      AND is_read = FALSE
+      AND type IN (
+        'law_passed',
+        'law_rejected',
+        'law_expired',
+        'king_changed',
+        'king_left',
+        'heir_appointed',
+        'secretary_appointed',
+        'secretary_removed',
+        'revolution_started',
+        'civil_war_started',
+        'battle_started',
+        'battle_won',
+        'battle_lost',
+        'battle_momentum',
+        'battle_disarray',
+        'battle_exhaustion',
+        'battle_rage',
+        'community_update',
+        'company_update'
+      )
+  ) AS community,
+  COUNT(*) FILTER (
+    WHERE is_archived = FALSE
+      AND is_read = FALSE
+      AND type IN (
+        'mention',
+        'follow_request',
+        'community_invite',
+        'follow_accepted',
+        'post_comment',
+        'post_like',
+        'post_dislike'
+      )
+  ) AS social,
+  MAX(created_at) FILTER (WHERE is_archived = FALSE) AS last_notification_at
+FROM public.notifications
+GROUP BY user_id;
+
+GRANT SELECT ON public.user_notification_counts TO authenticated;
+
+CREATE OR REPLACE FUNCTION notify_company_event(
+  p_user_id UUID,
+  p_company_id UUID,
+  p_title TEXT,
+  p_body TEXT,
+  p_metadata JSONB DEFAULT '{}'::JSONB
+) RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, metadata, action_url, created_at)
+  VALUES (
+    p_user_id,
+    'company_update',
+    p_title,
+    p_body,
+    COALESCE(p_metadata, '{}'::JSONB) || jsonb_build_object('company_id', p_company_id),
+    '/ventures',
+    NOW()
+  );
+END;
+$$;
+
+-- ============================================================================
+-- 3. Cash balance, upkeep state and debts
+-- ============================================================================
+
+ALTER TABLE companies
+  ADD COLUMN IF NOT EXISTS cash_balance NUMERIC NOT NULL DEFAULT 0 CHECK (cash_balance >= 0),
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'delinquent', 'bankrupt')),
+  ADD COLUMN IF NOT EXISTS last_upkeep_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS upkeep_overdue_since TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_companies_upkeep_due
+  ON companies(last_upkeep_at)
+  WHERE status <> 'bankrupt';
+
+-- What a company owes. Employees' unpaid wages rank ahead of everything else
+-- when a bankrupt company is wound up.
+CREATE TABLE IF NOT EXISTS company_debts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+  creditor_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('wages', 'trade', 'other')),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  amount_paid NUMERIC NOT NULL DEFAULT 0 CHECK (amount_paid >= 0),
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  settled_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_debts_open
+  ON company_debts(company_id, created_at)
+  WHERE settled_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_company_debts_creditor ON company_debts(creditor_id);
+
+-- ============================================================================
+-- 4. Bankruptcies and auction lots
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS company_bankruptcies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+  company_name TEXT NOT NULL,
+  former_owner_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'auctioning' CHECK (status IN ('auctioning', 'settled')),
+  cash_recovered NUMERIC NOT NULL DEFAULT 0,
+  auction_proceeds NUMERIC NOT NULL DEFAULT 0,
+  creditors_paid NUMERIC NOT NULL DEFAULT 0,
+  residual_paid NUMERIC NOT NULL DEFAULT 0,
+  -- [{holder_id, shares}] as they stood when the company went bankrupt
+  shareholders JSONB NOT NULL DEFAULT '[]',
+  declared_at TIMESTAMPTZ DEFAULT NOW(),
+  settled_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_bankruptcies_company ON company_bankruptcies(company_id);
+
+CREATE TABLE IF NOT EXISTS company_auction_lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bankruptcy_id UUID NOT NULL REFERENCES company_bankruptcies(id) ON DELETE CASCADE,
+  company_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+  lot_type TEXT NOT NULL CHECK (lot_type IN ('company', 'inventory')),
+  company_level INTEGER,
+  resource_id UUID REFERENCES resources(id) ON DELETE CASCADE,
+  quality_id UUID REFERENCES resource_qualities(id) ON DELETE RESTRICT,
+  quantity NUMERIC,
+  starting_bid NUMERIC NOT NULL CHECK (starting_bid > 0),
+  highest_bid NUMERIC,
+  highest_bidder_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'sold', 'unsold')),
+  ends_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  closed_at TIMESTAMPTZ,
+
+  CONSTRAINT company_auction_lots_inventory_check CHECK (
+    lot_type = 'company'
+    OR (resource_id IS NOT NULL AND quality_id IS NOT NULL AND quantity > 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_auction_lots_open
+  ON company_auction_lots(ends_at)
+  WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_company_auction_lots_bankruptcy ON company_auction_lots(bankruptcy_id);
+
+ALTER TABLE company_debts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_bankruptcies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_auction_lots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Company debts are viewable by everyone" ON company_debts;
+CREATE POLICY "Company debts are viewable by everyone" ON company_debts FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Bankruptcies are viewable by everyone" ON company_bankruptcies;
+CREATE POLICY "Bankruptcies are viewable by everyone" ON company_bankruptcies FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Auction lots are viewable by everyone" ON company_auction_lots;
+CREATE POLICY "Auction lots are viewable by everyone" ON company_auction_lots FOR SELECT USING (true);
+
+GRANT SELECT ON company_debts, company_bankruptcies, company_auction_lots TO authenticated;
+
+-- No work at a bankrupt company; raising here rolls back the whole work action
+CREATE OR REPLACE FUNCTION prevent_work_at_bankrupt_company()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM companies WHERE id = NEW.company_id AND status = 'bankrupt') THEN
+    RAISE EXCEPTION 'This company is bankrupt';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_prevent_work_at_bankrupt_company ON work_history;
+CREATE TRIGGER trg_prevent_work_at_bankrupt_company
+  BEFORE INSERT ON work_history
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_work_at_bankrupt_company();
+
+-- ============================================================================
+-- 5. Bankruptcy
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION declare_company_bankruptcy(p_company_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company companies;
+  v_type company_types;
+  v_bankruptcy_id UUID;
+  v_shareholders JSONB;
+  v_ends_at TIMESTAMPTZ := NOW() + INTERVAL '24 hours';
+  v_stock RECORD;
+  v_user_id UUID;
+BEGIN
+  SELECT * INTO v_company FROM companies WHERE id = p_company_id FOR UPDATE;
+  IF NOT FOUND OR v_company.status = 'bankrupt' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_type FROM company_types WHERE id = v_company.company_type_id;
+
+  -- Snapshot the cap table (held and listed shares) before equity is wiped
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('holder_id', holder_id, 'shares', shares)), '[]'::JSONB)
+  INTO v_shareholders
+  FROM (
+    SELECT holder_id, SUM(shares)::INTEGER AS shares
+    FROM (
+      SELECT holder_id, shares FROM company_shareholdings WHERE company_id = p_company_id
+      UNION ALL
+      SELECT seller_id, shares_available FROM company_share_listings
+      WHERE company_id = p_company_id AND status = 'active'
+    ) s
+    GROUP BY holder_id
+    HAVING SUM(shares) > 0
+  ) h;
+
+  INSERT INTO company_bankruptcies (company_id, company_name, former_owner_id, cash_recovered, shareholders)
+  VALUES (p_company_id, v_company.name, v_company.owner_id, v_company.cash_balance, v_shareholders)
+  RETURNING id INTO v_bankruptcy_id;
+
+  UPDATE companies
+  SET status = 'bankrupt',
+      cash_balance = 0,
+      total_shares = 0,
+      updated_at = NOW()
+  WHERE id = p_company_id;
+
+  -- Equity is wiped; shareholders are paid from whatever is left at the end
+  UPDATE company_share_listings
+  SET status = 'cancelled', updated_at = NOW()
+  WHERE company_id = p_company_id AND status = 'active';
+
+  DELETE FROM company_shareholdings WHERE company_id = p_company_id;
+
+  UPDATE company_resolutions
+  SET status = 'expired', closed_at = NOW()
+  WHERE company_id = p_company_id AND status = 'open';
+
+  -- Release the staff and close job postings
+  FOR v_user_id IN
+    SELECT employee_id FROM employment_contracts
+    WHERE company_id = p_company_id AND active = true
+  LOOP
+    PERFORM notify_company_event(
+      v_user_id,
+      p_company_id,
+      'Employer Bankrupt',
+      format('%s went bankrupt and your contract has ended. Any unpaid wages are paid first from its assets.', v_company.name),
+      jsonb_build_object('bankruptcy_id', v_bankruptcy_id)
+    );
+  END LOOP;
+
+  UPDATE employment_contracts
+  SET active = false
+  WHERE company_id = p_company_id AND active = true;
+
+  UPDATE market_listings
+  SET status = 'cancelled'
+  WHERE company_id = p_company_id AND listing_type = 'job' AND status = 'active';
+
+  -- The company itself, at its current level
+  INSERT INTO company_auction_lots (
+    bankruptcy_id, company_id, lot_type, company_level, starting_bid, ends_at
+  ) VALUES (
+    v_bankruptcy_id,
+    p_company_id,
+    'company',
+    v_company.level,
+    GREATEST(1, ROUND(COALESCE(v_type.build_cost_gold, 0) * v_company.level * 0.5, 2)),
+    v_ends_at
+  );
+
+  -- Its stock: the owner's goods of the kinds this company produces
+  FOR v_stock IN
+    SELECT ui.id, ui.resource_id, ui.quality_id, ui.quantity
+    FROM user_inventory ui
+    WHERE ui.user_id = v_company.owner_id
+      AND ui.quantity > 0
+      AND ui.resource_id IN (
+        SELECT (jsonb_object_keys(pr.outputs))::UUID
+        FROM production_recipes pr
+        WHERE v_type.can_produce_recipes ? pr.id::TEXT
+      )
+    FOR UPDATE
+  LOOP
+    INSERT INTO company_auction_lots (
+      bankruptcy_id, company_id, lot_type, resource_id, quality_id, quantity, starting_bid, ends_at
+    ) VALUES (
+      v_bankruptcy_id,
+      p_company_id,
+      'inventory',
+      v_stock.resource_id,
+      v_stock.quality_id,
+      v_stock.quantity,
+      GREATEST(1, v_stock.quantity),
+      v_ends_at
+    );
+
+    UPDATE user_inventory
+    SET quantity = 0, updated_at = NOW()
+    WHERE id = v_stock.id;
+  END LOOP;
+
+  PERFORM notify_company_event(
+    v_company.owner_id,
+    p_company_id,
+    'Company Bankrupt',
+    format('%s could not pay its upkeep and went bankrupt. Its assets are being auctioned to pay its debts.', v_company.name),
+    jsonb_build_object('bankruptcy_id', v_bankruptcy_id)
+  );
+
+  FOR v_user_id IN
+    SELECT DISTINCT creditor_id FROM company_debts
+    WHERE company_id = p_company_id AND settled_at IS NULL
+  LOOP
+    PERFORM notify_company_event(
+      v_user_id,
+      p_company_id,
+      'Debtor Bankrupt',
+      format('%s went bankrupt. Its debts to you will be paid from the auction of its assets.', v_company.name),
+      jsonb_build_object('bankruptcy_id', v_bankruptcy_id)
+    );
+  END LOOP;
+
+  FOR v_user_id IN
+    SELECT (h->>'holder_id')::UUID FROM jsonb_array_elements(v_shareholders) h
+    WHERE (h->>'holder_id')::UUID <> v_company.owner_id
+  LOOP
+    PERFORM notify_company_event(
+      v_user_id,
+      p_company_id,
+      'Company Bankrupt',
+      format('%s went bankrupt. Shareholders receive whatever is left once its debts are paid.', v_company.name),
+      jsonb_build_object('bankruptcy_id', v_bankruptcy_id)
+    );
+  END LOOP;
+
+  RETURN v_bankruptcy_id;
+END;
+$$;
+
+-- Pays debts and shareholders once every lot of a bankruptcy has closed
+CREATE OR REPLACE FUNCTION finalize_company_bankruptcy(p_bankruptcy_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bankruptcy company_bankruptcies;
+  v_pool NUMERIC;
+  v_debt company_debts;
+  v_pay NUMERIC;
+  v_creditors_paid NUMERIC := 0;
+  v_residual NUMERIC;
+  v_total_shares NUMERIC;
+  v_holder JSONB;
+  v_company_sold BOOLEAN;
+BEGIN
+  SELECT * INTO v_bankruptcy FROM company_bankruptcies WHERE id = p_bankruptcy_id FOR UPDATE;
+  IF NOT FOUND OR v_bankruptcy.status <> 'auctioning' THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM company_auction_lots WHERE bankruptcy_id = p_bankruptcy_id AND status = 'open') THEN
+    RETURN;
+  END IF;
+
+  v_pool := v_bankruptcy.cash_recovered + v_bankruptcy.auction_proceeds;
+
+  -- Unpaid wages first, then everyone else, oldest first. What cannot be paid is written off.
+  FOR v_debt IN
+    SELECT * FROM company_debts
+    WHERE company_id = v_bankruptcy.company_id AND settled_at IS NULL
+    ORDER BY (kind = 'wages') DESC, created_at
+    FOR UPDATE
+  LOOP
+    v_pay := ROUND(LEAST(v_pool, v_debt.amount - v_debt.amount_paid), 2);
+
+    IF v_pay > 0 THEN
+      PERFORM add_gold_enhanced(
+        v_debt.creditor_id,
+        v_pay,
+        'bankruptcy_payout',
+        format('Bankruptcy of %s', v_bankruptcy.company_name),
+        jsonb_build_object('bankruptcy_id', p_bankruptcy_id, 'debt_id', v_debt.id, 'kind', v_debt.kind)
+      );
+      v_pool := v_pool - v_pay;
+      v_creditors_paid := v_creditors_paid + v_pay;
+    END IF;
+
+    UPDATE company_debts
+    SET amount_paid = amount_paid + GREATEST(v_pay, 0),
+        settled_at = NOW()
+    WHERE id = v_debt.id;
+
+    PERFORM notify_company_event(
+      v_debt.creditor_id,
+      v_bankruptcy.company_id,
+      'Bankruptcy Payout',
+      format(
+        'You received %s of the %s gold %s owed you.',
+        GREATEST(v_pay, 0),
+        v_debt.amount - v_debt.amount_paid,
+        v_bankruptcy.company_name
+      ),
+      jsonb_build_object('bankruptcy_id', p_bankruptcy_id, 'debt_id', v_debt.id)
+    );
+  END LOOP;
+
+  -- The rest goes to the shareholders, or the former owner if no shares were issued
+  v_residual := v_pool;
+  IF v_residual > 0 THEN
+    SELECT COALESCE(SUM((h->>'shares')::NUMERIC), 0) INTO v_total_shares
+    FROM jsonb_array_elements(v_bankruptcy.shareholders) h;
+
+    IF v_total_shares > 0 THEN
+      FOR v_holder IN SELECT * FROM jsonb_array_elements(v_bankruptcy.shareholders)
+      LOOP
+        v_pay := FLOOR(v_residual * (v_holder->>'shares')::NUMERIC / v_total_shares * 100) / 100;
+        IF v_pay > 0 THEN
+          PERFORM add_gold_enhanced(
+            (v_holder->>'holder_id')::UUID,
+            v_pay,
+            'bankruptcy_payout',
+            format('Residual from the bankruptcy of %s', v_bankruptcy.company_name),
+            jsonb_build_object('bankruptcy_id', p_bankruptcy_id, 'shares', v_holder->'shares')
+          );
+          PERFORM notify_company_event(
+            (v_holder->>'holder_id')::UUID,
+            v_bankruptcy.company_id,
+            'Bankruptcy Settled',
+            format('%s has been wound up. Your shares returned %s gold.', v_bankruptcy.company_name, v_pay),
+            jsonb_build_object('bankruptcy_id', p_bankruptcy_id)
+          );
+        END IF;
+      END LOOP;
+    ELSIF v_bankruptcy.former_owner_id IS NOT NULL THEN
+      PERFORM add_gold_enhanced(
+        v_bankruptcy.former_owner_id,
+        v_residual,
+        'bankruptcy_payout',
+        format('Residual from the bankruptcy of %s', v_bankruptcy.company_name),
+        jsonb_build_object('bankruptcy_id', p_bankruptcy_id)
+      );
+      PERFORM notify_company_event(
+        v_bankruptcy.former_owner_id,
+        v_bankruptcy.company_id,
+        'Bankruptcy Settled',
+        format('%s has been wound up. %s gold was left after its debts.', v_bankruptcy.company_name, v_residual),
+        jsonb_build_object('bankruptcy_id', p_bankruptcy_id)
+      );
+    END IF;
+  END IF;
+
+  UPDATE company_bankruptcies
+  SET status = 'settled',
+      creditors_paid = v_creditors_paid,
+      residual_paid = GREATEST(v_residual, 0),
+      settled_at = NOW()
+  WHERE id = p_bankruptcy_id;
+
+  -- Nobody wanted the company: take it off its hex
+  SELECT EXISTS (
+    SELECT 1 FROM company_auction_lots
+    WHERE bankruptcy_id = p_bankruptcy_id AND lot_type = 'company' AND status = 'sold'
+  ) INTO v_company_sold;
+
+  IF NOT v_company_sold AND v_bankruptcy.company_id IS NOT NULL THEN
+    DELETE FROM companies WHERE id = v_bankruptcy.company_id AND status = 'bankrupt';
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- 6. Upkeep
+-- ============================================================================
+
+-- Charges every full day of upkeep owed from the company's cash. If the cash
+-- falls short the company becomes delinquent; after 3 days it goes bankrupt.
+CREATE OR REPLACE FUNCTION collect_company_upkeep(p_company_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company companies;
+  v_days INTEGER;
+  v_due NUMERIC;
+  v_grace INTERVAL := INTERVAL '3 days';
+BEGIN
+  SELECT * INTO v_company FROM companies WHERE id = p_company_id FOR UPDATE;
+  IF NOT FOUND OR v_company.status = 'bankrupt' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Company not found');
+  END IF;
+
+  v_days := FLOOR(EXTRACT(EPOCH FROM (NOW() - v_company.last_upkeep_at)) / 86400);
+  IF v_days < 1 THEN
+    RETURN jsonb_build_object('success', true, 'status', v_company.status, 'paid', 0);
+  END IF;
+
+  v_due := v_days * 2 * v_company.level;
+
+  IF v_company.cash_balance >= v_due THEN
+    UPDATE companies
+    SET cash_balance = cash_balance - v_due,
+        last_upkeep_at = last_upkeep_at + make_interval(days => v_days),
+        status = 'active',
+        upkeep_overdue_since = NULL,
+        updated_at = NOW()
+    WHERE id = p_company_id;
+
+    RETURN jsonb_build_object('success', true, 'status', 'active', 'paid', v_due);
+  END IF;
+
+  IF v_company.upkeep_overdue_since IS NULL THEN
+    UPDATE companies
+    SET status = 'delinquent',
+        upkeep_overdue_since = NOW(),
+        updated_at = NOW()
+    WHERE id = p_company_id;
+
+    PERFORM notify_company_event(
+      v_company.owner_id,
+      p_company_id,
+      'Upkeep Unpaid',
+      format(
+        '%s owes %s gold in upkeep but only has %s. Pay in enough gold within 3 days or it goes bankrupt.',
+        v_company.name,
+        v_due,
+        v_company.cash_balance
+      ),
+      jsonb_build_object('upkeep_due', v_due)
+    );
+
+    RETURN jsonb_build_object('success', true, 'status', 'delinquent', 'paid', 0);
+  END IF;
+
+  IF v_company.upkeep_overdue_since <= NOW() - v_grace THEN
+    PERFORM declare_company_bankruptcy(p_company_id);
+    RETURN jsonb_build_object('success', true, 'status', 'bankrupt', 'paid', 0);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'status', 'delinquent', 'paid', 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION process_company_upkeep()
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company_id UUID;
+  v_processed INTEGER := 0;
+BEGIN
+  FOR v_company_id IN
+    SELECT id FROM companies
+    WHERE status <> 'bankrupt'
+      AND last_upkeep_at <= NOW() - INTERVAL '1 day'
+  LOOP
+    PERFORM collect_company_upkeep(v_company_id);
+    v_processed := v_processed + 1;
+  END LOOP;
+
+  RETURN v_processed;
+END;
+$$;
+
+-- ============================================================================
+-- 7. Company cash
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION deposit_company_cash(
+  p_user_id UUID,
+  p_company_id UUID,
+  p_amount NUMERIC
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_company companies;
+  v_deduct JSONB;
+  v_upkeep JSONB;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT * INTO v_company FROM companies WHERE id = p_company_id FOR UPDATE;
+  IF NOT FOUND OR v_company.owner_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Company not found');
+  END IF;
+
+  IF v_company.status = 'bankrupt' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This company is bankrupt');
+  END IF;
+
+  v_deduct := deduct_gold_enhanced(
+    p_user_id,
+    p_amount,
+    'company_deposit',
+    format('Deposit to %s', v_company.name),
+    jsonb_build_object('company_id', p_company_id)
+  );
+
+  IF NOT COALESCE((v_deduct->>'success')::BOOLEAN, false) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Insufficient gold');
+  END IF;
+
+  UPDATE companies
+  SET cash_balance = cash_balance + p_amount,
+      updated_at = NOW()
+  WHERE id = p_company_id;
+
+  -- Settle anything owed straight away so a delinquent company recovers now
+  v_upkeep := collect_company_upkeep(p_company_id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', COALESCE(v_upkeep->>'status', v_company.status),
+    'cash_balance', (SELECT cash_balance FROM companies WHERE id = p_company_id)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION withdraw_company_cash(
+  p_user_id UUID,
+  p_company_id UUID,
+  p_amount NUMERIC
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_company companies;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Amount must be positive');
+  END IF;
+
+  SELECT * INTO v_company FROM companies WHERE id = p_company_id FOR UPDATE;
+  IF NOT FOUND OR v_company.owner_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Company not found');
+  END IF;
+
+  IF v_company.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Pay the overdue upkeep before withdrawing');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM company_debts WHERE company_id = p_company_id AND settled_at IS NULL) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Settle the company''s debts before withdrawing');
+  END IF;
+
+  IF p_amount > v_company.cash_balance THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('The company only has %s gold', v_company.cash_balance)
+    );
+  END IF;
+
+  UPDATE companies
+  SET cash_balance = cash_balance - p_amount,
+      updated_at = NOW()
+  WHERE id = p_company_id;
+
+  PERFORM add_gold_enhanced(
+    p_user_id,
+    p_amount,
+    'company_withdrawal',
+    format('Withdrawal from %s', v_company.name),
+    jsonb_build_object('company_id', p_company_id)
+  );
+
+  RETURN jsonb_build_object('success', true, 'cash_balance', v_company.cash_balance - p_amount);
+END;
+$$;
+
+-- Dividends now come out of the company's cash rather than the owner's
+-- wallet, so every holder (the owner included) is paid their part
+CREATE OR REPLACE FUNCTION declare_company_dividend(
+  p_user_id UUID,
+  p_company_id UUID,
+  p_total_amount NUMERIC
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_company companies;
+  v_per_share NUMERIC;
+  v_dividend_id UUID;
+  v_holder RECORD;
+  v_amount NUMERIC;
+  v_paid NUMERIC := 0;
+  v_recipients INTEGER := 0;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  SELECT * INTO v_company
+  FROM companies
+  WHERE id = p_company_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_company.owner_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You do not own this company');
+  END IF;
+
+  IF v_company.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Pay the overdue upkeep before paying dividends');
+  END IF;
+
+  IF v_company.total_shares = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Issue shares before paying dividends');
+  END IF;
+
+  IF p_total_amount IS NULL OR p_total_amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Dividend must be positive');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM company_debts WHERE company_id = p_company_id AND settled_at IS NULL) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Settle the company''s debts before paying dividends');
+  END IF;
+
+  IF p_total_amount > v_company.cash_balance THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('The company only has %s gold', v_company.cash_balance)
+    );
+  END IF;
+
+  v_per_share := p_total_amount / v_company.total_shares;
+
+  INSERT INTO company_dividends (company_id, declared_by, total_amount, amount_per_share, total_shares)
+  VALUES (p_company_id, p_user_id, p_total_amount, v_per_share, v_company.total_shares)
+  RETURNING id INTO v_dividend_id;
+
+  FOR v_holder IN
+    SELECT holders.holder_id, get_company_voting_shares(p_company_id, holders.holder_id) AS shares
+    FROM (
+      SELECT holder_id FROM company_shareholdings WHERE company_id = p_company_id
+      UNION
+      SELECT seller_id FROM company_share_listings WHERE company_id = p_company_id AND status = 'active'
+    ) holders
+  LOOP
+    v_amount := FLOOR(v_holder.shares * v_per_share * 10000) / 10000;
+    CONTINUE WHEN v_amount <= 0;
+
+    PERFORM add_gold_enhanced(
+      v_holder.holder_id,
+      v_amount,
+      'dividend_payment',
+      format('Dividend from %s', v_company.name),
+      jsonb_build_object(
+        'company_id', p_company_id,
+        'dividend_id', v_dividend_id,
+        'shares', v_holder.shares,
+        'amount_per_share', v_per_share
+      )
+    );
+
+    v_paid := v_paid + v_amount;
+    v_recipients := v_recipients + 1;
+  END LOOP;
+
+  UPDATE companies
+  SET cash_balance = cash_balance - v_paid,
+      updated_at = NOW()
+  WHERE id = p_company_id;
+
+  UPDATE company_dividends
+  SET paid_out = v_paid,
+      recipients = v_recipients
+  WHERE id = v_dividend_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'dividend_id', v_dividend_id,
+    'paid_out', v_paid,
+    'recipients', v_recipients
+  );
+END;
+$$;
+
+-- A liquidated company winds up like a bankrupt one, without the auction: its
+-- cash pays its debts (wages first, then oldest first) and whatever is left
+-- goes to the shareholders pro rata, or the owner if no shares were issued
+CREATE OR REPLACE FUNCTION liquidate_company(p_company_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company companies;
+  v_pool NUMERIC;
+  v_debt company_debts;
+  v_pay NUMERIC;
+  v_total_shares NUMERIC;
+  v_holder RECORD;
+BEGIN
+  SELECT * INTO v_company FROM companies WHERE id = p_company_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_pool := v_company.cash_balance;
+
+  FOR v_debt IN
+    SELECT * FROM company_debts
+    WHERE company_id = p_company_id AND settled_at IS NULL
+    ORDER BY (kind = 'wages') DESC, created_at
+    FOR UPDATE
+  LOOP
+    v_pay := ROUND(LEAST(v_pool, v_debt.amount - v_debt.amount_paid), 2);
+
+    IF v_pay > 0 THEN
+      PERFORM add_gold_enhanced(
+        v_debt.creditor_id,
+        v_pay,
+        'bankruptcy_payout',
+        format('Liquidation of %s', v_company.name),
+        jsonb_build_object('company_id', p_company_id, 'debt_id', v_debt.id, 'kind', v_debt.kind)
+      );
+      v_pool := v_pool - v_pay;
+    END IF;
+
+    UPDATE company_debts
+    SET amount_paid = amount_paid + GREATEST(v_pay, 0),
+        settled_at = NOW()
+    WHERE id = v_debt.id;
+  END LOOP;
+
+  IF v_pool > 0 THEN
+    SELECT COALESCE(SUM(get_company_voting_shares(p_company_id, holders.holder_id)), 0)
+    INTO v_total_shares
+    FROM (
+      SELECT holder_id FROM company_shareholdings WHERE company_id = p_company_id
+      UNION
+      SELECT seller_id FROM company_share_listings WHERE company_id = p_company_id AND status = 'active'
+    ) holders;
+
+    IF v_total_shares > 0 THEN
+      FOR v_holder IN
+        SELECT holders.holder_id, get_company_voting_shares(p_company_id, holders.holder_id) AS shares
+        FROM (
+          SELECT holder_id FROM company_shareholdings WHERE company_id = p_company_id
+          UNION
+          SELECT seller_id FROM company_share_listings WHERE company_id = p_company_id AND status = 'active'
+        ) holders
+      LOOP
+        v_pay := FLOOR(v_pool * v_holder.shares / v_total_shares * 100) / 100;
+        CONTINUE WHEN v_pay <= 0;
+
+        PERFORM add_gold_enhanced(
+          v_holder.holder_id,
+          v_pay,
+          'dividend_payment',
+          format('Liquidation of %s', v_company.name),
+          jsonb_build_object('company_id', p_company_id, 'shares', v_holder.shares)
+        );
+        PERFORM notify_company_event(
+          v_holder.holder_id,
+          p_company_id,
+          'Company Liquidated',
+          format('%s has been liquidated. Your shares returned %s gold.', v_company.name, v_pay),
+          jsonb_build_object('amount', v_pay)
+        );
+      END LOOP;
+    ELSE
+      PERFORM add_gold_enhanced(
+        v_company.owner_id,
+        v_pool,
+        'dividend_payment',
+        format('Liquidation of %s', v_company.name),
+        jsonb_build_object('company_id', p_company_id)
+      );
+    END IF;
+  END IF;
+
+  DELETE FROM companies WHERE id = p_company_id;
+END;
+$$;
+
+-- ============================================================================
+-- 8. Auctions
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION place_company_auction_bid(
+  p_user_id UUID,
+  p_lot_id UUID,
+  p_amount NUMERIC
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_lot company_auction_lots;
+  v_bankruptcy company_bankruptcies;
+  v_min_bid NUMERIC;
+  v_deduct JSONB;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  SELECT * INTO v_lot FROM company_auction_lots WHERE id = p_lot_id FOR UPDATE;
+  IF NOT FOUND OR v_lot.status <> 'open' OR v_lot.ends_at <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This auction has closed');
+  END IF;
+
+  SELECT * INTO v_bankruptcy FROM company_bankruptcies WHERE id = v_lot.bankruptcy_id;
+  IF v_bankruptcy.former_owner_id = p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You cannot bid on your own company''s assets');
+  END IF;
+
+  IF v_lot.highest_bidder_id = p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You already hold the highest bid');
+  END IF;
+
+  -- Bids must beat the current one by 5%
+  v_min_bid := CASE
+    WHEN v_lot.highest_bid IS NULL THEN v_lot.starting_bid
+    ELSE CEIL(v_lot.highest_bid * 1.05 * 100) / 100
+  END;
+
+  IF p_amount IS NULL OR p_amount < v_min_bid THEN
+    RETURN jsonb_build_object('success', false, 'error', format('Minimum bid is %s gold', v_min_bid));
+  END IF;
+
+  v_deduct := deduct_gold_enhanced(
+    p_user_id,
+    p_amount,
+    'auction_escrow',
+    format('Bid on %s assets', v_bankruptcy.company_name),
+    jsonb_build_object('lot_id', p_lot_id, 'bankruptcy_id', v_lot.bankruptcy_id)
+  );
+
+  IF NOT COALESCE((v_deduct->>'success')::BOOLEAN, false) THEN
+    RETURN jsonb_build_object('success', false, 'error', format('Insufficient gold (need: %s)', p_amount));
+  END IF;
+
+  IF v_lot.highest_bidder_id IS NOT NULL THEN
+    PERFORM add_gold_enhanced(
+      v_lot.highest_bidder_id,
+      v_lot.highest_bid,
+      'auction_refund',
+      format('Outbid on %s assets', v_bankruptcy.company_name),
+      jsonb_build_object('lot_id', p_lot_id, 'bankruptcy_id', v_lot.bankruptcy_id)
+    );
+    PERFORM notify_company_event(
+      v_lot.highest_bidder_id,
+      v_lot.company_id,
+      'Outbid',
+      format('You were outbid on an auction of %s assets. Your %s gold was returned.', v_bankruptcy.company_name, v_lot.highest_bid),
+      jsonb_build_object('lot_id', p_lot_id)
+    );
+  END IF;
+
+  UPDATE company_auction_lots
+  SET highest_bid = p_amount,
+      highest_bidder_id = p_user_id
+  WHERE id = p_lot_id;
+
+  RETURN jsonb_build_object('success', true, 'highest_bid', p_amount);
+END;
+$$;
+
+-- Closes ended lots, hands them to the winners and winds up finished bankruptcies
+CREATE OR REPLACE FUNCTION settle_company_auctions()
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot company_auction_lots;
+  v_company_name TEXT;
+  v_bankruptcy_id UUID;
+  v_settled INTEGER := 0;
+BEGIN
+  FOR v_lot IN
+    SELECT * FROM company_auction_lots
+    WHERE status = 'open' AND ends_at <= NOW()
+    ORDER BY ends_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT company_name INTO v_company_name FROM company_bankruptcies WHERE id = v_lot.bankruptcy_id;
+
+    IF v_lot.highest_bidder_id IS NULL THEN
+      UPDATE company_auction_lots
+      SET status = 'unsold', closed_at = NOW()
+      WHERE id = v_lot.id;
+    ELSE
+      IF v_lot.lot_type = 'company' THEN
+        UPDATE companies
+        SET owner_id = v_lot.highest_bidder_id,
+            status = 'active',
+            cash_balance = 0,
+            last_upkeep_at = NOW(),
+            upkeep_overdue_since = NULL,
+            updated_at = NOW()
+        WHERE id = v_lot.company_id;
+      ELSE
+        INSERT INTO user_inventory (user_id, resource_id, quality_id, quantity)
+        VALUES (v_lot.highest_bidder_id, v_lot.resource_id, v_lot.quality_id, v_lot.quantity)
+        ON CONFLICT (user_id, resource_id, quality_id)
+        DO UPDATE SET
+          quantity = user_inventory.quantity + v_lot.quantity,
+          updated_at = NOW();
+      END IF;
+
+      UPDATE company_auction_lots
+      SET status = 'sold', closed_at = NOW()
+      WHERE id = v_lot.id;
+
+      UPDATE company_bankruptcies
+      SET auction_proceeds = auction_proceeds + v_lot.highest_bid
+      WHERE id = v_lot.bankruptcy_id;
+
+      PERFORM notify_company_event(
+        v_lot.highest_bidder_id,
+        v_lot.company_id,
+        'Auction Won',
+        CASE
+          WHEN v_lot.lot_type = 'company'
+            THEN format('You bought %s for %s gold. It is now yours.', v_company_name, v_lot.highest_bid)
+          ELSE format('You bought %s units of %s stock for %s gold.', v_lot.quantity, v_company_name, v_lot.highest_bid)
+        END,
+        jsonb_build_object('lot_id', v_lot.id)
+      );
+    END IF;
+
+    v_settled := v_settled + 1;
+  END LOOP;
+
+  FOR v_bankruptcy_id IN
+    SELECT b.id FROM company_bankruptcies b
+    WHERE b.status = 'auctioning'
+      AND NOT EXISTS (
+        SELECT 1 FROM company_auction_lots l
+        WHERE l.bankruptcy_id = b.id AND l.status = 'open'
+      )
+  LOOP
+    PERFORM finalize_company_bankruptcy(v_bankruptcy_id);
+  END LOOP;
+
+  RETURN v_settled;
+END;
+$$;
+
+-- ============================================================================
+-- 9. Permissions and schedules
+-- ============================================================================
+
+REVOKE EXECUTE ON FUNCTION notify_company_event FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION notify_company_event FROM authenticated;
+GRANT EXECUTE ON FUNCTION notify_company_event TO service_role;
+
+REVOKE EXECUTE ON FUNCTION declare_company_bankruptcy FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION declare_company_bankruptcy FROM authenticated;
+GRANT EXECUTE ON FUNCTION declare_company_bankruptcy TO service_role;
+
+REVOKE EXECUTE ON FUNCTION finalize_company_bankruptcy FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION finalize_company_bankruptcy FROM authenticated;
+GRANT EXECUTE ON FUNCTION finalize_company_bankruptcy TO service_role;
+
+REVOKE EXECUTE ON FUNCTION collect_company_upkeep FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION collect_company_upkeep FROM authenticated;
+GRANT EXECUTE ON FUNCTION collect_company_upkeep TO service_role;
+
+GRANT EXECUTE ON FUNCTION deposit_company_cash(UUID, UUID, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION withdraw_company_cash(UUID, UUID, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION place_company_auction_bid(UUID, UUID, NUMERIC) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION process_company_upkeep FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION process_company_upkeep FROM authenticated;
+GRANT EXECUTE ON FUNCTION process_company_upkeep TO service_role;
+
+REVOKE EXECUTE ON FUNCTION settle_company_auctions FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION settle_company_auctions FROM authenticated;
+GRANT EXECUTE ON FUNCTION settle_company_auctions TO service_role;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('process-company-upkeep');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL;  -- Ignore if job doesn't exist
+END $$;
+
+SELECT cron.schedule(
+  'process-company-upkeep',
+  '0 * * * *',  -- Every hour
+  $$SELECT public.process_company_upkeep();$$
+);
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('settle-company-auctions');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL;  -- Ignore if job doesn't exist
+END $$;
+
+SELECT cron.schedule(
+  'settle-company-auctions',
+  '*/15 * * * *',  -- Every 15 minutes
+  $$SELECT public.settle_company_auctions();$$
+);
+
+COMMENT ON COLUMN companies.cash_balance IS
+  'Gold held by the company. Upkeep is paid from here; the owner deposits and withdraws.';
+COMMENT ON COLUMN companies.upkeep_overdue_since IS
+  'When the company first failed to cover its upkeep. Bankruptcy follows 3 days later.';
+COMMENT ON TABLE company_debts IS
+  'Amounts a company owes to players. Wages rank first when a bankrupt company is wound up.';
+COMMENT ON FUNCTION declare_company_dividend IS
+  'Pay every shareholder their pro-rata part of a gold dividend from the company''s cash';
+COMMENT ON FUNCTION liquidate_company IS
+  'Pays a liquidated company''s debts from its cash, shares out the rest pro rata and deletes the company.';
+COMMENT ON FUNCTION declare_company_bankruptcy IS
+  'Wipes equity, releases staff and puts the company and its stock up for a 24 hour auction.';
+COMMENT ON FUNCTION settle_company_auctions IS
+  'Closes ended auction lots and pays creditors, then shareholders, once a bankruptcy has no open lots.';
@@ -0,0 +1,948 @@
+-- Employment Contracts with Terms, Payroll and Employer Complaints
+-- Until now an employee was paid community coin each time they worked, and
+-- either side could end the job at any moment. Owners can now offer their
+-- staff a term contract: a fixed gold wage per day, a duration, a notice
+-- period and optionally a minimum number of days worked per week. The
+-- employee accepts or declines; accepting replaces the per-work wage.
+--
+-- Payroll runs hourly. Each full day of a term contract is paid from the
+-- company's cash balance. Whatever the cash cannot cover is recorded as a
+-- wage debt owed to the employee, which ranks first if the company goes
+-- bankrupt. When a contract ends for any reason the part-day up to that
+-- point is settled the same way.
+--
+-- Ending a term contract takes the agreed notice, unless the employee has
+-- worked fewer days in the last week than the contract requires, in which
+-- case the owner may dismiss them straight away. Contracts also end on their
+-- own when the term runs out.
+--
+-- Current and former employees can file a complaint against their employer.
+-- Recent complaints and open wage debts lower the employer's reputation
+-- score, which is shown to people looking at the company's jobs.
+
+-- ============================================================================
+-- 1. Contract terms
+-- ============================================================================
+
+ALTER TABLE employment_contracts
+  ADD COLUMN IF NOT EXISTS contract_type TEXT NOT NULL DEFAULT 'per_work'
+    CHECK (contract_type IN ('per_work', 'term')),
+  ADD COLUMN IF NOT EXISTS wage_gold_per_day NUMERIC NOT NULL DEFAULT 0 CHECK (wage_gold_per_day >= 0),
+  ADD COLUMN IF NOT EXISTS term_days INTEGER CHECK (term_days > 0),
+  ADD COLUMN IF NOT EXISTS ends_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS notice_days INTEGER NOT NULL DEFAULT 0 CHECK (notice_days >= 0),
+  ADD COLUMN IF NOT EXISTS min_days_per_week INTEGER CHECK (min_days_per_week BETWEEN 1 AND 7),
+  ADD COLUMN IF NOT EXISTS last_paid_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS notice_given_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS notice_given_by TEXT CHECK (notice_given_by IN ('employer', 'employee')),
+  ADD COLUMN IF NOT EXISTS terminates_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS ended_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS end_reason TEXT
+    CHECK (end_reason IN ('expired', 'dismissed', 'resigned', 'breach', 'released'));
+
+CREATE INDEX IF NOT EXISTS idx_employment_contracts_payroll
+  ON employment_contracts(last_paid_at)
+  WHERE active = true AND contract_type = 'term';
+
+-- ============================================================================
+-- 2. Contract offers
+-- ============================================================================
+
+-- Terms an owner proposes to one of their employees. Accepting applies them
+-- to the employee's existing contract, so the same flow renews a contract.
+CREATE TABLE IF NOT EXISTS employment_contract_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contract_id UUID NOT NULL REFERENCES employment_contracts(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  wage_gold_per_day NUMERIC NOT NULL CHECK (wage_gold_per_day > 0),
+  term_days INTEGER NOT NULL CHECK (term_days BETWEEN 1 AND 90),
+  notice_days INTEGER NOT NULL DEFAULT 0 CHECK (notice_days BETWEEN 0 AND 14),
+  min_days_per_week INTEGER CHECK (min_days_per_week BETWEEN 1 AND 7),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'withdrawn', 'expired')),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '3 days',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  responded_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_employment_contract_offers_pending
+  ON employment_contract_offers(contract_id)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_employment_contract_offers_employee
+  ON employment_contract_offers(employee_id, status);
+
+-- ============================================================================
+-- 3. Employer complaints
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS employer_complaints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+  employer_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('unpaid_wages', 'unfair_dismissal', 'contract_breach', 'other')),
+  description TEXT NOT NULL CHECK (char_length(description) BETWEEN 1 AND 500),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_employer_complaints_employer
+  ON employer_complaints(employer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_employer_complaints_employee
+  ON employer_complaints(employee_id, company_id, created_at DESC);
+
+ALTER TABLE employment_contract_offers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE employer_complaints ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Contract offers are viewable by everyone" ON employment_contract_offers;
+CREATE POLICY "Contract offers are viewable by everyone" ON employment_contract_offers FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Employer complaints are viewable by everyone" ON employer_complaints;
+CREATE POLICY "Employer complaints are viewable by everyone" ON employer_complaints FOR SELECT USING (true);
+
+GRANT SELECT ON employment_contract_offers, employer_complaints TO authenticated;
+
+-- 100 minus 10 per complaint in the last 90 days and 5 per open wage debt
+CREATE OR REPLACE FUNCTION get_employer_reputation(p_employer_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_complaints INTEGER;
+  v_wage_debts INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_complaints
+  FROM employer_complaints
+  WHERE employer_id = p_employer_id
+    AND created_at > NOW() - INTERVAL '90 days';
+
+  SELECT COUNT(*) INTO v_wage_debts
+  FROM company_debts d
+  JOIN companies c ON c.id = d.company_id
+  WHERE c.owner_id = p_employer_id
+    AND d.kind = 'wages'
+    AND d.settled_at IS NULL;
+
+  RETURN GREATEST(0, 100 - v_complaints * 10 - v_wage_debts * 5);
+END;
+$$;
+
+-- ============================================================================
+-- 4. Payroll
+-- ============================================================================
+
+-- Pays a term contract's wages from the company's cash up to now (or the end
+-- of the contract, if sooner) and returns the new paid-through time. Only
+-- whole days are paid unless p_final is set. The shortfall becomes a wage
+-- debt. The contract is re-read under lock so the stored terms are the ones
+-- paid; callers write the returned time back to the contract.
+CREATE OR REPLACE FUNCTION settle_contract_wages(
+  p_contract_id UUID,
+  p_final BOOLEAN DEFAULT false
+) RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contract employment_contracts;
+  v_company companies;
+  v_until TIMESTAMPTZ;
+  v_days NUMERIC;
+  v_due NUMERIC;
+  v_paid NUMERIC;
+  v_short NUMERIC;
+BEGIN
+  SELECT * INTO v_contract FROM employment_contracts WHERE id = p_contract_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_contract.contract_type <> 'term' OR v_contract.last_paid_at IS NULL THEN
+    RETURN v_contract.last_paid_at;
+  END IF;
+
+  v_until := LEAST(
+    NOW(),
+    COALESCE(v_contract.ends_at, 'infinity'::TIMESTAMPTZ),
+    COALESCE(v_contract.terminates_at, 'infinity'::TIMESTAMPTZ)
+  );
+  v_days := EXTRACT(EPOCH FROM (v_until - v_contract.last_paid_at)) / 86400;
+  IF NOT p_final THEN
+    v_days := FLOOR(v_days);
+  END IF;
+
+  IF v_days <= 0 THEN
+    RETURN v_contract.last_paid_at;
+  END IF;
+
+  v_due := ROUND(v_days * v_contract.wage_gold_per_day, 2);
+  IF v_due <= 0 THEN
+    RETURN v_contract.last_paid_at + make_interval(secs => v_days * 86400);
+  END IF;
+
+  SELECT * INTO v_company FROM companies WHERE id = v_contract.company_id FOR UPDATE;
+  v_paid := LEAST(v_due, COALESCE(v_company.cash_balance, 0));
+  v_short := v_due - v_paid;
+
+  IF v_paid > 0 THEN
+    UPDATE companies
+    SET cash_balance = cash_balance - v_paid,
+        updated_at = NOW()
+    WHERE id = v_contract.company_id;
+
+    PERFORM add_gold_enhanced(
+      v_contract.employee_id,
+      v_paid,
+      'wage_payment',
+      format('Wages from %s', v_company.name),
+      jsonb_build_object('company_id', v_contract.company_id, 'contract_id', v_contract.id)
+    );
+  END IF;
+
+  IF v_short > 0 THEN
+    INSERT INTO company_debts (company_id, creditor_id, kind, amount, description)
+    VALUES (
+      v_contract.company_id,
+      v_contract.employee_id,
+      'wages',
+      v_short,
+      format('Unpaid wages for %s days', ROUND(v_days, 2))
+    );
+
+    PERFORM notify_company_event(
+      v_contract.employee_id,
+      v_contract.company_id,
+      'Wages Unpaid',
+      format('%s could not pay %s gold of your wages. It is owed to you as a debt.', v_company.name, v_short),
+      jsonb_build_object('amount', v_short)
+    );
+
+    PERFORM notify_company_event(
+      v_company.owner_id,
+      v_contract.company_id,
+      'Payroll Short',
+      format('%s was %s gold short on payroll. The unpaid wages are now a debt.', v_company.name, v_short),
+      jsonb_build_object('amount', v_short)
+    );
+  END IF;
+
+  RETURN v_contract.last_paid_at + make_interval(secs => v_days * 86400);
+END;
+$$;
+
+-- Settles the last wages whenever a term contract is deactivated, whatever
+-- deactivated it (notice, expiry, bankruptcy or a direct update)
+CREATE OR REPLACE FUNCTION settle_ended_employment_contract()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.active AND NOT NEW.active THEN
+    -- The stored row still holds the terms in force before this update
+    NEW.last_paid_at := settle_contract_wages(OLD.id, true);
+    NEW.ended_at := COALESCE(NEW.ended_at, NOW());
+    NEW.end_reason := COALESCE(NEW.end_reason, 'released');
+
+    UPDATE employment_contract_offers
+    SET status = 'withdrawn', responded_at = NOW()
+    WHERE contract_id = NEW.id AND status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_settle_ended_employment_contract ON employment_contracts;
+CREATE TRIGGER trigger_settle_ended_employment_contract
+  BEFORE UPDATE OF active ON employment_contracts
+  FOR EACH ROW
+  EXECUTE FUNCTION settle_ended_employment_contract();
+
+-- perform_work only tracks contract stats for per-work wages, so term
+-- contracts keep theirs here
+CREATE OR REPLACE FUNCTION track_term_contract_work()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.work_type = 'employee' THEN
+    UPDATE employment_contracts
+    SET last_worked_at = NEW.worked_at,
+        total_work_days = total_work_days + 1
+    WHERE company_id = NEW.company_id
+      AND employee_id = NEW.user_id
+      AND active = true
+      AND contract_type = 'term';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_track_term_contract_work ON work_history;
+CREATE TRIGGER trigger_track_term_contract_work
+  AFTER INSERT ON work_history
+  FOR EACH ROW
+  EXECUTE FUNCTION track_term_contract_work();
+
+CREATE OR REPLACE FUNCTION count_recent_work_days(p_user_id UUID, p_company_id UUID)
+RETURNS INTEGER
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM work_history
+  WHERE user_id = p_user_id
+    AND company_id = p_company_id
+    AND worked_at > NOW() - INTERVAL '7 days';
+$$;
+
+-- Pays every term contract owed a full day, ends contracts whose term or
+-- notice has run out and expires stale offers
+CREATE OR REPLACE FUNCTION process_employment_payroll()
+RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contract employment_contracts;
+  v_processed INTEGER := 0;
+BEGIN
+  FOR v_contract IN
+    SELECT * FROM employment_contracts
+    WHERE active = true
+      AND contract_type = 'term'
+      AND (
+        last_paid_at <= NOW() - INTERVAL '1 day'
+        OR ends_at <= NOW()
+        OR terminates_at <= NOW()
+      )
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF v_contract.ends_at <= NOW() OR v_contract.terminates_at <= NOW() THEN
+      UPDATE employment_contracts
+      SET active = false,
+          end_reason = CASE
+            WHEN v_contract.terminates_at <= NOW() AND v_contract.notice_given_by = 'employee' THEN 'resigned'
+            WHEN v_contract.terminates_at <= NOW() THEN 'dismissed'
+            ELSE 'expired'
+          END
+      WHERE id = v_contract.id;
+
+      PERFORM notify_company_event(
+        v_contract.employee_id,
+        v_contract.company_id,
+        'Contract Ended',
+        format('Your contract at %s has ended.', (SELECT name FROM companies WHERE id = v_contract.company_id)),
+        jsonb_build_object('contract_id', v_contract.id)
+      );
+    ELSE
+      UPDATE employment_contracts
+      SET last_paid_at = settle_contract_wages(v_contract.id)
+      WHERE id = v_contract.id;
+    END IF;
+
+    v_processed := v_processed + 1;
+  END LOOP;
+
+  UPDATE employment_contract_offers
+  SET status = 'expired', responded_at = NOW()
+  WHERE status = 'pending' AND expires_at <= NOW();
+
+  RETURN v_processed;
+END;
+$$;
+
+-- ============================================================================
+-- 5. Offers
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION offer_employment_contract(
+  p_user_id UUID,
+  p_contract_id UUID,
+  p_wage_gold_per_day NUMERIC,
+  p_term_days INTEGER,
+  p_notice_days INTEGER,
+  p_min_days_per_week INTEGER DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_contract employment_contracts;
+  v_company companies;
+  v_offer_id UUID;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  IF p_wage_gold_per_day IS NULL OR p_wage_gold_per_day <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Wage must be positive');
+  END IF;
+
+  IF p_term_days IS NULL OR p_term_days NOT BETWEEN 1 AND 90 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Contracts run from 1 to 90 days');
+  END IF;
+
+  IF p_notice_days IS NULL OR p_notice_days NOT BETWEEN 0 AND 14 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Notice must be between 0 and 14 days');
+  END IF;
+
+  IF p_min_days_per_week IS NOT NULL AND p_min_days_per_week NOT BETWEEN 1 AND 7 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Minimum days per week must be between 1 and 7');
+  END IF;
+
+  SELECT * INTO v_contract FROM employment_contracts WHERE id = p_contract_id;
+  IF NOT FOUND OR NOT v_contract.active THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Employee not found');
+  END IF;
+
+  SELECT * INTO v_company FROM companies WHERE id = v_contract.company_id;
+  IF v_company.owner_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Employee not found');
+  END IF;
+
+  IF v_company.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Settle the company''s upkeep before offering contracts');
+  END IF;
+
+  IF v_contract.notice_given_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This employee is serving notice');
+  END IF;
+
+  -- A new offer replaces any that is still pending
+  UPDATE employment_contract_offers
+  SET status = 'withdrawn', responded_at = NOW()
+  WHERE contract_id = p_contract_id AND status = 'pending';
+
+  INSERT INTO employment_contract_offers (
+    contract_id, company_id, employee_id, wage_gold_per_day, term_days, notice_days, min_days_per_week
+  )
+  VALUES (
+    p_contract_id,
+    v_contract.company_id,
+    v_contract.employee_id,
+    p_wage_gold_per_day,
+    p_term_days,
+    p_notice_days,
+    p_min_days_per_week
+  )
+  RETURNING id INTO v_offer_id;
+
+  PERFORM notify_company_event(
+    v_contract.employee_id,
+    v_contract.company_id,
+    'Contract Offer',
+    format(
+      '%s offers you %s gold a day for %s days with %s days notice. The offer is open for 3 days.',
+      v_company.name,
+      p_wage_gold_per_day,
+      p_term_days,
+      p_notice_days
+    ),
+    jsonb_build_object('offer_id', v_offer_id)
+  );
+
+  RETURN jsonb_build_object('success', true, 'offer_id', v_offer_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION respond_employment_offer(
+  p_user_id UUID,
+  p_offer_id UUID,
+  p_accept BOOLEAN
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_offer employment_contract_offers;
+  v_contract employment_contracts;
+  v_company companies;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  SELECT * INTO v_offer FROM employment_contract_offers WHERE id = p_offer_id FOR UPDATE;
+  IF NOT FOUND OR v_offer.employee_id <> p_user_id OR v_offer.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Offer not found');
+  END IF;
+
+  IF v_offer.expires_at <= NOW() THEN
+    UPDATE employment_contract_offers
+    SET status = 'expired', responded_at = NOW()
+    WHERE id = p_offer_id;
+    RETURN jsonb_build_object('success', false, 'error', 'This offer has expired');
+  END IF;
+
+  SELECT * INTO v_company FROM companies WHERE id = v_offer.company_id;
+
+  IF NOT p_accept THEN
+    UPDATE employment_contract_offers
+    SET status = 'declined', responded_at = NOW()
+    WHERE id = p_offer_id;
+
+    PERFORM notify_company_event(
+      v_company.owner_id,
+      v_offer.company_id,
+      'Contract Declined',
+      format('Your contract offer at %s was declined.', v_company.name),
+      jsonb_build_object('offer_id', p_offer_id)
+    );
+
+    RETURN jsonb_build_object('success', true, 'status', 'declined');
+  END IF;
+
+  SELECT * INTO v_contract FROM employment_contracts WHERE id = v_offer.contract_id FOR UPDATE;
+  IF NOT FOUND OR NOT v_contract.active OR v_company.status = 'bankrupt' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This job no longer exists');
+  END IF;
+
+  -- Pay out the old terms before the new ones start
+  IF v_contract.contract_type = 'term' THEN
+    v_contract.last_paid_at := settle_contract_wages(v_contract.id, true);
+  END IF;
+
+  UPDATE employment_contracts
+  SET contract_type = 'term',
+      wage_per_day_community_coin = 0,
+      wage_gold_per_day = v_offer.wage_gold_per_day,
+      term_days = v_offer.term_days,
+      ends_at = NOW() + make_interval(days => v_offer.term_days),
+      notice_days = v_offer.notice_days,
+      min_days_per_week = v_offer.min_days_per_week,
+      last_paid_at = NOW(),
+      notice_given_at = NULL,
+      notice_given_by = NULL,
+      terminates_at = NULL
+  WHERE id = v_contract.id;
+
+  UPDATE employment_contract_offers
+  SET status = 'accepted', responded_at = NOW()
+  WHERE id = p_offer_id;
+
+  PERFORM notify_company_event(
+    v_company.owner_id,
+    v_offer.company_id,
+    'Contract Accepted',
+    format(
+      'Your contract offer at %s was accepted. Payroll of %s gold a day runs from the company''s cash.',
+      v_company.name,
+      v_offer.wage_gold_per_day
+    ),
+    jsonb_build_object('offer_id', p_offer_id)
+  );
+
+  RETURN jsonb_build_object('success', true, 'status', 'accepted');
+END;
+$$;
+
+-- ============================================================================
+-- 6. Notice, dismissal and resignation
+-- ============================================================================
+
+-- Either side ends the job. Per-work jobs end at once; term contracts run out
+-- their notice, except that an owner may dismiss at once an employee who
+-- worked fewer days in the past week than the contract requires.
+CREATE OR REPLACE FUNCTION give_employment_notice(
+  p_user_id UUID,
+  p_contract_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_contract employment_contracts;
+  v_company companies;
+  v_side TEXT;
+  v_other_id UUID;
+  v_terminates_at TIMESTAMPTZ;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  SELECT * INTO v_contract FROM employment_contracts WHERE id = p_contract_id FOR UPDATE;
+  IF NOT FOUND OR NOT v_contract.active THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Employment already ended');
+  END IF;
+
+  SELECT * INTO v_company FROM companies WHERE id = v_contract.company_id;
+
+  IF v_contract.employee_id = p_user_id THEN
+    v_side := 'employee';
+    v_other_id := v_company.owner_id;
+  ELSIF v_company.owner_id = p_user_id THEN
+    v_side := 'employer';
+    v_other_id := v_contract.employee_id;
+  ELSE
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  IF v_contract.notice_given_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Notice has already been given');
+  END IF;
+
+  IF v_contract.contract_type = 'per_work' OR v_contract.notice_days = 0 THEN
+    UPDATE employment_contracts
+    SET active = false,
+        end_reason = CASE WHEN v_side = 'employee' THEN 'resigned' ELSE 'dismissed' END
+    WHERE id = p_contract_id;
+
+    PERFORM notify_company_event(
+      v_other_id,
+      v_contract.company_id,
+      'Employment Ended',
+      CASE WHEN v_side = 'employee'
+        THEN format('An employee has left %s.', v_company.name)
+        ELSE format('You have been let go from %s.', v_company.name)
+      END,
+      jsonb_build_object('contract_id', p_contract_id)
+    );
+
+    RETURN jsonb_build_object('success', true, 'ended', true);
+  END IF;
+
+  IF v_side = 'employer'
+    AND v_contract.min_days_per_week IS NOT NULL
+    AND v_contract.hired_at <= NOW() - INTERVAL '7 days'
+    AND count_recent_work_days(v_contract.employee_id, v_contract.company_id) < v_contract.min_days_per_week
+  THEN
+    UPDATE employment_contracts
+    SET active = false, end_reason = 'breach'
+    WHERE id = p_contract_id;
+
+    PERFORM notify_company_event(
+      v_contract.employee_id,
+      v_contract.company_id,
+      'Dismissed',
+      format(
+        'You were dismissed from %s without notice for working fewer than %s days in the past week.',
+        v_company.name,
+        v_contract.min_days_per_week
+      ),
+      jsonb_build_object('contract_id', p_contract_id)
+    );
+
+    RETURN jsonb_build_object('success', true, 'ended', true);
+  END IF;
+
+  v_terminates_at := LEAST(
+    NOW() + make_interval(days => v_contract.notice_days),
+    COALESCE(v_contract.ends_at, 'infinity'::TIMESTAMPTZ)
+  );
+
+  UPDATE employment_contracts
+  SET notice_given_at = NOW(),
+      notice_given_by = v_side,
+      terminates_at = v_terminates_at
+  WHERE id = p_contract_id;
+
+  PERFORM notify_company_event(
+    v_other_id,
+    v_contract.company_id,
+    'Notice Given',
+    CASE WHEN v_side = 'employee'
+      THEN format('An employee at %s has resigned. They leave on %s.', v_company.name, to_char(v_terminates_at, 'YYYY-MM-DD'))
+      ELSE format('%s has given you notice. Your job ends on %s.', v_company.name, to_char(v_terminates_at, 'YYYY-MM-DD'))
+    END,
+    jsonb_build_object('contract_id', p_contract_id)
+  );
+
+  RETURN jsonb_build_object('success', true, 'ended', false, 'terminates_at', v_terminates_at);
+END;
+$$;
+
+-- ============================================================================
+-- 7. Complaints and debt repayment
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION file_employer_complaint(
+  p_user_id UUID,
+  p_company_id UUID,
+  p_kind TEXT,
+  p_description TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_company companies;
+  v_complaint_id UUID;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  IF p_kind NOT IN ('unpaid_wages', 'unfair_dismissal', 'contract_breach', 'other') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown complaint type');
+  END IF;
+
+  IF p_description IS NULL OR char_length(btrim(p_description)) = 0 OR char_length(p_description) > 500 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Describe the complaint in up to 500 characters');
+  END IF;
+
+  SELECT * INTO v_company FROM companies WHERE id = p_company_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Company not found');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM employment_contracts
+    WHERE company_id = p_company_id AND employee_id = p_user_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only employees of this company can file a complaint');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM employer_complaints
+    WHERE company_id = p_company_id
+      AND employee_id = p_user_id
+      AND created_at > NOW() - INTERVAL '7 days'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You can file one complaint per company each week');
+  END IF;
+
+  INSERT INTO employer_complaints (company_id, employer_id, employee_id, kind, description)
+  VALUES (p_company_id, v_company.owner_id, p_user_id, p_kind, btrim(p_description))
+  RETURNING id INTO v_complaint_id;
+
+  PERFORM notify_company_event(
+    v_company.owner_id,
+    p_company_id,
+    'Complaint Filed',
+    format('An employee filed a complaint against %s. Your employer reputation has dropped.', v_company.name),
+    jsonb_build_object('complaint_id', v_complaint_id, 'kind', p_kind)
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'complaint_id', v_complaint_id,
+    'reputation', get_employer_reputation(v_company.owner_id)
+  );
+END;
+$$;
+
+-- Pays an open debt from the company's cash, in full or as far as it goes
+CREATE OR REPLACE FUNCTION pay_company_debt(
+  p_user_id UUID,
+  p_debt_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_debt company_debts;
+  v_company companies;
+  v_payment NUMERIC;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  SELECT * INTO v_debt FROM company_debts WHERE id = p_debt_id FOR UPDATE;
+  IF NOT FOUND OR v_debt.settled_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Debt not found');
+  END IF;
+
+  SELECT * INTO v_company FROM companies WHERE id = v_debt.company_id FOR UPDATE;
+  IF NOT FOUND OR v_company.owner_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Debt not found');
+  END IF;
+
+  IF v_company.status = 'bankrupt' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This company is bankrupt');
+  END IF;
+
+  v_payment := LEAST(v_debt.amount - v_debt.amount_paid, v_company.cash_balance);
+  IF v_payment <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The company has no cash to pay with');
+  END IF;
+
+  UPDATE companies
+  SET cash_balance = cash_balance - v_payment,
+      updated_at = NOW()
+  WHERE id = v_company.id;
+
+  UPDATE company_debts
+  SET amount_paid = amount_paid + v_payment,
+      settled_at = CASE WHEN amount_paid + v_payment >= amount THEN NOW() ELSE NULL END
+  WHERE id = p_debt_id;
+
+  PERFORM add_gold_enhanced(
+    v_debt.creditor_id,
+    v_payment,
+    CASE WHEN v_debt.kind = 'wages' THEN 'wage_payment' ELSE 'company_withdrawal' END,
+    format('Debt repayment from %s', v_company.name),
+    jsonb_build_object('company_id', v_company.id, 'debt_id', p_debt_id)
+  );
+
+  PERFORM notify_company_event(
+    v_debt.creditor_id,
+    v_company.id,
+    'Debt Repaid',
+    format('%s paid you %s gold of what it owes you.', v_company.name, v_payment),
+    jsonb_build_object('debt_id', p_debt_id, 'amount', v_payment)
+  );
+
+  RETURN jsonb_build_object('success', true, 'cash_balance', v_company.cash_balance - v_payment);
+END;
+$$;
+
+-- ============================================================================
+-- 8. Employee view of contracts
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS get_user_employments(UUID);
+CREATE OR REPLACE FUNCTION get_user_employments(p_user_id UUID)
+RETURNS TABLE (
+  id UUID,
+  company_id UUID,
+  company_name TEXT,
+  company_type_key TEXT,
+  company_type_name TEXT,
+  owner_username TEXT,
+  hex_id TEXT,
+  custom_name TEXT,
+  wage_per_day_community_coin NUMERIC,
+  can_work_today BOOLEAN,
+  available_recipes JSONB,
+  hired_at TIMESTAMPTZ,
+  contract_type TEXT,
+  wage_gold_per_day NUMERIC,
+  ends_at TIMESTAMPTZ,
+  notice_days INTEGER,
+  min_days_per_week INTEGER,
+  terminates_at TIMESTAMPTZ,
+  notice_given_by TEXT,
+  days_worked_this_week INTEGER,
+  employer_reputation INTEGER,
+  pending_offer JSONB
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ec.id,
+    c.id as company_id,
+    c.name as company_name,
+    ct.key AS company_type_key,
+    ct.name AS company_type_name,
+    u.username AS owner_username,
+    c.hex_id,
+    wr.custom_name AS custom_name,
+    ec.wage_per_day_community_coin,
+    can_work_today(p_user_id, c.id) as can_work_today,
+    ct.can_produce_recipes AS available_recipes,
+    ec.hired_at,
+    ec.contract_type,
+    ec.wage_gold_per_day,
+    ec.ends_at,
+    ec.notice_days,
+    ec.min_days_per_week,
+    ec.terminates_at,
+    ec.notice_given_by,
+    count_recent_work_days(p_user_id, c.id) AS days_worked_this_week,
+    get_employer_reputation(c.owner_id) AS employer_reputation,
+    (
+      SELECT jsonb_build_object(
+        'id', o.id,
+        'wage_gold_per_day', o.wage_gold_per_day,
+        'term_days', o.term_days,
+        'notice_days', o.notice_days,
+        'min_days_per_week', o.min_days_per_week,
+        'expires_at', o.expires_at
+      )
+      FROM public.employment_contract_offers o
+      WHERE o.contract_id = ec.id
+        AND o.status = 'pending'
+        AND o.expires_at > NOW()
+      LIMIT 1
+    ) AS pending_offer
+  FROM public.employment_contracts ec
+  JOIN public.companies c ON ec.company_id = c.id
+  JOIN public.company_types ct ON c.company_type_id = ct.id
+  JOIN public.users u ON c.owner_id = u.id
+  LEFT JOIN public.world_regions wr ON btrim(c.hex_id) = wr.hex_id
+  WHERE ec.employee_id = p_user_id
+    AND ec.active = true
+  ORDER BY ec.hired_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 9. Permissions and schedule
+-- ============================================================================
+
+REVOKE EXECUTE ON FUNCTION settle_contract_wages FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION settle_contract_wages FROM authenticated;
+GRANT EXECUTE ON FUNCTION settle_contract_wages TO service_role;
+
+GRANT EXECUTE ON FUNCTION get_user_employments(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_employer_reputation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION count_recent_work_days(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION offer_employment_contract(UUID, UUID, NUMERIC, INTEGER, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION respond_employment_offer(UUID, UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION give_employment_notice(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION file_employer_complaint(UUID, UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION pay_company_debt(UUID, UUID) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION process_employment_payroll FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION process_employment_payroll FROM authenticated;
+GRANT EXECUTE ON FUNCTION process_employment_payroll TO service_role;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('process-employment-payroll');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL;  -- Ignore if job doesn't exist
+END $$;
+
+SELECT cron.schedule(
+  'process-employment-payroll',
+  '30 * * * *',  -- Every hour, offset from upkeep
+  $$SELECT public.process_employment_payroll();$$
+);
+
+COMMENT ON COLUMN employment_contracts.contract_type IS
+  'per_work pays community coin each time the employee works; term pays a fixed gold wage daily from company cash.';
+COMMENT ON COLUMN employment_contracts.last_paid_at IS
+  'Term contracts: wages have been paid (or recorded as debt) up to this time.';
+COMMENT ON TABLE employment_contract_offers IS
+  'Term contract offers from owners to their employees. Accepting applies the terms to the existing contract.';
+COMMENT ON TABLE employer_complaints IS
+  'Complaints from current and former employees. Each one lowers the employer''s reputation for 90 days.';
+COMMENT ON FUNCTION get_employer_reputation IS
+  'Employer reputation from 0 to 100: minus 10 per complaint in 90 days, minus 5 per open wage debt.';
+COMMENT ON FUNCTION process_employment_payroll IS
+  'Pays term contract wages from company cash, records shortfalls as wage debts and ends expired contracts.';
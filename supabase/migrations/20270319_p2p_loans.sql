@@ -0,0 +1,456 @@
+-- Player-to-Player Loans
+-- Lenders post loan offers in gold or a community currency: an amount, an
+-- interest rate for the whole term, a duration split into equal installments
+-- and optionally collateral the borrower must pledge (a quantity of one
+-- inventory item, or shares of one company). The principal is held in escrow
+-- from the moment the offer is posted until a borrower accepts it or the
+-- lender withdraws it.
+--
+-- Money only moves through the application's transaction service; the
+-- functions here keep the loan book and move collateral, which is not
+-- money. They are called with the service role only.
+--
+-- Accepting pledges the collateral (it leaves the borrower's inventory or
+-- shareholding) and lays out the repayment schedule. Installments are
+-- collected automatically when due. One still unpaid two days after it fell
+-- due puts the loan in default: the lender receives the collateral and the
+-- rest of the schedule is written off. A loan paid off in full returns the
+-- collateral to the borrower.
+--
+-- Every user has a credit history built from their past loans, which lenders
+-- can look up and use as a minimum requirement on their offers.
+
+-- ============================================================================
+-- 1. Transaction types
+-- ============================================================================
+
+ALTER TABLE currency_transactions
+  DROP CONSTRAINT IF EXISTS currency_transactions_transaction_type_check;
+
+ALTER TABLE currency_transactions
+  ADD CONSTRAINT currency_transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    -- Original types
+    'transfer',
+    'exchange',
+    'reward',
+    'tax',
+    'purchase',
+    'sale',
+    -- Battle system
+    'battle_cost',
+    'battle_reward',
+    'medal_reward',
+    -- Training system
+    'training_cost',
+    'training_reward',
+    -- Company/Production system
+    'company_creation',
+    'production_cost',
+    'wage_payment',
+    -- Company shares
+    'share_purchase',
+    'dividend_payment',
+    -- Company cash and bankruptcy
+    'company_deposit',
+    'company_withdrawal',
+    'auction_escrow',
+    'auction_refund',
+    'bankruptcy_payout',
+    -- P2P Exchange Market
+    'exchange_order_locked',
+    'exchange_order_filled',
+    'exchange_order_refunded',
+    -- Community treasury spending
+    'treasury_grant',
+    'treasury_stipend',
+    -- Diplomacy
+    'war_reparations',
+    'region_sale',
+    -- Central bank
+    'savings_deposit',
+    'savings_withdrawal',
+    'interest_earned',
+    'open_market_operation',
+    -- Supply contracts
+    'contract_escrow',
+    'contract_payment',
+    'contract_penalty',
+    'contract_refund',
+    -- P2P loans
+    'loan_escrow',
+    'loan_refund',
+    'loan_disbursement',
+    'loan_repayment',
+    'interest_payment',
+    -- Admin operations
+    'admin_grant',
+    'admin_deduction',
+    'admin_burn'
+  ));
+
+-- ============================================================================
+-- 2. Loans and repayment schedules
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS loans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lender_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  borrower_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  currency_type TEXT NOT NULL CHECK (currency_type IN ('gold', 'community')),
+  community_currency_id UUID REFERENCES community_currencies(id) ON DELETE RESTRICT,
+  principal NUMERIC NOT NULL CHECK (principal > 0),
+  interest_rate NUMERIC NOT NULL CHECK (interest_rate BETWEEN 0 AND 100), -- Percent over the whole term
+  duration_days INTEGER NOT NULL CHECK (duration_days BETWEEN 1 AND 90),
+  installment_count INTEGER NOT NULL CHECK (installment_count BETWEEN 1 AND 12),
+  min_credit_score INTEGER CHECK (min_credit_score BETWEEN 0 AND 100),
+
+  collateral_type TEXT NOT NULL DEFAULT 'none' CHECK (collateral_type IN ('none', 'inventory', 'shares')),
+  collateral_resource_id UUID REFERENCES resources(id) ON DELETE RESTRICT,
+  collateral_quality_id UUID REFERENCES resource_qualities(id) ON DELETE RESTRICT,
+  collateral_quantity NUMERIC CHECK (collateral_quantity > 0),
+  collateral_company_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+  collateral_shares INTEGER CHECK (collateral_shares > 0),
+  collateral_released_to UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  collateral_released_at TIMESTAMPTZ,
+
+  status TEXT NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'active', 'repaid', 'defaulted', 'withdrawn')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  accepted_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+
+  CONSTRAINT loans_currency_check CHECK (
+    currency_type = 'gold' OR community_currency_id IS NOT NULL
+  ),
+  CONSTRAINT loans_collateral_check CHECK (
+    collateral_type = 'none'
+    OR (collateral_type = 'inventory'
+      AND collateral_resource_id IS NOT NULL
+      AND collateral_quality_id IS NOT NULL
+      AND collateral_quantity IS NOT NULL)
+    OR (collateral_type = 'shares' AND collateral_shares IS NOT NULL)
+  ),
+  CONSTRAINT loans_borrower_check CHECK (borrower_id IS NULL OR borrower_id <> lender_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loans_open ON loans(created_at DESC) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_loans_lender ON loans(lender_id, status);
+CREATE INDEX IF NOT EXISTS idx_loans_borrower ON loans(borrower_id, status);
+
+CREATE TABLE IF NOT EXISTS loan_installments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_id UUID NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+  installment_number INTEGER NOT NULL,
+  due_at TIMESTAMPTZ NOT NULL,
+  principal_due NUMERIC NOT NULL CHECK (principal_due >= 0),
+  interest_due NUMERIC NOT NULL CHECK (interest_due >= 0),
+  -- overdue: collection failed at least once; still collectable until default
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'overdue', 'paid', 'defaulted')),
+  paid_late BOOLEAN NOT NULL DEFAULT false,
+  paid_at TIMESTAMPTZ,
+
+  UNIQUE (loan_id, installment_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_installments_due
+  ON loan_installments(due_at)
+  WHERE status IN ('pending', 'overdue');
+
+ALTER TABLE loans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE loan_installments ENABLE ROW LEVEL SECURITY;
+
+-- Loan books are public so lenders can judge borrowers
+DROP POLICY IF EXISTS "Loans are viewable by everyone" ON loans;
+CREATE POLICY "Loans are viewable by everyone" ON loans FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Loan installments are viewable by everyone" ON loan_installments;
+CREATE POLICY "Loan installments are viewable by everyone" ON loan_installments FOR SELECT USING (true);
+
+GRANT SELECT ON loans, loan_installments TO authenticated;
+
+-- ============================================================================
+-- 3. Credit history
+-- ============================================================================
+
+-- Score: share of installments paid on time (50 before any were due), minus
+-- 30 per default, between 0 and 100. NULL for users who never borrowed.
+CREATE OR REPLACE FUNCTION get_credit_history(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_loans RECORD;
+  v_installments RECORD;
+  v_score INTEGER;
+BEGIN
+  SELECT
+    COUNT(*) AS loans_taken,
+    COUNT(*) FILTER (WHERE status = 'active') AS active_loans,
+    COUNT(*) FILTER (WHERE status = 'repaid') AS loans_repaid,
+    COUNT(*) FILTER (WHERE status = 'defaulted') AS loans_defaulted
+  INTO v_loans
+  FROM loans
+  WHERE borrower_id = p_user_id;
+
+  SELECT
+    COUNT(*) FILTER (WHERE li.status = 'paid' AND NOT li.paid_late) AS on_time,
+    COUNT(*) FILTER (WHERE li.paid_late OR li.status IN ('overdue', 'defaulted')) AS late
+  INTO v_installments
+  FROM loan_installments li
+  JOIN loans l ON l.id = li.loan_id
+  WHERE l.borrower_id = p_user_id
+    AND li.due_at <= NOW();
+
+  IF v_loans.loans_taken > 0 THEN
+    v_score := CASE
+      WHEN v_installments.on_time + v_installments.late = 0 THEN 50
+      ELSE ROUND(100.0 * v_installments.on_time / (v_installments.on_time + v_installments.late))
+    END;
+    v_score := GREATEST(0, LEAST(100, v_score - v_loans.loans_defaulted * 30));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'user_id', p_user_id,
+    'score', v_score,
+    'loans_taken', v_loans.loans_taken,
+    'active_loans', v_loans.active_loans,
+    'loans_repaid', v_loans.loans_repaid,
+    'loans_defaulted', v_loans.loans_defaulted,
+    'installments_on_time', v_installments.on_time,
+    'installments_late', v_installments.late
+  );
+END;
+$$;
+
+-- ============================================================================
+-- 4. Accepting a loan and moving collateral
+-- ============================================================================
+
+-- Pledges the borrower's collateral, lays out the schedule and marks the loan
+-- active. The caller then pays the escrowed principal out to the borrower.
+CREATE OR REPLACE FUNCTION accept_loan(
+  p_loan_id UUID,
+  p_borrower_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_loan loans;
+  v_score INTEGER;
+  v_held NUMERIC;
+  v_principal_each NUMERIC;
+  v_interest_total NUMERIC;
+  v_interest_each NUMERIC;
+  v_interval INTERVAL;
+  i INTEGER;
+BEGIN
+  SELECT * INTO v_loan FROM loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND OR v_loan.status <> 'open' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This loan is no longer available');
+  END IF;
+
+  IF v_loan.lender_id = p_borrower_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You cannot borrow from yourself');
+  END IF;
+
+  IF v_loan.min_credit_score IS NOT NULL THEN
+    v_score := COALESCE((get_credit_history(p_borrower_id)->>'score')::INTEGER, 50);
+    IF v_score < v_loan.min_credit_score THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('This lender requires a credit score of %s; yours is %s', v_loan.min_credit_score, v_score)
+      );
+    END IF;
+  END IF;
+
+  IF v_loan.collateral_type = 'inventory' THEN
+    SELECT quantity INTO v_held
+    FROM user_inventory
+    WHERE user_id = p_borrower_id
+      AND resource_id = v_loan.collateral_resource_id
+      AND quality_id = v_loan.collateral_quality_id
+    FOR UPDATE;
+
+    IF COALESCE(v_held, 0) < v_loan.collateral_quantity THEN
+      RETURN jsonb_build_object('success', false, 'error', 'You do not hold the collateral this loan requires');
+    END IF;
+
+    UPDATE user_inventory
+    SET quantity = quantity - v_loan.collateral_quantity,
+        updated_at = NOW()
+    WHERE user_id = p_borrower_id
+      AND resource_id = v_loan.collateral_resource_id
+      AND quality_id = v_loan.collateral_quality_id;
+  ELSIF v_loan.collateral_type = 'shares' THEN
+    SELECT shares INTO v_held
+    FROM company_shareholdings
+    WHERE company_id = v_loan.collateral_company_id
+      AND holder_id = p_borrower_id
+    FOR UPDATE;
+
+    IF v_loan.collateral_company_id IS NULL OR COALESCE(v_held, 0) < v_loan.collateral_shares THEN
+      RETURN jsonb_build_object('success', false, 'error', 'You do not hold the shares this loan requires');
+    END IF;
+
+    PERFORM adjust_company_shareholding(v_loan.collateral_company_id, p_borrower_id, -v_loan.collateral_shares);
+  END IF;
+
+  -- Equal installments; the last one absorbs rounding
+  v_principal_each := ROUND(v_loan.principal / v_loan.installment_count, 2);
+  v_interest_total := ROUND(v_loan.principal * v_loan.interest_rate / 100, 2);
+  v_interest_each := ROUND(v_interest_total / v_loan.installment_count, 2);
+  v_interval := make_interval(secs => v_loan.duration_days * 86400.0 / v_loan.installment_count);
+
+  FOR i IN 1..v_loan.installment_count LOOP
+    INSERT INTO loan_installments (loan_id, installment_number, due_at, principal_due, interest_due)
+    VALUES (
+      p_loan_id,
+      i,
+      NOW() + v_interval * i,
+      CASE WHEN i = v_loan.installment_count
+        THEN v_loan.principal - v_principal_each * (v_loan.installment_count - 1)
+        ELSE v_principal_each
+      END,
+      CASE WHEN i = v_loan.installment_count
+        THEN v_interest_total - v_interest_each * (v_loan.installment_count - 1)
+        ELSE v_interest_each
+      END
+    );
+  END LOOP;
+
+  UPDATE loans
+  SET borrower_id = p_borrower_id,
+      status = 'active',
+      accepted_at = NOW()
+  WHERE id = p_loan_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Hands pledged collateral to the borrower (repaid or acceptance undone) or
+-- the lender (default). Shares of a company that no longer trades are lost.
+CREATE OR REPLACE FUNCTION release_loan_collateral(
+  p_loan_id UUID,
+  p_recipient_id UUID
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_loan loans;
+BEGIN
+  SELECT * INTO v_loan FROM loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND OR v_loan.borrower_id IS NULL OR v_loan.collateral_released_at IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No collateral held');
+  END IF;
+
+  IF v_loan.collateral_type = 'inventory' THEN
+    INSERT INTO user_inventory (user_id, resource_id, quality_id, quantity)
+    VALUES (p_recipient_id, v_loan.collateral_resource_id, v_loan.collateral_quality_id, v_loan.collateral_quantity)
+    ON CONFLICT (user_id, resource_id, quality_id) DO UPDATE
+    SET quantity = user_inventory.quantity + EXCLUDED.quantity,
+        updated_at = NOW();
+  ELSIF v_loan.collateral_type = 'shares'
+    AND EXISTS (
+      SELECT 1 FROM companies
+      WHERE id = v_loan.collateral_company_id AND status <> 'bankrupt' AND total_shares > 0
+    )
+  THEN
+    PERFORM adjust_company_shareholding(v_loan.collateral_company_id, p_recipient_id, v_loan.collateral_shares);
+  END IF;
+
+  UPDATE loans
+  SET collateral_released_to = p_recipient_id,
+      collateral_released_at = NOW()
+  WHERE id = p_loan_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Undo an acceptance whose payout failed: collateral back, schedule dropped
+CREATE OR REPLACE FUNCTION cancel_loan_acceptance(p_loan_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_loan loans;
+BEGIN
+  SELECT * INTO v_loan FROM loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND OR v_loan.status <> 'active' THEN
+    RETURN;
+  END IF;
+
+  PERFORM release_loan_collateral(p_loan_id, v_loan.borrower_id);
+  DELETE FROM loan_installments WHERE loan_id = p_loan_id;
+
+  UPDATE loans
+  SET borrower_id = NULL,
+      status = 'open',
+      accepted_at = NULL,
+      collateral_released_to = NULL,
+      collateral_released_at = NULL
+  WHERE id = p_loan_id;
+END;
+$$;
+
+-- ============================================================================
+-- 5. Installment collection
+-- ============================================================================
+
+-- Collection moves money through the app's transaction service, so the job
+-- calls the cron endpoint rather than a SQL function
+DO $$
+BEGIN
+  PERFORM cron.unschedule('loan-installments-hourly');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL;  -- Ignore if job doesn't exist
+END $$;
+
+SELECT cron.schedule(
+  'loan-installments-hourly',
+  '15 * * * *',
+  $$
+    SELECT net.http_post(
+      url := current_setting('app.settings.api_url', true) || '/api/cron/loans',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.cron_secret', true)
+      )
+    );
+  $$
+);
+
+-- ============================================================================
+-- 6. Permissions
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION get_credit_history(UUID) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION accept_loan FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION accept_loan FROM authenticated;
+GRANT EXECUTE ON FUNCTION accept_loan TO service_role;
+
+REVOKE EXECUTE ON FUNCTION release_loan_collateral FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION release_loan_collateral FROM authenticated;
+GRANT EXECUTE ON FUNCTION release_loan_collateral TO service_role;
+
+REVOKE EXECUTE ON FUNCTION cancel_loan_acceptance FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION cancel_loan_acceptance FROM authenticated;
+GRANT EXECUTE ON FUNCTION cancel_loan_acceptance TO service_role;
+
+COMMENT ON TABLE loans IS
+  'Player-to-player loans. Open offers hold the principal in escrow; active loans hold the pledged collateral.';
+COMMENT ON COLUMN loans.interest_rate IS
+  'Simple interest in percent over the whole term, spread evenly across the installments.';
+COMMENT ON TABLE loan_installments IS
+  'Repayment schedule. Collected automatically when due; unpaid two days after due puts the loan in default.';
+COMMENT ON FUNCTION get_credit_history IS
+  'Borrowing record and a 0-100 credit score: on-time share of due installments, minus 30 per default.';
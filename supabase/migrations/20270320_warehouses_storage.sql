@@ -0,0 +1,1001 @@
+-- Warehouses and Storage Capacity
+-- Inventory now lives at a place. A user's inventory (user_inventory) is
+-- what they have where they currently stand; goods at any other hex sit in
+-- user_stored_inventory. Travelling leaves goods behind at the hex the user
+-- departs from and picks up whatever they stored at the destination. Travel
+-- tickets are the only thing a user carries with them.
+--
+-- Every user can keep a limited number of units at each hex. Building a
+-- warehouse (a new company type) on a hex raises the owner's capacity there
+-- by a fixed amount per warehouse level. Capacity is checked when goods are
+-- bought, produced or shipped in; deliveries already agreed on (standing buy
+-- orders, supply contracts, returned loan collateral) still arrive when
+-- storage is full, but nothing more can be bought or shipped there until
+-- space is freed. Company production still works from the owner's inventory
+-- wherever the owner is, and nobody can work a shift whose output the owner
+-- has no room for there.
+--
+-- Goods move between hexes by shipping: either travel tickets (one per 30
+-- hexes for every 100 units, like travelling) or a gold fee per unit and hex
+-- of distance.
+--
+-- Market purchases already settle into user_inventory, i.e. at the buyer's
+-- current location; they now also need free storage there.
+--
+-- A community's inventory is held at its capital.
+
+-- ============================================================================
+-- 1. Transaction types
+-- ============================================================================
+
+ALTER TABLE currency_transactions
+  DROP CONSTRAINT IF EXISTS currency_transactions_transaction_type_check;
+
+ALTER TABLE currency_transactions
+  ADD CONSTRAINT currency_transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    -- Original types
+    'transfer',
+    'exchange',
+    'reward',
+    'tax',
+    'purchase',
+    'sale',
+    -- Battle system
+    'battle_cost',
+    'battle_reward',
+    'medal_reward',
+    -- Training system
+    'training_cost',
+    'training_reward',
+    -- Company/Production system
+    'company_creation',
+    'production_cost',
+    'wage_payment',
+    -- Company shares
+    'share_purchase',
+    'dividend_payment',
+    -- Company cash and bankruptcy
+    'company_deposit',
+    'company_withdrawal',
+    'auction_escrow',
+    'auction_refund',
+    'bankruptcy_payout',
+    -- P2P Exchange Market
+    'exchange_order_locked',
+    'exchange_order_filled',
+    'exchange_order_refunded',
+    -- Community treasury spending
+    'treasury_grant',
+    'treasury_stipend',
+    -- Diplomacy
+    'war_reparations',
+    'region_sale',
+    -- Central bank
+    'savings_deposit',
+    'savings_withdrawal',
+    'interest_earned',
+    'open_market_operation',
+    -- Supply contracts
+    'contract_escrow',
+    'contract_payment',
+    'contract_penalty',
+    'contract_refund',
+    -- P2P loans
+    'loan_escrow',
+    'loan_refund',
+    'loan_disbursement',
+    'loan_repayment',
+    'interest_payment',
+    -- Warehouses and shipping
+    'shipping_fee',
+    -- Admin operations
+    'admin_grant',
+    'admin_deduction',
+    'admin_burn'
+  ));
+
+-- ============================================================================
+-- 2. Warehouse company type
+-- ============================================================================
+
+-- Warehouses run no recipes; their level sets the storage they add
+INSERT INTO company_types (key, name, description, build_cost_gold, build_cost_resources, can_produce_recipes, icon, metadata)
+VALUES (
+  'warehouse',
+  'Warehouse',
+  'Store more goods on this hex. Each level adds 1,000 units of storage for the owner.',
+  100,
+  '{}',
+  '[]',
+  'warehouse',
+  '{"pollution_per_work": 0, "upgradeable": true, "max_level": 5, "storage_per_level": 1000}'
+)
+ON CONFLICT (key) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  build_cost_gold = EXCLUDED.build_cost_gold,
+  build_cost_resources = EXCLUDED.build_cost_resources,
+  can_produce_recipes = EXCLUDED.can_produce_recipes,
+  icon = EXCLUDED.icon,
+  metadata = EXCLUDED.metadata;
+
+-- ============================================================================
+-- 3. Stored inventory
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_stored_inventory (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  hex_id TEXT NOT NULL,
+  resource_id UUID NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  quality_id UUID NOT NULL REFERENCES resource_qualities(id) ON DELETE RESTRICT,
+  quantity NUMERIC NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (user_id, hex_id, resource_id, quality_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_stored_inventory_user_hex ON user_stored_inventory(user_id, hex_id);
+
+ALTER TABLE user_stored_inventory ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users; goods only move through the functions below
+DROP POLICY IF EXISTS "Users can view their own stored inventory" ON user_stored_inventory;
+CREATE POLICY "Users can view their own stored inventory"
+  ON user_stored_inventory FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT id FROM public.users WHERE auth_id = auth.uid()));
+
+-- ============================================================================
+-- 4. Capacity
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_storage_capacity(p_user_id UUID, p_hex_id TEXT)
+RETURNS NUMERIC
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 1000 + COALESCE(SUM(
+    COALESCE((ct.metadata->>'storage_per_level')::NUMERIC, 0) * GREATEST(c.level, 1)
+  ), 0)
+  FROM companies c
+  JOIN company_types ct ON ct.id = c.company_type_id
+  WHERE c.owner_id = p_user_id
+    AND c.hex_id = p_hex_id
+    AND ct.key = 'warehouse'
+    AND c.status <> 'bankrupt';
+$$;
+
+-- Units held at a hex: stored goods there, plus the user's inventory when
+-- they are standing on it
+CREATE OR REPLACE FUNCTION get_storage_used(p_user_id UUID, p_hex_id TEXT)
+RETURNS NUMERIC
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE((
+      SELECT SUM(quantity) FROM user_stored_inventory
+      WHERE user_id = p_user_id AND hex_id = p_hex_id
+    ), 0)
+    + COALESCE((
+      SELECT SUM(ui.quantity)
+      FROM user_inventory ui
+      JOIN users u ON u.id = ui.user_id
+      WHERE ui.user_id = p_user_id AND u.current_hex = p_hex_id
+    ), 0);
+$$;
+
+-- ============================================================================
+-- 5. Goods stay where they were left
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION move_inventory_with_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Leave everything but travel tickets at the hex being left. A user
+  -- without a location yet has nothing stored anywhere.
+  IF OLD.current_hex IS NOT NULL THEN
+    INSERT INTO user_stored_inventory (user_id, hex_id, resource_id, quality_id, quantity)
+    SELECT ui.user_id, OLD.current_hex, ui.resource_id, ui.quality_id, ui.quantity
+    FROM user_inventory ui
+    JOIN resources r ON r.id = ui.resource_id
+    WHERE ui.user_id = NEW.id
+      AND ui.quantity > 0
+      AND r.key <> 'ticket'
+    ON CONFLICT (user_id, hex_id, resource_id, quality_id) DO UPDATE
+    SET quantity = user_stored_inventory.quantity + EXCLUDED.quantity,
+        updated_at = NOW();
+
+    DELETE FROM user_inventory ui
+    USING resources r
+    WHERE r.id = ui.resource_id
+      AND ui.user_id = NEW.id
+      AND r.key <> 'ticket';
+  END IF;
+
+  -- Pick up what was stored at the destination
+  IF NEW.current_hex IS NOT NULL THEN
+    INSERT INTO user_inventory (user_id, resource_id, quality_id, quantity)
+    SELECT user_id, resource_id, quality_id, quantity
+    FROM user_stored_inventory
+    WHERE user_id = NEW.id
+      AND hex_id = NEW.current_hex
+      AND quantity > 0
+    ON CONFLICT (user_id, resource_id, quality_id) DO UPDATE
+    SET quantity = user_inventory.quantity + EXCLUDED.quantity,
+        updated_at = NOW();
+
+    DELETE FROM user_stored_inventory
+    WHERE user_id = NEW.id
+      AND hex_id = NEW.current_hex;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_move_inventory_with_user ON users;
+CREATE TRIGGER trg_move_inventory_with_user
+  AFTER UPDATE OF current_hex ON users
+  FOR EACH ROW
+  WHEN (OLD.current_hex IS DISTINCT FROM NEW.current_hex)
+  EXECUTE FUNCTION move_inventory_with_user();
+
+-- ============================================================================
+-- 6. Market purchases need room at the buyer's location
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION purchase_product_with_location_check(
+  p_buyer_id UUID,
+  p_listing_id UUID,
+  p_quantity NUMERIC
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_listing_community_id UUID;
+  v_seller_id UUID;
+  v_buyer_hex TEXT;
+  v_hex_community_id UUID;
+  v_free NUMERIC;
+BEGIN
+  PERFORM set_config('row_security', 'off', true);
+
+  -- Ensure caller can only purchase as themselves
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  IF v_public_user_id <> p_buyer_id THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  -- Get buyer's current location
+  SELECT current_hex INTO v_buyer_hex
+  FROM public.users
+  WHERE id = p_buyer_id;
+
+  IF v_buyer_hex IS NULL THEN
+    RAISE EXCEPTION 'You must be located in a community''s territory to buy items';
+  END IF;
+
+  SELECT owner_community_id INTO v_hex_community_id
+  FROM public.world_regions
+  WHERE hex_id = v_buyer_hex;
+
+  IF v_hex_community_id IS NULL THEN
+    RAISE EXCEPTION 'You must be in a community''s territory to buy items (wilderness not allowed)';
+  END IF;
+
+  SELECT community_id, seller_id INTO v_listing_community_id, v_seller_id
+  FROM market_listings
+  WHERE id = p_listing_id
+    AND listing_type = 'product'
+    AND status = 'active';
+
+  IF v_listing_community_id IS NULL THEN
+    RAISE EXCEPTION 'Listing not found or not active';
+  END IF;
+
+  -- Verify buyer is in the same community as the listing
+  IF v_hex_community_id <> v_listing_community_id THEN
+    RAISE EXCEPTION 'Travel to this community''s territory to purchase items from their market';
+  END IF;
+
+  IF is_trade_embargoed(p_buyer_id, v_listing_community_id, v_seller_id) THEN
+    RAISE EXCEPTION 'Trade blocked: an embargo stands between you and this seller';
+  END IF;
+
+  -- Goods are delivered here, so there must be room for them
+  v_free := get_storage_capacity(p_buyer_id, v_buyer_hex) - get_storage_used(p_buyer_id, v_buyer_hex);
+  IF p_quantity > v_free THEN
+    RAISE EXCEPTION 'Not enough storage here: % units free. Build a warehouse or ship goods elsewhere', GREATEST(v_free, 0);
+  END IF;
+
+  RETURN settle_product_trade(p_listing_id, p_buyer_id, p_quantity);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION purchase_product_with_location_check(UUID, UUID, NUMERIC) TO authenticated;
+
+-- ============================================================================
+-- 7. Production output needs room at the owner's location
+-- ============================================================================
+
+-- Error message when a recipe's output would not fit where the company owner
+-- stands (counting the inputs the work uses up), NULL when it fits
+CREATE OR REPLACE FUNCTION check_production_storage(
+  p_owner_id UUID,
+  p_inputs JSONB,
+  p_outputs JSONB
+) RETURNS TEXT
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_hex TEXT;
+  v_output NUMERIC;
+  v_free NUMERIC;
+BEGIN
+  SELECT current_hex INTO v_hex FROM users WHERE id = p_owner_id;
+  IF v_hex IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(COALESCE((value->>'base_quantity')::NUMERIC, 1)), 0)
+  INTO v_output
+  FROM jsonb_each(p_outputs);
+
+  v_free := get_storage_capacity(p_owner_id, v_hex) - get_storage_used(p_owner_id, v_hex)
+    + COALESCE((SELECT SUM((value::TEXT)::NUMERIC) FROM jsonb_each(p_inputs)), 0);
+
+  IF v_output > v_free THEN
+    RETURN format(
+      'The company owner has no room for the output where they are: %s units free. They need to build a warehouse or ship goods elsewhere',
+      GREATEST(v_free, 0)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- perform_work as in 20270316, refusing work whose output the owner has no room for
+DROP FUNCTION IF EXISTS perform_work(UUID, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION perform_work(
+  p_worker_id UUID,
+  p_company_id UUID,
+  p_recipe_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_company RECORD;
+  v_recipe RECORD;
+  v_contract RECORD;
+  v_founder_id UUID;
+  v_work_type TEXT;
+  v_wage NUMERIC := 0;
+  v_inputs JSONB;
+  v_outputs JSONB;
+  v_hex_bonuses JSONB := '{}';
+  v_result JSONB;
+  v_resource_id UUID;
+  v_required_qty NUMERIC;
+  v_current_qty NUMERIC;
+  v_missing TEXT[] := ARRAY[]::TEXT[];
+  v_stock RECORD;
+  v_take NUMERIC;
+  v_output_qty NUMERIC;
+  v_quality_id UUID;
+  v_quality_tier INT;
+  v_company_level INT;
+  v_quality_roll NUMERIC;
+  v_storage_error TEXT;
+BEGIN
+  -- 1. Check cooldown (one work per company per day)
+  IF NOT can_work_today(p_worker_id, p_company_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Already worked at this company today'
+    );
+  END IF;
+
+  -- 2. Get company details
+  SELECT * INTO v_company FROM companies WHERE id = p_company_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Company not found');
+  END IF;
+
+  v_founder_id := v_company.owner_id;
+  v_company_level := COALESCE(v_company.level, 1);
+
+  -- 3. Determine work type (manager vs employee)
+  IF p_worker_id = v_founder_id THEN
+    v_work_type := 'manager';
+  ELSE
+    -- Check employment contract
+    SELECT * INTO v_contract
+    FROM employment_contracts
+    WHERE company_id = p_company_id
+      AND employee_id = p_worker_id
+      AND active = true;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Not employed at this company');
+    END IF;
+
+    v_work_type := 'employee';
+    v_wage := v_contract.wage_per_day_community_coin;
+  END IF;
+
+  -- 4. Get recipe (must be one this company type can produce)
+  SELECT * INTO v_recipe FROM production_recipes WHERE id = p_recipe_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Recipe not found');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM company_types ct
+    WHERE ct.id = v_company.company_type_id
+      AND ct.can_produce_recipes ? p_recipe_id::TEXT
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This company cannot produce that recipe');
+  END IF;
+
+  v_inputs := v_recipe.inputs;
+  v_outputs := v_recipe.outputs;
+
+  -- 5. Lock the FOUNDER's stock of every input and check all of them before
+  -- touching any, reporting everything that is short
+  PERFORM 1
+  FROM user_inventory
+  WHERE user_id = v_founder_id
+    AND resource_id IN (SELECT key::UUID FROM jsonb_each(v_inputs))
+  FOR UPDATE;
+
+  FOR v_resource_id, v_required_qty IN
+    SELECT (key::UUID), (value::TEXT)::NUMERIC
+    FROM jsonb_each(v_inputs)
+  LOOP
+    SELECT COALESCE(SUM(quantity), 0) INTO v_current_qty
+    FROM user_inventory
+    WHERE user_id = v_founder_id
+      AND resource_id = v_resource_id;
+
+    IF v_current_qty < v_required_qty THEN
+      v_missing := v_missing || format(
+        '%s %s',
+        v_required_qty - v_current_qty,
+        COALESCE((SELECT name FROM resources WHERE id = v_resource_id), 'materials')
+      );
+    END IF;
+  END LOOP;
+
+  IF array_length(v_missing, 1) > 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Founder lacks required materials: ' || array_to_string(v_missing, ', ') || ' short'
+    );
+  END IF;
+
+  -- Output lands where the founder stands, so it has to fit there
+  v_storage_error := check_production_storage(v_founder_id, v_inputs, v_outputs);
+  IF v_storage_error IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', v_storage_error);
+  END IF;
+
+  -- 6. Consume inputs from FOUNDER's inventory, lowest quality first
+  FOR v_resource_id, v_required_qty IN
+    SELECT (key::UUID), (value::TEXT)::NUMERIC
+    FROM jsonb_each(v_inputs)
+  LOOP
+    FOR v_stock IN
+      SELECT ui.id, ui.quantity
+      FROM user_inventory ui
+      LEFT JOIN resource_qualities rq ON rq.id = ui.quality_id
+      WHERE ui.user_id = v_founder_id
+        AND ui.resource_id = v_resource_id
+        AND ui.quantity > 0
+      ORDER BY rq.quality_level NULLS FIRST
+    LOOP
+      EXIT WHEN v_required_qty <= 0;
+      v_take := LEAST(v_stock.quantity, v_required_qty);
+
+      UPDATE user_inventory
+      SET quantity = quantity - v_take,
+          updated_at = NOW()
+      WHERE id = v_stock.id;
+
+      v_required_qty := v_required_qty - v_take;
+    END LOOP;
+  END LOOP;
+
+  -- 7. Produce outputs to FOUNDER's inventory with level-based quality
+  -- Quality distribution based on company level:
+  -- Level 1: 100% Common (tier 1)
+  -- Level 2: 60% Common, 40% Uncommon (tier 2)
+  -- Level 3: 40% Common, 40% Uncommon, 20% Rare (tier 3)
+  -- Level 4: 20% Uncommon, 50% Rare, 30% Epic (tier 4)
+  -- Level 5: 10% Rare, 40% Epic, 50% Legendary (tier 5)
+
+  FOR v_resource_id, v_output_qty IN
+    SELECT (key::UUID), COALESCE((value->>'base_quantity')::NUMERIC, 1)
+    FROM jsonb_each(v_outputs)
+  LOOP
+    -- Roll for quality based on company level
+    v_quality_roll := random();
+
+    IF v_company_level = 1 THEN
+      v_quality_tier := 1; -- Common
+    ELSIF v_company_level = 2 THEN
+      IF v_quality_roll < 0.60 THEN
+        v_quality_tier := 1; -- Common
+      ELSE
+        v_quality_tier := 2; -- Uncommon
+      END IF;
+    ELSIF v_company_level = 3 THEN
+      IF v_quality_roll < 0.40 THEN
+        v_quality_tier := 1; -- Common
+      ELSIF v_quality_roll < 0.80 THEN
+        v_quality_tier := 2; -- Uncommon
+      ELSE
+        v_quality_tier := 3; -- Rare
+      END IF;
+    ELSIF v_company_level = 4 THEN
+      IF v_quality_roll < 0.20 THEN
+        v_quality_tier := 2; -- Uncommon
+      ELSIF v_quality_roll < 0.70 THEN
+        v_quality_tier := 3; -- Rare
+      ELSE
+        v_quality_tier := 4; -- Epic
+      END IF;
+    ELSE -- Level 5+
+      IF v_quality_roll < 0.10 THEN
+        v_quality_tier := 3; -- Rare
+      ELSIF v_quality_roll < 0.50 THEN
+        v_quality_tier := 4; -- Epic
+      ELSE
+        v_quality_tier := 5; -- Legendary
+      END IF;
+    END IF;
+
+    -- Get the quality ID for this tier
+    SELECT id INTO v_quality_id
+    FROM resource_qualities
+    WHERE quality_level = v_quality_tier
+    LIMIT 1;
+
+    -- If quality not found, fallback to common
+    IF v_quality_id IS NULL THEN
+      SELECT id INTO v_quality_id FROM resource_qualities WHERE key = 'common' LIMIT 1;
+    END IF;
+
+    -- Add resource to inventory
+    INSERT INTO user_inventory (user_id, resource_id, quality_id, quantity)
+    VALUES (v_founder_id, v_resource_id, v_quality_id, v_output_qty)
+    ON CONFLICT (user_id, resource_id, quality_id)
+    DO UPDATE SET
+      quantity = user_inventory.quantity + v_output_qty,
+      updated_at = NOW();
+  END LOOP;
+
+  -- 8. Pay wage if employee (from founder's wallet to employee's wallet)
+  IF v_work_type = 'employee' AND v_wage > 0 THEN
+    -- Deduct from founder's community coin wallet
+    UPDATE user_wallets
+    SET community_coins = community_coins - v_wage,
+        updated_at = NOW()
+    WHERE user_id = v_founder_id
+      AND currency_type = 'community'
+      AND community_currency_id = v_contract.community_coin_type;
+
+    -- Add to employee's community coin wallet
+    INSERT INTO user_wallets (
+      user_id,
+      currency_type,
+      community_currency_id,
+      community_coins
+    )
+    VALUES (p_worker_id, 'community', v_contract.community_coin_type, v_wage)
+    ON CONFLICT (user_id, community_currency_id)
+    DO UPDATE SET
+      community_coins = user_wallets.community_coins + v_wage,
+      updated_at = NOW();
+
+    -- Update contract stats
+    UPDATE employment_contracts
+    SET last_worked_at = NOW(),
+        total_work_days = total_work_days + 1
+    WHERE id = v_contract.id;
+  END IF;
+
+  -- 9. Record work history
+  INSERT INTO work_history (
+    user_id,
+    company_id,
+    work_type,
+    recipe_id,
+    resources_consumed,
+    resources_produced,
+    hex_bonuses_applied,
+    wage_earned,
+    currency_type,
+    worked_at
+  ) VALUES (
+    p_worker_id,
+    p_company_id,
+    v_work_type,
+    p_recipe_id,
+    v_inputs,
+    v_outputs,
+    v_hex_bonuses,
+    v_wage,
+    CASE WHEN v_wage > 0 THEN 'community_coin' ELSE NULL END,
+    NOW()
+  );
+
+  -- 10. Return success
+  v_result := jsonb_build_object(
+    'success', true,
+    'work_type', v_work_type,
+    'inputs_consumed', v_inputs,
+    'outputs_produced', v_outputs,
+    'wage_earned', v_wage,
+    'hex_bonuses', v_hex_bonuses,
+    'quality_tier', v_quality_tier,
+    'company_level', v_company_level
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant execute permission
+GRANT EXECUTE ON FUNCTION perform_work(UUID, UUID, UUID) TO authenticated;
+
+
+-- ============================================================================
+-- 8. Shipping
+-- ============================================================================
+
+-- Move goods between two hexes. Either end may be the user's current
+-- location (their inventory) or any hex where they store goods.
+CREATE OR REPLACE FUNCTION ship_inventory(
+  p_resource_id UUID,
+  p_quality_id UUID,
+  p_quantity NUMERIC,
+  p_from_hex TEXT,
+  p_to_hex TEXT,
+  p_payment TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_current_hex TEXT;
+  v_distance INTEGER;
+  v_tickets INTEGER;
+  v_fee NUMERIC;
+  v_held NUMERIC;
+  v_free NUMERIC;
+  v_ticket_resource_id UUID;
+  v_common_quality_id UUID;
+  v_ticket_balance NUMERIC;
+  v_ticket_need NUMERIC;
+  v_charge JSONB;
+BEGIN
+  SELECT u.id, u.current_hex INTO v_user_id, v_current_hex
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Quantity must be positive');
+  END IF;
+
+  IF p_payment NOT IN ('tickets', 'gold') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Pay with tickets or gold');
+  END IF;
+
+  IF p_from_hex IS NULL OR p_to_hex IS NULL OR p_from_hex = p_to_hex THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Choose two different locations');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM world_regions WHERE hex_id = p_to_hex) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown destination');
+  END IF;
+
+  -- Check the goods are there
+  IF p_from_hex = v_current_hex THEN
+    SELECT quantity INTO v_held
+    FROM user_inventory
+    WHERE user_id = v_user_id AND resource_id = p_resource_id AND quality_id = p_quality_id
+    FOR UPDATE;
+  ELSE
+    SELECT quantity INTO v_held
+    FROM user_stored_inventory
+    WHERE user_id = v_user_id AND hex_id = p_from_hex
+      AND resource_id = p_resource_id AND quality_id = p_quality_id
+    FOR UPDATE;
+  END IF;
+
+  IF COALESCE(v_held, 0) < p_quantity THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You do not have that many at this location');
+  END IF;
+
+  v_free := get_storage_capacity(v_user_id, p_to_hex) - get_storage_used(v_user_id, p_to_hex);
+  IF p_quantity > v_free THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Not enough storage at the destination: %s units free', GREATEST(v_free, 0))
+    );
+  END IF;
+
+  v_distance := calculate_hex_distance(p_from_hex, p_to_hex);
+  v_tickets := CEILING(v_distance::NUMERIC / 30)::INTEGER * CEILING(p_quantity / 100)::INTEGER;
+  v_fee := GREATEST(1, ROUND(p_quantity * v_distance * 0.01, 2));
+
+  -- Pay. Tickets come from what the user carries.
+  IF p_payment = 'tickets' THEN
+    SELECT id INTO v_ticket_resource_id FROM resources WHERE key = 'ticket';
+    SELECT id INTO v_common_quality_id FROM resource_qualities WHERE key = 'common';
+
+    SELECT COALESCE(quantity, 0) INTO v_ticket_balance
+    FROM user_inventory
+    WHERE user_id = v_user_id
+      AND resource_id = v_ticket_resource_id
+      AND quality_id = v_common_quality_id
+    FOR UPDATE;
+
+    -- Shipping tickets out of the same stack needs both
+    v_ticket_need := v_tickets;
+    IF p_from_hex = v_current_hex AND p_resource_id = v_ticket_resource_id AND p_quality_id = v_common_quality_id THEN
+      v_ticket_need := v_ticket_need + p_quantity;
+    END IF;
+
+    IF COALESCE(v_ticket_balance, 0) < v_ticket_need THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Shipping this far needs %s travel tickets', v_tickets),
+        'tickets_required', v_tickets
+      );
+    END IF;
+
+    UPDATE user_inventory
+    SET quantity = quantity - v_tickets,
+        updated_at = NOW()
+    WHERE user_id = v_user_id
+      AND resource_id = v_ticket_resource_id
+      AND quality_id = v_common_quality_id;
+  ELSE
+    v_charge := deduct_gold_enhanced(
+      v_user_id,
+      v_fee,
+      'shipping_fee',
+      format('Shipping %s units over %s hexes', p_quantity, v_distance),
+      jsonb_build_object(
+        'resource_id', p_resource_id,
+        'quality_id', p_quality_id,
+        'quantity', p_quantity,
+        'from_hex', p_from_hex,
+        'to_hex', p_to_hex
+      ),
+      'personal'
+    );
+
+    IF NOT COALESCE((v_charge->>'success')::BOOLEAN, false) THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('Shipping costs %s gold', v_fee),
+        'gold_required', v_fee
+      );
+    END IF;
+  END IF;
+
+  -- Move the goods
+  IF p_from_hex = v_current_hex THEN
+    UPDATE user_inventory
+    SET quantity = quantity - p_quantity,
+        updated_at = NOW()
+    WHERE user_id = v_user_id AND resource_id = p_resource_id AND quality_id = p_quality_id;
+  ELSE
+    UPDATE user_stored_inventory
+    SET quantity = quantity - p_quantity,
+        updated_at = NOW()
+    WHERE user_id = v_user_id AND hex_id = p_from_hex
+      AND resource_id = p_resource_id AND quality_id = p_quality_id;
+
+    DELETE FROM user_stored_inventory
+    WHERE user_id = v_user_id AND hex_id = p_from_hex AND quantity <= 0;
+  END IF;
+
+  IF p_to_hex = v_current_hex THEN
+    INSERT INTO user_inventory (user_id, resource_id, quality_id, quantity)
+    VALUES (v_user_id, p_resource_id, p_quality_id, p_quantity)
+    ON CONFLICT (user_id, resource_id, quality_id) DO UPDATE
+    SET quantity = user_inventory.quantity + EXCLUDED.quantity,
+        updated_at = NOW();
+  ELSE
+    INSERT INTO user_stored_inventory (user_id, hex_id, resource_id, quality_id, quantity)
+    VALUES (v_user_id, p_to_hex, p_resource_id, p_quality_id, p_quantity)
+    ON CONFLICT (user_id, hex_id, resource_id, quality_id) DO UPDATE
+    SET quantity = user_stored_inventory.quantity + EXCLUDED.quantity,
+        updated_at = NOW();
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'distance', v_distance,
+    'tickets_used', CASE WHEN p_payment = 'tickets' THEN v_tickets ELSE 0 END,
+    'gold_paid', CASE WHEN p_payment = 'gold' THEN v_fee ELSE 0 END
+  );
+END;
+$$;
+
+-- ============================================================================
+-- 9. Storage overview
+-- ============================================================================
+
+-- Every place the caller keeps goods or owns a warehouse, current location
+-- first, with capacity and contents
+CREATE OR REPLACE FUNCTION get_user_storage()
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_current_hex TEXT;
+BEGIN
+  SELECT u.id, u.current_hex INTO v_user_id, v_current_hex
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_user_id IS NULL THEN
+    RETURN '[]'::JSONB;
+  END IF;
+
+  RETURN COALESCE((
+    WITH stock AS (
+      SELECT v_current_hex AS hex_id, ui.resource_id, ui.quality_id, ui.quantity
+      FROM user_inventory ui
+      WHERE ui.user_id = v_user_id AND v_current_hex IS NOT NULL AND ui.quantity > 0
+      UNION ALL
+      SELECT si.hex_id, si.resource_id, si.quality_id, si.quantity
+      FROM user_stored_inventory si
+      WHERE si.user_id = v_user_id AND si.quantity > 0
+    ),
+    places AS (
+      SELECT v_current_hex AS hex_id WHERE v_current_hex IS NOT NULL
+      UNION
+      SELECT hex_id FROM stock
+      UNION
+      SELECT c.hex_id
+      FROM companies c
+      JOIN company_types ct ON ct.id = c.company_type_id
+      WHERE c.owner_id = v_user_id AND ct.key = 'warehouse' AND c.status <> 'bankrupt'
+    )
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'hex_id', p.hex_id,
+        'location_name', COALESCE(wr.custom_name, wr.province_name, p.hex_id),
+        'is_current', p.hex_id = v_current_hex,
+        'capacity', get_storage_capacity(v_user_id, p.hex_id),
+        'used', get_storage_used(v_user_id, p.hex_id),
+        'items', COALESCE((
+          SELECT jsonb_agg(
+            jsonb_build_object(
+              'resource_id', r.id,
+              'resource_key', r.key,
+              'resource_name', r.name,
+              'resource_icon', r.icon_name,
+              'quality_id', q.id,
+              'quality_key', q.key,
+              'quality_name', q.name,
+              'quality_level', q.quality_level,
+              'quality_color', q.color_hex,
+              'quantity', s.quantity
+            ) ORDER BY r.name, q.quality_level DESC
+          )
+          FROM stock s
+          JOIN resources r ON r.id = s.resource_id
+          JOIN resource_qualities q ON q.id = s.quality_id
+          WHERE s.hex_id = p.hex_id
+        ), '[]'::JSONB)
+      ) ORDER BY (p.hex_id = v_current_hex) DESC, COALESCE(wr.custom_name, wr.province_name, p.hex_id)
+    )
+    FROM places p
+    LEFT JOIN world_regions wr ON wr.hex_id = p.hex_id
+  ), '[]'::JSONB);
+END;
+$$;
+
+-- ============================================================================
+-- 10. Community stock is held at the capital
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_community_inventory(p_community_id UUID)
+RETURNS TABLE (
+  category TEXT,
+  items JSONB
+) AS $$
+DECLARE
+  v_capital_hex TEXT;
+  v_location_name TEXT;
+BEGIN
+  SELECT c.capital_hex_id, COALESCE(wr.custom_name, wr.province_name, c.capital_hex_id)
+  INTO v_capital_hex, v_location_name
+  FROM communities c
+  LEFT JOIN world_regions wr ON wr.hex_id = c.capital_hex_id
+  WHERE c.id = p_community_id;
+
+  RETURN QUERY
+  SELECT
+    r.category,
+    jsonb_agg(
+      jsonb_build_object(
+        'id', ci.id,
+        'resource_id', r.id,
+        'resource_key', r.key,
+        'resource_name', r.name,
+        'resource_icon', r.icon_name,
+        'quality_id', q.id,
+        'quality_key', q.key,
+        'quality_name', q.name,
+        'quality_level', q.quality_level,
+        'quality_color', q.color_hex,
+        'quantity', ci.quantity,
+        'stat_multiplier', q.stat_multiplier,
+        'hex_id', v_capital_hex,
+        'location_name', v_location_name
+      ) ORDER BY q.quality_level DESC, r.name
+    ) as items
+  FROM community_inventory ci
+  JOIN resources r ON ci.resource_id = r.id
+  JOIN resource_qualities q ON ci.quality_id = q.id
+  WHERE ci.community_id = p_community_id
+    AND ci.quantity > 0
+  GROUP BY r.category;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 11. Permissions
+-- ============================================================================
+
+GRANT SELECT ON user_stored_inventory TO authenticated;
+GRANT EXECUTE ON FUNCTION get_storage_capacity(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_storage_used(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION ship_inventory(UUID, UUID, NUMERIC, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_user_storage() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_community_inventory(UUID) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION check_production_storage FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION check_production_storage FROM authenticated;
+GRANT EXECUTE ON FUNCTION check_production_storage TO service_role;
+
+REVOKE EXECUTE ON FUNCTION move_inventory_with_user() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION move_inventory_with_user() FROM authenticated;
+GRANT EXECUTE ON FUNCTION move_inventory_with_user() TO service_role;
+
+COMMENT ON TABLE user_stored_inventory IS
+  'Goods a user keeps at hexes other than where they stand. user_inventory is what they have at their current hex.';
+COMMENT ON FUNCTION get_storage_capacity IS
+  'Units a user can keep at a hex: 1,000 plus 1,000 per level of each warehouse they own there.';
+COMMENT ON FUNCTION ship_inventory IS
+  'Ship goods between two hexes for travel tickets (one per 30 hexes per 100 units) or gold (0.01 per unit per hex, at least 1).';
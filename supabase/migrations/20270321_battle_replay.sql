@@ -0,0 +1,111 @@
+-- Battle replay
+-- battle_action_log records every FIGHT (hits, crits and misses) but not which
+-- side the fighter was on, so a finished battle could not be reconstructed.
+-- This records the side going forward, backfills it from battle_logs, and adds
+-- a read RPC that returns a finished battle's full action timeline.
+-- Replays are only served once a battle has ended, so per-action morale and
+-- rage never leak while it is being fought.
+
+-- ============================================================================
+-- 1. SIDE ON ACTION LOG
+-- ============================================================================
+
+ALTER TABLE battle_action_log
+  ADD COLUMN IF NOT EXISTS side TEXT CHECK (side IN ('attacker', 'defender'));
+
+-- Latest side each user fought on in each battle
+UPDATE battle_action_log bal
+SET side = bl.side
+FROM (
+  SELECT DISTINCT ON (battle_id, user_id) battle_id, user_id, side
+  FROM battle_logs
+  WHERE side IN ('attacker', 'defender') AND user_id IS NOT NULL
+  ORDER BY battle_id, user_id, created_at DESC
+) bl
+WHERE bal.side IS NULL
+  AND bal.battle_id = bl.battle_id
+  AND bal.user_id = bl.user_id;
+
+-- Users with no battle_logs row (only misses before misses were logged): fall back to community
+UPDATE battle_action_log bal
+SET side = CASE
+  WHEN b.defender_community_id IS NOT NULL AND u.main_community_id = b.defender_community_id THEN 'defender'
+  ELSE 'attacker'
+END
+FROM battles b, users u
+WHERE bal.side IS NULL
+  AND b.id = bal.battle_id
+  AND u.id = bal.user_id;
+
+-- ============================================================================
+-- 2. REPLAY RPC
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_battle_replay(p_battle_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_battle RECORD;
+BEGIN
+  SELECT id, status, started_at, ends_at, initial_defense, current_defense,
+         attacker_score, defender_score
+  INTO v_battle
+  FROM battles
+  WHERE id = p_battle_id;
+
+  IF v_battle.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Battle not found');
+  END IF;
+
+  IF v_battle.status = 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Replays are available once the battle ends');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'battle', jsonb_build_object(
+      'id', v_battle.id,
+      'status', v_battle.status,
+      'started_at', COALESCE(v_battle.started_at, v_battle.ends_at - INTERVAL '6 hours'),
+      'ends_at', v_battle.ends_at,
+      'initial_defense', v_battle.initial_defense,
+      'current_defense', v_battle.current_defense,
+      'attacker_score', v_battle.attacker_score,
+      'defender_score', v_battle.defender_score
+    ),
+    'actions', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', bal.id,
+          'created_at', bal.created_at,
+          'user_id', bal.user_id,
+          'username', COALESCE(u.username, 'Unknown'),
+          'avatar_url', u.avatar_url,
+          'side', COALESCE(bal.side, 'attacker'),
+          'hit', bal.hit,
+          'critical', bal.critical,
+          'damage_dealt', bal.damage_dealt,
+          'user_morale', bal.user_morale,
+          'user_rage', bal.user_rage
+        ) ORDER BY bal.created_at, bal.id
+      )
+      FROM battle_action_log bal
+      LEFT JOIN users u ON u.id = bal.user_id
+      WHERE bal.battle_id = p_battle_id
+    ), '[]'::JSONB)
+  );
+END;
+$$;
+
+-- ============================================================================
+-- 3. GRANTS & COMMENTS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION get_battle_replay(UUID) TO anon, authenticated;
+
+COMMENT ON COLUMN battle_action_log.side IS
+  'Side the fighter was on; drives replay score reconstruction.';
+COMMENT ON FUNCTION get_battle_replay IS
+  'Action timeline of a finished battle (hits, crits and misses with fighter, side, morale and rage).';
@@ -0,0 +1,551 @@
+-- Supply Lines
+-- A community's regions are "supplied" while they connect to its capital
+-- through a chain of regions it owns. Conquering a hex that is cut off from
+-- the capital, or losing the hexes that link a front back to it, leaves
+-- those regions unsupplied:
+--   * companies there produce half as much (rounded at random per unit)
+--   * defenders fighting for them pay 1.5x energy per attack
+--   * after 48 hours without supply, and with no battle on the hex, the
+--     region decays back to neutral
+-- Mirrors SUPPLY_LINE_RULES in lib/regions/supply-lines.ts.
+--
+-- Supply is recomputed for the affected communities whenever a region
+-- changes hands or a capital moves; a community without a capital it holds
+-- has no supplied regions at all.
+
+-- ============================================================================
+-- 1. Supply state on regions
+-- ============================================================================
+
+ALTER TABLE world_regions
+  ADD COLUMN IF NOT EXISTS is_supplied BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS unsupplied_since TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_world_regions_unsupplied
+  ON world_regions(unsupplied_since)
+  WHERE unsupplied_since IS NOT NULL;
+
+-- ============================================================================
+-- 2. Hex neighbours ("odd-r" offset grid, same as components/map/hex-utils.ts)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION hex_neighbors(p_hex_id TEXT)
+RETURNS TEXT[]
+LANGUAGE plpgsql IMMUTABLE
+AS $$
+DECLARE
+  v_row INT;
+  v_col INT;
+BEGIN
+  IF p_hex_id !~ '^\d+-\d+$' THEN
+    RETURN ARRAY[]::TEXT[];
+  END IF;
+
+  v_row := split_part(p_hex_id, '-', 1)::INT;
+  v_col := split_part(p_hex_id, '-', 2)::INT;
+
+  IF v_row % 2 <> 0 THEN
+    RETURN ARRAY[
+      format('%s-%s', v_row - 1, v_col), format('%s-%s', v_row - 1, v_col + 1),
+      format('%s-%s', v_row, v_col - 1), format('%s-%s', v_row, v_col + 1),
+      format('%s-%s', v_row + 1, v_col), format('%s-%s', v_row + 1, v_col + 1)
+    ];
+  END IF;
+
+  RETURN ARRAY[
+    format('%s-%s', v_row - 1, v_col - 1), format('%s-%s', v_row - 1, v_col),
+    format('%s-%s', v_row, v_col - 1), format('%s-%s', v_row, v_col + 1),
+    format('%s-%s', v_row + 1, v_col - 1), format('%s-%s', v_row + 1, v_col)
+  ];
+END;
+$$;
+
+-- ============================================================================
+-- 3. Recompute a community's supply network
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION refresh_community_supply(p_community_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_supplied TEXT[];
+BEGIN
+  IF p_community_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Walk outwards from the capital through owned regions
+  WITH RECURSIVE supplied(hex_id) AS (
+    SELECT wr.hex_id
+    FROM communities c
+    JOIN world_regions wr
+      ON wr.hex_id = c.capital_hex_id
+     AND wr.owner_community_id = c.id
+    WHERE c.id = p_community_id
+    UNION
+    SELECT wr.hex_id
+    FROM supplied s
+    CROSS JOIN LATERAL unnest(hex_neighbors(s.hex_id)) AS n(hex_id)
+    JOIN world_regions wr
+      ON wr.hex_id = n.hex_id
+     AND wr.owner_community_id = p_community_id
+  )
+  SELECT COALESCE(array_agg(hex_id), ARRAY[]::TEXT[]) INTO v_supplied FROM supplied;
+
+  UPDATE world_regions
+  SET is_supplied = (hex_id = ANY(v_supplied)),
+      unsupplied_since = CASE
+        WHEN hex_id = ANY(v_supplied) THEN NULL
+        ELSE COALESCE(unsupplied_since, NOW())
+      END
+  WHERE owner_community_id = p_community_id
+    AND is_supplied IS DISTINCT FROM (hex_id = ANY(v_supplied));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION trigger_refresh_region_supply()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.owner_community_id IS NOT DISTINCT FROM NEW.owner_community_id THEN
+      RETURN NULL;
+    END IF;
+
+    PERFORM refresh_community_supply(OLD.owner_community_id);
+  END IF;
+
+  -- A new owner starts its own clock; neutral regions carry no supply state
+  IF NOT NEW.is_supplied OR NEW.unsupplied_since IS NOT NULL THEN
+    UPDATE world_regions
+    SET is_supplied = true, unsupplied_since = NULL
+    WHERE hex_id = NEW.hex_id;
+  END IF;
+
+  PERFORM refresh_community_supply(NEW.owner_community_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_refresh_region_supply ON world_regions;
+CREATE TRIGGER trg_refresh_region_supply
+  AFTER INSERT OR UPDATE OF owner_community_id ON world_regions
+  FOR EACH ROW
+  EXECUTE FUNCTION trigger_refresh_region_supply();
+
+CREATE OR REPLACE FUNCTION trigger_refresh_capital_supply()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_community_supply(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_refresh_capital_supply ON communities;
+CREATE TRIGGER trg_refresh_capital_supply
+  AFTER UPDATE OF capital_hex_id ON communities
+  FOR EACH ROW
+  WHEN (OLD.capital_hex_id IS DISTINCT FROM NEW.capital_hex_id)
+  EXECUTE FUNCTION trigger_refresh_capital_supply();
+
+-- Backfill
+SELECT refresh_community_supply(id) FROM communities;
+
+-- ============================================================================
+-- 4. Unsupplied regions decay to neutral
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION decay_unsupplied_regions()
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_region RECORD;
+  v_decayed INT := 0;
+BEGIN
+  FOR v_region IN
+    SELECT wr.hex_id
+    FROM world_regions wr
+    WHERE wr.owner_community_id IS NOT NULL
+      AND NOT wr.is_supplied
+      AND wr.unsupplied_since <= NOW() - INTERVAL '48 hours'
+      AND NOT EXISTS (
+        SELECT 1 FROM battles b
+        WHERE b.target_hex_id = wr.hex_id
+          AND b.status = 'active'
+      )
+    FOR UPDATE OF wr SKIP LOCKED
+  LOOP
+    UPDATE world_regions
+    SET owner_community_id = NULL
+    WHERE hex_id = v_region.hex_id;
+
+    v_decayed := v_decayed + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'decayed', v_decayed);
+END;
+$$;
+
+-- ============================================================================
+-- 5. Unsupplied regions produce less
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS perform_work(UUID, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION perform_work(
+  p_worker_id UUID,
+  p_company_id UUID,
+  p_recipe_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_company RECORD;
+  v_recipe RECORD;
+  v_contract RECORD;
+  v_founder_id UUID;
+  v_work_type TEXT;
+  v_wage NUMERIC := 0;
+  v_inputs JSONB;
+  v_outputs JSONB;
+  v_hex_bonuses JSONB := '{}';
+  v_result JSONB;
+  v_resource_id UUID;
+  v_required_qty NUMERIC;
+  v_current_qty NUMERIC;
+  v_missing TEXT[] := ARRAY[]::TEXT[];
+  v_stock RECORD;
+  v_take NUMERIC;
+  v_output_qty NUMERIC;
+  v_quality_id UUID;
+  v_quality_tier INT;
+  v_company_level INT;
+  v_quality_roll NUMERIC;
+  v_storage_error TEXT;
+  v_supply_multiplier NUMERIC := 1;
+  v_produced JSONB := '{}';
+BEGIN
+  -- 1. Check cooldown (one work per company per day)
+  IF NOT can_work_today(p_worker_id, p_company_id) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Already worked at this company today'
+    );
+  END IF;
+
+  -- 2. Get company details
+  SELECT * INTO v_company FROM companies WHERE id = p_company_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Company not found');
+  END IF;
+
+  v_founder_id := v_company.owner_id;
+  v_company_level := COALESCE(v_company.level, 1);
+
+  -- 3. Determine work type (manager vs employee)
+  IF p_worker_id = v_founder_id THEN
+    v_work_type := 'manager';
+  ELSE
+    -- Check employment contract
+    SELECT * INTO v_contract
+    FROM employment_contracts
+    WHERE company_id = p_company_id
+      AND employee_id = p_worker_id
+      AND active = true;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Not employed at this company');
+    END IF;
+
+    v_work_type := 'employee';
+    v_wage := v_contract.wage_per_day_community_coin;
+  END IF;
+
+  -- 4. Get recipe (must be one this company type can produce)
+  SELECT * INTO v_recipe FROM production_recipes WHERE id = p_recipe_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Recipe not found');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM company_types ct
+    WHERE ct.id = v_company.company_type_id
+      AND ct.can_produce_recipes ? p_recipe_id::TEXT
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This company cannot produce that recipe');
+  END IF;
+
+  v_inputs := v_recipe.inputs;
+  v_outputs := v_recipe.outputs;
+
+  -- Companies in a region cut off from its owner's capital produce less
+  SELECT CASE WHEN wr.owner_community_id IS NOT NULL AND NOT wr.is_supplied THEN 0.5 ELSE 1 END
+  INTO v_supply_multiplier
+  FROM world_regions wr
+  WHERE wr.hex_id = v_company.hex_id;
+
+  v_supply_multiplier := COALESCE(v_supply_multiplier, 1);
+
+  -- 5. Lock the FOUNDER's stock of every input and check all of them before
+  -- touching any, reporting everything that is short
+  PERFORM 1
+  FROM user_inventory
+  WHERE user_id = v_founder_id
+    AND resource_id IN (SELECT key::UUID FROM jsonb_each(v_inputs))
+  FOR UPDATE;
+
+  FOR v_resource_id, v_required_qty IN
+    SELECT (key::UUID), (value::TEXT)::NUMERIC
+    FROM jsonb_each(v_inputs)
+  LOOP
+    SELECT COALESCE(SUM(quantity), 0) INTO v_current_qty
+    FROM user_inventory
+    WHERE user_id = v_founder_id
+      AND resource_id = v_resource_id;
+
+    IF v_current_qty < v_required_qty THEN
+      v_missing := v_missing || format(
+        '%s %s',
+        v_required_qty - v_current_qty,
+        COALESCE((SELECT name FROM resources WHERE id = v_resource_id), 'materials')
+      );
+    END IF;
+  END LOOP;
+
+  IF array_length(v_missing, 1) > 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Founder lacks required materials: ' || array_to_string(v_missing, ', ') || ' short'
+    );
+  END IF;
+
+  -- Output lands where the founder stands, so it has to fit there
+  v_storage_error := check_production_storage(v_founder_id, v_inputs, v_outputs);
+  IF v_storage_error IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', v_storage_error);
+  END IF;
+
+  -- 6. Consume inputs from FOUNDER's inventory, lowest quality first
+  FOR v_resource_id, v_required_qty IN
+    SELECT (key::UUID), (value::TEXT)::NUMERIC
+    FROM jsonb_each(v_inputs)
+  LOOP
+    FOR v_stock IN
+      SELECT ui.id, ui.quantity
+      FROM user_inventory ui
+      LEFT JOIN resource_qualities rq ON rq.id = ui.quality_id
+      WHERE ui.user_id = v_founder_id
+        AND ui.resource_id = v_resource_id
+        AND ui.quantity > 0
+      ORDER BY rq.quality_level NULLS FIRST
+    LOOP
+      EXIT WHEN v_required_qty <= 0;
+      v_take := LEAST(v_stock.quantity, v_required_qty);
+
+      UPDATE user_inventory
+      SET quantity = quantity - v_take,
+          updated_at = NOW()
+      WHERE id = v_stock.id;
+
+      v_required_qty := v_required_qty - v_take;
+    END LOOP;
+  END LOOP;
+
+  -- 7. Produce outputs to FOUNDER's inventory with level-based quality
+  -- Quality distribution based on company level:
+  -- Level 1: 100% Common (tier 1)
+  -- Level 2: 60% Common, 40% Uncommon (tier 2)
+  -- Level 3: 40% Common, 40% Uncommon, 20% Rare (tier 3)
+  -- Level 4: 20% Uncommon, 50% Rare, 30% Epic (tier 4)
+  -- Level 5: 10% Rare, 40% Epic, 50% Legendary (tier 5)
+
+  FOR v_resource_id, v_output_qty IN
+    SELECT (key::UUID), COALESCE((value->>'base_quantity')::NUMERIC, 1)
+    FROM jsonb_each(v_outputs)
+  LOOP
+    -- Whole units only: round the reduced quantity up or down at random so
+    -- the expected output matches the multiplier
+    IF v_supply_multiplier < 1 THEN
+      v_output_qty := FLOOR(v_output_qty * v_supply_multiplier + random());
+    END IF;
+
+    -- Roll for quality based on company level
+    v_quality_roll := random();
+
+    IF v_company_level = 1 THEN
+      v_quality_tier := 1; -- Common
+    ELSIF v_company_level = 2 THEN
+      IF v_quality_roll < 0.60 THEN
+        v_quality_tier := 1; -- Common
+      ELSE
+        v_quality_tier := 2; -- Uncommon
+      END IF;
+    ELSIF v_company_level = 3 THEN
+      IF v_quality_roll < 0.40 THEN
+        v_quality_tier := 1; -- Common
+      ELSIF v_quality_roll < 0.80 THEN
+        v_quality_tier := 2; -- Uncommon
+      ELSE
+        v_quality_tier := 3; -- Rare
+      END IF;
+    ELSIF v_company_level = 4 THEN
+      IF v_quality_roll < 0.20 THEN
+        v_quality_tier := 2; -- Uncommon
+      ELSIF v_quality_roll < 0.70 THEN
+        v_quality_tier := 3; -- Rare
+      ELSE
+        v_quality_tier := 4; -- Epic
+      END IF;
+    ELSE -- Level 5+
+      IF v_quality_roll < 0.10 THEN
+        v_quality_tier := 3; -- Rare
+      ELSIF v_quality_roll < 0.50 THEN
+        v_quality_tier := 4; -- Epic
+      ELSE
+        v_quality_tier := 5; -- Legendary
+      END IF;
+    END IF;
+
+    -- Get the quality ID for this tier
+    SELECT id INTO v_quality_id
+    FROM resource_qualities
+    WHERE quality_level = v_quality_tier
+    LIMIT 1;
+
+    -- If quality not found, fallback to common
+    IF v_quality_id IS NULL THEN
+      SELECT id INTO v_quality_id FROM resource_qualities WHERE key = 'common' LIMIT 1;
+    END IF;
+
+    v_produced := v_produced || jsonb_build_object(
+      v_resource_id::TEXT,
+      jsonb_build_object('base_quantity', v_output_qty, 'quality_level', v_quality_tier)
+    );
+
+    CONTINUE WHEN v_output_qty <= 0;
+
+    -- Add resource to inventory
+    INSERT INTO user_inventory (user_id, resource_id, quality_id, quantity)
+    VALUES (v_founder_id, v_resource_id, v_quality_id, v_output_qty)
+    ON CONFLICT (user_id, resource_id, quality_id)
+    DO UPDATE SET
+      quantity = user_inventory.quantity + v_output_qty,
+      updated_at = NOW();
+  END LOOP;
+
+  -- 8. Pay wage if employee (from founder's wallet to employee's wallet)
+  IF v_work_type = 'employee' AND v_wage > 0 THEN
+    -- Deduct from founder's community coin wallet
+    UPDATE user_wallets
+    SET community_coins = community_coins - v_wage,
+        updated_at = NOW()
+    WHERE user_id = v_founder_id
+      AND currency_type = 'community'
+      AND community_currency_id = v_contract.community_coin_type;
+
+    -- Add to employee's community coin wallet
+    INSERT INTO user_wallets (
+      user_id,
+      currency_type,
+      community_currency_id,
+      community_coins
+    )
+    VALUES (p_worker_id, 'community', v_contract.community_coin_type, v_wage)
+    ON CONFLICT (user_id, community_currency_id)
+    DO UPDATE SET
+      community_coins = user_wallets.community_coins + v_wage,
+      updated_at = NOW();
+
+    -- Update contract stats
+    UPDATE employment_contracts
+    SET last_worked_at = NOW(),
+        total_work_days = total_work_days + 1
+    WHERE id = v_contract.id;
+  END IF;
+
+  -- 9. Record work history
+  INSERT INTO work_history (
+    user_id,
+    company_id,
+    work_type,
+    recipe_id,
+    resources_consumed,
+    resources_produced,
+    hex_bonuses_applied,
+    wage_earned,
+    currency_type,
+    worked_at
+  ) VALUES (
+    p_worker_id,
+    p_company_id,
+    v_work_type,
+    p_recipe_id,
+    v_inputs,
+    v_produced,
+    v_hex_bonuses,
+    v_wage,
+    CASE WHEN v_wage > 0 THEN 'community_coin' ELSE NULL END,
+    NOW()
+  );
+
+  -- 10. Return success
+  v_result := jsonb_build_object(
+    'success', true,
+    'work_type', v_work_type,
+    'inputs_consumed', v_inputs,
+    'outputs_produced', v_produced,
+    'wage_earned', v_wage,
+    'hex_bonuses', v_hex_bonuses,
+    'quality_tier', v_quality_tier,
+    'company_level', v_company_level,
+    'unsupplied', v_supply_multiplier < 1
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grant execute permission
+GRANT EXECUTE ON FUNCTION perform_work(UUID, UUID, UUID) TO authenticated;
+
+-- ============================================================================
+-- 6. Grants, schedule & comments
+-- ============================================================================
+
+REVOKE EXECUTE ON FUNCTION refresh_community_supply FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION refresh_community_supply FROM authenticated;
+GRANT EXECUTE ON FUNCTION refresh_community_supply TO service_role;
+
+REVOKE EXECUTE ON FUNCTION decay_unsupplied_regions FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION decay_unsupplied_regions FROM authenticated;
+GRANT EXECUTE ON FUNCTION decay_unsupplied_regions TO service_role;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule('decay-unsupplied-regions');
+EXCEPTION
+  WHEN OTHERS THEN
+    NULL;  -- Ignore if job doesn't exist
+END $$;
+
+SELECT cron.schedule(
+  'decay-unsupplied-regions',
+  '*/15 * * * *',  -- Every 15 minutes
+  $$SELECT public.decay_unsupplied_regions();$$
+);
+
+COMMENT ON COLUMN world_regions.is_supplied IS
+  'Whether the region connects to its owner''s capital through owned regions.';
+COMMENT ON COLUMN world_regions.unsupplied_since IS
+  'When the region lost supply. It decays to neutral 48 hours later unless under attack.';
+COMMENT ON FUNCTION refresh_community_supply IS
+  'Recomputes is_supplied for every region of a community by walking out from its capital.';
+COMMENT ON FUNCTION decay_unsupplied_regions IS
+  'Returns regions unsupplied for 48 hours (and not being fought over) to neutral.';
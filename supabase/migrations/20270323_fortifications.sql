@@ -0,0 +1,408 @@
+-- Fortifications
+-- Communities can now invest in defence. Leaders build walls, watchtowers and
+-- bunkers (up to level 3) on regions their community owns, paying gold from
+-- the community treasury and materials from their own inventory:
+--   wall        500 gold + 20 steel per level   +2,500 wall HP per level
+--   watchtower  300 gold + 30 iron per level    defenders deal +10% per level
+--   bunker      800 gold + 10 armor per level   attackers deal -5% per level
+-- Raising a structure to level N costs N times the per-level price.
+-- Mirrors FORTIFICATION_TYPES in lib/regions/fortifications.ts.
+--
+-- A battle fixes the target region's fortifications when it starts: walls add
+-- to its initial defense and the damage multipliers are stored on the battle
+-- for the attack route. Structures cannot be built on a region being fought
+-- over. When a region is captured every structure on it loses a level, and
+-- structures at level 0 are torn down.
+
+-- ============================================================================
+-- 1. Transaction types
+-- ============================================================================
+
+ALTER TABLE currency_transactions
+  DROP CONSTRAINT IF EXISTS currency_transactions_transaction_type_check;
+
+ALTER TABLE currency_transactions
+  ADD CONSTRAINT currency_transactions_transaction_type_check
+  CHECK (transaction_type IN (
+    -- Original types
+    'transfer',
+    'exchange',
+    'reward',
+    'tax',
+    'purchase',
+    'sale',
+    -- Battle system
+    'battle_cost',
+    'battle_reward',
+    'medal_reward',
+    -- Training system
+    'training_cost',
+    'training_reward',
+    -- Company/Production system
+    'company_creation',
+    'production_cost',
+    'wage_payment',
+    -- Company shares
+    'share_purchase',
+    'dividend_payment',
+    -- Company cash and bankruptcy
+    'company_deposit',
+    'company_withdrawal',
+    'auction_escrow',
+    'auction_refund',
+    'bankruptcy_payout',
+    -- P2P Exchange Market
+    'exchange_order_locked',
+    'exchange_order_filled',
+    'exchange_order_refunded',
+    -- Community treasury spending
+    'treasury_grant',
+    'treasury_stipend',
+    -- Diplomacy
+    'war_reparations',
+    'region_sale',
+    -- Central bank
+    'savings_deposit',
+    'savings_withdrawal',
+    'interest_earned',
+    'open_market_operation',
+    -- Supply contracts
+    'contract_escrow',
+    'contract_payment',
+    'contract_penalty',
+    'contract_refund',
+    -- P2P loans
+    'loan_escrow',
+    'loan_refund',
+    'loan_disbursement',
+    'loan_repayment',
+    'interest_payment',
+    -- Warehouses and shipping
+    'shipping_fee',
+    -- Fortifications
+    'fortification_build',
+    -- Admin operations
+    'admin_grant',
+    'admin_deduction',
+    'admin_burn'
+  ));
+
+-- ============================================================================
+-- 2. Fortifications
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS region_fortifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hex_id TEXT NOT NULL REFERENCES world_regions(hex_id) ON DELETE CASCADE,
+  structure_type TEXT NOT NULL CHECK (structure_type IN ('wall', 'watchtower', 'bunker')),
+  level INT NOT NULL CHECK (level BETWEEN 1 AND 3),
+  built_by_community_id UUID REFERENCES communities(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (hex_id, structure_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_region_fortifications_hex ON region_fortifications(hex_id);
+
+ALTER TABLE region_fortifications ENABLE ROW LEVEL SECURITY;
+
+-- Fortifications are visible on the map to everyone; only build_fortification writes
+DROP POLICY IF EXISTS "Anyone can view fortifications" ON region_fortifications;
+CREATE POLICY "Anyone can view fortifications"
+  ON region_fortifications FOR SELECT
+  USING (true);
+
+GRANT SELECT ON region_fortifications TO anon, authenticated;
+
+-- ============================================================================
+-- 3. Battles fix the target's fortifications when they start
+-- ============================================================================
+
+ALTER TABLE battles
+  ADD COLUMN IF NOT EXISTS fortification_defense INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS defender_damage_multiplier NUMERIC NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS attacker_damage_multiplier NUMERIC NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION apply_battle_fortifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wall INT;
+  v_watchtower INT;
+  v_bunker INT;
+BEGIN
+  -- Unclaimed regions have no defenders to man them
+  IF NEW.defender_community_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COALESCE(MAX(level) FILTER (WHERE structure_type = 'wall'), 0),
+    COALESCE(MAX(level) FILTER (WHERE structure_type = 'watchtower'), 0),
+    COALESCE(MAX(level) FILTER (WHERE structure_type = 'bunker'), 0)
+  INTO v_wall, v_watchtower, v_bunker
+  FROM region_fortifications
+  WHERE hex_id = NEW.target_hex_id;
+
+  NEW.fortification_defense := v_wall * 2500;
+  NEW.initial_defense := COALESCE(NEW.initial_defense, 0) + NEW.fortification_defense;
+  NEW.current_defense := COALESCE(NEW.current_defense, 0) + NEW.fortification_defense;
+  NEW.defender_damage_multiplier := 1 + v_watchtower * 0.10;
+  NEW.attacker_damage_multiplier := 1 - v_bunker * 0.05;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_apply_battle_fortifications ON battles;
+CREATE TRIGGER trg_apply_battle_fortifications
+  BEFORE INSERT ON battles
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_battle_fortifications();
+
+-- ============================================================================
+-- 4. Capturing a region damages its fortifications
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION damage_captured_fortifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.owner_community_id IS NULL
+     OR NEW.owner_community_id IS NULL
+     OR OLD.owner_community_id = NEW.owner_community_id THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM region_fortifications
+  WHERE hex_id = NEW.hex_id AND level <= 1;
+
+  UPDATE region_fortifications
+  SET level = level - 1,
+      updated_at = NOW()
+  WHERE hex_id = NEW.hex_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_damage_captured_fortifications ON world_regions;
+CREATE TRIGGER trg_damage_captured_fortifications
+  AFTER UPDATE OF owner_community_id ON world_regions
+  FOR EACH ROW
+  EXECUTE FUNCTION damage_captured_fortifications();
+
+-- ============================================================================
+-- 5. Build or upgrade a structure
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION build_fortification(
+  p_user_id UUID,
+  p_hex_id TEXT,
+  p_structure_type TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_public_user_id UUID;
+  v_community_id UUID;
+  v_rank_tier INT;
+  v_level INT;
+  v_gold_per_level NUMERIC;
+  v_material_key TEXT;
+  v_material_per_level NUMERIC;
+  v_gold_cost NUMERIC;
+  v_material_cost NUMERIC;
+  v_material_id UUID;
+  v_material_name TEXT;
+  v_available NUMERIC;
+  v_wallet_id UUID;
+  v_balance NUMERIC;
+  v_stock RECORD;
+  v_take NUMERIC;
+  v_remaining NUMERIC;
+BEGIN
+  SELECT u.id INTO v_public_user_id
+  FROM public.users u
+  WHERE u.auth_id::text = auth.uid()::text;
+
+  IF v_public_user_id IS NULL OR v_public_user_id <> p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authorized');
+  END IF;
+
+  CASE p_structure_type
+    WHEN 'wall' THEN
+      v_gold_per_level := 500; v_material_key := 'steel'; v_material_per_level := 20;
+    WHEN 'watchtower' THEN
+      v_gold_per_level := 300; v_material_key := 'iron'; v_material_per_level := 30;
+    WHEN 'bunker' THEN
+      v_gold_per_level := 800; v_material_key := 'armor'; v_material_per_level := 10;
+    ELSE
+      RETURN jsonb_build_object('success', false, 'error', 'Unknown structure type');
+  END CASE;
+
+  SELECT owner_community_id INTO v_community_id
+  FROM world_regions
+  WHERE hex_id = p_hex_id
+  FOR UPDATE;
+
+  IF v_community_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only owned regions can be fortified');
+  END IF;
+
+  SELECT rank_tier INTO v_rank_tier
+  FROM community_members
+  WHERE community_id = v_community_id
+    AND user_id = p_user_id
+    AND left_at IS NULL;
+
+  IF v_rank_tier IS NULL OR v_rank_tier > 1 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only community leaders can build fortifications');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM battles
+    WHERE target_hex_id = p_hex_id
+      AND status = 'active'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Cannot build while the region is under attack');
+  END IF;
+
+  SELECT COALESCE(MAX(level), 0) INTO v_level
+  FROM region_fortifications
+  WHERE hex_id = p_hex_id AND structure_type = p_structure_type;
+
+  IF v_level >= 3 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Already at maximum level');
+  END IF;
+
+  v_level := v_level + 1;
+  v_gold_cost := v_gold_per_level * v_level;
+  v_material_cost := v_material_per_level * v_level;
+
+  -- Materials come from the builder's inventory
+  SELECT id, name INTO v_material_id, v_material_name
+  FROM resources
+  WHERE key = v_material_key;
+
+  IF v_material_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Building material is not available');
+  END IF;
+
+  PERFORM 1
+  FROM user_inventory
+  WHERE user_id = p_user_id AND resource_id = v_material_id
+  FOR UPDATE;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO v_available
+  FROM user_inventory
+  WHERE user_id = p_user_id AND resource_id = v_material_id;
+
+  IF v_available < v_material_cost THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('You need %s %s (you have %s)', v_material_cost, v_material_name, v_available)
+    );
+  END IF;
+
+  -- Gold comes from the treasury
+  v_wallet_id := get_or_create_community_gold_wallet(v_community_id);
+
+  SELECT gold_coins INTO v_balance
+  FROM community_wallets
+  WHERE id = v_wallet_id
+  FOR UPDATE;
+
+  IF COALESCE(v_balance, 0) < v_gold_cost THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Insufficient funds in treasury',
+      'current_balance', COALESCE(v_balance, 0),
+      'required', v_gold_cost
+    );
+  END IF;
+
+  UPDATE community_wallets
+  SET gold_coins = gold_coins - v_gold_cost,
+      updated_at = NOW()
+  WHERE id = v_wallet_id;
+
+  -- Lowest quality first
+  v_remaining := v_material_cost;
+  FOR v_stock IN
+    SELECT ui.id, ui.quantity
+    FROM user_inventory ui
+    LEFT JOIN resource_qualities rq ON rq.id = ui.quality_id
+    WHERE ui.user_id = p_user_id
+      AND ui.resource_id = v_material_id
+      AND ui.quantity > 0
+    ORDER BY rq.quality_level NULLS FIRST
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+    v_take := LEAST(v_stock.quantity, v_remaining);
+
+    UPDATE user_inventory
+    SET quantity = quantity - v_take,
+        updated_at = NOW()
+    WHERE id = v_stock.id;
+
+    v_remaining := v_remaining - v_take;
+  END LOOP;
+
+  INSERT INTO region_fortifications (hex_id, structure_type, level, built_by_community_id)
+  VALUES (p_hex_id, p_structure_type, v_level, v_community_id)
+  ON CONFLICT (hex_id, structure_type) DO UPDATE SET
+    level = EXCLUDED.level,
+    built_by_community_id = EXCLUDED.built_by_community_id,
+    updated_at = NOW();
+
+  INSERT INTO currency_transactions (
+    from_user_id, to_user_id, currency_type, community_currency_id,
+    amount, transaction_type, description, scope, metadata
+  ) VALUES (
+    NULL, NULL, 'gold', NULL,
+    v_gold_cost, 'fortification_build',
+    format('Level %s %s on %s', v_level, p_structure_type, p_hex_id),
+    'community',
+    jsonb_build_object(
+      'community_id', v_community_id,
+      'hex_id', p_hex_id,
+      'structure_type', p_structure_type,
+      'level', v_level,
+      'built_by', p_user_id,
+      'material_key', v_material_key,
+      'material_quantity', v_material_cost
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'structure_type', p_structure_type,
+    'level', v_level,
+    'gold_cost', v_gold_cost,
+    'material_cost', v_material_cost
+  );
+END;
+$$;
+
+-- ============================================================================
+-- 6. Grants & comments
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION build_fortification(UUID, TEXT, TEXT) TO authenticated;
+
+COMMENT ON TABLE region_fortifications IS
+  'Defensive structures on a region. Each loses a level when the region is captured.';
+COMMENT ON COLUMN battles.fortification_defense IS
+  'Wall HP added to initial_defense by the target''s walls when the battle started.';
+COMMENT ON COLUMN battles.defender_damage_multiplier IS
+  'Watchtower bonus to defender damage, fixed when the battle started.';
+COMMENT ON COLUMN battles.attacker_damage_multiplier IS
+  'Bunker reduction of attacker damage, fixed when the battle started.';
+COMMENT ON FUNCTION build_fortification IS
+  'Builds or upgrades a structure on an owned region, paid from the treasury and the leader''s materials.';
@@ -0,0 +1,213 @@
+-- Weapon classes
+-- Weapons were a single resource differing only by quality. They now come in
+-- three classes, each its own resource from its own Weapon Factory recipe:
+--   rifle       (existing 'weapon')  10 iron            beats anti-armor
+--   artillery                        3 steel + 2 oil    beats rifles, +30% vs fortifications
+--   anti_armor                       2 steel + 4 iron   beats artillery, +10% vs fortifications
+-- A hit deals +25% against the class the other side has dealt the most damage
+-- with, and -20% against the class that counters it. Quality bonuses are
+-- unchanged. Mirrors WEAPON_CLASSES in lib/battle-mechanics/weapon-classes.ts
+-- and PRODUCTION_RECIPES in lib/company-config.ts.
+--
+-- battle_action_log records the class behind every action, and a trigger keeps
+-- running damage totals per side and class for matchups and battle stats.
+
+-- ============================================================================
+-- 1. Weapon resources
+-- ============================================================================
+
+INSERT INTO resources (key, name, description, category, icon_name, tradeable, stackable)
+VALUES
+  ('artillery', 'Artillery', 'Heavy guns that shell infantry and fortifications', 'product', 'bomb', true, true),
+  ('anti_armor', 'Anti-Armor', 'Launchers that knock out guns and bunkers', 'product', 'crosshair', true, true)
+ON CONFLICT (key) DO NOTHING;
+
+UPDATE resources
+SET description = 'Infantry rifles for battles'
+WHERE key = 'weapon';
+
+-- ============================================================================
+-- 2. Recipes
+-- ============================================================================
+
+DO $$
+DECLARE
+  v_iron_id UUID;
+  v_oil_id UUID;
+  v_steel_id UUID;
+  v_artillery_id UUID;
+  v_anti_armor_id UUID;
+  v_forge_weapon_id UUID;
+  v_cast_artillery_id UUID;
+  v_assemble_anti_armor_id UUID;
+BEGIN
+  SELECT id INTO v_iron_id FROM resources WHERE key = 'iron';
+  SELECT id INTO v_oil_id FROM resources WHERE key = 'oil';
+  SELECT id INTO v_steel_id FROM resources WHERE key = 'steel';
+  SELECT id INTO v_artillery_id FROM resources WHERE key = 'artillery';
+  SELECT id INTO v_anti_armor_id FROM resources WHERE key = 'anti_armor';
+  SELECT id INTO v_forge_weapon_id FROM production_recipes WHERE key = 'forge_weapon';
+
+  -- CAST ARTILLERY (3 steel + 2 oil -> 1 artillery)
+  INSERT INTO production_recipes (key, name, description, inputs, outputs, time_cost_work_days, metadata)
+  VALUES (
+    'cast_artillery',
+    'Cast Artillery',
+    'Cast heavy guns from steel, fired with oil. Requires 3 steel and 2 oil to produce 1 artillery.',
+    jsonb_build_object(v_steel_id::TEXT, 3, v_oil_id::TEXT, 2),
+    jsonb_build_object(v_artillery_id::TEXT, jsonb_build_object('base_quantity', 1, 'quality_level', 1)),
+    1,
+    '{"category": "smithing", "skill_requirement": null, "weapon_class": "artillery"}'
+  )
+  ON CONFLICT (key) DO UPDATE SET
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    inputs = EXCLUDED.inputs,
+    outputs = EXCLUDED.outputs,
+    metadata = EXCLUDED.metadata
+  RETURNING id INTO v_cast_artillery_id;
+
+  -- ASSEMBLE ANTI-ARMOR (2 steel + 4 iron -> 1 anti-armor)
+  INSERT INTO production_recipes (key, name, description, inputs, outputs, time_cost_work_days, metadata)
+  VALUES (
+    'assemble_anti_armor',
+    'Assemble Anti-Armor',
+    'Assemble launchers from steel tubes and iron warheads. Requires 2 steel and 4 iron to produce 1 anti-armor.',
+    jsonb_build_object(v_steel_id::TEXT, 2, v_iron_id::TEXT, 4),
+    jsonb_build_object(v_anti_armor_id::TEXT, jsonb_build_object('base_quantity', 1, 'quality_level', 1)),
+    1,
+    '{"category": "smithing", "skill_requirement": null, "weapon_class": "anti_armor"}'
+  )
+  ON CONFLICT (key) DO UPDATE SET
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    inputs = EXCLUDED.inputs,
+    outputs = EXCLUDED.outputs,
+    metadata = EXCLUDED.metadata
+  RETURNING id INTO v_assemble_anti_armor_id;
+
+  UPDATE production_recipes
+  SET metadata = metadata || '{"weapon_class": "rifle"}'::JSONB
+  WHERE id = v_forge_weapon_id;
+
+  -- The Weapon Factory runs all three
+  UPDATE company_types
+  SET description = 'Forge rifles, artillery and anti-armor weapons.',
+      can_produce_recipes = jsonb_build_array(
+        v_forge_weapon_id::TEXT,
+        v_cast_artillery_id::TEXT,
+        v_assemble_anti_armor_id::TEXT
+      )
+  WHERE key = 'smithy';
+END $$;
+
+-- ============================================================================
+-- 3. Class on action log
+-- ============================================================================
+
+ALTER TABLE battle_action_log
+  ADD COLUMN IF NOT EXISTS weapon_class TEXT CHECK (weapon_class IN ('rifle', 'artillery', 'anti_armor'));
+
+-- ============================================================================
+-- 4. Running damage totals by class
+-- ============================================================================
+
+-- One row per battle, side and class, kept current as actions are logged so
+-- matchups never aggregate the whole action log
+CREATE TABLE IF NOT EXISTS battle_weapon_damage (
+  battle_id UUID NOT NULL REFERENCES battles(id) ON DELETE CASCADE,
+  side TEXT NOT NULL CHECK (side IN ('attacker', 'defender')),
+  weapon_class TEXT NOT NULL CHECK (weapon_class IN ('unarmed', 'rifle', 'artillery', 'anti_armor')),
+  damage NUMERIC NOT NULL DEFAULT 0,
+  actions INT NOT NULL DEFAULT 0,
+  PRIMARY KEY (battle_id, side, weapon_class)
+);
+
+ALTER TABLE battle_weapon_damage ENABLE ROW LEVEL SECURITY;
+
+-- Battle stats are public; only the action log trigger writes
+DROP POLICY IF EXISTS "Anyone can view battle weapon damage" ON battle_weapon_damage;
+CREATE POLICY "Anyone can view battle weapon damage"
+  ON battle_weapon_damage FOR SELECT
+  USING (true);
+
+GRANT SELECT ON battle_weapon_damage TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION record_battle_weapon_damage()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.battle_id IS NULL OR COALESCE(NEW.action_type, 'FIGHT') <> 'FIGHT' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO battle_weapon_damage (battle_id, side, weapon_class, damage, actions)
+  VALUES (
+    NEW.battle_id,
+    COALESCE(NEW.side, 'attacker'),
+    COALESCE(NEW.weapon_class, 'unarmed'),
+    COALESCE(NEW.damage_dealt, 0),
+    1
+  )
+  ON CONFLICT (battle_id, side, weapon_class) DO UPDATE
+  SET damage = battle_weapon_damage.damage + EXCLUDED.damage,
+      actions = battle_weapon_damage.actions + 1;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_record_battle_weapon_damage ON battle_action_log;
+CREATE TRIGGER trg_record_battle_weapon_damage
+  AFTER INSERT ON battle_action_log
+  FOR EACH ROW
+  EXECUTE FUNCTION record_battle_weapon_damage();
+
+-- Battles already under way start from what their log holds so far
+INSERT INTO battle_weapon_damage (battle_id, side, weapon_class, damage, actions)
+SELECT
+  battle_id,
+  COALESCE(side, 'attacker'),
+  COALESCE(weapon_class, 'unarmed'),
+  COALESCE(SUM(damage_dealt), 0),
+  COUNT(*)
+FROM battle_action_log
+WHERE battle_id IS NOT NULL
+  AND COALESCE(action_type, 'FIGHT') = 'FIGHT'
+GROUP BY battle_id, COALESCE(side, 'attacker'), COALESCE(weapon_class, 'unarmed')
+ON CONFLICT (battle_id, side, weapon_class) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION get_battle_weapon_stats(p_battle_id UUID)
+RETURNS JSONB
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'side', side,
+        'weapon_class', NULLIF(weapon_class, 'unarmed'),
+        'damage', damage,
+        'actions', actions
+      ) ORDER BY side, damage DESC
+    ),
+    '[]'::JSONB
+  )
+  FROM battle_weapon_damage
+  WHERE battle_id = p_battle_id;
+$$;
+
+-- ============================================================================
+-- 5. Grants & comments
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION get_battle_weapon_stats(UUID) TO anon, authenticated;
+
+COMMENT ON COLUMN battle_action_log.weapon_class IS
+  'Weapon class used for the action; NULL when fighting unarmed.';
+COMMENT ON TABLE battle_weapon_damage IS
+  'Running damage and action totals per battle, side and weapon class, maintained by a trigger on battle_action_log.';
+COMMENT ON FUNCTION get_battle_weapon_stats IS
+  'Damage and action count per side and weapon class (unarmed as null); drives class matchups and battle stats.';
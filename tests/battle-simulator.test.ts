@@ -0,0 +1,263 @@
+/**
+ * Battle Simulator Tests
+ *
+ * Validates that simulated battles are reproducible from a seed and that
+ * single attacks follow the attack route's damage formula:
+ * 100 × Strength × Rank Multiplier × (1 + Weapon Bonus), ×3 on a critical,
+ * then × the fortification and weapon class multipliers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createSeededRandom,
+  resolveSimulatedAttack,
+  runBattleSimulation,
+  summarizeDistribution,
+} from '@/lib/battle-mechanics/simulator';
+import {
+  applyDamageModifiers,
+  calculateBaseDamage,
+  getFortificationDamageMultiplier,
+  getWeaponClassDamageMultiplier,
+  getWeaponDamageBonus,
+  isFortifiedBattle,
+} from '@/lib/battle-mechanics/damage';
+import { getSupplyEnergyMultiplier } from '@/lib/battle-mechanics/disarray';
+import {
+  DEFAULT_BATTLE_MECHANICS_CONFIG,
+  type BattleMechanicsConfig,
+  type BattleSimulationInput,
+  type SimulatedSquad,
+} from '@/lib/battle-mechanics/types';
+
+const config = {
+  id: 'test',
+  community_id: null,
+  ...DEFAULT_BATTLE_MECHANICS_CONFIG,
+  created_at: '2027-01-01T00:00:00.000Z',
+  updated_at: '2027-01-01T00:00:00.000Z',
+} as BattleMechanicsConfig;
+
+const squad = (overrides: Partial<SimulatedSquad> = {}): SimulatedSquad => ({
+  count: 10,
+  morale: 60,
+  rage: 20,
+  strength: 5,
+  rank: 'Recruit',
+  weaponQuality: null,
+  energy: 100,
+  ...overrides,
+});
+
+const battle = (overrides: Partial<BattleSimulationInput> = {}): BattleSimulationInput => ({
+  attackers: [squad()],
+  defenders: [squad()],
+  config,
+  initialDefense: 10000,
+  runs: 50,
+  seed: 42,
+  ...overrides,
+});
+
+describe('Battle Simulator', () => {
+  describe('Seeded Random', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      const a = createSeededRandom(7);
+      const b = createSeededRandom(7);
+      const sequenceA = Array.from({ length: 20 }, () => a());
+      const sequenceB = Array.from({ length: 20 }, () => b());
+      expect(sequenceA).toEqual(sequenceB);
+    });
+
+    it('should stay within [0, 1)', () => {
+      const random = createSeededRandom(123);
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+
+    it('should differ between seeds', () => {
+      expect(createSeededRandom(1)()).not.toBe(createSeededRandom(2)());
+    });
+  });
+
+  describe('Attack Resolution', () => {
+    const noFocus = { ...config, focus_enabled: false };
+
+    it('should deal 100 damage per strength for an unarmed recruit', () => {
+      const result = resolveSimulatedAttack(
+        { morale: 50, rage: 0, strength: 1, rank: 'Recruit', weaponQuality: null },
+        noFocus,
+        createSeededRandom(1)
+      );
+      expect(result).toEqual({ hit: true, critical: false, damage: 100 });
+    });
+
+    it('should apply the weapon bonus', () => {
+      expect(getWeaponDamageBonus(5)).toBeCloseTo(0.6, 5);
+      expect(getWeaponDamageBonus(null)).toBe(0);
+      expect(getWeaponDamageBonus(6)).toBe(0);
+
+      const result = resolveSimulatedAttack(
+        { morale: 50, rage: 0, strength: 1, rank: 'Recruit', weaponQuality: 5 },
+        noFocus,
+        createSeededRandom(1)
+      );
+      expect(result.damage).toBe(160);
+    });
+
+    it('should apply the rank multiplier', () => {
+      expect(calculateBaseDamage(1, 'General', null)).toBeCloseTo(175, 5);
+    });
+
+    it('should apply the fortification multiplier of the fighter\'s side', () => {
+      const fortifiedBattle = { attacker_damage_multiplier: 0.85, defender_damage_multiplier: 1.2 };
+      expect(getFortificationDamageMultiplier('attacker', fortifiedBattle)).toBeCloseTo(0.85, 5);
+      expect(getFortificationDamageMultiplier('defender', fortifiedBattle)).toBeCloseTo(1.2, 5);
+      expect(getFortificationDamageMultiplier('attacker', null)).toBe(1);
+
+      const result = resolveSimulatedAttack(
+        { morale: 50, rage: 0, strength: 1, rank: 'Recruit', weaponQuality: null },
+        noFocus,
+        createSeededRandom(1),
+        0,
+        { fortificationMultiplier: 0.85 }
+      );
+      expect(result.damage).toBe(85);
+    });
+
+    it('should apply the weapon class matchup, and the fortification multiplier for attackers', () => {
+      expect(getWeaponClassDamageMultiplier('artillery', 'attacker', 'rifle', false)).toBeCloseTo(1.25, 5);
+      expect(getWeaponClassDamageMultiplier('artillery', 'attacker', 'rifle', true)).toBeCloseTo(1.625, 5);
+      expect(getWeaponClassDamageMultiplier('artillery', 'defender', 'rifle', true)).toBeCloseTo(1.25, 5);
+      expect(getWeaponClassDamageMultiplier('rifle', 'attacker', 'artillery', false)).toBeCloseTo(0.8, 5);
+      expect(getWeaponClassDamageMultiplier(null, 'attacker', 'rifle', true)).toBe(1);
+
+      expect(isFortifiedBattle({ fortification_defense: 2500, attacker_damage_multiplier: 1 })).toBe(true);
+      expect(isFortifiedBattle({ fortification_defense: 0, attacker_damage_multiplier: 0.95 })).toBe(true);
+      expect(isFortifiedBattle({ fortification_defense: 0, attacker_damage_multiplier: 1 })).toBe(false);
+
+      expect(applyDamageModifiers(100, { fortificationMultiplier: 0.85, weaponClassMultiplier: 1.25 })).toBe(106);
+    });
+
+    it('should always crit at 100 rage', () => {
+      const result = resolveSimulatedAttack(
+        { morale: 50, rage: 100, strength: 1, rank: 'Recruit', weaponQuality: null },
+        noFocus,
+        createSeededRandom(1)
+      );
+      expect(result).toEqual({ hit: true, critical: true, damage: 300 });
+    });
+
+    it('should always miss at 0 morale', () => {
+      const random = createSeededRandom(9);
+      for (let i = 0; i < 100; i++) {
+        const result = resolveSimulatedAttack(
+          { morale: 0, rage: 100, strength: 10, rank: 'General', weaponQuality: 5 },
+          config,
+          random
+        );
+        expect(result.hit).toBe(false);
+        expect(result.damage).toBe(0);
+      }
+    });
+  });
+
+  describe('Battle Simulation', () => {
+    it('should produce identical reports for the same seed', () => {
+      expect(runBattleSimulation(battle())).toEqual(runBattleSimulation(battle()));
+    });
+
+    it('should produce different damage for different seeds', () => {
+      const a = runBattleSimulation(battle({ seed: 1 }));
+      const b = runBattleSimulation(battle({ seed: 2 }));
+      expect(a.attacker.damage.mean).not.toBe(b.attacker.damage.mean);
+    });
+
+    it('should give the win to overwhelming attackers', () => {
+      const report = runBattleSimulation(
+        battle({ attackers: [squad({ count: 50, morale: 100, strength: 20 })], defenders: [squad({ count: 1 })] })
+      );
+      expect(report.attacker.winProbability).toBe(1);
+      expect(report.defender.timeToVictoryHours).toBeNull();
+      expect(report.attacker.timeToVictoryHours!.max).toBeLessThanOrEqual(report.durationHours);
+    });
+
+    it('should let defenders hold when nobody attacks', () => {
+      const report = runBattleSimulation(battle({ attackers: [squad({ count: 0 })] }));
+      expect(report.defender.winProbability).toBe(1);
+      expect(report.attacker.damage.max).toBe(0);
+      expect(report.defender.timeToVictoryHours!.max).toBe(0);
+    });
+
+    it('should favour the side with higher morale', () => {
+      const report = runBattleSimulation(
+        battle({
+          attackers: [squad({ morale: 90 })],
+          defenders: [squad({ morale: 20 })],
+          initialDefense: 0,
+        })
+      );
+      expect(report.attacker.hitRate).toBeGreaterThan(report.defender.hitRate);
+      expect(report.attacker.winProbability).toBeGreaterThan(0.5);
+    });
+
+    it('should spend more energy per fight under disarray', () => {
+      const calm = runBattleSimulation(battle({ runs: 1 }));
+      const disarrayed = runBattleSimulation(battle({ runs: 1, attackerDisarrayMultiplier: 3 }));
+      expect(disarrayed.attacker.damage.mean).toBeLessThan(calm.attacker.damage.mean);
+    });
+
+    it('should weaken attackers against bunkers', () => {
+      const open = runBattleSimulation(battle({ runs: 1 }));
+      const bunkered = runBattleSimulation(battle({ runs: 1, attackerDamageMultiplier: 0.85 }));
+      expect(bunkered.attacker.damage.mean).toBeLessThan(open.attacker.damage.mean);
+    });
+
+    it('should favour the weapon class that counters the other side', () => {
+      const defenders = [squad({ weaponQuality: 1, weaponClass: 'rifle' })];
+      const countering = runBattleSimulation(
+        battle({ runs: 1, attackers: [squad({ weaponQuality: 1, weaponClass: 'artillery' })], defenders })
+      );
+      const countered = runBattleSimulation(
+        battle({ runs: 1, attackers: [squad({ weaponQuality: 1, weaponClass: 'anti_armor' })], defenders })
+      );
+      expect(countering.attacker.damage.mean).toBeGreaterThan(countered.attacker.damage.mean);
+    });
+
+    it('should let artillery break fortifications', () => {
+      const attackers = [squad({ weaponQuality: 1, weaponClass: 'artillery' })];
+      const open = runBattleSimulation(battle({ runs: 1, attackers }));
+      const walled = runBattleSimulation(battle({ runs: 1, attackers, fortificationDefense: 2500 }));
+      expect(walled.attacker.damage.mean).toBeGreaterThan(open.attacker.damage.mean);
+    });
+
+    it('should cost unsupplied defenders more energy per fight', () => {
+      expect(getSupplyEnergyMultiplier('defender', false)).toBe(1.5);
+      expect(getSupplyEnergyMultiplier('attacker', false)).toBe(1);
+      expect(getSupplyEnergyMultiplier('defender', true)).toBe(1);
+
+      const supplied = runBattleSimulation(battle({ runs: 1 }));
+      const cutOff = runBattleSimulation(battle({ runs: 1, defenderSupplied: false }));
+      expect(cutOff.defender.damage.mean).toBeLessThan(supplied.defender.damage.mean);
+    });
+  });
+
+  describe('Distribution Summary', () => {
+    it('should report mean, range and percentiles', () => {
+      const summary = summarizeDistribution([5, 1, 4, 2, 3, 6, 7, 8, 9, 10]);
+      expect(summary.mean).toBeCloseTo(5.5, 5);
+      expect(summary.min).toBe(1);
+      expect(summary.max).toBe(10);
+      expect(summary.p10).toBe(2);
+      expect(summary.p50).toBe(6);
+      expect(summary.p90).toBe(10);
+    });
+
+    it('should return zeros for an empty sample', () => {
+      expect(summarizeDistribution([])).toEqual({ mean: 0, min: 0, max: 0, p10: 0, p50: 0, p90: 0 });
+    });
+  });
+});